@@ -26,6 +26,7 @@ const AUDITED_TABLES = [
   'trip_requests',
   'subscriptions',
   'payment_transactions',
+  'payment_refunds',
   'notifications',
   'verification_logs',
 ] as const
@@ -0,0 +1,295 @@
+'use server'
+
+import { createServerActionClient } from '@supabase/auth-helpers-nextjs'
+import { createClient } from '@supabase/supabase-js'
+import { cookies } from 'next/headers'
+import { logger } from '@/lib/logger'
+import { parseApiTimestamptz } from '@/lib/guyana-time'
+import {
+  loadCampaignReport,
+  resolveSegment,
+  type CampaignReport,
+  type NotificationCampaign,
+} from '@/lib/notification-campaigns'
+import {
+  campaignSegmentToJson,
+  parseCampaignSegment,
+  validateCampaignSegment,
+  type CampaignAudience,
+  type CampaignSegment,
+} from '@/lib/notification-campaign-segments'
+import { applyNotificationPreferences } from '@/lib/notification-preferences'
+import { renderAdminTemplate } from '@/lib/notification-templates'
+import type { Database, NotificationCategory } from '@/types/database'
+import { validateCampaignInput, type CampaignInput } from './campaign-input'
+
+function createServiceClient() {
+  return createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+}
+
+async function requireAdmin(): Promise<
+  | { ok: true; db: ReturnType<typeof createServiceClient>; adminUserId: string; adminAuthId: string }
+  | { ok: false; error: string }
+> {
+  const authClient = createServerActionClient({ cookies })
+  const {
+    data: { user: authUser },
+    error: authError,
+  } = await authClient.auth.getUser()
+
+  if (authError || !authUser) {
+    return { ok: false, error: 'Not authenticated' }
+  }
+
+  const db = createServiceClient()
+  const { data: userRow, error: userError } = await db
+    .from('users')
+    .select('id, role')
+    .eq('auth_id', authUser.id)
+    .single()
+
+  if (userError || !userRow || userRow.role !== 'admin') {
+    return { ok: false, error: 'Only administrators can manage campaigns.' }
+  }
+
+  return { ok: true, db, adminUserId: userRow.id, adminAuthId: authUser.id }
+}
+
+export type CampaignRow = NotificationCampaign & { parsed_segment: CampaignSegment; created_by_name: string | null }
+
+export type ListCampaignsResult = { ok: true; rows: CampaignRow[] } | { ok: false; error: string }
+
+/** Campaigns, latest scheduled first. */
+export async function listCampaigns(): Promise<ListCampaignsResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const { data, error } = await gate.db
+    .from('notification_campaigns')
+    .select('*')
+    .order('scheduled_at', { ascending: false })
+    .limit(200)
+  if (error) {
+    logger.error('listCampaigns failed', { error })
+    return { ok: false, error: 'Failed to load campaigns.' }
+  }
+
+  const rows = data ?? []
+  const creatorIds = Array.from(new Set(rows.map((r) => r.created_by).filter((id): id is string => Boolean(id))))
+  const { data: creators } = creatorIds.length
+    ? await gate.db.from('users').select('id, full_name').in('id', creatorIds)
+    : { data: [] as { id: string; full_name: string }[] }
+  const nameById = new Map((creators ?? []).map((u) => [u.id, u.full_name]))
+
+  return {
+    ok: true,
+    rows: rows.map((r) => ({
+      ...r,
+      parsed_segment: parseCampaignSegment(r.segment),
+      created_by_name: r.created_by ? nameById.get(r.created_by) ?? null : null,
+    })),
+  }
+}
+
+export type CampaignZone = { code: string; label: string }
+
+export type ListCampaignZonesResult = { ok: true; zones: CampaignZone[] } | { ok: false; error: string }
+
+/** Zones a segment can filter trip pickups by. */
+export async function listCampaignZones(): Promise<ListCampaignZonesResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const { data, error } = await gate.db
+    .from('cost_estimate_zones')
+    .select('code, label')
+    .order('sort_order')
+    .order('code')
+  if (error) {
+    logger.error('listCampaignZones failed', { error })
+    return { ok: false, error: 'Failed to load zones.' }
+  }
+  return { ok: true, zones: data ?? [] }
+}
+
+export type CampaignPreview = {
+  /** Users whose profile matches the segment. */
+  matched: number
+  /** Active users with a push token: who the campaign would go to. */
+  reachable: number
+  /** Of those, skipped at the scheduled time by their notification preferences. */
+  optedOut: number
+  quietHours: number
+}
+
+export type PreviewCampaignResult = { ok: true; preview: CampaignPreview } | { ok: false; error: string }
+
+/**
+ * Recipient count for a segment as it stands now. The list is built again when the campaign
+ * starts, so the final count can differ.
+ */
+export async function previewCampaignSegment(input: {
+  audience: CampaignAudience
+  segment: CampaignSegment
+  category: NotificationCategory
+  scheduled_at: string | null
+}): Promise<PreviewCampaignResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const invalid = validateCampaignSegment(input.segment)
+  if (invalid) return { ok: false, error: invalid }
+  const segment = parseCampaignSegment(campaignSegmentToJson(input.segment))
+  const scheduledAt = input.scheduled_at ? parseApiTimestamptz(input.scheduled_at) : new Date()
+  const at = Number.isNaN(scheduledAt.getTime()) ? new Date() : scheduledAt
+
+  try {
+    const { matched, userIds } = await resolveSegment(gate.db, input.audience, segment)
+    const filter = await applyNotificationPreferences(gate.db, userIds, input.category, at)
+    return {
+      ok: true,
+      preview: {
+        matched,
+        reachable: userIds.length,
+        optedOut: filter.suppressed.opted_out.length,
+        quietHours: filter.suppressed.quiet_hours.length,
+      },
+    }
+  } catch (error) {
+    logger.error('previewCampaignSegment failed', { error, audience: input.audience })
+    return { ok: false, error: 'Failed to count recipients.' }
+  }
+}
+
+export type CreateCampaignResult = { ok: true; id: string } | { ok: false; error: string }
+
+/** Schedules a campaign. A template must be one that can be broadcast (no recipient name). */
+export async function createCampaign(input: CampaignInput): Promise<CreateCampaignResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const normalized: CampaignInput = {
+    ...input,
+    name: input.name.trim(),
+    template_key: input.template_key || null,
+    title: input.template_key ? null : input.title?.trim() || null,
+    body: input.template_key ? null : input.body?.trim() || null,
+  }
+  const invalid = validateCampaignInput(normalized)
+  if (invalid) return { ok: false, error: invalid }
+
+  const scheduledAt = parseApiTimestamptz(normalized.scheduled_at)
+  if (Number.isNaN(scheduledAt.getTime())) return { ok: false, error: 'Choose a valid send time.' }
+  if (scheduledAt.getTime() < Date.now() - 60_000) return { ok: false, error: 'The send time is in the past.' }
+
+  if (normalized.template_key) {
+    try {
+      await renderAdminTemplate(gate.db, normalized.template_key, [], { broadcast: true })
+    } catch (error) {
+      return { ok: false, error: error instanceof Error ? error.message : 'This template cannot be used.' }
+    }
+  }
+
+  const values = {
+    name: normalized.name,
+    audience: normalized.audience,
+    // Drops unknown statuses and duplicate zones
+    segment: campaignSegmentToJson(parseCampaignSegment(campaignSegmentToJson(normalized.segment))),
+    category: normalized.category,
+    template_key: normalized.template_key,
+    title: normalized.title,
+    body: normalized.body,
+    scheduled_at: scheduledAt.toISOString(),
+    throttle_per_minute: normalized.throttle_per_minute,
+  }
+  const { data: saved, error } = await gate.db
+    .from('notification_campaigns')
+    .insert({ ...values, created_by: gate.adminUserId })
+    .select('id')
+    .single()
+  if (error || !saved) {
+    logger.error('createCampaign failed', { error, name: normalized.name })
+    return { ok: false, error: 'Failed to save campaign.' }
+  }
+
+  const { error: auditError } = await gate.db.from('audit_logs').insert({
+    table_name: 'notification_campaigns',
+    record_id: saved.id,
+    action: 'INSERT',
+    old_data: null,
+    new_data: values,
+    changed_at: new Date().toISOString(),
+    actor_id: gate.adminAuthId,
+  })
+  if (auditError) logger.error('Campaign create audit failed', { error: auditError, campaignId: saved.id })
+
+  return { ok: true, id: saved.id }
+}
+
+export type CancelCampaignResult = { ok: true } | { ok: false; error: string }
+
+/** Stops a scheduled or sending campaign. Recipients already queued still get the message. */
+export async function cancelCampaign(id: string): Promise<CancelCampaignResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const { data: campaign, error: loadError } = await gate.db
+    .from('notification_campaigns')
+    .select('id, status')
+    .eq('id', id)
+    .maybeSingle()
+  if (loadError) {
+    logger.error('cancelCampaign load failed', { error: loadError, id })
+    return { ok: false, error: 'Failed to load campaign.' }
+  }
+  if (!campaign) return { ok: false, error: 'Campaign not found.' }
+  if (campaign.status !== 'scheduled' && campaign.status !== 'sending') {
+    return { ok: false, error: 'Only a scheduled or sending campaign can be cancelled.' }
+  }
+
+  const now = new Date().toISOString()
+  const { data: cancelled, error } = await gate.db
+    .from('notification_campaigns')
+    .update({ status: 'cancelled', cancelled_by: gate.adminUserId, cancelled_at: now, updated_at: now })
+    .eq('id', id)
+    .eq('status', campaign.status)
+    .select('id')
+  if (error) {
+    logger.error('cancelCampaign failed', { error, id })
+    return { ok: false, error: 'Failed to cancel campaign.' }
+  }
+  if (!cancelled || cancelled.length === 0) {
+    return { ok: false, error: 'The campaign changed status meanwhile; reload and try again.' }
+  }
+
+  const { error: auditError } = await gate.db.from('audit_logs').insert({
+    table_name: 'notification_campaigns',
+    record_id: id,
+    action: 'UPDATE',
+    old_data: { status: campaign.status },
+    new_data: { status: 'cancelled' },
+    changed_at: now,
+    actor_id: gate.adminAuthId,
+  })
+  if (auditError) logger.error('Campaign cancel audit failed', { error: auditError, campaignId: id })
+
+  return { ok: true }
+}
+
+export type GetCampaignReportResult = { ok: true; report: CampaignReport } | { ok: false; error: string }
+
+export async function getCampaignReport(id: string): Promise<GetCampaignReportResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  try {
+    return { ok: true, report: await loadCampaignReport(gate.db, id) }
+  } catch (error) {
+    logger.error('getCampaignReport failed', { error, id })
+    return { ok: false, error: 'Failed to load the campaign report.' }
+  }
+}
@@ -0,0 +1,44 @@
+import { isNotificationCategory } from '@/lib/notification-preferences'
+import {
+  validateCampaignSegment,
+  type CampaignAudience,
+  type CampaignSegment,
+} from '@/lib/notification-campaign-segments'
+import type { NotificationCategory } from '@/types/database'
+
+export type CampaignInput = {
+  name: string
+  audience: CampaignAudience
+  segment: CampaignSegment
+  category: NotificationCategory
+  template_key: string | null
+  title: string | null
+  body: string | null
+  /** Guyana local time, `yyyy-MM-ddTHH:mm` as a `datetime-local` input gives it. */
+  scheduled_at: string
+  throttle_per_minute: number
+}
+
+export const DEFAULT_THROTTLE_PER_MINUTE = 500
+export const MAX_THROTTLE_PER_MINUTE = 10000
+
+/** Server-side checks mirroring the `notification_campaigns` constraints; returns an error message or null. */
+export function validateCampaignInput(input: CampaignInput): string | null {
+  if (!input.name || input.name.length > 100) return 'Name is required (at most 100 characters).'
+  if (input.audience !== 'driver' && input.audience !== 'rider') return 'Audience must be drivers or riders.'
+  if (!isNotificationCategory(input.category)) return 'Choose a category.'
+  const segmentError = validateCampaignSegment(input.segment)
+  if (segmentError) return segmentError
+  if (!input.template_key) {
+    if (!input.title || input.title.length > 100) return 'Title is required (at most 100 characters).'
+    if (!input.body || input.body.length > 500) return 'Body is required (at most 500 characters).'
+  }
+  if (
+    !Number.isInteger(input.throttle_per_minute) ||
+    input.throttle_per_minute < 1 ||
+    input.throttle_per_minute > MAX_THROTTLE_PER_MINUTE
+  ) {
+    return `Send rate must be a whole number from 1 to ${MAX_THROTTLE_PER_MINUTE} per minute.`
+  }
+  return null
+}
@@ -0,0 +1,506 @@
+'use client'
+
+import { Fragment, useCallback, useEffect, useState, type FormEvent } from 'react'
+import { CalendarClock, ChevronDown, ChevronRight, Loader2, Plus, Users } from 'lucide-react'
+import { formatGuyana } from '@/lib/guyana-time'
+import {
+  CAMPAIGN_STATUSES,
+  EMPTY_SEGMENT,
+  MAX_TRIP_WITHIN_DAYS,
+  SUBSCRIPTION_STATUSES,
+  describeSegment,
+  type CampaignAudience,
+} from '@/lib/notification-campaign-segments'
+import { TemplatePicker } from '../notification-templates/template-picker'
+import type { SendableTemplate } from '../notification-templates/actions'
+import { CategorySelect } from '../notifications/category-select'
+import {
+  cancelCampaign,
+  createCampaign,
+  getCampaignReport,
+  listCampaignZones,
+  listCampaigns,
+  previewCampaignSegment,
+  type CampaignPreview,
+  type CampaignRow,
+  type CampaignZone,
+} from './actions'
+import { DEFAULT_THROTTLE_PER_MINUTE, MAX_THROTTLE_PER_MINUTE } from './campaign-input'
+import type { CampaignReport } from '@/lib/notification-campaigns'
+import type { NotificationCategory, SubscriptionStatus } from '@/types/database'
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+const btnPrimary =
+  'inline-flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50'
+const btnSecondary =
+  'inline-flex items-center justify-center gap-2 px-3 py-1.5 border border-gray-300 text-sm rounded-lg hover:bg-gray-50 disabled:opacity-50'
+
+/** `datetime-local` value in Guyana time, which is how the send time is entered. */
+function toGuyanaInput(date: Date): string {
+  return formatGuyana(date, "yyyy-MM-dd'T'HH:mm")
+}
+
+function statusBadge(row: CampaignRow) {
+  const status = CAMPAIGN_STATUSES.find((s) => s.value === row.status)
+  return (
+    <span className={`rounded px-2 py-0.5 text-xs font-medium ${status?.className ?? 'bg-gray-100 text-gray-700'}`}>
+      {status?.label ?? row.status}
+    </span>
+  )
+}
+
+export default function CampaignsPage() {
+  const [rows, setRows] = useState<CampaignRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [creating, setCreating] = useState(false)
+  const [cancelling, setCancelling] = useState<string | null>(null)
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    const res = await listCampaigns()
+    if (!res.ok) {
+      setError(res.error)
+    } else {
+      setRows(res.rows)
+    }
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  async function handleCancel(row: CampaignRow) {
+    const sending = row.status === 'sending'
+    if (!confirm(sending ? `Stop ${row.name}? Recipients already sent to are not affected.` : `Cancel ${row.name}?`)) {
+      return
+    }
+    setCancelling(row.id)
+    const res = await cancelCampaign(row.id)
+    setCancelling(null)
+    if (!res.ok) {
+      alert(res.error)
+      return
+    }
+    await load()
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <CalendarClock className="h-8 w-8 text-blue-600" aria-hidden />
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Campaigns</h1>
+            <p className="text-sm text-gray-600 mt-1">
+              Scheduled pushes to a segment of drivers or riders. At the send time the segment is turned into a
+              recipient list, which goes out at the chosen rate per minute. Notification preferences apply.
+            </p>
+          </div>
+        </div>
+        <button type="button" className={btnPrimary} onClick={() => setCreating(true)}>
+          <Plus className="h-4 w-4" />
+          New campaign
+        </button>
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-red-50 border border-red-200 text-red-800 px-4 py-3 text-sm">{error}</div>
+      )}
+
+      <div className="rounded-xl border border-gray-200 bg-white overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Campaign</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Segment</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Send time (GYT)</th>
+              <th className="px-4 py-3 text-right font-medium text-gray-700">Recipients</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Status</th>
+              <th className="px-4 py-3 text-right font-medium text-gray-700">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {loading ? (
+              <tr>
+                <td colSpan={6} className="px-4 py-8 text-center text-gray-500">
+                  <Loader2 className="h-5 w-5 animate-spin inline" />
+                </td>
+              </tr>
+            ) : rows.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-4 py-8 text-center text-gray-500">
+                  No campaigns yet.
+                </td>
+              </tr>
+            ) : (
+              rows.map((row) => {
+                const open = expanded === row.id
+                return (
+                  <Fragment key={row.id}>
+                    <tr className="align-top hover:bg-gray-50">
+                      <td className="px-4 py-3">
+                        <button
+                          type="button"
+                          className="inline-flex items-center gap-1 font-medium text-gray-900 text-left"
+                          onClick={() => setExpanded(open ? null : row.id)}
+                        >
+                          {open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          {row.name}
+                        </button>
+                        <p className="text-xs text-gray-500 ml-5">
+                          {row.template_key ? `Template ${row.template_key}` : row.title} · {row.category}
+                          {row.created_by_name && ` · by ${row.created_by_name}`}
+                        </p>
+                      </td>
+                      <td className="px-4 py-3 text-xs text-gray-700 max-w-xs">
+                        {describeSegment(row.audience, row.parsed_segment)}
+                      </td>
+                      <td className="px-4 py-3 text-xs whitespace-nowrap">
+                        {formatGuyana(row.scheduled_at, 'MMM d, yyyy HH:mm')}
+                        <p className="text-gray-500">{row.throttle_per_minute.toLocaleString()} / min</p>
+                      </td>
+                      <td className="px-4 py-3 text-right tabular-nums">
+                        {row.recipient_count != null ? row.recipient_count.toLocaleString() : '—'}
+                      </td>
+                      <td className="px-4 py-3">
+                        {statusBadge(row)}
+                        {row.last_error && <p className="text-xs text-red-700 mt-1">{row.last_error}</p>}
+                      </td>
+                      <td className="px-4 py-3 text-right whitespace-nowrap">
+                        {(row.status === 'scheduled' || row.status === 'sending') && (
+                          <button
+                            type="button"
+                            className={btnSecondary}
+                            disabled={cancelling === row.id}
+                            onClick={() => void handleCancel(row)}
+                          >
+                            {row.status === 'sending' ? 'Stop' : 'Cancel'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                    {open && (
+                      <tr>
+                        <td colSpan={6} className="bg-gray-50 px-4 py-3">
+                          <CampaignReportPanel campaign={row} />
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                )
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {creating && (
+        <CampaignModal
+          onClose={() => setCreating(false)}
+          onSaved={async () => {
+            setCreating(false)
+            await load()
+          }}
+        />
+      )}
+    </div>
+  )
+}
+
+function ReportStat({ label, value, hint }: { label: string; value: number; hint?: string }) {
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white px-3 py-2">
+      <p className="text-xs font-medium text-gray-500 uppercase tracking-wider">{label}</p>
+      <p className="mt-0.5 text-lg font-semibold text-gray-900 tabular-nums">{value.toLocaleString()}</p>
+      {hint && <p className="text-xs text-gray-500">{hint}</p>}
+    </div>
+  )
+}
+
+function CampaignReportPanel({ campaign }: { campaign: CampaignRow }) {
+  const [report, setReport] = useState<CampaignReport | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    void getCampaignReport(campaign.id).then((res) => {
+      if (res.ok) setReport(res.report)
+      else setError(res.error)
+    })
+  }, [campaign.id])
+
+  if (campaign.status === 'scheduled') {
+    return <p className="text-sm text-gray-500">Not started yet. The recipient list is built at the send time.</p>
+  }
+  if (error) return <p className="text-sm text-red-700">{error}</p>
+  if (!report) return <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+
+  const { recipients } = report
+  const waiting = recipients.pending + recipients.processing
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+        <ReportStat label="Waiting" value={waiting} hint="Not handed to the outbox yet" />
+        <ReportStat label="Queued" value={recipients.queued} hint={`${report.messages.total} messages`} />
+        <ReportStat
+          label="Skipped"
+          value={recipients.suppressed}
+          hint={`${report.suppressed.optedOut} opted out · ${report.suppressed.quietHours} quiet hours`}
+        />
+        <ReportStat label="Devices reached" value={report.push.successCount} />
+        <ReportStat label="Devices failed" value={report.push.failureCount} />
+      </div>
+      <p className="text-xs text-gray-500">
+        Messages: {report.messages.sent} sent, {report.messages.queued} waiting in the outbox,{' '}
+        {report.messages.failed} failed
+        {recipients.failed > 0 && `; ${recipients.failed} recipients could not be queued`}. Each message is one
+        push per language to many recipients; see Message logs for details.
+      </p>
+    </div>
+  )
+}
+
+function CampaignModal({ onClose, onSaved }: { onClose: () => void; onSaved: () => Promise<void> }) {
+  const [name, setName] = useState('')
+  const [audience, setAudience] = useState<CampaignAudience>('rider')
+  const [statuses, setStatuses] = useState<SubscriptionStatus[]>(EMPTY_SEGMENT.subscriptionStatuses)
+  const [tripWithinDays, setTripWithinDays] = useState('')
+  const [zones, setZones] = useState<string[]>(EMPTY_SEGMENT.zones)
+  const [zoneOptions, setZoneOptions] = useState<CampaignZone[]>([])
+  const [category, setCategory] = useState<NotificationCategory>('marketing')
+  const [template, setTemplate] = useState<SendableTemplate | null>(null)
+  const [title, setTitle] = useState('')
+  const [body, setBody] = useState('')
+  const [scheduledAt, setScheduledAt] = useState(() => toGuyanaInput(new Date(Date.now() + 60 * 60 * 1000)))
+  const [throttle, setThrottle] = useState(String(DEFAULT_THROTTLE_PER_MINUTE))
+  const [preview, setPreview] = useState<CampaignPreview | null>(null)
+  const [previewing, setPreviewing] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [err, setErr] = useState<string | null>(null)
+
+  useEffect(() => {
+    void listCampaignZones().then((res) => {
+      if (res.ok) setZoneOptions(res.zones)
+    })
+  }, [])
+
+  const days = tripWithinDays.trim() ? Number(tripWithinDays) : null
+  const segment = { subscriptionStatuses: statuses, tripWithinDays: days, zones: days !== null ? zones : [] }
+
+  // The count is stale once the segment or send time changes
+  useEffect(() => {
+    setPreview(null)
+  }, [audience, statuses, tripWithinDays, zones, category, scheduledAt])
+
+  function toggle<T>(list: T[], value: T): T[] {
+    return list.includes(value) ? list.filter((v) => v !== value) : [...list, value]
+  }
+
+  async function handlePreview() {
+    setErr(null)
+    setPreviewing(true)
+    const res = await previewCampaignSegment({ audience, segment, category, scheduled_at: scheduledAt || null })
+    setPreviewing(false)
+    if (!res.ok) {
+      setErr(res.error)
+      return
+    }
+    setPreview(res.preview)
+  }
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault()
+    setErr(null)
+    setSaving(true)
+    const res = await createCampaign({
+      name,
+      audience,
+      segment,
+      category,
+      template_key: template?.key ?? null,
+      title: template ? null : title,
+      body: template ? null : body,
+      scheduled_at: scheduledAt,
+      throttle_per_minute: Number(throttle),
+    })
+    setSaving(false)
+    if (!res.ok) {
+      setErr(res.error)
+      return
+    }
+    await onSaved()
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 overflow-y-auto">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full p-6 space-y-4 my-8">
+        <h3 className="text-lg font-semibold">New campaign</h3>
+        <form onSubmit={(e) => void handleSubmit(e)} className="space-y-4">
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Name (admin only)</label>
+            <input
+              className={inputClass}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="East Coast win-back"
+              maxLength={100}
+              required
+            />
+          </div>
+
+          <fieldset className="space-y-3 rounded-lg border border-gray-200 p-3">
+            <legend className="px-1 text-xs font-medium text-gray-600">Segment</legend>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Audience</label>
+              <select
+                className={inputClass}
+                value={audience}
+                onChange={(e) => setAudience(e.target.value as CampaignAudience)}
+              >
+                <option value="rider">Riders</option>
+                <option value="driver">Drivers</option>
+              </select>
+            </div>
+            <div>
+              <p className="block text-xs font-medium text-gray-600 mb-1">Subscription (none ticked = any)</p>
+              <div className="flex flex-wrap gap-x-4 gap-y-1">
+                {SUBSCRIPTION_STATUSES.map((s) => (
+                  <label key={s.value} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={statuses.includes(s.value)}
+                      onChange={() => setStatuses(toggle(statuses, s.value))}
+                    />
+                    {s.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">
+                Completed a trip in the last … days
+              </label>
+              <input
+                type="number"
+                min={1}
+                max={MAX_TRIP_WITHIN_DAYS}
+                className={inputClass}
+                value={tripWithinDays}
+                onChange={(e) => setTripWithinDays(e.target.value)}
+                placeholder="Any, trips or not"
+              />
+            </div>
+            {days !== null && zoneOptions.length > 0 && (
+              <div>
+                <p className="block text-xs font-medium text-gray-600 mb-1">
+                  Picked up in (none ticked = anywhere)
+                </p>
+                <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+                  {zoneOptions.map((z) => (
+                    <label key={z.code} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={zones.includes(z.code)}
+                        onChange={() => setZones(toggle(zones, z.code))}
+                      />
+                      {z.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+            <p className="text-xs text-gray-600">{describeSegment(audience, segment)}</p>
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                className={btnSecondary}
+                disabled={previewing}
+                onClick={() => void handlePreview()}
+              >
+                {previewing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Users className="h-4 w-4" />}
+                Count recipients
+              </button>
+              {preview && (
+                <p className="text-xs text-gray-700">
+                  <span className="font-semibold">{preview.reachable - preview.optedOut - preview.quietHours}</span>{' '}
+                  would get it, of {preview.matched} matching ({preview.reachable} with the app installed;{' '}
+                  {preview.optedOut} opted out, {preview.quietHours} in quiet hours at the send time).
+                </p>
+              )}
+            </div>
+          </fieldset>
+
+          <CategorySelect id="campaign-category" value={category} onChange={setCategory} />
+
+          <TemplatePicker id="campaign-template" value={template} onChange={setTemplate} broadcast />
+
+          {!template && (
+            <>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Title</label>
+                <input
+                  className={inputClass}
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  maxLength={100}
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Message</label>
+                <textarea
+                  className={inputClass}
+                  rows={3}
+                  value={body}
+                  onChange={(e) => setBody(e.target.value)}
+                  maxLength={500}
+                  required
+                />
+              </div>
+            </>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Send at (Guyana time)</label>
+              <input
+                type="datetime-local"
+                className={inputClass}
+                value={scheduledAt}
+                onChange={(e) => setScheduledAt(e.target.value)}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Recipients per minute</label>
+              <input
+                type="number"
+                min={1}
+                max={MAX_THROTTLE_PER_MINUTE}
+                className={inputClass}
+                value={throttle}
+                onChange={(e) => setThrottle(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          {err && <p className="text-sm text-red-600">{err}</p>}
+          <div className="flex gap-2 justify-end pt-2">
+            <button type="button" className={btnSecondary} onClick={onClose}>
+              Cancel
+            </button>
+            <button type="submit" className={btnPrimary} disabled={saving}>
+              {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+              Schedule
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
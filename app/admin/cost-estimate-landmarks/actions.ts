@@ -5,6 +5,12 @@ import { createClient } from '@supabase/supabase-js'
 import { cookies } from 'next/headers'
 import { logger } from '@/lib/logger'
 import type { Database } from '@/types/database'
+import {
+  isZoneGeometry,
+  zoneBoundariesFromRows,
+  type ZoneGeometry,
+} from '@/supabase/functions/_shared/zones'
+import { parseLandmarkFile, previewLandmarkImport, type LandmarkFileFormat } from './landmark-io'
 
 function createServiceClient() {
   return createClient<Database>(
@@ -55,7 +61,7 @@ export async function listCostEstimateZones(): Promise<ListZonesResult> {
 
   const { data, error } = await gate.db
     .from('cost_estimate_zones')
-    .select('code, label, sort_order, created_at, updated_at')
+    .select('code, label, sort_order, boundary, created_at, updated_at')
     .order('sort_order', { ascending: true })
     .order('code', { ascending: true })
 
@@ -106,7 +112,7 @@ export async function createCostEstimateZone(input: {
       label,
       sort_order: Math.trunc(input.sort_order),
     })
-    .select('code, label, sort_order, created_at, updated_at')
+    .select('code, label, sort_order, boundary, created_at, updated_at')
     .single()
 
   if (error) {
@@ -151,6 +157,50 @@ export async function updateCostEstimateZone(
   return { ok: true }
 }
 
+export type UpdateZoneBoundaryResult = { ok: true } | { ok: false; error: string }
+
+function closeRing(ring: number[][]): number[][] {
+  if (!Array.isArray(ring) || ring.length === 0) return ring
+  const [first, last] = [ring[0], ring[ring.length - 1]]
+  return first?.[0] === last?.[0] && first?.[1] === last?.[1] ? ring : [...ring, first]
+}
+
+/** Save (or clear with `null`) the polygon the cost-estimates function uses to classify points into this zone. */
+export async function updateCostEstimateZoneBoundary(
+  code: string,
+  boundary: ZoneGeometry | null
+): Promise<UpdateZoneBoundaryResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  let normalized: ZoneGeometry | null = null
+  if (boundary) {
+    const closed: ZoneGeometry =
+      boundary.type === 'Polygon'
+        ? { type: 'Polygon', coordinates: boundary.coordinates?.map?.(closeRing) }
+        : { type: 'MultiPolygon', coordinates: boundary.coordinates?.map?.((p) => p.map(closeRing)) }
+    if (!isZoneGeometry(closed)) {
+      return { ok: false, error: 'Boundary must be a GeoJSON Polygon or MultiPolygon with at least 3 points.' }
+    }
+    const positions = (closed.type === 'Polygon' ? [closed.coordinates] : closed.coordinates).flat(2)
+    if (positions.some(([lng, lat]) => Math.abs(lat) > 90 || Math.abs(lng) > 180)) {
+      return { ok: false, error: 'Boundary positions must be [longitude, latitude].' }
+    }
+    normalized = closed
+  }
+
+  const { error } = await gate.db
+    .from('cost_estimate_zones')
+    .update({ boundary: normalized })
+    .eq('code', code)
+
+  if (error) {
+    logger.error('updateCostEstimateZoneBoundary failed', { error, code })
+    return { ok: false, error: 'Failed to save zone boundary.' }
+  }
+  return { ok: true }
+}
+
 export type DeleteZoneResult = { ok: true } | { ok: false; error: string }
 
 export async function deleteCostEstimateZone(code: string): Promise<DeleteZoneResult> {
@@ -180,16 +230,28 @@ export async function listCostEstimateLandmarks(): Promise<ListLandmarksResult>
   const gate = await requireAdmin()
   if (!gate.ok) return { ok: false, error: gate.error }
 
-  const { data, error } = await gate.db
-    .from('cost_estimate_landmarks')
-    .select('id, name, aliases, lat, lng, area, zone_code, created_at, updated_at')
-    .order('name', { ascending: true })
-
-  if (error) {
+  try {
+    return { ok: true, rows: await loadAllLandmarks(gate.db) }
+  } catch (error) {
     logger.error('listCostEstimateLandmarks failed', { error })
     return { ok: false, error: 'Failed to load landmarks.' }
   }
-  return { ok: true, rows: data ?? [] }
+}
+
+/** Every landmark by name, paged past PostgREST's 1000-row default. */
+async function loadAllLandmarks(db: ReturnType<typeof createServiceClient>): Promise<CostEstimateLandmarkRow[]> {
+  const rows: CostEstimateLandmarkRow[] = []
+  for (let offset = 0; ; offset += 1000) {
+    const { data, error } = await db
+      .from('cost_estimate_landmarks')
+      .select('id, name, aliases, lat, lng, area, zone_code, created_at, updated_at')
+      .order('name', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + 999)
+    if (error) throw error
+    rows.push(...(data ?? []))
+    if (!data || data.length < 1000) return rows
+  }
 }
 
 function parseAliases(raw: string): string[] {
@@ -331,3 +393,96 @@ export async function deleteCostEstimateLandmark(id: string): Promise<DeleteLand
   }
   return { ok: true }
 }
+
+export type ImportLandmarksResult =
+  | { ok: true; created: number; updated: number; unchanged: number; invalid: number }
+  | { ok: false; error: string }
+
+/**
+ * Apply a CSV/GeoJSON landmark file. The dry run is repeated here against the current tables, so
+ * rows that became invalid since the preview are skipped; warnings don't block a row.
+ */
+export async function importCostEstimateLandmarks(
+  text: string,
+  format: LandmarkFileFormat
+): Promise<ImportLandmarksResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const parsed = parseLandmarkFile(text, format)
+  if (parsed.fileError) return { ok: false, error: parsed.fileError }
+
+  let landmarks: CostEstimateLandmarkRow[]
+  const zones = await gate.db.from('cost_estimate_zones').select('code, sort_order, boundary')
+  try {
+    if (zones.error) throw zones.error
+    landmarks = await loadAllLandmarks(gate.db)
+  } catch (error) {
+    logger.error('importCostEstimateLandmarks load failed', { error })
+    return { ok: false, error: 'Failed to load current zones and landmarks.' }
+  }
+
+  const preview = previewLandmarkImport(
+    parsed,
+    landmarks,
+    zones.data ?? [],
+    zoneBoundariesFromRows(zones.data ?? [])
+  )
+  const toCreate = preview.filter((p) => p.action === 'create')
+  const toUpdate = preview.filter((p) => p.action === 'update')
+
+  if (toCreate.length) {
+    const { error } = await gate.db.from('cost_estimate_landmarks').insert(
+      toCreate.map(({ row }) => ({
+        name: row!.name,
+        aliases: row!.aliases,
+        lat: row!.lat,
+        lng: row!.lng,
+        area: row!.area,
+        zone_code: row!.zone,
+      }))
+    )
+    if (error) {
+      logger.error('importCostEstimateLandmarks insert failed', { error })
+      return {
+        ok: false,
+        error:
+          error.code === '23505'
+            ? 'A landmark in the file was created by someone else meanwhile. Preview again and retry.'
+            : 'Failed to create landmarks; nothing was imported.',
+      }
+    }
+  }
+
+  let updated = 0
+  for (const { row, existingId, line } of toUpdate) {
+    const { error } = await gate.db
+      .from('cost_estimate_landmarks')
+      .update({
+        name: row!.name,
+        aliases: row!.aliases,
+        lat: row!.lat,
+        lng: row!.lng,
+        area: row!.area,
+        zone_code: row!.zone,
+      })
+      .eq('id', existingId!)
+    if (error) {
+      logger.error('importCostEstimateLandmarks update failed', { error, id: existingId })
+      return {
+        ok: false,
+        error: `Created ${toCreate.length} and updated ${updated} landmarks, then failed on line ${line}.`,
+      }
+    }
+    updated += 1
+  }
+
+  logger.info('Cost estimate landmarks imported', { created: toCreate.length, updated })
+  return {
+    ok: true,
+    created: toCreate.length,
+    updated,
+    unchanged: preview.filter((p) => p.action === 'unchanged').length,
+    invalid: preview.filter((p) => p.action === 'invalid').length,
+  }
+}
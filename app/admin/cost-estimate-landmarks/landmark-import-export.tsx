@@ -0,0 +1,234 @@
+'use client'
+
+import { useMemo, useState, type ChangeEvent } from 'react'
+import { Download, Loader2, Upload } from 'lucide-react'
+import { zoneBoundariesFromRows } from '@/supabase/functions/_shared/zones'
+import { importCostEstimateLandmarks, type CostEstimateLandmarkRow, type CostEstimateZoneRow } from './actions'
+import {
+  LANDMARK_CSV_COLUMNS,
+  detectLandmarkFormat,
+  landmarksToCsv,
+  landmarksToGeoJson,
+  parseLandmarkFile,
+  previewLandmarkImport,
+  type ImportAction,
+  type ImportPreviewRow,
+  type LandmarkFileFormat,
+} from './landmark-io'
+
+const btnPrimary =
+  'inline-flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50'
+const btnSecondary =
+  'inline-flex items-center justify-center gap-2 px-3 py-1.5 border border-gray-300 text-sm rounded-lg hover:bg-gray-50 disabled:opacity-50'
+
+/** Server actions reject request bodies over 1 MB. */
+const MAX_FILE_BYTES = 1_000_000
+
+const ACTION_LABEL: Record<ImportAction, { label: string; className: string }> = {
+  create: { label: 'New', className: 'bg-green-100 text-green-800' },
+  update: { label: 'Update', className: 'bg-blue-100 text-blue-800' },
+  unchanged: { label: 'Unchanged', className: 'bg-gray-100 text-gray-700' },
+  invalid: { label: 'Error', className: 'bg-red-100 text-red-800' },
+}
+
+function download(content: string, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+type LoadedFile = { name: string; text: string; format: LandmarkFileFormat }
+
+/**
+ * Export every landmark as CSV or GeoJSON, and import the same formats with a dry-run preview:
+ * rows matching an existing name update it, the rest are created.
+ */
+export function LandmarkImportExport({
+  zones,
+  landmarks,
+  onImported,
+}: {
+  zones: CostEstimateZoneRow[]
+  landmarks: CostEstimateLandmarkRow[]
+  onImported: () => Promise<void>
+}) {
+  const [file, setFile] = useState<LoadedFile | null>(null)
+  const [fileError, setFileError] = useState<string | null>(null)
+  const [importing, setImporting] = useState(false)
+  const [result, setResult] = useState<string | null>(null)
+  const [onlyIssues, setOnlyIssues] = useState(false)
+
+  const parsed = useMemo(() => (file ? parseLandmarkFile(file.text, file.format) : null), [file])
+  const preview = useMemo<ImportPreviewRow[]>(
+    () =>
+      parsed && !parsed.fileError
+        ? previewLandmarkImport(parsed, landmarks, zones, zoneBoundariesFromRows(zones))
+        : [],
+    [parsed, landmarks, zones]
+  )
+  const counts = useMemo(() => {
+    const c: Record<ImportAction, number> = { create: 0, update: 0, unchanged: 0, invalid: 0 }
+    for (const p of preview) c[p.action] += 1
+    return c
+  }, [preview])
+  const warningCount = preview.filter((p) => p.warnings.length > 0).length
+  const shown = onlyIssues ? preview.filter((p) => p.errors.length || p.warnings.length) : preview
+
+  async function handleFile(e: ChangeEvent<HTMLInputElement>) {
+    const picked = e.target.files?.[0]
+    e.target.value = ''
+    setResult(null)
+    setFileError(null)
+    setFile(null)
+    if (!picked) return
+    if (picked.size > MAX_FILE_BYTES) {
+      setFileError('File is larger than 1 MB. Split it into smaller files.')
+      return
+    }
+    const text = await picked.text()
+    setFile({ name: picked.name, text, format: detectLandmarkFormat(picked.name, text) })
+  }
+
+  async function handleImport() {
+    if (!file) return
+    setImporting(true)
+    const res = await importCostEstimateLandmarks(file.text, file.format)
+    setImporting(false)
+    if (!res.ok) {
+      setFileError(res.error)
+      return
+    }
+    setResult(
+      `Imported: ${res.created} created, ${res.updated} updated, ${res.unchanged} unchanged, ${res.invalid} skipped with errors.`
+    )
+    setFile(null)
+    await onImported()
+  }
+
+  const stamp = new Date().toISOString().slice(0, 10)
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-4 space-y-3">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Import / export</h2>
+        <p className="text-sm text-gray-600">
+          CSV columns: <code>{LANDMARK_CSV_COLUMNS.join(',')}</code> (aliases separated by <code>|</code>), or a GeoJSON
+          FeatureCollection of points with <code>name</code>, <code>aliases</code>, <code>area</code>, <code>zone</code>{' '}
+          properties. Rows whose name matches an existing landmark update it.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          className={btnSecondary}
+          disabled={landmarks.length === 0}
+          onClick={() => download(landmarksToCsv(landmarks), `landmarks-${stamp}.csv`, 'text/csv')}
+        >
+          <Download className="h-4 w-4" />
+          Export CSV
+        </button>
+        <button
+          type="button"
+          className={btnSecondary}
+          disabled={landmarks.length === 0}
+          onClick={() =>
+            download(landmarksToGeoJson(landmarks), `landmarks-${stamp}.geojson`, 'application/geo+json')
+          }
+        >
+          <Download className="h-4 w-4" />
+          Export GeoJSON
+        </button>
+        <label className={`${btnSecondary} cursor-pointer`}>
+          <Upload className="h-4 w-4" />
+          Choose file to import…
+          <input type="file" accept=".csv,.json,.geojson,text/csv,application/json" className="hidden" onChange={handleFile} />
+        </label>
+      </div>
+
+      {fileError && <p className="text-sm text-red-600">{fileError}</p>}
+      {parsed?.fileError && <p className="text-sm text-red-600">{parsed.fileError}</p>}
+      {result && <p className="text-sm text-green-700">{result}</p>}
+
+      {file && !parsed?.fileError && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <span className="font-medium text-gray-900">
+              Dry run: {file.name} ({file.format === 'csv' ? 'CSV' : 'GeoJSON'})
+            </span>
+            <span className="text-green-700">{counts.create} new</span>
+            <span className="text-blue-700">{counts.update} updates</span>
+            <span className="text-gray-600">{counts.unchanged} unchanged</span>
+            <span className="text-red-700">{counts.invalid} with errors</span>
+            <span className="text-amber-700">{warningCount} with warnings</span>
+            <label className="inline-flex items-center gap-1 text-gray-600">
+              <input type="checkbox" checked={onlyIssues} onChange={(e) => setOnlyIssues(e.target.checked)} />
+              Only rows with issues
+            </label>
+          </div>
+
+          <div className="max-h-[420px] overflow-auto rounded-lg border border-gray-200">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">{file.format === 'csv' ? 'Line' : '#'}</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">Result</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">Name</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">Zone</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">Issues</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {shown.map((p) => (
+                  <tr key={p.line}>
+                    <td className="px-3 py-2 tabular-nums text-gray-500">{p.line}</td>
+                    <td className="px-3 py-2">
+                      <span className={`rounded px-2 py-0.5 text-xs font-medium ${ACTION_LABEL[p.action].className}`}>
+                        {ACTION_LABEL[p.action].label}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 text-gray-900">{p.row?.name || '—'}</td>
+                    <td className="px-3 py-2 font-mono text-xs">{p.row?.zone || '—'}</td>
+                    <td className="px-3 py-2 text-xs">
+                      {p.errors.map((e) => (
+                        <p key={e} className="text-red-700">
+                          {e}
+                        </p>
+                      ))}
+                      {p.warnings.map((w) => (
+                        <p key={w} className="text-amber-700">
+                          {w}
+                        </p>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              className={btnPrimary}
+              disabled={importing || counts.create + counts.update === 0}
+              onClick={() => void handleImport()}
+            >
+              {importing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+              Import {counts.create + counts.update} landmark{counts.create + counts.update === 1 ? '' : 's'}
+            </button>
+            <button type="button" className={btnSecondary} onClick={() => setFile(null)} disabled={importing}>
+              Cancel
+            </button>
+            {counts.invalid > 0 && (
+              <span className="text-xs text-gray-500">Rows with errors are skipped; warnings are imported.</span>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
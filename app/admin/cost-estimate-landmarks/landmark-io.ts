@@ -0,0 +1,349 @@
+import { classifyZone, type ZoneBoundary } from '@/supabase/functions/_shared/zones'
+import {
+  COLLISION_CONFIDENCE,
+  normalizeLocation,
+  rankLandmarks,
+} from '@/supabase/functions/cost-estimates/landmarkMatch'
+
+/** One landmark as written in an import/export file. */
+export type LandmarkFileRow = {
+  name: string
+  aliases: string[]
+  area: string
+  lat: number
+  lng: number
+  zone: string
+}
+
+export type LandmarkFileFormat = 'csv' | 'geojson'
+
+export const LANDMARK_CSV_COLUMNS = ['name', 'aliases', 'area', 'lat', 'lng', 'zone'] as const
+
+export const MAX_IMPORT_ROWS = 5000
+
+/**
+ * Aliases share one CSV cell; `|` is the export separator. A cell without `|` may use `;` or `,`
+ * instead (hand-made files), so a cell with `|` keeps commas inside its aliases.
+ */
+const ALIAS_SEPARATOR = /\s*\|\s*/
+const LOOSE_ALIAS_SEPARATOR = /\s*[;,]\s*/
+
+type ExistingLandmark = {
+  id: string
+  name: string
+  aliases: string[]
+  area: string
+  lat: number
+  lng: number
+  zone_code: string
+}
+
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'invalid'
+
+export type ImportPreviewRow = {
+  /** 1-based CSV line or GeoJSON feature number. */
+  line: number
+  row: LandmarkFileRow | null
+  action: ImportAction
+  /** Set for update / unchanged. */
+  existingId: string | null
+  errors: string[]
+  warnings: string[]
+}
+
+export type ParsedLandmarkFile = {
+  rows: { line: number; row: LandmarkFileRow | null; errors: string[] }[]
+  /** File-level problem (bad JSON, missing columns); no rows when set. */
+  fileError: string | null
+}
+
+function splitAliases(raw: string): string[] {
+  return raw
+    .split(raw.includes('|') ? ALIAS_SEPARATOR : LOOSE_ALIAS_SEPARATOR)
+    .map((s) => s.trim())
+    .filter(Boolean)
+}
+
+/** Export form of an alias list; a lone alias with `,` or `;` gets a trailing `|` so import keeps it whole. */
+function aliasesCell(aliases: string[]): string {
+  const cell = aliases.join(' | ')
+  return aliases.length === 1 && /[;,]/.test(cell) ? `${cell} |` : cell
+}
+
+function toNumber(raw: unknown): number {
+  if (typeof raw === 'number') return raw
+  if (typeof raw === 'string' && raw.trim() !== '') return Number(raw)
+  return NaN
+}
+
+function rowErrors(row: LandmarkFileRow): string[] {
+  const errors: string[] = []
+  if (!row.name) errors.push('Name is required.')
+  if (!row.area) errors.push('Area is required.')
+  if (!row.zone) errors.push('Zone is required.')
+  if (!Number.isFinite(row.lat) || row.lat < -90 || row.lat > 90) {
+    errors.push('Latitude must be a number between -90 and 90.')
+  }
+  if (!Number.isFinite(row.lng) || row.lng < -180 || row.lng > 180) {
+    errors.push('Longitude must be a number between -180 and 180.')
+  }
+  return errors
+}
+
+function fileRow(fields: {
+  name: unknown
+  aliases: unknown
+  area: unknown
+  lat: unknown
+  lng: unknown
+  zone: unknown
+}): LandmarkFileRow {
+  const aliases = Array.isArray(fields.aliases)
+    ? fields.aliases.map((a) => String(a).trim()).filter(Boolean)
+    : splitAliases(String(fields.aliases ?? ''))
+  return {
+    name: String(fields.name ?? '').trim(),
+    aliases,
+    area: String(fields.area ?? '').trim(),
+    lat: toNumber(fields.lat),
+    lng: toNumber(fields.lng),
+    zone: String(fields.zone ?? '').trim().toUpperCase(),
+  }
+}
+
+/** RFC 4180 records: quoted fields may hold commas, doubled quotes and newlines. */
+export function parseCsvRecords(text: string): string[][] {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        field += ch
+      }
+    } else if (ch === '"') {
+      quoted = true
+    } else if (ch === ',') {
+      record.push(field)
+      field = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ''
+    } else {
+      field += ch
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+  return records
+}
+
+function parseCsv(text: string): ParsedLandmarkFile {
+  const records = parseCsvRecords(text.replace(/^\uFEFF/, ''))
+  const header = (records[0] ?? []).map((h) => h.trim().toLowerCase())
+  const missing = LANDMARK_CSV_COLUMNS.filter((c) => c !== 'aliases' && !header.includes(c))
+  if (missing.length) {
+    return {
+      rows: [],
+      fileError: `Missing CSV column(s): ${missing.join(', ')}. Expected ${LANDMARK_CSV_COLUMNS.join(',')}.`,
+    }
+  }
+  const col = (record: string[], name: string) => {
+    const i = header.indexOf(name)
+    return i === -1 ? '' : record[i] ?? ''
+  }
+
+  const rows: ParsedLandmarkFile['rows'] = []
+  records.slice(1).forEach((record, i) => {
+    if (record.every((cell) => !cell.trim())) return
+    const row = fileRow({
+      name: col(record, 'name'),
+      aliases: col(record, 'aliases'),
+      area: col(record, 'area'),
+      lat: col(record, 'lat'),
+      lng: col(record, 'lng'),
+      zone: col(record, 'zone'),
+    })
+    rows.push({ line: i + 2, row, errors: rowErrors(row) })
+  })
+  return { rows, fileError: null }
+}
+
+function parseGeoJson(text: string): ParsedLandmarkFile {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    return { rows: [], fileError: 'File is not valid JSON.' }
+  }
+  const collection = parsed as { type?: unknown; features?: unknown }
+  if (collection?.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+    return { rows: [], fileError: 'Expected a GeoJSON FeatureCollection.' }
+  }
+
+  const rows = (collection.features as unknown[]).map((feature, i) => {
+    const f = feature as { geometry?: { type?: unknown; coordinates?: unknown }; properties?: Record<string, unknown> }
+    const coords = f?.geometry?.coordinates
+    if (f?.geometry?.type !== 'Point' || !Array.isArray(coords) || coords.length < 2) {
+      return { line: i + 1, row: null, errors: ['Feature must have Point geometry.'] }
+    }
+    const props = f.properties ?? {}
+    const row = fileRow({
+      name: props.name,
+      aliases: props.aliases,
+      area: props.area,
+      lat: coords[1],
+      lng: coords[0],
+      zone: props.zone ?? props.zone_code,
+    })
+    return { line: i + 1, row, errors: rowErrors(row) }
+  })
+  return { rows, fileError: null }
+}
+
+export function detectLandmarkFormat(fileName: string, text: string): LandmarkFileFormat {
+  if (/\.(geo)?json$/i.test(fileName)) return 'geojson'
+  if (/\.csv$/i.test(fileName)) return 'csv'
+  return text.trimStart().startsWith('{') ? 'geojson' : 'csv'
+}
+
+export function parseLandmarkFile(text: string, format: LandmarkFileFormat): ParsedLandmarkFile {
+  const parsed = format === 'geojson' ? parseGeoJson(text) : parseCsv(text)
+  if (parsed.rows.length > MAX_IMPORT_ROWS) {
+    return { rows: [], fileError: `At most ${MAX_IMPORT_ROWS} landmarks per import.` }
+  }
+  return parsed
+}
+
+function nameKey(name: string): string {
+  return name.trim().toLowerCase()
+}
+
+function sameAliases(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((alias, i) => alias === b[i])
+}
+
+/**
+ * Dry run: what importing `parsed` would do against the current landmarks. Rows whose name matches
+ * an existing landmark (case-insensitive) update it; the rest are created. Errors block a row;
+ * warnings (duplicate names/aliases, coordinates outside the stated zone) don't.
+ */
+export function previewLandmarkImport(
+  parsed: ParsedLandmarkFile,
+  existing: ExistingLandmark[],
+  zones: { code: string }[],
+  boundaries: ZoneBoundary[]
+): ImportPreviewRow[] {
+  const zoneCodes = new Set(zones.map((z) => z.code))
+  const existingByName = new Map(existing.map((e) => [nameKey(e.name), e]))
+
+  // Normalised name/alias → who uses it, across existing landmarks and the file itself.
+  const owners = new Map<string, Set<string>>()
+  const claim = (phrase: string, owner: string) => {
+    const key = normalizeLocation(phrase)
+    if (!key) return
+    owners.set(key, new Set([...(owners.get(key) ?? []), owner]))
+  }
+  for (const e of existing) {
+    for (const phrase of [e.name, ...e.aliases]) claim(phrase, `existing:${e.id}`)
+  }
+  const seenNames = new Map<string, number>()
+  for (const { line, row } of parsed.rows) {
+    if (!row?.name) continue
+    const match = existingByName.get(nameKey(row.name))
+    // A row updating an existing landmark replaces that landmark's phrases rather than adding to them.
+    const owner = match ? `existing:${match.id}` : `line:${line}`
+    for (const phrase of [row.name, ...row.aliases]) claim(phrase, owner)
+  }
+  const describe = (owner: string) => {
+    if (owner.startsWith('line:')) return `line ${owner.slice(5)}`
+    const e = existing.find((x) => `existing:${x.id}` === owner)
+    return e ? `“${e.name}”` : owner
+  }
+
+  return parsed.rows.map(({ line, row, errors: parseErrors }) => {
+    const errors = [...parseErrors]
+    const warnings: string[] = []
+    if (!row) return { line, row, action: 'invalid', existingId: null, errors, warnings }
+
+    const key = nameKey(row.name)
+    if (key) {
+      const firstLine = seenNames.get(key)
+      if (firstLine !== undefined) errors.push(`Duplicate of line ${firstLine} in this file.`)
+      else seenNames.set(key, line)
+    }
+    if (row.zone && !zoneCodes.has(row.zone)) errors.push(`Unknown zone ${row.zone}. Create the zone first.`)
+
+    const match = existingByName.get(key)
+    const self = match ? `existing:${match.id}` : `line:${line}`
+
+    for (const phrase of [row.name, ...row.aliases]) {
+      const others = [...(owners.get(normalizeLocation(phrase)) ?? [])].filter((o) => o !== self)
+      if (others.length) warnings.push(`“${phrase}” is also used by ${others.map(describe).join(', ')}.`)
+    }
+
+    if (!match && row.name) {
+      const [near] = rankLandmarks(row.name, existing, { limit: 1, minConfidence: COLLISION_CONFIDENCE })
+      if (near && nameKey(near.landmark.name) !== key) {
+        warnings.push(`Looks like existing “${near.landmark.name}” (${Math.round(near.confidence * 100)}% match).`)
+      }
+    }
+
+    if (errors.length === 0 && zoneCodes.has(row.zone)) {
+      const actual = classifyZone(row.lat, row.lng, boundaries)
+      if (actual !== row.zone) warnings.push(`Coordinates fall in ${actual}, not ${row.zone}.`)
+    }
+
+    if (errors.length) return { line, row, action: 'invalid', existingId: match?.id ?? null, errors, warnings }
+    if (!match) return { line, row, action: 'create', existingId: null, errors, warnings }
+
+    const unchanged =
+      match.name === row.name &&
+      sameAliases(match.aliases, row.aliases) &&
+      match.area === row.area &&
+      match.lat === row.lat &&
+      match.lng === row.lng &&
+      match.zone_code === row.zone
+    return { line, row, action: unchanged ? 'unchanged' : 'update', existingId: match.id, errors, warnings }
+  })
+}
+
+function csvCell(value: string | number): string {
+  const s = String(value)
+  return /[",\r\n]/.test(s) || s !== s.trim() ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+export function landmarksToCsv(landmarks: Omit<ExistingLandmark, 'id'>[]): string {
+  const lines = landmarks.map((l) =>
+    [l.name, aliasesCell(l.aliases), l.area, l.lat, l.lng, l.zone_code].map(csvCell).join(',')
+  )
+  return [LANDMARK_CSV_COLUMNS.join(','), ...lines].join('\n') + '\n'
+}
+
+export function landmarksToGeoJson(landmarks: Omit<ExistingLandmark, 'id'>[]): string {
+  return JSON.stringify(
+    {
+      type: 'FeatureCollection',
+      features: landmarks.map((l) => ({
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [l.lng, l.lat] },
+        properties: { name: l.name, aliases: l.aliases, area: l.area, zone: l.zone_code },
+      })),
+    },
+    null,
+    2
+  )
+}
@@ -1,7 +1,7 @@
 'use client'
 
 import { useCallback, useEffect, useMemo, useState, type FormEvent } from 'react'
-import { Loader2, MapPin, Plus, Pencil, Trash2, Search } from 'lucide-react'
+import { AlertTriangle, Loader2, MapPin, Plus, Pencil, Trash2, Search } from 'lucide-react'
 import {
   listCostEstimateZones,
   listCostEstimateLandmarks,
@@ -14,6 +14,12 @@ import {
   type CostEstimateZoneRow,
   type CostEstimateLandmarkRow,
 } from './actions'
+import { ZoneBoundaryEditor } from './zone-boundary-editor'
+import { LandmarkImportExport } from './landmark-import-export'
+import {
+  findAliasCollisions,
+  type AliasCollision,
+} from '@/supabase/functions/cost-estimates/landmarkMatch'
 
 type Tab = 'zones' | 'landmarks'
 
@@ -55,6 +61,9 @@ export default function CostEstimateLandmarksPage() {
     void load()
   }, [load])
 
+  /** Computed over every landmark, not just the search results. */
+  const collisions = useMemo(() => findAliasCollisions(landmarks), [landmarks])
+
   const filteredLandmarks = useMemo(() => {
     const q = search.trim().toLowerCase()
     if (!q) return landmarks
@@ -81,7 +90,7 @@ export default function CostEstimateLandmarksPage() {
           <div>
             <h1 className="text-2xl font-bold text-gray-900">Cost estimate landmarks</h1>
             <p className="text-sm text-gray-600 mt-1">
-              Zones and landmarks used by the cost-estimates Edge Function for named-place matching.
+              Zones, zone boundaries and landmarks used by the cost-estimates Edge Function for named-place matching and pricing.
             </p>
           </div>
         </div>
@@ -126,13 +135,17 @@ export default function CostEstimateLandmarksPage() {
       ) : tab === 'zones' ? (
         <ZonesSection zones={zones} onRefresh={load} />
       ) : (
-        <LandmarksSection
-          zones={zones}
-          landmarks={filteredLandmarks}
-          search={search}
-          onSearchChange={setSearch}
-          onRefresh={load}
-        />
+        <>
+          <LandmarkImportExport zones={zones} landmarks={landmarks} onImported={load} />
+          <LandmarksSection
+            zones={zones}
+            landmarks={filteredLandmarks}
+            collisions={collisions}
+            search={search}
+            onSearchChange={setSearch}
+            onRefresh={load}
+          />
+        </>
       )}
     </div>
   )
@@ -266,6 +279,8 @@ function ZonesSection({
         </table>
       </div>
 
+      <ZoneBoundaryEditor zones={zones} onSaved={onRefresh} />
+
       {editing && (
         <EditZoneModal
           zone={editing}
@@ -341,15 +356,22 @@ function EditZoneModal({
   )
 }
 
+function collisionLine(c: AliasCollision<CostEstimateLandmarkRow>): string {
+  const via = c.otherMatchedOn === c.other.name ? '' : ` (alias “${c.otherMatchedOn}”)`
+  return `“${c.alias}” also matches ${c.other.name}${via} at ${Math.round(c.confidence * 100)}%`
+}
+
 function LandmarksSection({
   zones,
   landmarks,
+  collisions,
   search,
   onSearchChange,
   onRefresh,
 }: {
   zones: CostEstimateZoneRow[]
   landmarks: CostEstimateLandmarkRow[]
+  collisions: AliasCollision<CostEstimateLandmarkRow>[]
   search: string
   onSearchChange: (v: string) => void
   onRefresh: () => Promise<void>
@@ -364,6 +386,12 @@ function LandmarksSection({
   const [formError, setFormError] = useState<string | null>(null)
   const [editing, setEditing] = useState<CostEstimateLandmarkRow | null>(null)
 
+  const collisionsByLandmark = useMemo(() => {
+    const map = new Map<string, AliasCollision<CostEstimateLandmarkRow>[]>()
+    for (const c of collisions) map.set(c.landmark.id, [...(map.get(c.landmark.id) ?? []), c])
+    return map
+  }, [collisions])
+
   useEffect(() => {
     if (zones.length && !zoneCode) {
       setZoneCode(zones[0].code)
@@ -499,6 +527,24 @@ function LandmarksSection({
         )}
       </form>
 
+      {collisions.length > 0 && (
+        <div className="rounded-lg bg-amber-50 border border-amber-200 text-amber-900 px-4 py-3 text-sm space-y-1">
+          <p className="font-medium flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4" />
+            {collisions.length} name/alias collision{collisions.length === 1 ? '' : 's'} — riders typing these
+            may be matched to the wrong landmark.
+          </p>
+          <ul className="list-disc pl-6 space-y-0.5">
+            {collisions.slice(0, 10).map((c) => (
+              <li key={`${c.landmark.id}-${c.alias}-${c.other.id}`}>
+                {c.landmark.name}: {collisionLine(c)}
+              </li>
+            ))}
+          </ul>
+          {collisions.length > 10 && <p className="text-xs">…and {collisions.length - 10} more.</p>}
+        </div>
+      )}
+
       <div className="rounded-xl border border-gray-200 bg-white overflow-hidden">
         <table className="min-w-full divide-y divide-gray-200 text-sm">
           <thead className="bg-gray-50">
@@ -525,6 +571,11 @@ function LandmarksSection({
                   <td className="px-4 py-3 text-gray-700">{row.area}</td>
                   <td className="px-4 py-3 font-mono text-xs">{row.zone_code}</td>
                   <td className="px-4 py-3 text-gray-600 max-w-xs truncate" title={row.aliases.join(', ')}>
+                    {collisionsByLandmark.has(row.id) && (
+                      <span title={collisionsByLandmark.get(row.id)!.map(collisionLine).join('\n')}>
+                        <AlertTriangle className="h-4 w-4 text-amber-600 inline mr-1 -mt-0.5" aria-hidden />
+                      </span>
+                    )}
                     {row.aliases.join(', ') || '—'}
                   </td>
                   <td className="px-4 py-3 text-right text-xs font-mono tabular-nums whitespace-nowrap">
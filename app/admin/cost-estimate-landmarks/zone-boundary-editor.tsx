@@ -0,0 +1,271 @@
+'use client'
+
+import { GoogleMap, Polygon, useLoadScript } from '@react-google-maps/api'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { Loader2, Save, Trash2, Undo2 } from 'lucide-react'
+import { isZoneGeometry, type ZoneGeometry } from '@/supabase/functions/_shared/zones'
+import { updateCostEstimateZoneBoundary, type CostEstimateZoneRow } from './actions'
+
+const GOOGLE_MAPS_API_KEY = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY
+
+const mapContainerStyle = {
+  width: '100%',
+  height: '480px',
+}
+
+const defaultCenter = {
+  lat: 6.8013,
+  lng: -58.1551,
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+const btnPrimary =
+  'inline-flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50'
+const btnSecondary =
+  'inline-flex items-center justify-center gap-2 px-3 py-1.5 border border-gray-300 text-sm rounded-lg hover:bg-gray-50 disabled:opacity-50'
+
+type LatLng = { lat: number; lng: number }
+
+function geometryOf(zone: CostEstimateZoneRow | undefined): ZoneGeometry | null {
+  return zone && isZoneGeometry(zone.boundary) ? zone.boundary : null
+}
+
+/** Outer rings as map paths (GeoJSON closing position dropped). */
+function pathsOf(geometry: ZoneGeometry | null): LatLng[][] {
+  if (!geometry) return []
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates
+  return polygons.map(([outer]) => outer.slice(0, -1).map(([lng, lat]) => ({ lat, lng })))
+}
+
+function toGeometry(path: LatLng[]): ZoneGeometry {
+  const ring = path.map((p) => [p.lng, p.lat])
+  return { type: 'Polygon', coordinates: [[...ring, ring[0]]] }
+}
+
+/**
+ * Draw or adjust the polygon the cost-estimates function uses for one zone. Click the map to add
+ * points, drag the vertices to adjust; other zones are shown in grey for reference.
+ */
+export function ZoneBoundaryEditor({
+  zones,
+  onSaved,
+}: {
+  zones: CostEstimateZoneRow[]
+  onSaved: () => Promise<void>
+}) {
+  const { isLoaded, loadError } = useLoadScript({
+    googleMapsApiKey: GOOGLE_MAPS_API_KEY || '',
+    id: 'google-map-script',
+  })
+
+  const [code, setCode] = useState(zones[0]?.code ?? '')
+  const zone = zones.find((z) => z.code === code)
+  const geometry = geometryOf(zone)
+  const [path, setPath] = useState<LatLng[]>([])
+  const [geoJson, setGeoJson] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [err, setErr] = useState<string | null>(null)
+  const polygonRef = useRef<google.maps.Polygon | null>(null)
+
+  useEffect(() => {
+    setPath(pathsOf(geometry)[0] ?? [])
+    setGeoJson(geometry ? JSON.stringify(geometry) : '')
+    setErr(null)
+    // Reset the draft when switching zones or after a save reloads the row.
+  }, [code, zone?.updated_at]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const otherPaths = useMemo(
+    () =>
+      zones
+        .filter((z) => z.code !== code)
+        .flatMap((z) => pathsOf(geometryOf(z)).map((p, i) => ({ key: `${z.code}-${i}`, path: p }))),
+    [zones, code]
+  )
+
+  const center = useMemo(() => {
+    const pts = path.length ? path : pathsOf(geometry).flat()
+    if (pts.length === 0) return defaultCenter
+    return {
+      lat: pts.reduce((sum, p) => sum + p.lat, 0) / pts.length,
+      lng: pts.reduce((sum, p) => sum + p.lng, 0) / pts.length,
+    }
+  }, [code]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  function readPolygon() {
+    const poly = polygonRef.current
+    if (!poly) return
+    setPath(
+      poly
+        .getPath()
+        .getArray()
+        .map((p) => ({ lat: p.lat(), lng: p.lng() }))
+    )
+  }
+
+  async function save(next: ZoneGeometry | null) {
+    if (!zone) return
+    setErr(null)
+    setSaving(true)
+    const res = await updateCostEstimateZoneBoundary(zone.code, next)
+    setSaving(false)
+    if (!res.ok) {
+      setErr(res.error)
+      return
+    }
+    await onSaved()
+  }
+
+  function saveGeoJson() {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(geoJson)
+    } catch {
+      setErr('GeoJSON is not valid JSON.')
+      return
+    }
+    const geom =
+      parsed && typeof parsed === 'object' && (parsed as { type?: string }).type === 'Feature'
+        ? (parsed as { geometry: unknown }).geometry
+        : parsed
+    void save(geom as ZoneGeometry)
+  }
+
+  if (zones.length === 0) return null
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-4 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Zone boundaries</h2>
+        <p className="text-sm text-gray-600">
+          Points inside a polygon get that zone (lowest sort order wins where polygons overlap). Zones
+          without a polygon keep the built-in coordinate boxes. Changes reach live estimates within a minute.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="min-w-[220px]">
+          <label className="block text-xs font-medium text-gray-600 mb-1">Zone</label>
+          <select className={inputClass} value={code} onChange={(e) => setCode(e.target.value)}>
+            {zones.map((z) => (
+              <option key={z.code} value={z.code}>
+                {z.code} — {z.label}
+                {geometryOf(z) ? '' : ' (no polygon)'}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="button"
+          className={btnSecondary}
+          onClick={() => setPath((p) => p.slice(0, -1))}
+          disabled={path.length === 0}
+        >
+          <Undo2 className="h-4 w-4" />
+          Undo point
+        </button>
+        <button type="button" className={btnSecondary} onClick={() => setPath([])} disabled={path.length === 0}>
+          Clear drawing
+        </button>
+        <button
+          type="button"
+          className={btnPrimary}
+          onClick={() => void save(toGeometry(path))}
+          disabled={saving || path.length < 3}
+        >
+          {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+          Save polygon
+        </button>
+        {geometry && (
+          <button
+            type="button"
+            className={`${btnSecondary} text-red-700 border-red-200 hover:bg-red-50`}
+            onClick={() => {
+              if (confirm(`Remove the polygon for ${code}? It falls back to the built-in boxes.`)) void save(null)
+            }}
+            disabled={saving}
+          >
+            <Trash2 className="h-4 w-4" />
+            Remove polygon
+          </button>
+        )}
+      </div>
+      {geometry?.type === 'MultiPolygon' && (
+        <p className="text-xs text-amber-700">
+          This zone has several polygons; only the first is editable on the map. Saving from the map keeps
+          just that one — edit the GeoJSON below to change all parts.
+        </p>
+      )}
+      {err && <p className="text-sm text-red-600">{err}</p>}
+
+      {loadError ? (
+        <p className="text-sm text-red-600">Google Maps failed to load. Use the GeoJSON field below.</p>
+      ) : !isLoaded ? (
+        <div className="flex items-center gap-2 text-gray-600 py-12 justify-center">
+          <Loader2 className="h-6 w-6 animate-spin" />
+          Loading map…
+        </div>
+      ) : (
+        <GoogleMap
+          mapContainerStyle={mapContainerStyle}
+          center={center}
+          zoom={11}
+          options={{ streetViewControl: false, mapTypeControl: false, clickableIcons: false }}
+          onClick={(e) => {
+            const latLng = e.latLng
+            if (latLng) setPath((p) => [...p, { lat: latLng.lat(), lng: latLng.lng() }])
+          }}
+        >
+          {otherPaths.map((o) => (
+            <Polygon
+              key={o.key}
+              paths={o.path}
+              options={{
+                clickable: false,
+                strokeColor: '#6b7280',
+                strokeWeight: 1,
+                fillColor: '#9ca3af',
+                fillOpacity: 0.15,
+              }}
+            />
+          ))}
+          {path.length > 0 && (
+            <Polygon
+              key={`${code}-${path.length}`}
+              paths={path}
+              editable
+              onLoad={(poly) => {
+                polygonRef.current = poly
+              }}
+              onUnmount={() => {
+                polygonRef.current = null
+              }}
+              onMouseUp={readPolygon}
+              options={{
+                strokeColor: '#2563eb',
+                strokeWeight: 2,
+                fillColor: '#3b82f6',
+                fillOpacity: 0.2,
+              }}
+            />
+          )}
+        </GoogleMap>
+      )}
+
+      <div className="space-y-2">
+        <label className="block text-xs font-medium text-gray-600">
+          GeoJSON (Polygon, MultiPolygon or a Feature; positions are <code>[lng, lat]</code>)
+        </label>
+        <textarea
+          className={`${inputClass} min-h-[80px] font-mono text-xs`}
+          value={geoJson}
+          onChange={(e) => setGeoJson(e.target.value)}
+          placeholder='{"type":"Polygon","coordinates":[[[-58.17,6.795],[-58.13,6.795],[-58.13,6.828],[-58.17,6.828],[-58.17,6.795]]]}'
+        />
+        <button type="button" className={btnSecondary} onClick={saveGeoJson} disabled={saving || !geoJson.trim()}>
+          Save GeoJSON
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -31,7 +31,7 @@ async function fetchDashboardMetrics() {
     supabase
       .from('trips')
       .select('*', { count: 'exact', head: true })
-      .in('status', ['accepted', 'picked_up']),
+      .in('status', ['accepted', 'arrived', 'picked_up']),
     supabase
       .from('trip_requests')
       .select('*', { count: 'exact', head: true })
@@ -3,9 +3,15 @@
 import { createServerActionClient } from '@supabase/auth-helpers-nextjs'
 import { createClient } from '@supabase/supabase-js'
 import { cookies } from 'next/headers'
-import { sendNotificationsToUsers } from '@/lib/firebase/notifications'
 import { logger } from '@/lib/logger'
-import type { Database, UserRole } from '@/types/database'
+import { sendMessage } from '@/lib/message-outbox'
+import { renderForUser } from '@/lib/notification-templates'
+import {
+  applyNotificationPreferences,
+  logSuppressedSend,
+  type PreferenceFilter,
+} from '@/lib/notification-preferences'
+import type { Database, NotificationCategory, UserRole, VerificationStatus } from '@/types/database'
 
 // Typed service role client — same pattern used in lib/firebase/notifications.ts
 function createServiceClient() {
@@ -20,6 +26,10 @@ export interface SendDriverPushResult {
   success: boolean
   successCount: number
   failureCount: number
+  /** Not sent yet: FCM was unavailable or rate limited, and the message outbox will retry it. */
+  queued?: boolean
+  /** Not sent: the user turned the category off, or is in quiet hours. */
+  suppressed?: 'opted_out' | 'quiet_hours'
   error?: string
 }
 
@@ -31,6 +41,8 @@ export interface SendDriverPushOptions {
    * Must be a JSON object (not an array). Nested values are JSON-stringified per FCM string rules.
    */
   dataJson?: string
+  /** Notification category for the driver's preferences; defaults to account. */
+  category?: NotificationCategory
 }
 
 function parseFcmDataFromJson(
@@ -118,25 +130,60 @@ export async function sendDriverPushNotification(
   }
   const fcmData = parsedData.data
 
-  // Send via Firebase FCM
-  const resultDriver = await sendNotificationsToUsers(
-    [driverUserId],
-    title,
-    body,
-    'driver',
-    fcmData
-  )
+  const category = options?.category ?? 'account'
+  const logFields = {
+    recipientUserId: driverUserId,
+    sentByUserId: adminUserId,
+    notificationType: 'push',
+    metadata: fcmData ? { category, fcm_data_keys: Object.keys(fcmData) } : { category },
+  }
 
-  const resultRider = await sendNotificationsToUsers(
-    [driverUserId],
+  // Respect the driver's opt-outs and quiet hours; the skipped send is logged
+  let filter: PreferenceFilter
+  try {
+    filter = await applyNotificationPreferences(db, [driverUserId], category)
+  } catch (error) {
+    logger.error('Failed to load notification preferences', { error, driverUserId })
+    return { success: false, successCount: 0, failureCount: 0, error: 'Failed to load notification preferences' }
+  }
+  if (filter.allowed.length === 0) {
+    await logSuppressedSend(db, filter, { channel: 'push', title, body, log: logFields })
+    const suppressed = filter.suppressed.opted_out.length > 0 ? 'opted_out' : 'quiet_hours'
+    return {
+      success: false,
+      successCount: 0,
+      failureCount: 0,
+      suppressed,
+      error:
+        suppressed === 'opted_out'
+          ? `Not sent: the driver turned off ${category.replace('_', ' ')} notifications`
+          : 'Not sent: the driver is in quiet hours',
+    }
+  }
+
+  // Queue and send via Firebase FCM (drivers can be signed in to either app)
+  const result = await sendMessage(db, {
+    channel: 'push',
+    targets: [
+      { projectType: 'driver', userIds: [driverUserId] },
+      { projectType: 'rider', userIds: [driverUserId] },
+    ],
     title,
     body,
-    'rider',
-    fcmData
-  )
+    data: fcmData,
+    log: logFields,
+  })
+
+  if (!result.ok) {
+    return { success: false, successCount: 0, failureCount: 0, error: result.error }
+  }
+  const { attempt } = result
+  const queued = attempt.outcome === 'retrying' || attempt.outcome === 'deferred'
+  const successCount = attempt.outcome !== 'deferred' ? attempt.push?.successCount ?? 0 : 0
+  const failureCount = attempt.outcome !== 'deferred' ? attempt.push?.failureCount ?? 0 : 0
 
-  // Record the notification in the database if delivery succeeded (unless caller already did)
-  if (!options?.skipInAppNotificationInsert && (resultDriver.successCount > 0 || resultRider.successCount > 0)) {
+  // Record the notification in the database if it was delivered or is queued (unless caller already did)
+  if (!options?.skipInAppNotificationInsert && (successCount > 0 || queued)) {
     type NotificationInsert = Database['public']['Tables']['notifications']['Insert']
     const { error: insertError } = await db
       .from('notifications')
@@ -154,32 +201,72 @@ export async function sendDriverPushNotification(
     }
   }
 
-  // Log to message_logs for admin audit trail
-  await db.from('message_logs').insert({
-    channel: 'push',
-    recipient_user_id: driverUserId,
-    title,
-    message: body,
-    status: resultDriver.successCount > 0 || resultRider.successCount > 0 ? 'sent' : 'failed',
-    sent_by_user_id: adminUserId,
-    notification_type: 'push',
-    metadata: {
-      success_count: resultDriver.successCount + resultRider.successCount,
-      failure_count: resultDriver.failureCount + resultRider.failureCount,
-      invalid_tokens_removed: resultDriver.invalidTokens.length + resultRider.invalidTokens.length,
-      ...(fcmData ? { fcm_data_keys: Object.keys(fcmData) } : {}),
-    },
-  })
-
   logger.info('Admin sent push notification to driver', {
     driverUserId,
-    successCount: resultDriver.successCount + resultRider.successCount,
-    failureCount: resultDriver.failureCount + resultRider.failureCount,
+    outcome: attempt.outcome,
+    successCount,
+    failureCount,
   })
 
-  return {
-    success: resultDriver.successCount > 0 || resultRider.successCount > 0,
-    successCount: resultDriver.successCount + resultRider.successCount,
-    failureCount: resultDriver.failureCount + resultRider.failureCount,
+  if (attempt.outcome === 'dead') {
+    return { success: false, successCount, failureCount, error: attempt.error }
   }
+  return { success: successCount > 0 || queued, successCount, failureCount, queued }
+}
+
+/**
+ * Tells the driver about a verification decision: renders the `driver_verification_*` template in
+ * their locale, records the in-app notification and sends the push. Push failure is reported, not thrown.
+ */
+export async function sendDriverVerificationNotification(
+  driverUserId: string,
+  status: VerificationStatus,
+  rejectionReason?: string | null
+): Promise<SendDriverPushResult> {
+  const authClient = createServerActionClient({ cookies })
+  const {
+    data: { user: authUser },
+    error: authError,
+  } = await authClient.auth.getUser()
+
+  if (authError || !authUser) {
+    return { success: false, successCount: 0, failureCount: 0, error: 'Not authenticated' }
+  }
+
+  const db = createServiceClient()
+  const templateKey = `driver_verification_${status === 'pending' ? 'updated' : status}`
+
+  let rendered: Awaited<ReturnType<typeof renderForUser>>
+  try {
+    rendered = await renderForUser(db, templateKey, 'push', driverUserId, {
+      rejection_reason: rejectionReason ?? '',
+    })
+  } catch (error) {
+    logger.error('Failed to render verification notification', { error, templateKey, driverUserId })
+    return { success: false, successCount: 0, failureCount: 0, error: 'Failed to prepare the notification' }
+  }
+  if (!rendered) {
+    return { success: false, successCount: 0, failureCount: 0, error: 'Driver not found' }
+  }
+
+  type NotificationInsert = Database['public']['Tables']['notifications']['Insert']
+  const { error: insertError } = await db
+    .from('notifications')
+    .insert({
+      user_id: driverUserId,
+      title: rendered.title,
+      body: rendered.body,
+      notification_type: `verification_${status}`,
+      is_read: false,
+      read_at: null,
+    } satisfies NotificationInsert)
+
+  if (insertError) {
+    logger.warn('Failed to create verification notification record', { error: insertError, driverUserId })
+    return { success: false, successCount: 0, failureCount: 0, error: 'Failed to record the notification' }
+  }
+
+  return sendDriverPushNotification(driverUserId, rendered.title, rendered.body, {
+    skipInAppNotificationInsert: true,
+  })
 }
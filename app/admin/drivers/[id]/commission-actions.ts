@@ -0,0 +1,188 @@
+'use server'
+
+import { createServerActionClient } from '@supabase/auth-helpers-nextjs'
+import { createClient } from '@supabase/supabase-js'
+import { cookies } from 'next/headers'
+import {
+  effectiveCommissionRate,
+  getCommissionBalance,
+  isValidCommissionRate,
+  loadDriverCommissionConfig,
+  type CommissionAccrual,
+  type CommissionBalance,
+  type CommissionStatement,
+} from '@/lib/driver-commission'
+import { logger } from '@/lib/logger'
+import type { Database, DriverBillingMode, Json } from '@/types/database'
+
+function createServiceClient() {
+  return createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+}
+
+async function requireAdmin() {
+  const authClient = createServerActionClient({ cookies })
+  const {
+    data: { user: authUser },
+    error: authError,
+  } = await authClient.auth.getUser()
+
+  if (authError || !authUser) {
+    return { ok: false as const, error: 'Not authenticated' }
+  }
+
+  const db = createServiceClient()
+  const { data: userRow, error: userError } = await db
+    .from('users')
+    .select('id, role')
+    .eq('auth_id', authUser.id)
+    .single()
+
+  if (userError || !userRow || userRow.role !== 'admin') {
+    return { ok: false as const, error: 'Only administrators can manage driver billing.' }
+  }
+
+  return { ok: true as const, db, adminUserId: userRow.id, adminAuthId: authUser.id }
+}
+
+const RECENT_STATEMENTS = 12
+const RECENT_ACCRUALS = 50
+
+export type DriverCommissionDetail = {
+  billingMode: DriverBillingMode
+  /** The driver's own rate; null uses the default. */
+  ratePercent: number | null
+  defaultRatePercent: number
+  effectiveRatePercent: number
+  balance: CommissionBalance
+  statements: CommissionStatement[]
+  accruals: CommissionAccrual[]
+}
+
+export type GetDriverCommissionResult = { ok: true; detail: DriverCommissionDetail } | { ok: false; error: string }
+
+export async function getDriverCommission(driverId: string): Promise<GetDriverCommissionResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) {
+    return { ok: false, error: gate.error }
+  }
+
+  try {
+    const { data: driver, error } = await gate.db
+      .from('driver_profiles')
+      .select('id, user_id, billing_mode, commission_rate_percent')
+      .eq('id', driverId)
+      .maybeSingle()
+    if (error) throw error
+    if (!driver) return { ok: false, error: 'Driver not found.' }
+
+    const [config, balance, statementsResult, accrualsResult] = await Promise.all([
+      loadDriverCommissionConfig(gate.db),
+      getCommissionBalance(gate.db, driver),
+      gate.db
+        .from('driver_commission_statements')
+        .select('*')
+        .eq('driver_id', driverId)
+        .order('period_start', { ascending: false })
+        .limit(RECENT_STATEMENTS),
+      gate.db
+        .from('driver_commission_accruals')
+        .select('*')
+        .eq('driver_id', driverId)
+        .order('accrued_at', { ascending: false })
+        .limit(RECENT_ACCRUALS),
+    ])
+    if (statementsResult.error) throw statementsResult.error
+    if (accrualsResult.error) throw accrualsResult.error
+
+    return {
+      ok: true,
+      detail: {
+        billingMode: driver.billing_mode,
+        ratePercent: driver.commission_rate_percent != null ? Number(driver.commission_rate_percent) : null,
+        defaultRatePercent: config.defaultRatePercent,
+        effectiveRatePercent: effectiveCommissionRate(driver, config),
+        balance,
+        statements: statementsResult.data ?? [],
+        accruals: accrualsResult.data ?? [],
+      },
+    }
+  } catch (error) {
+    logger.error('getDriverCommission failed', { error, driverId })
+    return { ok: false, error: 'Failed to load commission billing.' }
+  }
+}
+
+export type SaveDriverBillingResult = { ok: true } | { ok: false; error: string }
+
+/**
+ * Switches the driver between subscription and commission billing and sets their own rate (null
+ * for the default). Trips already completed keep the rate they accrued at.
+ */
+export async function saveDriverBilling(
+  driverId: string,
+  input: { billingMode: DriverBillingMode; ratePercent: number | null }
+): Promise<SaveDriverBillingResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) {
+    return { ok: false, error: gate.error }
+  }
+
+  if (input.billingMode !== 'subscription' && input.billingMode !== 'commission') {
+    return { ok: false, error: 'Unknown billing mode.' }
+  }
+  if (input.ratePercent != null && !isValidCommissionRate(input.ratePercent)) {
+    return { ok: false, error: 'Commission rate must be 0 to 100 percent, with at most two decimals.' }
+  }
+
+  const { data: before, error: loadError } = await gate.db
+    .from('driver_profiles')
+    .select('id, billing_mode, commission_rate_percent')
+    .eq('id', driverId)
+    .maybeSingle()
+  if (loadError) {
+    logger.error('saveDriverBilling failed', { error: loadError, driverId })
+    return { ok: false, error: 'Failed to save driver billing.' }
+  }
+  if (!before) {
+    return { ok: false, error: 'Driver not found.' }
+  }
+
+  const now = new Date().toISOString()
+  const { data: after, error } = await gate.db
+    .from('driver_profiles')
+    .update({
+      billing_mode: input.billingMode,
+      commission_rate_percent: input.ratePercent,
+      updated_at: now,
+    })
+    .eq('id', driverId)
+    .select('id, billing_mode, commission_rate_percent')
+    .single()
+  if (error || !after) {
+    logger.error('saveDriverBilling failed', { error, driverId })
+    return { ok: false, error: 'Failed to save driver billing.' }
+  }
+
+  const { error: auditError } = await gate.db.from('audit_logs').insert({
+    table_name: 'driver_profiles',
+    record_id: driverId,
+    action: 'UPDATE',
+    old_data: before as unknown as Json,
+    new_data: after as unknown as Json,
+    changed_at: now,
+    actor_id: gate.adminAuthId,
+  })
+  if (auditError) logger.error('Driver billing audit failed', { error: auditError, driverId })
+
+  logger.info('Driver billing changed by admin', {
+    driverId,
+    from: before.billing_mode,
+    to: input.billingMode,
+    ratePercent: input.ratePercent,
+  })
+  return { ok: true }
+}
@@ -0,0 +1,234 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { AlertCircle, CheckCircle2, Loader2, Percent } from 'lucide-react'
+import { formatGuyana } from '@/lib/guyana-time'
+import type { DriverBillingMode } from '@/types/database'
+import { getDriverCommission, saveDriverBilling } from './commission-actions'
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500'
+
+const money = (currency: string, n: number) => `${currency} ${Number(n).toFixed(2)}`
+
+/** Billing mode, commission rate, balance, weekly statements and recent accruals for one driver. */
+export function DriverCommissionSection({ driverId }: { driverId: string }) {
+  const queryClient = useQueryClient()
+  const { data, isLoading } = useQuery({
+    queryKey: ['driver-commission', driverId],
+    queryFn: () => getDriverCommission(driverId),
+  })
+  const detail = data?.ok ? data.detail : null
+
+  const [mode, setMode] = useState<DriverBillingMode>('subscription')
+  const [rate, setRate] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [msg, setMsg] = useState<{ kind: 'ok' | 'err'; text: string } | null>(null)
+
+  useEffect(() => {
+    if (!detail) return
+    setMode(detail.billingMode)
+    setRate(detail.ratePercent != null ? String(detail.ratePercent) : '')
+  }, [detail])
+
+  async function onSave() {
+    setMsg(null)
+    const ratePercent = rate.trim() === '' ? null : Number(rate)
+    if (ratePercent !== null && Number.isNaN(ratePercent)) {
+      setMsg({ kind: 'err', text: 'Enter a number for the commission rate, or leave it empty for the default.' })
+      return
+    }
+    setSaving(true)
+    const res = await saveDriverBilling(driverId, { billingMode: mode, ratePercent })
+    setSaving(false)
+    if (!res.ok) {
+      setMsg({ kind: 'err', text: res.error })
+      return
+    }
+    setMsg({ kind: 'ok', text: 'Driver billing saved. It applies to trips completed from now on.' })
+    queryClient.invalidateQueries({ queryKey: ['driver-commission', driverId] })
+    queryClient.invalidateQueries({ queryKey: ['driver-detail', driverId] })
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <Percent className="h-5 w-5 text-gray-500" />
+          Billing &amp; commission
+        </h2>
+        <p className="text-sm text-gray-500 mt-1">
+          Subscription drivers pay a monthly plan. Commission drivers owe a percentage of each completed
+          trip&apos;s fare instead, settle the balance through MMG in the app and get a statement every week.
+        </p>
+      </div>
+
+      {msg && (
+        <div
+          className={
+            msg.kind === 'ok'
+              ? 'flex items-start gap-2 rounded-lg bg-green-50 border border-green-100 px-3 py-2 text-sm text-green-900'
+              : 'flex items-start gap-2 rounded-lg bg-red-50 border border-red-100 px-3 py-2 text-sm text-red-800'
+          }
+        >
+          {msg.kind === 'ok' ? (
+            <CheckCircle2 className="h-5 w-5 shrink-0 mt-0.5" />
+          ) : (
+            <AlertCircle className="h-5 w-5 shrink-0 mt-0.5" />
+          )}
+          <span>{msg.text}</span>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-gray-600 text-sm">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading commission billing…
+        </div>
+      ) : !detail ? (
+        <p className="text-sm text-red-700">{data && !data.ok ? data.error : 'Failed to load commission billing.'}</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">Billing mode</span>
+              <select
+                className={`mt-1 ${inputClass}`}
+                value={mode}
+                onChange={(e) => setMode(e.target.value as DriverBillingMode)}
+              >
+                <option value="subscription">Subscription</option>
+                <option value="commission">Commission per trip</option>
+              </select>
+            </label>
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">Commission rate (%)</span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                step="0.01"
+                className={`mt-1 ${inputClass}`}
+                placeholder={`Default (${detail.defaultRatePercent}%)`}
+                value={rate}
+                onChange={(e) => setRate(e.target.value)}
+              />
+            </label>
+            <button
+              type="button"
+              disabled={saving}
+              onClick={() => void onSave()}
+              className="inline-flex items-center justify-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+              Save billing
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="rounded-lg border border-gray-200 p-4">
+              <p className="text-xs text-gray-500 uppercase">Balance owed</p>
+              <p
+                className={`text-xl font-semibold ${detail.balance.balance > 0 ? 'text-amber-700' : 'text-gray-900'}`}
+              >
+                {money(detail.balance.currency, detail.balance.balance)}
+              </p>
+            </div>
+            <div className="rounded-lg border border-gray-200 p-4">
+              <p className="text-xs text-gray-500 uppercase">Commission accrued</p>
+              <p className="text-xl font-semibold text-gray-900">
+                {money(detail.balance.currency, detail.balance.accrued)}
+              </p>
+            </div>
+            <div className="rounded-lg border border-gray-200 p-4">
+              <p className="text-xs text-gray-500 uppercase">Paid</p>
+              <p className="text-xl font-semibold text-gray-900">{money(detail.balance.currency, detail.balance.paid)}</p>
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            Rate on the next completed trip: {detail.effectiveRatePercent}%
+            {detail.billingMode === 'subscription' ? ' (only while billed by commission)' : ''}.
+          </p>
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 mb-2">Weekly statements</h3>
+            {detail.statements.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Week</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Opening</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Trips</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Fares</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Commission</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Paid</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Closing</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {detail.statements.map((s) => (
+                      <tr key={s.id}>
+                        <td className="px-3 py-2 whitespace-nowrap text-gray-900">
+                          {formatGuyana(s.period_start, 'MMM d')} –{' '}
+                          {formatGuyana(new Date(new Date(s.period_end).getTime() - 1), 'MMM d, yyyy')}
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-600">{money(s.currency, s.opening_balance)}</td>
+                        <td className="px-3 py-2 text-right text-gray-600">{s.trip_count}</td>
+                        <td className="px-3 py-2 text-right text-gray-600">{money(s.currency, s.fares_total)}</td>
+                        <td className="px-3 py-2 text-right text-gray-900">{money(s.currency, s.commission_total)}</td>
+                        <td className="px-3 py-2 text-right text-gray-600">{money(s.currency, s.payments_total)}</td>
+                        <td className="px-3 py-2 text-right font-medium text-gray-900">
+                          {money(s.currency, s.closing_balance)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">No statements yet. They are written every Monday for the previous week.</p>
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 mb-2">Recent commission</h3>
+            {detail.accruals.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Completed</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Trip</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Fare</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Rate</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Commission</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Statement</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {detail.accruals.map((a) => (
+                      <tr key={a.id}>
+                        <td className="px-3 py-2 whitespace-nowrap text-gray-900">
+                          {formatGuyana(a.accrued_at, 'MMM d, yyyy h:mm a')}
+                        </td>
+                        <td className="px-3 py-2 font-mono text-xs text-gray-600">{a.trip_id.slice(0, 8)}</td>
+                        <td className="px-3 py-2 text-right text-gray-600">{money(a.currency, a.fare)}</td>
+                        <td className="px-3 py-2 text-right text-gray-600">{Number(a.rate_percent)}%</td>
+                        <td className="px-3 py-2 text-right text-gray-900">{money(a.currency, a.amount)}</td>
+                        <td className="px-3 py-2 text-gray-500">{a.statement_id ? 'Billed' : 'Open'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">No commission accrued.</p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -3,7 +3,7 @@
 import { useParams, useRouter } from 'next/navigation'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { createClient } from '@/lib/supabase/client'
-import { sendDriverPushNotification } from './actions'
+import { sendDriverPushNotification, sendDriverVerificationNotification } from './actions'
 import Image from 'next/image'
 import {
   ArrowLeft,
@@ -36,10 +36,14 @@ import { useState, useCallback, useEffect } from 'react'
 import type {
   DriverWithDetails,
   VerificationStatus,
-  SubscriptionStatus,
-  Database
+  Database,
+  NotificationCategory
 } from '@/types/database'
 import { TripRouteMap } from '@/components/drivers/trip-route-map'
+import { ManualSubscriptionModal } from '../../payments/manual-subscription-modal'
+import { DriverCommissionSection } from './commission-section'
+import { CategorySelect } from '../../notifications/category-select'
+import { MANUAL_ACTION_LABEL, MANUAL_REASON_LABEL } from '../../payments/manual-subscriptions'
 import { fetchTripRoute } from '@/lib/admin/fetch-trip-route'
 
 type DriverDetailData = {
@@ -261,6 +265,7 @@ function DriverDocumentPreview({
 const statusColors = {
   requested: 'bg-yellow-100 text-yellow-800',
   accepted: 'bg-blue-100 text-blue-800',
+  arrived: 'bg-cyan-100 text-cyan-800',
   picked_up: 'bg-purple-100 text-purple-800',
   completed: 'bg-green-100 text-green-800',
   cancelled: 'bg-red-100 text-red-800',
@@ -532,13 +537,15 @@ export default function DriverDetailPage() {
                 Agreement Acceptances
               </Link>
             )}
-            <button
-              onClick={() => setShowSubscriptionModal(true)}
-              className="inline-flex items-center px-3 py-1.5 text-sm bg-indigo-50 text-indigo-700 border border-indigo-200 rounded-lg hover:bg-indigo-100 transition-colors"
-            >
-              <Edit className="h-3.5 w-3.5 mr-1.5" />
-              Edit Subscription
-            </button>
+            {driver.user_id && (
+              <button
+                onClick={() => setShowSubscriptionModal(true)}
+                className="inline-flex items-center px-3 py-1.5 text-sm bg-indigo-50 text-indigo-700 border border-indigo-200 rounded-lg hover:bg-indigo-100 transition-colors"
+              >
+                <Edit className="h-3.5 w-3.5 mr-1.5" />
+                Change Subscription
+              </button>
+            )}
           </div>
         </div>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -723,6 +730,9 @@ export default function DriverDetailPage() {
         )}
       </div>
 
+      {/* Billing & Commission */}
+      <DriverCommissionSection driverId={driverId} />
+
       {/* Subscriptions */}
       <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
         <h2 className="text-lg font-semibold text-gray-900 mb-4">Subscriptions</h2>
@@ -748,6 +758,13 @@ export default function DriverDetailPage() {
                           : ''}
                       </p>
                     )}
+                    {subscription.manual_action && subscription.reason_code && (
+                      <p className="text-xs text-indigo-700 mt-1">
+                        {MANUAL_ACTION_LABEL[subscription.manual_action]} ·{' '}
+                        {MANUAL_REASON_LABEL[subscription.reason_code]}
+                        {subscription.reason_note ? ` — ${subscription.reason_note}` : ''}
+                      </p>
+                    )}
                   </div>
                   <div className="text-left sm:text-right">
                     <p className="font-semibold text-gray-900">
@@ -927,10 +944,13 @@ export default function DriverDetailPage() {
         />
       )}
 
-      {/* Subscription Update Modal */}
-      {showSubscriptionModal && (
-        <SubscriptionUpdateModal
-          driver={driver}
+      {/* Manual Subscription Change Modal */}
+      {showSubscriptionModal && driver.user_id && (
+        <ManualSubscriptionModal
+          userId={driver.user_id}
+          role="driver"
+          status={driver.subscription_status}
+          endDate={driver.subscription_end_date}
           onClose={() => setShowSubscriptionModal(false)}
           onSuccess={() => {
             queryClient.invalidateQueries({ queryKey: ['driver-detail', driverId] })
@@ -1177,6 +1197,7 @@ function SendSmsModal({
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState(false)
+  const [queued, setQueued] = useState(false)
   const supabase = createClient()
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -1203,6 +1224,7 @@ function SendSmsModal({
       const data = await res.json()
       if (!res.ok) throw new Error(data.message || 'Failed to send SMS')
 
+      setQueued(data.queued === true)
       setSuccess(true)
       setTimeout(onClose, 1500)
     } catch (err: any) {
@@ -1243,7 +1265,9 @@ function SendSmsModal({
 
           {success && (
             <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
-              <p className="text-sm text-green-800">SMS sent successfully!</p>
+              <p className="text-sm text-green-800">
+                {queued ? 'SMS queued. It will be retried until the provider accepts it.' : 'SMS sent successfully!'}
+              </p>
             </div>
           )}
 
@@ -1280,9 +1304,11 @@ function SendPushNotificationModal({
   const [title, setTitle] = useState('')
   const [body, setBody] = useState('')
   const [dataJson, setDataJson] = useState('')
+  const [category, setCategory] = useState<NotificationCategory>('account')
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState(false)
+  const [queued, setQueued] = useState(false)
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -1309,12 +1335,14 @@ function SendPushNotificationModal({
 
       const result = await sendDriverPushNotification(userId, title, body, {
         dataJson: trimmedData || undefined,
+        category,
       })
 
       if (!result.success) {
         throw new Error(result.error || 'Driver has no registered device for push notifications')
       }
 
+      setQueued(result.queued === true)
       setSuccess(true)
       setTimeout(onClose, 1500)
     } catch (err: any) {
@@ -1333,6 +1361,8 @@ function SendPushNotificationModal({
         </p>
 
         <form onSubmit={handleSubmit} className="space-y-4">
+          <CategorySelect id="driver-push-category" value={category} onChange={setCategory} />
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">Title</label>
             <input
@@ -1384,7 +1414,11 @@ function SendPushNotificationModal({
 
           {success && (
             <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
-              <p className="text-sm text-green-800">Push notification sent successfully!</p>
+              <p className="text-sm text-green-800">
+                {queued
+                  ? 'Push notification queued. It will be retried until FCM accepts it.'
+                  : 'Push notification sent successfully!'}
+              </p>
             </div>
           )}
 
@@ -1411,129 +1445,6 @@ function SendPushNotificationModal({
   )
 }
 
-function SubscriptionUpdateModal({
-  driver,
-  onClose,
-  onSuccess,
-}: {
-  driver: DriverWithDetails
-  onClose: () => void
-  onSuccess: () => void
-}) {
-  const [status, setStatus] = useState<SubscriptionStatus>(driver.subscription_status)
-  const [startDate, setStartDate] = useState(
-    driver.subscription_start_date
-      ? driver.subscription_start_date.slice(0, 10)
-      : ''
-  )
-  const [endDate, setEndDate] = useState(
-    driver.subscription_end_date
-      ? driver.subscription_end_date.slice(0, 10)
-      : ''
-  )
-  const [isSubmitting, setIsSubmitting] = useState(false)
-  const [error, setError] = useState<string | null>(null)
-  const supabase = createClient()
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
-    setError(null)
-    setIsSubmitting(true)
-
-    try {
-      const { error: updateError } = await (supabase.from('driver_profiles') as any)
-        .update({
-          subscription_status: status,
-          subscription_start_date: startDate || null,
-          subscription_end_date: endDate || null,
-        })
-        .eq('id', driver.id)
-
-      if (updateError) throw updateError
-      onSuccess()
-    } catch (err: any) {
-      setError(err.message || 'Failed to update subscription')
-    } finally {
-      setIsSubmitting(false)
-    }
-  }
-
-  return (
-    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-      <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6">
-        <h2 className="text-xl font-bold text-gray-900 mb-4">Edit Subscription</h2>
-
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Subscription Status
-            </label>
-            <select
-              value={status}
-              onChange={(e) => setStatus(e.target.value as SubscriptionStatus)}
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-              required
-            >
-              <option value="active">Active</option>
-              <option value="trial">Trial</option>
-              <option value="expired">Expired</option>
-              <option value="cancelled">Cancelled</option>
-            </select>
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Subscription Start Date
-            </label>
-            <input
-              type="date"
-              value={startDate}
-              onChange={(e) => setStartDate(e.target.value)}
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-            />
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Subscription End Date
-            </label>
-            <input
-              type="date"
-              value={endDate}
-              onChange={(e) => setEndDate(e.target.value)}
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-            />
-          </div>
-
-          {error && (
-            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
-              <p className="text-sm text-red-800">{error}</p>
-            </div>
-          )}
-
-          <div className="flex gap-3 pt-4">
-            <button
-              type="button"
-              onClick={onClose}
-              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
-              disabled={isSubmitting}
-            >
-              Cancel
-            </button>
-            <button
-              type="submit"
-              className="flex-1 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-              disabled={isSubmitting}
-            >
-              {isSubmitting ? 'Saving...' : 'Save Changes'}
-            </button>
-          </div>
-        </form>
-      </div>
-    </div>
-  )
-}
-
 function VerificationUpdateModal({
   driver,
   onClose,
@@ -1609,36 +1520,11 @@ function VerificationUpdateModal({
 
       // In-app notification + FCM push (push failure does not block status update)
       if (userId) {
-        const title =
-          status === 'approved'
-            ? 'Verification Approved!'
-            : status === 'rejected'
-              ? 'Verification Rejected'
-              : status === 'suspended'
-                ? 'Account Suspended'
-                : 'Verification Status Updated'
-        const body =
-          status === 'approved'
-            ? 'Your driver account is now active. You can start accepting trips.'
-            : status === 'rejected'
-              ? 'Your verification application has been rejected. Please review the reason and resubmit.'
-              : status === 'suspended'
-                ? 'Your driver account has been suspended. Please contact support for more information.'
-                : 'Your verification status has been updated.'
-
-        const { error: notifError } = await (supabase.from('notifications') as any).insert({
-          user_id: userId,
-          title,
-          body,
-          notification_type: `verification_${status}`,
-          is_read: false,
-        })
-
-        if (!notifError) {
-          await sendDriverPushNotification(userId, title, body, {
-            skipInAppNotificationInsert: true,
-          })
-        }
+        await sendDriverVerificationNotification(
+          userId,
+          status,
+          status === 'rejected' ? rejectionReason || null : null
+        )
       }
 
       onSuccess()
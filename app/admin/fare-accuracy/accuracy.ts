@@ -0,0 +1,96 @@
+/** One cost-estimates quote and what happened after it. */
+export type EstimateOutcome = {
+  id: string
+  createdAt: string
+  inputDropoff: string
+  pickupAddress: string | null
+  dropoffAddress: string | null
+  pickupZone: string | null
+  dropoffZone: string | null
+  distanceKm: number | null
+  status: 'PRICED' | 'NEGOTIATE'
+  branch: string | null
+  quoted: number | null
+  ruleSetVersion: string | null
+  tripRequestId: string | null
+  /** trip_requests.estimated_fare — what the rider booked at. */
+  requestedFare: number | null
+  tripId: string | null
+  tripStatus: string | null
+  /** trips.actual_fare of a completed trip. */
+  actualFare: number | null
+}
+
+export type ZonePairAccuracy = {
+  pair: string
+  quotes: number
+  priced: number
+  booked: number
+  /** Priced quotes whose trip completed with an actual fare. */
+  completed: number
+  meanQuoted: number | null
+  meanActual: number | null
+  /** Mean (actual − quoted); positive = quotes run low. */
+  bias: number | null
+  /** Mean |actual − quoted| / actual, in percent. */
+  mape: number | null
+  /** Share of completed trips whose actual fare is within ±10% of the quote, in percent. */
+  within10: number | null
+}
+
+export type AccuracySummary = {
+  overall: ZonePairAccuracy
+  byPair: ZonePairAccuracy[]
+}
+
+const WITHIN_TOLERANCE = 0.1
+
+export function isReconciled(o: EstimateOutcome): boolean {
+  return o.quoted != null && o.actualFare != null && o.actualFare > 0
+}
+
+export function zonePair(o: EstimateOutcome): string {
+  return `${o.pickupZone ?? '?'} → ${o.dropoffZone ?? '?'}`
+}
+
+function mean(values: number[]): number | null {
+  return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null
+}
+
+function accuracyOf(pair: string, outcomes: EstimateOutcome[]): ZonePairAccuracy {
+  const reconciled = outcomes.filter(isReconciled)
+  const errors = reconciled.map((o) => o.actualFare! - o.quoted!)
+  const pctErrors = reconciled.map((o) => Math.abs(o.actualFare! - o.quoted!) / o.actualFare!)
+
+  return {
+    pair,
+    quotes: outcomes.length,
+    priced: outcomes.filter((o) => o.status === 'PRICED').length,
+    booked: outcomes.filter((o) => o.tripRequestId != null).length,
+    completed: reconciled.length,
+    meanQuoted: mean(reconciled.map((o) => o.quoted!)),
+    meanActual: mean(reconciled.map((o) => o.actualFare!)),
+    bias: mean(errors),
+    mape: pctErrors.length ? mean(pctErrors)! * 100 : null,
+    within10: pctErrors.length
+      ? (pctErrors.filter((e) => e <= WITHIN_TOLERANCE).length / pctErrors.length) * 100
+      : null,
+  }
+}
+
+/** Quote accuracy overall and per pickup → dropoff zone pair, worst calibrated (largest |bias|) first. */
+export function summarizeAccuracy(outcomes: EstimateOutcome[]): AccuracySummary {
+  const groups = new Map<string, EstimateOutcome[]>()
+  for (const o of outcomes) {
+    const key = zonePair(o)
+    groups.set(key, [...(groups.get(key) ?? []), o])
+  }
+
+  const byPair = Array.from(groups, ([pair, rows]) => accuracyOf(pair, rows)).sort(
+    (a, b) =>
+      (b.bias == null ? -1 : Math.abs(b.bias)) - (a.bias == null ? -1 : Math.abs(a.bias)) ||
+      b.quotes - a.quotes
+  )
+
+  return { overall: accuracyOf('All zone pairs', outcomes), byPair }
+}
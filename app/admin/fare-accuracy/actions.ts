@@ -0,0 +1,153 @@
+'use server'
+
+import { createServerActionClient } from '@supabase/auth-helpers-nextjs'
+import { createClient } from '@supabase/supabase-js'
+import { cookies } from 'next/headers'
+import { logger } from '@/lib/logger'
+import type { Database } from '@/types/database'
+import type { EstimateOutcome } from './accuracy'
+
+function createServiceClient() {
+  return createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+}
+
+async function requireAdmin(): Promise<
+  | { ok: true; db: ReturnType<typeof createServiceClient> }
+  | { ok: false; error: string }
+> {
+  const authClient = createServerActionClient({ cookies })
+  const {
+    data: { user: authUser },
+    error: authError,
+  } = await authClient.auth.getUser()
+
+  if (authError || !authUser) {
+    return { ok: false, error: 'Not authenticated' }
+  }
+
+  const db = createServiceClient()
+  const { data: userRow, error: userError } = await db
+    .from('users')
+    .select('id, role')
+    .eq('auth_id', authUser.id)
+    .single()
+
+  if (userError || !userRow || userRow.role !== 'admin') {
+    return { ok: false, error: 'Only administrators can view fare accuracy.' }
+  }
+
+  return { ok: true, db }
+}
+
+/** Keeps `.in(...)` filters well inside PostgREST's URL length limit. */
+const IN_CHUNK = 200
+
+function chunks<T>(items: T[]): T[][] {
+  const out: T[][] = []
+  for (let i = 0; i < items.length; i += IN_CHUNK) out.push(items.slice(i, i + IN_CHUNK))
+  return out
+}
+
+export type ListEstimateOutcomesResult =
+  | { ok: true; outcomes: EstimateOutcome[]; truncated: boolean }
+  | { ok: false; error: string }
+
+/**
+ * Logged quotes in [since, until) joined to the trip request booked from them
+ * (trip_requests.fare_estimate_id) and the trip that request became (trips.request_id).
+ */
+export async function listEstimateOutcomes(input: {
+  since: string
+  until: string
+  limit: number
+}): Promise<ListEstimateOutcomesResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const limit = Math.min(Math.max(Math.trunc(input.limit) || 0, 1), 5000)
+
+  let query = gate.db
+    .from('fare_estimate_logs')
+    .select(
+      'id, created_at, input_dropoff, pickup_address, dropoff_address, pickup_zone, dropoff_zone, distance_km, status, branch, total, rule_set_version'
+    )
+    .order('created_at', { ascending: false })
+    .limit(limit + 1)
+
+  if (input.since) query = query.gte('created_at', input.since)
+  if (input.until) query = query.lt('created_at', input.until)
+
+  const { data: logs, error } = await query
+
+  if (error) {
+    logger.error('listEstimateOutcomes failed', { error })
+    return { ok: false, error: 'Failed to load fare estimates.' }
+  }
+
+  const truncated = (logs ?? []).length > limit
+  const rows = (logs ?? []).slice(0, limit)
+
+  const requestsByEstimate = new Map<string, { id: string; estimated_fare: number | null }>()
+  for (const ids of chunks(rows.map((r) => r.id))) {
+    const { data, error: reqError } = await gate.db
+      .from('trip_requests')
+      .select('id, fare_estimate_id, estimated_fare, created_at')
+      .in('fare_estimate_id', ids)
+      .order('created_at', { ascending: true })
+    if (reqError) {
+      logger.error('listEstimateOutcomes trip_requests failed', { error: reqError })
+      return { ok: false, error: 'Failed to load trip requests.' }
+    }
+    // A quote re-used for several requests reconciles against the first one.
+    for (const r of data ?? []) {
+      if (r.fare_estimate_id && !requestsByEstimate.has(r.fare_estimate_id)) {
+        requestsByEstimate.set(r.fare_estimate_id, r)
+      }
+    }
+  }
+
+  const tripsByRequest = new Map<string, { id: string; status: string; actual_fare: number | null }>()
+  for (const ids of chunks(Array.from(requestsByEstimate.values(), (r) => r.id))) {
+    const { data, error: tripError } = await gate.db
+      .from('trips')
+      .select('id, request_id, status, actual_fare')
+      .in('request_id', ids)
+    if (tripError) {
+      logger.error('listEstimateOutcomes trips failed', { error: tripError })
+      return { ok: false, error: 'Failed to load trips.' }
+    }
+    for (const t of data ?? []) {
+      if (t.request_id) tripsByRequest.set(t.request_id, t)
+    }
+  }
+
+  const outcomes: EstimateOutcome[] = rows.map((r) => {
+    const request = requestsByEstimate.get(r.id)
+    const trip = request ? tripsByRequest.get(request.id) : undefined
+    return {
+      id: r.id,
+      createdAt: r.created_at,
+      inputDropoff: r.input_dropoff,
+      pickupAddress: r.pickup_address,
+      dropoffAddress: r.dropoff_address,
+      pickupZone: r.pickup_zone,
+      dropoffZone: r.dropoff_zone,
+      distanceKm: r.distance_km,
+      status: r.status,
+      branch: r.branch,
+      quoted: r.total,
+      ruleSetVersion: r.rule_set_version,
+      tripRequestId: request?.id ?? null,
+      requestedFare: request?.estimated_fare ?? null,
+      tripId: trip?.id ?? null,
+      tripStatus: trip?.status ?? null,
+      actualFare: trip?.status === 'completed' ? trip.actual_fare : null,
+    }
+  })
+
+  return { ok: true, outcomes, truncated }
+}
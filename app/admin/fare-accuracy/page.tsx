@@ -0,0 +1,285 @@
+'use client'
+
+import Link from 'next/link'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { Loader2, Target } from 'lucide-react'
+import { format } from 'date-fns'
+import { listEstimateOutcomes } from './actions'
+import { isReconciled, summarizeAccuracy, zonePair, type EstimateOutcome, type ZonePairAccuracy } from './accuracy'
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+const btnPrimary =
+  'inline-flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50'
+
+const RECENT_ROWS = 100
+
+function money(n: number | null): string {
+  return n == null ? '—' : `$${Math.round(n).toLocaleString()}`
+}
+
+function signedMoney(n: number | null): string {
+  if (n == null) return '—'
+  const rounded = Math.round(n)
+  if (rounded === 0) return '$0'
+  return `${rounded > 0 ? '+' : '−'}$${Math.abs(rounded).toLocaleString()}`
+}
+
+function pct(n: number | null): string {
+  return n == null ? '—' : `${n.toFixed(1)}%`
+}
+
+function biasClass(n: number | null): string {
+  if (n == null || Math.round(n) === 0) return 'text-gray-600'
+  return n > 0 ? 'text-amber-700' : 'text-red-700'
+}
+
+function daysAgo(days: number): string {
+  const d = new Date()
+  d.setDate(d.getDate() - days)
+  return format(d, 'yyyy-MM-dd')
+}
+
+export default function FareAccuracyPage() {
+  const [since, setSince] = useState(daysAgo(30))
+  const [until, setUntil] = useState('')
+  const [limit, setLimit] = useState(2000)
+  const [version, setVersion] = useState('')
+  const [outcomes, setOutcomes] = useState<EstimateOutcome[]>([])
+  const [truncated, setTruncated] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    const res = await listEstimateOutcomes({ since, until, limit })
+    setLoading(false)
+    if (!res.ok) {
+      setError(res.error)
+      return
+    }
+    setOutcomes(res.outcomes)
+    setTruncated(res.truncated)
+  }, [since, until, limit])
+
+  useEffect(() => {
+    void load()
+    // Initial load only; later loads come from the button.
+  }, []) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const versions = useMemo(
+    () => [...new Set(outcomes.map((o) => o.ruleSetVersion).filter((v): v is string => !!v))].sort(),
+    [outcomes]
+  )
+  const filtered = useMemo(
+    () => (version ? outcomes.filter((o) => o.ruleSetVersion === version) : outcomes),
+    [outcomes, version]
+  )
+  const summary = useMemo(() => summarizeAccuracy(filtered), [filtered])
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-6">
+      <div className="flex items-center gap-3">
+        <Target className="h-8 w-8 text-blue-600" aria-hidden />
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Fare accuracy</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            Every cost estimate quoted, reconciled against the trip request booked from it and the completed
+            trip&apos;s actual fare.
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-red-50 border border-red-200 text-red-800 px-4 py-3 text-sm">{error}</div>
+      )}
+
+      <div className="rounded-xl border border-gray-200 bg-white p-4 flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Quoted from</label>
+          <input type="date" className={inputClass} value={since} onChange={(e) => setSince(e.target.value)} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Quoted before</label>
+          <input type="date" className={inputClass} value={until} onChange={(e) => setUntil(e.target.value)} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Max quotes</label>
+          <input
+            type="number"
+            className={inputClass}
+            value={limit}
+            min={1}
+            max={5000}
+            onChange={(e) => setLimit(Number(e.target.value))}
+          />
+        </div>
+        <div className="min-w-[160px]">
+          <label className="block text-xs font-medium text-gray-600 mb-1">Rule set</label>
+          <select className={inputClass} value={version} onChange={(e) => setVersion(e.target.value)}>
+            <option value="">All versions</option>
+            {versions.map((v) => (
+              <option key={v} value={v}>
+                {v}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button type="button" className={btnPrimary} onClick={() => void load()} disabled={loading}>
+          {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+          Load
+        </button>
+        {truncated && (
+          <p className="text-xs text-amber-700">Showing the newest {limit.toLocaleString()} quotes only.</p>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-gray-600 py-12 justify-center">
+          <Loader2 className="h-6 w-6 animate-spin" />
+          Loading…
+        </div>
+      ) : filtered.length === 0 ? (
+        <p className="text-sm text-gray-500 py-8 text-center">No quotes logged in this period.</p>
+      ) : (
+        <>
+          <div className="grid sm:grid-cols-4 gap-4">
+            <SummaryCard
+              label="Quotes priced"
+              value={`${summary.overall.priced} / ${summary.overall.quotes}`}
+              sub={`${summary.overall.booked} booked · ${summary.overall.completed} completed`}
+            />
+            <SummaryCard
+              label="Mean bias (actual − quoted)"
+              value={signedMoney(summary.overall.bias)}
+              className={biasClass(summary.overall.bias)}
+            />
+            <SummaryCard label="Mean absolute error" value={pct(summary.overall.mape)} />
+            <SummaryCard label="Within ±10%" value={pct(summary.overall.within10)} />
+          </div>
+
+          <div className="rounded-xl border border-gray-200 bg-white overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Zone pair</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-700">Quotes</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-700">Priced</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-700">Booked</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-700">Completed</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-700">Avg quoted</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-700">Avg actual</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-700">Bias</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-700">MAPE</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-700">±10%</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {summary.byPair.map((p) => (
+                  <PairRow key={p.pair} row={p} />
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="rounded-xl border border-gray-200 bg-white overflow-x-auto">
+            <div className="px-4 py-3 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">Recent quotes</h2>
+              <p className="text-xs text-gray-500">
+                Newest {Math.min(RECENT_ROWS, filtered.length)} of {filtered.length}. Reconciled rows are highlighted.
+              </p>
+            </div>
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Quoted at</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Rider typed</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Resolved to</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Zones</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-700">Km</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Quote</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-700">Booked at</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-700">Actual</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {filtered.slice(0, RECENT_ROWS).map((o) => (
+                  <tr key={o.id} className={isReconciled(o) ? 'bg-blue-50/40' : 'hover:bg-gray-50'}>
+                    <td className="px-4 py-2 whitespace-nowrap text-gray-700">
+                      {format(new Date(o.createdAt), 'MMM d, HH:mm')}
+                    </td>
+                    <td className="px-4 py-2 max-w-[220px] truncate" title={o.inputDropoff}>
+                      {o.inputDropoff}
+                    </td>
+                    <td className="px-4 py-2 max-w-[260px] truncate text-gray-600" title={o.dropoffAddress ?? ''}>
+                      {o.dropoffAddress ?? '—'}
+                    </td>
+                    <td className="px-4 py-2 font-mono text-xs whitespace-nowrap">{zonePair(o)}</td>
+                    <td className="px-4 py-2 text-right tabular-nums">{o.distanceKm?.toFixed(1) ?? '—'}</td>
+                    <td className="px-4 py-2 whitespace-nowrap">
+                      <span className="tabular-nums">{money(o.quoted)}</span>{' '}
+                      <span className="text-xs text-gray-500">
+                        {o.branch ?? o.status}
+                        {o.ruleSetVersion ? ` · ${o.ruleSetVersion}` : ''}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 text-right tabular-nums">
+                      {o.tripRequestId ? money(o.requestedFare) : '—'}
+                    </td>
+                    <td className="px-4 py-2 text-right tabular-nums">
+                      {o.tripId ? (
+                        <Link href={`/admin/trips/${o.tripId}`} className="text-blue-600 hover:underline">
+                          {o.actualFare != null ? money(o.actualFare) : o.tripStatus}
+                        </Link>
+                      ) : (
+                        '—'
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+function PairRow({ row }: { row: ZonePairAccuracy }) {
+  return (
+    <tr className="hover:bg-gray-50">
+      <td className="px-4 py-2 font-mono text-xs whitespace-nowrap">{row.pair}</td>
+      <td className="px-4 py-2 text-right tabular-nums">{row.quotes}</td>
+      <td className="px-4 py-2 text-right tabular-nums">{row.priced}</td>
+      <td className="px-4 py-2 text-right tabular-nums">{row.booked}</td>
+      <td className="px-4 py-2 text-right tabular-nums">{row.completed}</td>
+      <td className="px-4 py-2 text-right tabular-nums">{money(row.meanQuoted)}</td>
+      <td className="px-4 py-2 text-right tabular-nums">{money(row.meanActual)}</td>
+      <td className={`px-4 py-2 text-right tabular-nums ${biasClass(row.bias)}`}>{signedMoney(row.bias)}</td>
+      <td className="px-4 py-2 text-right tabular-nums">{pct(row.mape)}</td>
+      <td className="px-4 py-2 text-right tabular-nums">{pct(row.within10)}</td>
+    </tr>
+  )
+}
+
+function SummaryCard({
+  label,
+  value,
+  sub,
+  className = 'text-gray-900',
+}: {
+  label: string
+  value: string
+  sub?: string
+  className?: string
+}) {
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-4">
+      <p className="text-xs font-medium text-gray-500">{label}</p>
+      <p className={`text-2xl font-semibold tabular-nums mt-1 ${className}`}>{value}</p>
+      {sub && <p className="text-xs text-gray-500 mt-1">{sub}</p>}
+    </div>
+  )
+}
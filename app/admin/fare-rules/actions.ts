@@ -0,0 +1,528 @@
+'use server'
+
+import { createServerActionClient } from '@supabase/auth-helpers-nextjs'
+import { createClient } from '@supabase/supabase-js'
+import { cookies } from 'next/headers'
+import { logger } from '@/lib/logger'
+import type { Database } from '@/types/database'
+import {
+  validateFareRuleInput,
+  validateFareSurchargeInput,
+  type FareRuleInput,
+  type FareSurchargeInput,
+} from './rule-input'
+
+function createServiceClient() {
+  return createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+}
+
+async function requireAdmin(): Promise<
+  | { ok: true; db: ReturnType<typeof createServiceClient>; adminUserId: string }
+  | { ok: false; error: string }
+> {
+  const authClient = createServerActionClient({ cookies })
+  const {
+    data: { user: authUser },
+    error: authError,
+  } = await authClient.auth.getUser()
+
+  if (authError || !authUser) {
+    return { ok: false, error: 'Not authenticated' }
+  }
+
+  const db = createServiceClient()
+  const { data: userRow, error: userError } = await db
+    .from('users')
+    .select('id, role')
+    .eq('auth_id', authUser.id)
+    .single()
+
+  if (userError || !userRow || userRow.role !== 'admin') {
+    return { ok: false, error: 'Only administrators can manage fare rules.' }
+  }
+
+  return { ok: true, db, adminUserId: userRow.id }
+}
+
+export type FareRuleSetRow = Database['public']['Tables']['fare_rule_sets']['Row']
+export type FareRuleRow = Database['public']['Tables']['fare_rules']['Row']
+export type FareSurchargeRow = Database['public']['Tables']['fare_surcharges']['Row']
+export type PublicHolidayRow = Database['public']['Tables']['public_holidays']['Row']
+
+/** Rules of a set that has ever been activated stay frozen so old quotes remain explainable. */
+async function requireDraftRuleSet(
+  db: ReturnType<typeof createServiceClient>,
+  ruleSetId: string
+): Promise<{ ok: true } | { ok: false; error: string }> {
+  const { data, error } = await db
+    .from('fare_rule_sets')
+    .select('id, activated_at')
+    .eq('id', ruleSetId)
+    .maybeSingle()
+
+  if (error) {
+    logger.error('requireDraftRuleSet failed', { error, ruleSetId })
+    return { ok: false, error: 'Failed to load rule set.' }
+  }
+  if (!data) {
+    return { ok: false, error: 'Rule set not found.' }
+  }
+  if (data.activated_at) {
+    return {
+      ok: false,
+      error: 'This rule set has been activated and is read-only. Create a new draft to change prices.',
+    }
+  }
+  return { ok: true }
+}
+
+export type ListFareRuleSetsResult =
+  | { ok: true; rows: FareRuleSetRow[]; activeId: string | null }
+  | { ok: false; error: string }
+
+export async function listFareRuleSets(): Promise<ListFareRuleSetsResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const { data, error } = await gate.db
+    .from('fare_rule_sets')
+    .select('*')
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    logger.error('listFareRuleSets failed', { error })
+    return { ok: false, error: 'Failed to load fare rule sets.' }
+  }
+
+  const rows = data ?? []
+  const active = rows
+    .filter((r) => r.activated_at)
+    .sort((a, b) => b.activated_at!.localeCompare(a.activated_at!))[0]
+  return { ok: true, rows, activeId: active?.id ?? null }
+}
+
+export type ListFareRulesResult =
+  | { ok: true; rows: FareRuleRow[] }
+  | { ok: false; error: string }
+
+export async function listFareRules(ruleSetId: string): Promise<ListFareRulesResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const { data, error } = await gate.db
+    .from('fare_rules')
+    .select('*')
+    .eq('rule_set_id', ruleSetId)
+    .order('priority', { ascending: true })
+
+  if (error) {
+    logger.error('listFareRules failed', { error, ruleSetId })
+    return { ok: false, error: 'Failed to load fare rules.' }
+  }
+  return { ok: true, rows: data ?? [] }
+}
+
+export type CreateFareRuleSetResult =
+  | { ok: true; row: FareRuleSetRow }
+  | { ok: false; error: string }
+
+/** New draft, optionally seeded with a copy of another set's rules and surcharges. */
+export async function createFareRuleSetDraft(input: {
+  version_label: string
+  notes: string
+  copy_from_id: string | null
+}): Promise<CreateFareRuleSetResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const versionLabel = input.version_label.trim()
+  if (!versionLabel) {
+    return { ok: false, error: 'Version label is required.' }
+  }
+
+  let stopWaitingFee = 0
+  if (input.copy_from_id) {
+    const { data: source, error: sourceError } = await gate.db
+      .from('fare_rule_sets')
+      .select('stop_waiting_fee')
+      .eq('id', input.copy_from_id)
+      .maybeSingle()
+    if (sourceError) {
+      logger.error('createFareRuleSetDraft source load failed', { sourceError })
+      return { ok: false, error: 'Failed to load the rule set to copy.' }
+    }
+    stopWaitingFee = source?.stop_waiting_fee ?? 0
+  }
+
+  const { data: row, error } = await gate.db
+    .from('fare_rule_sets')
+    .insert({
+      version_label: versionLabel,
+      notes: input.notes.trim() || null,
+      stop_waiting_fee: stopWaitingFee,
+      created_by: gate.adminUserId,
+    })
+    .select('*')
+    .single()
+
+  if (error) {
+    if (error.code === '23505') {
+      return { ok: false, error: `A rule set labelled "${versionLabel}" already exists.` }
+    }
+    logger.error('createFareRuleSetDraft failed', { error })
+    return { ok: false, error: 'Failed to create rule set.' }
+  }
+
+  if (input.copy_from_id) {
+    const [rulesRes, surchargesRes] = await Promise.all([
+      gate.db.from('fare_rules').select('*').eq('rule_set_id', input.copy_from_id),
+      gate.db.from('fare_surcharges').select('*').eq('rule_set_id', input.copy_from_id),
+    ])
+
+    const sourceError = rulesRes.error ?? surchargesRes.error
+    if (sourceError) {
+      logger.error('createFareRuleSetDraft copy load failed', { sourceError })
+      return { ok: false, error: 'Rule set created, but copying rules failed.' }
+    }
+
+    if (rulesRes.data?.length) {
+      const { error: copyError } = await gate.db.from('fare_rules').insert(
+        rulesRes.data.map(({ id: _id, created_at: _c, updated_at: _u, ...rule }) => ({
+          ...rule,
+          rule_set_id: row.id,
+        }))
+      )
+      if (copyError) {
+        logger.error('createFareRuleSetDraft copy insert failed', { copyError })
+        return { ok: false, error: 'Rule set created, but copying rules failed.' }
+      }
+    }
+
+    if (surchargesRes.data?.length) {
+      const { error: copyError } = await gate.db.from('fare_surcharges').insert(
+        surchargesRes.data.map(({ id: _id, created_at: _c, updated_at: _u, ...surcharge }) => ({
+          ...surcharge,
+          rule_set_id: row.id,
+        }))
+      )
+      if (copyError) {
+        logger.error('createFareRuleSetDraft surcharge copy failed', { copyError })
+        return { ok: false, error: 'Rule set created, but copying surcharges failed.' }
+      }
+    }
+  }
+
+  logger.info('Fare rule set draft created', { id: row.id, versionLabel })
+  return { ok: true, row }
+}
+
+export type UpdateStopWaitingFeeResult = { ok: true } | { ok: false; error: string }
+
+/** Fee added per intermediate stop on multi-stop estimates. */
+export async function updateStopWaitingFee(
+  ruleSetId: string,
+  stopWaitingFee: number
+): Promise<UpdateStopWaitingFeeResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const draft = await requireDraftRuleSet(gate.db, ruleSetId)
+  if (!draft.ok) return draft
+
+  if (!Number.isFinite(stopWaitingFee) || stopWaitingFee < 0) {
+    return { ok: false, error: 'Waiting fee must be a non-negative number.' }
+  }
+
+  const { error } = await gate.db
+    .from('fare_rule_sets')
+    .update({ stop_waiting_fee: stopWaitingFee })
+    .eq('id', ruleSetId)
+
+  if (error) {
+    logger.error('updateStopWaitingFee failed', { error, ruleSetId })
+    return { ok: false, error: 'Failed to save waiting fee.' }
+  }
+  return { ok: true }
+}
+
+export type ActivateFareRuleSetResult = { ok: true } | { ok: false; error: string }
+
+/**
+ * Make a set the one the cost-estimates function prices with. Re-activating an older set rolls back.
+ * The Edge Function caches the active set for up to a minute.
+ */
+export async function activateFareRuleSet(ruleSetId: string): Promise<ActivateFareRuleSetResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const { count, error: countError } = await gate.db
+    .from('fare_rules')
+    .select('id', { count: 'exact', head: true })
+    .eq('rule_set_id', ruleSetId)
+
+  if (countError) {
+    logger.error('activateFareRuleSet count failed', { countError, ruleSetId })
+    return { ok: false, error: 'Failed to activate rule set.' }
+  }
+  if (!count) {
+    return { ok: false, error: 'Cannot activate a rule set with no rules.' }
+  }
+
+  const { error } = await gate.db
+    .from('fare_rule_sets')
+    .update({ activated_at: new Date().toISOString(), activated_by: gate.adminUserId })
+    .eq('id', ruleSetId)
+
+  if (error) {
+    logger.error('activateFareRuleSet failed', { error, ruleSetId })
+    return { ok: false, error: 'Failed to activate rule set.' }
+  }
+  logger.info('Fare rule set activated', { ruleSetId, adminUserId: gate.adminUserId })
+  return { ok: true }
+}
+
+export type DeleteFareRuleSetResult = { ok: true } | { ok: false; error: string }
+
+export async function deleteFareRuleSetDraft(ruleSetId: string): Promise<DeleteFareRuleSetResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const draft = await requireDraftRuleSet(gate.db, ruleSetId)
+  if (!draft.ok) return draft
+
+  const { error } = await gate.db.from('fare_rule_sets').delete().eq('id', ruleSetId)
+
+  if (error) {
+    logger.error('deleteFareRuleSetDraft failed', { error, ruleSetId })
+    return { ok: false, error: 'Failed to delete rule set.' }
+  }
+  return { ok: true }
+}
+
+export type SaveFareRuleResult = { ok: true } | { ok: false; error: string }
+
+/** Insert (no `ruleId`) or update a rule in a draft set. */
+export async function saveFareRule(
+  ruleSetId: string,
+  input: FareRuleInput,
+  ruleId?: string
+): Promise<SaveFareRuleResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const draft = await requireDraftRuleSet(gate.db, ruleSetId)
+  if (!draft.ok) return draft
+
+  const invalid = validateFareRuleInput(input)
+  if (invalid) return { ok: false, error: invalid }
+
+  const values = {
+    priority: input.priority,
+    branch: input.branch.trim(),
+    pickup_zones: input.pickup_zones,
+    dropoff_zones: input.dropoff_zones,
+    bidirectional: input.bidirectional,
+    min_distance_km: input.min_distance_km,
+    max_distance_km: input.max_distance_km,
+    flat_amount: input.flat_amount,
+    base_amount: input.base_amount,
+    base_distance_km: input.base_distance_km,
+    per_km_rate: input.per_km_rate,
+    brackets: input.brackets,
+    minimum_fare: input.minimum_fare,
+  }
+
+  const { error } = ruleId
+    ? await gate.db.from('fare_rules').update(values).eq('id', ruleId).eq('rule_set_id', ruleSetId)
+    : await gate.db.from('fare_rules').insert({ ...values, rule_set_id: ruleSetId })
+
+  if (error) {
+    if (error.code === '23505') {
+      return { ok: false, error: `Another rule in this set already has priority ${input.priority}.` }
+    }
+    logger.error('saveFareRule failed', { error, ruleSetId, ruleId })
+    return { ok: false, error: 'Failed to save rule.' }
+  }
+  return { ok: true }
+}
+
+export type DeleteFareRuleResult = { ok: true } | { ok: false; error: string }
+
+export async function deleteFareRule(ruleSetId: string, ruleId: string): Promise<DeleteFareRuleResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const draft = await requireDraftRuleSet(gate.db, ruleSetId)
+  if (!draft.ok) return draft
+
+  const { error } = await gate.db
+    .from('fare_rules')
+    .delete()
+    .eq('id', ruleId)
+    .eq('rule_set_id', ruleSetId)
+
+  if (error) {
+    logger.error('deleteFareRule failed', { error, ruleSetId, ruleId })
+    return { ok: false, error: 'Failed to delete rule.' }
+  }
+  return { ok: true }
+}
+
+export type ListFareSurchargesResult =
+  | { ok: true; rows: FareSurchargeRow[] }
+  | { ok: false; error: string }
+
+export async function listFareSurcharges(ruleSetId: string): Promise<ListFareSurchargesResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const { data, error } = await gate.db
+    .from('fare_surcharges')
+    .select('*')
+    .eq('rule_set_id', ruleSetId)
+    .order('sort_order', { ascending: true })
+
+  if (error) {
+    logger.error('listFareSurcharges failed', { error, ruleSetId })
+    return { ok: false, error: 'Failed to load surcharges.' }
+  }
+  return { ok: true, rows: data ?? [] }
+}
+
+export type SaveFareSurchargeResult = { ok: true } | { ok: false; error: string }
+
+/** Insert (no `surchargeId`) or update a surcharge in a draft set. */
+export async function saveFareSurcharge(
+  ruleSetId: string,
+  input: FareSurchargeInput,
+  surchargeId?: string
+): Promise<SaveFareSurchargeResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const draft = await requireDraftRuleSet(gate.db, ruleSetId)
+  if (!draft.ok) return draft
+
+  const invalid = validateFareSurchargeInput(input)
+  if (invalid) return { ok: false, error: invalid }
+
+  const values = {
+    kind: input.kind,
+    label: input.label.trim(),
+    iso_weekdays: [...input.iso_weekdays].sort(),
+    start_time: input.start_time,
+    end_time: input.end_time,
+    multiplier: input.multiplier,
+    flat_amount: input.flat_amount,
+    sort_order: input.sort_order,
+  }
+
+  const { error } = surchargeId
+    ? await gate.db
+        .from('fare_surcharges')
+        .update(values)
+        .eq('id', surchargeId)
+        .eq('rule_set_id', ruleSetId)
+    : await gate.db.from('fare_surcharges').insert({ ...values, rule_set_id: ruleSetId })
+
+  if (error) {
+    logger.error('saveFareSurcharge failed', { error, ruleSetId, surchargeId })
+    return { ok: false, error: 'Failed to save surcharge.' }
+  }
+  return { ok: true }
+}
+
+export type DeleteFareSurchargeResult = { ok: true } | { ok: false; error: string }
+
+export async function deleteFareSurcharge(
+  ruleSetId: string,
+  surchargeId: string
+): Promise<DeleteFareSurchargeResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const draft = await requireDraftRuleSet(gate.db, ruleSetId)
+  if (!draft.ok) return draft
+
+  const { error } = await gate.db
+    .from('fare_surcharges')
+    .delete()
+    .eq('id', surchargeId)
+    .eq('rule_set_id', ruleSetId)
+
+  if (error) {
+    logger.error('deleteFareSurcharge failed', { error, ruleSetId, surchargeId })
+    return { ok: false, error: 'Failed to delete surcharge.' }
+  }
+  return { ok: true }
+}
+
+export type ListPublicHolidaysResult =
+  | { ok: true; rows: PublicHolidayRow[] }
+  | { ok: false; error: string }
+
+export async function listPublicHolidays(): Promise<ListPublicHolidaysResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const { data, error } = await gate.db
+    .from('public_holidays')
+    .select('*')
+    .order('holiday_date', { ascending: true })
+
+  if (error) {
+    logger.error('listPublicHolidays failed', { error })
+    return { ok: false, error: 'Failed to load public holidays.' }
+  }
+  return { ok: true, rows: data ?? [] }
+}
+
+export type AddPublicHolidayResult = { ok: true } | { ok: false; error: string }
+
+export async function addPublicHoliday(input: {
+  holiday_date: string
+  name: string
+}): Promise<AddPublicHolidayResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.holiday_date)) {
+    return { ok: false, error: 'Date is required.' }
+  }
+  const name = input.name.trim()
+  if (!name) {
+    return { ok: false, error: 'Name is required.' }
+  }
+
+  const { error } = await gate.db
+    .from('public_holidays')
+    .insert({ holiday_date: input.holiday_date, name })
+
+  if (error) {
+    if (error.code === '23505') {
+      return { ok: false, error: 'That date is already a public holiday.' }
+    }
+    logger.error('addPublicHoliday failed', { error })
+    return { ok: false, error: 'Failed to add public holiday.' }
+  }
+  return { ok: true }
+}
+
+export type DeletePublicHolidayResult = { ok: true } | { ok: false; error: string }
+
+export async function deletePublicHoliday(holidayDate: string): Promise<DeletePublicHolidayResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const { error } = await gate.db.from('public_holidays').delete().eq('holiday_date', holidayDate)
+
+  if (error) {
+    logger.error('deletePublicHoliday failed', { error, holidayDate })
+    return { ok: false, error: 'Failed to delete public holiday.' }
+  }
+  return { ok: true }
+}
@@ -0,0 +1,752 @@
+'use client'
+
+import { useCallback, useEffect, useState, type FormEvent } from 'react'
+import { format } from 'date-fns'
+import { Calculator, CheckCircle2, Loader2, Pencil, Plus, Trash2 } from 'lucide-react'
+import {
+  listFareRuleSets,
+  listFareRules,
+  createFareRuleSetDraft,
+  activateFareRuleSet,
+  deleteFareRuleSetDraft,
+  saveFareRule,
+  deleteFareRule,
+  updateStopWaitingFee,
+  type FareRuleSetRow,
+  type FareRuleRow,
+} from './actions'
+import { formatBrackets, parseBrackets, type FareBracketInput } from './rule-input'
+import { PublicHolidaysSection, SurchargesSection } from './surcharges-section'
+import { listCostEstimateZones, type CostEstimateZoneRow } from '../cost-estimate-landmarks/actions'
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+const btnPrimary =
+  'inline-flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50'
+const btnSecondary =
+  'inline-flex items-center justify-center gap-2 px-3 py-1.5 border border-gray-300 text-sm rounded-lg hover:bg-gray-50'
+
+function money(n: number): string {
+  return `$${Number(n).toLocaleString()}`
+}
+
+function zonesLabel(zones: string[]): string {
+  return zones.length ? zones.join(', ') : 'any'
+}
+
+function distanceLabel(rule: FareRuleRow): string {
+  const { min_distance_km: min, max_distance_km: max } = rule
+  if (min != null && max != null) return `${min}–${max} km`
+  if (min != null) return `≥ ${min} km`
+  if (max != null) return `< ${max} km`
+  return 'any'
+}
+
+function pricingLabel(rule: FareRuleRow): string {
+  if (rule.flat_amount != null) return `Flat ${money(rule.flat_amount)}`
+  const brackets = rule.brackets as FareBracketInput[] | null
+  const distancePart = brackets?.length
+    ? `brackets ${brackets.map((b) => `${b.up_to_km ?? '∞'}km@${b.rate}`).join(' / ')}`
+    : `${money(rule.per_km_rate ?? 0)}/km`
+  const afterBase = rule.base_distance_km > 0 ? ` after ${rule.base_distance_km} km` : ''
+  const base = rule.base_amount > 0 ? `${money(rule.base_amount)} + ` : ''
+  return `${base}${distancePart}${afterBase}`
+}
+
+export default function FareRulesPage() {
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [sets, setSets] = useState<FareRuleSetRow[]>([])
+  const [activeId, setActiveId] = useState<string | null>(null)
+  const [zones, setZones] = useState<CostEstimateZoneRow[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    const [s, z] = await Promise.all([listFareRuleSets(), listCostEstimateZones()])
+    if (!s.ok) {
+      setError(s.error)
+      setLoading(false)
+      return
+    }
+    if (!z.ok) {
+      setError(z.error)
+      setLoading(false)
+      return
+    }
+    setSets(s.rows)
+    setActiveId(s.activeId)
+    setZones(z.rows)
+    setSelectedId((prev) =>
+      prev && s.rows.some((r) => r.id === prev) ? prev : s.activeId ?? s.rows[0]?.id ?? null
+    )
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  const selected = sets.find((s) => s.id === selectedId) ?? null
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <div className="flex items-center gap-3">
+        <Calculator className="h-8 w-8 text-blue-600" aria-hidden />
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Fare rules</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            Versioned pricing used by the cost-estimates Edge Function. The first matching rule (lowest
+            priority) prices a trip. Activated sets are read-only; create a draft to change prices.
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-red-50 border border-red-200 text-red-800 px-4 py-3 text-sm">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-gray-600 py-12 justify-center">
+          <Loader2 className="h-6 w-6 animate-spin" />
+          Loading…
+        </div>
+      ) : (
+        <>
+          <RuleSetsSection
+            sets={sets}
+            activeId={activeId}
+            selectedId={selectedId}
+            onSelect={setSelectedId}
+            onRefresh={load}
+          />
+          {selected && (
+            <RulesSection
+              key={selected.id}
+              ruleSet={selected}
+              isActive={selected.id === activeId}
+              zones={zones}
+            />
+          )}
+          {selected && (
+            <StopWaitingFeeForm key={`stop-fee-${selected.id}`} ruleSet={selected} onSaved={load} />
+          )}
+          {selected && <SurchargesSection key={`surcharges-${selected.id}`} ruleSet={selected} />}
+          <PublicHolidaysSection />
+        </>
+      )}
+    </div>
+  )
+}
+
+function RuleSetsSection({
+  sets,
+  activeId,
+  selectedId,
+  onSelect,
+  onRefresh,
+}: {
+  sets: FareRuleSetRow[]
+  activeId: string | null
+  selectedId: string | null
+  onSelect: (id: string) => void
+  onRefresh: () => Promise<void>
+}) {
+  const [label, setLabel] = useState('')
+  const [notes, setNotes] = useState('')
+  const [copyFrom, setCopyFrom] = useState<string>(activeId ?? '')
+  const [saving, setSaving] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
+
+  async function handleCreate(e: FormEvent) {
+    e.preventDefault()
+    setFormError(null)
+    setSaving(true)
+    const res = await createFareRuleSetDraft({
+      version_label: label,
+      notes,
+      copy_from_id: copyFrom || null,
+    })
+    setSaving(false)
+    if (!res.ok) {
+      setFormError(res.error)
+      return
+    }
+    setLabel('')
+    setNotes('')
+    await onRefresh()
+    onSelect(res.row.id)
+  }
+
+  async function handleActivate(row: FareRuleSetRow) {
+    const verb = row.activated_at ? 'Roll back to' : 'Activate'
+    if (!confirm(`${verb} rule set “${row.version_label}”? Live estimates switch within a minute.`)) return
+    const res = await activateFareRuleSet(row.id)
+    if (!res.ok) {
+      alert(res.error)
+      return
+    }
+    await onRefresh()
+  }
+
+  async function handleDelete(row: FareRuleSetRow) {
+    if (!confirm(`Delete draft “${row.version_label}” and its rules?`)) return
+    const res = await deleteFareRuleSetDraft(row.id)
+    if (!res.ok) {
+      alert(res.error)
+      return
+    }
+    await onRefresh()
+  }
+
+  return (
+    <div className="space-y-6">
+      <form
+        onSubmit={(e) => void handleCreate(e)}
+        className="rounded-xl border border-gray-200 bg-white p-4 space-y-3"
+      >
+        <h2 className="text-lg font-semibold text-gray-900">New draft</h2>
+        <div className="grid sm:grid-cols-3 gap-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Version label</label>
+            <input
+              className={inputClass}
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="v5"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Copy rules and surcharges from</label>
+            <select className={inputClass} value={copyFrom} onChange={(e) => setCopyFrom(e.target.value)}>
+              <option value="">(start empty)</option>
+              {sets.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.version_label}
+                  {s.id === activeId ? ' (active)' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Notes</label>
+            <input className={inputClass} value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+        </div>
+        {formError && <p className="text-sm text-red-600">{formError}</p>}
+        <button type="submit" className={btnPrimary} disabled={saving}>
+          {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+          Create draft
+        </button>
+      </form>
+
+      <div className="rounded-xl border border-gray-200 bg-white overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Version</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Status</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Last activated</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Notes</th>
+              <th className="px-4 py-3 text-right font-medium text-gray-700">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {sets.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-4 py-8 text-center text-gray-500">
+                  No rule sets yet. Create a draft above.
+                </td>
+              </tr>
+            ) : (
+              sets.map((row) => (
+                <tr
+                  key={row.id}
+                  className={`cursor-pointer align-top ${row.id === selectedId ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                  onClick={() => onSelect(row.id)}
+                >
+                  <td className="px-4 py-3 font-mono text-gray-900">{row.version_label}</td>
+                  <td className="px-4 py-3">
+                    {row.id === activeId ? (
+                      <span className="inline-flex items-center gap-1 rounded-full bg-green-100 text-green-800 px-2 py-0.5 text-xs font-medium">
+                        <CheckCircle2 className="h-3 w-3" /> Active
+                      </span>
+                    ) : row.activated_at ? (
+                      <span className="rounded-full bg-gray-100 text-gray-700 px-2 py-0.5 text-xs font-medium">
+                        Superseded
+                      </span>
+                    ) : (
+                      <span className="rounded-full bg-amber-100 text-amber-800 px-2 py-0.5 text-xs font-medium">
+                        Draft
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-gray-700 whitespace-nowrap">
+                    {row.activated_at ? format(new Date(row.activated_at), 'MMM d, yyyy h:mm a') : '—'}
+                  </td>
+                  <td className="px-4 py-3 text-gray-600 max-w-xs truncate" title={row.notes ?? ''}>
+                    {row.notes || '—'}
+                  </td>
+                  <td
+                    className="px-4 py-3 text-right space-x-2 whitespace-nowrap"
+                    onClick={(e) => e.stopPropagation()}
+                  >
+                    {row.id !== activeId && (
+                      <button type="button" className={btnSecondary} onClick={() => void handleActivate(row)}>
+                        {row.activated_at ? 'Roll back' : 'Activate'}
+                      </button>
+                    )}
+                    {!row.activated_at && (
+                      <button
+                        type="button"
+                        className={`${btnSecondary} text-red-700 border-red-200 hover:bg-red-50`}
+                        onClick={() => void handleDelete(row)}
+                        aria-label={`Delete ${row.version_label}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
+
+function StopWaitingFeeForm({
+  ruleSet,
+  onSaved,
+}: {
+  ruleSet: FareRuleSetRow
+  onSaved: () => Promise<void>
+}) {
+  const [fee, setFee] = useState(String(ruleSet.stop_waiting_fee))
+  const [saving, setSaving] = useState(false)
+  const [err, setErr] = useState<string | null>(null)
+  const isDraft = !ruleSet.activated_at
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault()
+    setErr(null)
+    setSaving(true)
+    const res = await updateStopWaitingFee(ruleSet.id, Number(fee || 0))
+    setSaving(false)
+    if (!res.ok) {
+      setErr(res.error)
+      return
+    }
+    await onSaved()
+  }
+
+  return (
+    <form
+      onSubmit={(e) => void handleSubmit(e)}
+      className="rounded-xl border border-gray-200 bg-white p-4 flex flex-wrap items-end gap-3"
+    >
+      <div className="flex-1 min-w-[240px]">
+        <h2 className="text-lg font-semibold text-gray-900">Multi-stop waiting fee</h2>
+        <p className="text-sm text-gray-600">
+          Each leg of a multi-stop trip is priced with the rules above; this amount is added once per
+          intermediate stop.
+        </p>
+      </div>
+      <div className="w-40">
+        <label className="block text-xs font-medium text-gray-600 mb-1">Per stop</label>
+        <input
+          className={inputClass}
+          inputMode="decimal"
+          value={fee}
+          onChange={(e) => setFee(e.target.value)}
+          disabled={!isDraft}
+        />
+      </div>
+      {isDraft && (
+        <button type="submit" className={btnPrimary} disabled={saving}>
+          {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+          Save
+        </button>
+      )}
+      {err && <p className="w-full text-sm text-red-600">{err}</p>}
+    </form>
+  )
+}
+
+function RulesSection({
+  ruleSet,
+  isActive,
+  zones,
+}: {
+  ruleSet: FareRuleSetRow
+  isActive: boolean
+  zones: CostEstimateZoneRow[]
+}) {
+  const [rules, setRules] = useState<FareRuleRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [editing, setEditing] = useState<FareRuleRow | 'new' | null>(null)
+  const isDraft = !ruleSet.activated_at
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    const res = await listFareRules(ruleSet.id)
+    if (!res.ok) {
+      setError(res.error)
+    } else {
+      setRules(res.rows)
+    }
+    setLoading(false)
+  }, [ruleSet.id])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  async function handleDelete(rule: FareRuleRow) {
+    if (!confirm(`Delete rule “${rule.branch}”?`)) return
+    const res = await deleteFareRule(ruleSet.id, rule.id)
+    if (!res.ok) {
+      alert(res.error)
+      return
+    }
+    await load()
+  }
+
+  const nextPriority = rules.length ? Math.max(...rules.map((r) => r.priority)) + 10 : 10
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <h2 className="text-lg font-semibold text-gray-900">
+          Rules — <span className="font-mono">{ruleSet.version_label}</span>
+          {isActive && <span className="ml-2 text-sm font-normal text-green-700">(live)</span>}
+        </h2>
+        {isDraft && (
+          <button type="button" className={btnPrimary} onClick={() => setEditing('new')}>
+            <Plus className="h-4 w-4" />
+            Add rule
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-red-50 border border-red-200 text-red-800 px-4 py-3 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="rounded-xl border border-gray-200 bg-white overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-right font-medium text-gray-700">Priority</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Branch</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Zones</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Distance</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Pricing</th>
+              <th className="px-4 py-3 text-right font-medium text-gray-700">Minimum</th>
+              {isDraft && <th className="px-4 py-3 text-right font-medium text-gray-700">Actions</th>}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {loading ? (
+              <tr>
+                <td colSpan={7} className="px-4 py-8 text-center text-gray-500">
+                  <Loader2 className="h-5 w-5 animate-spin inline" />
+                </td>
+              </tr>
+            ) : rules.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-4 py-8 text-center text-gray-500">
+                  No rules in this set.
+                </td>
+              </tr>
+            ) : (
+              rules.map((rule) => (
+                <tr key={rule.id} className="hover:bg-gray-50 align-top">
+                  <td className="px-4 py-3 text-right tabular-nums">{rule.priority}</td>
+                  <td className="px-4 py-3 font-medium text-gray-900">{rule.branch}</td>
+                  <td className="px-4 py-3 font-mono text-xs text-gray-700">
+                    {zonesLabel(rule.pickup_zones)} {rule.bidirectional ? '↔' : '→'}{' '}
+                    {zonesLabel(rule.dropoff_zones)}
+                  </td>
+                  <td className="px-4 py-3 text-gray-700 whitespace-nowrap">{distanceLabel(rule)}</td>
+                  <td className="px-4 py-3 text-gray-700">{pricingLabel(rule)}</td>
+                  <td className="px-4 py-3 text-right tabular-nums">
+                    {rule.minimum_fare > 0 ? money(rule.minimum_fare) : '—'}
+                  </td>
+                  {isDraft && (
+                    <td className="px-4 py-3 text-right space-x-2 whitespace-nowrap">
+                      <button
+                        type="button"
+                        className={btnSecondary}
+                        onClick={() => setEditing(rule)}
+                        aria-label={`Edit ${rule.branch}`}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </button>
+                      <button
+                        type="button"
+                        className={`${btnSecondary} text-red-700 border-red-200 hover:bg-red-50`}
+                        onClick={() => void handleDelete(rule)}
+                        aria-label={`Delete ${rule.branch}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {editing && (
+        <FareRuleModal
+          ruleSetId={ruleSet.id}
+          rule={editing === 'new' ? null : editing}
+          defaultPriority={nextPriority}
+          zones={zones}
+          onClose={() => setEditing(null)}
+          onSaved={async () => {
+            setEditing(null)
+            await load()
+          }}
+        />
+      )}
+    </div>
+  )
+}
+
+function optionalNumber(raw: string): number | null {
+  return raw.trim() === '' ? null : Number(raw)
+}
+
+function ZonePicker({
+  label,
+  zones,
+  value,
+  onChange,
+}: {
+  label: string
+  zones: CostEstimateZoneRow[]
+  value: string[]
+  onChange: (v: string[]) => void
+}) {
+  return (
+    <fieldset>
+      <legend className="block text-xs font-medium text-gray-600 mb-1">
+        {label} <span className="font-normal text-gray-500">(none ticked = any)</span>
+      </legend>
+      <div className="grid grid-cols-2 gap-1">
+        {zones.map((z) => (
+          <label key={z.code} className="flex items-center gap-2 text-xs font-mono">
+            <input
+              type="checkbox"
+              checked={value.includes(z.code)}
+              onChange={(e) =>
+                onChange(e.target.checked ? [...value, z.code] : value.filter((c) => c !== z.code))
+              }
+            />
+            {z.code}
+          </label>
+        ))}
+      </div>
+    </fieldset>
+  )
+}
+
+function FareRuleModal({
+  ruleSetId,
+  rule,
+  defaultPriority,
+  zones,
+  onClose,
+  onSaved,
+}: {
+  ruleSetId: string
+  rule: FareRuleRow | null
+  defaultPriority: number
+  zones: CostEstimateZoneRow[]
+  onClose: () => void
+  onSaved: () => Promise<void>
+}) {
+  const str = (n: number | null | undefined) => (n == null ? '' : String(n))
+  const [priority, setPriority] = useState(str(rule?.priority ?? defaultPriority))
+  const [branch, setBranch] = useState(rule?.branch ?? '')
+  const [pickupZones, setPickupZones] = useState<string[]>(rule?.pickup_zones ?? [])
+  const [dropoffZones, setDropoffZones] = useState<string[]>(rule?.dropoff_zones ?? [])
+  const [bidirectional, setBidirectional] = useState(rule?.bidirectional ?? true)
+  const [minKm, setMinKm] = useState(str(rule?.min_distance_km))
+  const [maxKm, setMaxKm] = useState(str(rule?.max_distance_km))
+  const [flatAmount, setFlatAmount] = useState(str(rule?.flat_amount))
+  const [baseAmount, setBaseAmount] = useState(str(rule?.base_amount ?? 0))
+  const [baseKm, setBaseKm] = useState(str(rule?.base_distance_km ?? 0))
+  const [perKm, setPerKm] = useState(str(rule?.per_km_rate))
+  const [brackets, setBrackets] = useState(
+    formatBrackets((rule?.brackets as FareBracketInput[] | null) ?? null)
+  )
+  const [minimumFare, setMinimumFare] = useState(str(rule?.minimum_fare ?? 0))
+  const [saving, setSaving] = useState(false)
+  const [err, setErr] = useState<string | null>(null)
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault()
+    setErr(null)
+    const parsed = parseBrackets(brackets)
+    if (!parsed.ok) {
+      setErr(parsed.error)
+      return
+    }
+    setSaving(true)
+    const res = await saveFareRule(
+      ruleSetId,
+      {
+        priority: Number(priority),
+        branch,
+        pickup_zones: pickupZones,
+        dropoff_zones: dropoffZones,
+        bidirectional,
+        min_distance_km: optionalNumber(minKm),
+        max_distance_km: optionalNumber(maxKm),
+        flat_amount: optionalNumber(flatAmount),
+        base_amount: Number(baseAmount || 0),
+        base_distance_km: Number(baseKm || 0),
+        per_km_rate: optionalNumber(perKm),
+        brackets: parsed.brackets,
+        minimum_fare: Number(minimumFare || 0),
+      },
+      rule?.id
+    )
+    setSaving(false)
+    if (!res.ok) {
+      setErr(res.error)
+      return
+    }
+    await onSaved()
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 overflow-y-auto">
+      <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full p-6 space-y-4 my-8">
+        <h3 className="text-lg font-semibold">{rule ? `Edit rule “${rule.branch}”` : 'Add rule'}</h3>
+        <form onSubmit={(e) => void handleSubmit(e)} className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Priority</label>
+              <input
+                type="number"
+                className={inputClass}
+                value={priority}
+                onChange={(e) => setPriority(e.target.value)}
+                required
+              />
+            </div>
+            <div className="col-span-2">
+              <label className="block text-xs font-medium text-gray-600 mb-1">
+                Branch (shown to riders)
+              </label>
+              <input
+                className={inputClass}
+                value={branch}
+                onChange={(e) => setBranch(e.target.value)}
+                placeholder="Cross-river"
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <ZonePicker label="Pickup zones" zones={zones} value={pickupZones} onChange={setPickupZones} />
+            <ZonePicker label="Dropoff zones" zones={zones} value={dropoffZones} onChange={setDropoffZones} />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={bidirectional}
+              onChange={(e) => setBidirectional(e.target.checked)}
+            />
+            Also match the reverse direction
+          </label>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Min distance km (≥)</label>
+              <input className={inputClass} inputMode="decimal" value={minKm} onChange={(e) => setMinKm(e.target.value)} />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Max distance km (&lt;)</label>
+              <input className={inputClass} inputMode="decimal" value={maxKm} onChange={(e) => setMaxKm(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Flat amount</label>
+              <input
+                className={inputClass}
+                inputMode="decimal"
+                value={flatAmount}
+                onChange={(e) => setFlatAmount(e.target.value)}
+                placeholder="overrides the rest"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Base amount</label>
+              <input className={inputClass} inputMode="decimal" value={baseAmount} onChange={(e) => setBaseAmount(e.target.value)} />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Km included in base</label>
+              <input className={inputClass} inputMode="decimal" value={baseKm} onChange={(e) => setBaseKm(e.target.value)} />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Per-km rate</label>
+              <input className={inputClass} inputMode="decimal" value={perKm} onChange={(e) => setPerKm(e.target.value)} />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Minimum fare</label>
+              <input
+                className={inputClass}
+                inputMode="decimal"
+                value={minimumFare}
+                onChange={(e) => setMinimumFare(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">
+              Distance brackets (replace per-km rate; one per line, <code>km = rate</code>, <code>*</code> for the rest)
+            </label>
+            <textarea
+              className={`${inputClass} min-h-[96px] font-mono text-xs`}
+              value={brackets}
+              onChange={(e) => setBrackets(e.target.value)}
+              placeholder={'4 = 350\n9 = 300\n* = 380'}
+            />
+          </div>
+
+          {err && <p className="text-sm text-red-600">{err}</p>}
+          <div className="flex gap-2 justify-end pt-2">
+            <button type="button" className={btnSecondary} onClick={onClose}>
+              Cancel
+            </button>
+            <button type="submit" className={btnPrimary} disabled={saving}>
+              {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+              Save
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,142 @@
+import type { FareSurchargeKind } from '@/types/database'
+
+/** `fare_rules.brackets` element; `up_to_km: null` is the open-ended last bracket. */
+export type FareBracketInput = { up_to_km: number | null; rate: number }
+
+export type FareRuleInput = {
+  priority: number
+  branch: string
+  pickup_zones: string[]
+  dropoff_zones: string[]
+  bidirectional: boolean
+  min_distance_km: number | null
+  max_distance_km: number | null
+  flat_amount: number | null
+  base_amount: number
+  base_distance_km: number
+  per_km_rate: number | null
+  brackets: FareBracketInput[] | null
+  minimum_fare: number
+}
+
+export type FareSurchargeInput = {
+  kind: FareSurchargeKind
+  label: string
+  iso_weekdays: number[]
+  /** `HH:MM`, Guyana local time; both null = all day. */
+  start_time: string | null
+  end_time: string | null
+  multiplier: number | null
+  flat_amount: number | null
+  sort_order: number
+}
+
+export const SURCHARGE_KINDS: { value: FareSurchargeKind; label: string }[] = [
+  { value: 'night', label: 'Night' },
+  { value: 'peak', label: 'Peak hour' },
+  { value: 'holiday', label: 'Public holiday' },
+]
+
+export const ISO_WEEKDAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 7, label: 'Sun' },
+]
+
+/** One bracket per line: `4 = 350` (up to 4 km at $350/km); `* = 380` for the open-ended last bracket. */
+export function formatBrackets(brackets: FareBracketInput[] | null): string {
+  if (!brackets?.length) return ''
+  return brackets.map((b) => `${b.up_to_km ?? '*'} = ${b.rate}`).join('\n')
+}
+
+export function parseBrackets(
+  text: string
+): { ok: true; brackets: FareBracketInput[] | null } | { ok: false; error: string } {
+  const lines = text
+    .split('\n')
+    .map((l) => l.trim())
+    .filter(Boolean)
+  if (lines.length === 0) return { ok: true, brackets: null }
+
+  const brackets: FareBracketInput[] = []
+  for (const line of lines) {
+    const match = line.match(/^(\*|\d+(?:\.\d+)?)\s*=\s*(\d+(?:\.\d+)?)$/)
+    if (!match) {
+      return { ok: false, error: `Invalid bracket line "${line}". Use "km = rate", e.g. "4 = 350" or "* = 380".` }
+    }
+    brackets.push({
+      up_to_km: match[1] === '*' ? null : Number(match[1]),
+      rate: Number(match[2]),
+    })
+  }
+  return { ok: true, brackets }
+}
+
+/** Server-side checks mirroring the `fare_rules` constraints; returns an error message or null. */
+export function validateFareRuleInput(input: FareRuleInput): string | null {
+  if (!input.branch.trim()) return 'Branch name is required.'
+  if (!Number.isInteger(input.priority)) return 'Priority must be a whole number.'
+
+  const optional = [input.min_distance_km, input.max_distance_km, input.flat_amount, input.per_km_rate]
+  const required = [input.base_amount, input.base_distance_km, input.minimum_fare]
+  if ([...optional.filter((n): n is number => n != null), ...required].some((n) => !Number.isFinite(n) || n < 0)) {
+    return 'Amounts, rates and distances must be non-negative numbers.'
+  }
+  if (
+    input.min_distance_km != null &&
+    input.max_distance_km != null &&
+    input.min_distance_km >= input.max_distance_km
+  ) {
+    return 'Minimum distance must be below maximum distance.'
+  }
+  if (input.flat_amount == null && input.per_km_rate == null && !input.brackets?.length) {
+    return 'Set a flat amount, a per-km rate, or distance brackets.'
+  }
+
+  if (input.brackets?.length) {
+    let prev = 0
+    for (const [i, b] of input.brackets.entries()) {
+      if (!Number.isFinite(b.rate) || b.rate < 0) return 'Bracket rates must be non-negative numbers.'
+      const isLast = i === input.brackets.length - 1
+      if (b.up_to_km == null) {
+        if (!isLast) return 'Only the last bracket can be open-ended (*).'
+        continue
+      }
+      if (!Number.isFinite(b.up_to_km) || b.up_to_km <= prev) {
+        return 'Bracket distances must be increasing.'
+      }
+      prev = b.up_to_km
+    }
+  }
+  return null
+}
+
+const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d$/
+
+/** Server-side checks mirroring the `fare_surcharges` constraints; returns an error message or null. */
+export function validateFareSurchargeInput(input: FareSurchargeInput): string | null {
+  if (!SURCHARGE_KINDS.some((k) => k.value === input.kind)) return 'Unknown surcharge type.'
+  if (!input.label.trim()) return 'Label is required.'
+  if (!Number.isInteger(input.sort_order)) return 'Sort order must be a whole number.'
+  if (input.iso_weekdays.some((d) => !Number.isInteger(d) || d < 1 || d > 7)) return 'Invalid weekday.'
+  if ((input.start_time == null) !== (input.end_time == null)) {
+    return 'Set both start and end time, or neither for all day.'
+  }
+  if (input.start_time != null && (!TIME_RE.test(input.start_time) || !TIME_RE.test(input.end_time!))) {
+    return 'Times must be HH:MM (24-hour).'
+  }
+  if ((input.multiplier == null) === (input.flat_amount == null)) {
+    return 'Set either a multiplier or a flat amount.'
+  }
+  if (input.multiplier != null && (!Number.isFinite(input.multiplier) || input.multiplier <= 0)) {
+    return 'Multiplier must be a positive number (e.g. 1.25 for +25%).'
+  }
+  if (input.flat_amount != null && !Number.isFinite(input.flat_amount)) {
+    return 'Flat amount must be a number.'
+  }
+  return null
+}
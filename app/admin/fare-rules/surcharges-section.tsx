@@ -0,0 +1,516 @@
+'use client'
+
+import { useCallback, useEffect, useState, type FormEvent } from 'react'
+import { format, parseISO } from 'date-fns'
+import { Loader2, Pencil, Plus, Trash2 } from 'lucide-react'
+import {
+  listFareSurcharges,
+  saveFareSurcharge,
+  deleteFareSurcharge,
+  listPublicHolidays,
+  addPublicHoliday,
+  deletePublicHoliday,
+  type FareRuleSetRow,
+  type FareSurchargeRow,
+  type PublicHolidayRow,
+} from './actions'
+import { ISO_WEEKDAYS, SURCHARGE_KINDS } from './rule-input'
+import type { FareSurchargeKind } from '@/types/database'
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+const btnPrimary =
+  'inline-flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50'
+const btnSecondary =
+  'inline-flex items-center justify-center gap-2 px-3 py-1.5 border border-gray-300 text-sm rounded-lg hover:bg-gray-50'
+
+/** Postgres `time` comes back as `22:00:00`; the form and labels use `HH:MM`. */
+function hhmm(time: string | null): string {
+  return time ? time.slice(0, 5) : ''
+}
+
+function kindLabel(kind: string): string {
+  return SURCHARGE_KINDS.find((k) => k.value === kind)?.label ?? kind
+}
+
+function whenLabel(row: FareSurchargeRow): string {
+  const days = row.iso_weekdays.length
+    ? row.iso_weekdays.map((d) => ISO_WEEKDAYS.find((w) => w.value === d)?.label ?? d).join(', ')
+    : 'Every day'
+  const window = row.start_time ? `${hhmm(row.start_time)}–${hhmm(row.end_time)}` : 'all day'
+  return `${days}, ${window}`
+}
+
+function amountLabel(row: FareSurchargeRow): string {
+  if (row.multiplier != null) {
+    const pct = Math.round((row.multiplier - 1) * 100)
+    return `${pct >= 0 ? '+' : ''}${pct}%`
+  }
+  const flat = row.flat_amount ?? 0
+  return `${flat >= 0 ? '+' : '−'}$${Math.abs(flat).toLocaleString()}`
+}
+
+export function SurchargesSection({ ruleSet }: { ruleSet: FareRuleSetRow }) {
+  const [rows, setRows] = useState<FareSurchargeRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [editing, setEditing] = useState<FareSurchargeRow | 'new' | null>(null)
+  const isDraft = !ruleSet.activated_at
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    const res = await listFareSurcharges(ruleSet.id)
+    if (!res.ok) {
+      setError(res.error)
+    } else {
+      setRows(res.rows)
+    }
+    setLoading(false)
+  }, [ruleSet.id])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  async function handleDelete(row: FareSurchargeRow) {
+    if (!confirm(`Delete surcharge “${row.label}”?`)) return
+    const res = await deleteFareSurcharge(ruleSet.id, row.id)
+    if (!res.ok) {
+      alert(res.error)
+      return
+    }
+    await load()
+  }
+
+  const nextSortOrder = rows.length ? Math.max(...rows.map((r) => r.sort_order)) + 10 : 10
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Surcharges</h2>
+          <p className="text-sm text-gray-600">
+            Added on top of the rule price by pickup time (Guyana time). Each matching surcharge is a
+            separate line in the quote; percentages apply to the base fare and do not compound.
+          </p>
+        </div>
+        {isDraft && (
+          <button type="button" className={btnPrimary} onClick={() => setEditing('new')}>
+            <Plus className="h-4 w-4" />
+            Add surcharge
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-red-50 border border-red-200 text-red-800 px-4 py-3 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="rounded-xl border border-gray-200 bg-white overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Type</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Label (shown to riders)</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">When</th>
+              <th className="px-4 py-3 text-right font-medium text-gray-700">Amount</th>
+              {isDraft && <th className="px-4 py-3 text-right font-medium text-gray-700">Actions</th>}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {loading ? (
+              <tr>
+                <td colSpan={5} className="px-4 py-8 text-center text-gray-500">
+                  <Loader2 className="h-5 w-5 animate-spin inline" />
+                </td>
+              </tr>
+            ) : rows.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-4 py-8 text-center text-gray-500">
+                  No surcharges in this set.
+                </td>
+              </tr>
+            ) : (
+              rows.map((row) => (
+                <tr key={row.id} className="hover:bg-gray-50 align-top">
+                  <td className="px-4 py-3 text-gray-700">{kindLabel(row.kind)}</td>
+                  <td className="px-4 py-3 font-medium text-gray-900">{row.label}</td>
+                  <td className="px-4 py-3 text-gray-700">{whenLabel(row)}</td>
+                  <td className="px-4 py-3 text-right tabular-nums">{amountLabel(row)}</td>
+                  {isDraft && (
+                    <td className="px-4 py-3 text-right space-x-2 whitespace-nowrap">
+                      <button
+                        type="button"
+                        className={btnSecondary}
+                        onClick={() => setEditing(row)}
+                        aria-label={`Edit ${row.label}`}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </button>
+                      <button
+                        type="button"
+                        className={`${btnSecondary} text-red-700 border-red-200 hover:bg-red-50`}
+                        onClick={() => void handleDelete(row)}
+                        aria-label={`Delete ${row.label}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {editing && (
+        <FareSurchargeModal
+          ruleSetId={ruleSet.id}
+          surcharge={editing === 'new' ? null : editing}
+          defaultSortOrder={nextSortOrder}
+          onClose={() => setEditing(null)}
+          onSaved={async () => {
+            setEditing(null)
+            await load()
+          }}
+        />
+      )}
+    </div>
+  )
+}
+
+function FareSurchargeModal({
+  ruleSetId,
+  surcharge,
+  defaultSortOrder,
+  onClose,
+  onSaved,
+}: {
+  ruleSetId: string
+  surcharge: FareSurchargeRow | null
+  defaultSortOrder: number
+  onClose: () => void
+  onSaved: () => Promise<void>
+}) {
+  const [kind, setKind] = useState<FareSurchargeKind>((surcharge?.kind as FareSurchargeKind) ?? 'night')
+  const [label, setLabel] = useState(surcharge?.label ?? '')
+  const [weekdays, setWeekdays] = useState<number[]>(surcharge?.iso_weekdays ?? [])
+  const [startTime, setStartTime] = useState(hhmm(surcharge?.start_time ?? null))
+  const [endTime, setEndTime] = useState(hhmm(surcharge?.end_time ?? null))
+  const [mode, setMode] = useState<'percent' | 'flat'>(surcharge?.flat_amount != null ? 'flat' : 'percent')
+  const [percent, setPercent] = useState(
+    surcharge?.multiplier != null ? String(Math.round((surcharge.multiplier - 1) * 1000) / 10) : ''
+  )
+  const [flatAmount, setFlatAmount] = useState(
+    surcharge?.flat_amount != null ? String(surcharge.flat_amount) : ''
+  )
+  const [sortOrder, setSortOrder] = useState(String(surcharge?.sort_order ?? defaultSortOrder))
+  const [saving, setSaving] = useState(false)
+  const [err, setErr] = useState<string | null>(null)
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault()
+    setErr(null)
+    setSaving(true)
+    const res = await saveFareSurcharge(
+      ruleSetId,
+      {
+        kind,
+        label,
+        iso_weekdays: weekdays,
+        start_time: startTime || null,
+        end_time: endTime || null,
+        multiplier: mode === 'percent' ? 1 + Number(percent) / 100 : null,
+        flat_amount: mode === 'flat' ? Number(flatAmount) : null,
+        sort_order: Number(sortOrder),
+      },
+      surcharge?.id
+    )
+    setSaving(false)
+    if (!res.ok) {
+      setErr(res.error)
+      return
+    }
+    await onSaved()
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 overflow-y-auto">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full p-6 space-y-4 my-8">
+        <h3 className="text-lg font-semibold">
+          {surcharge ? `Edit surcharge “${surcharge.label}”` : 'Add surcharge'}
+        </h3>
+        <form onSubmit={(e) => void handleSubmit(e)} className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Type</label>
+              <select
+                className={inputClass}
+                value={kind}
+                onChange={(e) => setKind(e.target.value as FareSurchargeKind)}
+              >
+                {SURCHARGE_KINDS.map((k) => (
+                  <option key={k.value} value={k.value}>
+                    {k.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="col-span-2">
+              <label className="block text-xs font-medium text-gray-600 mb-1">Label (shown to riders)</label>
+              <input
+                className={inputClass}
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="Night surcharge"
+                required
+              />
+            </div>
+          </div>
+          {kind === 'holiday' && (
+            <p className="text-xs text-gray-500">
+              Holiday surcharges only apply on dates listed under Public holidays below.
+            </p>
+          )}
+
+          <fieldset>
+            <legend className="block text-xs font-medium text-gray-600 mb-1">
+              Days <span className="font-normal text-gray-500">(none ticked = every day)</span>
+            </legend>
+            <div className="flex flex-wrap gap-3">
+              {ISO_WEEKDAYS.map((d) => (
+                <label key={d.value} className="flex items-center gap-1 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={weekdays.includes(d.value)}
+                    onChange={(e) =>
+                      setWeekdays(
+                        e.target.checked ? [...weekdays, d.value] : weekdays.filter((w) => w !== d.value)
+                      )
+                    }
+                  />
+                  {d.label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">From</label>
+              <input type="time" className={inputClass} value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Until (exclusive)</label>
+              <input type="time" className={inputClass} value={endTime} onChange={(e) => setEndTime(e.target.value)} />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            Leave both empty for all day. A window like 22:00–05:00 runs past midnight.
+          </p>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Amount as</label>
+              <select
+                className={inputClass}
+                value={mode}
+                onChange={(e) => setMode(e.target.value as 'percent' | 'flat')}
+              >
+                <option value="percent">% of fare</option>
+                <option value="flat">Flat $</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">
+                {mode === 'percent' ? 'Percent' : 'Amount'}
+              </label>
+              {mode === 'percent' ? (
+                <input
+                  className={inputClass}
+                  inputMode="decimal"
+                  value={percent}
+                  onChange={(e) => setPercent(e.target.value)}
+                  placeholder="25"
+                  required
+                />
+              ) : (
+                <input
+                  className={inputClass}
+                  inputMode="decimal"
+                  value={flatAmount}
+                  onChange={(e) => setFlatAmount(e.target.value)}
+                  placeholder="500"
+                  required
+                />
+              )}
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Sort order</label>
+              <input
+                type="number"
+                className={inputClass}
+                value={sortOrder}
+                onChange={(e) => setSortOrder(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          {err && <p className="text-sm text-red-600">{err}</p>}
+          <div className="flex gap-2 justify-end pt-2">
+            <button type="button" className={btnSecondary} onClick={onClose}>
+              Cancel
+            </button>
+            <button type="submit" className={btnPrimary} disabled={saving}>
+              {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+              Save
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+/** Calendar shared by every rule set; holiday surcharges only fire on these dates. */
+export function PublicHolidaysSection() {
+  const [rows, setRows] = useState<PublicHolidayRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [date, setDate] = useState('')
+  const [name, setName] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    const res = await listPublicHolidays()
+    if (!res.ok) {
+      setError(res.error)
+    } else {
+      setRows(res.rows)
+    }
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  async function handleAdd(e: FormEvent) {
+    e.preventDefault()
+    setError(null)
+    setSaving(true)
+    const res = await addPublicHoliday({ holiday_date: date, name })
+    setSaving(false)
+    if (!res.ok) {
+      setError(res.error)
+      return
+    }
+    setDate('')
+    setName('')
+    await load()
+  }
+
+  async function handleDelete(row: PublicHolidayRow) {
+    if (!confirm(`Remove ${row.name} (${row.holiday_date})?`)) return
+    const res = await deletePublicHoliday(row.holiday_date)
+    if (!res.ok) {
+      alert(res.error)
+      return
+    }
+    await load()
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Public holidays</h2>
+        <p className="text-sm text-gray-600">
+          Shared by all rule sets. Changes reach live estimates within a minute.
+        </p>
+      </div>
+
+      <form
+        onSubmit={(e) => void handleAdd(e)}
+        className="rounded-xl border border-gray-200 bg-white p-4 flex flex-wrap items-end gap-3"
+      >
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Date</label>
+          <input type="date" className={inputClass} value={date} onChange={(e) => setDate(e.target.value)} required />
+        </div>
+        <div className="flex-1 min-w-[200px]">
+          <label className="block text-xs font-medium text-gray-600 mb-1">Name</label>
+          <input
+            className={inputClass}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Emancipation Day"
+            required
+          />
+        </div>
+        <button type="submit" className={btnPrimary} disabled={saving}>
+          {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+          Add holiday
+        </button>
+      </form>
+
+      {error && (
+        <div className="rounded-lg bg-red-50 border border-red-200 text-red-800 px-4 py-3 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="rounded-xl border border-gray-200 bg-white overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Date</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Name</th>
+              <th className="px-4 py-3 text-right font-medium text-gray-700">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {loading ? (
+              <tr>
+                <td colSpan={3} className="px-4 py-8 text-center text-gray-500">
+                  <Loader2 className="h-5 w-5 animate-spin inline" />
+                </td>
+              </tr>
+            ) : rows.length === 0 ? (
+              <tr>
+                <td colSpan={3} className="px-4 py-8 text-center text-gray-500">
+                  No public holidays yet.
+                </td>
+              </tr>
+            ) : (
+              rows.map((row) => (
+                <tr key={row.holiday_date} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 text-gray-900 whitespace-nowrap">
+                    {format(parseISO(row.holiday_date), 'EEE, MMM d, yyyy')}
+                  </td>
+                  <td className="px-4 py-3 text-gray-700">{row.name}</td>
+                  <td className="px-4 py-3 text-right">
+                    <button
+                      type="button"
+                      className={`${btnSecondary} text-red-700 border-red-200 hover:bg-red-50`}
+                      onClick={() => void handleDelete(row)}
+                      aria-label={`Remove ${row.name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,189 @@
+'use server'
+
+import { createServerActionClient } from '@supabase/auth-helpers-nextjs'
+import { createClient } from '@supabase/supabase-js'
+import { cookies } from 'next/headers'
+import { logger } from '@/lib/logger'
+import type { Database, SubscriptionAudience } from '@/types/database'
+import { postLedgerAdjustment, type LedgerEntry } from '@/lib/ledger'
+import { guyanaMonthBounds } from '@/lib/guyana-time'
+import {
+  MONTH_RE,
+  buildMonthCloseReport,
+  buildMonthClosePdf,
+  monthCloseToCsv,
+  type MonthCloseReport,
+} from '@/lib/month-close'
+import { receiptIssuer } from '@/lib/payment-receipts'
+
+function createServiceClient() {
+  return createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+}
+
+async function requireAdmin(): Promise<
+  | { ok: true; db: ReturnType<typeof createServiceClient>; adminUserId: string }
+  | { ok: false; error: string }
+> {
+  const authClient = createServerActionClient({ cookies })
+  const {
+    data: { user: authUser },
+    error: authError,
+  } = await authClient.auth.getUser()
+
+  if (authError || !authUser) {
+    return { ok: false, error: 'Not authenticated' }
+  }
+
+  const db = createServiceClient()
+  const { data: userRow, error: userError } = await db
+    .from('users')
+    .select('id, role')
+    .eq('auth_id', authUser.id)
+    .single()
+
+  if (userError || !userRow || userRow.role !== 'admin') {
+    return { ok: false, error: 'Only administrators can view finance reports.' }
+  }
+
+  return { ok: true, db, adminUserId: userRow.id }
+}
+
+export type MonthCloseResult = { ok: true; report: MonthCloseReport } | { ok: false; error: string }
+
+export async function getMonthCloseReport(month: string): Promise<MonthCloseResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+  if (!MONTH_RE.test(month)) return { ok: false, error: 'Choose a month.' }
+
+  try {
+    return { ok: true, report: await buildMonthCloseReport(gate.db, month) }
+  } catch (error) {
+    logger.error('getMonthCloseReport failed', { error, month })
+    return { ok: false, error: 'Failed to build the month-close report.' }
+  }
+}
+
+export type MonthCloseExportResult =
+  | { ok: true; filename: string; mimeType: string; content: string; encoding: 'utf8' | 'base64' }
+  | { ok: false; error: string }
+
+/** CSV as text, PDF as base64; the page turns either into a download. */
+export async function exportMonthClose(month: string, format: 'csv' | 'pdf'): Promise<MonthCloseExportResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+  if (!MONTH_RE.test(month)) return { ok: false, error: 'Choose a month.' }
+
+  try {
+    const report = await buildMonthCloseReport(gate.db, month)
+    if (format === 'csv') {
+      return {
+        ok: true,
+        filename: `month-close-${month}.csv`,
+        mimeType: 'text/csv',
+        content: monthCloseToCsv(report),
+        encoding: 'utf8',
+      }
+    }
+    const pdf = await buildMonthClosePdf(report, receiptIssuer().name)
+    return {
+      ok: true,
+      filename: `month-close-${month}.pdf`,
+      mimeType: 'application/pdf',
+      content: Buffer.from(pdf).toString('base64'),
+      encoding: 'base64',
+    }
+  } catch (error) {
+    logger.error('exportMonthClose failed', { error, month, format })
+    return { ok: false, error: 'Failed to export the month-close report.' }
+  }
+}
+
+export type LedgerEntryRow = LedgerEntry & { created_by_name: string | null }
+
+export type ListLedgerEntriesResult = { ok: true; rows: LedgerEntryRow[]; truncated: boolean } | { ok: false; error: string }
+
+const LEDGER_PAGE = 500
+
+/** The month's ledger lines, newest first (at most 500). */
+export async function listLedgerEntries(month: string): Promise<ListLedgerEntriesResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+  if (!MONTH_RE.test(month)) return { ok: false, error: 'Choose a month.' }
+
+  const { start, end } = guyanaMonthBounds(month)
+  const { data, error } = await gate.db
+    .from('ledger_entries')
+    .select('*')
+    .gte('occurred_at', start.toISOString())
+    .lt('occurred_at', end.toISOString())
+    .order('occurred_at', { ascending: false })
+    .order('journal_id', { ascending: true })
+    .order('debit', { ascending: false })
+    .limit(LEDGER_PAGE + 1)
+
+  if (error) {
+    logger.error('listLedgerEntries failed', { error, month })
+    return { ok: false, error: 'Failed to load ledger entries.' }
+  }
+
+  const rows = (data ?? []).slice(0, LEDGER_PAGE)
+  const adminIds = Array.from(new Set(rows.map((r) => r.created_by).filter((id): id is string => !!id)))
+  const { data: admins } = adminIds.length
+    ? await gate.db.from('users').select('id, full_name').in('id', adminIds)
+    : { data: [] as { id: string; full_name: string }[] }
+  const nameById = new Map((admins ?? []).map((a) => [a.id, a.full_name]))
+
+  return {
+    ok: true,
+    rows: rows.map((r) => ({ ...r, created_by_name: r.created_by ? nameById.get(r.created_by) ?? null : null })),
+    truncated: (data ?? []).length > LEDGER_PAGE,
+  }
+}
+
+export type PostAdjustmentResult = { ok: true } | { ok: false; error: string }
+
+/**
+ * Manual revenue correction, e.g. a subscription paid in cash or a refund made outside the portal.
+ * Positive amounts add revenue, negative amounts remove it.
+ */
+export async function postAdjustment(input: {
+  amount: number
+  memo: string
+  occurredAt: string
+  role: SubscriptionAudience | null
+  planCode: string | null
+}): Promise<PostAdjustmentResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const amount = Math.round(Number(input.amount) * 100) / 100
+  if (!Number.isFinite(amount) || amount === 0) return { ok: false, error: 'Enter a non-zero amount.' }
+  const memo = input.memo.trim()
+  if (memo.length < 5) return { ok: false, error: 'Explain the adjustment (at least 5 characters).' }
+  const occurredAt = new Date(input.occurredAt)
+  if (Number.isNaN(occurredAt.getTime())) return { ok: false, error: 'Choose the date the adjustment applies to.' }
+  if (occurredAt.getTime() > Date.now()) return { ok: false, error: 'Adjustments cannot be dated in the future.' }
+  if (input.role !== null && input.role !== 'driver' && input.role !== 'rider') {
+    return { ok: false, error: 'Role must be driver, rider or none.' }
+  }
+
+  try {
+    await postLedgerAdjustment(gate.db, {
+      amount,
+      currency: 'GYD',
+      memo,
+      occurredAt: occurredAt.toISOString(),
+      userRole: input.role,
+      planCode: input.planCode?.trim() || null,
+      createdBy: gate.adminUserId,
+    })
+    return { ok: true }
+  } catch (error) {
+    logger.error('postAdjustment failed', { error })
+    return { ok: false, error: 'Failed to post the adjustment.' }
+  }
+}
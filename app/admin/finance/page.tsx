@@ -0,0 +1,442 @@
+'use client'
+
+import { useCallback, useEffect, useState, type FormEvent } from 'react'
+import { Download, Landmark, Loader2, Plus, X } from 'lucide-react'
+import { formatGuyana } from '@/lib/guyana-time'
+import { LEDGER_ACCOUNT_LABEL } from '@/lib/ledger'
+import type { MonthCloseFigures, MonthCloseReport } from '@/lib/month-close'
+import type { LedgerSource, SubscriptionAudience } from '@/types/database'
+import {
+  exportMonthClose,
+  getMonthCloseReport,
+  listLedgerEntries,
+  postAdjustment,
+  type LedgerEntryRow,
+} from './actions'
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+const btnPrimary =
+  'inline-flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50'
+const btnSecondary =
+  'inline-flex items-center justify-center gap-2 px-3 py-1.5 border border-gray-300 text-sm rounded-lg hover:bg-gray-50 disabled:opacity-50'
+
+const SOURCE_LABEL: Record<LedgerSource, string> = {
+  payment: 'Payment',
+  refund: 'Refund',
+  adjustment: 'Adjustment',
+}
+
+function money(n: number) {
+  return n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+}
+
+function download(content: string, encoding: 'utf8' | 'base64', fileName: string, type: string) {
+  const blob =
+    encoding === 'base64'
+      ? new Blob([Uint8Array.from(atob(content), (c) => c.charCodeAt(0))], { type })
+      : new Blob([content], { type })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+function FigureCells({ f, bold }: { f: MonthCloseFigures; bold?: boolean }) {
+  const cls = `px-4 py-3 text-right tabular-nums ${bold ? 'font-semibold' : ''}`
+  return (
+    <>
+      <td className={cls}>{f.openingActive}</td>
+      <td className={cls}>{f.closingActive}</td>
+      <td className={cls}>{f.payments}</td>
+      <td className={cls}>{money(f.gross)}</td>
+      <td className={cls}>{money(f.discounts)}</td>
+      <td className={cls}>{money(f.refunds)}</td>
+      <td className={cls}>{money(f.adjustments)}</td>
+      <td className={cls}>{money(f.net)}</td>
+    </>
+  )
+}
+
+export default function FinancePage() {
+  const [month, setMonth] = useState(() => formatGuyana(new Date(), 'yyyy-MM'))
+  const [report, setReport] = useState<MonthCloseReport | null>(null)
+  const [entries, setEntries] = useState<LedgerEntryRow[]>([])
+  const [truncated, setTruncated] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [exporting, setExporting] = useState<'csv' | 'pdf' | null>(null)
+  const [adjusting, setAdjusting] = useState(false)
+
+  const load = useCallback(async () => {
+    if (!month) return
+    setLoading(true)
+    setError(null)
+    // The report posts missing journals first, so load the entries after it
+    const res = await getMonthCloseReport(month)
+    const ledger = await listLedgerEntries(month)
+    if (!res.ok) {
+      setError(res.error)
+      setReport(null)
+    } else {
+      setReport(res.report)
+    }
+    if (ledger.ok) {
+      setEntries(ledger.rows)
+      setTruncated(ledger.truncated)
+    } else {
+      setError((e) => e ?? ledger.error)
+    }
+    setLoading(false)
+  }, [month])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  async function handleExport(format: 'csv' | 'pdf') {
+    setExporting(format)
+    const res = await exportMonthClose(month, format)
+    setExporting(null)
+    if (!res.ok) {
+      alert(res.error)
+      return
+    }
+    download(res.content, res.encoding, res.filename, res.mimeType)
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div className="flex items-center gap-3">
+          <Landmark className="h-8 w-8 text-blue-600" aria-hidden />
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Finance</h1>
+            <p className="text-sm text-gray-600 mt-1">
+              Month close from the subscription ledger: payments, promo discounts, refunds and manual adjustments,
+              by role and plan. Months follow Guyana time.
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="month"
+            className={`${inputClass} w-auto`}
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+            aria-label="Month"
+          />
+          <button type="button" className={btnSecondary} disabled={!report || !!exporting} onClick={() => void handleExport('csv')}>
+            {exporting === 'csv' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+            CSV
+          </button>
+          <button type="button" className={btnSecondary} disabled={!report || !!exporting} onClick={() => void handleExport('pdf')}>
+            {exporting === 'pdf' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+            PDF
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-red-50 border border-red-200 text-red-800 px-4 py-3 text-sm">{error}</div>
+      )}
+
+      <div className="rounded-xl border border-gray-200 bg-white overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Role</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Plan</th>
+              <th className="px-4 py-3 text-right font-medium text-gray-700">Opening subs</th>
+              <th className="px-4 py-3 text-right font-medium text-gray-700">Closing subs</th>
+              <th className="px-4 py-3 text-right font-medium text-gray-700">Payments</th>
+              <th className="px-4 py-3 text-right font-medium text-gray-700">Gross</th>
+              <th className="px-4 py-3 text-right font-medium text-gray-700">Discounts</th>
+              <th className="px-4 py-3 text-right font-medium text-gray-700">Refunds</th>
+              <th className="px-4 py-3 text-right font-medium text-gray-700">Adjustments</th>
+              <th className="px-4 py-3 text-right font-medium text-gray-700">Net</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {loading ? (
+              <tr>
+                <td colSpan={10} className="px-4 py-8 text-center text-gray-500">
+                  <Loader2 className="h-5 w-5 animate-spin inline" />
+                </td>
+              </tr>
+            ) : !report || report.rows.length === 0 ? (
+              <tr>
+                <td colSpan={10} className="px-4 py-8 text-center text-gray-500">
+                  No subscribers or ledger activity in this month.
+                </td>
+              </tr>
+            ) : (
+              <>
+                {report.rows.map((row) => (
+                  <tr key={`${row.role}|${row.planCode}`} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 capitalize">{row.role ?? 'Unassigned'}</td>
+                    <td className="px-4 py-3">
+                      {row.planLabel}
+                      {row.planCode && row.planCode !== row.planLabel && (
+                        <span className="block text-xs font-mono text-gray-500">{row.planCode}</span>
+                      )}
+                    </td>
+                    <FigureCells f={row} />
+                  </tr>
+                ))}
+                <tr className="bg-gray-50">
+                  <td className="px-4 py-3 font-semibold" colSpan={2}>
+                    Total ({report.currency})
+                  </td>
+                  <FigureCells f={report.totals} bold />
+                </tr>
+              </>
+            )}
+          </tbody>
+        </table>
+      </div>
+      {report && report.postedMissing > 0 && (
+        <p className="text-xs text-gray-500">
+          {report.postedMissing} payment or refund journal{report.postedMissing === 1 ? ' was' : 's were'} missing
+          from the ledger and {report.postedMissing === 1 ? 'has' : 'have'} been posted.
+        </p>
+      )}
+
+      <div className="rounded-xl border border-gray-200 bg-white">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Ledger</h2>
+            <p className="text-xs text-gray-500">
+              Every journal balances: debits equal credits. Entries can&apos;t be edited; correct them with an
+              adjustment.
+            </p>
+          </div>
+          <button type="button" className={btnPrimary} onClick={() => setAdjusting(true)}>
+            <Plus className="h-4 w-4" />
+            Adjustment
+          </button>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-700">Date</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-700">Source</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-700">Account</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-700">Debit</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-700">Credit</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-700">Role / plan</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-700">Memo</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {entries.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-4 py-6 text-center text-gray-500">
+                    {loading ? '' : 'No ledger entries this month.'}
+                  </td>
+                </tr>
+              ) : (
+                entries.map((e, i) => {
+                  const firstOfJournal = i === 0 || entries[i - 1].journal_id !== e.journal_id
+                  return (
+                    <tr key={e.id} className={firstOfJournal ? 'border-t-2 border-gray-200' : ''}>
+                      <td className="px-4 py-2 whitespace-nowrap text-gray-600">
+                        {firstOfJournal ? formatGuyana(e.occurred_at, 'MMM d, h:mm a') : ''}
+                      </td>
+                      <td className="px-4 py-2">
+                        {firstOfJournal && (
+                          <>
+                            {SOURCE_LABEL[e.source]}
+                            <span className="block text-xs font-mono text-gray-400">{e.source_id.slice(0, 8)}</span>
+                          </>
+                        )}
+                      </td>
+                      <td className={`px-4 py-2 ${e.credit > 0 ? 'pl-8' : ''}`}>{LEDGER_ACCOUNT_LABEL[e.account]}</td>
+                      <td className="px-4 py-2 text-right tabular-nums">{e.debit > 0 ? money(Number(e.debit)) : ''}</td>
+                      <td className="px-4 py-2 text-right tabular-nums">{e.credit > 0 ? money(Number(e.credit)) : ''}</td>
+                      <td className="px-4 py-2 text-xs text-gray-600">
+                        {firstOfJournal && [e.user_role, e.plan_code].filter(Boolean).join(' · ')}
+                      </td>
+                      <td className="px-4 py-2 text-xs text-gray-600">
+                        {firstOfJournal && e.memo}
+                        {firstOfJournal && e.created_by_name && (
+                          <span className="block text-gray-400">by {e.created_by_name}</span>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+        {truncated && (
+          <p className="px-4 py-2 text-xs text-gray-500 border-t border-gray-100">
+            Showing the latest 500 lines. Export the month for the full figures.
+          </p>
+        )}
+      </div>
+
+      {adjusting && (
+        <AdjustmentModal
+          month={month}
+          planCodes={Array.from(new Set((report?.rows ?? []).map((r) => r.planCode).filter((c): c is string => !!c)))}
+          onClose={() => setAdjusting(false)}
+          onSaved={async () => {
+            setAdjusting(false)
+            await load()
+          }}
+        />
+      )}
+    </div>
+  )
+}
+
+function AdjustmentModal({
+  month,
+  planCodes,
+  onClose,
+  onSaved,
+}: {
+  month: string
+  planCodes: string[]
+  onClose: () => void
+  onSaved: () => Promise<void>
+}) {
+  const today = formatGuyana(new Date(), 'yyyy-MM-dd')
+  const [direction, setDirection] = useState<'add' | 'remove'>('add')
+  const [amount, setAmount] = useState('')
+  const [date, setDate] = useState(today.startsWith(month) ? today : `${month}-01`)
+  const [role, setRole] = useState<SubscriptionAudience | ''>('')
+  const [planCode, setPlanCode] = useState('')
+  const [memo, setMemo] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [err, setErr] = useState<string | null>(null)
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault()
+    setErr(null)
+    setSaving(true)
+    const value = Number(amount)
+    const res = await postAdjustment({
+      amount: direction === 'add' ? value : -value,
+      memo,
+      // Noon Guyana time keeps a past adjustment inside the chosen day (and month) in any browser zone
+      occurredAt: date === today ? new Date().toISOString() : `${date}T12:00:00-04:00`,
+      role: role || null,
+      planCode: planCode || null,
+    })
+    setSaving(false)
+    if (!res.ok) {
+      setErr(res.error)
+      return
+    }
+    await onSaved()
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold">Post adjustment</h3>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600">
+          For money received or paid back outside MMG and the portal. Adding revenue debits manual cash and credits
+          revenue adjustments; removing it does the reverse.
+        </p>
+        <form onSubmit={(e) => void handleSubmit(e)} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Direction</label>
+              <select
+                className={inputClass}
+                value={direction}
+                onChange={(e) => setDirection(e.target.value as 'add' | 'remove')}
+              >
+                <option value="add">Add revenue</option>
+                <option value="remove">Remove revenue</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Amount (GYD)</label>
+              <input
+                className={inputClass}
+                inputMode="decimal"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Date</label>
+              <input
+                type="date"
+                className={inputClass}
+                value={date}
+                max={today}
+                onChange={(e) => setDate(e.target.value)}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Role</label>
+              <select
+                className={inputClass}
+                value={role}
+                onChange={(e) => setRole(e.target.value as SubscriptionAudience | '')}
+              >
+                <option value="">None</option>
+                <option value="driver">Driver</option>
+                <option value="rider">Rider</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Plan code</label>
+              <input
+                className={inputClass}
+                list="finance-plan-codes"
+                value={planCode}
+                onChange={(e) => setPlanCode(e.target.value)}
+                placeholder="Optional"
+              />
+              <datalist id="finance-plan-codes">
+                {planCodes.map((c) => (
+                  <option key={c} value={c} />
+                ))}
+              </datalist>
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Memo</label>
+            <textarea
+              className={inputClass}
+              rows={3}
+              value={memo}
+              onChange={(e) => setMemo(e.target.value)}
+              placeholder="What the adjustment is for, with any external reference"
+              required
+            />
+          </div>
+          {err && <p className="text-sm text-red-600">{err}</p>}
+          <div className="flex gap-2 justify-end pt-2">
+            <button type="button" className={btnSecondary} onClick={onClose}>
+              Cancel
+            </button>
+            <button type="submit" className={btnPrimary} disabled={saving}>
+              {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+              Post
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
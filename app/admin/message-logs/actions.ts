@@ -3,10 +3,16 @@
 import { createServerActionClient } from '@supabase/auth-helpers-nextjs'
 import { cookies } from 'next/headers'
 import { createClient } from '@supabase/supabase-js'
-import type { Database, UserRole } from '@/types/database'
+import type { Database, Json, MessageChannel, OutboxJobStatus, UserRole } from '@/types/database'
 import type { FirebaseProjectType } from '@/lib/firebase/admin'
 import { logger } from '@/lib/logger'
-import { sendNotificationsToUsers } from '@/lib/firebase/notifications'
+import { requeueDeadJob, sendMessage, type SendMessageResult } from '@/lib/message-outbox'
+import {
+  applyNotificationPreferences,
+  isNotificationCategory,
+  logSuppressedSend,
+  type PreferenceFilter,
+} from '@/lib/notification-preferences'
 
 function createServiceClient() {
   return createClient<Database>(
@@ -17,7 +23,7 @@ function createServiceClient() {
 }
 
 async function requireAdmin(): Promise<
-  | { ok: true; db: ReturnType<typeof createServiceClient>; adminUserId: string }
+  | { ok: true; db: ReturnType<typeof createServiceClient>; adminUserId: string; adminAuthId: string }
   | { ok: false; error: string }
 > {
   const authClient = createServerActionClient({ cookies })
@@ -41,55 +47,11 @@ async function requireAdmin(): Promise<
     return { ok: false, error: 'Only administrators can resend messages.' }
   }
 
-  return { ok: true, db, adminUserId: userRow.id }
-}
-
-async function sendTwilioSms(
-  to: string,
-  body: string
-): Promise<{ ok: true; sid: string } | { ok: false; message: string }> {
-  const accountSid = process.env.TWILIO_ACCOUNT_SID
-  const authToken = process.env.TWILIO_AUTH_TOKEN
-  const fromNumber = process.env.TWILIO_FROM_NUMBER
-
-  if (!accountSid || !authToken || !fromNumber) {
-    return { ok: false, message: 'SMS service is not configured.' }
-  }
-
-  const credentials = Buffer.from(`${accountSid}:${authToken}`).toString('base64')
-  const twilioUrl = `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`
-
-  const twilioBody = new URLSearchParams({
-    To: to.trim(),
-    From: fromNumber,
-    Body: body.trim(),
-  })
-
-  const twilioResponse = await fetch(twilioUrl, {
-    method: 'POST',
-    headers: {
-      Authorization: `Basic ${credentials}`,
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body: twilioBody.toString(),
-  })
-
-  const twilioData = (await twilioResponse.json()) as {
-    sid?: string
-    message?: string
-    code?: number
-  }
-
-  if (!twilioResponse.ok) {
-    logger.error('Twilio API error on resend', { status: twilioResponse.status, data: twilioData })
-    return { ok: false, message: twilioData.message || 'Failed to send SMS.' }
-  }
-
-  return { ok: true, sid: twilioData.sid! }
+  return { ok: true, db, adminUserId: userRow.id, adminAuthId: authUser.id }
 }
 
 export type ResendMessageLogResult =
-  | { ok: true }
+  | { ok: true; queued: boolean }
   | { ok: false; error: string }
 
 export async function resendMessageLog(messageLogId: string): Promise<ResendMessageLogResult> {
@@ -111,6 +73,17 @@ export async function resendMessageLog(messageLogId: string): Promise<ResendMess
   }
 
   const log = logRow as Database['public']['Tables']['message_logs']['Row']
+  const metadata = (log.metadata ?? {}) as Record<string, unknown>
+  if (metadata.suppressed === true) {
+    return {
+      ok: false,
+      error: 'This entry records recipients skipped by their notification preferences, so it cannot be resent.',
+    }
+  }
+  if (typeof metadata.campaign_id === 'string') {
+    // Resending would go to the whole audience, not the campaign's segment
+    return { ok: false, error: 'Campaign messages cannot be resent from here.' }
+  }
 
   if (log.channel === 'sms') {
     let phone = log.recipient_phone?.trim() ?? ''
@@ -126,22 +99,20 @@ export async function resendMessageLog(messageLogId: string): Promise<ResendMess
       return { ok: false, error: 'No phone number available for this SMS log.' }
     }
 
-    const smsResult = await sendTwilioSms(phone, log.message)
-    await db.from('message_logs').insert({
+    const result = await sendMessage(db, {
       channel: 'sms',
-      recipient_phone: phone,
-      recipient_user_id: log.recipient_user_id,
-      message: log.message.trim(),
-      status: smsResult.ok ? 'sent' : 'failed',
-      sent_by_user_id: adminUserId,
-      external_id: smsResult.ok ? smsResult.sid : null,
+      to: phone,
+      body: log.message,
+      log: {
+        recipientUserId: log.recipient_user_id,
+        sentByUserId: adminUserId,
+        notificationType: log.notification_type,
+        metadata: { resent_from_log_id: messageLogId },
+      },
     })
-
-    if (!smsResult.ok) {
-      return { ok: false, error: smsResult.message }
-    }
-    logger.info('Admin resent SMS from message log', { messageLogId, adminUserId })
-    return { ok: true }
+    const outcome = resendOutcome(result)
+    if (outcome.ok) logger.info('Admin resent SMS from message log', { messageLogId, adminUserId })
+    return outcome
   }
 
   const title = log.title?.trim() || 'Notification'
@@ -162,70 +133,43 @@ export async function resendMessageLog(messageLogId: string): Promise<ResendMess
       return { ok: false, error: 'Recipient user no longer exists.' }
     }
 
-    if (target.role === 'driver') {
-      const resultDriver = await sendNotificationsToUsers([target.id], title, body, 'driver')
-      const resultRider = await sendNotificationsToUsers([target.id], title, body, 'rider')
-      const ok = resultDriver.successCount > 0 || resultRider.successCount > 0
-
-      await db.from('message_logs').insert({
-        channel: 'push',
-        recipient_user_id: target.id,
-        title,
-        message: body,
-        status: ok ? 'sent' : 'failed',
-        sent_by_user_id: adminUserId,
-        notification_type: log.notification_type ?? 'push',
-        metadata: {
-          success_count: resultDriver.successCount + resultRider.successCount,
-          failure_count: resultDriver.failureCount + resultRider.failureCount,
-          invalid_tokens_removed:
-            resultDriver.invalidTokens.length + resultRider.invalidTokens.length,
-          resent_from_log_id: messageLogId,
-        },
-      })
-
-      if (!ok) {
-        return {
-          ok: false,
-          error:
-            'Push could not be delivered (no reachable devices). A failure entry was logged.',
-        }
+    // A resend honours the recipient's preferences for the original category
+    const category = isNotificationCategory(metadata.category) ? metadata.category : 'account'
+    const logFields = {
+      recipientUserId: target.id,
+      sentByUserId: adminUserId,
+      notificationType: log.notification_type ?? 'push',
+      metadata: { category, resent_from_log_id: messageLogId },
+    }
+    let filter: PreferenceFilter
+    try {
+      filter = await applyNotificationPreferences(db, [target.id], category)
+    } catch (error) {
+      logger.error('resend push: failed to load notification preferences', { error, messageLogId })
+      return { ok: false, error: 'Failed to load notification preferences for the recipient.' }
+    }
+    if (filter.allowed.length === 0) {
+      await logSuppressedSend(db, filter, { channel: 'push', title, body, log: logFields })
+      return {
+        ok: false,
+        error: 'Not resent: the recipient turned off this category or is in quiet hours. A skipped entry was logged.',
       }
-      logger.info('Admin resent push (driver recipient) from message log', {
-        messageLogId,
-        adminUserId,
-      })
-      return { ok: true }
     }
 
-    const result = await sendNotificationsToUsers([target.id], title, body, 'rider')
-    const ok = result.successCount > 0
-
-    await db.from('message_logs').insert({
+    // Drivers can be signed in to either app
+    const projectTypes: FirebaseProjectType[] = target.role === 'driver' ? ['driver', 'rider'] : ['rider']
+    const result = await sendMessage(db, {
       channel: 'push',
-      recipient_user_id: target.id,
+      targets: projectTypes.map((projectType) => ({ projectType, userIds: [target.id] })),
       title,
-      message: body,
-      status: ok ? 'sent' : 'failed',
-      sent_by_user_id: adminUserId,
-      notification_type: log.notification_type ?? 'push',
-      metadata: {
-        success_count: result.successCount,
-        failure_count: result.failureCount,
-        invalid_tokens_removed: result.invalidTokens.length,
-        resent_from_log_id: messageLogId,
-      },
+      body,
+      log: logFields,
     })
-
-    if (!ok) {
-      return {
-        ok: false,
-        error:
-          'Push could not be delivered (no reachable devices). A failure entry was logged.',
-      }
+    const outcome = resendOutcome(result)
+    if (outcome.ok) {
+      logger.info('Admin resent push from message log', { messageLogId, adminUserId, role: target.role })
     }
-    logger.info('Admin resent push from message log', { messageLogId, adminUserId })
-    return { ok: true }
+    return outcome
   }
 
   const audience = log.audience
@@ -274,41 +218,179 @@ export async function resendMessageLog(messageLogId: string): Promise<ResendMess
     }
   }
 
-  const notificationResult = await sendNotificationsToUsers(
-    userIds,
-    title,
-    body,
-    projectType
-  )
+  const category = isNotificationCategory(metadata.category) ? metadata.category : 'marketing'
+  const logFields = {
+    sentByUserId: adminUserId,
+    notificationType: log.notification_type ?? 'broadcast',
+    audience,
+    metadata: { category, resent_from_log_id: messageLogId },
+  }
+  let filter: PreferenceFilter
+  try {
+    filter = await applyNotificationPreferences(db, userIds, category)
+  } catch (error) {
+    logger.error('resend broadcast: failed to load notification preferences', { error, messageLogId })
+    return { ok: false, error: 'Failed to load notification preferences for the broadcast.' }
+  }
+  await logSuppressedSend(db, filter, { channel: 'push', title, body, log: logFields })
+  if (filter.allowed.length === 0) {
+    return {
+      ok: false,
+      error: 'Not resent: every recipient turned off this category or is in quiet hours. A skipped entry was logged.',
+    }
+  }
 
-  await db.from('message_logs').insert({
+  const result = await sendMessage(db, {
     channel: 'push',
+    targets: [{ projectType, userIds: filter.allowed }],
     title,
-    message: body,
-    status: notificationResult.successCount > 0 ? 'sent' : 'failed',
-    sent_by_user_id: adminUserId,
-    notification_type: log.notification_type ?? 'broadcast',
-    audience,
-    metadata: {
-      requested_count: userIds.length,
-      success_count: notificationResult.successCount,
-      failure_count: notificationResult.failureCount,
-      invalid_tokens_removed: notificationResult.invalidTokens.length,
-      resent_from_log_id: messageLogId,
-    },
+    body,
+    log: logFields,
   })
+  const outcome = resendOutcome(result)
+  if (outcome.ok) {
+    logger.info('Admin resent broadcast push from message log', {
+      messageLogId,
+      audience,
+      adminUserId,
+    })
+  }
+  return outcome
+}
 
-  if (notificationResult.successCount === 0) {
+/** Sent, or still in the outbox for retries, counts as resent; dead-lettered or unreachable doesn't. */
+function resendOutcome(result: SendMessageResult): ResendMessageLogResult {
+  if (!result.ok) {
+    return { ok: false, error: result.error }
+  }
+  const { attempt } = result
+  if (attempt.outcome === 'dead') {
+    return { ok: false, error: `${attempt.error} The message was dead-lettered.` }
+  }
+  if (attempt.outcome === 'sent' && attempt.push && attempt.push.successCount === 0) {
     return {
       ok: false,
-      error: 'Broadcast push failed for all recipients. A failure entry was logged.',
+      error: 'Push could not be delivered (no reachable devices). A failure entry was logged.',
     }
   }
+  return { ok: true, queued: attempt.outcome !== 'sent' }
+}
 
-  logger.info('Admin resent broadcast push from message log', {
-    messageLogId,
-    audience,
-    adminUserId,
+const OUTBOX_LIST_LIMIT = 50
+
+export type OutboxJobSummary = {
+  id: string
+  channel: MessageChannel
+  status: OutboxJobStatus
+  attempts: number
+  maxAttempts: number
+  nextAttemptAt: string
+  lastAttemptAt: string | null
+  lastError: string | null
+  deadAt: string | null
+  createdAt: string
+  messageLogId: string | null
+  /** Phone number for SMS, number of users for push. */
+  recipient: string
+  message: string
+}
+
+export type OutboxOverview = {
+  counts: { pending: number; retrying: number; processing: number; dead: number }
+  jobs: OutboxJobSummary[]
+}
+
+export type GetOutboxOverviewResult = { ok: true; overview: OutboxOverview } | { ok: false; error: string }
+
+/** Queue depth and the most recent jobs that are waiting, being sent or dead-lettered. */
+export async function getOutboxOverview(view: 'open' | 'dead'): Promise<GetOutboxOverviewResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) {
+    return { ok: false, error: gate.error }
+  }
+  const { db } = gate
+
+  try {
+    const count = async (status: OutboxJobStatus, retrying?: boolean) => {
+      let query = db.from('message_outbox').select('id', { count: 'exact', head: true }).eq('status', status)
+      if (retrying !== undefined) query = retrying ? query.gt('attempts', 0) : query.eq('attempts', 0)
+      const { count: n, error } = await query
+      if (error) throw error
+      return n ?? 0
+    }
+    const [pending, retrying, processing, dead, jobsResult] = await Promise.all([
+      count('pending', false),
+      count('pending', true),
+      count('processing'),
+      count('dead'),
+      db
+        .from('message_outbox')
+        .select('*')
+        .in('status', view === 'dead' ? ['dead'] : ['pending', 'processing'])
+        .order(view === 'dead' ? 'dead_at' : 'next_attempt_at', { ascending: view !== 'dead' })
+        .limit(OUTBOX_LIST_LIMIT),
+    ])
+    if (jobsResult.error) throw jobsResult.error
+
+    const jobs = jobsResult.data ?? []
+    return {
+      ok: true,
+      overview: {
+        counts: { pending, retrying, processing, dead },
+        jobs: jobs.map((job) => {
+          const payload = (job.payload ?? {}) as Record<string, Json | undefined>
+          const targets = Array.isArray(payload.targets) ? (payload.targets as { user_ids?: string[] }[]) : []
+          const users = new Set(targets.flatMap((t) => t.user_ids ?? [])).size
+          return {
+            id: job.id,
+            channel: job.channel,
+            status: job.status,
+            attempts: job.attempts,
+            maxAttempts: job.max_attempts,
+            nextAttemptAt: job.next_attempt_at,
+            lastAttemptAt: job.last_attempt_at,
+            lastError: job.last_error,
+            deadAt: job.dead_at,
+            createdAt: job.created_at,
+            messageLogId: job.message_log_id,
+            recipient:
+              job.channel === 'sms'
+                ? String(payload.to ?? '—')
+                : `${users} user${users === 1 ? '' : 's'}`,
+            message: String(payload.body ?? ''),
+          }
+        }),
+      },
+    }
+  } catch (error) {
+    logger.error('getOutboxOverview failed', { error })
+    return { ok: false, error: 'Failed to load the message outbox.' }
+  }
+}
+
+export type RetryOutboxJobResult = { ok: true } | { ok: false; error: string }
+
+/** Requeues a dead-lettered message with a fresh set of attempts; the next worker run sends it. */
+export async function retryOutboxJob(jobId: string): Promise<RetryOutboxJobResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) {
+    return { ok: false, error: gate.error }
+  }
+
+  const result = await requeueDeadJob(gate.db, jobId)
+  if (!result.ok) return result
+
+  const { error: auditError } = await gate.db.from('audit_logs').insert({
+    table_name: 'message_outbox',
+    record_id: jobId,
+    action: 'UPDATE',
+    old_data: { status: 'dead' },
+    new_data: { status: 'pending', attempts: 0 },
+    changed_at: new Date().toISOString(),
+    actor_id: gate.adminAuthId,
   })
+  if (auditError) logger.error('Outbox requeue audit failed', { error: auditError, jobId })
+
+  logger.info('Admin requeued dead-lettered message', { jobId, adminUserId: gate.adminUserId })
   return { ok: true }
 }
@@ -0,0 +1,154 @@
+'use client'
+
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { AlertCircle, Inbox, Loader2, RotateCcw } from 'lucide-react'
+import { format } from 'date-fns'
+import { getOutboxOverview, retryOutboxJob } from './actions'
+
+/** Queue depth of the outbound message outbox, with waiting and dead-lettered jobs. */
+export function OutboxSection() {
+  const queryClient = useQueryClient()
+  const [view, setView] = useState<'open' | 'dead'>('open')
+  const [error, setError] = useState<string | null>(null)
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['message_outbox', view],
+    queryFn: () => getOutboxOverview(view),
+    refetchInterval: 30_000,
+  })
+  const overview = data?.ok ? data.overview : null
+
+  const retryMutation = useMutation({
+    mutationFn: (jobId: string) => retryOutboxJob(jobId),
+    onSuccess: (res) => {
+      if (!res.ok) {
+        setError(res.error)
+        return
+      }
+      setError(null)
+      queryClient.invalidateQueries({ queryKey: ['message_outbox'] })
+      queryClient.invalidateQueries({ queryKey: ['message_logs'] })
+    },
+    onError: (err: Error) => setError(err.message || 'Retry failed.'),
+  })
+
+  const tiles = overview
+    ? [
+        { label: 'Waiting', value: overview.counts.pending, className: 'text-gray-900' },
+        { label: 'Retrying', value: overview.counts.retrying, className: 'text-amber-700' },
+        { label: 'Sending', value: overview.counts.processing, className: 'text-blue-700' },
+        { label: 'Dead-lettered', value: overview.counts.dead, className: 'text-red-700' },
+      ]
+    : []
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <Inbox className="h-5 w-5 text-gray-500" />
+            Outbox
+          </h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Messages the provider hasn&apos;t accepted yet are retried with increasing delays. After the last
+            attempt they are dead-lettered and can be requeued here.
+          </p>
+        </div>
+        <select
+          value={view}
+          onChange={(e) => setView(e.target.value as 'open' | 'dead')}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="open">Waiting &amp; retrying</option>
+          <option value="dead">Dead-lettered</option>
+        </select>
+      </div>
+
+      {error && (
+        <div className="flex items-start gap-2 rounded-lg bg-red-50 border border-red-100 px-3 py-2 text-sm text-red-800">
+          <AlertCircle className="h-5 w-5 shrink-0 mt-0.5" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-gray-600 text-sm">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading outbox…
+        </div>
+      ) : !overview ? (
+        <p className="text-sm text-red-700">{data && !data.ok ? data.error : 'Failed to load the message outbox.'}</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {tiles.map((t) => (
+              <div key={t.label} className="rounded-lg border border-gray-200 p-4">
+                <p className="text-xs text-gray-500 uppercase">{t.label}</p>
+                <p className={`text-xl font-semibold ${t.className}`}>{t.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {overview.jobs.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Channel</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Recipient</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Message</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Attempts</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                      {view === 'dead' ? 'Dead-lettered' : 'Next attempt'}
+                    </th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Last error</th>
+                    {view === 'dead' && <th className="px-3 py-2" />}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {overview.jobs.map((job) => (
+                    <tr key={job.id}>
+                      <td className="px-3 py-2 whitespace-nowrap text-gray-900">
+                        {job.channel.toUpperCase()}
+                        {job.status === 'processing' && <span className="ml-2 text-xs text-blue-700">sending</span>}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-gray-600">{job.recipient}</td>
+                      <td className="px-3 py-2 text-gray-600 max-w-xs truncate">{job.message}</td>
+                      <td className="px-3 py-2 text-right text-gray-600">
+                        {job.attempts}/{job.maxAttempts}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-gray-600">
+                        {format(new Date(view === 'dead' && job.deadAt ? job.deadAt : job.nextAttemptAt), 'MMM d, h:mm a')}
+                      </td>
+                      <td className="px-3 py-2 text-gray-500 max-w-xs truncate" title={job.lastError ?? undefined}>
+                        {job.lastError ?? '—'}
+                      </td>
+                      {view === 'dead' && (
+                        <td className="px-3 py-2 text-right">
+                          <button
+                            type="button"
+                            disabled={retryMutation.isPending}
+                            onClick={() => retryMutation.mutate(job.id)}
+                            className="inline-flex items-center gap-1 rounded-lg border border-gray-300 px-2.5 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                          >
+                            <RotateCcw className="h-3.5 w-3.5" />
+                            Requeue
+                          </button>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">
+              {view === 'dead' ? 'No dead-lettered messages.' : 'Nothing waiting. Every message has been handed to its provider.'}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
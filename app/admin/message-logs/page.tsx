@@ -5,7 +5,17 @@ import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { createClient } from '@/lib/supabase/client'
 import { Search, MessageSquare, List, LayoutGrid, X, RefreshCw } from 'lucide-react'
 import { format } from 'date-fns'
+import type { MessageLogStatus } from '@/types/database'
 import { resendMessageLog } from './actions'
+import { OutboxSection } from './outbox-section'
+
+const STATUS_BADGE: Record<MessageLogStatus, string> = {
+  queued: 'bg-gray-100 text-gray-800',
+  sent: 'bg-blue-100 text-blue-800',
+  delivered: 'bg-green-100 text-green-800',
+  undelivered: 'bg-amber-100 text-amber-800',
+  failed: 'bg-red-100 text-red-800',
+}
 
 type MessageLog = {
   id: string
@@ -14,12 +24,16 @@ type MessageLog = {
   recipient_phone: string | null
   title: string | null
   message: string
-  status: 'sent' | 'failed'
+  status: MessageLogStatus
   sent_by_user_id: string | null
   external_id: string | null
   notification_type: string | null
   audience: string | null
   metadata: Record<string, unknown> | null
+  provider: string | null
+  status_updated_at: string | null
+  error_code: string | null
+  error_message: string | null
   created_at: string
   recipient: { full_name: string | null; phone_number: string | null } | null
   sent_by: { full_name: string | null } | null
@@ -108,7 +122,13 @@ function MessageLogsContent() {
     onSuccess: (data) => {
       if (data.ok) {
         queryClient.invalidateQueries({ queryKey: ['message_logs'] })
-        setResendFeedback({ type: 'success', text: 'Message resent successfully.' })
+        queryClient.invalidateQueries({ queryKey: ['message_outbox'] })
+        setResendFeedback({
+          type: 'success',
+          text: data.queued
+            ? 'Message queued. The outbox keeps retrying it until it goes out.'
+            : 'Message resent successfully.',
+        })
       } else {
         setResendFeedback({ type: 'error', text: data.error })
       }
@@ -137,6 +157,8 @@ function MessageLogsContent() {
         </p>
       </div>
 
+      <OutboxSection />
+
       {/* Filters */}
       <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -175,7 +197,10 @@ function MessageLogsContent() {
               className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
             >
               <option value="all">All Statuses</option>
+              <option value="queued">Queued</option>
               <option value="sent">Sent</option>
+              <option value="delivered">Delivered</option>
+              <option value="undelivered">Undelivered</option>
               <option value="failed">Failed</option>
             </select>
           </div>
@@ -198,11 +223,14 @@ function MessageLogsContent() {
           {logs && (
             <div className="md:col-span-2 flex items-center gap-4 text-sm text-gray-500">
               <span>{logs.length} result{logs.length !== 1 ? 's' : ''}</span>
+              <span className="text-blue-600 font-medium">
+                {logs.filter((l) => l.status === 'queued' || l.status === 'sent').length} sent
+              </span>
               <span className="text-green-600 font-medium">
-                {logs.filter((l) => l.status === 'sent').length} sent
+                {logs.filter((l) => l.status === 'delivered').length} delivered
               </span>
               <span className="text-red-600 font-medium">
-                {logs.filter((l) => l.status === 'failed').length} failed
+                {logs.filter((l) => l.status === 'undelivered' || l.status === 'failed').length} failed
               </span>
             </div>
           )}
@@ -256,7 +284,7 @@ function MessageLogsContent() {
                       </span>
                       <span
                         className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                          log.status === 'sent' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                          STATUS_BADGE[log.status] ?? 'bg-gray-100 text-gray-800'
                         }`}
                       >
                         {log.status}
@@ -322,7 +350,7 @@ function MessageLogsContent() {
                           </span>
                           {log.audience && (
                             <span className="inline-flex items-center px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-600">
-                              {log.audience} broadcast
+                              {log.audience} {log.metadata?.campaign_id ? 'campaign' : 'broadcast'}
                             </span>
                           )}
                         </div>
@@ -358,14 +386,16 @@ function MessageLogsContent() {
                       <td className="px-6 py-4 whitespace-nowrap">
                         <span
                           className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                            log.status === 'sent'
-                              ? 'bg-green-100 text-green-800'
-                              : 'bg-red-100 text-red-800'
+                            STATUS_BADGE[log.status] ?? 'bg-gray-100 text-gray-800'
                           }`}
                         >
                           {log.status}
                         </span>
-                        {log.metadata && log.channel === 'push' && (
+                        {log.metadata?.suppressed === true ? (
+                          <div className="text-xs text-gray-400 mt-1">
+                            {(log.metadata.requested_count as number) ?? 0} skipped by preferences
+                          </div>
+                        ) : log.metadata && log.channel === 'push' && (
                           <div className="text-xs text-gray-400 mt-1">
                             {(log.metadata.success_count as number) ?? 0}/
                             {(log.metadata.requested_count as number) ??
@@ -438,6 +468,11 @@ function MessageLogsContent() {
                 <div className="rounded-lg border border-gray-200 p-3">
                   <p className="text-xs uppercase tracking-wide text-gray-500">Status</p>
                   <p className="mt-2 text-sm font-medium text-gray-900">{selectedLog.status}</p>
+                  {selectedLog.status_updated_at && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Updated {format(new Date(selectedLog.status_updated_at), 'MMM d, yyyy h:mm:ss a')}
+                    </p>
+                  )}
                 </div>
                 <div className="rounded-lg border border-gray-200 p-3">
                   <p className="text-xs uppercase tracking-wide text-gray-500">Date Sent</p>
@@ -480,6 +515,7 @@ function MessageLogsContent() {
                 <div className="rounded-lg border border-gray-200 p-3">
                   <p className="text-xs uppercase tracking-wide text-gray-500">External ID</p>
                   <p className="mt-2 text-sm text-gray-800 break-all">{selectedLog.external_id ?? 'N/A'}</p>
+                  <p className="text-xs text-gray-500 mt-1">Provider: {selectedLog.provider ?? 'N/A'}</p>
                 </div>
                 <div className="rounded-lg border border-gray-200 p-3">
                   <p className="text-xs uppercase tracking-wide text-gray-500">Audience</p>
@@ -487,6 +523,16 @@ function MessageLogsContent() {
                 </div>
               </div>
 
+              {(selectedLog.error_code || selectedLog.error_message) && (
+                <div className="rounded-lg border border-red-100 bg-red-50 p-3 text-sm text-red-800">
+                  <p className="text-xs uppercase tracking-wide text-red-600">Delivery error</p>
+                  <p className="mt-2">
+                    {selectedLog.error_code ? `${selectedLog.error_code}: ` : ''}
+                    {selectedLog.error_message ?? 'No details from the provider.'}
+                  </p>
+                </div>
+              )}
+
               <div className="space-y-2">
                 <h3 className="text-sm font-semibold text-gray-900">Metadata</h3>
                 <pre className="p-3 bg-gray-50 border border-gray-200 rounded-lg overflow-x-auto text-xs max-h-64 overflow-y-auto">
@@ -509,7 +555,11 @@ function MessageLogsContent() {
                 <button
                   type="button"
                   onClick={() => selectedLog && resendMutation.mutate(selectedLog.id)}
-                  disabled={resendMutation.isPending}
+                  disabled={
+                    resendMutation.isPending ||
+                    selectedLog?.metadata?.suppressed === true ||
+                    typeof selectedLog?.metadata?.campaign_id === 'string'
+                  }
                   className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:pointer-events-none"
                 >
                   <RefreshCw
@@ -0,0 +1,425 @@
+'use server'
+
+import { createServerActionClient } from '@supabase/auth-helpers-nextjs'
+import { createClient } from '@supabase/supabase-js'
+import { cookies } from 'next/headers'
+import { logger } from '@/lib/logger'
+import {
+  NOTIFICATION_LOCALES,
+  SYSTEM_TEMPLATES,
+  allowedVariables,
+  checkTemplateText,
+  isSystemTemplate,
+  type TemplateVariableName,
+  type TemplateVariant,
+} from '@/lib/notification-templates'
+import type { Database, MessageChannel, NotificationLocale, UserRole } from '@/types/database'
+
+function createServiceClient() {
+  return createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+}
+
+async function requireAdmin(): Promise<
+  | { ok: true; db: ReturnType<typeof createServiceClient>; adminUserId: string; adminAuthId: string }
+  | { ok: false; error: string }
+> {
+  const authClient = createServerActionClient({ cookies })
+  const {
+    data: { user: authUser },
+    error: authError,
+  } = await authClient.auth.getUser()
+
+  if (authError || !authUser) {
+    return { ok: false, error: 'Not authenticated' }
+  }
+
+  const db = createServiceClient()
+  const { data: userRow, error: userError } = await db
+    .from('users')
+    .select('id, role')
+    .eq('auth_id', authUser.id)
+    .single()
+
+  if (userError || !userRow || userRow.role !== 'admin') {
+    return { ok: false, error: 'Only administrators can manage notification templates.' }
+  }
+
+  return { ok: true, db, adminUserId: userRow.id, adminAuthId: authUser.id }
+}
+
+export type NotificationTemplateSummary = {
+  key: string
+  name: string
+  description: string | null
+  isSystem: boolean
+  /** Who receives it: 'driver', 'rider', 'driver,rider', or null for admin templates (any). */
+  audience: string | null
+  variables: TemplateVariableName[]
+  /** Built-in English text of a system template. */
+  defaults: { title: string; body: string } | null
+  variants: TemplateVariant[]
+  updatedAt: string | null
+}
+
+export type ListNotificationTemplatesResult =
+  | { ok: true; templates: NotificationTemplateSummary[] }
+  | { ok: false; error: string }
+
+/** System templates in registry order, then admin templates by name, each with its edited variants. */
+export async function listNotificationTemplates(): Promise<ListNotificationTemplatesResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const [{ data: rows, error }, { data: variants, error: variantsError }] = await Promise.all([
+    gate.db.from('notification_templates').select('*').order('name'),
+    gate.db.from('notification_template_variants').select('*'),
+  ])
+  if (error || variantsError) {
+    logger.error('listNotificationTemplates failed', { error: error ?? variantsError })
+    return { ok: false, error: 'Failed to load notification templates.' }
+  }
+
+  const variantsByKey = new Map<string, TemplateVariant[]>()
+  for (const v of variants ?? []) {
+    variantsByKey.set(v.template_key, [...(variantsByKey.get(v.template_key) ?? []), v])
+  }
+  const rowByKey = new Map((rows ?? []).map((r) => [r.key, r]))
+  const latest = (key: string) =>
+    (variantsByKey.get(key) ?? []).reduce<string | null>((max, v) => (!max || v.updated_at > max ? v.updated_at : max), null)
+
+  const system: NotificationTemplateSummary[] = Object.entries(SYSTEM_TEMPLATES).map(([key, t]) => ({
+    key,
+    name: t.name,
+    description: t.description,
+    isSystem: true,
+    audience: t.audience,
+    variables: allowedVariables(key),
+    defaults: t.push,
+    variants: variantsByKey.get(key) ?? [],
+    updatedAt: latest(key) ?? rowByKey.get(key)?.updated_at ?? null,
+  }))
+  const custom: NotificationTemplateSummary[] = (rows ?? [])
+    .filter((r) => !isSystemTemplate(r.key))
+    .map((r) => ({
+      key: r.key,
+      name: r.name,
+      description: r.description,
+      isSystem: false,
+      audience: null,
+      variables: allowedVariables(r.key),
+      defaults: null,
+      variants: variantsByKey.get(r.key) ?? [],
+      updatedAt: latest(r.key) ?? r.updated_at,
+    }))
+
+  return { ok: true, templates: [...system, ...custom] }
+}
+
+export type SendableTemplate = { key: string; name: string; title: string; body: string }
+
+export type ListSendableTemplatesResult = { ok: true; templates: SendableTemplate[] } | { ok: false; error: string }
+
+/** Admin templates with their English push text, for the send-notification pickers. */
+export async function listSendableTemplates(): Promise<ListSendableTemplatesResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const { data: variants, error } = await gate.db
+    .from('notification_template_variants')
+    .select('template_key, title, body')
+    .eq('locale', 'en')
+    .eq('channel', 'push')
+  const { data: rows, error: rowsError } = await gate.db
+    .from('notification_templates')
+    .select('key, name')
+    .eq('is_system', false)
+    .order('name')
+  if (error || rowsError) {
+    logger.error('listSendableTemplates failed', { error: error ?? rowsError })
+    return { ok: false, error: 'Failed to load notification templates.' }
+  }
+
+  const textByKey = new Map((variants ?? []).map((v) => [v.template_key, v]))
+  return {
+    ok: true,
+    templates: (rows ?? []).flatMap((r) => {
+      const text = textByKey.get(r.key)
+      return text ? [{ key: r.key, name: r.name, title: text.title ?? '', body: text.body }] : []
+    }),
+  }
+}
+
+export type TemplateVariantInput = {
+  key: string
+  locale: NotificationLocale
+  channel: MessageChannel
+  title: string | null
+  body: string
+}
+
+export type SaveTemplateResult = { ok: true } | { ok: false; error: string }
+
+/**
+ * Saves the text of one locale/channel of a template. The first edit of a system template creates
+ * its notification_templates row; admin templates must exist already.
+ */
+export async function saveTemplateVariant(input: TemplateVariantInput): Promise<SaveTemplateResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  if (!NOTIFICATION_LOCALES.some((l) => l.value === input.locale)) return { ok: false, error: 'Unknown locale.' }
+  if (input.channel !== 'push' && input.channel !== 'sms') return { ok: false, error: 'Unknown channel.' }
+
+  const text = { title: input.channel === 'push' ? input.title?.trim() || null : null, body: input.body.trim() }
+  const problems = checkTemplateText(input.key, input.channel, text)
+  if (problems.length > 0) return { ok: false, error: problems.join(' ') }
+
+  const now = new Date().toISOString()
+  if (isSystemTemplate(input.key)) {
+    const system = SYSTEM_TEMPLATES[input.key]
+    const { error } = await gate.db
+      .from('notification_templates')
+      .upsert(
+        { key: input.key, name: system.name, description: system.description, is_system: true, updated_at: now },
+        { onConflict: 'key' }
+      )
+    if (error) {
+      logger.error('saveTemplateVariant: template upsert failed', { error, key: input.key })
+      return { ok: false, error: 'Failed to save the template.' }
+    }
+  } else {
+    const { data: row } = await gate.db.from('notification_templates').select('key').eq('key', input.key).maybeSingle()
+    if (!row) return { ok: false, error: 'Template not found.' }
+  }
+
+  const { data: previous } = await gate.db
+    .from('notification_template_variants')
+    .select('*')
+    .eq('template_key', input.key)
+    .eq('locale', input.locale)
+    .eq('channel', input.channel)
+    .maybeSingle()
+
+  const { data: saved, error } = await gate.db
+    .from('notification_template_variants')
+    .upsert(
+      {
+        template_key: input.key,
+        locale: input.locale,
+        channel: input.channel,
+        title: text.title,
+        body: text.body,
+        updated_by: gate.adminUserId,
+        updated_at: now,
+      },
+      { onConflict: 'template_key,locale,channel' }
+    )
+    .select('id')
+    .single()
+  if (error || !saved) {
+    logger.error('saveTemplateVariant failed', { error, key: input.key, locale: input.locale, channel: input.channel })
+    return { ok: false, error: 'Failed to save the template.' }
+  }
+
+  const { error: auditError } = await gate.db.from('audit_logs').insert({
+    table_name: 'notification_template_variants',
+    record_id: saved.id,
+    action: previous ? 'UPDATE' : 'INSERT',
+    old_data: previous ? { title: previous.title, body: previous.body } : null,
+    new_data: { template_key: input.key, locale: input.locale, channel: input.channel, ...text },
+    changed_at: now,
+    actor_id: gate.adminAuthId,
+  })
+  if (auditError) logger.error('Template save audit failed', { error: auditError, key: input.key })
+
+  return { ok: true }
+}
+
+/**
+ * Removes one locale/channel text so the fallback applies again (English, the push text, or the
+ * built-in default). An admin template keeps its English push text; delete the template instead.
+ */
+export async function resetTemplateVariant(
+  key: string,
+  locale: NotificationLocale,
+  channel: MessageChannel
+): Promise<SaveTemplateResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  if (!isSystemTemplate(key) && locale === 'en' && channel === 'push') {
+    return { ok: false, error: 'The English push text is required. Delete the template instead.' }
+  }
+
+  const { data: removed, error } = await gate.db
+    .from('notification_template_variants')
+    .delete()
+    .eq('template_key', key)
+    .eq('locale', locale)
+    .eq('channel', channel)
+    .select('*')
+    .maybeSingle()
+  if (error) {
+    logger.error('resetTemplateVariant failed', { error, key, locale, channel })
+    return { ok: false, error: 'Failed to reset the template.' }
+  }
+
+  if (removed) {
+    const { error: auditError } = await gate.db.from('audit_logs').insert({
+      table_name: 'notification_template_variants',
+      record_id: removed.id,
+      action: 'DELETE',
+      old_data: { template_key: key, locale, channel, title: removed.title, body: removed.body },
+      new_data: null,
+      changed_at: new Date().toISOString(),
+      actor_id: gate.adminAuthId,
+    })
+    if (auditError) logger.error('Template reset audit failed', { error: auditError, key })
+  }
+  return { ok: true }
+}
+
+export type CustomTemplateInput = {
+  key: string
+  name: string
+  description: string | null
+  title: string
+  body: string
+}
+
+const KEY_RE = /^[a-z][a-z0-9_]{1,63}$/
+
+/** Creates an admin template with its English push text. */
+export async function createCustomTemplate(input: CustomTemplateInput): Promise<SaveTemplateResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const key = input.key.trim()
+  if (!KEY_RE.test(key)) {
+    return { ok: false, error: 'Key must start with a letter and use 2–64 lowercase letters, digits or underscores.' }
+  }
+  if (isSystemTemplate(key)) return { ok: false, error: `"${key}" is a system template key.` }
+  const name = input.name.trim()
+  if (!name) return { ok: false, error: 'Name is required.' }
+
+  const text = { title: input.title.trim(), body: input.body.trim() }
+  const problems = checkTemplateText(key, 'push', text)
+  if (problems.length > 0) return { ok: false, error: problems.join(' ') }
+
+  const { data: created, error } = await gate.db
+    .from('notification_templates')
+    .insert({
+      key,
+      name,
+      description: input.description?.trim() || null,
+      is_system: false,
+      created_by: gate.adminUserId,
+    })
+    .select('id')
+    .single()
+  if (error || !created) {
+    if (error?.code === '23505') return { ok: false, error: `A template "${key}" already exists.` }
+    logger.error('createCustomTemplate failed', { error, key })
+    return { ok: false, error: 'Failed to create the template.' }
+  }
+
+  const { error: variantError } = await gate.db.from('notification_template_variants').insert({
+    template_key: key,
+    locale: 'en',
+    channel: 'push',
+    title: text.title,
+    body: text.body,
+    updated_by: gate.adminUserId,
+  })
+  if (variantError) {
+    logger.error('createCustomTemplate: variant insert failed', { error: variantError, key })
+    await gate.db.from('notification_templates').delete().eq('key', key)
+    return { ok: false, error: 'Failed to create the template.' }
+  }
+
+  const { error: auditError } = await gate.db.from('audit_logs').insert({
+    table_name: 'notification_templates',
+    record_id: created.id,
+    action: 'INSERT',
+    old_data: null,
+    new_data: { key, name, ...text },
+    changed_at: new Date().toISOString(),
+    actor_id: gate.adminAuthId,
+  })
+  if (auditError) logger.error('Template create audit failed', { error: auditError, key })
+
+  return { ok: true }
+}
+
+/** Deletes an admin template and all its texts. System templates can only be reset. */
+export async function deleteCustomTemplate(key: string): Promise<SaveTemplateResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  if (isSystemTemplate(key)) return { ok: false, error: 'System templates can be reset but not deleted.' }
+
+  const { data: removed, error } = await gate.db
+    .from('notification_templates')
+    .delete()
+    .eq('key', key)
+    .select('id, name')
+    .maybeSingle()
+  if (error) {
+    logger.error('deleteCustomTemplate failed', { error, key })
+    return { ok: false, error: 'Failed to delete the template.' }
+  }
+  if (!removed) return { ok: false, error: 'Template not found.' }
+
+  const { error: auditError } = await gate.db.from('audit_logs').insert({
+    table_name: 'notification_templates',
+    record_id: removed.id,
+    action: 'DELETE',
+    old_data: { key, name: removed.name },
+    new_data: null,
+    changed_at: new Date().toISOString(),
+    actor_id: gate.adminAuthId,
+  })
+  if (auditError) logger.error('Template delete audit failed', { error: auditError, key })
+
+  return { ok: true }
+}
+
+export type SampleUser = { id: string; fullName: string; role: UserRole; locale: NotificationLocale; phone: string }
+
+export type SearchSampleUsersResult = { ok: true; users: SampleUser[] } | { ok: false; error: string }
+
+/** Drivers and riders matching a name or phone number, to preview a template as them. */
+export async function searchSampleUsers(query: string): Promise<SearchSampleUsersResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const q = query.trim().replace(/[%,()]/g, ' ')
+  if (q.length < 2) return { ok: true, users: [] }
+
+  const { data, error } = await gate.db
+    .from('users')
+    .select('id, full_name, role, preferred_locale, phone_number')
+    .in('role', ['driver', 'rider'])
+    .or(`full_name.ilike.%${q}%,phone_number.ilike.%${q}%`)
+    .order('full_name')
+    .limit(10)
+  if (error) {
+    logger.error('searchSampleUsers failed', { error })
+    return { ok: false, error: 'Failed to search users.' }
+  }
+
+  return {
+    ok: true,
+    users: (data ?? []).map((u) => ({
+      id: u.id,
+      fullName: u.full_name,
+      role: u.role,
+      locale: u.preferred_locale,
+      phone: u.phone_number,
+    })),
+  }
+}
@@ -0,0 +1,521 @@
+'use client'
+
+import { useCallback, useEffect, useState, type FormEvent } from 'react'
+import { format } from 'date-fns'
+import { LayoutTemplate, Loader2, Plus, RotateCcw, Trash2 } from 'lucide-react'
+import {
+  CHANNEL_LIMITS,
+  CUSTOM_TEMPLATE_VARIABLES,
+  NOTIFICATION_LOCALES,
+  TEMPLATE_VARIABLES,
+  resolveTemplate,
+} from '@/lib/notification-templates'
+import type { MessageChannel, NotificationLocale } from '@/types/database'
+import {
+  createCustomTemplate,
+  deleteCustomTemplate,
+  listNotificationTemplates,
+  resetTemplateVariant,
+  saveTemplateVariant,
+  type NotificationTemplateSummary,
+} from './actions'
+import { TemplatePreview } from './template-preview'
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+const btnPrimary =
+  'inline-flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50'
+const btnSecondary =
+  'inline-flex items-center justify-center gap-2 px-3 py-1.5 border border-gray-300 text-sm rounded-lg hover:bg-gray-50 disabled:opacity-50'
+
+const CHANNELS: { value: MessageChannel; label: string }[] = [
+  { value: 'push', label: 'Push' },
+  { value: 'sms', label: 'SMS' },
+]
+
+const AUDIENCE_LABEL: Record<string, string> = {
+  driver: 'Drivers',
+  rider: 'Riders',
+  'driver,rider': 'Drivers and riders',
+}
+
+export default function NotificationTemplatesPage() {
+  const [templates, setTemplates] = useState<NotificationTemplateSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [selectedKey, setSelectedKey] = useState<string | null>(null)
+  const [creating, setCreating] = useState(false)
+
+  const load = useCallback(async () => {
+    setError(null)
+    const res = await listNotificationTemplates()
+    if (!res.ok) {
+      setError(res.error)
+    } else {
+      setTemplates(res.templates)
+      setSelectedKey((key) => key ?? res.templates[0]?.key ?? null)
+    }
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  const selected = templates.find((t) => t.key === selectedKey) ?? null
+  const system = templates.filter((t) => t.isSystem)
+  const custom = templates.filter((t) => !t.isSystem)
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <LayoutTemplate className="h-8 w-8 text-blue-600" aria-hidden />
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Notification templates</h1>
+            <p className="text-sm text-gray-600 mt-1">
+              The text of every push and SMS the system sends, with {'{{variables}}'} filled in per recipient. Users
+              get the text in their language when there is one, otherwise English.
+            </p>
+          </div>
+        </div>
+        <button type="button" className={btnPrimary} onClick={() => setCreating(true)}>
+          <Plus className="h-4 w-4" />
+          New template
+        </button>
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-red-50 border border-red-200 text-red-800 px-4 py-3 text-sm">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-gray-600 text-sm">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading templates…
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="rounded-xl border border-gray-200 bg-white overflow-hidden self-start">
+            <TemplateList title="System messages" templates={system} selectedKey={selectedKey} onSelect={setSelectedKey} />
+            <TemplateList
+              title="Admin templates"
+              templates={custom}
+              selectedKey={selectedKey}
+              onSelect={setSelectedKey}
+              empty="None yet. Admin templates can be picked when sending to drivers, riders or a broadcast."
+            />
+          </div>
+          <div className="lg:col-span-2">
+            {selected ? (
+              <TemplateEditor
+                key={selected.key}
+                template={selected}
+                onChanged={load}
+                onDeleted={async () => {
+                  setSelectedKey(null)
+                  await load()
+                }}
+              />
+            ) : (
+              <p className="text-sm text-gray-500">Select a template.</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {creating && (
+        <CreateTemplateModal
+          onClose={() => setCreating(false)}
+          onCreated={async (key) => {
+            setCreating(false)
+            setSelectedKey(key)
+            await load()
+          }}
+        />
+      )}
+    </div>
+  )
+}
+
+function TemplateList({
+  title,
+  templates,
+  selectedKey,
+  onSelect,
+  empty,
+}: {
+  title: string
+  templates: NotificationTemplateSummary[]
+  selectedKey: string | null
+  onSelect: (key: string) => void
+  empty?: string
+}) {
+  return (
+    <div>
+      <p className="px-4 py-2 bg-gray-50 text-xs font-medium text-gray-500 uppercase border-b border-gray-200">{title}</p>
+      {templates.length === 0 && empty && <p className="px-4 py-3 text-sm text-gray-500">{empty}</p>}
+      <ul className="divide-y divide-gray-100">
+        {templates.map((t) => (
+          <li key={t.key}>
+            <button
+              type="button"
+              onClick={() => onSelect(t.key)}
+              className={`w-full text-left px-4 py-2.5 text-sm ${
+                t.key === selectedKey ? 'bg-blue-50 text-blue-900' : 'hover:bg-gray-50 text-gray-900'
+              }`}
+            >
+              <span className="font-medium">{t.name}</span>
+              <span className="block text-xs text-gray-500 font-mono">
+                {t.key}
+                {t.variants.length > 0 && t.isSystem && <span className="ml-2 font-sans text-blue-700">edited</span>}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+function TemplateEditor({
+  template,
+  onChanged,
+  onDeleted,
+}: {
+  template: NotificationTemplateSummary
+  onChanged: () => Promise<void>
+  onDeleted: () => Promise<void>
+}) {
+  const [locale, setLocale] = useState<NotificationLocale>('en')
+  const [channel, setChannel] = useState<MessageChannel>('push')
+
+  const own = template.variants.find((v) => v.locale === locale && v.channel === channel) ?? null
+  // Without its own text, a locale/channel sends whatever the fallback picks; start editing from that
+  const fallback = resolveTemplate(template.key, template.variants, locale, channel)
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">{template.name}</h2>
+          <p className="text-xs font-mono text-gray-500">{template.key}</p>
+          {template.description && <p className="text-sm text-gray-600 mt-1">{template.description}</p>}
+          <p className="text-xs text-gray-500 mt-1">
+            {template.audience ? `Sent to: ${AUDIENCE_LABEL[template.audience] ?? template.audience}` : 'Sent by admins'}
+            {template.updatedAt && ` · Last edited ${format(new Date(template.updatedAt), 'MMM d, yyyy h:mm a')}`}
+          </p>
+        </div>
+        {!template.isSystem && (
+          <DeleteTemplateButton templateKey={template.key} name={template.name} onDeleted={onDeleted} />
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-4">
+        <Tabs
+          options={NOTIFICATION_LOCALES}
+          value={locale}
+          onChange={setLocale}
+          marked={(l) => template.variants.some((v) => v.locale === l)}
+        />
+        <Tabs
+          options={CHANNELS}
+          value={channel}
+          onChange={setChannel}
+          marked={(c) => template.variants.some((v) => v.locale === locale && v.channel === c)}
+        />
+      </div>
+
+      <VariantForm
+        key={`${locale}:${channel}:${own?.updated_at ?? 'none'}`}
+        template={template}
+        locale={locale}
+        channel={channel}
+        own={own ? { title: own.title, body: own.body } : null}
+        initial={fallback ? { title: fallback.title, body: fallback.body } : { title: '', body: '' }}
+        fallbackNote={
+          own
+            ? null
+            : !fallback
+              ? 'No text yet.'
+              : fallback.source === 'default'
+                ? 'Not edited: the built-in English text is sent.'
+                : fallback.locale !== locale
+                  ? 'No text in this language: the English text is sent.'
+                  : 'No SMS text: the push title and text are sent as "Title: text".'
+        }
+        onChanged={onChanged}
+      />
+    </div>
+  )
+}
+
+function Tabs<T extends string>({
+  options,
+  value,
+  onChange,
+  marked,
+}: {
+  options: { value: T; label: string }[]
+  value: T
+  onChange: (value: T) => void
+  marked: (value: T) => boolean
+}) {
+  return (
+    <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+      {options.map((o) => (
+        <button
+          key={o.value}
+          type="button"
+          onClick={() => onChange(o.value)}
+          className={`px-3 py-1.5 ${o.value === value ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+        >
+          {o.label}
+          {marked(o.value) && <span className="ml-1">•</span>}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+function VariantForm({
+  template,
+  locale,
+  channel,
+  own,
+  initial,
+  fallbackNote,
+  onChanged,
+}: {
+  template: NotificationTemplateSummary
+  locale: NotificationLocale
+  channel: MessageChannel
+  own: { title: string | null; body: string } | null
+  initial: { title: string | null; body: string }
+  fallbackNote: string | null
+  onChanged: () => Promise<void>
+}) {
+  const [title, setTitle] = useState(initial.title ?? '')
+  const [body, setBody] = useState(initial.body)
+  const [saving, setSaving] = useState(false)
+  const [err, setErr] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  const canReset = own !== null && !(!template.isSystem && locale === 'en' && channel === 'push')
+
+  async function handleSave(e: FormEvent) {
+    e.preventDefault()
+    setErr(null)
+    setSaved(false)
+    setSaving(true)
+    const res = await saveTemplateVariant({
+      key: template.key,
+      locale,
+      channel,
+      title: channel === 'push' ? title : null,
+      body,
+    })
+    setSaving(false)
+    if (!res.ok) {
+      setErr(res.error)
+      return
+    }
+    setSaved(true)
+    await onChanged()
+  }
+
+  async function handleReset() {
+    if (!confirm('Remove this text? The fallback text is sent instead.')) return
+    setErr(null)
+    setSaving(true)
+    const res = await resetTemplateVariant(template.key, locale, channel)
+    setSaving(false)
+    if (!res.ok) {
+      setErr(res.error)
+      return
+    }
+    await onChanged()
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <form onSubmit={(e) => void handleSave(e)} className="space-y-3">
+        {fallbackNote && (
+          <p className="rounded-lg bg-gray-50 border border-gray-200 px-3 py-2 text-xs text-gray-600">{fallbackNote}</p>
+        )}
+        {channel === 'push' && (
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Title</label>
+            <input className={inputClass} value={title} onChange={(e) => setTitle(e.target.value)} required />
+          </div>
+        )}
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">
+            {channel === 'push' ? 'Text' : 'SMS text'} (max {CHANNEL_LIMITS[channel].body} characters once filled in)
+          </label>
+          <textarea
+            className={inputClass}
+            rows={5}
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            required
+          />
+        </div>
+        <div>
+          <p className="text-xs font-medium text-gray-600 mb-1">Variables</p>
+          <div className="flex flex-wrap gap-1.5">
+            {template.variables.map((name) => (
+              <button
+                key={name}
+                type="button"
+                title={TEMPLATE_VARIABLES[name].description}
+                onClick={() => setBody((b) => `${b}{{${name}}}`)}
+                className="rounded bg-gray-100 px-2 py-0.5 text-xs font-mono text-gray-700 hover:bg-gray-200"
+              >
+                {`{{${name}}}`}
+              </button>
+            ))}
+          </div>
+        </div>
+        {err && <p className="text-sm text-red-600">{err}</p>}
+        {saved && <p className="text-sm text-green-700">Saved. New messages use this text.</p>}
+        <div className="flex gap-2">
+          <button type="submit" className={btnPrimary} disabled={saving}>
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+            Save
+          </button>
+          {canReset && (
+            <button type="button" className={btnSecondary} disabled={saving} onClick={() => void handleReset()}>
+              <RotateCcw className="h-4 w-4" />
+              {template.isSystem && locale === 'en' ? 'Reset to default' : 'Remove'}
+            </button>
+          )}
+        </div>
+      </form>
+      <TemplatePreview channel={channel} text={{ title: channel === 'push' ? title : null, body }} />
+    </div>
+  )
+}
+
+function DeleteTemplateButton({
+  templateKey,
+  name,
+  onDeleted,
+}: {
+  templateKey: string
+  name: string
+  onDeleted: () => Promise<void>
+}) {
+  const [deleting, setDeleting] = useState(false)
+
+  async function handleDelete() {
+    if (!confirm(`Delete the template "${name}" and all its texts?`)) return
+    setDeleting(true)
+    const res = await deleteCustomTemplate(templateKey)
+    setDeleting(false)
+    if (!res.ok) {
+      alert(res.error)
+      return
+    }
+    await onDeleted()
+  }
+
+  return (
+    <button type="button" className={btnSecondary} disabled={deleting} onClick={() => void handleDelete()}>
+      <Trash2 className="h-4 w-4" />
+      Delete
+    </button>
+  )
+}
+
+function CreateTemplateModal({
+  onClose,
+  onCreated,
+}: {
+  onClose: () => void
+  onCreated: (key: string) => Promise<void>
+}) {
+  const [key, setKey] = useState('')
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [title, setTitle] = useState('')
+  const [body, setBody] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [err, setErr] = useState<string | null>(null)
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault()
+    setErr(null)
+    setSaving(true)
+    const res = await createCustomTemplate({ key, name, description: description || null, title, body })
+    setSaving(false)
+    if (!res.ok) {
+      setErr(res.error)
+      return
+    }
+    await onCreated(key.trim())
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 overflow-y-auto">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full p-6 space-y-4 my-8">
+        <h3 className="text-lg font-semibold">New template</h3>
+        <form onSubmit={(e) => void handleSubmit(e)} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Name</label>
+              <input
+                className={inputClass}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Rainy day reminder"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Key</label>
+              <input
+                className={`${inputClass} font-mono`}
+                value={key}
+                onChange={(e) => setKey(e.target.value.toLowerCase().replace(/[^a-z0-9_]/g, '_'))}
+                placeholder="rainy_day_reminder"
+                required
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Description</label>
+            <input
+              className={inputClass}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Optional, for other admins"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Push title (English)</label>
+            <input className={inputClass} value={title} onChange={(e) => setTitle(e.target.value)} required />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Push text (English)</label>
+            <textarea className={inputClass} rows={4} value={body} onChange={(e) => setBody(e.target.value)} required />
+            <p className="text-xs text-gray-500 mt-1">
+              Can use {CUSTOM_TEMPLATE_VARIABLES.map((n) => `{{${n}}}`).join(' and ')}. Templates that use the
+              recipient&apos;s name can&apos;t be broadcast. Add Creolese and SMS text after creating it.
+            </p>
+          </div>
+          {err && <p className="text-sm text-red-600">{err}</p>}
+          <div className="flex gap-2 justify-end pt-2">
+            <button type="button" className={btnSecondary} onClick={onClose}>
+              Cancel
+            </button>
+            <button type="submit" className={btnPrimary} disabled={saving}>
+              {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+              Create
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,67 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { usesRecipientVariables } from '@/lib/notification-templates'
+import { listSendableTemplates, type SendableTemplate } from './actions'
+
+/**
+ * Choice between writing a message and an admin template, for the push send forms. A template is
+ * rendered per recipient by the API, so only its English text is shown here.
+ */
+export function TemplatePicker({
+  id,
+  value,
+  onChange,
+  broadcast = false,
+}: {
+  id?: string
+  value: SendableTemplate | null
+  onChange: (template: SendableTemplate | null) => void
+  /** Templates with the recipient's name can't be broadcast; they are listed but disabled. */
+  broadcast?: boolean
+}) {
+  const [templates, setTemplates] = useState<SendableTemplate[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    void listSendableTemplates().then((res) => {
+      if (res.ok) setTemplates(res.templates)
+      else setError(res.error)
+    })
+  }, [])
+
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-700 mb-1">
+        Template
+      </label>
+      <select
+        id={id}
+        value={value?.key ?? ''}
+        onChange={(e) => onChange(templates.find((t) => t.key === e.target.value) ?? null)}
+        className="w-full rounded-lg border border-gray-300 px-3 py-2 text-gray-900 shadow-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+      >
+        <option value="">None, write the message</option>
+        {templates.map((t) => {
+          const personal = usesRecipientVariables([t.title, t.body])
+          return (
+            <option key={t.key} value={t.key} disabled={broadcast && personal}>
+              {t.name}
+              {broadcast && personal ? ' (uses the name, not for broadcasts)' : ''}
+            </option>
+          )
+        })}
+      </select>
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+      {value && (
+        <div className="mt-2 rounded-lg border border-gray-200 bg-gray-50 px-3 py-2 text-sm text-gray-800">
+          <p className="font-medium">{value.title}</p>
+          <p className="whitespace-pre-wrap">{value.body}</p>
+          <p className="mt-1 text-xs text-gray-500">
+            English text shown. Each recipient gets it in their language, with their name filled in.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
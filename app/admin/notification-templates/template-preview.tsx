@@ -0,0 +1,148 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Loader2, MessageSquare, Search, Smartphone, X } from 'lucide-react'
+import {
+  CHANNEL_LIMITS,
+  NOTIFICATION_LOCALES,
+  fillTemplate,
+  recipientVariables,
+  renderResolved,
+  sampleVariables,
+  type TemplateText,
+} from '@/lib/notification-templates'
+import type { MessageChannel } from '@/types/database'
+import { searchSampleUsers, type SampleUser } from './actions'
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+/**
+ * Shows a draft as it will arrive, filled with sample values. Picking a real driver or rider fills
+ * in their name; everything else (trip, dates) stays sample data.
+ */
+export function TemplatePreview({ channel, text }: { channel: MessageChannel; text: TemplateText }) {
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<SampleUser[]>([])
+  const [searching, setSearching] = useState(false)
+  const [sampleUser, setSampleUser] = useState<SampleUser | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const q = query.trim()
+    if (q.length < 2) {
+      setResults([])
+      return
+    }
+    const timer = setTimeout(() => {
+      setSearching(true)
+      void searchSampleUsers(q).then((res) => {
+        setSearching(false)
+        if (res.ok) {
+          setResults(res.users)
+          setError(null)
+        } else {
+          setError(res.error)
+        }
+      })
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [query])
+
+  const variables = {
+    ...sampleVariables(),
+    ...(sampleUser ? recipientVariables(sampleUser) : {}),
+  }
+  const rendered = renderResolved(text, channel, variables)
+  const limits = CHANNEL_LIMITS[channel]
+  const fullBodyLength = fillTemplate(text.body, variables).length
+  const fullTitleLength = fillTemplate(text.title ?? '', variables).length
+  const cut = fullBodyLength > limits.body || (channel === 'push' && fullTitleLength > limits.title)
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-xs font-medium text-gray-600 mb-1">Preview as</label>
+        {sampleUser ? (
+          <div className="flex items-center justify-between rounded-lg border border-gray-200 px-3 py-2 text-sm">
+            <span>
+              {sampleUser.fullName} <span className="text-gray-500">· {sampleUser.role}</span>
+              <span className="block text-xs text-gray-500">
+                Receives messages in{' '}
+                {NOTIFICATION_LOCALES.find((l) => l.value === sampleUser.locale)?.label ?? sampleUser.locale}
+              </span>
+            </span>
+            <button
+              type="button"
+              onClick={() => setSampleUser(null)}
+              className="text-gray-400 hover:text-gray-600"
+              aria-label="Clear sample user"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        ) : (
+          <div className="relative">
+            <Search className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+            <input
+              className={`${inputClass} pl-9`}
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Sample data, or search a driver / rider"
+            />
+            {searching && <Loader2 className="absolute right-3 top-2.5 h-4 w-4 animate-spin text-gray-400" />}
+            {results.length > 0 && (
+              <ul className="absolute z-10 mt-1 w-full rounded-lg border border-gray-200 bg-white shadow-lg text-sm">
+                {results.map((u) => (
+                  <li key={u.id}>
+                    <button
+                      type="button"
+                      className="w-full text-left px-3 py-2 hover:bg-gray-50"
+                      onClick={() => {
+                        setSampleUser(u)
+                        setQuery('')
+                        setResults([])
+                      }}
+                    >
+                      {u.fullName} <span className="text-gray-500">· {u.role} · {u.phone}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+        {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+      </div>
+
+      {channel === 'push' ? (
+        <div className="rounded-2xl bg-gray-100 p-3">
+          <div className="rounded-xl bg-white shadow-sm p-3">
+            <p className="flex items-center gap-1.5 text-xs text-gray-500">
+              <Smartphone className="h-3.5 w-3.5" />
+              Links · now
+            </p>
+            <p className="mt-1 text-sm font-semibold text-gray-900">{rendered.title || 'Title'}</p>
+            <p className="text-sm text-gray-700 whitespace-pre-wrap">{rendered.body || 'Message'}</p>
+          </div>
+        </div>
+      ) : (
+        <div className="rounded-2xl bg-gray-100 p-3">
+          <p className="flex items-center gap-1.5 text-xs text-gray-500 mb-1">
+            <MessageSquare className="h-3.5 w-3.5" />
+            SMS
+          </p>
+          <p className="inline-block max-w-full rounded-2xl rounded-bl-sm bg-white px-3 py-2 text-sm text-gray-900 shadow-sm whitespace-pre-wrap">
+            {rendered.body || 'Message'}
+          </p>
+        </div>
+      )}
+
+      <p className={`text-xs ${cut ? 'text-amber-700' : 'text-gray-500'}`}>
+        {channel === 'push' && `Title ${fullTitleLength}/${limits.title} · `}
+        Text {fullBodyLength}/{limits.body} characters
+        {cut && ' — longer than the limit, so it is cut off as shown'}
+      </p>
+    </div>
+  )
+}
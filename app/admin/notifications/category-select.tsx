@@ -0,0 +1,47 @@
+'use client'
+
+import { NOTIFICATION_CATEGORIES } from '@/lib/notification-preferences'
+import type { NotificationCategory } from '@/types/database'
+
+/**
+ * Category of an admin push. Recipients who turned it off, or are in their quiet hours, are skipped;
+ * safety goes to everyone.
+ */
+export function CategorySelect({
+  id,
+  value,
+  onChange,
+}: {
+  id?: string
+  value: NotificationCategory
+  onChange: (category: NotificationCategory) => void
+}) {
+  const selected = NOTIFICATION_CATEGORIES.find((c) => c.value === value)
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-700 mb-1">
+        Category
+      </label>
+      <select
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value as NotificationCategory)}
+        className="w-full rounded-lg border border-gray-300 px-3 py-2 text-gray-900 shadow-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+      >
+        {NOTIFICATION_CATEGORIES.map((c) => (
+          <option key={c.value} value={c.value}>
+            {c.label}
+          </option>
+        ))}
+      </select>
+      {selected && (
+        <p className="mt-1 text-xs text-gray-500">
+          {selected.description}{' '}
+          {selected.exempt
+            ? 'Sent to everyone, including during quiet hours.'
+            : 'Skips users who turned this off or are in their quiet hours.'}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -4,6 +4,10 @@ import { useState } from 'react'
 import { createClient } from '@/lib/supabase/client'
 import { Megaphone, Loader2, CheckCircle2, AlertCircle } from 'lucide-react'
 import Link from 'next/link'
+import { TemplatePicker } from '../notification-templates/template-picker'
+import type { SendableTemplate } from '../notification-templates/actions'
+import { CategorySelect } from './category-select'
+import type { NotificationCategory } from '@/types/database'
 
 type Audience = 'driver' | 'rider'
 
@@ -14,6 +18,7 @@ type BroadcastSuccess = {
   successCount: number
   failureCount: number
   invalidTokensRemoved: number
+  suppressedCount?: number
 }
 
 type BroadcastErrorBody = {
@@ -46,6 +51,8 @@ export default function AdminNotificationsPage() {
   const [audience, setAudience] = useState<Audience>('driver')
   const [title, setTitle] = useState('')
   const [body, setBody] = useState('')
+  const [template, setTemplate] = useState<SendableTemplate | null>(null)
+  const [category, setCategory] = useState<NotificationCategory>('marketing')
   const [notificationType, setNotificationType] = useState('')
   const [dataJson, setDataJson] = useState('')
   const [submitting, setSubmitting] = useState(false)
@@ -86,11 +93,9 @@ export default function AdminNotificationsPage() {
         return
       }
 
-      const payload: Record<string, unknown> = {
-        audience,
-        title: title.trim(),
-        body: body.trim(),
-      }
+      const payload: Record<string, unknown> = template
+        ? { audience, category, template_key: template.key }
+        : { audience, category, title: title.trim(), body: body.trim() }
       if (notificationType.trim()) {
         payload.notification_type = notificationType.trim()
       }
@@ -175,45 +180,53 @@ export default function AdminNotificationsPage() {
           </div>
         </div>
 
-        <div>
-          <label
-            htmlFor="push-title"
-            className="block text-sm font-medium text-gray-700 mb-1"
-          >
-            Title <span className="text-red-500">*</span>
-          </label>
-          <input
-            id="push-title"
-            type="text"
-            required
-            maxLength={100}
-            value={title}
-            onChange={(e) => setTitle(e.target.value)}
-            className="w-full rounded-lg border border-gray-300 px-3 py-2 text-gray-900 shadow-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
-            placeholder="e.g. Service update"
-          />
-          <p className="mt-1 text-xs text-gray-500">{title.length}/100</p>
-        </div>
+        <CategorySelect id="push-category" value={category} onChange={setCategory} />
 
-        <div>
-          <label
-            htmlFor="push-body"
-            className="block text-sm font-medium text-gray-700 mb-1"
-          >
-            Message <span className="text-red-500">*</span>
-          </label>
-          <textarea
-            id="push-body"
-            required
-            maxLength={500}
-            rows={4}
-            value={body}
-            onChange={(e) => setBody(e.target.value)}
-            className="w-full rounded-lg border border-gray-300 px-3 py-2 text-gray-900 shadow-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
-            placeholder="Notification body shown on the device"
-          />
-          <p className="mt-1 text-xs text-gray-500">{body.length}/500</p>
-        </div>
+        <TemplatePicker id="push-template" value={template} onChange={setTemplate} broadcast />
+
+        {!template && (
+          <>
+            <div>
+              <label
+                htmlFor="push-title"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Title <span className="text-red-500">*</span>
+              </label>
+              <input
+                id="push-title"
+                type="text"
+                required
+                maxLength={100}
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-gray-900 shadow-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+                placeholder="e.g. Service update"
+              />
+              <p className="mt-1 text-xs text-gray-500">{title.length}/100</p>
+            </div>
+
+            <div>
+              <label
+                htmlFor="push-body"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Message <span className="text-red-500">*</span>
+              </label>
+              <textarea
+                id="push-body"
+                required
+                maxLength={500}
+                rows={4}
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-gray-900 shadow-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+                placeholder="Notification body shown on the device"
+              />
+              <p className="mt-1 text-xs text-gray-500">{body.length}/500</p>
+            </div>
+          </>
+        )}
 
         <div>
           <label
@@ -275,6 +288,9 @@ export default function AdminNotificationsPage() {
                 <li>Delivered (FCM success): {result.successCount}</li>
                 <li>Failed: {result.failureCount}</li>
                 <li>Invalid tokens cleared: {result.invalidTokensRemoved}</li>
+                {result.suppressedCount ? (
+                  <li>Skipped (turned off or quiet hours): {result.suppressedCount}</li>
+                ) : null}
               </ul>
             </div>
           </div>
@@ -0,0 +1,122 @@
+'use server'
+
+import { createServerActionClient } from '@supabase/auth-helpers-nextjs'
+import { createClient } from '@supabase/supabase-js'
+import { cookies } from 'next/headers'
+import { logger } from '@/lib/logger'
+import type { Database } from '@/types/database'
+import { issuePaymentReceipt, receiptDownloadUrl, receiptFilename } from '@/lib/payment-receipts'
+import { reconcilePayments, type ReconciliationRun } from '@/lib/payments/reconcile'
+
+function createServiceClient() {
+  return createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+}
+
+async function requireAdmin(): Promise<
+  | { ok: true; db: ReturnType<typeof createServiceClient>; adminUserId: string }
+  | { ok: false; error: string }
+> {
+  const authClient = createServerActionClient({ cookies })
+  const {
+    data: { user: authUser },
+    error: authError,
+  } = await authClient.auth.getUser()
+
+  if (authError || !authUser) {
+    return { ok: false, error: 'Not authenticated' }
+  }
+
+  const db = createServiceClient()
+  const { data: userRow, error: userError } = await db
+    .from('users')
+    .select('id, role')
+    .eq('auth_id', authUser.id)
+    .single()
+
+  if (userError || !userRow || userRow.role !== 'admin') {
+    return { ok: false, error: 'Only administrators can manage payments.' }
+  }
+
+  return { ok: true, db, adminUserId: userRow.id }
+}
+
+export type ListReconciliationRunsResult =
+  | { ok: true; rows: ReconciliationRun[] }
+  | { ok: false; error: string }
+
+export async function listReconciliationRuns(limit = 20): Promise<ListReconciliationRunsResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const { data, error } = await gate.db
+    .from('payment_reconciliation_runs')
+    .select('*')
+    .order('started_at', { ascending: false })
+    .limit(Math.min(Math.max(limit, 1), 100))
+
+  if (error) {
+    logger.error('listReconciliationRuns failed', { error })
+    return { ok: false, error: 'Failed to load reconciliation runs.' }
+  }
+  return { ok: true, rows: data ?? [] }
+}
+
+export type RunPaymentReconciliationResult =
+  | { ok: true; run: ReconciliationRun }
+  | { ok: false; error: string }
+
+/** Same pass as the scheduled job, started from the payments page. */
+export async function runPaymentReconciliation(input: {
+  olderThanMinutes: number
+}): Promise<RunPaymentReconciliationResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  if (!Number.isInteger(input.olderThanMinutes) || input.olderThanMinutes < 5) {
+    return { ok: false, error: 'Only transactions at least 5 minutes old can be reconciled.' }
+  }
+
+  try {
+    const run = await reconcilePayments(gate.db, {
+      trigger: 'manual',
+      triggeredBy: gate.adminUserId,
+      olderThanMinutes: input.olderThanMinutes,
+    })
+    return { ok: true, run }
+  } catch (error) {
+    logger.error('runPaymentReconciliation failed', { error })
+    return { ok: false, error: 'Reconciliation failed. Check the server logs.' }
+  }
+}
+
+const RECEIPT_SIGNED_URL_SECS = 60 * 10
+
+export type PaymentReceiptDownloadResult =
+  | { ok: true; url: string; filename: string; receiptNumber: string }
+  | { ok: false; error: string }
+
+/** Receipt PDF for a completed payment, issued now if the payment predates receipts. */
+export async function getPaymentReceiptDownloadUrl(paymentId: string): Promise<PaymentReceiptDownloadResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  try {
+    const receipt = await issuePaymentReceipt(gate.db, paymentId)
+    if (!receipt) {
+      return { ok: false, error: 'Receipts are only available for completed payments.' }
+    }
+    return {
+      ok: true,
+      url: await receiptDownloadUrl(gate.db, receipt, RECEIPT_SIGNED_URL_SECS),
+      filename: receiptFilename(receipt),
+      receiptNumber: receipt.receipt_number,
+    }
+  } catch (error) {
+    logger.error('getPaymentReceiptDownloadUrl failed', { error, paymentId })
+    return { ok: false, error: 'Could not create the receipt.' }
+  }
+}
@@ -0,0 +1,171 @@
+'use server'
+
+import { createServerActionClient } from '@supabase/auth-helpers-nextjs'
+import { createClient } from '@supabase/supabase-js'
+import { cookies } from 'next/headers'
+import { postLedgerAdjustment } from '@/lib/ledger'
+import { logger } from '@/lib/logger'
+import type { Database, Json, SubscriptionAudience, SubscriptionStatus } from '@/types/database'
+import {
+  MANUAL_ACTION_LABEL,
+  MANUAL_REASON_LABEL,
+  manualChangeWindow,
+  validateManualChange,
+  type ManualChangeInput,
+} from './manual-subscriptions'
+
+function createServiceClient() {
+  return createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+}
+
+async function requireAdmin() {
+  const authClient = createServerActionClient({ cookies })
+  const {
+    data: { user: authUser },
+    error: authError,
+  } = await authClient.auth.getUser()
+
+  if (authError || !authUser) {
+    return { ok: false as const, error: 'Not authenticated' }
+  }
+
+  const db = createServiceClient()
+  const { data: userRow, error: userError } = await db
+    .from('users')
+    .select('id, role')
+    .eq('auth_id', authUser.id)
+    .single()
+
+  if (userError || !userRow || userRow.role !== 'admin') {
+    return { ok: false as const, error: 'Only administrators can change subscriptions.' }
+  }
+
+  return { ok: true as const, db, adminUserId: userRow.id, adminAuthId: authUser.id }
+}
+
+export type ManualSubscriptionChangeResult =
+  | { ok: true; subscriptionId: string; status: SubscriptionStatus; endDate: string }
+  | { ok: false; error: string }
+
+/**
+ * Grants, extends or revokes subscription time for a driver or rider. The subscriptions row and
+ * the profile update are one insert (see the migration's trigger); `expectedEndDate` is the profile
+ * end date the admin was looking at, so a change made meanwhile is refused rather than overwritten.
+ */
+export async function applyManualSubscriptionChange(
+  target: { userId: string; role: SubscriptionAudience; expectedEndDate: string | null },
+  input: ManualChangeInput & { reference?: string }
+): Promise<ManualSubscriptionChangeResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+  if (target.role !== 'driver' && target.role !== 'rider') return { ok: false, error: 'Unknown role.' }
+
+  const profileTable = target.role === 'driver' ? 'driver_profiles' : 'rider_profiles'
+  const { data: profile, error: profileError } = await gate.db
+    .from(profileTable)
+    .select('subscription_status, subscription_end_date')
+    .eq('user_id', target.userId)
+    .maybeSingle()
+  if (profileError) {
+    logger.error('applyManualSubscriptionChange profile lookup failed', { error: profileError, userId: target.userId })
+    return { ok: false, error: 'Failed to load the subscription.' }
+  }
+  if (!profile) return { ok: false, error: `No ${target.role} profile for this user.` }
+
+  const currentEnd = profile.subscription_end_date
+  const sameEnd =
+    currentEnd === target.expectedEndDate ||
+    (!!currentEnd && !!target.expectedEndDate && new Date(currentEnd).getTime() === new Date(target.expectedEndDate).getTime())
+  if (!sameEnd) {
+    return { ok: false, error: 'The subscription changed while you were editing. Reload and try again.' }
+  }
+
+  const now = new Date()
+  const note = input.note.trim()
+  const validationError = validateManualChange({ ...input, note }, currentEnd, now)
+  if (validationError) return { ok: false, error: validationError }
+
+  const { startDate, endDate } = manualChangeWindow(input, currentEnd, now)
+  const { data: subscription, error: insertError } = await gate.db
+    .from('subscriptions')
+    .insert({
+      user_id: target.userId,
+      user_role: target.role,
+      plan_type: 'manual',
+      amount: input.amount,
+      currency: 'GYD',
+      start_date: startDate.toISOString(),
+      end_date: endDate.toISOString(),
+      status: input.action === 'revoke' ? 'cancelled' : 'active',
+      payment_method: 'manual',
+      payment_reference: input.reference?.trim() || null,
+      payment_date: input.amount > 0 ? now.toISOString() : null,
+      manual_action: input.action,
+      reason_code: input.reasonCode,
+      reason_note: note || null,
+      granted_by: gate.adminUserId,
+      previous_end_date: currentEnd,
+    })
+    .select('*')
+    .single()
+
+  if (insertError?.code === 'P0001' && insertError.hint === 'subscription_changed') {
+    return { ok: false, error: 'The subscription changed while you were editing. Reload and try again.' }
+  }
+  if (insertError || !subscription) {
+    logger.error('applyManualSubscriptionChange insert failed', { error: insertError, userId: target.userId })
+    return { ok: false, error: 'Failed to change the subscription.' }
+  }
+
+  const { data: after } = await gate.db
+    .from(profileTable)
+    .select('subscription_status, subscription_end_date')
+    .eq('user_id', target.userId)
+    .maybeSingle()
+
+  // The service client bypasses the audit trigger's auth.uid(); record the acting admin here.
+  const { error: auditError } = await gate.db.from('audit_logs').insert({
+    table_name: 'subscriptions',
+    record_id: subscription.id,
+    action: 'INSERT',
+    old_data: { profile } as unknown as Json,
+    new_data: { ...subscription, profile: after ?? null } as unknown as Json,
+    changed_at: now.toISOString(),
+    actor_id: gate.adminAuthId,
+  })
+  if (auditError) logger.error('Manual subscription audit failed', { error: auditError, subscriptionId: subscription.id })
+
+  if (input.amount > 0) {
+    try {
+      await postLedgerAdjustment(gate.db, {
+        amount: input.amount,
+        currency: subscription.currency,
+        memo: [
+          `${MANUAL_ACTION_LABEL[input.action]} subscription: ${MANUAL_REASON_LABEL[input.reasonCode]}`,
+          subscription.payment_reference ? `ref ${subscription.payment_reference}` : null,
+          note || null,
+        ]
+          .filter(Boolean)
+          .join(' · '),
+        occurredAt: now.toISOString(),
+        userRole: target.role,
+        planCode: subscription.plan_type,
+        userId: target.userId,
+        createdBy: gate.adminUserId,
+      })
+    } catch (error) {
+      logger.error('Posting manual subscription payment to the ledger failed', { error, subscriptionId: subscription.id })
+    }
+  }
+
+  return {
+    ok: true,
+    subscriptionId: subscription.id,
+    status: after?.subscription_status ?? profile.subscription_status,
+    endDate: after?.subscription_end_date ?? endDate.toISOString(),
+  }
+}
@@ -0,0 +1,223 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import type { ManualSubscriptionAction, ManualSubscriptionReason, SubscriptionAudience, SubscriptionStatus } from '@/types/database'
+import { applyManualSubscriptionChange } from './manual-subscription-actions'
+import {
+  MANUAL_ACTION_LABEL,
+  MANUAL_REASONS_BY_ACTION,
+  MANUAL_REASON_LABEL,
+  MAX_MANUAL_DAYS,
+  hasCurrentAccess,
+  manualChangeWindow,
+} from './manual-subscriptions'
+
+const inputClass =
+  'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500'
+
+/** Grant, extend or revoke subscription time from a driver or rider detail page. */
+export function ManualSubscriptionModal({
+  userId,
+  role,
+  status,
+  endDate,
+  onClose,
+  onSuccess,
+}: {
+  userId: string
+  role: SubscriptionAudience
+  status: SubscriptionStatus
+  endDate: string | null
+  onClose: () => void
+  onSuccess: () => void
+}) {
+  const active = hasCurrentAccess(endDate, new Date())
+  const [action, setAction] = useState<ManualSubscriptionAction>(active ? 'extend' : 'grant')
+  const [days, setDays] = useState('3')
+  const [revokeAll, setRevokeAll] = useState(false)
+  const [reasonCode, setReasonCode] = useState<ManualSubscriptionReason>(MANUAL_REASONS_BY_ACTION[action][0])
+  const [note, setNote] = useState('')
+  const [amount, setAmount] = useState('')
+  const [reference, setReference] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const isCash = reasonCode === 'cash_payment'
+  const parsedDays = action === 'revoke' && revokeAll ? null : Number(days)
+  const preview =
+    parsedDays === null || (Number.isInteger(parsedDays) && parsedDays > 0)
+      ? manualChangeWindow({ action, days: parsedDays }, endDate, new Date()).endDate
+      : null
+
+  const chooseAction = (next: ManualSubscriptionAction) => {
+    setAction(next)
+    if (!MANUAL_REASONS_BY_ACTION[next].includes(reasonCode)) setReasonCode(MANUAL_REASONS_BY_ACTION[next][0])
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setIsSubmitting(true)
+    const result = await applyManualSubscriptionChange(
+      { userId, role, expectedEndDate: endDate },
+      {
+        action,
+        days: parsedDays,
+        reasonCode,
+        note,
+        amount: isCash ? Number(amount) : 0,
+        reference: isCash ? reference : undefined,
+      }
+    )
+    setIsSubmitting(false)
+    if (!result.ok) {
+      setError(result.error)
+      return
+    }
+    onSuccess()
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6">
+        <h2 className="text-xl font-bold text-gray-900 mb-1">Change Subscription</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Currently <span className="font-medium">{status}</span>
+          {endDate ? `, ends ${format(new Date(endDate), 'MMM dd, yyyy HH:mm')}` : ''}. Every change is recorded
+          as a manual subscription with its reason.
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-3 gap-2">
+            {(['grant', 'extend', 'revoke'] as const).map((a) => {
+              const allowed = a === 'grant' ? !active : active
+              return (
+                <button
+                  key={a}
+                  type="button"
+                  disabled={!allowed}
+                  onClick={() => chooseAction(a)}
+                  className={`px-3 py-2 rounded-lg border text-sm font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                    action === a
+                      ? 'bg-indigo-600 border-indigo-600 text-white'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {MANUAL_ACTION_LABEL[a]}
+                </button>
+              )
+            })}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {action === 'revoke' ? 'Days to take off' : 'Days to add'}
+            </label>
+            <input
+              type="number"
+              min={1}
+              max={MAX_MANUAL_DAYS}
+              step={1}
+              value={days}
+              onChange={(e) => setDays(e.target.value)}
+              disabled={action === 'revoke' && revokeAll}
+              className={`${inputClass} disabled:bg-gray-100`}
+              required={!(action === 'revoke' && revokeAll)}
+            />
+            {action === 'revoke' && (
+              <label className="mt-2 flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={revokeAll} onChange={(e) => setRevokeAll(e.target.checked)} />
+                Revoke all remaining time now
+              </label>
+            )}
+            {preview && (
+              <p className="mt-1 text-xs text-gray-500">
+                New end: {format(preview, 'MMM dd, yyyy HH:mm')}
+                {action === 'revoke' && preview.getTime() <= Date.now() ? ' (subscription is cancelled)' : ''}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Reason</label>
+            <select
+              value={reasonCode}
+              onChange={(e) => setReasonCode(e.target.value as ManualSubscriptionReason)}
+              className={inputClass}
+              required
+            >
+              {MANUAL_REASONS_BY_ACTION[action].map((r) => (
+                <option key={r} value={r}>
+                  {MANUAL_REASON_LABEL[r]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {isCash && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Amount received (GYD)</label>
+                <input
+                  inputMode="decimal"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Receipt / reference</label>
+                <input
+                  value={reference}
+                  onChange={(e) => setReference(e.target.value)}
+                  className={inputClass}
+                  placeholder="Optional"
+                />
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Note{reasonCode === 'other' ? '' : ' (optional)'}
+            </label>
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={3}
+              className={inputClass}
+              placeholder="e.g. ticket number, outage date"
+              required={reasonCode === 'other'}
+            />
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+              disabled={isSubmitting}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="flex-1 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? 'Saving...' : `${MANUAL_ACTION_LABEL[action]} Subscription`}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+import type { ManualSubscriptionAction, ManualSubscriptionReason } from '@/types/database'
+
+export const MANUAL_ACTION_LABEL: Record<ManualSubscriptionAction, string> = {
+  grant: 'Grant',
+  extend: 'Extend',
+  revoke: 'Revoke',
+}
+
+export const MANUAL_REASON_LABEL: Record<ManualSubscriptionReason, string> = {
+  outage_compensation: 'Outage compensation',
+  cash_payment: 'Cash payment',
+  goodwill: 'Goodwill',
+  billing_correction: 'Billing correction',
+  granted_in_error: 'Granted in error',
+  policy_violation: 'Policy violation',
+  other: 'Other',
+}
+
+/** Reason codes that make sense for each action; 'other' always needs a note. */
+export const MANUAL_REASONS_BY_ACTION: Record<ManualSubscriptionAction, ManualSubscriptionReason[]> = {
+  grant: ['outage_compensation', 'cash_payment', 'goodwill', 'billing_correction', 'other'],
+  extend: ['outage_compensation', 'cash_payment', 'goodwill', 'billing_correction', 'other'],
+  revoke: ['granted_in_error', 'billing_correction', 'policy_violation', 'other'],
+}
+
+export const MAX_MANUAL_DAYS = 366
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type ManualChangeInput = {
+  action: ManualSubscriptionAction
+  /** Days to add (grant/extend) or take off (revoke); null on revoke takes all remaining time. */
+  days: number | null
+  reasonCode: ManualSubscriptionReason
+  note: string
+  /** Cash received, only with the 'cash_payment' reason. */
+  amount: number
+}
+
+/** True when the profile has access right now (grant is for users without it, extend/revoke for users with it). */
+export function hasCurrentAccess(endDate: string | null, now: Date): boolean {
+  return !!endDate && new Date(endDate).getTime() > now.getTime()
+}
+
+/** Server-side checks for a manual change; returns an error message or null. */
+export function validateManualChange(input: ManualChangeInput, currentEnd: string | null, now: Date): string | null {
+  if (!MANUAL_REASONS_BY_ACTION[input.action]?.includes(input.reasonCode)) return 'Choose a reason for this change.'
+  if (input.reasonCode === 'other' && !input.note.trim()) return 'Explain the change in the note.'
+  if (input.days !== null || input.action !== 'revoke') {
+    if (input.days === null || !Number.isInteger(input.days) || input.days < 1 || input.days > MAX_MANUAL_DAYS) {
+      return `Days must be a whole number from 1 to ${MAX_MANUAL_DAYS}.`
+    }
+  }
+  if (input.reasonCode === 'cash_payment') {
+    if (!Number.isFinite(input.amount) || input.amount <= 0) return 'Enter the cash amount received.'
+    if (Math.round(input.amount * 100) / 100 !== input.amount) return 'Amount can have at most 2 decimal places.'
+  } else if (input.amount !== 0) {
+    return 'An amount is only recorded for cash payments.'
+  }
+
+  const active = hasCurrentAccess(currentEnd, now)
+  if (input.action === 'grant' && active) return 'The subscription is still running; extend it instead.'
+  if (input.action !== 'grant' && !active) return `There is no running subscription to ${input.action}; grant time instead.`
+  return null
+}
+
+/**
+ * The subscriptions row window for a validated change. Grant runs from now, extend from the current
+ * end. Revoke is a zero-length window at the new end: `days` earlier than the current end, but never
+ * before now.
+ */
+export function manualChangeWindow(
+  input: Pick<ManualChangeInput, 'action' | 'days'>,
+  currentEnd: string | null,
+  now: Date
+): { startDate: Date; endDate: Date } {
+  const end = currentEnd ? new Date(currentEnd) : now
+  if (input.action === 'revoke') {
+    const cut = input.days === null ? now : new Date(Math.max(now.getTime(), end.getTime() - input.days * DAY_MS))
+    return { startDate: cut, endDate: cut }
+  }
+  const start = input.action === 'extend' ? end : now
+  return { startDate: start, endDate: new Date(start.getTime() + (input.days ?? 0) * DAY_MS) }
+}
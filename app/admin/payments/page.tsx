@@ -6,10 +6,13 @@ import { createClient } from '@/lib/supabase/client'
 import {
   Search, CreditCard, DollarSign, Clock, User, Calendar,
   CheckCircle, XCircle, AlertCircle, ExternalLink,
-  LayoutGrid, LayoutList, X,
+  LayoutGrid, LayoutList, X, FileDown, Loader2,
 } from 'lucide-react'
 import { format } from 'date-fns'
 import type { Database } from '@/types/database'
+import { getPaymentReceiptDownloadUrl } from './actions'
+import { ReconciliationSection } from './reconciliation-section'
+import { RefundsSection, TransactionRefundsPanel } from './refunds-section'
 
 type Subscription = Database['public']['Tables']['subscriptions']['Row'] & {
   user: Database['public']['Tables']['users']['Row']
@@ -56,6 +59,17 @@ async function fetchSubscriptions(filters: {
   return results
 }
 
+async function fetchSubscriptionPlanCodes() {
+  const supabase = createClient()
+  const { data, error } = await supabase
+    .from('subscription_plans')
+    .select('code, label')
+    .order('audience')
+    .order('sort_order')
+  if (error) throw error
+  return data ?? []
+}
+
 async function fetchPaymentTransactions(filters: {
   status: string
   paymentMethod: string
@@ -263,6 +277,38 @@ function SubscriptionDialog({ subscription, onClose }: { subscription: Subscript
 
 // ── Transaction detail dialog ────────────────────────────────────────────────
 
+function ReceiptDownload({ paymentId }: { paymentId: string }) {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function handleDownload() {
+    setLoading(true)
+    setError(null)
+    const res = await getPaymentReceiptDownloadUrl(paymentId)
+    setLoading(false)
+    if (!res.ok) {
+      setError(res.error)
+      return
+    }
+    window.open(res.url, '_blank', 'noopener,noreferrer')
+  }
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => void handleDownload()}
+        disabled={loading}
+        className="inline-flex items-center gap-2 px-3 py-1.5 border border-gray-300 text-sm rounded-lg hover:bg-gray-50 disabled:opacity-50"
+      >
+        {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileDown className="h-4 w-4" />}
+        Download receipt
+      </button>
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  )
+}
+
 function TransactionDialog({ transaction, onClose }: { transaction: PaymentTransaction; onClose: () => void }) {
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
@@ -342,6 +388,10 @@ function TransactionDialog({ transaction, onClose }: { transaction: PaymentTrans
             </div>
           </div>
 
+          {(transaction.status === 'completed' || transaction.status === 'refunded') && (
+            <ReceiptDownload paymentId={transaction.id} />
+          )}
+
           <hr className="border-gray-100" />
 
           {/* Timeline */}
@@ -376,6 +426,9 @@ function TransactionDialog({ transaction, onClose }: { transaction: PaymentTrans
             </>
           )}
 
+          <hr className="border-gray-100" />
+          <TransactionRefundsPanel payment={transaction} />
+
           <div>
             <p className="text-xs font-medium text-gray-400 uppercase tracking-wider mb-1">Transaction ID</p>
             <p className="text-xs text-gray-500 font-mono break-all">{transaction.id}</p>
@@ -389,7 +442,7 @@ function TransactionDialog({ transaction, onClose }: { transaction: PaymentTrans
 // ── Main page ────────────────────────────────────────────────────────────────
 
 export default function PaymentsPage() {
-  const [activeTab, setActiveTab] = useState<'subscriptions' | 'transactions'>('subscriptions')
+  const [activeTab, setActiveTab] = useState<'subscriptions' | 'transactions' | 'refunds' | 'reconciliation'>('subscriptions')
   const [subscriptionView, setSubscriptionView] = useState<'table' | 'card'>('table')
   const [transactionView, setTransactionView] = useState<'table' | 'card'>('table')
   const [selectedSubscription, setSelectedSubscription] = useState<Subscription | null>(null)
@@ -415,6 +468,11 @@ export default function PaymentsPage() {
     queryFn: () => fetchSubscriptions({ status: subscriptionStatus, userRole, planType, searchQuery: subscriptionSearch, dateFrom: subscriptionDateFrom, dateTo: subscriptionDateTo }),
   })
 
+  const { data: planOptions } = useQuery({
+    queryKey: ['subscription-plan-codes'],
+    queryFn: fetchSubscriptionPlanCodes,
+  })
+
   const { data: transactions, isLoading: transactionsLoading } = useQuery({
     queryKey: ['payment-transactions', transactionStatus, paymentMethod, transactionSearch, transactionDateFrom, transactionDateTo],
     queryFn: () => fetchPaymentTransactions({ status: transactionStatus, paymentMethod, searchQuery: transactionSearch, dateFrom: transactionDateFrom, dateTo: transactionDateTo }),
@@ -452,7 +510,7 @@ export default function PaymentsPage() {
       {/* Tabs */}
       <div className="border-b border-gray-200">
         <nav className="-mb-px flex space-x-8">
-          {(['subscriptions', 'transactions'] as const).map(tab => (
+          {(['subscriptions', 'transactions', 'refunds', 'reconciliation'] as const).map(tab => (
             <button
               key={tab}
               onClick={() => setActiveTab(tab)}
@@ -462,7 +520,7 @@ export default function PaymentsPage() {
                   : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
               }`}
             >
-              {tab === 'subscriptions' ? 'Subscriptions' : 'Payment Transactions'}
+              {tab === 'subscriptions' ? 'Subscriptions' : tab === 'transactions' ? 'Payment Transactions' : tab === 'refunds' ? 'Refunds' : 'Reconciliation'}
               {tab === 'subscriptions' && subscriptions && subscriptions.length > 0 && (
                 <span className="ml-2 bg-gray-100 text-gray-600 py-0.5 px-2 rounded-full text-xs">{subscriptions.length}</span>
               )}
@@ -538,9 +596,10 @@ export default function PaymentsPage() {
             <div className="mt-4 flex flex-wrap gap-4 items-center">
               <select value={planType} onChange={e => setPlanType(e.target.value)} className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500">
                 <option value="all">All Plan Types</option>
-                <option value="monthly">Monthly</option>
-                <option value="biannual">Biannual</option>
-                <option value="annual">Annual</option>
+                {planOptions?.map(p => (
+                  <option key={p.code} value={p.code}>{p.label}</option>
+                ))}
+                <option value="monthly">Monthly (before plan catalog)</option>
               </select>
               <div className="flex items-center gap-2">
                 <Calendar className="h-4 w-4 text-gray-400" />
@@ -933,6 +992,12 @@ export default function PaymentsPage() {
           </div>
         </>
       )}
+
+      {/* ── Refunds Tab ── */}
+      {activeTab === 'refunds' && <RefundsSection />}
+
+      {/* ── Reconciliation Tab ── */}
+      {activeTab === 'reconciliation' && <ReconciliationSection />}
     </div>
   )
 }
@@ -0,0 +1,207 @@
+'use client'
+
+import { Fragment, useCallback, useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { ChevronDown, ChevronRight, Loader2, RefreshCw } from 'lucide-react'
+import type { ReconciliationOutcome, ReconciliationResult, ReconciliationRun } from '@/lib/payments/reconcile'
+import { listReconciliationRuns, runPaymentReconciliation } from './actions'
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+const btnPrimary =
+  'inline-flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50'
+
+const OUTCOME_LABEL: Record<ReconciliationOutcome, { label: string; className: string }> = {
+  completed: { label: 'Completed', className: 'bg-green-100 text-green-800' },
+  failed: { label: 'Failed at MMG', className: 'bg-red-100 text-red-800' },
+  abandoned: { label: 'Abandoned', className: 'bg-gray-200 text-gray-700' },
+  still_pending: { label: 'Still pending', className: 'bg-yellow-100 text-yellow-800' },
+  no_mmg_transaction: { label: 'Not paid yet', className: 'bg-yellow-100 text-yellow-800' },
+  amount_mismatch: { label: 'Amount mismatch', className: 'bg-orange-100 text-orange-800' },
+  skipped: { label: 'Skipped', className: 'bg-gray-100 text-gray-700' },
+  error: { label: 'Error', className: 'bg-red-100 text-red-800' },
+}
+
+function runResults(run: ReconciliationRun): ReconciliationResult[] {
+  return Array.isArray(run.results) ? (run.results as unknown as ReconciliationResult[]) : []
+}
+
+/** Reconciliation runs (scheduled and manual) with what each did to every stuck MMG transaction. */
+export function ReconciliationSection() {
+  const [runs, setRuns] = useState<ReconciliationRun[]>([])
+  const [loading, setLoading] = useState(true)
+  const [running, setRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [olderThanMinutes, setOlderThanMinutes] = useState('30')
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    const res = await listReconciliationRuns()
+    if (!res.ok) {
+      setError(res.error)
+    } else {
+      setRuns(res.rows)
+    }
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  async function handleRun() {
+    setRunning(true)
+    setError(null)
+    const res = await runPaymentReconciliation({ olderThanMinutes: Number(olderThanMinutes) })
+    setRunning(false)
+    if (!res.ok) {
+      setError(res.error)
+      return
+    }
+    setExpanded(res.run.id)
+    await load()
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-lg shadow p-4 flex flex-wrap items-end justify-between gap-4">
+        <p className="text-sm text-gray-600 max-w-2xl">
+          MMG checkouts still pending or processing after the threshold are looked up at MMG and settled:
+          successful payments get their subscription, failed ones are marked failed, and checkouts MMG never
+          reported are failed after 24 hours. The scheduled job runs the same pass.
+        </p>
+        <div className="flex items-end gap-2">
+          <div className="w-36">
+            <label className="block text-xs font-medium text-gray-600 mb-1">Older than (min)</label>
+            <input
+              type="number"
+              min={5}
+              className={inputClass}
+              value={olderThanMinutes}
+              onChange={(e) => setOlderThanMinutes(e.target.value)}
+            />
+          </div>
+          <button type="button" className={btnPrimary} onClick={() => void handleRun()} disabled={running}>
+            {running ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+            Run now
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-red-50 border border-red-200 text-red-800 px-4 py-3 text-sm">{error}</div>
+      )}
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Started</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Trigger</th>
+              <th className="px-4 py-3 text-right font-medium text-gray-700">Checked</th>
+              <th className="px-4 py-3 text-right font-medium text-gray-700">Completed</th>
+              <th className="px-4 py-3 text-right font-medium text-gray-700">Failed</th>
+              <th className="px-4 py-3 text-right font-medium text-gray-700">Unchanged</th>
+              <th className="px-4 py-3 text-right font-medium text-gray-700">Errors</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {loading ? (
+              <tr>
+                <td colSpan={7} className="px-4 py-8 text-center text-gray-500">
+                  <Loader2 className="h-5 w-5 animate-spin inline" />
+                </td>
+              </tr>
+            ) : runs.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-4 py-8 text-center text-gray-500">
+                  No reconciliation runs yet.
+                </td>
+              </tr>
+            ) : (
+              runs.map((run) => {
+                const open = expanded === run.id
+                return (
+                  <Fragment key={run.id}>
+                    <tr
+                      className="hover:bg-gray-50 cursor-pointer"
+                      onClick={() => setExpanded(open ? null : run.id)}
+                    >
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <span className="inline-flex items-center gap-1">
+                          {open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          {format(new Date(run.started_at), 'MMM d, yyyy HH:mm')}
+                        </span>
+                        {run.error && <p className="text-xs text-red-700 mt-1">{run.error}</p>}
+                        {!run.finished_at && <p className="text-xs text-gray-500 mt-1">Did not finish</p>}
+                      </td>
+                      <td className="px-4 py-3 capitalize text-gray-700">
+                        {run.trigger} · &gt;{run.older_than_minutes} min
+                      </td>
+                      <td className="px-4 py-3 text-right tabular-nums">{run.checked}</td>
+                      <td className="px-4 py-3 text-right tabular-nums text-green-700">{run.completed}</td>
+                      <td className="px-4 py-3 text-right tabular-nums text-red-700">{run.failed}</td>
+                      <td className="px-4 py-3 text-right tabular-nums">{run.unchanged}</td>
+                      <td className={`px-4 py-3 text-right tabular-nums ${run.errored ? 'text-red-700 font-medium' : ''}`}>
+                        {run.errored}
+                      </td>
+                    </tr>
+                    {open && (
+                      <tr>
+                        <td colSpan={7} className="bg-gray-50 px-4 py-3">
+                          <RunResults results={runResults(run)} />
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                )
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
+
+function RunResults({ results }: { results: ReconciliationResult[] }) {
+  if (results.length === 0) {
+    return <p className="text-sm text-gray-500">No stuck transactions.</p>
+  }
+  return (
+    <table className="min-w-full text-xs">
+      <thead>
+        <tr className="text-left text-gray-600">
+          <th className="py-1 pr-4 font-medium">Transaction</th>
+          <th className="py-1 pr-4 font-medium">Initiated</th>
+          <th className="py-1 pr-4 font-medium text-right">Amount</th>
+          <th className="py-1 pr-4 font-medium">MMG transaction</th>
+          <th className="py-1 pr-4 font-medium">Status</th>
+          <th className="py-1 pr-4 font-medium">Result</th>
+          <th className="py-1 font-medium">Details</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-200">
+        {results.map((r) => (
+          <tr key={r.paymentId} className="align-top">
+            <td className="py-1.5 pr-4 font-mono">{r.paymentId.slice(0, 8)}</td>
+            <td className="py-1.5 pr-4 whitespace-nowrap">{format(new Date(r.initiatedAt), 'MMM d, HH:mm')}</td>
+            <td className="py-1.5 pr-4 text-right tabular-nums">${r.amount.toLocaleString()}</td>
+            <td className="py-1.5 pr-4 font-mono">{r.mmgTransactionId ?? '—'}</td>
+            <td className="py-1.5 pr-4 whitespace-nowrap">
+              {r.fromStatus === r.toStatus ? r.fromStatus : `${r.fromStatus} → ${r.toStatus}`}
+            </td>
+            <td className="py-1.5 pr-4">
+              <span className={`rounded px-2 py-0.5 font-medium ${OUTCOME_LABEL[r.outcome].className}`}>
+                {OUTCOME_LABEL[r.outcome].label}
+              </span>
+            </td>
+            <td className="py-1.5 text-gray-700">{r.message}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
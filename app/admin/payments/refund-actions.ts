@@ -0,0 +1,442 @@
+'use server'
+
+import { createServerActionClient } from '@supabase/auth-helpers-nextjs'
+import { createClient } from '@supabase/supabase-js'
+import { cookies } from 'next/headers'
+import { logger } from '@/lib/logger'
+import type { Database, Json, PaymentRefundStatus } from '@/types/database'
+import { postRefundToLedger } from '@/lib/ledger'
+import { getRefundProvider } from '@/lib/payments/refund-provider'
+import {
+  OPEN_OR_DONE_REFUND_STATUSES,
+  refundableAmount,
+  subscriptionAfterRefund,
+  validateRefundRequest,
+} from './refunds'
+
+function createServiceClient() {
+  return createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+}
+
+type Db = ReturnType<typeof createServiceClient>
+type Admin = { db: Db; adminUserId: string; adminAuthId: string }
+
+async function requireAdmin(): Promise<({ ok: true } & Admin) | { ok: false; error: string }> {
+  const authClient = createServerActionClient({ cookies })
+  const {
+    data: { user: authUser },
+    error: authError,
+  } = await authClient.auth.getUser()
+
+  if (authError || !authUser) {
+    return { ok: false, error: 'Not authenticated' }
+  }
+
+  const db = createServiceClient()
+  const { data: userRow, error: userError } = await db
+    .from('users')
+    .select('id, role')
+    .eq('auth_id', authUser.id)
+    .single()
+
+  if (userError || !userRow || userRow.role !== 'admin') {
+    return { ok: false, error: 'Only administrators can refund payments.' }
+  }
+
+  return { ok: true, db, adminUserId: userRow.id, adminAuthId: authUser.id }
+}
+
+type RefundRow = Database['public']['Tables']['payment_refunds']['Row']
+
+/**
+ * The service client bypasses the audit trigger's auth.uid(), so refund steps are written to
+ * audit_logs here with the acting admin (auth id, like the trigger) as actor.
+ */
+async function auditRefund(admin: Admin, before: RefundRow | null, after: RefundRow) {
+  const { error } = await admin.db.from('audit_logs').insert({
+    table_name: 'payment_refunds',
+    record_id: after.id,
+    action: before ? 'UPDATE' : 'INSERT',
+    old_data: before as unknown as Json,
+    new_data: after as unknown as Json,
+    changed_at: new Date().toISOString(),
+    actor_id: admin.adminAuthId,
+  })
+  if (error) logger.error('auditRefund failed', { error, refundId: after.id })
+}
+
+/** Moves a refund from one status to the next only if nothing else moved it first. */
+async function transition(
+  admin: Admin,
+  refund: RefundRow,
+  from: PaymentRefundStatus[],
+  patch: Database['public']['Tables']['payment_refunds']['Update']
+): Promise<RefundRow | null> {
+  const { data, error } = await admin.db
+    .from('payment_refunds')
+    .update(patch)
+    .eq('id', refund.id)
+    .in('status', from)
+    .select('*')
+    .maybeSingle()
+  if (error) throw error
+  if (data) await auditRefund(admin, refund, data)
+  return data
+}
+
+export type PaymentRefund = RefundRow & {
+  requested_by_name: string | null
+  decided_by_name: string | null
+}
+
+export type ListPaymentRefundsResult =
+  | { ok: true; rows: PaymentRefund[]; adminUserId: string }
+  | { ok: false; error: string }
+
+/** Refunds of one payment, or the approval queue (all refunds in the given statuses) when no payment is given. */
+export async function listPaymentRefunds(filter: {
+  paymentId?: string
+  statuses?: PaymentRefundStatus[]
+}): Promise<ListPaymentRefundsResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  let query = gate.db.from('payment_refunds').select('*').order('requested_at', { ascending: false }).limit(200)
+  if (filter.paymentId) query = query.eq('payment_transaction_id', filter.paymentId)
+  if (filter.statuses?.length) query = query.in('status', filter.statuses)
+
+  const { data, error } = await query
+  if (error) {
+    logger.error('listPaymentRefunds failed', { error })
+    return { ok: false, error: 'Failed to load refunds.' }
+  }
+
+  const rows = data ?? []
+  const adminIds = Array.from(
+    new Set(rows.flatMap((r) => [r.requested_by, r.decided_by]).filter((id): id is string => !!id))
+  )
+  const names = new Map<string, string>()
+  if (adminIds.length) {
+    const { data: admins } = await gate.db.from('users').select('id, full_name').in('id', adminIds)
+    for (const a of admins ?? []) names.set(a.id, a.full_name)
+  }
+
+  return {
+    ok: true,
+    adminUserId: gate.adminUserId,
+    rows: rows.map((r) => ({
+      ...r,
+      requested_by_name: names.get(r.requested_by) ?? null,
+      decided_by_name: r.decided_by ? names.get(r.decided_by) ?? null : null,
+    })),
+  }
+}
+
+export type RefundActionResult = { ok: true; refund: RefundRow } | { ok: false; error: string }
+
+async function loadPayment(db: Db, paymentId: string) {
+  return db
+    .from('payment_transactions')
+    .select('id, user_id, amount, currency, status, mmg_transaction_id, subscription_id')
+    .eq('id', paymentId)
+    .maybeSingle()
+}
+
+/** Raised by the enforce_payment_refund_limit trigger. */
+const REFUND_LIMIT_HINT = 'refund_exceeds_payment'
+
+async function refundedAmounts(db: Db, paymentId: string, statuses: PaymentRefundStatus[], excludeId?: string) {
+  let query = db.from('payment_refunds').select('id, amount').eq('payment_transaction_id', paymentId).in('status', statuses)
+  if (excludeId) query = query.neq('id', excludeId)
+  const { data, error } = await query
+  if (error) throw error
+  return (data ?? []).map((r) => Number(r.amount))
+}
+
+/** First step: one admin asks for a full or partial refund. Nothing is paid out until another admin approves. */
+export async function requestRefund(input: {
+  paymentId: string
+  amount: number
+  reason: string
+}): Promise<RefundActionResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  try {
+    const { data: payment, error: paymentError } = await loadPayment(gate.db, input.paymentId)
+    if (paymentError) throw paymentError
+    if (!payment) return { ok: false, error: 'Payment not found.' }
+    if (payment.status !== 'completed') {
+      return { ok: false, error: 'Only completed payments can be refunded.' }
+    }
+
+    const refundable = refundableAmount(
+      Number(payment.amount),
+      await refundedAmounts(gate.db, payment.id, OPEN_OR_DONE_REFUND_STATUSES)
+    )
+    const invalid = validateRefundRequest(input, refundable)
+    if (invalid) return { ok: false, error: invalid }
+
+    const { data: refund, error } = await gate.db
+      .from('payment_refunds')
+      .insert({
+        payment_transaction_id: payment.id,
+        amount: input.amount,
+        currency: payment.currency,
+        reason: input.reason.trim(),
+        requested_by: gate.adminUserId,
+        subscription_id: payment.subscription_id,
+      })
+      .select('*')
+      .single()
+    if (error?.hint === REFUND_LIMIT_HINT) {
+      return { ok: false, error: 'Another refund of this payment was requested meanwhile. Reload and try again.' }
+    }
+    if (error || !refund) throw error ?? new Error('Refund insert returned no row')
+
+    await auditRefund(gate, null, refund)
+    return { ok: true, refund }
+  } catch (error) {
+    logger.error('requestRefund failed', { error, paymentId: input.paymentId })
+    return { ok: false, error: 'Failed to request the refund.' }
+  }
+}
+
+/**
+ * Shortens or cancels the subscription the payment bought and mirrors the new end on the profile
+ * when this subscription is the one the profile shows.
+ */
+async function adjustSubscription(
+  db: Db,
+  refund: RefundRow,
+  payment: { amount: number; subscription_id: string | null }
+): Promise<Pick<RefundRow, 'subscription_action' | 'subscription_end_before' | 'subscription_end_after'>> {
+  const subscriptionId = refund.subscription_id ?? payment.subscription_id
+  if (!subscriptionId) {
+    return { subscription_action: 'none', subscription_end_before: null, subscription_end_after: null }
+  }
+
+  const { data: subscription, error } = await db
+    .from('subscriptions')
+    .select('id, user_id, user_role, start_date, end_date, status')
+    .eq('id', subscriptionId)
+    .maybeSingle()
+  if (error) throw error
+  if (!subscription || subscription.status === 'cancelled') {
+    return {
+      subscription_action: 'none',
+      subscription_end_before: subscription?.end_date ?? null,
+      subscription_end_after: subscription?.end_date ?? null,
+    }
+  }
+
+  // Earlier processed refunds of this payment: their first "before" is the end the payment bought.
+  const { data: earlier, error: earlierError } = await db
+    .from('payment_refunds')
+    .select('amount, subscription_end_before')
+    .eq('payment_transaction_id', refund.payment_transaction_id)
+    .eq('status', 'processed')
+    .order('processed_at', { ascending: true })
+  if (earlierError) throw earlierError
+  const originalEnd = earlier?.find((r) => r.subscription_end_before)?.subscription_end_before ?? subscription.end_date
+
+  const adjustment = subscriptionAfterRefund({
+    startDate: new Date(subscription.start_date),
+    originalEnd: new Date(originalEnd),
+    currentEnd: new Date(subscription.end_date),
+    paymentAmount: Number(payment.amount),
+    refundAmount: Number(refund.amount),
+    refundedBefore: (earlier ?? []).reduce((sum, r) => sum + Number(r.amount), 0),
+    now: new Date(),
+  })
+  const result = {
+    subscription_action: adjustment.action,
+    subscription_end_before: subscription.end_date,
+    subscription_end_after: adjustment.endDate.toISOString(),
+  }
+  if (adjustment.action === 'none') return result
+
+  const endDate = adjustment.endDate.toISOString()
+  const { error: updateError } = await db
+    .from('subscriptions')
+    .update({ end_date: endDate, ...(adjustment.action === 'cancelled' ? { status: 'cancelled' as const } : {}) })
+    .eq('id', subscription.id)
+  if (updateError) throw updateError
+
+  const profileTable =
+    subscription.user_role === 'driver' ? 'driver_profiles' : subscription.user_role === 'rider' ? 'rider_profiles' : null
+  if (profileTable) {
+    const { error: profileError } = await db
+      .from(profileTable)
+      .update({
+        subscription_end_date: endDate,
+        ...(adjustment.action === 'cancelled' ? { subscription_status: 'cancelled' as const } : {}),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('user_id', subscription.user_id)
+      .eq('subscription_end_date', subscription.end_date)
+    if (profileError) throw profileError
+  }
+  return result
+}
+
+/**
+ * Second step: a different admin approves. The refund is sent to the provider straight away; on
+ * success the subscription is adjusted and a fully refunded payment is marked refunded. Failed
+ * refunds stay 'failed' with the provider error and can be approved again to retry.
+ */
+export async function approveRefund(input: { refundId: string; note?: string }): Promise<RefundActionResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  try {
+    const { data: refund, error: refundError } = await gate.db
+      .from('payment_refunds')
+      .select('*')
+      .eq('id', input.refundId)
+      .maybeSingle()
+    if (refundError) throw refundError
+    if (!refund) return { ok: false, error: 'Refund not found.' }
+    if (refund.requested_by === gate.adminUserId) {
+      return { ok: false, error: 'A refund must be approved by a different administrator than the one who requested it.' }
+    }
+    if (refund.status !== 'pending_approval' && refund.status !== 'failed') {
+      return { ok: false, error: 'This refund has already been decided.' }
+    }
+
+    const { data: payment, error: paymentError } = await loadPayment(gate.db, refund.payment_transaction_id)
+    if (paymentError) throw paymentError
+    if (!payment) return { ok: false, error: 'Payment not found.' }
+    if (payment.status !== 'completed') {
+      return { ok: false, error: `Payment is ${payment.status}; only completed payments can be refunded.` }
+    }
+
+    // Requests are checked when made; approving must not push the total past the payment either
+    const stillRefundable = refundableAmount(
+      Number(payment.amount),
+      await refundedAmounts(gate.db, payment.id, ['approved', 'processed'], refund.id)
+    )
+    if (Number(refund.amount) > stillRefundable) {
+      return {
+        ok: false,
+        error: `Only ${stillRefundable.toLocaleString()} of this payment is still refundable; reject this request instead.`,
+      }
+    }
+
+    const provider = getRefundProvider()
+    let approved: RefundRow | null
+    try {
+      approved = await transition(gate, refund, ['pending_approval', 'failed'], {
+        status: 'approved',
+        decided_by: gate.adminUserId,
+        decided_at: new Date().toISOString(),
+        decision_note: input.note?.trim() || refund.decision_note,
+        provider: provider.name,
+        error_message: null,
+      })
+    } catch (error) {
+      if ((error as { hint?: string } | null)?.hint === REFUND_LIMIT_HINT) {
+        return { ok: false, error: 'Refunds of this payment would exceed its amount; reject this request instead.' }
+      }
+      throw error
+    }
+    if (!approved) return { ok: false, error: 'This refund was decided by someone else meanwhile.' }
+
+    const sent = await provider.refund({
+      refundId: approved.id,
+      paymentId: payment.id,
+      mmgTransactionId: payment.mmg_transaction_id,
+      amount: Number(approved.amount),
+      currency: approved.currency,
+      reason: approved.reason,
+    })
+    if (!sent.ok) {
+      await transition(gate, approved, ['approved'], {
+        status: 'failed',
+        error_message: sent.error,
+        provider_response: sent.response,
+      })
+      return { ok: false, error: `Refund failed: ${sent.error}` }
+    }
+
+    // The money has moved; a subscription error must not leave the refund looking unsent.
+    let subscription: Awaited<ReturnType<typeof adjustSubscription>> | null = null
+    let subscriptionError: string | null = null
+    try {
+      subscription = await adjustSubscription(gate.db, approved, {
+        amount: Number(payment.amount),
+        subscription_id: payment.subscription_id,
+      })
+    } catch (error) {
+      logger.error('approveRefund: subscription adjustment failed', { error, refundId: approved.id })
+      subscriptionError = 'Refund sent, but the subscription could not be adjusted; adjust it by hand.'
+    }
+    const processed = await transition(gate, approved, ['approved'], {
+      status: 'processed',
+      processed_at: new Date().toISOString(),
+      provider_reference: sent.reference,
+      provider_response: sent.response,
+      error_message: subscriptionError,
+      ...(subscription ?? {}),
+    })
+    if (!processed) throw new Error(`Refund ${approved.id} left 'approved' during processing`)
+
+    try {
+      await postRefundToLedger(gate.db, processed.id)
+    } catch (error) {
+      logger.error('approveRefund: posting to the ledger failed', { error, refundId: processed.id })
+    }
+
+    const remaining = refundableAmount(
+      Number(payment.amount),
+      await refundedAmounts(gate.db, payment.id, ['processed'])
+    )
+    if (remaining === 0) {
+      const { error: paymentUpdateError } = await gate.db
+        .from('payment_transactions')
+        .update({ status: 'refunded' })
+        .eq('id', payment.id)
+        .eq('status', 'completed')
+      if (paymentUpdateError) throw paymentUpdateError
+    }
+
+    return { ok: true, refund: processed }
+  } catch (error) {
+    logger.error('approveRefund failed', { error, refundId: input.refundId })
+    return { ok: false, error: 'Failed to process the refund. Check the server logs.' }
+  }
+}
+
+/** Declines a pending (or failed) refund. The requester may withdraw their own request this way. */
+export async function rejectRefund(input: { refundId: string; note: string }): Promise<RefundActionResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  if (!input.note.trim()) return { ok: false, error: 'Say why the refund is rejected.' }
+
+  try {
+    const { data: refund, error: refundError } = await gate.db
+      .from('payment_refunds')
+      .select('*')
+      .eq('id', input.refundId)
+      .maybeSingle()
+    if (refundError) throw refundError
+    if (!refund) return { ok: false, error: 'Refund not found.' }
+
+    const rejected = await transition(gate, refund, ['pending_approval', 'failed'], {
+      status: 'rejected',
+      decided_by: gate.adminUserId,
+      decided_at: new Date().toISOString(),
+      decision_note: input.note.trim(),
+    })
+    if (!rejected) return { ok: false, error: 'This refund has already been decided.' }
+    return { ok: true, refund: rejected }
+  } catch (error) {
+    logger.error('rejectRefund failed', { error, refundId: input.refundId })
+    return { ok: false, error: 'Failed to reject the refund.' }
+  }
+}
@@ -0,0 +1,397 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { format } from 'date-fns'
+import { Check, Loader2, RotateCcw, Undo2, X } from 'lucide-react'
+import type { Database, PaymentRefundStatus } from '@/types/database'
+import {
+  approveRefund,
+  listPaymentRefunds,
+  rejectRefund,
+  requestRefund,
+  type PaymentRefund,
+} from './refund-actions'
+import { OPEN_OR_DONE_REFUND_STATUSES, REFUND_STATUS_LABEL, refundableAmount } from './refunds'
+
+type Payment = Pick<
+  Database['public']['Tables']['payment_transactions']['Row'],
+  'id' | 'amount' | 'currency' | 'status'
+>
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+const btnPrimary =
+  'inline-flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50'
+const btnSmall =
+  'inline-flex items-center gap-1 px-2.5 py-1 text-xs font-medium rounded-md border disabled:opacity-50'
+
+const SUBSCRIPTION_ACTION_LABEL = {
+  none: 'Subscription unchanged',
+  shortened: 'Subscription shortened',
+  cancelled: 'Subscription cancelled',
+} as const
+
+function money(amount: number, currency: string) {
+  return `${currency} ${Number(amount).toLocaleString(undefined, { maximumFractionDigits: 2 })}`
+}
+
+/** Payments and subscriptions change when a refund is processed; refetch the page's lists. */
+function useRefreshPayments() {
+  const queryClient = useQueryClient()
+  return useCallback(() => {
+    void queryClient.invalidateQueries({ queryKey: ['payment-transactions'] })
+    void queryClient.invalidateQueries({ queryKey: ['subscriptions'] })
+  }, [queryClient])
+}
+
+function RefundEntry({
+  refund,
+  adminUserId,
+  showPayment,
+  onDecided,
+}: {
+  refund: PaymentRefund
+  adminUserId: string | null
+  showPayment?: boolean
+  onDecided: () => void
+}) {
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [rejecting, setRejecting] = useState(false)
+  const [note, setNote] = useState('')
+
+  const decidable = refund.status === 'pending_approval' || refund.status === 'failed'
+  const ownRequest = refund.requested_by === adminUserId
+
+  async function run(action: () => Promise<{ ok: true } | { ok: false; error: string }>) {
+    setBusy(true)
+    setError(null)
+    const res = await action()
+    setBusy(false)
+    if (!res.ok) setError(res.error)
+    // A failed provider call still changes the refund (to 'failed'), so reload either way
+    onDecided()
+  }
+
+  const status = REFUND_STATUS_LABEL[refund.status]
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 space-y-2 text-sm">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="font-semibold text-gray-900">{money(refund.amount, refund.currency)}</p>
+          {showPayment && (
+            <p className="text-xs text-gray-500 font-mono">Payment {refund.payment_transaction_id.slice(0, 8)}</p>
+          )}
+        </div>
+        <span className={`rounded-full px-2.5 py-0.5 text-xs font-medium ${status.className}`}>{status.label}</span>
+      </div>
+      <p className="text-gray-700">{refund.reason}</p>
+      <p className="text-xs text-gray-500">
+        Requested by {refund.requested_by_name ?? 'unknown admin'} ·{' '}
+        {format(new Date(refund.requested_at), 'MMM d, yyyy h:mm a')}
+      </p>
+      {refund.decided_at && (
+        <p className="text-xs text-gray-500">
+          {refund.status === 'rejected' ? 'Rejected' : 'Approved'} by {refund.decided_by_name ?? 'unknown admin'} ·{' '}
+          {format(new Date(refund.decided_at), 'MMM d, yyyy h:mm a')}
+          {refund.decision_note && ` — ${refund.decision_note}`}
+        </p>
+      )}
+      {refund.subscription_action && (
+        <p className="text-xs text-gray-600">
+          {SUBSCRIPTION_ACTION_LABEL[refund.subscription_action]}
+          {refund.subscription_action !== 'none' && refund.subscription_end_before && refund.subscription_end_after && (
+            <>
+              : ends {format(new Date(refund.subscription_end_after), 'MMM d, yyyy')} (was{' '}
+              {format(new Date(refund.subscription_end_before), 'MMM d, yyyy')})
+            </>
+          )}
+        </p>
+      )}
+      {refund.provider_reference && (
+        <p className="text-xs text-gray-500 font-mono">
+          {refund.provider} · {refund.provider_reference}
+        </p>
+      )}
+      {refund.error_message && <p className="text-xs text-red-700">{refund.error_message}</p>}
+      {error && <p className="text-xs text-red-700">{error}</p>}
+
+      {decidable && (
+        <div className="pt-1">
+          {rejecting ? (
+            <div className="flex gap-2">
+              <input
+                className={inputClass}
+                placeholder={ownRequest ? 'Why withdraw this request?' : 'Why reject this refund?'}
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+              <button
+                type="button"
+                className={`${btnSmall} border-red-300 text-red-700 hover:bg-red-50`}
+                disabled={busy || !note.trim()}
+                onClick={() => void run(() => rejectRefund({ refundId: refund.id, note }))}
+              >
+                {busy ? <Loader2 className="h-3 w-3 animate-spin" /> : <X className="h-3 w-3" />}
+                {ownRequest ? 'Withdraw' : 'Reject'}
+              </button>
+              <button
+                type="button"
+                className={`${btnSmall} border-gray-300 text-gray-700 hover:bg-gray-50`}
+                onClick={() => setRejecting(false)}
+              >
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <div className="flex flex-wrap items-center gap-2">
+              {ownRequest ? (
+                <span className="text-xs text-gray-500">Another administrator must approve your request.</span>
+              ) : (
+                <button
+                  type="button"
+                  className={`${btnSmall} border-green-300 text-green-700 hover:bg-green-50`}
+                  disabled={busy}
+                  onClick={() => void run(() => approveRefund({ refundId: refund.id }))}
+                >
+                  {busy ? (
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                  ) : refund.status === 'failed' ? (
+                    <RotateCcw className="h-3 w-3" />
+                  ) : (
+                    <Check className="h-3 w-3" />
+                  )}
+                  {refund.status === 'failed' ? 'Retry refund' : 'Approve & refund'}
+                </button>
+              )}
+              <button
+                type="button"
+                className={`${btnSmall} border-gray-300 text-gray-700 hover:bg-gray-50`}
+                disabled={busy}
+                onClick={() => setRejecting(true)}
+              >
+                <X className="h-3 w-3" />
+                {ownRequest ? 'Withdraw' : 'Reject'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/** Refunds of one payment plus the request form, shown in the transaction dialog. */
+export function TransactionRefundsPanel({ payment }: { payment: Payment }) {
+  const refreshPayments = useRefreshPayments()
+  const [refunds, setRefunds] = useState<PaymentRefund[]>([])
+  const [adminUserId, setAdminUserId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [formOpen, setFormOpen] = useState(false)
+  const [amount, setAmount] = useState('')
+  const [reason, setReason] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    const res = await listPaymentRefunds({ paymentId: payment.id })
+    if (!res.ok) {
+      setError(res.error)
+    } else {
+      setRefunds(res.rows)
+      setAdminUserId(res.adminUserId)
+    }
+    setLoading(false)
+  }, [payment.id])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  const refundable = refundableAmount(
+    Number(payment.amount),
+    refunds.filter((r) => OPEN_OR_DONE_REFUND_STATUSES.includes(r.status)).map((r) => Number(r.amount))
+  )
+
+  function openForm() {
+    setAmount(String(refundable))
+    setReason('')
+    setError(null)
+    setFormOpen(true)
+  }
+
+  async function handleRequest() {
+    setSaving(true)
+    setError(null)
+    const res = await requestRefund({ paymentId: payment.id, amount: Number(amount), reason })
+    setSaving(false)
+    if (!res.ok) {
+      setError(res.error)
+      return
+    }
+    setFormOpen(false)
+    await load()
+  }
+
+  function handleDecided() {
+    void load()
+    refreshPayments()
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium text-gray-400 uppercase tracking-wider">Refunds</p>
+        {payment.status === 'completed' && refundable > 0 && !formOpen && (
+          <button
+            type="button"
+            className={`${btnSmall} border-gray-300 text-gray-700 hover:bg-gray-50`}
+            onClick={openForm}
+          >
+            <Undo2 className="h-3 w-3" />
+            Request refund
+          </button>
+        )}
+      </div>
+
+      {formOpen && (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 space-y-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">
+              Amount ({payment.currency}, up to {refundable.toLocaleString()})
+            </label>
+            <input
+              type="number"
+              min={0.01}
+              step="0.01"
+              max={refundable}
+              className={inputClass}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Reason</label>
+            <textarea className={inputClass} rows={2} value={reason} onChange={(e) => setReason(e.target.value)} />
+          </div>
+          <p className="text-xs text-gray-500">
+            A second administrator approves before anything is paid out. The subscription is shortened by the
+            refunded share of its term, or cancelled on a full refund.
+          </p>
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              className={`${btnSmall} border-gray-300 text-gray-700 hover:bg-gray-50`}
+              onClick={() => setFormOpen(false)}
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              className={btnPrimary}
+              disabled={saving || !reason.trim() || !Number(amount)}
+              onClick={() => void handleRequest()}
+            >
+              {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+              Request approval
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+
+      {loading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+      ) : refunds.length === 0 ? (
+        !formOpen && <p className="text-sm text-gray-500">No refunds.</p>
+      ) : (
+        <div className="space-y-2">
+          {refunds.map((r) => (
+            <RefundEntry key={r.id} refund={r} adminUserId={adminUserId} onDecided={handleDecided} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+const QUEUE_FILTERS: { value: string; label: string; statuses: PaymentRefundStatus[] }[] = [
+  { value: 'open', label: 'Needs a decision', statuses: ['pending_approval', 'failed'] },
+  { value: 'processed', label: 'Refunded', statuses: ['processed'] },
+  { value: 'rejected', label: 'Rejected', statuses: ['rejected'] },
+  { value: 'all', label: 'All', statuses: [] },
+]
+
+/** Approval queue: refunds waiting for a second administrator, and the refund history. */
+export function RefundsSection() {
+  const refreshPayments = useRefreshPayments()
+  const [filter, setFilter] = useState('open')
+  const [refunds, setRefunds] = useState<PaymentRefund[]>([])
+  const [adminUserId, setAdminUserId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    const statuses = QUEUE_FILTERS.find((f) => f.value === filter)?.statuses ?? []
+    const res = await listPaymentRefunds({ statuses })
+    if (!res.ok) {
+      setError(res.error)
+    } else {
+      setRefunds(res.rows)
+      setAdminUserId(res.adminUserId)
+    }
+    setLoading(false)
+  }, [filter])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  function handleDecided() {
+    void load()
+    refreshPayments()
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-lg shadow p-4 flex flex-wrap items-center justify-between gap-4">
+        <p className="text-sm text-gray-600 max-w-2xl">
+          Refunds are requested from a transaction&apos;s details and need a second administrator to approve.
+          Approving sends the refund and adjusts the subscription; failed refunds can be retried or rejected.
+        </p>
+        <select className="px-3 py-2 border border-gray-300 rounded-lg text-sm" value={filter} onChange={(e) => setFilter(e.target.value)}>
+          {QUEUE_FILTERS.map((f) => (
+            <option key={f.value} value={f.value}>
+              {f.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-red-50 border border-red-200 text-red-800 px-4 py-3 text-sm">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="py-8 text-center text-gray-500">
+          <Loader2 className="h-5 w-5 animate-spin inline" />
+        </div>
+      ) : refunds.length === 0 ? (
+        <div className="bg-white rounded-lg shadow py-8 text-center text-sm text-gray-500">No refunds here.</div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-3">
+          {refunds.map((r) => (
+            <div key={r.id} className="bg-white rounded-lg shadow">
+              <RefundEntry refund={r} adminUserId={adminUserId} showPayment onDecided={handleDecided} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+import type { PaymentRefundStatus } from '@/types/database'
+
+export const REFUND_STATUS_LABEL: Record<PaymentRefundStatus, { label: string; className: string }> = {
+  pending_approval: { label: 'Awaiting approval', className: 'bg-yellow-100 text-yellow-800' },
+  approved: { label: 'Sending', className: 'bg-blue-100 text-blue-800' },
+  processed: { label: 'Refunded', className: 'bg-green-100 text-green-800' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800' },
+  rejected: { label: 'Rejected', className: 'bg-gray-200 text-gray-700' },
+}
+
+/** Refunds that count against the payment's refundable balance (everything not rejected). */
+export const OPEN_OR_DONE_REFUND_STATUSES: PaymentRefundStatus[] = ['pending_approval', 'approved', 'processed', 'failed']
+
+const roundMoney = (n: number) => Math.round(n * 100) / 100
+
+/** What is still refundable on a payment, given the amounts of its non-rejected refunds. */
+export function refundableAmount(paymentAmount: number, refundAmounts: number[]): number {
+  return Math.max(0, roundMoney(paymentAmount - refundAmounts.reduce((sum, a) => sum + a, 0)))
+}
+
+/** Server-side checks for a refund request; returns an error message or null. */
+export function validateRefundRequest(input: { amount: number; reason: string }, refundable: number): string | null {
+  if (!input.reason.trim()) return 'A reason is required.'
+  if (!Number.isFinite(input.amount) || input.amount <= 0) return 'Amount must be greater than 0.'
+  if (roundMoney(input.amount) !== input.amount) return 'Amount can have at most 2 decimal places.'
+  if (input.amount > refundable) return `At most ${refundable.toLocaleString()} can still be refunded.`
+  return null
+}
+
+export type SubscriptionAdjustment =
+  | { action: 'none'; endDate: Date }
+  | { action: 'shortened'; endDate: Date }
+  | { action: 'cancelled'; endDate: Date }
+
+/**
+ * What a processed refund does to the subscription the payment bought. The term is cut by the
+ * refunded share of the payment: refunding 40% of a 30-day term removes 12 days from the end.
+ * `originalEnd` is the end before any refund of this payment, so repeated partial refunds each
+ * remove their share of the same term rather than a share of what is left.
+ *
+ * Fully refunded payments cancel the subscription, as does a cut that leaves nothing from `now` on;
+ * a cancelled subscription ends `now` unless it had already ended. Expired subscriptions are left
+ * alone.
+ */
+export function subscriptionAfterRefund(params: {
+  startDate: Date
+  originalEnd: Date
+  currentEnd: Date
+  paymentAmount: number
+  refundAmount: number
+  refundedBefore: number
+  now: Date
+}): SubscriptionAdjustment {
+  const { startDate, originalEnd, currentEnd, paymentAmount, refundAmount, refundedBefore, now } = params
+  if (currentEnd <= now) return { action: 'none', endDate: currentEnd }
+
+  const endNow = () => ({ action: 'cancelled' as const, endDate: now })
+  if (paymentAmount <= 0 || roundMoney(refundedBefore + refundAmount) >= paymentAmount) return endNow()
+
+  const termMs = Math.max(0, originalEnd.getTime() - startDate.getTime())
+  const cutMs = Math.round(termMs * (refundAmount / paymentAmount))
+  const endDate = new Date(currentEnd.getTime() - cutMs)
+  if (endDate <= now) return endNow()
+  return { action: 'shortened', endDate }
+}
@@ -0,0 +1,85 @@
+'use server'
+
+import { createServerActionClient } from '@supabase/auth-helpers-nextjs'
+import { createClient } from '@supabase/supabase-js'
+import { cookies } from 'next/headers'
+import { logger } from '@/lib/logger'
+import type { Database } from '@/types/database'
+import type { LabTrip } from './simulate'
+
+function createServiceClient() {
+  return createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+}
+
+async function requireAdmin(): Promise<
+  | { ok: true; db: ReturnType<typeof createServiceClient> }
+  | { ok: false; error: string }
+> {
+  const authClient = createServerActionClient({ cookies })
+  const {
+    data: { user: authUser },
+    error: authError,
+  } = await authClient.auth.getUser()
+
+  if (authError || !authUser) {
+    return { ok: false, error: 'Not authenticated' }
+  }
+
+  const db = createServiceClient()
+  const { data: userRow, error: userError } = await db
+    .from('users')
+    .select('id, role')
+    .eq('auth_id', authUser.id)
+    .single()
+
+  if (userError || !userRow || userRow.role !== 'admin') {
+    return { ok: false, error: 'Only administrators can use the pricing lab.' }
+  }
+
+  return { ok: true, db }
+}
+
+export type ListLabTripsResult = { ok: true; trips: LabTrip[] } | { ok: false; error: string }
+
+/** Most recent completed trips that have a distance and a fare to compare against. */
+export async function listLabTrips(input: { limit: number; since: string }): Promise<ListLabTripsResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const limit = Math.min(Math.max(Math.trunc(input.limit) || 0, 1), 1000)
+
+  let query = gate.db
+    .from('trips')
+    .select(
+      'id, pickup_latitude, pickup_longitude, destination_latitude, destination_longitude, estimated_distance_km, actual_distance_km, actual_fare, requested_at, completed_at'
+    )
+    .eq('status', 'completed')
+    .not('actual_fare', 'is', null)
+    .order('completed_at', { ascending: false })
+    .limit(limit)
+
+  if (input.since) query = query.gte('completed_at', input.since)
+
+  const { data, error } = await query
+
+  if (error) {
+    logger.error('listLabTrips failed', { error })
+    return { ok: false, error: 'Failed to load trips.' }
+  }
+
+  const trips: LabTrip[] = (data ?? []).map((t) => ({
+    ref: t.id,
+    pickupLat: t.pickup_latitude,
+    pickupLng: t.pickup_longitude,
+    dropoffLat: t.destination_latitude,
+    dropoffLng: t.destination_longitude,
+    distanceKm: t.estimated_distance_km ?? t.actual_distance_km,
+    actualFare: t.actual_fare,
+    pickupAt: t.requested_at,
+  }))
+  return { ok: true, trips }
+}
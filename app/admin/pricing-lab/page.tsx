@@ -0,0 +1,362 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { FlaskConical, Loader2 } from 'lucide-react'
+import {
+  listFareRuleSets,
+  listFareRules,
+  listFareSurcharges,
+  listPublicHolidays,
+  type FareRuleSetRow,
+} from '../fare-rules/actions'
+import { listCostEstimateZones } from '../cost-estimate-landmarks/actions'
+import { listLabTrips } from './actions'
+import { parseLabTrips, simulate, summarize, toRuleSet, type LabContext, type LabTrip } from './simulate'
+import type { FareRuleSet } from '@/supabase/functions/cost-estimates/pricing'
+import { zoneBoundariesFromRows } from '@/supabase/functions/_shared/zones'
+
+type Source = 'recent' | 'paste'
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+const btnPrimary =
+  'inline-flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50'
+
+function money(n: number | null): string {
+  return n == null ? '—' : `$${n.toLocaleString()}`
+}
+
+function signedMoney(n: number | null): string {
+  if (n == null) return '—'
+  if (n === 0) return '$0'
+  return `${n > 0 ? '+' : '−'}$${Math.abs(n).toLocaleString()}`
+}
+
+function deltaClass(n: number | null): string {
+  if (!n) return 'text-gray-600'
+  return n > 0 ? 'text-green-700' : 'text-red-700'
+}
+
+function useRuleSet(set: FareRuleSetRow | undefined) {
+  const [ruleSet, setRuleSet] = useState<FareRuleSet | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setRuleSet(null)
+    setError(null)
+    if (!set) return
+    void Promise.all([listFareRules(set.id), listFareSurcharges(set.id)]).then(([rules, surcharges]) => {
+      if (cancelled) return
+      if (!rules.ok) setError(rules.error)
+      else if (!surcharges.ok) setError(surcharges.error)
+      else setRuleSet(toRuleSet(set, rules.rows, surcharges.rows))
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [set])
+
+  return { ruleSet, error }
+}
+
+export default function PricingLabPage() {
+  const [sets, setSets] = useState<FareRuleSetRow[]>([])
+  const [baselineId, setBaselineId] = useState('')
+  const [candidateId, setCandidateId] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const [source, setSource] = useState<Source>('recent')
+  const [limit, setLimit] = useState(200)
+  const [since, setSince] = useState('')
+  const [pasted, setPasted] = useState('')
+  const [pasteErrors, setPasteErrors] = useState<string[]>([])
+  const [trips, setTrips] = useState<LabTrip[]>([])
+  const [tripsLoading, setTripsLoading] = useState(false)
+  const [context, setContext] = useState<LabContext>({ holidays: [], boundaries: [] })
+
+  useEffect(() => {
+    void Promise.all([listPublicHolidays(), listCostEstimateZones()]).then(([holidays, zones]) => {
+      setContext({
+        holidays: holidays.ok ? holidays.rows.map((h) => h.holiday_date) : [],
+        boundaries: zones.ok ? zoneBoundariesFromRows(zones.rows) : [],
+      })
+    })
+  }, [])
+
+  useEffect(() => {
+    void (async () => {
+      const res = await listFareRuleSets()
+      if (!res.ok) {
+        setError(res.error)
+        setLoading(false)
+        return
+      }
+      setSets(res.rows)
+      setBaselineId(res.activeId ?? res.rows[0]?.id ?? '')
+      const newestDraft = res.rows.find((r) => !r.activated_at)
+      setCandidateId(newestDraft?.id ?? res.activeId ?? res.rows[0]?.id ?? '')
+      setLoading(false)
+    })()
+  }, [])
+
+  const baselineSet = useMemo(() => sets.find((s) => s.id === baselineId), [sets, baselineId])
+  const candidateSet = useMemo(() => sets.find((s) => s.id === candidateId), [sets, candidateId])
+  const baseline = useRuleSet(baselineSet)
+  const candidate = useRuleSet(candidateSet)
+
+  const loadRecent = useCallback(async () => {
+    setTripsLoading(true)
+    setError(null)
+    const res = await listLabTrips({ limit, since })
+    setTripsLoading(false)
+    if (!res.ok) {
+      setError(res.error)
+      return
+    }
+    setTrips(res.trips)
+  }, [limit, since])
+
+  function applyPasted() {
+    const { trips: parsed, errors } = parseLabTrips(pasted)
+    setPasteErrors(errors)
+    setTrips(parsed)
+  }
+
+  const results = useMemo(
+    () =>
+      baseline.ruleSet && candidate.ruleSet
+        ? simulate(trips, baseline.ruleSet, candidate.ruleSet, context)
+        : [],
+    [trips, baseline.ruleSet, candidate.ruleSet, context]
+  )
+  const summary = useMemo(() => summarize(results), [results])
+
+  const ruleError = baseline.error ?? candidate.error
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-6">
+      <div className="flex items-center gap-3">
+        <FlaskConical className="h-8 w-8 text-blue-600" aria-hidden />
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Pricing lab</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            Re-price historical trips with two fare rule sets side by side before activating a change.
+          </p>
+        </div>
+      </div>
+
+      {(error || ruleError) && (
+        <div className="rounded-lg bg-red-50 border border-red-200 text-red-800 px-4 py-3 text-sm">
+          {error ?? ruleError}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-gray-600 py-12 justify-center">
+          <Loader2 className="h-6 w-6 animate-spin" />
+          Loading…
+        </div>
+      ) : (
+        <>
+          <div className="rounded-xl border border-gray-200 bg-white p-4 grid sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Current (baseline)</label>
+              <select className={inputClass} value={baselineId} onChange={(e) => setBaselineId(e.target.value)}>
+                {sets.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.version_label}
+                    {s.activated_at ? '' : ' (draft)'}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Draft (candidate)</label>
+              <select className={inputClass} value={candidateId} onChange={(e) => setCandidateId(e.target.value)}>
+                {sets.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.version_label}
+                    {s.activated_at ? '' : ' (draft)'}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="rounded-xl border border-gray-200 bg-white p-4 space-y-3">
+            <div className="flex gap-2 border-b border-gray-200">
+              {(['recent', 'paste'] as const).map((s) => (
+                <button
+                  key={s}
+                  type="button"
+                  onClick={() => setSource(s)}
+                  className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+                    source === s
+                      ? 'border-blue-600 text-blue-700'
+                      : 'border-transparent text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  {s === 'recent' ? 'Completed trips' : 'Paste trips'}
+                </button>
+              ))}
+            </div>
+
+            {source === 'recent' ? (
+              <div className="flex flex-wrap items-end gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Max trips</label>
+                  <input
+                    type="number"
+                    className={inputClass}
+                    value={limit}
+                    min={1}
+                    max={1000}
+                    onChange={(e) => setLimit(Number(e.target.value))}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Completed since</label>
+                  <input type="date" className={inputClass} value={since} onChange={(e) => setSince(e.target.value)} />
+                </div>
+                <button type="button" className={btnPrimary} onClick={() => void loadRecent()} disabled={tripsLoading}>
+                  {tripsLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+                  Load trips
+                </button>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <textarea
+                  className={`${inputClass} min-h-[120px] font-mono text-xs`}
+                  value={pasted}
+                  onChange={(e) => setPasted(e.target.value)}
+                  placeholder={
+                    'pickup_lat, pickup_lng, dropoff_lat, dropoff_lng, distance_km, actual_fare, pickup_at\n6.8045, -58.1553, 6.7511, -58.1836, 14.2, 3500, 2026-05-01T22:30:00-04:00'
+                  }
+                />
+                <button type="button" className={btnPrimary} onClick={applyPasted}>
+                  Use pasted trips
+                </button>
+                {pasteErrors.length > 0 && (
+                  <ul className="text-sm text-red-600 list-disc pl-5">
+                    {pasteErrors.slice(0, 10).map((e) => (
+                      <li key={e}>{e}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+
+          {results.length > 0 && (
+            <>
+              <div className="grid sm:grid-cols-4 gap-4">
+                <SummaryCard label="Trips priced by both" value={`${summary.pricedBoth} / ${summary.trips}`} />
+                <SummaryCard label="Current total" value={money(summary.baselineTotal)} />
+                <SummaryCard label="Draft total" value={money(summary.candidateTotal)} />
+                <SummaryCard
+                  label="Revenue impact"
+                  value={signedMoney(summary.revenueImpact)}
+                  sub={
+                    summary.revenueImpactPct != null
+                      ? `${summary.revenueImpactPct >= 0 ? '+' : ''}${summary.revenueImpactPct.toFixed(1)}% · ${summary.branchChanges} branch changes`
+                      : undefined
+                  }
+                  className={deltaClass(summary.revenueImpact)}
+                />
+              </div>
+
+              <div className="rounded-xl border border-gray-200 bg-white overflow-hidden">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left font-medium text-gray-700">Draft branch</th>
+                      <th className="px-4 py-3 text-right font-medium text-gray-700">Trips</th>
+                      <th className="px-4 py-3 text-right font-medium text-gray-700">Impact</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {summary.byBranch.map((b) => (
+                      <tr key={b.branch}>
+                        <td className="px-4 py-2 text-gray-900">{b.branch}</td>
+                        <td className="px-4 py-2 text-right tabular-nums">{b.trips}</td>
+                        <td className={`px-4 py-2 text-right tabular-nums ${deltaClass(b.impact)}`}>
+                          {signedMoney(b.impact)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="rounded-xl border border-gray-200 bg-white overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left font-medium text-gray-700">Trip</th>
+                      <th className="px-4 py-3 text-left font-medium text-gray-700">Zones</th>
+                      <th className="px-4 py-3 text-right font-medium text-gray-700">Km</th>
+                      <th className="px-4 py-3 text-right font-medium text-gray-700">Actual</th>
+                      <th className="px-4 py-3 text-left font-medium text-gray-700">Current</th>
+                      <th className="px-4 py-3 text-left font-medium text-gray-700">Draft</th>
+                      <th className="px-4 py-3 text-right font-medium text-gray-700">Delta</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {results.map((r) => (
+                      <tr
+                        key={r.trip.ref}
+                        className={r.baseline.branch !== r.candidate.branch ? 'bg-amber-50' : 'hover:bg-gray-50'}
+                      >
+                        <td className="px-4 py-2 font-mono text-xs text-gray-700" title={r.trip.ref}>
+                          {r.trip.ref.length > 12 ? `${r.trip.ref.slice(0, 8)}…` : r.trip.ref}
+                        </td>
+                        <td className="px-4 py-2 font-mono text-xs whitespace-nowrap">
+                          {r.pickupZone} → {r.dropoffZone}
+                        </td>
+                        <td className="px-4 py-2 text-right tabular-nums">{r.trip.distanceKm?.toFixed(1) ?? '—'}</td>
+                        <td className="px-4 py-2 text-right tabular-nums">{money(r.trip.actualFare)}</td>
+                        <td className="px-4 py-2 whitespace-nowrap">
+                          <span className="tabular-nums">{money(r.baseline.total)}</span>{' '}
+                          <span className="text-xs text-gray-500">{r.baseline.branch ?? r.baseline.status}</span>
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap">
+                          <span className="tabular-nums">{money(r.candidate.total)}</span>{' '}
+                          <span className="text-xs text-gray-500">{r.candidate.branch ?? r.candidate.status}</span>
+                        </td>
+                        <td className={`px-4 py-2 text-right tabular-nums ${deltaClass(r.delta)}`}>
+                          {signedMoney(r.delta)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+function SummaryCard({
+  label,
+  value,
+  sub,
+  className = 'text-gray-900',
+}: {
+  label: string
+  value: string
+  sub?: string
+  className?: string
+}) {
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-4">
+      <p className="text-xs font-medium text-gray-500">{label}</p>
+      <p className={`text-2xl font-semibold tabular-nums mt-1 ${className}`}>{value}</p>
+      {sub && <p className="text-xs text-gray-500 mt-1">{sub}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,194 @@
+import {
+  calculateFare,
+  fareRuleFromRow,
+  fareSurchargeFromRow,
+  type FareClock,
+  type FareRuleSet,
+} from '@/supabase/functions/cost-estimates/pricing'
+import { classifyZone, type ZoneBoundary } from '@/supabase/functions/_shared/zones'
+import { guyanaWallClock } from '@/lib/guyana-time'
+import type { FareRuleRow, FareRuleSetRow, FareSurchargeRow } from '../fare-rules/actions'
+
+/** One historical trip to re-price. `ref` is a trip id or the pasted line number. */
+export type LabTrip = {
+  ref: string
+  pickupLat: number
+  pickupLng: number
+  dropoffLat: number
+  dropoffLng: number
+  distanceKm: number | null
+  actualFare: number | null
+  /** ISO pickup time; null prices without surcharges. */
+  pickupAt: string | null
+}
+
+export type LabQuote = {
+  status: string
+  total: number | null
+  branch: string | null
+}
+
+export type LabResult = {
+  trip: LabTrip
+  pickupZone: string
+  dropoffZone: string
+  baseline: LabQuote
+  candidate: LabQuote
+  /** candidate − baseline; null unless both priced. */
+  delta: number | null
+}
+
+export type LabSummary = {
+  trips: number
+  pricedBoth: number
+  baselineTotal: number
+  candidateTotal: number
+  revenueImpact: number
+  revenueImpactPct: number | null
+  actualTotal: number
+  branchChanges: number
+  byBranch: { branch: string; trips: number; impact: number }[]
+}
+
+export function toRuleSet(
+  set: FareRuleSetRow,
+  rules: FareRuleRow[],
+  surcharges: FareSurchargeRow[]
+): FareRuleSet {
+  return {
+    id: set.id,
+    versionLabel: set.version_label,
+    rules: rules.map(fareRuleFromRow),
+    surcharges: surcharges.map(fareSurchargeFromRow),
+    stopWaitingFee: Number(set.stop_waiting_fee),
+  }
+}
+
+function clockFor(trip: LabTrip, holidays: string[]): FareClock | null {
+  if (!trip.pickupAt) return null
+  const at = new Date(trip.pickupAt)
+  if (Number.isNaN(at.getTime())) return null
+  const wall = guyanaWallClock(at)
+  return { ...wall, isHoliday: holidays.includes(wall.date) }
+}
+
+function quote(
+  trip: LabTrip,
+  pickupZone: string,
+  dropoffZone: string,
+  ruleSet: FareRuleSet,
+  clock: FareClock | null
+): LabQuote {
+  const fare = calculateFare({ distanceKm: trip.distanceKm, pickupZone, dropoffZone, ruleSet, clock })
+  return { status: fare.status, total: fare.total, branch: fare.branch }
+}
+
+/** Shared inputs the Edge Function loads alongside the rule set. */
+export type LabContext = {
+  /** `yyyy-MM-dd` Guyana dates. */
+  holidays: string[]
+  boundaries: ZoneBoundary[]
+}
+
+/**
+ * Re-price every trip with both rule sets, classifying zones the same way the Edge Function does.
+ * Surcharges apply to trips with a pickup time.
+ */
+export function simulate(
+  trips: LabTrip[],
+  baseline: FareRuleSet,
+  candidate: FareRuleSet,
+  context: LabContext
+): LabResult[] {
+  const { holidays, boundaries } = context
+  return trips.map((trip) => {
+    const pickupZone = classifyZone(trip.pickupLat, trip.pickupLng, boundaries)
+    const dropoffZone = classifyZone(trip.dropoffLat, trip.dropoffLng, boundaries)
+    const clock = clockFor(trip, holidays)
+    const b = quote(trip, pickupZone, dropoffZone, baseline, clock)
+    const c = quote(trip, pickupZone, dropoffZone, candidate, clock)
+    return {
+      trip,
+      pickupZone,
+      dropoffZone,
+      baseline: b,
+      candidate: c,
+      delta: b.total != null && c.total != null ? c.total - b.total : null,
+    }
+  })
+}
+
+export function summarize(results: LabResult[]): LabSummary {
+  const priced = results.filter((r) => r.delta != null)
+  const baselineTotal = priced.reduce((sum, r) => sum + r.baseline.total!, 0)
+  const candidateTotal = priced.reduce((sum, r) => sum + r.candidate.total!, 0)
+  const revenueImpact = candidateTotal - baselineTotal
+
+  const byBranch = new Map<string, { trips: number; impact: number }>()
+  for (const r of priced) {
+    const key = r.candidate.branch ?? '—'
+    const entry = byBranch.get(key) ?? { trips: 0, impact: 0 }
+    entry.trips += 1
+    entry.impact += r.delta!
+    byBranch.set(key, entry)
+  }
+
+  return {
+    trips: results.length,
+    pricedBoth: priced.length,
+    baselineTotal,
+    candidateTotal,
+    revenueImpact,
+    revenueImpactPct: baselineTotal > 0 ? (revenueImpact / baselineTotal) * 100 : null,
+    actualTotal: results.reduce((sum, r) => sum + (r.trip.actualFare ?? 0), 0),
+    branchChanges: results.filter((r) => r.baseline.branch !== r.candidate.branch).length,
+    byBranch: Array.from(byBranch, ([branch, v]) => ({ branch, ...v })).sort(
+      (a, b) => Math.abs(b.impact) - Math.abs(a.impact)
+    ),
+  }
+}
+
+/**
+ * Pasted trips, one per line:
+ * `pickup_lat, pickup_lng, dropoff_lat, dropoff_lng, distance_km, actual_fare, pickup_at`
+ * (actual_fare and the ISO pickup_at optional). A header line and blank lines are skipped.
+ */
+export function parseLabTrips(text: string): { trips: LabTrip[]; errors: string[] } {
+  const trips: LabTrip[] = []
+  const errors: string[] = []
+
+  text.split('\n').forEach((raw, i) => {
+    const line = raw.trim()
+    if (!line || /[a-z]/i.test(line.split(/[,\t]/)[0])) return
+    const cells = line.split(/[,\t]/).map((c) => c.trim())
+    const pickupAt = cells[6] || null
+    const nums = cells.slice(0, 6).map((c) => (c === '' ? null : Number(c)))
+    const [pickupLat, pickupLng, dropoffLat, dropoffLng, distanceKm, actualFare] = nums
+    if (
+      cells.length < 5 ||
+      nums.some((n) => n != null && !Number.isFinite(n)) ||
+      pickupLat == null ||
+      pickupLng == null ||
+      dropoffLat == null ||
+      dropoffLng == null ||
+      (pickupAt != null && Number.isNaN(new Date(pickupAt).getTime()))
+    ) {
+      errors.push(
+        `Line ${i + 1}: expected pickup_lat, pickup_lng, dropoff_lat, dropoff_lng, distance_km[, actual_fare[, pickup_at]]`
+      )
+      return
+    }
+    trips.push({
+      ref: `line ${i + 1}`,
+      pickupLat,
+      pickupLng,
+      dropoffLat,
+      dropoffLng,
+      distanceKm: distanceKm ?? null,
+      actualFare: actualFare ?? null,
+      pickupAt,
+    })
+  })
+
+  return { trips, errors }
+}
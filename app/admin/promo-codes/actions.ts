@@ -0,0 +1,208 @@
+'use server'
+
+import { createServerActionClient } from '@supabase/auth-helpers-nextjs'
+import { createClient } from '@supabase/supabase-js'
+import { cookies } from 'next/headers'
+import { logger } from '@/lib/logger'
+import type { Database, PaymentStatus, PromoRedemptionStatus } from '@/types/database'
+import { validatePromoCodeInput, type PromoCodeInput } from './promo-input'
+
+function createServiceClient() {
+  return createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+}
+
+async function requireAdmin(): Promise<
+  | { ok: true; db: ReturnType<typeof createServiceClient>; adminUserId: string }
+  | { ok: false; error: string }
+> {
+  const authClient = createServerActionClient({ cookies })
+  const {
+    data: { user: authUser },
+    error: authError,
+  } = await authClient.auth.getUser()
+
+  if (authError || !authUser) {
+    return { ok: false, error: 'Not authenticated' }
+  }
+
+  const db = createServiceClient()
+  const { data: userRow, error: userError } = await db
+    .from('users')
+    .select('id, role')
+    .eq('auth_id', authUser.id)
+    .single()
+
+  if (userError || !userRow || userRow.role !== 'admin') {
+    return { ok: false, error: 'Only administrators can manage promo codes.' }
+  }
+
+  return { ok: true, db, adminUserId: userRow.id }
+}
+
+export type PromoCodeRow = Database['public']['Tables']['promo_codes']['Row'] & {
+  redeemed: number
+  pending: number
+  total_discount: number
+  last_redeemed_at: string | null
+}
+
+export type ListPromoCodesResult = { ok: true; rows: PromoCodeRow[] } | { ok: false; error: string }
+
+/** All codes, newest first, with redemption counts and the discount given on completed payments. */
+export async function listPromoCodes(): Promise<ListPromoCodesResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const [{ data: codes, error }, { data: redemptions, error: redemptionsError }] = await Promise.all([
+    gate.db.from('promo_codes').select('*').order('created_at', { ascending: false }),
+    gate.db
+      .from('promo_redemptions')
+      .select('promo_code_id, status, discount_amount, redeemed_at')
+      .neq('status', 'released'),
+  ])
+
+  if (error || redemptionsError) {
+    logger.error('listPromoCodes failed', { error: error ?? redemptionsError })
+    return { ok: false, error: 'Failed to load promo codes.' }
+  }
+
+  const stats = new Map<string, { redeemed: number; pending: number; total_discount: number; last_redeemed_at: string | null }>()
+  for (const r of redemptions ?? []) {
+    const s = stats.get(r.promo_code_id) ?? { redeemed: 0, pending: 0, total_discount: 0, last_redeemed_at: null }
+    if (r.status === 'redeemed') {
+      s.redeemed++
+      s.total_discount += Number(r.discount_amount)
+      if (r.redeemed_at && (!s.last_redeemed_at || r.redeemed_at > s.last_redeemed_at)) s.last_redeemed_at = r.redeemed_at
+    } else {
+      s.pending++
+    }
+    stats.set(r.promo_code_id, s)
+  }
+
+  return {
+    ok: true,
+    rows: (codes ?? []).map((c) => ({
+      ...c,
+      ...(stats.get(c.id) ?? { redeemed: 0, pending: 0, total_discount: 0, last_redeemed_at: null }),
+    })),
+  }
+}
+
+export type PromoRedemptionRow = {
+  id: string
+  status: PromoRedemptionStatus
+  user_name: string | null
+  user_phone: string | null
+  payment_transaction_id: string
+  payment_status: PaymentStatus | null
+  original_amount: number
+  discount_amount: number
+  final_amount: number
+  created_at: string
+  redeemed_at: string | null
+}
+
+export type ListPromoRedemptionsResult = { ok: true; rows: PromoRedemptionRow[] } | { ok: false; error: string }
+
+export async function listPromoRedemptions(promoCodeId: string): Promise<ListPromoRedemptionsResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const { data: redemptions, error } = await gate.db
+    .from('promo_redemptions')
+    .select('*')
+    .eq('promo_code_id', promoCodeId)
+    .order('created_at', { ascending: false })
+    .limit(200)
+
+  if (error) {
+    logger.error('listPromoRedemptions failed', { error, promoCodeId })
+    return { ok: false, error: 'Failed to load redemptions.' }
+  }
+
+  const rows = redemptions ?? []
+  const userIds = Array.from(new Set(rows.map((r) => r.user_id)))
+  const paymentIds = rows.map((r) => r.payment_transaction_id)
+  const [{ data: users }, { data: payments }] = await Promise.all([
+    userIds.length
+      ? gate.db.from('users').select('id, full_name, phone_number').in('id', userIds)
+      : Promise.resolve({ data: [] as { id: string; full_name: string; phone_number: string }[] }),
+    paymentIds.length
+      ? gate.db.from('payment_transactions').select('id, status').in('id', paymentIds)
+      : Promise.resolve({ data: [] as { id: string; status: PaymentStatus }[] }),
+  ])
+  const userById = new Map((users ?? []).map((u) => [u.id, u]))
+  const paymentStatus = new Map((payments ?? []).map((p) => [p.id, p.status]))
+
+  return {
+    ok: true,
+    rows: rows.map((r) => ({
+      id: r.id,
+      status: r.status,
+      user_name: userById.get(r.user_id)?.full_name ?? null,
+      user_phone: userById.get(r.user_id)?.phone_number ?? null,
+      payment_transaction_id: r.payment_transaction_id,
+      payment_status: paymentStatus.get(r.payment_transaction_id) ?? null,
+      original_amount: Number(r.original_amount),
+      discount_amount: Number(r.discount_amount),
+      final_amount: Number(r.final_amount),
+      created_at: r.created_at,
+      redeemed_at: r.redeemed_at,
+    })),
+  }
+}
+
+export type SavePromoCodeResult = { ok: true } | { ok: false; error: string }
+
+/**
+ * Create a code, or update the code with `existingId`. The code text can't change once created
+ * (it may already be printed on flyers); discount changes apply to checkouts started afterwards.
+ */
+export async function savePromoCode(input: PromoCodeInput, existingId?: string): Promise<SavePromoCodeResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const normalized: PromoCodeInput = {
+    ...input,
+    code: input.code.trim().toUpperCase(),
+    description: input.description?.trim() || null,
+    starts_at: input.starts_at || null,
+    expires_at: input.expires_at || null,
+  }
+  const invalid = validatePromoCodeInput(normalized)
+  if (invalid) return { ok: false, error: invalid }
+
+  const { code, ...values } = normalized
+  const { error } = existingId
+    ? await gate.db.from('promo_codes').update(values).eq('id', existingId)
+    : await gate.db.from('promo_codes').insert({ code, ...values, created_by: gate.adminUserId })
+
+  if (error) {
+    if (error.code === '23505') {
+      return { ok: false, error: `A promo code ${code} already exists.` }
+    }
+    logger.error('savePromoCode failed', { error, code })
+    return { ok: false, error: 'Failed to save promo code.' }
+  }
+  return { ok: true }
+}
+
+export type SetPromoCodeActiveResult = { ok: true } | { ok: false; error: string }
+
+/** Codes are never deleted (redemptions reference them); inactive codes are rejected at checkout. */
+export async function setPromoCodeActive(id: string, isActive: boolean): Promise<SetPromoCodeActiveResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const { error } = await gate.db.from('promo_codes').update({ is_active: isActive }).eq('id', id)
+
+  if (error) {
+    logger.error('setPromoCodeActive failed', { error, id, isActive })
+    return { ok: false, error: 'Failed to update promo code.' }
+  }
+  return { ok: true }
+}
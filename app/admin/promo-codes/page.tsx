@@ -0,0 +1,472 @@
+'use client'
+
+import { Fragment, useCallback, useEffect, useState, type FormEvent } from 'react'
+import { format } from 'date-fns'
+import { ChevronDown, ChevronRight, Loader2, Pencil, Plus, Ticket } from 'lucide-react'
+import {
+  listPromoCodes,
+  listPromoRedemptions,
+  savePromoCode,
+  setPromoCodeActive,
+  type PromoCodeRow,
+  type PromoRedemptionRow,
+} from './actions'
+import { PROMO_AUDIENCES, discountLabel } from './promo-input'
+import type { PromoDiscountType, SubscriptionAudience } from '@/types/database'
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+const btnPrimary =
+  'inline-flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50'
+const btnSecondary =
+  'inline-flex items-center justify-center gap-2 px-3 py-1.5 border border-gray-300 text-sm rounded-lg hover:bg-gray-50 disabled:opacity-50'
+
+function codeState(row: PromoCodeRow, now: Date): { label: string; className: string } {
+  if (!row.is_active) return { label: 'Disabled', className: 'bg-gray-200 text-gray-700' }
+  if (row.expires_at && new Date(row.expires_at) <= now) return { label: 'Expired', className: 'bg-gray-200 text-gray-700' }
+  if (row.starts_at && new Date(row.starts_at) > now) return { label: 'Scheduled', className: 'bg-blue-100 text-blue-800' }
+  if (row.max_redemptions != null && row.redeemed + row.pending >= row.max_redemptions) {
+    return { label: 'Used up', className: 'bg-orange-100 text-orange-800' }
+  }
+  return { label: 'Active', className: 'bg-green-100 text-green-800' }
+}
+
+function audienceLabel(audience: SubscriptionAudience | null) {
+  return PROMO_AUDIENCES.find((a) => a.value === (audience ?? ''))?.label ?? '—'
+}
+
+/** `datetime-local` value for an ISO instant, in the browser's time zone. */
+function toLocalInput(iso: string | null): string {
+  return iso ? format(new Date(iso), "yyyy-MM-dd'T'HH:mm") : ''
+}
+
+export default function PromoCodesPage() {
+  const [rows, setRows] = useState<PromoCodeRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [editing, setEditing] = useState<PromoCodeRow | 'new' | null>(null)
+  const [toggling, setToggling] = useState<string | null>(null)
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    const res = await listPromoCodes()
+    if (!res.ok) {
+      setError(res.error)
+    } else {
+      setRows(res.rows)
+    }
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  async function handleToggle(row: PromoCodeRow) {
+    if (row.is_active && !confirm(`Disable ${row.code}? Checkouts already started with it still go through.`)) {
+      return
+    }
+    setToggling(row.id)
+    const res = await setPromoCodeActive(row.id, !row.is_active)
+    setToggling(null)
+    if (!res.ok) {
+      alert(res.error)
+      return
+    }
+    await load()
+  }
+
+  const now = new Date()
+  const totalRedeemed = rows.reduce((sum, r) => sum + r.redeemed, 0)
+  const totalDiscount = rows.reduce((sum, r) => sum + r.total_discount, 0)
+  const activeCount = rows.filter((r) => codeState(r, now).label === 'Active').length
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Ticket className="h-8 w-8 text-blue-600" aria-hidden />
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Promo codes</h1>
+            <p className="text-sm text-gray-600 mt-1">
+              Discounts the apps can apply at subscription checkout. Each user can use a code once; a code that
+              makes the plan free grants the subscription without going through MMG.
+            </p>
+          </div>
+        </div>
+        <button type="button" className={btnPrimary} onClick={() => setEditing('new')}>
+          <Plus className="h-4 w-4" />
+          Add code
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-xs font-medium text-gray-500 uppercase tracking-wider">Active codes</p>
+          <p className="mt-1 text-2xl font-semibold text-gray-900">{activeCount}</p>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-xs font-medium text-gray-500 uppercase tracking-wider">Redemptions</p>
+          <p className="mt-1 text-2xl font-semibold text-gray-900">{totalRedeemed}</p>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-xs font-medium text-gray-500 uppercase tracking-wider">Discount given</p>
+          <p className="mt-1 text-2xl font-semibold text-gray-900">GYD {totalDiscount.toLocaleString()}</p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-red-50 border border-red-200 text-red-800 px-4 py-3 text-sm">{error}</div>
+      )}
+
+      <div className="rounded-xl border border-gray-200 bg-white overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Code</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Discount</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">For</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Valid</th>
+              <th className="px-4 py-3 text-right font-medium text-gray-700">Redeemed</th>
+              <th className="px-4 py-3 text-right font-medium text-gray-700">Discount given</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Status</th>
+              <th className="px-4 py-3 text-right font-medium text-gray-700">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {loading ? (
+              <tr>
+                <td colSpan={8} className="px-4 py-8 text-center text-gray-500">
+                  <Loader2 className="h-5 w-5 animate-spin inline" />
+                </td>
+              </tr>
+            ) : rows.length === 0 ? (
+              <tr>
+                <td colSpan={8} className="px-4 py-8 text-center text-gray-500">
+                  No promo codes yet.
+                </td>
+              </tr>
+            ) : (
+              rows.map((row) => {
+                const state = codeState(row, now)
+                const open = expanded === row.id
+                return (
+                  <Fragment key={row.id}>
+                    <tr className={`align-top ${row.is_active ? 'hover:bg-gray-50' : 'bg-gray-50 text-gray-500'}`}>
+                      <td className="px-4 py-3">
+                        <button
+                          type="button"
+                          className="inline-flex items-center gap-1 font-mono font-medium text-gray-900"
+                          onClick={() => setExpanded(open ? null : row.id)}
+                        >
+                          {open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          {row.code}
+                        </button>
+                        {row.description && <p className="text-xs text-gray-500 ml-5">{row.description}</p>}
+                      </td>
+                      <td className="px-4 py-3">
+                        {discountLabel(row)}
+                        {row.first_subscription_only && <p className="text-xs text-gray-500">First subscription only</p>}
+                      </td>
+                      <td className="px-4 py-3">{audienceLabel(row.audience)}</td>
+                      <td className="px-4 py-3 text-xs whitespace-nowrap">
+                        {row.starts_at ? format(new Date(row.starts_at), 'MMM d, yyyy') : 'Now'} –{' '}
+                        {row.expires_at ? format(new Date(row.expires_at), 'MMM d, yyyy') : 'no expiry'}
+                      </td>
+                      <td className="px-4 py-3 text-right tabular-nums">
+                        {row.redeemed}
+                        {row.max_redemptions != null && ` / ${row.max_redemptions}`}
+                        {row.pending > 0 && <p className="text-xs text-gray-500">{row.pending} in checkout</p>}
+                      </td>
+                      <td className="px-4 py-3 text-right tabular-nums">{row.total_discount.toLocaleString()}</td>
+                      <td className="px-4 py-3">
+                        <span className={`rounded px-2 py-0.5 text-xs font-medium ${state.className}`}>{state.label}</span>
+                      </td>
+                      <td className="px-4 py-3 text-right space-x-2 whitespace-nowrap">
+                        <button
+                          type="button"
+                          className={btnSecondary}
+                          onClick={() => setEditing(row)}
+                          aria-label={`Edit ${row.code}`}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </button>
+                        <button
+                          type="button"
+                          className={btnSecondary}
+                          disabled={toggling === row.id}
+                          onClick={() => void handleToggle(row)}
+                        >
+                          {row.is_active ? 'Disable' : 'Enable'}
+                        </button>
+                      </td>
+                    </tr>
+                    {open && (
+                      <tr>
+                        <td colSpan={8} className="bg-gray-50 px-4 py-3">
+                          <RedemptionList promoCodeId={row.id} />
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                )
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {editing && (
+        <PromoCodeModal
+          promo={editing === 'new' ? null : editing}
+          onClose={() => setEditing(null)}
+          onSaved={async () => {
+            setEditing(null)
+            await load()
+          }}
+        />
+      )}
+    </div>
+  )
+}
+
+const REDEMPTION_STATUS_CLASS = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  redeemed: 'bg-green-100 text-green-800',
+  released: 'bg-gray-200 text-gray-700',
+} as const
+
+function RedemptionList({ promoCodeId }: { promoCodeId: string }) {
+  const [rows, setRows] = useState<PromoRedemptionRow[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    void listPromoRedemptions(promoCodeId).then((res) => {
+      if (res.ok) setRows(res.rows)
+      else setError(res.error)
+    })
+  }, [promoCodeId])
+
+  if (error) return <p className="text-sm text-red-700">{error}</p>
+  if (!rows) return <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+  if (rows.length === 0) return <p className="text-sm text-gray-500">Not used yet.</p>
+
+  return (
+    <table className="min-w-full text-xs">
+      <thead>
+        <tr className="text-left text-gray-600">
+          <th className="py-1 pr-4 font-medium">User</th>
+          <th className="py-1 pr-4 font-medium">Started</th>
+          <th className="py-1 pr-4 font-medium text-right">Price</th>
+          <th className="py-1 pr-4 font-medium text-right">Discount</th>
+          <th className="py-1 pr-4 font-medium text-right">Paid</th>
+          <th className="py-1 pr-4 font-medium">Payment</th>
+          <th className="py-1 font-medium">Redemption</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-200">
+        {rows.map((r) => (
+          <tr key={r.id}>
+            <td className="py-1.5 pr-4">
+              {r.user_name ?? '—'}
+              {r.user_phone && <span className="text-gray-500"> · {r.user_phone}</span>}
+            </td>
+            <td className="py-1.5 pr-4 whitespace-nowrap">{format(new Date(r.created_at), 'MMM d, yyyy HH:mm')}</td>
+            <td className="py-1.5 pr-4 text-right tabular-nums">{r.original_amount.toLocaleString()}</td>
+            <td className="py-1.5 pr-4 text-right tabular-nums">{r.discount_amount.toLocaleString()}</td>
+            <td className="py-1.5 pr-4 text-right tabular-nums">{r.final_amount.toLocaleString()}</td>
+            <td className="py-1.5 pr-4">
+              <span className="font-mono">{r.payment_transaction_id.slice(0, 8)}</span> {r.payment_status ?? ''}
+            </td>
+            <td className="py-1.5">
+              <span className={`rounded px-2 py-0.5 font-medium ${REDEMPTION_STATUS_CLASS[r.status]}`}>{r.status}</span>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+function PromoCodeModal({
+  promo,
+  onClose,
+  onSaved,
+}: {
+  promo: PromoCodeRow | null
+  onClose: () => void
+  onSaved: () => Promise<void>
+}) {
+  const [code, setCode] = useState(promo?.code ?? '')
+  const [description, setDescription] = useState(promo?.description ?? '')
+  const [discountType, setDiscountType] = useState<PromoDiscountType>(promo?.discount_type ?? 'percent')
+  const [discountValue, setDiscountValue] = useState(promo ? String(promo.discount_value) : '')
+  const [audience, setAudience] = useState<SubscriptionAudience | ''>(promo?.audience ?? '')
+  const [firstOnly, setFirstOnly] = useState(promo?.first_subscription_only ?? false)
+  const [maxRedemptions, setMaxRedemptions] = useState(promo?.max_redemptions != null ? String(promo.max_redemptions) : '')
+  const [startsAt, setStartsAt] = useState(toLocalInput(promo?.starts_at ?? null))
+  const [expiresAt, setExpiresAt] = useState(toLocalInput(promo?.expires_at ?? null))
+  const [isActive, setIsActive] = useState(promo?.is_active ?? true)
+  const [saving, setSaving] = useState(false)
+  const [err, setErr] = useState<string | null>(null)
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault()
+    setErr(null)
+    setSaving(true)
+    const res = await savePromoCode(
+      {
+        code,
+        description: description || null,
+        discount_type: discountType,
+        discount_value: Number(discountValue),
+        audience: audience || null,
+        first_subscription_only: firstOnly,
+        max_redemptions: maxRedemptions.trim() ? Number(maxRedemptions) : null,
+        starts_at: startsAt ? new Date(startsAt).toISOString() : null,
+        expires_at: expiresAt ? new Date(expiresAt).toISOString() : null,
+        is_active: isActive,
+      },
+      promo?.id
+    )
+    setSaving(false)
+    if (!res.ok) {
+      setErr(res.error)
+      return
+    }
+    await onSaved()
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 overflow-y-auto">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full p-6 space-y-4 my-8">
+        <h3 className="text-lg font-semibold">{promo ? `Edit ${promo.code}` : 'Add promo code'}</h3>
+        <form onSubmit={(e) => void handleSubmit(e)} className="space-y-4">
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Code (typed by users)</label>
+            <input
+              className={`${inputClass} font-mono uppercase`}
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase())}
+              placeholder="LAUNCH50"
+              disabled={!!promo}
+              required
+            />
+            {promo && (
+              <p className="text-xs text-gray-500 mt-1">
+                The code can&apos;t change. Discount changes apply to checkouts started after saving.
+              </p>
+            )}
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Description</label>
+            <input
+              className={inputClass}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Optional, shown in the app"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Discount type</label>
+              <select
+                className={inputClass}
+                value={discountType}
+                onChange={(e) => setDiscountType(e.target.value as PromoDiscountType)}
+              >
+                <option value="percent">Percentage</option>
+                <option value="fixed">Fixed amount</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">
+                {discountType === 'percent' ? 'Percent off (100 = free)' : 'Amount off'}
+              </label>
+              <input
+                className={inputClass}
+                inputMode="decimal"
+                value={discountValue}
+                onChange={(e) => setDiscountValue(e.target.value)}
+                placeholder={discountType === 'percent' ? '50' : '1000'}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">For</label>
+              <select
+                className={inputClass}
+                value={audience}
+                onChange={(e) => setAudience(e.target.value as SubscriptionAudience | '')}
+              >
+                {PROMO_AUDIENCES.map((a) => (
+                  <option key={a.value} value={a.value}>
+                    {a.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Redemption limit</label>
+              <input
+                type="number"
+                min={1}
+                className={inputClass}
+                value={maxRedemptions}
+                onChange={(e) => setMaxRedemptions(e.target.value)}
+                placeholder="No limit"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Starts</label>
+              <input
+                type="datetime-local"
+                className={inputClass}
+                value={startsAt}
+                onChange={(e) => setStartsAt(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Expires</label>
+              <input
+                type="datetime-local"
+                className={inputClass}
+                value={expiresAt}
+                onChange={(e) => setExpiresAt(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={firstOnly} onChange={(e) => setFirstOnly(e.target.checked)} />
+            Only on a user&apos;s first subscription
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={isActive} onChange={(e) => setIsActive(e.target.checked)} />
+            Enabled
+          </label>
+
+          {err && <p className="text-sm text-red-600">{err}</p>}
+          <div className="flex gap-2 justify-end pt-2">
+            <button type="button" className={btnSecondary} onClick={onClose}>
+              Cancel
+            </button>
+            <button type="submit" className={btnPrimary} disabled={saving}>
+              {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+              Save
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,49 @@
+import type { PromoDiscountType, SubscriptionAudience } from '@/types/database'
+
+export type PromoCodeInput = {
+  code: string
+  description: string | null
+  discount_type: PromoDiscountType
+  discount_value: number
+  audience: SubscriptionAudience | null
+  first_subscription_only: boolean
+  max_redemptions: number | null
+  starts_at: string | null
+  expires_at: string | null
+  is_active: boolean
+}
+
+export const PROMO_AUDIENCES: { value: SubscriptionAudience | ''; label: string }[] = [
+  { value: '', label: 'Drivers and riders' },
+  { value: 'driver', label: 'Drivers only' },
+  { value: 'rider', label: 'Riders only' },
+]
+
+const CODE_RE = /^[A-Z0-9_-]{3,32}$/
+
+export function discountLabel(input: Pick<PromoCodeInput, 'discount_type' | 'discount_value'>, currency = 'GYD'): string {
+  const value = Number(input.discount_value)
+  if (input.discount_type === 'percent') return value === 100 ? 'Free' : `${value}% off`
+  return `${currency} ${value.toLocaleString()} off`
+}
+
+/** Server-side checks mirroring the `promo_codes` constraints; returns an error message or null. */
+export function validatePromoCodeInput(input: PromoCodeInput): string | null {
+  if (!CODE_RE.test(input.code)) return 'Code must be 3–32 uppercase letters, digits, dashes or underscores.'
+  if (input.discount_type !== 'percent' && input.discount_type !== 'fixed') return 'Choose a discount type.'
+  if (!Number.isFinite(input.discount_value) || input.discount_value <= 0) return 'Discount must be greater than 0.'
+  if (input.discount_type === 'percent' && input.discount_value > 100) return 'A percentage discount can be at most 100.'
+  if (input.audience !== null && input.audience !== 'driver' && input.audience !== 'rider') {
+    return 'Audience must be drivers, riders or both.'
+  }
+  if (input.max_redemptions !== null && (!Number.isInteger(input.max_redemptions) || input.max_redemptions <= 0)) {
+    return 'Redemption limit must be a whole number greater than 0, or empty for no limit.'
+  }
+  const starts = input.starts_at ? new Date(input.starts_at) : null
+  const expires = input.expires_at ? new Date(input.expires_at) : null
+  if ((starts && Number.isNaN(starts.getTime())) || (expires && Number.isNaN(expires.getTime()))) {
+    return 'Dates must be valid.'
+  }
+  if (starts && expires && starts >= expires) return 'The code must start before it expires.'
+  return null
+}
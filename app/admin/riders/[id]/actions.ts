@@ -3,9 +3,15 @@
 import { createServerActionClient } from '@supabase/auth-helpers-nextjs'
 import { createClient } from '@supabase/supabase-js'
 import { cookies } from 'next/headers'
-import { sendNotificationsToUsers } from '@/lib/firebase/notifications'
 import { logger } from '@/lib/logger'
-import type { Database, UserRole } from '@/types/database'
+import { sendMessage } from '@/lib/message-outbox'
+import { renderForUser } from '@/lib/notification-templates'
+import {
+  applyNotificationPreferences,
+  logSuppressedSend,
+  type PreferenceFilter,
+} from '@/lib/notification-preferences'
+import type { Database, NotificationCategory, UserRole, VerificationStatus } from '@/types/database'
 
 function createServiceClient() {
   return createClient<Database>(
@@ -19,12 +25,18 @@ export interface SendRiderPushResult {
   success: boolean
   successCount: number
   failureCount: number
+  /** Not sent yet: FCM was unavailable or rate limited, and the message outbox will retry it. */
+  queued?: boolean
+  /** Not sent: the user turned the category off, or is in quiet hours. */
+  suppressed?: 'opted_out' | 'quiet_hours'
   error?: string
 }
 
 export interface SendRiderPushOptions {
   skipInAppNotificationInsert?: boolean
   dataJson?: string
+  /** Notification category for the rider's preferences; defaults to account. */
+  category?: NotificationCategory
 }
 
 function parseFcmDataFromJson(
@@ -109,15 +121,56 @@ export async function sendRiderPushNotification(
   }
   const fcmData = parsedData.data
 
-  const result = await sendNotificationsToUsers(
-    [riderUserId],
+  const category = options?.category ?? 'account'
+  const logFields = {
+    recipientUserId: riderUserId,
+    sentByUserId: adminUserId,
+    notificationType: 'push',
+    metadata: fcmData ? { category, fcm_data_keys: Object.keys(fcmData) } : { category },
+  }
+
+  // Respect the rider's opt-outs and quiet hours; the skipped send is logged
+  let filter: PreferenceFilter
+  try {
+    filter = await applyNotificationPreferences(db, [riderUserId], category)
+  } catch (error) {
+    logger.error('Failed to load notification preferences', { error, riderUserId })
+    return { success: false, successCount: 0, failureCount: 0, error: 'Failed to load notification preferences' }
+  }
+  if (filter.allowed.length === 0) {
+    await logSuppressedSend(db, filter, { channel: 'push', title, body, log: logFields })
+    const suppressed = filter.suppressed.opted_out.length > 0 ? 'opted_out' : 'quiet_hours'
+    return {
+      success: false,
+      successCount: 0,
+      failureCount: 0,
+      suppressed,
+      error:
+        suppressed === 'opted_out'
+          ? `Not sent: the rider turned off ${category.replace('_', ' ')} notifications`
+          : 'Not sent: the rider is in quiet hours',
+    }
+  }
+
+  const result = await sendMessage(db, {
+    channel: 'push',
+    targets: [{ projectType: 'rider', userIds: [riderUserId] }],
     title,
     body,
-    'rider',
-    fcmData
-  )
+    data: fcmData,
+    log: logFields,
+  })
 
-  if (!options?.skipInAppNotificationInsert && result.successCount > 0) {
+  if (!result.ok) {
+    return { success: false, successCount: 0, failureCount: 0, error: result.error }
+  }
+  const { attempt } = result
+  const queued = attempt.outcome === 'retrying' || attempt.outcome === 'deferred'
+  const successCount = attempt.outcome !== 'deferred' ? attempt.push?.successCount ?? 0 : 0
+  const failureCount = attempt.outcome !== 'deferred' ? attempt.push?.failureCount ?? 0 : 0
+
+  // Record the notification in the database if it was delivered or is queued (unless caller already did)
+  if (!options?.skipInAppNotificationInsert && (successCount > 0 || queued)) {
     type NotificationInsert = Database['public']['Tables']['notifications']['Insert']
     const { error: insertError } = await db
       .from('notifications')
@@ -135,31 +188,72 @@ export async function sendRiderPushNotification(
     }
   }
 
-  await db.from('message_logs').insert({
-    channel: 'push',
-    recipient_user_id: riderUserId,
-    title,
-    message: body,
-    status: result.successCount > 0 ? 'sent' : 'failed',
-    sent_by_user_id: adminUserId,
-    notification_type: 'push',
-    metadata: {
-      success_count: result.successCount,
-      failure_count: result.failureCount,
-      invalid_tokens_removed: result.invalidTokens.length,
-      ...(fcmData ? { fcm_data_keys: Object.keys(fcmData) } : {}),
-    },
-  })
-
   logger.info('Admin sent push notification to rider', {
     riderUserId,
-    successCount: result.successCount,
-    failureCount: result.failureCount,
+    outcome: attempt.outcome,
+    successCount,
+    failureCount,
   })
 
-  return {
-    success: result.successCount > 0,
-    successCount: result.successCount,
-    failureCount: result.failureCount,
+  if (attempt.outcome === 'dead') {
+    return { success: false, successCount, failureCount, error: attempt.error }
+  }
+  return { success: successCount > 0 || queued, successCount, failureCount, queued }
+}
+
+/**
+ * Tells the rider about a verification decision: renders the `rider_verification_*` template in
+ * their locale, records the in-app notification and sends the push. Push failure is reported, not thrown.
+ */
+export async function sendRiderVerificationNotification(
+  riderUserId: string,
+  status: VerificationStatus,
+  rejectionReason?: string | null
+): Promise<SendRiderPushResult> {
+  const authClient = createServerActionClient({ cookies })
+  const {
+    data: { user: authUser },
+    error: authError,
+  } = await authClient.auth.getUser()
+
+  if (authError || !authUser) {
+    return { success: false, successCount: 0, failureCount: 0, error: 'Not authenticated' }
+  }
+
+  const db = createServiceClient()
+  const templateKey = `rider_verification_${status === 'pending' ? 'updated' : status}`
+
+  let rendered: Awaited<ReturnType<typeof renderForUser>>
+  try {
+    rendered = await renderForUser(db, templateKey, 'push', riderUserId, {
+      rejection_reason: rejectionReason ?? '',
+    })
+  } catch (error) {
+    logger.error('Failed to render verification notification', { error, templateKey, riderUserId })
+    return { success: false, successCount: 0, failureCount: 0, error: 'Failed to prepare the notification' }
+  }
+  if (!rendered) {
+    return { success: false, successCount: 0, failureCount: 0, error: 'Rider not found' }
+  }
+
+  type NotificationInsert = Database['public']['Tables']['notifications']['Insert']
+  const { error: insertError } = await db
+    .from('notifications')
+    .insert({
+      user_id: riderUserId,
+      title: rendered.title,
+      body: rendered.body,
+      notification_type: `verification_${status}`,
+      is_read: false,
+      read_at: null,
+    } satisfies NotificationInsert)
+
+  if (insertError) {
+    logger.warn('Failed to create verification notification record', { error: insertError, riderUserId })
+    return { success: false, successCount: 0, failureCount: 0, error: 'Failed to record the notification' }
   }
+
+  return sendRiderPushNotification(riderUserId, rendered.title, rendered.body, {
+    skipInAppNotificationInsert: true,
+  })
 }
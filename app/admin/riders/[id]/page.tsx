@@ -3,8 +3,10 @@
 import { useParams, useRouter } from 'next/navigation'
 import { useQuery, useQueryClient } from '@tanstack/react-query'
 import { createClient } from '@/lib/supabase/client'
-import { sendRiderPushNotification } from './actions'
+import { sendRiderPushNotification, sendRiderVerificationNotification } from './actions'
 import { manuallyFlagTrip } from '../../review-queue/actions'
+import { ManualSubscriptionModal } from '../../payments/manual-subscription-modal'
+import { MANUAL_ACTION_LABEL, MANUAL_REASON_LABEL } from '../../payments/manual-subscriptions'
 import Image from 'next/image'
 import {
   ArrowLeft,
@@ -296,6 +298,7 @@ const subscriptionBadgeColors = {
 const statusColors = {
   requested: 'bg-yellow-100 text-yellow-800',
   accepted: 'bg-blue-100 text-blue-800',
+  arrived: 'bg-cyan-100 text-cyan-800',
   picked_up: 'bg-purple-100 text-purple-800',
   completed: 'bg-green-100 text-green-800',
   cancelled: 'bg-red-100 text-red-800',
@@ -309,6 +312,7 @@ export default function RiderDetailPage() {
   const [isTogglingActive, setIsTogglingActive] = useState(false)
   const [toggleError, setToggleError] = useState<string | null>(null)
   const [showVerificationModal, setShowVerificationModal] = useState(false)
+  const [showSubscriptionModal, setShowSubscriptionModal] = useState(false)
   const [flaggingTripId, setFlaggingTripId] = useState<string | null>(null)
   const [flagOutcome, setFlagOutcome] = useState<
     Record<string, 'flagged' | 'already' | 'error'>
@@ -692,7 +696,17 @@ export default function RiderDetailPage() {
 
       {/* Subscription Details */}
       <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
-        <h2 className="text-lg font-semibold text-gray-900 mb-4">Subscription Details</h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-900">Subscription Details</h2>
+          <button
+            type="button"
+            onClick={() => setShowSubscriptionModal(true)}
+            className="inline-flex items-center px-3 py-1.5 text-sm bg-indigo-50 text-indigo-700 border border-indigo-200 rounded-lg hover:bg-indigo-100 transition-colors"
+          >
+            <Edit className="h-3.5 w-3.5 mr-1.5" />
+            Change Subscription
+          </button>
+        </div>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
           <div>
             <p className="text-sm text-gray-500 mb-1">Subscription Status</p>
@@ -746,6 +760,13 @@ export default function RiderDetailPage() {
                       <p className="text-sm text-gray-500">
                         {format(new Date(subscription.start_date), 'MMM dd, yyyy')} - {format(new Date(subscription.end_date), 'MMM dd, yyyy')}
                       </p>
+                      {subscription.manual_action && subscription.reason_code && (
+                        <p className="text-xs text-indigo-700 mt-1">
+                          {MANUAL_ACTION_LABEL[subscription.manual_action]} ·{' '}
+                          {MANUAL_REASON_LABEL[subscription.reason_code]}
+                          {subscription.reason_note ? ` — ${subscription.reason_note}` : ''}
+                        </p>
+                      )}
                     </div>
                     <div className="text-right">
                       <p className="font-semibold text-gray-900">
@@ -1100,6 +1121,21 @@ export default function RiderDetailPage() {
           }}
         />
       )}
+
+      {showSubscriptionModal && (
+        <ManualSubscriptionModal
+          userId={rider.user_id}
+          role="rider"
+          status={rider.subscription_status}
+          endDate={rider.subscription_end_date}
+          onClose={() => setShowSubscriptionModal(false)}
+          onSuccess={() => {
+            void queryClient.invalidateQueries({ queryKey: ['rider-detail', riderId] })
+            void queryClient.invalidateQueries({ queryKey: ['riders'] })
+            setShowSubscriptionModal(false)
+          }}
+        />
+      )}
     </div>
   )
 }
@@ -1169,36 +1205,11 @@ function RiderVerificationUpdateModal({
 
       const userId = rider.user_id
       if (userId) {
-        const title =
-          status === 'approved'
-            ? 'Verification approved'
-            : status === 'rejected'
-              ? 'Verification rejected'
-              : status === 'suspended'
-                ? 'Account suspended'
-                : 'Verification status updated'
-        const body =
-          status === 'approved'
-            ? 'Your rider account verification is complete. You can use trip requests as usual.'
-            : status === 'rejected'
-              ? 'Your identity verification was rejected. Please review the reason and resubmit your documents.'
-              : status === 'suspended'
-                ? 'Your rider account has been suspended. Please contact support for more information.'
-                : 'Your verification status has been updated.'
-
-        const { error: notifError } = await (supabase.from('notifications') as any).insert({
-          user_id: userId,
-          title,
-          body,
-          notification_type: `verification_${status}`,
-          is_read: false,
-        })
-
-        if (!notifError) {
-          await sendRiderPushNotification(userId, title, body, {
-            skipInAppNotificationInsert: true,
-          })
-        }
+        await sendRiderVerificationNotification(
+          userId,
+          status,
+          status === 'rejected' ? rejectionReason || null : null
+        )
       }
 
       onSuccess()
@@ -2,6 +2,11 @@
 
 import { useEffect, useId, useState } from 'react'
 import { createClient } from '@/lib/supabase/client'
+import { TemplatePicker } from '../notification-templates/template-picker'
+import type { SendableTemplate } from '../notification-templates/actions'
+import { CategorySelect } from '../notifications/category-select'
+import { NOTIFICATION_CATEGORIES } from '@/lib/notification-preferences'
+import type { NotificationCategory } from '@/types/database'
 import {
   AlertCircle,
   CheckCircle2,
@@ -24,6 +29,7 @@ type SendResult = {
   successCount: number
   failureCount: number
   invalidTokensRemoved: number
+  suppressedCount?: number
 }
 
 type ApiErrorBody = {
@@ -62,6 +68,8 @@ export function SendNotificationModal({
 }: Props) {
   const idPrefix = useId()
   const [step, setStep] = useState<Step>('form')
+  const [template, setTemplate] = useState<SendableTemplate | null>(null)
+  const [category, setCategory] = useState<NotificationCategory>('account')
   const [title, setTitle] = useState('')
   const [body, setBody] = useState('')
   const [notificationType, setNotificationType] = useState('')
@@ -81,6 +89,8 @@ export function SendNotificationModal({
   useEffect(() => {
     if (open) return
     setStep('form')
+    setTemplate(null)
+    setCategory('account')
     setTitle('')
     setBody('')
     setNotificationType('')
@@ -132,11 +142,9 @@ export function SendNotificationModal({
       }
 
       const data = parseDataPayload(dataJson)
-      const payload: Record<string, unknown> = {
-        user_ids: recipientUserIds,
-        title: title.trim(),
-        body: body.trim(),
-      }
+      const payload: Record<string, unknown> = template
+        ? { user_ids: recipientUserIds, category, template_key: template.key }
+        : { user_ids: recipientUserIds, category, title: title.trim(), body: body.trim() }
       if (notificationType.trim()) {
         payload.notification_type = notificationType.trim()
       }
@@ -214,45 +222,61 @@ export function SendNotificationModal({
 
         {step === 'form' && (
           <form onSubmit={handleProceedToConfirm} className="px-6 py-5 space-y-5">
-            <div>
-              <label
-                htmlFor={`${idPrefix}-push-title`}
-                className="block text-sm font-medium text-gray-700 mb-1"
-              >
-                Title <span className="text-red-500">*</span>
-              </label>
-              <input
-                id={`${idPrefix}-push-title`}
-                type="text"
-                required
-                maxLength={100}
-                value={title}
-                onChange={(e) => setTitle(e.target.value)}
-                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-gray-900 shadow-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
-                placeholder="e.g. Service update"
-              />
-              <p className="mt-1 text-xs text-gray-500">{title.length}/100</p>
-            </div>
-
-            <div>
-              <label
-                htmlFor={`${idPrefix}-push-body`}
-                className="block text-sm font-medium text-gray-700 mb-1"
-              >
-                Message <span className="text-red-500">*</span>
-              </label>
-              <textarea
-                id={`${idPrefix}-push-body`}
-                required
-                maxLength={500}
-                rows={4}
-                value={body}
-                onChange={(e) => setBody(e.target.value)}
-                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-gray-900 shadow-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
-                placeholder="Notification body shown on the device"
-              />
-              <p className="mt-1 text-xs text-gray-500">{body.length}/500</p>
-            </div>
+            <CategorySelect
+              id={`${idPrefix}-push-category`}
+              value={category}
+              onChange={setCategory}
+            />
+
+            <TemplatePicker
+              id={`${idPrefix}-push-template`}
+              value={template}
+              onChange={setTemplate}
+            />
+
+            {!template && (
+              <>
+                <div>
+                  <label
+                    htmlFor={`${idPrefix}-push-title`}
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    Title <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    id={`${idPrefix}-push-title`}
+                    type="text"
+                    required
+                    maxLength={100}
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    className="w-full rounded-lg border border-gray-300 px-3 py-2 text-gray-900 shadow-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+                    placeholder="e.g. Service update"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">{title.length}/100</p>
+                </div>
+
+                <div>
+                  <label
+                    htmlFor={`${idPrefix}-push-body`}
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    Message <span className="text-red-500">*</span>
+                  </label>
+                  <textarea
+                    id={`${idPrefix}-push-body`}
+                    required
+                    maxLength={500}
+                    rows={4}
+                    value={body}
+                    onChange={(e) => setBody(e.target.value)}
+                    className="w-full rounded-lg border border-gray-300 px-3 py-2 text-gray-900 shadow-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+                    placeholder="Notification body shown on the device"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">{body.length}/500</p>
+                </div>
+              </>
+            )}
 
             <div>
               <label
@@ -346,13 +370,23 @@ export function SendNotificationModal({
             </div>
 
             <div className="rounded-lg border border-gray-200 bg-gray-50 px-4 py-3 text-sm text-gray-800 space-y-1">
+              <p>
+                <span className="font-medium text-gray-600">Category:</span>{' '}
+                {NOTIFICATION_CATEGORIES.find((c) => c.value === category)?.label}
+              </p>
+              {template && (
+                <p>
+                  <span className="font-medium text-gray-600">Template:</span>{' '}
+                  {template.name}
+                </p>
+              )}
               <p>
                 <span className="font-medium text-gray-600">Title:</span>{' '}
-                {title}
+                {template ? template.title : title}
               </p>
               <p className="whitespace-pre-wrap">
                 <span className="font-medium text-gray-600">Message:</span>{' '}
-                {body}
+                {template ? template.body : body}
               </p>
               {notificationType.trim() && (
                 <p>
@@ -400,6 +434,9 @@ export function SendNotificationModal({
                   <li>Delivered (FCM success): {result.successCount}</li>
                   <li>Failed: {result.failureCount}</li>
                   <li>Invalid tokens cleared: {result.invalidTokensRemoved}</li>
+                  {result.suppressedCount ? (
+                    <li>Skipped (turned off or quiet hours): {result.suppressedCount}</li>
+                  ) : null}
                 </ul>
               </div>
             </div>
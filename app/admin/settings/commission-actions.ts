@@ -0,0 +1,99 @@
+'use server'
+
+import { createServerActionClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { createClient } from '@supabase/supabase-js'
+import { logger } from '@/lib/logger'
+import type { Database } from '@/types/database'
+import {
+  DRIVER_COMMISSION_CONFIG_KEY,
+  driverCommissionConfigToJson,
+  isValidCommissionRate,
+  loadDriverCommissionConfig,
+  type DriverCommissionConfig,
+} from '@/lib/driver-commission'
+
+function createServiceClient() {
+  return createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+}
+
+async function requireAdmin(): Promise<
+  | { ok: true; db: ReturnType<typeof createServiceClient>; adminUserId: string }
+  | { ok: false; error: string }
+> {
+  const authClient = createServerActionClient({ cookies })
+  const {
+    data: { user: authUser },
+    error: authError,
+  } = await authClient.auth.getUser()
+
+  if (authError || !authUser) {
+    return { ok: false, error: 'Not authenticated' }
+  }
+
+  const db = createServiceClient()
+  const { data: userRow, error: userError } = await db
+    .from('users')
+    .select('id, role')
+    .eq('auth_id', authUser.id)
+    .single()
+
+  if (userError || !userRow || userRow.role !== 'admin') {
+    return { ok: false, error: 'Only administrators can manage driver commission.' }
+  }
+
+  return { ok: true, db, adminUserId: userRow.id }
+}
+
+export type GetCommissionConfigResult = { ok: true; config: DriverCommissionConfig } | { ok: false; error: string }
+
+export async function getCommissionConfig(): Promise<GetCommissionConfigResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) {
+    return { ok: false, error: gate.error }
+  }
+
+  try {
+    return { ok: true, config: await loadDriverCommissionConfig(gate.db) }
+  } catch (error) {
+    logger.error('getCommissionConfig failed', { error })
+    return { ok: false, error: 'Failed to load commission settings.' }
+  }
+}
+
+export type SaveCommissionConfigResult = { ok: true } | { ok: false; error: string }
+
+export async function saveCommissionConfig(config: DriverCommissionConfig): Promise<SaveCommissionConfigResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) {
+    return { ok: false, error: gate.error }
+  }
+
+  if (!isValidCommissionRate(config.defaultRatePercent)) {
+    return { ok: false, error: 'Default rate must be 0 to 100 percent, with at most two decimals.' }
+  }
+
+  const { error } = await gate.db.from('system_config').upsert(
+    {
+      key: DRIVER_COMMISSION_CONFIG_KEY,
+      value: driverCommissionConfigToJson(config),
+      description:
+        'Commission charged on completed trips of drivers billed by commission, unless the driver has their own rate.',
+      updated_at: new Date().toISOString(),
+      updated_by: gate.adminUserId,
+    },
+    { onConflict: 'key' }
+  )
+
+  if (error) {
+    logger.error('saveCommissionConfig failed', { error })
+    return { ok: false, error: 'Failed to save commission settings.' }
+  }
+
+  logger.info('Driver commission config updated by admin', { defaultRatePercent: config.defaultRatePercent })
+  return { ok: true }
+}
@@ -0,0 +1,104 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { AlertCircle, CheckCircle2, Loader2, Percent } from 'lucide-react'
+import { getCommissionConfig, saveCommissionConfig } from './commission-actions'
+
+export function CommissionSettingsSection() {
+  const [defaultRate, setDefaultRate] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [msg, setMsg] = useState<{ kind: 'ok' | 'err'; text: string } | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    const res = await getCommissionConfig()
+    if (!res.ok) {
+      setMsg({ kind: 'err', text: res.error })
+    } else {
+      setDefaultRate(String(res.config.defaultRatePercent))
+    }
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  async function onSave() {
+    setMsg(null)
+    setSaving(true)
+    const res = await saveCommissionConfig({ defaultRatePercent: Number(defaultRate) })
+    setSaving(false)
+    if (!res.ok) {
+      setMsg({ kind: 'err', text: res.error })
+      return
+    }
+    setMsg({ kind: 'ok', text: 'Commission settings saved. Trips completed from now on use the new rate.' })
+    void load()
+  }
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <Percent className="h-5 w-5 text-gray-500" />
+          Driver commission
+        </h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Drivers switched to commission billing (on their driver page) owe this percentage of each completed
+          trip&apos;s fare, unless they have their own rate. Trips already completed keep the rate they were
+          charged at.
+        </p>
+      </div>
+
+      {msg && (
+        <div
+          className={
+            msg.kind === 'ok'
+              ? 'flex items-start gap-2 rounded-lg bg-green-50 border border-green-100 px-3 py-2 text-sm text-green-900'
+              : 'flex items-start gap-2 rounded-lg bg-red-50 border border-red-100 px-3 py-2 text-sm text-red-800'
+          }
+        >
+          {msg.kind === 'ok' ? (
+            <CheckCircle2 className="h-5 w-5 shrink-0 mt-0.5" />
+          ) : (
+            <AlertCircle className="h-5 w-5 shrink-0 mt-0.5" />
+          )}
+          <span>{msg.text}</span>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-gray-600 text-sm">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading commission settings…
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <label className="block text-sm sm:w-1/2">
+            <span className="font-medium text-gray-700">Default commission rate (%)</span>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step="0.01"
+              className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+              value={defaultRate}
+              onChange={(e) => setDefaultRate(e.target.value)}
+            />
+          </label>
+          <button
+            type="button"
+            disabled={saving}
+            onClick={() => void onSave()}
+            className="inline-flex items-center justify-center gap-2 rounded-lg bg-blue-600 px-4 py-2.5 text-sm font-medium text-white shadow hover:bg-blue-700 disabled:opacity-50 disabled:pointer-events-none"
+          >
+            {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+            Save commission settings
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
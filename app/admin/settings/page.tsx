@@ -10,6 +10,8 @@ import {
   updateAppVersionConfig,
 } from './actions'
 import { AgreementSettingsSection } from './agreement-section'
+import { RenewalSettingsSection } from './renewal-section'
+import { CommissionSettingsSection } from './commission-section'
 import { APP_VERSION_UI_ROWS } from './constants'
 import type { AppVersionConfigInput } from './types'
 import type { AppVersionAppType, AppVersionPlatform } from '@/types/database'
@@ -200,6 +202,10 @@ export default function AdminSettingsPage() {
         <>
           <AgreementSettingsSection />
 
+          <RenewalSettingsSection />
+
+          <CommissionSettingsSection />
+
           <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6 space-y-4">
             <div>
               <h2 className="text-lg font-semibold text-gray-900">Trip requests</h2>
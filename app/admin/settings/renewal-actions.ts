@@ -0,0 +1,103 @@
+'use server'
+
+import { createServerActionClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { createClient } from '@supabase/supabase-js'
+import { logger } from '@/lib/logger'
+import type { Database } from '@/types/database'
+import {
+  RENEWAL_CONFIG_KEY,
+  loadRenewalConfig,
+  renewalConfigToJson,
+  type RenewalConfig,
+} from '@/lib/subscription-renewals'
+
+function createServiceClient() {
+  return createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+}
+
+async function requireAdmin(): Promise<
+  | { ok: true; db: ReturnType<typeof createServiceClient>; adminUserId: string }
+  | { ok: false; error: string }
+> {
+  const authClient = createServerActionClient({ cookies })
+  const {
+    data: { user: authUser },
+    error: authError,
+  } = await authClient.auth.getUser()
+
+  if (authError || !authUser) {
+    return { ok: false, error: 'Not authenticated' }
+  }
+
+  const db = createServiceClient()
+  const { data: userRow, error: userError } = await db
+    .from('users')
+    .select('id, role')
+    .eq('auth_id', authUser.id)
+    .single()
+
+  if (userError || !userRow || userRow.role !== 'admin') {
+    return { ok: false, error: 'Only administrators can manage subscription renewals.' }
+  }
+
+  return { ok: true, db, adminUserId: userRow.id }
+}
+
+export type GetRenewalConfigResult = { ok: true; config: RenewalConfig } | { ok: false; error: string }
+
+export async function getRenewalConfig(): Promise<GetRenewalConfigResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) {
+    return { ok: false, error: gate.error }
+  }
+
+  try {
+    return { ok: true, config: await loadRenewalConfig(gate.db) }
+  } catch (error) {
+    logger.error('getRenewalConfig failed', { error })
+    return { ok: false, error: 'Failed to load renewal settings.' }
+  }
+}
+
+export type SaveRenewalConfigResult = { ok: true } | { ok: false; error: string }
+
+export async function saveRenewalConfig(config: RenewalConfig): Promise<SaveRenewalConfigResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) {
+    return { ok: false, error: gate.error }
+  }
+
+  const reminderDays = Array.from(new Set(config.reminderDays)).sort((a, b) => b - a)
+  if (reminderDays.some((d) => !Number.isInteger(d) || d < 1 || d > 60)) {
+    return { ok: false, error: 'Reminder days must be whole numbers from 1 to 60.' }
+  }
+  if (!Number.isInteger(config.graceDays) || config.graceDays < 0 || config.graceDays > 60) {
+    return { ok: false, error: 'Grace period must be 0 to 60 days.' }
+  }
+  const channels = config.channels.filter((c) => c === 'push' || c === 'sms')
+
+  const { error } = await gate.db.from('system_config').upsert(
+    {
+      key: RENEWAL_CONFIG_KEY,
+      value: renewalConfigToJson({ reminderDays, graceDays: config.graceDays, channels }),
+      description:
+        'Renewal reminders sent reminder_days before subscription_end_date; subscriptions expire grace_days after it.',
+      updated_at: new Date().toISOString(),
+      updated_by: gate.adminUserId,
+    },
+    { onConflict: 'key' }
+  )
+
+  if (error) {
+    logger.error('saveRenewalConfig failed', { error })
+    return { ok: false, error: 'Failed to save renewal settings.' }
+  }
+
+  logger.info('Subscription renewal config updated by admin', { reminderDays, graceDays: config.graceDays, channels })
+  return { ok: true }
+}
@@ -0,0 +1,146 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { AlertCircle, BellRing, CheckCircle2, Loader2 } from 'lucide-react'
+import type { RenewalChannel } from '@/lib/subscription-renewals'
+import { getRenewalConfig, saveRenewalConfig } from './renewal-actions'
+
+const CHANNELS: { id: RenewalChannel; label: string }[] = [
+  { id: 'push', label: 'Push notification' },
+  { id: 'sms', label: 'SMS' },
+]
+
+export function RenewalSettingsSection() {
+  const [reminderDays, setReminderDays] = useState('')
+  const [graceDays, setGraceDays] = useState('')
+  const [channels, setChannels] = useState<RenewalChannel[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [msg, setMsg] = useState<{ kind: 'ok' | 'err'; text: string } | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    const res = await getRenewalConfig()
+    if (!res.ok) {
+      setMsg({ kind: 'err', text: res.error })
+    } else {
+      setReminderDays(res.config.reminderDays.join(', '))
+      setGraceDays(String(res.config.graceDays))
+      setChannels(res.config.channels)
+    }
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  async function onSave() {
+    setMsg(null)
+    setSaving(true)
+    const res = await saveRenewalConfig({
+      reminderDays: reminderDays
+        .split(',')
+        .map((d) => d.trim())
+        .filter(Boolean)
+        .map(Number),
+      graceDays: Number(graceDays),
+      channels,
+    })
+    setSaving(false)
+    if (!res.ok) {
+      setMsg({ kind: 'err', text: res.error })
+      return
+    }
+    setMsg({ kind: 'ok', text: 'Renewal settings saved. The next scheduled run uses them.' })
+    void load()
+  }
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <BellRing className="h-5 w-5 text-gray-500" />
+          Subscription renewals
+        </h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Drivers and riders are reminded before their subscription ends and once more after it ends. When
+          the grace period is over the subscription is marked <strong>expired</strong> and drivers can no
+          longer go online. Every reminder is logged under Message logs.
+        </p>
+      </div>
+
+      {msg && (
+        <div
+          className={
+            msg.kind === 'ok'
+              ? 'flex items-start gap-2 rounded-lg bg-green-50 border border-green-100 px-3 py-2 text-sm text-green-900'
+              : 'flex items-start gap-2 rounded-lg bg-red-50 border border-red-100 px-3 py-2 text-sm text-red-800'
+          }
+        >
+          {msg.kind === 'ok' ? (
+            <CheckCircle2 className="h-5 w-5 shrink-0 mt-0.5" />
+          ) : (
+            <AlertCircle className="h-5 w-5 shrink-0 mt-0.5" />
+          )}
+          <span>{msg.text}</span>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-gray-600 text-sm">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading renewal settings…
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">Remind days before expiry</span>
+              <input
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                placeholder="7, 3, 1"
+                value={reminderDays}
+                onChange={(e) => setReminderDays(e.target.value)}
+              />
+            </label>
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">Grace period (days)</span>
+              <input
+                type="number"
+                min={0}
+                max={60}
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                value={graceDays}
+                onChange={(e) => setGraceDays(e.target.value)}
+              />
+            </label>
+          </div>
+          <div className="flex flex-wrap gap-4 text-sm">
+            {CHANNELS.map((c) => (
+              <label key={c.id} className="inline-flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={channels.includes(c.id)}
+                  onChange={(e) =>
+                    setChannels((prev) => (e.target.checked ? [...prev, c.id] : prev.filter((x) => x !== c.id)))
+                  }
+                />
+                {c.label}
+              </label>
+            ))}
+          </div>
+          <button
+            type="button"
+            disabled={saving}
+            onClick={() => void onSave()}
+            className="inline-flex items-center justify-center gap-2 rounded-lg bg-blue-600 px-4 py-2.5 text-sm font-medium text-white shadow hover:bg-blue-700 disabled:opacity-50 disabled:pointer-events-none"
+          >
+            {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+            Save renewal settings
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
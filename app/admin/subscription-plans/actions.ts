@@ -0,0 +1,128 @@
+'use server'
+
+import { createServerActionClient } from '@supabase/auth-helpers-nextjs'
+import { createClient } from '@supabase/supabase-js'
+import { cookies } from 'next/headers'
+import { logger } from '@/lib/logger'
+import type { Database } from '@/types/database'
+import { validateSubscriptionPlanInput, type SubscriptionPlanInput } from './plan-input'
+
+function createServiceClient() {
+  return createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+}
+
+async function requireAdmin(): Promise<
+  | { ok: true; db: ReturnType<typeof createServiceClient>; adminUserId: string }
+  | { ok: false; error: string }
+> {
+  const authClient = createServerActionClient({ cookies })
+  const {
+    data: { user: authUser },
+    error: authError,
+  } = await authClient.auth.getUser()
+
+  if (authError || !authUser) {
+    return { ok: false, error: 'Not authenticated' }
+  }
+
+  const db = createServiceClient()
+  const { data: userRow, error: userError } = await db
+    .from('users')
+    .select('id, role')
+    .eq('auth_id', authUser.id)
+    .single()
+
+  if (userError || !userRow || userRow.role !== 'admin') {
+    return { ok: false, error: 'Only administrators can manage subscription plans.' }
+  }
+
+  return { ok: true, db, adminUserId: userRow.id }
+}
+
+export type SubscriptionPlanRow = Database['public']['Tables']['subscription_plans']['Row']
+
+export type ListSubscriptionPlansResult =
+  | { ok: true; rows: SubscriptionPlanRow[] }
+  | { ok: false; error: string }
+
+export async function listSubscriptionPlans(): Promise<ListSubscriptionPlansResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const { data, error } = await gate.db
+    .from('subscription_plans')
+    .select('*')
+    .order('audience', { ascending: true })
+    .order('sort_order', { ascending: true })
+    .order('price', { ascending: true })
+
+  if (error) {
+    logger.error('listSubscriptionPlans failed', { error })
+    return { ok: false, error: 'Failed to load subscription plans.' }
+  }
+  return { ok: true, rows: data ?? [] }
+}
+
+export type SaveSubscriptionPlanResult = { ok: true } | { ok: false; error: string }
+
+/**
+ * Create a plan, or update the plan with `existingCode`. The code is the key apps send to checkout,
+ * so it can't be renamed; price and term changes apply to checkouts started afterwards.
+ */
+export async function saveSubscriptionPlan(
+  input: SubscriptionPlanInput,
+  existingCode?: string
+): Promise<SaveSubscriptionPlanResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const normalized: SubscriptionPlanInput = {
+    ...input,
+    code: existingCode ?? input.code.trim().toLowerCase(),
+    label: input.label.trim(),
+    description: input.description?.trim() || null,
+    currency: input.currency.trim().toUpperCase(),
+  }
+  const invalid = validateSubscriptionPlanInput(normalized)
+  if (invalid) return { ok: false, error: invalid }
+
+  const { code, ...values } = normalized
+  const { error } = existingCode
+    ? await gate.db.from('subscription_plans').update(values).eq('code', existingCode)
+    : await gate.db.from('subscription_plans').insert({ code, ...values })
+
+  if (error) {
+    if (error.code === '23505') {
+      return { ok: false, error: `A plan with code ${code} already exists.` }
+    }
+    logger.error('saveSubscriptionPlan failed', { error, code })
+    return { ok: false, error: 'Failed to save subscription plan.' }
+  }
+  return { ok: true }
+}
+
+export type SetSubscriptionPlanActiveResult = { ok: true } | { ok: false; error: string }
+
+/** Plans are never deleted (payments reference them); inactive plans are hidden from checkout. */
+export async function setSubscriptionPlanActive(
+  code: string,
+  isActive: boolean
+): Promise<SetSubscriptionPlanActiveResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const { error } = await gate.db
+    .from('subscription_plans')
+    .update({ is_active: isActive })
+    .eq('code', code)
+
+  if (error) {
+    logger.error('setSubscriptionPlanActive failed', { error, code, isActive })
+    return { ok: false, error: 'Failed to update subscription plan.' }
+  }
+  return { ok: true }
+}
@@ -0,0 +1,370 @@
+'use client'
+
+import { useCallback, useEffect, useState, type FormEvent } from 'react'
+import { BadgeDollarSign, Loader2, Pencil, Plus } from 'lucide-react'
+import {
+  listSubscriptionPlans,
+  saveSubscriptionPlan,
+  setSubscriptionPlanActive,
+  type SubscriptionPlanRow,
+} from './actions'
+import { PLAN_AUDIENCES, TERM_PRESETS, termLabel } from './plan-input'
+import type { SubscriptionAudience } from '@/types/database'
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+const btnPrimary =
+  'inline-flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50'
+const btnSecondary =
+  'inline-flex items-center justify-center gap-2 px-3 py-1.5 border border-gray-300 text-sm rounded-lg hover:bg-gray-50 disabled:opacity-50'
+
+function price(row: SubscriptionPlanRow): string {
+  return `${row.currency} ${Number(row.price).toLocaleString()}`
+}
+
+export default function SubscriptionPlansPage() {
+  const [rows, setRows] = useState<SubscriptionPlanRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [editing, setEditing] = useState<SubscriptionPlanRow | 'new' | null>(null)
+  const [toggling, setToggling] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    const res = await listSubscriptionPlans()
+    if (!res.ok) {
+      setError(res.error)
+    } else {
+      setRows(res.rows)
+    }
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  async function handleToggle(row: SubscriptionPlanRow) {
+    if (row.is_active && !confirm(`Hide “${row.label}” from checkout? Existing subscriptions are not affected.`)) {
+      return
+    }
+    setToggling(row.code)
+    const res = await setSubscriptionPlanActive(row.code, !row.is_active)
+    setToggling(null)
+    if (!res.ok) {
+      alert(res.error)
+      return
+    }
+    await load()
+  }
+
+  const nextSortOrder = rows.length ? Math.max(...rows.map((r) => r.sort_order)) + 10 : 10
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <BadgeDollarSign className="h-8 w-8 text-blue-600" aria-hidden />
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Subscription plans</h1>
+            <p className="text-sm text-gray-600 mt-1">
+              What the driver and rider apps can buy. Checkout charges the price listed here and the subscription
+              runs for the plan&apos;s term; trial days are added to a user&apos;s first subscription only.
+            </p>
+          </div>
+        </div>
+        <button type="button" className={btnPrimary} onClick={() => setEditing('new')}>
+          <Plus className="h-4 w-4" />
+          Add plan
+        </button>
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-red-50 border border-red-200 text-red-800 px-4 py-3 text-sm">{error}</div>
+      )}
+
+      <div className="rounded-xl border border-gray-200 bg-white overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Plan</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Code</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">For</th>
+              <th className="px-4 py-3 text-right font-medium text-gray-700">Price</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Term</th>
+              <th className="px-4 py-3 text-right font-medium text-gray-700">Trial</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Status</th>
+              <th className="px-4 py-3 text-right font-medium text-gray-700">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {loading ? (
+              <tr>
+                <td colSpan={8} className="px-4 py-8 text-center text-gray-500">
+                  <Loader2 className="h-5 w-5 animate-spin inline" />
+                </td>
+              </tr>
+            ) : rows.length === 0 ? (
+              <tr>
+                <td colSpan={8} className="px-4 py-8 text-center text-gray-500">
+                  No plans yet. Apps cannot check out until at least one plan is active.
+                </td>
+              </tr>
+            ) : (
+              rows.map((row) => (
+                <tr key={row.code} className={`align-top ${row.is_active ? 'hover:bg-gray-50' : 'bg-gray-50 text-gray-500'}`}>
+                  <td className="px-4 py-3">
+                    <p className="font-medium text-gray-900">{row.label}</p>
+                    {row.description && <p className="text-xs text-gray-500">{row.description}</p>}
+                  </td>
+                  <td className="px-4 py-3 font-mono text-xs">{row.code}</td>
+                  <td className="px-4 py-3 capitalize">{row.audience}s</td>
+                  <td className="px-4 py-3 text-right tabular-nums">{price(row)}</td>
+                  <td className="px-4 py-3">{termLabel(row.term_days)}</td>
+                  <td className="px-4 py-3 text-right tabular-nums">
+                    {row.trial_days ? `${row.trial_days} days` : '—'}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span
+                      className={`rounded px-2 py-0.5 text-xs font-medium ${
+                        row.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-200 text-gray-700'
+                      }`}
+                    >
+                      {row.is_active ? 'Active' : 'Hidden'}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-right space-x-2 whitespace-nowrap">
+                    <button
+                      type="button"
+                      className={btnSecondary}
+                      onClick={() => setEditing(row)}
+                      aria-label={`Edit ${row.label}`}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </button>
+                    <button
+                      type="button"
+                      className={btnSecondary}
+                      disabled={toggling === row.code}
+                      onClick={() => void handleToggle(row)}
+                    >
+                      {row.is_active ? 'Hide' : 'Activate'}
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {editing && (
+        <SubscriptionPlanModal
+          plan={editing === 'new' ? null : editing}
+          defaultSortOrder={nextSortOrder}
+          onClose={() => setEditing(null)}
+          onSaved={async () => {
+            setEditing(null)
+            await load()
+          }}
+        />
+      )}
+    </div>
+  )
+}
+
+function SubscriptionPlanModal({
+  plan,
+  defaultSortOrder,
+  onClose,
+  onSaved,
+}: {
+  plan: SubscriptionPlanRow | null
+  defaultSortOrder: number
+  onClose: () => void
+  onSaved: () => Promise<void>
+}) {
+  const [code, setCode] = useState(plan?.code ?? '')
+  const [audience, setAudience] = useState<SubscriptionAudience>(plan?.audience ?? 'driver')
+  const [label, setLabel] = useState(plan?.label ?? '')
+  const [description, setDescription] = useState(plan?.description ?? '')
+  const [amount, setAmount] = useState(plan ? String(plan.price) : '')
+  const [currency, setCurrency] = useState(plan?.currency ?? 'GYD')
+  const [termDays, setTermDays] = useState(String(plan?.term_days ?? 30))
+  const [trialDays, setTrialDays] = useState(String(plan?.trial_days ?? 0))
+  const [sortOrder, setSortOrder] = useState(String(plan?.sort_order ?? defaultSortOrder))
+  const [isActive, setIsActive] = useState(plan?.is_active ?? true)
+  const [saving, setSaving] = useState(false)
+  const [err, setErr] = useState<string | null>(null)
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault()
+    setErr(null)
+    setSaving(true)
+    const res = await saveSubscriptionPlan(
+      {
+        code,
+        audience,
+        label,
+        description: description || null,
+        price: Number(amount),
+        currency,
+        term_days: Number(termDays),
+        trial_days: Number(trialDays),
+        is_active: isActive,
+        sort_order: Number(sortOrder),
+      },
+      plan?.code
+    )
+    setSaving(false)
+    if (!res.ok) {
+      setErr(res.error)
+      return
+    }
+    await onSaved()
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 overflow-y-auto">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full p-6 space-y-4 my-8">
+        <h3 className="text-lg font-semibold">{plan ? `Edit plan “${plan.label}”` : 'Add plan'}</h3>
+        <form onSubmit={(e) => void handleSubmit(e)} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Code (sent by the apps)</label>
+              <input
+                className={`${inputClass} font-mono`}
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="driver_weekly"
+                disabled={!!plan}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">For</label>
+              <select
+                className={inputClass}
+                value={audience}
+                onChange={(e) => setAudience(e.target.value as SubscriptionAudience)}
+              >
+                {PLAN_AUDIENCES.map((a) => (
+                  <option key={a.value} value={a.value}>
+                    {a.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          {plan && (
+            <p className="text-xs text-gray-500">
+              The code can&apos;t change. Price and term changes apply to checkouts started after saving.
+            </p>
+          )}
+
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Label (shown in the app)</label>
+            <input
+              className={inputClass}
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="Driver weekly"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Description</label>
+            <input
+              className={inputClass}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Optional"
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2">
+              <label className="block text-xs font-medium text-gray-600 mb-1">Price</label>
+              <input
+                className={inputClass}
+                inputMode="decimal"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="2000"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Currency</label>
+              <input className={inputClass} value={currency} onChange={(e) => setCurrency(e.target.value)} required />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Term (days)</label>
+              <input
+                type="number"
+                min={1}
+                className={inputClass}
+                value={termDays}
+                onChange={(e) => setTermDays(e.target.value)}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Trial days</label>
+              <input
+                type="number"
+                min={0}
+                className={inputClass}
+                value={trialDays}
+                onChange={(e) => setTrialDays(e.target.value)}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Sort order</label>
+              <input
+                type="number"
+                className={inputClass}
+                value={sortOrder}
+                onChange={(e) => setSortOrder(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {TERM_PRESETS.map((p) => (
+              <button
+                key={p.days}
+                type="button"
+                className={`${btnSecondary} ${Number(termDays) === p.days ? 'border-blue-500 text-blue-700' : ''}`}
+                onClick={() => setTermDays(String(p.days))}
+              >
+                {p.label}
+              </button>
+            ))}
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={isActive} onChange={(e) => setIsActive(e.target.checked)} />
+            Available at checkout
+          </label>
+
+          {err && <p className="text-sm text-red-600">{err}</p>}
+          <div className="flex gap-2 justify-end pt-2">
+            <button type="button" className={btnSecondary} onClick={onClose}>
+              Cancel
+            </button>
+            <button type="submit" className={btnPrimary} disabled={saving}>
+              {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+              Save
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,48 @@
+import type { SubscriptionAudience } from '@/types/database'
+
+export type SubscriptionPlanInput = {
+  code: string
+  audience: SubscriptionAudience
+  label: string
+  description: string | null
+  price: number
+  currency: string
+  term_days: number
+  trial_days: number
+  is_active: boolean
+  sort_order: number
+}
+
+export const PLAN_AUDIENCES: { value: SubscriptionAudience; label: string }[] = [
+  { value: 'driver', label: 'Drivers' },
+  { value: 'rider', label: 'Riders' },
+]
+
+/** Common terms offered as presets in the form; any whole number of days is allowed. */
+export const TERM_PRESETS = [
+  { days: 7, label: 'Weekly' },
+  { days: 30, label: 'Monthly' },
+  { days: 90, label: 'Quarterly' },
+  { days: 365, label: 'Yearly' },
+]
+
+const CODE_RE = /^[a-z0-9_]+$/
+
+export function termLabel(days: number): string {
+  return TERM_PRESETS.find((p) => p.days === days)?.label ?? `${days} days`
+}
+
+/** Server-side checks mirroring the `subscription_plans` constraints; returns an error message or null. */
+export function validateSubscriptionPlanInput(input: SubscriptionPlanInput): string | null {
+  if (!CODE_RE.test(input.code)) return 'Code must use lowercase letters, digits and underscores only.'
+  if (!PLAN_AUDIENCES.some((a) => a.value === input.audience)) return 'Audience must be drivers or riders.'
+  if (!input.label.trim()) return 'Label is required.'
+  if (!Number.isFinite(input.price) || input.price <= 0) return 'Price must be greater than 0.'
+  if (!/^[A-Z]{3}$/.test(input.currency)) return 'Currency must be a 3-letter code such as GYD.'
+  if (!Number.isInteger(input.term_days) || input.term_days <= 0) return 'Term must be a whole number of days.'
+  if (!Number.isInteger(input.trial_days) || input.trial_days < 0) {
+    return 'Trial days must be a whole number, 0 or more.'
+  }
+  if (!Number.isInteger(input.sort_order)) return 'Sort order must be a whole number.'
+  return null
+}
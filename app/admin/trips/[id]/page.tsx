@@ -57,39 +57,55 @@ type TripDetailData = {
     trip_request: Database['public']['Tables']['trip_requests']['Row'] | null
     cancelled_by_user: Database['public']['Tables']['users']['Row'] | null
   }
+  history: StatusHistoryRow[]
+}
+
+type StatusHistoryRow = Database['public']['Tables']['trip_status_history']['Row'] & {
+  changer: { full_name: string | null } | null
 }
 
 async function fetchTripDetail(tripId: string): Promise<TripDetailData> {
   const supabase = createClient()
 
-  const { data, error } = await supabase
-    .from('trips')
-    .select(`
-      *,
-      rider:rider_id (
-        id,
-        user:user_id (*)
-      ),
-      driver:driver_id (
-        id,
-        user:user_id (*)
-      ),
-      vehicle:vehicle_id (*),
-      trip_request:request_id (*),
-      cancelled_by_user:cancelled_by_user_id (*)
-    `)
-    .eq('id', tripId)
-    .single()
+  const [{ data, error }, historyRes] = await Promise.all([
+    supabase
+      .from('trips')
+      .select(`
+        *,
+        rider:rider_id (
+          id,
+          user:user_id (*)
+        ),
+        driver:driver_id (
+          id,
+          user:user_id (*)
+        ),
+        vehicle:vehicle_id (*),
+        trip_request:request_id (*),
+        cancelled_by_user:cancelled_by_user_id (*)
+      `)
+      .eq('id', tripId)
+      .single(),
+    supabase
+      .from('trip_status_history')
+      .select('*, changer:changed_by (full_name)')
+      .eq('trip_id', tripId)
+      .order('changed_at', { ascending: true }),
+  ])
 
   if (error) throw error
   if (!data) throw new Error('Trip not found')
 
-  return { trip: data as TripDetailData['trip'] }
+  return {
+    trip: data as TripDetailData['trip'],
+    history: (historyRes.data ?? []) as unknown as StatusHistoryRow[],
+  }
 }
 
 const statusColors: Record<TripStatus, string> = {
   requested: 'bg-yellow-100 text-yellow-800',
   accepted: 'bg-blue-100 text-blue-800',
+  arrived: 'bg-cyan-100 text-cyan-800',
   picked_up: 'bg-purple-100 text-purple-800',
   completed: 'bg-green-100 text-green-800',
   cancelled: 'bg-red-100 text-red-800',
@@ -172,7 +188,7 @@ export default function TripDetailPage() {
   const routeRealtimeEnabled =
     !!tripId &&
     !!data?.trip?.status &&
-    (data.trip.status === 'accepted' || data.trip.status === 'picked_up')
+    (data.trip.status === 'accepted' || data.trip.status === 'arrived' || data.trip.status === 'picked_up')
 
   useInvalidateTripRouteOnLocationInsert({
     tripId,
@@ -498,6 +514,26 @@ export default function TripDetailPage() {
           ) : (
             <p className="text-sm text-gray-400">No timeline data</p>
           )}
+          {data.history.length > 0 && (
+            <div className="mt-4 border-t border-gray-100 pt-4">
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Status changes</h3>
+              <ul className="space-y-2">
+                {data.history.map((h) => (
+                  <li key={h.id} className="text-sm">
+                    <span className="font-medium text-gray-900">
+                      {h.from_status ? `${h.from_status.replace('_', ' ')} → ` : ''}
+                      {h.to_status.replace('_', ' ')}
+                    </span>{' '}
+                    <span className="text-gray-500">
+                      by {h.changer?.full_name ?? h.actor} ({h.actor}) ·{' '}
+                      {formatGuyana(h.changed_at, 'MMM d, h:mm:ss a')}
+                    </span>
+                    {h.note && <p className="text-xs text-gray-500">{h.note}</p>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
 
         {/* Trip Request */}
@@ -73,6 +73,7 @@ async function fetchTrips(filters: {
 const statusColors = {
   requested: 'bg-yellow-100 text-yellow-800',
   accepted: 'bg-blue-100 text-blue-800',
+  arrived: 'bg-cyan-100 text-cyan-800',
   picked_up: 'bg-purple-100 text-purple-800',
   completed: 'bg-green-100 text-green-800',
   cancelled: 'bg-red-100 text-red-800',
@@ -98,13 +99,14 @@ export default function TripsPage() {
     queryFn: () => fetchTrips({ status, tripType, searchQuery, startDate, endDate }),
   })
 
-  const activeTripsCount = trips?.filter(t => ['accepted', 'picked_up'].includes(t.status)).length || 0
+  const activeTripsCount = trips?.filter(t => ['accepted', 'arrived', 'picked_up'].includes(t.status)).length || 0
   const pendingRequestsCount = trips?.filter(t => t.status === 'requested').length || 0
 
   const statusCounts: Record<string, number> = {
     total: trips?.length ?? 0,
     requested: 0,
     accepted: 0,
+    arrived: 0,
     picked_up: 0,
     completed: 0,
     cancelled: 0,
@@ -116,6 +118,7 @@ export default function TripsPage() {
   const statusStats = [
     { key: 'total', label: 'Total', color: 'bg-yellow-50 border-yellow-200 text-yellow-800', dot: 'bg-yellow-400' },
     { key: 'accepted', label: 'Accepted', color: 'bg-blue-50 border-blue-200 text-blue-800', dot: 'bg-blue-400' },
+    { key: 'arrived', label: 'Driver Arrived', color: 'bg-cyan-50 border-cyan-200 text-cyan-800', dot: 'bg-cyan-400' },
     { key: 'picked_up', label: 'Picked Up', color: 'bg-purple-50 border-purple-200 text-purple-800', dot: 'bg-purple-400' },
     { key: 'completed', label: 'Completed', color: 'bg-green-50 border-green-200 text-green-800', dot: 'bg-green-400' },
     { key: 'cancelled', label: 'Cancelled', color: 'bg-red-50 border-red-200 text-red-800', dot: 'bg-red-400' },
@@ -153,7 +156,7 @@ export default function TripsPage() {
       </div>
 
       {/* Status Count Cards */}
-      <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
         {statusStats.map(({ key, label, color, dot }) => (
           <button
             key={key}
@@ -196,6 +199,7 @@ export default function TripsPage() {
               <option value="all">All Status</option>
               <option value="requested">Requested</option>
               <option value="accepted">Accepted</option>
+              <option value="arrived">Driver Arrived</option>
               <option value="picked_up">Picked Up</option>
               <option value="completed">Completed</option>
               <option value="cancelled">Cancelled</option>
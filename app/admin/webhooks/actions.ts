@@ -0,0 +1,302 @@
+'use server'
+
+import { createServerActionClient } from '@supabase/auth-helpers-nextjs'
+import { createClient } from '@supabase/supabase-js'
+import { cookies } from 'next/headers'
+import { logger } from '@/lib/logger'
+import { isMmgCallback, settleMmgCallback, type MmgCallback } from '@/lib/payments/mmg-callback'
+import type { Database, MmgWebhookReplayOutcome, PaymentStatus } from '@/types/database'
+
+function createServiceClient() {
+  return createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+}
+
+async function requireAdmin(): Promise<
+  | { ok: true; db: ReturnType<typeof createServiceClient>; adminUserId: string }
+  | { ok: false; error: string }
+> {
+  const authClient = createServerActionClient({ cookies })
+  const {
+    data: { user: authUser },
+    error: authError,
+  } = await authClient.auth.getUser()
+
+  if (authError || !authUser) {
+    return { ok: false, error: 'Not authenticated' }
+  }
+
+  const db = createServiceClient()
+  const { data: userRow, error: userError } = await db
+    .from('users')
+    .select('id, role')
+    .eq('auth_id', authUser.id)
+    .single()
+
+  if (userError || !userRow || userRow.role !== 'admin') {
+    return { ok: false, error: 'Only administrators can inspect payment webhooks.' }
+  }
+
+  return { ok: true, db, adminUserId: userRow.id }
+}
+
+const PAGE_SIZE = 50
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+type WebhookLog = Database['public']['Tables']['mmg_webhook_logs']['Row']
+type Payment = Database['public']['Tables']['payment_transactions']['Row']
+
+export type WebhookPaymentSummary = Pick<
+  Payment,
+  'id' | 'status' | 'amount' | 'currency' | 'plan_code' | 'initiated_at' | 'completed_at' | 'error_message'
+> & { user_name: string | null }
+
+export type WebhookLogRow = Omit<WebhookLog, 'html_response' | 'raw_body'> & {
+  payment: WebhookPaymentSummary | null
+  replay_count: number
+}
+
+export type WebhookLogFilters = {
+  result: 'all' | 'success' | 'failure'
+  /** 'unsettled': successful deliveries whose payment is not completed (or refunded). */
+  settlement: 'all' | 'unsettled'
+  search: string
+  dateFrom: string
+  dateTo: string
+  page: number
+}
+
+export type ListWebhookLogsResult =
+  | { ok: true; rows: WebhookLogRow[]; total: number; pageSize: number }
+  | { ok: false; error: string }
+
+const PAYMENT_SUMMARY_COLUMNS = 'id, user_id, status, amount, currency, plan_code, initiated_at, completed_at, error_message'
+
+async function paymentSummaries(
+  db: ReturnType<typeof createServiceClient>,
+  ids: string[]
+): Promise<Map<string, WebhookPaymentSummary>> {
+  const map = new Map<string, WebhookPaymentSummary>()
+  const uuids = ids.filter((id) => UUID_REGEX.test(id))
+  if (uuids.length === 0) return map
+
+  const { data: payments, error } = await db.from('payment_transactions').select(PAYMENT_SUMMARY_COLUMNS).in('id', uuids)
+  if (error) throw error
+  const userIds = Array.from(new Set((payments ?? []).map((p) => p.user_id).filter((id): id is string => !!id)))
+  const { data: users, error: usersError } = userIds.length
+    ? await db.from('users').select('id, full_name').in('id', userIds)
+    : { data: [], error: null }
+  if (usersError) throw usersError
+  const names = new Map((users ?? []).map((u) => [u.id, u.full_name]))
+
+  for (const { user_id, ...p } of payments ?? []) {
+    map.set(p.id, { ...p, user_name: user_id ? names.get(user_id) ?? null : null })
+  }
+  return map
+}
+
+/** One page of deliveries, newest first, each with its payment and how often it was replayed. */
+export async function listWebhookLogs(filters: WebhookLogFilters): Promise<ListWebhookLogsResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  try {
+    let query = gate.db
+      .from('mmg_webhook_logs')
+      .select('id, merchant_transaction_id, transaction_id, result_code, result_message, created_at', { count: 'exact' })
+      .order('created_at', { ascending: false })
+
+    if (filters.result === 'success') query = query.eq('result_code', 0)
+    if (filters.result === 'failure') query = query.neq('result_code', 0)
+    if (filters.dateFrom) query = query.gte('created_at', `${filters.dateFrom}T00:00:00`)
+    if (filters.dateTo) query = query.lte('created_at', `${filters.dateTo}T23:59:59`)
+
+    // PostgREST filter syntax: keep ids and references to characters that can't break the `or` list
+    const search = filters.search.trim().replace(/[^0-9A-Za-z-]/g, '')
+    if (search) query = query.or(`merchant_transaction_id.ilike.%${search}%,transaction_id.ilike.%${search}%`)
+
+    if (filters.settlement === 'unsettled') {
+      const { data: open, error } = await gate.db
+        .from('payment_transactions')
+        .select('id')
+        .eq('payment_method', 'mmg')
+        .in('status', ['pending', 'processing', 'failed'])
+        .order('initiated_at', { ascending: false })
+        .limit(1000)
+      if (error) throw error
+      if (!open?.length) return { ok: true, rows: [], total: 0, pageSize: PAGE_SIZE }
+      query = query.eq('result_code', 0).in('merchant_transaction_id', open.map((p) => p.id))
+    }
+
+    const from = filters.page * PAGE_SIZE
+    const { data: logs, count, error } = await query.range(from, from + PAGE_SIZE - 1)
+    if (error) throw error
+
+    const rows = logs ?? []
+    const [payments, { data: replays, error: replaysError }] = await Promise.all([
+      paymentSummaries(
+        gate.db,
+        Array.from(new Set(rows.map((r) => r.merchant_transaction_id).filter((id): id is string => !!id)))
+      ),
+      rows.length
+        ? gate.db.from('mmg_webhook_replays').select('webhook_log_id').in('webhook_log_id', rows.map((r) => r.id))
+        : Promise.resolve({ data: [] as { webhook_log_id: string }[], error: null }),
+    ])
+    if (replaysError) throw replaysError
+    const replayCounts = new Map<string, number>()
+    for (const r of replays ?? []) replayCounts.set(r.webhook_log_id, (replayCounts.get(r.webhook_log_id) ?? 0) + 1)
+
+    return {
+      ok: true,
+      rows: rows.map((r) => ({
+        ...r,
+        payment: r.merchant_transaction_id ? payments.get(r.merchant_transaction_id) ?? null : null,
+        replay_count: replayCounts.get(r.id) ?? 0,
+      })),
+      total: count ?? 0,
+      pageSize: PAGE_SIZE,
+    }
+  } catch (error) {
+    logger.error('listWebhookLogs failed', { error })
+    return { ok: false, error: 'Failed to load webhook deliveries.' }
+  }
+}
+
+export type WebhookReplay = Database['public']['Tables']['mmg_webhook_replays']['Row'] & {
+  replayed_by_name: string | null
+}
+
+export type WebhookLogDetail = {
+  log: WebhookLog
+  payment: (Payment & { user_name: string | null }) | null
+  /** Every delivery for the same payment, newest first (including this one). */
+  deliveries: Pick<WebhookLog, 'id' | 'transaction_id' | 'result_code' | 'result_message' | 'created_at'>[]
+  replays: WebhookReplay[]
+}
+
+export type GetWebhookLogResult = { ok: true; detail: WebhookLogDetail } | { ok: false; error: string }
+
+export async function getWebhookLog(id: string): Promise<GetWebhookLogResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  try {
+    const { data: log, error } = await gate.db.from('mmg_webhook_logs').select('*').eq('id', id).maybeSingle()
+    if (error) throw error
+    if (!log) return { ok: false, error: 'Webhook delivery not found.' }
+
+    const merchantId = log.merchant_transaction_id
+    const [paymentResult, deliveriesResult, replaysResult] = await Promise.all([
+      merchantId && UUID_REGEX.test(merchantId)
+        ? gate.db.from('payment_transactions').select('*').eq('id', merchantId).maybeSingle()
+        : Promise.resolve({ data: null, error: null }),
+      merchantId
+        ? gate.db
+            .from('mmg_webhook_logs')
+            .select('id, transaction_id, result_code, result_message, created_at')
+            .eq('merchant_transaction_id', merchantId)
+            .order('created_at', { ascending: false })
+            .limit(50)
+        : Promise.resolve({ data: [], error: null }),
+      gate.db.from('mmg_webhook_replays').select('*').eq('webhook_log_id', id).order('created_at', { ascending: false }),
+    ])
+    if (paymentResult.error) throw paymentResult.error
+    if (deliveriesResult.error) throw deliveriesResult.error
+    if (replaysResult.error) throw replaysResult.error
+
+    const payment = paymentResult.data
+    const replays = replaysResult.data ?? []
+    const userIds = Array.from(
+      new Set([payment?.user_id, ...replays.map((r) => r.replayed_by)].filter((u): u is string => !!u))
+    )
+    const { data: users, error: usersError } = userIds.length
+      ? await gate.db.from('users').select('id, full_name').in('id', userIds)
+      : { data: [], error: null }
+    if (usersError) throw usersError
+    const names = new Map((users ?? []).map((u) => [u.id, u.full_name]))
+
+    return {
+      ok: true,
+      detail: {
+        log,
+        payment: payment ? { ...payment, user_name: payment.user_id ? names.get(payment.user_id) ?? null : null } : null,
+        deliveries: deliveriesResult.data ?? [],
+        replays: replays.map((r) => ({ ...r, replayed_by_name: names.get(r.replayed_by) ?? null })),
+      },
+    }
+  } catch (error) {
+    logger.error('getWebhookLog failed', { error, id })
+    return { ok: false, error: 'Failed to load the webhook delivery.' }
+  }
+}
+
+/** The logged payload; older rows without a usable raw_body are rebuilt from the columns. */
+function callbackFromLog(log: WebhookLog): MmgCallback | null {
+  if (isMmgCallback(log.raw_body)) return log.raw_body
+  if (!log.merchant_transaction_id || !log.transaction_id || log.result_code == null) return null
+  return {
+    merchantTransactionId: log.merchant_transaction_id,
+    transactionId: log.transaction_id,
+    ResultCode: String(log.result_code),
+    ResultMessage: log.result_message ?? '',
+    htmlResponse: log.html_response ?? '',
+  }
+}
+
+export type ReplayWebhookResult =
+  | { ok: true; outcome: MmgWebhookReplayOutcome; statusBefore: PaymentStatus | null; statusAfter: PaymentStatus | null }
+  | { ok: false; error: string }
+
+/**
+ * Re-runs the webhook's claim and grant for a logged delivery. Idempotent: a payment that is
+ * already settled is left alone, and granting reuses the subscription of an earlier half-finished
+ * attempt. Every replay is recorded in mmg_webhook_replays.
+ */
+export async function replayWebhookLog(id: string): Promise<ReplayWebhookResult> {
+  const gate = await requireAdmin()
+  if (!gate.ok) return { ok: false, error: gate.error }
+
+  const { data: log, error } = await gate.db.from('mmg_webhook_logs').select('*').eq('id', id).maybeSingle()
+  if (error) {
+    logger.error('replayWebhookLog load failed', { error, id })
+    return { ok: false, error: 'Failed to load the webhook delivery.' }
+  }
+  if (!log) return { ok: false, error: 'Webhook delivery not found.' }
+
+  const callback = callbackFromLog(log)
+  if (!callback || !UUID_REGEX.test(callback.merchantTransactionId)) {
+    return { ok: false, error: 'This delivery has no usable payload to replay.' }
+  }
+
+  const paymentId = callback.merchantTransactionId
+  const { data: before } = await gate.db.from('payment_transactions').select('status').eq('id', paymentId).maybeSingle()
+
+  let outcome: MmgWebhookReplayOutcome
+  let errorMessage: string | null = null
+  try {
+    outcome = (await settleMmgCallback(gate.db, callback, { takeOverProcessing: true })).outcome
+  } catch (err) {
+    logger.error('replayWebhookLog settle failed', { error: err, id, paymentId })
+    outcome = 'error'
+    errorMessage = err instanceof Error ? err.message : 'Replay failed'
+  }
+
+  const { data: after } = await gate.db.from('payment_transactions').select('status').eq('id', paymentId).maybeSingle()
+
+  const { error: recordError } = await gate.db.from('mmg_webhook_replays').insert({
+    webhook_log_id: log.id,
+    payment_transaction_id: before || after ? paymentId : null,
+    replayed_by: gate.adminUserId,
+    status_before: before?.status ?? null,
+    status_after: after?.status ?? null,
+    outcome,
+    error_message: errorMessage,
+  })
+  if (recordError) logger.error('replayWebhookLog record failed', { error: recordError, id })
+
+  if (outcome === 'error') return { ok: false, error: `Replay failed: ${errorMessage}` }
+  return { ok: true, outcome, statusBefore: before?.status ?? null, statusAfter: after?.status ?? null }
+}
@@ -0,0 +1,493 @@
+'use client'
+
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { format } from 'date-fns'
+import { ChevronLeft, ChevronRight, Filter, Loader2, RotateCcw, Search, Webhook, X } from 'lucide-react'
+import type { MmgWebhookReplayOutcome } from '@/types/database'
+import {
+  getWebhookLog,
+  listWebhookLogs,
+  replayWebhookLog,
+  type WebhookLogDetail,
+  type WebhookLogFilters,
+} from './actions'
+
+const paymentStatusColors: Record<string, string> = {
+  completed: 'bg-green-100 text-green-800',
+  pending: 'bg-yellow-100 text-yellow-800',
+  processing: 'bg-blue-100 text-blue-800',
+  failed: 'bg-red-100 text-red-800',
+  refunded: 'bg-gray-100 text-gray-800',
+}
+
+const REPLAY_OUTCOME: Record<MmgWebhookReplayOutcome, { label: string; className: string }> = {
+  completed: { label: 'Completed', className: 'bg-green-100 text-green-800' },
+  already_completed: { label: 'Already settled', className: 'bg-gray-100 text-gray-800' },
+  in_progress: { label: 'In progress', className: 'bg-blue-100 text-blue-800' },
+  failed: { label: 'Marked failed', className: 'bg-red-100 text-red-800' },
+  ignored: { label: 'Not applicable', className: 'bg-yellow-100 text-yellow-800' },
+  not_found: { label: 'Payment not found', className: 'bg-yellow-100 text-yellow-800' },
+  error: { label: 'Error', className: 'bg-red-100 text-red-800' },
+}
+
+const selectClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm'
+
+function ResultBadge({ code }: { code: number | null }) {
+  const ok = code === 0
+  return (
+    <span
+      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+        ok ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+      }`}
+    >
+      {ok ? 'Success' : `Failed${code != null ? ` (${code})` : ''}`}
+    </span>
+  )
+}
+
+function StatusBadge({ status }: { status: string | null }) {
+  if (!status) return <span className="text-xs text-gray-400">—</span>
+  return (
+    <span
+      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+        paymentStatusColors[status] ?? 'bg-gray-100 text-gray-800'
+      }`}
+    >
+      {status}
+    </span>
+  )
+}
+
+export default function WebhooksPage() {
+  const [filters, setFilters] = useState<WebhookLogFilters>({
+    result: 'all',
+    settlement: 'all',
+    search: '',
+    dateFrom: '',
+    dateTo: '',
+    page: 0,
+  })
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+
+  const update = (patch: Partial<WebhookLogFilters>) => setFilters((f) => ({ ...f, page: 0, ...patch }))
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['mmg-webhook-logs', filters],
+    queryFn: async () => {
+      const res = await listWebhookLogs(filters)
+      if (!res.ok) throw new Error(res.error)
+      return res
+    },
+  })
+
+  const rows = data?.rows ?? []
+  const total = data?.total ?? 0
+  const pageSize = data?.pageSize ?? 50
+  const totalPages = Math.ceil(total / pageSize)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <Webhook className="h-8 w-8 text-blue-600" aria-hidden />
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">MMG Webhooks</h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Every MMG payment callback, next to the payment it settles. Replay a delivery when processing failed
+            half-way.
+          </p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 md:p-6">
+        <div className="flex items-center gap-2 mb-4">
+          <Filter className="h-5 w-5 text-gray-500" />
+          <span className="text-sm font-medium text-gray-700">Filters</span>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+          <div className="lg:col-span-2">
+            <label className="block text-xs font-medium text-gray-500 mb-1">Payment or MMG transaction id</label>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <input
+                value={filters.search}
+                onChange={(e) => update({ search: e.target.value })}
+                className={`${selectClass} pl-9`}
+                placeholder="Search"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Result</label>
+            <select
+              value={filters.result}
+              onChange={(e) => update({ result: e.target.value as WebhookLogFilters['result'] })}
+              className={selectClass}
+            >
+              <option value="all">All</option>
+              <option value="success">Success</option>
+              <option value="failure">Failure</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">From date</label>
+            <input
+              type="date"
+              value={filters.dateFrom}
+              onChange={(e) => update({ dateFrom: e.target.value })}
+              className={selectClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">To date</label>
+            <input
+              type="date"
+              value={filters.dateTo}
+              onChange={(e) => update({ dateTo: e.target.value })}
+              className={selectClass}
+            />
+          </div>
+        </div>
+        <label className="mt-4 flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={filters.settlement === 'unsettled'}
+            onChange={(e) => update({ settlement: e.target.checked ? 'unsettled' : 'all' })}
+          />
+          Only successful deliveries whose payment isn&apos;t completed
+        </label>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left font-medium text-gray-700">Received</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-700">Result</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-700">Payment</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-700">MMG transaction</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-700">Payment status</th>
+                <th className="px-4 py-3 text-right font-medium text-gray-700">Replays</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={6} className="px-4 py-8 text-center text-gray-500">
+                    <Loader2 className="h-5 w-5 animate-spin inline" />
+                  </td>
+                </tr>
+              ) : rows.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-4 py-8 text-center text-gray-500">
+                    No webhook deliveries match these filters.
+                  </td>
+                </tr>
+              ) : (
+                rows.map((row) => {
+                  const stuck =
+                    row.result_code === 0 && !!row.payment && !['completed', 'refunded'].includes(row.payment.status)
+                  return (
+                    <tr
+                      key={row.id}
+                      onClick={() => setSelectedId(row.id)}
+                      className={`cursor-pointer hover:bg-gray-50 ${stuck ? 'bg-yellow-50' : ''}`}
+                    >
+                      <td className="px-4 py-3 whitespace-nowrap text-gray-600">
+                        {format(new Date(row.created_at), 'MMM dd, yyyy HH:mm:ss')}
+                      </td>
+                      <td className="px-4 py-3">
+                        <ResultBadge code={row.result_code} />
+                        {row.result_code !== 0 && row.result_message && (
+                          <span className="block text-xs text-gray-500 mt-1 max-w-xs truncate">{row.result_message}</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className="font-mono text-xs text-gray-700">{row.merchant_transaction_id?.slice(0, 8) ?? '—'}</span>
+                        {row.payment && (
+                          <span className="block text-xs text-gray-500">
+                            {row.payment.user_name ?? 'Unknown'} · {row.payment.currency}{' '}
+                            {Number(row.payment.amount).toFixed(2)}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 font-mono text-xs text-gray-700">{row.transaction_id ?? '—'}</td>
+                      <td className="px-4 py-3">
+                        <StatusBadge status={row.payment?.status ?? null} />
+                      </td>
+                      <td className="px-4 py-3 text-right tabular-nums text-gray-600">{row.replay_count || ''}</td>
+                    </tr>
+                  )
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+        {totalPages > 1 && (
+          <div className="flex items-center justify-between px-4 py-3 border-t border-gray-200 text-sm text-gray-600">
+            <span>
+              {filters.page * pageSize + 1}–{Math.min((filters.page + 1) * pageSize, total)} of {total}
+            </span>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setFilters((f) => ({ ...f, page: f.page - 1 }))}
+                disabled={filters.page === 0}
+                className="p-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                aria-label="Previous page"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => setFilters((f) => ({ ...f, page: f.page + 1 }))}
+                disabled={filters.page + 1 >= totalPages}
+                className="p-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                aria-label="Next page"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {selectedId && <WebhookDetailDialog id={selectedId} onClose={() => setSelectedId(null)} onSelect={setSelectedId} />}
+    </div>
+  )
+}
+
+function WebhookDetailDialog({
+  id,
+  onClose,
+  onSelect,
+}: {
+  id: string
+  onClose: () => void
+  onSelect: (id: string) => void
+}) {
+  const queryClient = useQueryClient()
+  const [replayMessage, setReplayMessage] = useState<{ ok: boolean; text: string } | null>(null)
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['mmg-webhook-log', id],
+    queryFn: async () => {
+      const res = await getWebhookLog(id)
+      if (!res.ok) throw new Error(res.error)
+      return res.detail
+    },
+  })
+
+  const replay = useMutation({
+    mutationFn: () => replayWebhookLog(id),
+    onSuccess: (res) => {
+      if (!res.ok) {
+        setReplayMessage({ ok: false, text: res.error })
+      } else {
+        setReplayMessage({
+          ok: true,
+          text: `${REPLAY_OUTCOME[res.outcome].label}. Payment ${res.statusBefore ?? 'not found'} → ${res.statusAfter ?? 'not found'}.`,
+        })
+      }
+      void queryClient.invalidateQueries({ queryKey: ['mmg-webhook-log', id] })
+      void queryClient.invalidateQueries({ queryKey: ['mmg-webhook-logs'] })
+    },
+  })
+
+  const handleReplay = () => {
+    if (!confirm('Re-run the webhook processing for this delivery? A payment that is already settled is left unchanged.')) return
+    setReplayMessage(null)
+    replay.mutate()
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-5xl w-full max-h-[90vh] overflow-y-auto p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-gray-900">Webhook delivery</h2>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={handleReplay}
+              disabled={!data || replay.isPending}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {replay.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+              Replay
+            </button>
+            <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        {replayMessage && (
+          <div
+            className={`rounded-lg border px-4 py-3 text-sm ${
+              replayMessage.ok ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-800'
+            }`}
+          >
+            {replayMessage.text}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="py-12 text-center">
+            <Loader2 className="h-6 w-6 animate-spin inline text-gray-400" />
+          </div>
+        ) : error || !data ? (
+          <p className="text-sm text-red-600">{error instanceof Error ? error.message : 'Failed to load.'}</p>
+        ) : (
+          <WebhookDetail detail={data} selectedId={id} onSelect={onSelect} />
+        )}
+      </div>
+    </div>
+  )
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <p className="text-xs text-gray-500">{label}</p>
+      <div className="text-sm font-medium text-gray-900 break-all">{children}</div>
+    </div>
+  )
+}
+
+function WebhookDetail({
+  detail,
+  selectedId,
+  onSelect,
+}: {
+  detail: WebhookLogDetail
+  selectedId: string
+  onSelect: (id: string) => void
+}) {
+  const { log, payment, deliveries, replays } = detail
+  const [showHtml, setShowHtml] = useState(false)
+
+  return (
+    <>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <section className="rounded-lg border border-gray-200 p-4 space-y-3">
+          <h3 className="font-semibold text-gray-900">Delivery</h3>
+          <div className="grid grid-cols-2 gap-3">
+            <Field label="Received">{format(new Date(log.created_at), 'MMM dd, yyyy HH:mm:ss')}</Field>
+            <Field label="Result">
+              <ResultBadge code={log.result_code} />
+            </Field>
+            <Field label="MMG transaction">{log.transaction_id ?? '—'}</Field>
+            <Field label="Message">{log.result_message || '—'}</Field>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500 mb-1">Payload</p>
+            <pre className="text-xs bg-gray-50 border border-gray-200 rounded-lg p-3 overflow-x-auto max-h-64">
+              {JSON.stringify(log.raw_body, null, 2)}
+            </pre>
+          </div>
+          {log.html_response && (
+            <div>
+              <button type="button" onClick={() => setShowHtml((v) => !v)} className="text-xs text-blue-600 hover:underline">
+                {showHtml ? 'Hide' : 'Show'} HTML response
+              </button>
+              {showHtml && (
+                <pre className="mt-1 text-xs bg-gray-50 border border-gray-200 rounded-lg p-3 overflow-x-auto max-h-64 whitespace-pre-wrap">
+                  {log.html_response}
+                </pre>
+              )}
+            </div>
+          )}
+        </section>
+
+        <section className="rounded-lg border border-gray-200 p-4 space-y-3">
+          <h3 className="font-semibold text-gray-900">Payment transaction</h3>
+          {payment ? (
+            <div className="grid grid-cols-2 gap-3">
+              <Field label="Payment ID">
+                <span className="font-mono text-xs">{payment.id}</span>
+              </Field>
+              <Field label="Status">
+                <StatusBadge status={payment.status} />
+              </Field>
+              <Field label="User">{payment.user_name ?? 'Unknown'}</Field>
+              <Field label="Amount">
+                {payment.currency} {Number(payment.amount).toFixed(2)}
+              </Field>
+              <Field label="Plan">{payment.plan_code ?? '—'}</Field>
+              <Field label="Method">{payment.payment_method}</Field>
+              <Field label="Initiated">{format(new Date(payment.initiated_at), 'MMM dd, yyyy HH:mm:ss')}</Field>
+              <Field label="Completed">
+                {payment.completed_at ? format(new Date(payment.completed_at), 'MMM dd, yyyy HH:mm:ss') : '—'}
+              </Field>
+              <Field label="MMG transaction">{payment.mmg_transaction_id ?? '—'}</Field>
+              <Field label="Subscription">
+                <span className="font-mono text-xs">{payment.subscription_id ?? '—'}</span>
+              </Field>
+              {payment.error_message && (
+                <div className="col-span-2">
+                  <Field label="Error">
+                    <span className="text-red-700">{payment.error_message}</span>
+                  </Field>
+                </div>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">
+              No payment transaction matches <span className="font-mono">{log.merchant_transaction_id ?? '—'}</span>.
+            </p>
+          )}
+        </section>
+      </div>
+
+      {deliveries.length > 1 && (
+        <section>
+          <h3 className="font-semibold text-gray-900 mb-2">All deliveries for this payment</h3>
+          <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg text-sm">
+            {deliveries.map((d) => (
+              <li key={d.id}>
+                <button
+                  type="button"
+                  onClick={() => onSelect(d.id)}
+                  className={`w-full flex items-center justify-between gap-3 px-4 py-2 text-left hover:bg-gray-50 ${
+                    d.id === selectedId ? 'bg-blue-50' : ''
+                  }`}
+                >
+                  <span className="text-gray-600">{format(new Date(d.created_at), 'MMM dd, yyyy HH:mm:ss')}</span>
+                  <span className="font-mono text-xs text-gray-500">{d.transaction_id ?? '—'}</span>
+                  <ResultBadge code={d.result_code} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <section>
+        <h3 className="font-semibold text-gray-900 mb-2">Replays</h3>
+        {replays.length === 0 ? (
+          <p className="text-sm text-gray-500">This delivery has not been replayed.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg text-sm">
+            {replays.map((r) => (
+              <li key={r.id} className="px-4 py-2 flex flex-wrap items-center gap-3">
+                <span className="text-gray-600">{format(new Date(r.created_at), 'MMM dd, yyyy HH:mm:ss')}</span>
+                <span className="text-gray-900">{r.replayed_by_name ?? 'Unknown admin'}</span>
+                <span
+                  className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${REPLAY_OUTCOME[r.outcome].className}`}
+                >
+                  {REPLAY_OUTCOME[r.outcome].label}
+                </span>
+                <span className="text-xs text-gray-500">
+                  {r.status_before ?? '—'} → {r.status_after ?? '—'}
+                </span>
+                {r.error_message && <span className="text-xs text-red-700">{r.error_message}</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </>
+  )
+}
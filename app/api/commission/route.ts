@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthenticationError, AuthorizationError, NotFoundError, handleApiError } from '@/lib/errors'
+import { createServiceRoleClient } from '@/lib/supabase-service'
+import { resolveUserFromBearerRequest } from '@/lib/bearer-api'
+import {
+  effectiveCommissionRate,
+  getCommissionBalance,
+  loadDriverCommissionConfig,
+} from '@/lib/driver-commission'
+
+export const dynamic = 'force-dynamic'
+
+const RECENT_STATEMENTS = 12
+
+/**
+ * The calling driver's commission billing: mode, rate, balance owed, recent weekly statements and
+ * the trips not on a statement yet. Pay the balance with POST /api/mmg/commission-checkout.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const gate = await resolveUserFromBearerRequest(request)
+    if (!gate.ok) {
+      const { response, statusCode } = handleApiError(
+        new AuthenticationError('Missing or invalid Authorization: Bearer <token>.')
+      )
+      return NextResponse.json(response, { status: statusCode })
+    }
+    if (gate.user.role !== 'driver') {
+      const { response, statusCode } = handleApiError(new AuthorizationError('Only drivers have commission billing.'))
+      return NextResponse.json(response, { status: statusCode })
+    }
+
+    const db = createServiceRoleClient()
+    const { data: driver, error } = await db
+      .from('driver_profiles')
+      .select('id, user_id, billing_mode, commission_rate_percent')
+      .eq('user_id', gate.user.id)
+      .maybeSingle()
+    if (error) throw error
+    if (!driver) {
+      const { response, statusCode } = handleApiError(new NotFoundError('Driver profile not found.'))
+      return NextResponse.json(response, { status: statusCode })
+    }
+
+    const [config, balance, statementsResult, openResult] = await Promise.all([
+      loadDriverCommissionConfig(db),
+      getCommissionBalance(db, driver),
+      db
+        .from('driver_commission_statements')
+        .select('*')
+        .eq('driver_id', driver.id)
+        .order('period_start', { ascending: false })
+        .limit(RECENT_STATEMENTS),
+      db
+        .from('driver_commission_accruals')
+        .select('trip_id, fare, rate_percent, amount, currency, accrued_at')
+        .eq('driver_id', driver.id)
+        .is('statement_id', null)
+        .order('accrued_at', { ascending: false }),
+    ])
+    if (statementsResult.error) throw statementsResult.error
+    if (openResult.error) throw openResult.error
+
+    return NextResponse.json({
+      billing_mode: driver.billing_mode,
+      commission_rate_percent: effectiveCommissionRate(driver, config),
+      balance: balance.balance,
+      accrued_total: balance.accrued,
+      paid_total: balance.paid,
+      currency: balance.currency,
+      statements: statementsResult.data ?? [],
+      unbilled_trips: openResult.data ?? [],
+    })
+  } catch (error) {
+    const { response, statusCode } = handleApiError(error)
+    return NextResponse.json(response, { status: statusCode })
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthenticationError, handleApiError } from '@/lib/errors'
+import { isCronRequest } from '@/lib/cron'
+import { createServiceRoleClient } from '@/lib/supabase-service'
+import { generateWeeklyStatements } from '@/lib/driver-commission'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Weekly driver commission statements for the previous Guyana week (`Authorization: Bearer $CRON_SECRET`).
+ * See docs/api/driver-commission.md.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!isCronRequest(request)) {
+      const { response, statusCode } = handleApiError(new AuthenticationError('Invalid cron secret.'))
+      return NextResponse.json(response, { status: statusCode })
+    }
+
+    const summary = await generateWeeklyStatements(createServiceRoleClient())
+    return NextResponse.json(summary)
+  } catch (error) {
+    const { response, statusCode } = handleApiError(error)
+    return NextResponse.json(response, { status: statusCode })
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthenticationError, handleApiError } from '@/lib/errors'
+import { isCronRequest } from '@/lib/cron'
+import { createServiceRoleClient } from '@/lib/supabase-service'
+import { processMessageOutbox } from '@/lib/message-outbox'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Sends due SMS and push from the outbound message queue (`Authorization: Bearer $CRON_SECRET`).
+ * See docs/api/message-outbox.md.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!isCronRequest(request)) {
+      const { response, statusCode } = handleApiError(new AuthenticationError('Invalid cron secret.'))
+      return NextResponse.json(response, { status: statusCode })
+    }
+
+    const summary = await processMessageOutbox(createServiceRoleClient())
+    return NextResponse.json(summary)
+  } catch (error) {
+    const { response, statusCode } = handleApiError(error)
+    return NextResponse.json(response, { status: statusCode })
+  }
+}
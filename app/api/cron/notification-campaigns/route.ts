@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthenticationError, handleApiError } from '@/lib/errors'
+import { isCronRequest } from '@/lib/cron'
+import { createServiceRoleClient } from '@/lib/supabase-service'
+import { processNotificationCampaigns } from '@/lib/notification-campaigns'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Starts due push campaigns and sends their next throttled batch (`Authorization: Bearer $CRON_SECRET`).
+ * Run it every minute. See docs/api/notification-campaigns.md.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!isCronRequest(request)) {
+      const { response, statusCode } = handleApiError(new AuthenticationError('Invalid cron secret.'))
+      return NextResponse.json(response, { status: statusCode })
+    }
+
+    const summary = await processNotificationCampaigns(createServiceRoleClient())
+    return NextResponse.json(summary)
+  } catch (error) {
+    const { response, statusCode } = handleApiError(error)
+    return NextResponse.json(response, { status: statusCode })
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthenticationError, handleApiError } from '@/lib/errors'
+import { isCronRequest } from '@/lib/cron'
+import { createServiceRoleClient } from '@/lib/supabase-service'
+import { reconcilePayments } from '@/lib/payments/reconcile'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Scheduled payment reconciliation (`Authorization: Bearer $CRON_SECRET`).
+ * See docs/api/payment-reconciliation.md.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!isCronRequest(request)) {
+      const { response, statusCode } = handleApiError(new AuthenticationError('Invalid cron secret.'))
+      return NextResponse.json(response, { status: statusCode })
+    }
+
+    const run = await reconcilePayments(createServiceRoleClient(), { trigger: 'scheduled' })
+    return NextResponse.json({
+      runId: run.id,
+      checked: run.checked,
+      completed: run.completed,
+      failed: run.failed,
+      unchanged: run.unchanged,
+      errored: run.errored,
+      error: run.error,
+    })
+  } catch (error) {
+    const { response, statusCode } = handleApiError(error)
+    return NextResponse.json(response, { status: statusCode })
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthenticationError, handleApiError } from '@/lib/errors'
+import { isCronRequest } from '@/lib/cron'
+import { createServiceRoleClient } from '@/lib/supabase-service'
+import { runSubscriptionRenewals } from '@/lib/subscription-renewals'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Scheduled renewal reminders, grace notices and expiry (`Authorization: Bearer $CRON_SECRET`).
+ * See docs/api/subscription-renewals.md.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!isCronRequest(request)) {
+      const { response, statusCode } = handleApiError(new AuthenticationError('Invalid cron secret.'))
+      return NextResponse.json(response, { status: statusCode })
+    }
+
+    const summary = await runSubscriptionRenewals(createServiceRoleClient())
+    return NextResponse.json(summary)
+  } catch (error) {
+    const { response, statusCode } = handleApiError(error)
+    return NextResponse.json(response, { status: statusCode })
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthenticationError, NotFoundError, handleApiError } from '@/lib/errors'
+import { logger } from '@/lib/logger'
+import { getMessagingProviderByName, statusCallbackUrl } from '@/lib/messaging/provider'
+import { applyDeliveryStatus } from '@/lib/sms'
+import { createServiceRoleClient } from '@/lib/supabase-service'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Delivery status callback for SMS sent through `<provider>` (lib/messaging/provider.ts). The provider
+ * verifies the request itself (Twilio signature, or the file provider's bearer secret), then the
+ * matching message_logs row moves forward. See docs/api/sms-delivery-status.md.
+ */
+export async function POST(request: NextRequest, { params }: { params: { provider: string } }) {
+  try {
+    const provider = getMessagingProviderByName(params.provider)
+    if (!provider) {
+      const { response, statusCode } = handleApiError(new NotFoundError('Unknown messaging provider.'))
+      return NextResponse.json(response, { status: statusCode })
+    }
+
+    const body = await request.text()
+    const update = provider.parseStatusCallback({
+      headers: request.headers,
+      body,
+      callbackUrl: statusCallbackUrl(provider.name),
+    })
+    if (!update) {
+      logger.warn('Rejected messaging status callback', { provider: provider.name })
+      const { response, statusCode } = handleApiError(
+        new AuthenticationError('Invalid or unverifiable status callback.')
+      )
+      return NextResponse.json(response, { status: statusCode })
+    }
+
+    const result = await applyDeliveryStatus(createServiceRoleClient(), provider.name, update)
+    if (!result.ok) {
+      throw new Error(result.error)
+    }
+    if (!result.updated) {
+      logger.info('Messaging status callback ignored', {
+        provider: provider.name,
+        externalId: update.externalId,
+        status: update.status,
+      })
+    }
+    return NextResponse.json({ received: true, updated: result.updated })
+  } catch (error) {
+    logger.error('Messaging status callback failed', { error, provider: params.provider })
+    const { response, statusCode } = handleApiError(error)
+    return NextResponse.json(response, { status: statusCode })
+  }
+}
@@ -2,14 +2,32 @@ import { NextResponse } from "next/server";
 import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
 import { cookies } from "next/headers";
 import { mmgService } from "@/lib/mmg";
+import { createServiceRoleClient } from "@/lib/supabase-service";
+import { getSubscriptionPlan, planMatchesRole } from "@/lib/subscription-plans";
+import { grantSubscriptionForPayment } from "@/lib/payments/grant-subscription";
+import {
+  PROMO_REJECTION_MESSAGE,
+  checkPromoCode,
+  promoDiscount,
+  releasePromoRedemption,
+  reservePromoRedemption,
+  type PromoCode,
+  type PromoRejection,
+} from "@/lib/promo-codes";
 
 export const dynamic = "force-dynamic";
 
 interface CheckoutRequest {
-  amount: number;
-  currency?: string;
-  description?: string;
+  planCode: string;
   subscriptionStartDate?: string;
+  promoCode?: string;
+}
+
+function promoRejected(reason: PromoRejection) {
+  return NextResponse.json(
+    { error: PROMO_REJECTION_MESSAGE[reason], code: "PROMO_CODE_INVALID", reason },
+    { status: 400 }
+  );
 }
 
 /** Normalized ISO instant for an explicit client-provided date. Throws if invalid. */
@@ -32,7 +50,8 @@ function hasExplicitSubscriptionStart(body: CheckoutRequest): boolean {
 export async function POST(req: Request) {
   try {
     const body = await req.json() as CheckoutRequest;
-    const { amount, currency = "GYD", description = "Subscription Payment" } = body;
+    const planCode = typeof body.planCode === "string" ? body.planCode.trim() : "";
+    const promoCode = typeof body.promoCode === "string" ? body.promoCode.trim() : "";
 
     const explicitSubscriptionStart = hasExplicitSubscriptionStart(body);
     let subscriptionStartIso: string;
@@ -47,9 +66,9 @@ export async function POST(req: Request) {
       );
     }
 
-    if (!amount || amount <= 0) {
+    if (!planCode) {
       return NextResponse.json(
-        { error: "Invalid amount. Amount must be greater than 0" },
+        { error: "planCode is required. The price is set by the subscription plan." },
         { status: 400 }
       );
     }
@@ -94,12 +113,35 @@ export async function POST(req: Request) {
       );
     }
 
-    // Idempotency: reuse a recent pending transaction for the same user/amount
+    // Price, currency and description come from the catalog, never from the client
+    const db = createServiceRoleClient();
+    const { data: plan, error: planError } = await getSubscriptionPlan(db, planCode);
+    if (planError) {
+      console.error("[MMG checkout] error loading subscription plan:", planError);
+      throw planError;
+    }
+    if (!plan || !plan.is_active) {
+      return NextResponse.json(
+        { error: "Unknown or unavailable subscription plan" },
+        { status: 400 }
+      );
+    }
+    if (!planMatchesRole(plan, user.role)) {
+      return NextResponse.json(
+        { error: "planCode does not match your account role" },
+        { status: 400 }
+      );
+    }
+    const price = Number(plan.price);
+    const currency = plan.currency;
+    const description = plan.label;
+
+    // Idempotency: reuse a recent pending transaction for the same user/plan
     // to prevent duplicate records on network retries
     const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
     const { data: existingTransaction } = await supabase
       .from("payment_transactions")
-      .select("id, amount, currency, subscription_start_date")
+      .select("id, plan_code, amount, currency, subscription_start_date, promo_code_id")
       .eq("user_id", user.id)
       .eq("status", "pending")
       .eq("payment_method", "mmg")
@@ -108,11 +150,27 @@ export async function POST(req: Request) {
       .limit(1)
       .maybeSingle();
 
+    // Promo codes are checked and applied here; the discounted amount is what MMG charges
+    let promo: PromoCode | null = null;
+    if (promoCode) {
+      const check = await checkPromoCode(db, {
+        code: promoCode,
+        userId: user.id,
+        role: user.role,
+        ownPendingPaymentId: existingTransaction?.promo_code_id ? existingTransaction.id : null,
+      });
+      if (!check.ok) return promoRejected(check.reason);
+      promo = check.promo;
+    }
+    const { discountAmount, finalAmount: amount } = promo
+      ? promoDiscount(promo, price)
+      : { discountAmount: 0, finalAmount: price };
+
     const existingStart =
       existingTransaction?.subscription_start_date != null
         ? existingTransaction.subscription_start_date
         : null;
-    // Implicit start = "now" differs per request; reuse on amount+currency only.
+    // Implicit start = "now" differs per request; reuse on plan+amount+currency only.
     // Explicit start must match the pending row's stored instant.
     const startDatesMatch =
       !explicitSubscriptionStart ||
@@ -120,8 +178,11 @@ export async function POST(req: Request) {
 
     const canReuse =
       !!existingTransaction &&
-      existingTransaction.amount === amount &&
+      existingTransaction.plan_code === plan.code &&
+      Number(existingTransaction.amount) === amount &&
       existingTransaction.currency === currency &&
+      (existingTransaction.promo_code_id ?? null) === (promo?.id ?? null) &&
+      amount > 0 &&
       startDatesMatch;
 
     let transactionId: string;
@@ -135,10 +196,14 @@ export async function POST(req: Request) {
           user_id: user.id,
           amount,
           currency,
-          payment_method: "mmg",
+          payment_method: amount > 0 ? "mmg" : "promo",
           status: "pending",
           initiated_at: new Date().toISOString(),
           subscription_start_date: subscriptionStartIso,
+          plan_code: plan.code,
+          promo_code_id: promo?.id ?? null,
+          original_amount: promo ? price : null,
+          discount_amount: discountAmount,
         })
         .select("id")
         .single();
@@ -150,6 +215,70 @@ export async function POST(req: Request) {
       transactionId = newTransaction.id;
     }
 
+    if (promo) {
+      const reserved = await reservePromoRedemption(db, {
+        promoCodeId: promo.id,
+        userId: user.id,
+        paymentId: transactionId,
+        originalAmount: price,
+        discountAmount,
+        finalAmount: amount,
+      });
+      if (!reserved.ok) {
+        await db
+          .from("payment_transactions")
+          .update({ status: "failed", error_message: PROMO_REJECTION_MESSAGE[reserved.reason] })
+          .eq("id", transactionId)
+          .eq("status", "pending");
+        return promoRejected(reserved.reason);
+      }
+    }
+
+    // Discounted to zero: nothing to charge, so the subscription is granted without MMG
+    if (promo && amount === 0) {
+      const { data: claimed, error: claimError } = await db
+        .from("payment_transactions")
+        .update({ status: "processing" })
+        .eq("id", transactionId)
+        .eq("status", "pending")
+        .select("id, user_id, amount, currency, subscription_start_date, plan_code")
+        .single();
+      if (claimError || !claimed) {
+        console.error("[MMG checkout] error claiming free checkout:", claimError);
+        throw claimError ?? new Error("Free checkout could not be claimed");
+      }
+      try {
+        const granted = await grantSubscriptionForPayment(db, claimed, {
+          method: "promo",
+          transactionId,
+          reference: promo.code,
+          gatewayResponse: { promo_code: promo.code, original_amount: price, discount_amount: discountAmount },
+        });
+        return NextResponse.json({
+          success: true,
+          paymentTransactionId: transactionId,
+          redirectUrl: null,
+          planCode: plan.code,
+          promoCode: promo.code,
+          originalAmount: price,
+          discountAmount,
+          amount,
+          currency,
+          status: "COMPLETED",
+          subscriptionId: granted.subscriptionId,
+          endDate: granted.endDate.toISOString(),
+        });
+      } catch (grantError) {
+        await db
+          .from("payment_transactions")
+          .update({ status: "failed", error_message: "Could not grant the free subscription" })
+          .eq("id", transactionId)
+          .eq("status", "processing");
+        await releasePromoRedemption(db, transactionId);
+        throw grantError;
+      }
+    }
+
     const checkoutUrl = await mmgService.createCheckoutSession({
       amount,
       currency,
@@ -161,6 +290,10 @@ export async function POST(req: Request) {
       success: true,
       paymentTransactionId: transactionId,
       redirectUrl: checkoutUrl,
+      planCode: plan.code,
+      promoCode: promo?.code ?? null,
+      originalAmount: price,
+      discountAmount,
       amount,
       currency,
       status: "PENDING",
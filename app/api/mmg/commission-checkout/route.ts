@@ -0,0 +1,158 @@
+import { NextResponse } from "next/server";
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+import { cookies } from "next/headers";
+import { mmgService } from "@/lib/mmg";
+import { createServiceRoleClient } from "@/lib/supabase-service";
+import { COMMISSION_PLAN_LABEL, getCommissionBalance } from "@/lib/driver-commission";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Starts an MMG checkout for the calling driver's whole commission balance. The webhook (or payment
+ * reconciliation) completes it like any checkout; `purpose = 'commission'` makes it count against
+ * the balance instead of granting a subscription. See docs/api/driver-commission.md.
+ */
+export async function POST(req: Request) {
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    const authHeader = req.headers.get("authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return NextResponse.json(
+        { error: "Missing or invalid authorization token" },
+        { status: 401 }
+      );
+    }
+
+    const token = authHeader.split(" ")[1];
+    const {
+      data: { user: authUser },
+      error: authError,
+    } = await supabase.auth.getUser(token);
+
+    if (authError || !authUser) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    const db = createServiceRoleClient();
+    const { data: user, error: userError } = await db
+      .from("users")
+      .select("id, role")
+      .eq("auth_id", authUser.id)
+      .single();
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: "User profile not found" },
+        { status: 404 }
+      );
+    }
+    if (user.role !== "driver") {
+      return NextResponse.json(
+        { error: "Only drivers have a commission balance" },
+        { status: 403 }
+      );
+    }
+
+    const { data: driver, error: driverError } = await db
+      .from("driver_profiles")
+      .select("id, user_id")
+      .eq("user_id", user.id)
+      .maybeSingle();
+    if (driverError) {
+      console.error("[MMG commission-checkout] error loading driver profile:", driverError);
+      throw driverError;
+    }
+    if (!driver) {
+      return NextResponse.json(
+        { error: "Driver profile not found" },
+        { status: 404 }
+      );
+    }
+
+    // The amount is the balance owed, never a client-provided figure
+    const { balance: amount, currency } = await getCommissionBalance(db, driver);
+    if (amount <= 0) {
+      return NextResponse.json(
+        { error: "No commission balance to pay", code: "NOTHING_TO_PAY", balance: amount, currency },
+        { status: 400 }
+      );
+    }
+
+    // Idempotency: reuse a recent pending commission checkout for the same amount
+    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+    const { data: existingTransaction } = await db
+      .from("payment_transactions")
+      .select("id, amount, currency")
+      .eq("user_id", user.id)
+      .eq("purpose", "commission")
+      .eq("status", "pending")
+      .eq("payment_method", "mmg")
+      .gte("initiated_at", oneHourAgo)
+      .order("initiated_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    let transactionId: string;
+    if (
+      existingTransaction &&
+      Number(existingTransaction.amount) === amount &&
+      existingTransaction.currency === currency
+    ) {
+      transactionId = existingTransaction.id;
+    } else {
+      const { data: newTransaction, error: transactionError } = await db
+        .from("payment_transactions")
+        .insert({
+          user_id: user.id,
+          amount,
+          currency,
+          payment_method: "mmg",
+          status: "pending",
+          purpose: "commission",
+          initiated_at: new Date().toISOString(),
+          completed_at: null,
+          subscription_id: null,
+          subscription_start_date: null,
+          mmg_transaction_id: null,
+          mmg_reference: null,
+          mmg_phone_number: null,
+          gateway_response: null,
+          error_message: null,
+        })
+        .select("id")
+        .single();
+
+      if (transactionError || !newTransaction) {
+        console.error("[MMG commission-checkout] error creating payment transaction:", transactionError);
+        throw transactionError;
+      }
+      transactionId = newTransaction.id;
+    }
+
+    const checkoutUrl = await mmgService.createCheckoutSession({
+      amount,
+      currency,
+      description: COMMISSION_PLAN_LABEL,
+      app_transaction_id: transactionId,
+    });
+
+    return NextResponse.json({
+      success: true,
+      paymentTransactionId: transactionId,
+      redirectUrl: checkoutUrl,
+      amount,
+      currency,
+      status: "PENDING",
+    });
+  } catch (error) {
+    console.error("[MMG commission-checkout] error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
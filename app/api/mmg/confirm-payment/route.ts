@@ -1,23 +1,22 @@
 import { NextResponse } from "next/server";
 import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
 import { cookies } from "next/headers";
+import { postPaymentToLedger } from "@/lib/ledger";
 import { mmgService } from "@/lib/mmg";
-
-const SUBSCRIPTION_TYPES = ["rider_monthly", "driver_monthly"] as const;
-type SubscriptionType = (typeof SUBSCRIPTION_TYPES)[number];
+import { issuePaymentReceipt } from "@/lib/payment-receipts";
+import { createServiceRoleClient } from "@/lib/supabase-service";
+import {
+  getSubscriptionPlan,
+  isFirstSubscription,
+  planMatchesRole,
+  subscriptionWindow,
+} from "@/lib/subscription-plans";
 
 interface ConfirmPaymentRequest {
   transactionId: string;
-  subscriptionType: string;
-}
-
-interface SubscriptionPrices {
-  rider_monthly?: number;
-  driver_monthly?: number;
-}
-
-function isSubscriptionType(s: string): s is SubscriptionType {
-  return SUBSCRIPTION_TYPES.includes(s as SubscriptionType);
+  planCode?: string;
+  /** Legacy name for planCode (`rider_monthly` / `driver_monthly`). */
+  subscriptionType?: string;
 }
 
 export const dynamic = "force-dynamic";
@@ -26,8 +25,10 @@ export async function POST(req: Request) {
   try {
     console.log("[MMG confirm-payment] POST request received");
     const body = (await req.json()) as ConfirmPaymentRequest;
-    const { transactionId, subscriptionType } = body;
-    console.log("[MMG confirm-payment] body:", { transactionId: transactionId ? `${transactionId.slice(0, 8)}...` : undefined, subscriptionType });
+    const { transactionId } = body;
+    const rawPlanCode = body.planCode ?? body.subscriptionType;
+    const planCode = typeof rawPlanCode === "string" ? rawPlanCode.trim() : "";
+    console.log("[MMG confirm-payment] body:", { transactionId: transactionId ? `${transactionId.slice(0, 8)}...` : undefined, planCode });
 
     if (!transactionId || typeof transactionId !== "string" || !transactionId.trim()) {
       console.log("[MMG confirm-payment] validation failed: transactionId missing or invalid");
@@ -37,10 +38,10 @@ export async function POST(req: Request) {
       );
     }
 
-    if (!subscriptionType || !isSubscriptionType(subscriptionType)) {
-      console.log("[MMG confirm-payment] validation failed: subscriptionType missing or invalid", subscriptionType);
+    if (!planCode) {
+      console.log("[MMG confirm-payment] validation failed: planCode missing");
       return NextResponse.json(
-        { error: "subscriptionType is required and must be 'rider_monthly' or 'driver_monthly'" },
+        { error: "planCode is required and must be a non-empty string" },
         { status: 400 }
       );
     }
@@ -94,15 +95,28 @@ export async function POST(req: Request) {
       );
     }
 
-    // subscriptionType must match user role
-    const expectedRoleByType: Record<SubscriptionType, string> = {
-      rider_monthly: "rider",
-      driver_monthly: "driver",
-    };
-    if (user.role !== expectedRoleByType[subscriptionType]) {
-      console.log("[MMG confirm-payment] validation failed: subscriptionType does not match role", { subscriptionType, role: user.role });
+    // Load the plan from the catalog; it sets the expected price and the term
+    console.log("[MMG confirm-payment] loading subscription plan", planCode);
+    const serviceDb = createServiceRoleClient();
+    const { data: plan, error: planError } = await getSubscriptionPlan(serviceDb, planCode);
+
+    if (planError) {
+      console.error("[MMG confirm-payment] error loading subscription plan:", planError);
+      throw planError;
+    }
+    if (!plan || !plan.is_active) {
+      console.log("[MMG confirm-payment] validation failed: unknown or inactive plan", planCode);
+      return NextResponse.json(
+        { error: "Unknown or unavailable subscription plan" },
+        { status: 400 }
+      );
+    }
+
+    // planCode must match user role
+    if (!planMatchesRole(plan, user.role)) {
+      console.log("[MMG confirm-payment] validation failed: planCode does not match role", { planCode, role: user.role });
       return NextResponse.json(
-        { error: "subscriptionType does not match your account role" },
+        { error: "planCode does not match your account role" },
         { status: 400 }
       );
     }
@@ -145,32 +159,8 @@ export async function POST(req: Request) {
       });
     }
 
-    // Load expected price from system_config
-    console.log("[MMG confirm-payment] loading subscription_prices from system_config");
-    const { data: configRow, error: configError } = await supabase
-      .from("system_config")
-      .select("value")
-      .eq("key", "subscription_prices")
-      .maybeSingle();
-
-    if (configError || !configRow?.value) {
-      console.error("[MMG confirm-payment] system_config subscription_prices missing or error:", configError);
-      return NextResponse.json(
-        { error: "Subscription pricing is not configured" },
-        { status: 500 }
-      );
-    }
-    const prices = configRow.value as SubscriptionPrices;
-    const expectedAmount = prices[subscriptionType];
-    console.log("[MMG confirm-payment] expected amount for", subscriptionType, ":", expectedAmount);
-
-    if (typeof expectedAmount !== "number" || expectedAmount <= 0) {
-      console.error("[MMG confirm-payment] subscription_prices missing key or invalid:", subscriptionType, prices);
-      return NextResponse.json(
-        { error: "Subscription pricing is not configured for this plan" },
-        { status: 500 }
-      );
-    }
+    const expectedAmount = Number(plan.price);
+    console.log("[MMG confirm-payment] expected amount for", plan.code, ":", expectedAmount);
 
     // Look up transaction at MMG (throws if not found or not successful)
     console.log("[MMG confirm-payment] calling MMG lookupTransaction");
@@ -225,6 +215,7 @@ export async function POST(req: Request) {
         initiated_at: creationDate.toISOString(),
         completed_at: now.toISOString(),
         gateway_response: lookupResult as unknown as Record<string, unknown>,
+        plan_code: plan.code,
       })
       .select()
       .single();
@@ -235,10 +226,10 @@ export async function POST(req: Request) {
     }
     console.log("[MMG confirm-payment] payment_transactions created:", paymentTransaction.id);
 
-    // Subscription dates (30 days)
-    const startDate = new Date();
-    const endDate = new Date(startDate);
-    endDate.setDate(endDate.getDate() + 30);
+    // Subscription dates from the plan term (+ trial days on a first subscription)
+    const { startDate, endDate } = subscriptionWindow(new Date(), plan, {
+      firstSubscription: await isFirstSubscription(serviceDb, user.id),
+    });
     console.log("[MMG confirm-payment] subscription window:", { startDate: startDate.toISOString(), endDate: endDate.toISOString() });
 
     // Create subscription record
@@ -248,7 +239,7 @@ export async function POST(req: Request) {
       .insert({
         user_id: user.id,
         user_role: user.role,
-        plan_type: "monthly",
+        plan_type: plan.code,
         amount,
         currency,
         start_date: startDate.toISOString(),
@@ -318,13 +309,29 @@ export async function POST(req: Request) {
       console.log("[MMG confirm-payment] rider_profiles updated");
     }
 
+    // Never fails the confirmation: the month-close report posts missing journals
+    try {
+      await postPaymentToLedger(serviceDb, paymentTransaction.id);
+    } catch (ledgerError) {
+      console.error("[MMG confirm-payment] error posting payment to the ledger:", ledgerError);
+    }
+
+    // Never fails the confirmation either: a receipt that couldn't be issued now is issued on download
+    try {
+      await issuePaymentReceipt(serviceDb, paymentTransaction.id);
+    } catch (receiptError) {
+      console.error("[MMG confirm-payment] error issuing payment receipt:", receiptError);
+    }
+
     console.log("[MMG confirm-payment] success, returning response", { paymentId: paymentTransaction.id, subscriptionId: subscription.id });
     return NextResponse.json({
       success: true,
       paymentTransactionId: paymentTransaction.id,
       subscriptionId: subscription.id,
+      planCode: plan.code,
       amount,
       currency,
+      endDate: endDate.toISOString(),
       status: "completed",
     });
   } catch (error) {
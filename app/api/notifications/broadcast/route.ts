@@ -7,10 +7,14 @@ import type { Database } from '@/types/database'
 import { handleApiError, AuthenticationError } from '@/lib/errors'
 import { validate, broadcastNotificationSchema } from '@/lib/validation'
 import { logger } from '@/lib/logger'
+import { createSupabaseServiceClient } from '@/lib/firebase/notifications'
+import { sendMessages, type OutboundMessage } from '@/lib/message-outbox'
+import { renderAdminTemplate } from '@/lib/notification-templates'
 import {
-  createSupabaseServiceClient,
-  sendNotificationsToUsers,
-} from '@/lib/firebase/notifications'
+  applyNotificationPreferences,
+  logSuppressedSend,
+  suppressedCount,
+} from '@/lib/notification-preferences'
 
 function createSupabaseClientWithToken(accessToken: string) {
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
@@ -127,7 +131,7 @@ export async function POST(request: NextRequest) {
     const serviceSupabase = createSupabaseServiceClient()
     const { data: recipients, error: recipientsError } = await serviceSupabase
       .from('users')
-      .select('id')
+      .select('id, role, full_name, preferred_locale')
       .eq('role', validatedBody.audience)
       .not('fcm_token', 'is', null)
 
@@ -139,7 +143,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(response, { status: statusCode })
     }
 
-    const userIds = ((recipients ?? []) as { id: string }[]).map((r) => r.id)
+    const userIds = (recipients ?? []).map((r) => r.id)
 
     if (userIds.length === 0) {
       logger.info('Broadcast skipped: no recipients with FCM tokens', {
@@ -160,13 +164,89 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const notificationResult = await sendNotificationsToUsers(
-      userIds,
-      validatedBody.title,
-      validatedBody.body,
-      validatedBody.audience,
-      validatedBody.data
-    )
+    const category = validatedBody.category ?? 'marketing'
+    const log = {
+      sentByUserId: callerUserId,
+      notificationType: validatedBody.notification_type ?? 'broadcast',
+      audience: validatedBody.audience,
+      metadata: callerUserId ? { category } : { category, auth_id: authUser.id },
+    }
+
+    // A template is rendered in each recipient's locale: one message per locale
+    const templateKey = validatedBody.template_key
+    const texts = templateKey
+      ? await renderAdminTemplate(
+          serviceSupabase,
+          templateKey,
+          (recipients ?? []).map((r) => ({
+            id: r.id,
+            role: r.role,
+            fullName: r.full_name,
+            locale: r.preferred_locale,
+          })),
+          { broadcast: true }
+        )
+      : [
+          {
+            title: validatedBody.title ?? '',
+            body: validatedBody.body ?? '',
+            locale: null,
+            userIds,
+          },
+        ]
+
+    // Recipients who turned the category off or are in quiet hours are skipped and logged
+    const filter = await applyNotificationPreferences(serviceSupabase, userIds, category)
+    const allowed = new Set(filter.allowed)
+    const suppressed = suppressedCount(filter)
+    const loggedText = texts.find((t) => t.locale === 'en') ?? texts[0]
+    await logSuppressedSend(serviceSupabase, filter, {
+      channel: 'push',
+      title: loggedText.title,
+      body: loggedText.body,
+      log: templateKey ? { ...log, metadata: { ...log.metadata, template_key: templateKey } } : log,
+    })
+
+    const messages: OutboundMessage[] = texts
+      .map((text) => ({ ...text, userIds: text.userIds.filter((id) => allowed.has(id)) }))
+      .filter((text) => text.userIds.length > 0)
+      .map((text): OutboundMessage => ({
+        channel: 'push',
+        targets: [{ projectType: validatedBody.audience, userIds: text.userIds }],
+        title: text.title,
+        body: text.body,
+        data: validatedBody.data,
+        log: templateKey
+          ? { ...log, metadata: { ...log.metadata, template_key: templateKey, locale: text.locale } }
+          : log,
+      }))
+
+    if (messages.length === 0) {
+      logger.info('Broadcast suppressed for every recipient', {
+        audience: validatedBody.audience,
+        callerUserId,
+        category,
+        suppressedCount: suppressed,
+      })
+      return NextResponse.json(
+        {
+          success: true,
+          message: 'No notifications sent: every recipient turned off this category or is in quiet hours.',
+          requestedCount: userIds.length,
+          successCount: 0,
+          failureCount: 0,
+          invalidTokensRemoved: 0,
+          suppressedCount: suppressed,
+        },
+        { status: 200 }
+      )
+    }
+
+    const summary = await sendMessages(serviceSupabase, messages)
+    if (summary.sent + summary.queued === 0) {
+      throw new Error(summary.errors[0] ?? 'Failed to send notifications')
+    }
+    const queued = summary.queued > 0
 
     logger.info('Broadcast notifications sent', {
       audience: validatedBody.audience,
@@ -174,37 +254,30 @@ export async function POST(request: NextRequest) {
       authId: authUser.id,
       recipientCount: userIds.length,
       notificationType: validatedBody.notification_type,
-      successCount: notificationResult.successCount,
-      failureCount: notificationResult.failureCount,
-    })
-
-    await serviceSupabase.from('message_logs').insert({
-      channel: 'push',
-      title: validatedBody.title,
-      message: validatedBody.body,
-      status: notificationResult.successCount > 0 ? 'sent' : 'failed',
-      sent_by_user_id: callerUserId,
-      notification_type: validatedBody.notification_type ?? 'broadcast',
-      audience: validatedBody.audience,
-      metadata: {
-        requested_count: userIds.length,
-        success_count: notificationResult.successCount,
-        failure_count: notificationResult.failureCount,
-        invalid_tokens_removed: notificationResult.invalidTokens.length,
-        ...(callerUserId ? {} : { auth_id: authUser.id }),
-      },
+      templateKey,
+      category,
+      suppressedCount: suppressed,
+      messages: messages.length,
+      queued: summary.queued,
+      failed: summary.failed,
+      successCount: summary.push.successCount,
+      failureCount: summary.push.failureCount,
     })
 
     return NextResponse.json(
       {
         success: true,
-        message: 'Notifications sent successfully',
+        message: queued
+          ? 'Notifications queued; the message outbox will retry them'
+          : 'Notifications sent successfully',
+        queued,
         requestedCount: userIds.length,
-        successCount: notificationResult.successCount,
-        failureCount: notificationResult.failureCount,
-        invalidTokensRemoved: notificationResult.invalidTokens.length,
+        successCount: summary.push.successCount,
+        failureCount: summary.push.failureCount,
+        invalidTokensRemoved: summary.push.invalidTokensRemoved,
+        suppressedCount: suppressed,
       },
-      { status: 200 }
+      { status: queued ? 202 : 200 }
     )
   } catch (error) {
     logger.error('Unexpected error in notification broadcast', error)
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthenticationError, AuthorizationError, handleApiError } from '@/lib/errors'
+import { createServiceRoleClient } from '@/lib/supabase-service'
+import { resolveUserFromBearerRequest } from '@/lib/bearer-api'
+import { logger } from '@/lib/logger'
+import {
+  preferencesFromRow,
+  type NotificationPreferences,
+} from '@/lib/notification-preferences'
+import { notificationPreferencesSchema, validate } from '@/lib/validation'
+
+export const dynamic = 'force-dynamic'
+
+function toResponse(preferences: NotificationPreferences) {
+  return {
+    categories: { ...preferences.enabled, safety: true },
+    quiet_hours: preferences.quietHours,
+    timezone: 'America/Guyana',
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const gate = await resolveUserFromBearerRequest(request)
+    if (!gate.ok) {
+      const { response, statusCode } = handleApiError(
+        new AuthenticationError('Missing or invalid Authorization: Bearer <token>.')
+      )
+      return NextResponse.json(response, { status: statusCode })
+    }
+    if (!gate.user.is_active) {
+      const { response, statusCode } = handleApiError(
+        new AuthorizationError('User account is inactive.')
+      )
+      return NextResponse.json(response, { status: statusCode })
+    }
+    const { user } = gate
+
+    const db = createServiceRoleClient()
+    const { data, error } = await db
+      .from('notification_preferences')
+      .select('*')
+      .eq('user_id', user.id)
+      .maybeSingle()
+    if (error) throw error
+
+    return NextResponse.json(toResponse(preferencesFromRow(data)))
+  } catch (error) {
+    const { response, statusCode } = handleApiError(error)
+    return NextResponse.json(response, { status: statusCode })
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const gate = await resolveUserFromBearerRequest(request)
+    if (!gate.ok) {
+      const { response, statusCode } = handleApiError(
+        new AuthenticationError('Missing or invalid Authorization: Bearer <token>.')
+      )
+      return NextResponse.json(response, { status: statusCode })
+    }
+    if (!gate.user.is_active) {
+      const { response, statusCode } = handleApiError(
+        new AuthorizationError('User account is inactive.')
+      )
+      return NextResponse.json(response, { status: statusCode })
+    }
+    const { user } = gate
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body.', code: 'VALIDATION_ERROR' },
+        { status: 400 }
+      )
+    }
+    const parsed = validate(notificationPreferencesSchema, body)
+
+    const db = createServiceRoleClient()
+    const { data: existing, error: loadError } = await db
+      .from('notification_preferences')
+      .select('*')
+      .eq('user_id', user.id)
+      .maybeSingle()
+    if (loadError) throw loadError
+
+    const current = preferencesFromRow(existing)
+    const quietHours = parsed.quiet_hours === undefined ? current.quietHours : parsed.quiet_hours
+    const { data: saved, error: saveError } = await db
+      .from('notification_preferences')
+      .upsert(
+        {
+          user_id: user.id,
+          trip_updates: parsed.trip_updates ?? current.enabled.trip_updates,
+          account: parsed.account ?? current.enabled.account,
+          marketing: parsed.marketing ?? current.enabled.marketing,
+          quiet_hours_start: quietHours?.start ?? null,
+          quiet_hours_end: quietHours?.end ?? null,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'user_id' }
+      )
+      .select('*')
+      .single()
+    if (saveError || !saved) throw saveError ?? new Error('Failed to save notification preferences')
+
+    logger.info('Notification preferences updated', { userId: user.id })
+    return NextResponse.json(toResponse(preferencesFromRow(saved)))
+  } catch (error) {
+    const { response, statusCode } = handleApiError(error)
+    return NextResponse.json(response, { status: statusCode })
+  }
+}
@@ -11,10 +11,17 @@ import {
 } from '@/lib/errors'
 import { validate, targetedDriverNotificationSchema } from '@/lib/validation'
 import { logger } from '@/lib/logger'
+import { createSupabaseServiceClient } from '@/lib/firebase/notifications'
+import { sendMessages, type OutboundMessage } from '@/lib/message-outbox'
 import {
-  createSupabaseServiceClient,
-  sendNotificationsToUsers,
-} from '@/lib/firebase/notifications'
+  loadTemplateRecipients,
+  renderAdminTemplate,
+} from '@/lib/notification-templates'
+import {
+  applyNotificationPreferences,
+  logSuppressedSend,
+  suppressedCount,
+} from '@/lib/notification-preferences'
 
 function createSupabaseClientWithToken(accessToken: string) {
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
@@ -132,50 +139,99 @@ export async function POST(request: NextRequest) {
     const validatedBody = validate(targetedDriverNotificationSchema, body)
     const uniqueUserIds = Array.from(new Set(validatedBody.user_ids))
 
-    const notificationResult = await sendNotificationsToUsers(
-      uniqueUserIds,
-      validatedBody.title,
-      validatedBody.body,
-      'driver',
-      validatedBody.data
-    )
+    const serviceSupabase = createSupabaseServiceClient()
+    const category = validatedBody.category ?? 'account'
+    const log = {
+      sentByUserId: caller.id,
+      notificationType: validatedBody.notification_type ?? 'admin_targeted',
+      audience: 'driver',
+      metadata: { category },
+    }
+
+    // A template is rendered in each recipient's locale: one message per distinct text
+    const templateKey = validatedBody.template_key
+    const texts = templateKey
+      ? await renderAdminTemplate(
+          serviceSupabase,
+          templateKey,
+          await loadTemplateRecipients(serviceSupabase, uniqueUserIds),
+          { broadcast: false }
+        )
+      : [
+          {
+            title: validatedBody.title ?? '',
+            body: validatedBody.body ?? '',
+            locale: null,
+            userIds: uniqueUserIds,
+          },
+        ]
+
+    // Recipients who turned the category off or are in quiet hours are skipped and logged
+    const filter = await applyNotificationPreferences(serviceSupabase, uniqueUserIds, category)
+    const allowed = new Set(filter.allowed)
+    const suppressed = suppressedCount(filter)
+    const loggedText = texts.find((t) => t.locale === 'en') ?? texts[0]
+    if (loggedText) {
+      await logSuppressedSend(serviceSupabase, filter, {
+        channel: 'push',
+        title: loggedText.title,
+        body: loggedText.body,
+        log: templateKey ? { ...log, metadata: { category, template_key: templateKey } } : log,
+      })
+    }
+
+    const messages: OutboundMessage[] = texts
+      .map((text) => ({ ...text, userIds: text.userIds.filter((id) => allowed.has(id)) }))
+      .filter((text) => text.userIds.length > 0)
+      .map((text): OutboundMessage => ({
+        channel: 'push',
+        targets: [{ projectType: 'driver', userIds: text.userIds }],
+        title: text.title,
+        body: text.body,
+        data: validatedBody.data,
+        log: templateKey
+          ? { ...log, metadata: { category, template_key: templateKey, locale: text.locale } }
+          : log,
+      }))
+
+    const summary = await sendMessages(serviceSupabase, messages)
+    if (messages.length > 0 && summary.sent + summary.queued === 0) {
+      throw new Error(summary.errors[0] ?? 'Failed to send notifications')
+    }
+    const queued = summary.queued > 0
 
     logger.info('Targeted driver push sent', {
       callerUserId: caller.id,
       authId: authUser.id,
       requestedCount: uniqueUserIds.length,
       notificationType: validatedBody.notification_type,
-      successCount: notificationResult.successCount,
-      failureCount: notificationResult.failureCount,
-    })
-
-    const serviceSupabase = createSupabaseServiceClient()
-    await serviceSupabase.from('message_logs').insert({
-      channel: 'push',
-      title: validatedBody.title,
-      message: validatedBody.body,
-      status: notificationResult.successCount > 0 ? 'sent' : 'failed',
-      sent_by_user_id: caller.id,
-      notification_type: validatedBody.notification_type ?? 'admin_targeted',
-      audience: 'driver',
-      metadata: {
-        requested_count: uniqueUserIds.length,
-        success_count: notificationResult.successCount,
-        failure_count: notificationResult.failureCount,
-        invalid_tokens_removed: notificationResult.invalidTokens.length,
-      },
+      templateKey,
+      category,
+      suppressedCount: suppressed,
+      messages: messages.length,
+      queued: summary.queued,
+      failed: summary.failed,
+      successCount: summary.push.successCount,
+      failureCount: summary.push.failureCount,
     })
 
     return NextResponse.json(
       {
         success: true,
-        message: 'Notifications sent successfully',
+        message:
+          messages.length === 0
+            ? 'No notifications sent: every recipient turned off this category or is in quiet hours.'
+            : queued
+              ? 'Notifications queued; the message outbox will retry them'
+              : 'Notifications sent successfully',
+        queued,
         requestedCount: uniqueUserIds.length,
-        successCount: notificationResult.successCount,
-        failureCount: notificationResult.failureCount,
-        invalidTokensRemoved: notificationResult.invalidTokens.length,
+        successCount: summary.push.successCount,
+        failureCount: summary.push.failureCount,
+        invalidTokensRemoved: summary.push.invalidTokensRemoved,
+        suppressedCount: suppressed,
       },
-      { status: 200 }
+      { status: queued ? 202 : 200 }
     )
   } catch (error) {
     logger.error('Unexpected error in targeted driver push', error)
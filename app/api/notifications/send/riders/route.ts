@@ -3,7 +3,17 @@ import { createClient } from '@supabase/supabase-js'
 import { handleApiError, AuthenticationError } from '@/lib/errors'
 import { validate, notificationSchema } from '@/lib/validation'
 import { logger } from '@/lib/logger'
-import { sendPushToFcmTokens } from '@/lib/firebase/notifications'
+import {
+  createSupabaseServiceClient,
+  sendPushToFcmTokens,
+} from '@/lib/firebase/notifications'
+import {
+  applyNotificationPreferences,
+  isExemptCategory,
+  logSuppressedSend,
+  suppressedCount,
+  tokenSendCategory,
+} from '@/lib/notification-preferences'
 
 function createSupabaseClientWithToken(accessToken: string) {
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
@@ -94,6 +104,52 @@ export async function POST(request: NextRequest) {
     }
 
     const validatedBody = validate(notificationSchema, body)
+    // Trip pushes come without a category and are never held back
+    const category = tokenSendCategory(validatedBody.category)
+
+    // Preferences belong to the riders signed in on this device; a token no user holds has none
+    const serviceSupabase = createSupabaseServiceClient()
+    let tokenUserIds: string[] = []
+    if (!isExemptCategory(category)) {
+      const { data: tokenUsers, error: tokenUsersError } = await serviceSupabase
+        .from('users')
+        .select('id')
+        .eq('fcm_token', validatedBody.fcm_token)
+        .eq('role', 'rider')
+      if (tokenUsersError) throw tokenUsersError
+      tokenUserIds = (tokenUsers ?? []).map((u) => u.id)
+    }
+
+    const filter = await applyNotificationPreferences(serviceSupabase, tokenUserIds, category)
+    const suppressed = suppressedCount(filter)
+    if (suppressed > 0) {
+      await logSuppressedSend(serviceSupabase, filter, {
+        channel: 'push',
+        title: validatedBody.title,
+        body: validatedBody.body,
+        log: {
+          sentByUserId: user.id,
+          notificationType: validatedBody.notification_type ?? null,
+          audience: 'rider',
+          metadata: { category },
+        },
+      })
+
+      logger.info('Notification to rider FCM token suppressed', { category, suppressedCount: suppressed })
+
+      return NextResponse.json(
+        {
+          success: true,
+          message: 'No notification sent: the recipient turned off this category or is in quiet hours.',
+          requestedCount: 1,
+          successCount: 0,
+          failureCount: 0,
+          invalidTokensRemoved: 0,
+          suppressedCount: suppressed,
+        },
+        { status: 200 }
+      )
+    }
 
     const notificationResult = await sendPushToFcmTokens(
       [validatedBody.fcm_token],
@@ -105,6 +161,7 @@ export async function POST(request: NextRequest) {
 
     logger.info('Notification sent to rider FCM token', {
       tokenCount: 1,
+      category,
       successCount: notificationResult.successCount,
       failureCount: notificationResult.failureCount,
     })
@@ -117,6 +174,7 @@ export async function POST(request: NextRequest) {
         successCount: notificationResult.successCount,
         failureCount: notificationResult.failureCount,
         invalidTokensRemoved: notificationResult.invalidTokens.length,
+        suppressedCount: 0,
       },
       { status: 200 }
     )
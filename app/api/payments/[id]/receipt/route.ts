@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  AuthenticationError,
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  handleApiError,
+} from '@/lib/errors'
+import { createServiceRoleClient } from '@/lib/supabase-service'
+import { resolveUserFromBearerRequest } from '@/lib/bearer-api'
+import { issuePaymentReceipt, receiptDownloadUrl, receiptFilename } from '@/lib/payment-receipts'
+import { logger } from '@/lib/logger'
+
+export const dynamic = 'force-dynamic'
+
+/** Short-lived signed URLs for the user to open their own receipts from the app. */
+const PDF_SIGNED_URL_SECS = 300
+
+/**
+ * Receipt for one of the caller's completed payments, issued on first request for payments that
+ * completed before receipts existed.
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const gate = await resolveUserFromBearerRequest(request)
+    if (!gate.ok) {
+      const { response, statusCode } = handleApiError(
+        new AuthenticationError('Missing or invalid Authorization: Bearer <token>.')
+      )
+      return NextResponse.json(response, { status: statusCode })
+    }
+    if (!gate.user.is_active) {
+      const { response, statusCode } = handleApiError(new AuthorizationError('User account is inactive.'))
+      return NextResponse.json(response, { status: statusCode })
+    }
+
+    const db = createServiceRoleClient()
+    const { data: payment, error } = await db
+      .from('payment_transactions')
+      .select('id, user_id')
+      .eq('id', params.id)
+      .maybeSingle()
+    if (error) throw error
+    if (!payment || payment.user_id !== gate.user.id) {
+      const { response, statusCode } = handleApiError(new NotFoundError('Payment not found.'))
+      return NextResponse.json(response, { status: statusCode })
+    }
+
+    const receipt = await issuePaymentReceipt(db, payment.id)
+    if (!receipt) {
+      const { response, statusCode } = handleApiError(
+        new ConflictError('A receipt is only available once the payment has completed.', 'RECEIPT_NOT_AVAILABLE')
+      )
+      return NextResponse.json(response, { status: statusCode })
+    }
+
+    return NextResponse.json({
+      receipt_number: receipt.receipt_number,
+      issued_at: receipt.issued_at,
+      amount: receipt.amount,
+      currency: receipt.currency,
+      filename: receiptFilename(receipt),
+      url: await receiptDownloadUrl(db, receipt, PDF_SIGNED_URL_SECS),
+      expires_in: PDF_SIGNED_URL_SECS,
+    })
+  } catch (error) {
+    logger.error('Payment receipt request failed', { error, paymentId: params.id })
+    const { response, statusCode } = handleApiError(error)
+    return NextResponse.json(response, { status: statusCode })
+  }
+}
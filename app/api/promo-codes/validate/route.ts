@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthenticationError, AuthorizationError, ValidationError, handleApiError } from '@/lib/errors'
+import { createServiceRoleClient } from '@/lib/supabase-service'
+import { resolveUserFromBearerRequest } from '@/lib/bearer-api'
+import { getSubscriptionPlan, planMatchesRole } from '@/lib/subscription-plans'
+import { PROMO_REJECTION_MESSAGE, checkPromoCode, promoDiscount } from '@/lib/promo-codes'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Price preview for a plan with a promo code, for the app's checkout screen. Nothing is reserved;
+ * POST /api/mmg/checkout checks the code again and applies it.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const gate = await resolveUserFromBearerRequest(request)
+    if (!gate.ok) {
+      const { response, statusCode } = handleApiError(
+        new AuthenticationError('Missing or invalid Authorization: Bearer <token>.')
+      )
+      return NextResponse.json(response, { status: statusCode })
+    }
+    if (!gate.user.is_active) {
+      const { response, statusCode } = handleApiError(new AuthorizationError('User account is inactive.'))
+      return NextResponse.json(response, { status: statusCode })
+    }
+
+    const body = (await request.json().catch(() => null)) as { planCode?: unknown; promoCode?: unknown } | null
+    const planCode = typeof body?.planCode === 'string' ? body.planCode.trim() : ''
+    const promoCode = typeof body?.promoCode === 'string' ? body.promoCode.trim() : ''
+    if (!planCode || !promoCode) {
+      const { response, statusCode } = handleApiError(
+        new ValidationError('planCode and promoCode are required.', 'VALIDATION_ERROR')
+      )
+      return NextResponse.json(response, { status: statusCode })
+    }
+
+    const db = createServiceRoleClient()
+    const { data: plan, error: planError } = await getSubscriptionPlan(db, planCode)
+    if (planError) throw planError
+    if (!plan || !plan.is_active || !planMatchesRole(plan, gate.user.role)) {
+      const { response, statusCode } = handleApiError(
+        new ValidationError('Unknown or unavailable subscription plan.', 'VALIDATION_ERROR')
+      )
+      return NextResponse.json(response, { status: statusCode })
+    }
+
+    const check = await checkPromoCode(db, { code: promoCode, userId: gate.user.id, role: gate.user.role })
+    if (!check.ok) {
+      const { response, statusCode } = handleApiError(
+        new ValidationError(PROMO_REJECTION_MESSAGE[check.reason], 'PROMO_CODE_INVALID')
+      )
+      return NextResponse.json({ ...response, reason: check.reason }, { status: statusCode })
+    }
+
+    const price = Number(plan.price)
+    const { discountAmount, finalAmount } = promoDiscount(check.promo, price)
+    return NextResponse.json({
+      valid: true,
+      planCode: plan.code,
+      promoCode: check.promo.code,
+      description: check.promo.description,
+      originalAmount: price,
+      discountAmount,
+      amount: finalAmount,
+      currency: plan.currency,
+    })
+  } catch (error) {
+    const { response, statusCode } = handleApiError(error)
+    return NextResponse.json(response, { status: statusCode })
+  }
+}
@@ -7,6 +7,7 @@ import {
 } from '@/lib/errors'
 import { logger } from '@/lib/logger'
 import { createSupabaseServiceClient } from '@/lib/firebase/notifications'
+import { sendMessage } from '@/lib/message-outbox'
 
 function createSupabaseClientWithToken(accessToken: string) {
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
@@ -96,66 +97,42 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(response, { status: statusCode })
     }
 
-    const accountSid = process.env.TWILIO_ACCOUNT_SID
-    const authToken = process.env.TWILIO_AUTH_TOKEN
-    const fromNumber = process.env.TWILIO_FROM_NUMBER
+    const serviceSupabase = createSupabaseServiceClient()
+    const sms = await sendMessage(serviceSupabase, {
+      channel: 'sms',
+      to,
+      body: message,
+      log: { sentByUserId: user.id },
+    })
 
-    if (!accountSid || !authToken || !fromNumber) {
-      logger.error('Missing Twilio environment variables')
-      const { response, statusCode } = handleApiError(new Error('SMS service is not configured.'))
+    if (!sms.ok) {
+      const { response, statusCode } = handleApiError(new Error(sms.error))
       return NextResponse.json(response, { status: statusCode })
     }
 
-    const credentials = Buffer.from(`${accountSid}:${authToken}`).toString('base64')
-    const twilioUrl = `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`
-
-    const twilioBody = new URLSearchParams({
-      To: to.trim(),
-      From: fromNumber,
-      Body: message.trim(),
-    })
-
-    const twilioResponse = await fetch(twilioUrl, {
-      method: 'POST',
-      headers: {
-        Authorization: `Basic ${credentials}`,
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: twilioBody.toString(),
-    })
-
-    const twilioData = await twilioResponse.json() as { sid?: string; message?: string; code?: number }
-
-    const serviceSupabase = createSupabaseServiceClient()
+    const { attempt } = sms
+    if (attempt.outcome === 'dead') {
+      const { response, statusCode } = handleApiError(new Error(attempt.error))
+      return NextResponse.json(response, { status: statusCode })
+    }
 
-    if (!twilioResponse.ok) {
-      logger.error('Twilio API error', { status: twilioResponse.status, data: twilioData })
-      await serviceSupabase.from('message_logs').insert({
-        channel: 'sms',
-        recipient_phone: to.trim(),
-        message: message.trim(),
-        status: 'failed',
-        sent_by_user_id: user.id,
+    if (attempt.outcome === 'sent' && attempt.sms) {
+      logger.info('SMS sent successfully', {
+        to: to.trim(),
+        provider: attempt.sms.provider,
+        messageSid: attempt.sms.externalId,
       })
-      const { response, statusCode } = handleApiError(
-        new Error(twilioData.message || 'Failed to send SMS.')
+      return NextResponse.json(
+        { success: true, messageSid: attempt.sms.externalId, status: attempt.sms.status },
+        { status: 200 }
       )
-      return NextResponse.json(response, { status: statusCode })
     }
 
-    logger.info('SMS sent successfully', { to: to.trim(), messageSid: twilioData.sid })
-    await serviceSupabase.from('message_logs').insert({
-      channel: 'sms',
-      recipient_phone: to.trim(),
-      message: message.trim(),
-      status: 'sent',
-      sent_by_user_id: user.id,
-      external_id: twilioData.sid,
-    })
-
+    // Provider unavailable or rate limited: the outbox keeps retrying it
+    logger.info('SMS queued for retry', { to: to.trim(), jobId: sms.jobId, outcome: attempt.outcome })
     return NextResponse.json(
-      { success: true, messageSid: twilioData.sid },
-      { status: 200 }
+      { success: true, queued: true, messageSid: null, status: 'queued' },
+      { status: 202 }
     )
   } catch (error) {
     logger.error('Unexpected error sending SMS', error)
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthenticationError, AuthorizationError, ValidationError, handleApiError } from '@/lib/errors'
+import { createServiceRoleClient } from '@/lib/supabase-service'
+import { resolveUserFromBearerRequest } from '@/lib/bearer-api'
+import { listActiveSubscriptionPlans } from '@/lib/subscription-plans'
+
+export const dynamic = 'force-dynamic'
+
+/** Active plans the caller can buy (their role's audience), for the app's plan picker. */
+export async function GET(request: NextRequest) {
+  try {
+    const gate = await resolveUserFromBearerRequest(request)
+    if (!gate.ok) {
+      const { response, statusCode } = handleApiError(
+        new AuthenticationError('Missing or invalid Authorization: Bearer <token>.')
+      )
+      return NextResponse.json(response, { status: statusCode })
+    }
+    if (!gate.user.is_active) {
+      const { response, statusCode } = handleApiError(
+        new AuthorizationError('User account is inactive.')
+      )
+      return NextResponse.json(response, { status: statusCode })
+    }
+
+    const role = gate.user.role
+    if (role !== 'driver' && role !== 'rider') {
+      const { response, statusCode } = handleApiError(
+        new ValidationError('Subscription plans are only available to drivers and riders.', 'VALIDATION_ERROR')
+      )
+      return NextResponse.json(response, { status: statusCode })
+    }
+
+    const { data: plans, error } = await listActiveSubscriptionPlans(createServiceRoleClient(), role)
+    if (error) {
+      const { response, statusCode } = handleApiError(error)
+      return NextResponse.json(response, { status: statusCode })
+    }
+
+    return NextResponse.json({
+      plans: plans.map((p) => ({
+        code: p.code,
+        label: p.label,
+        description: p.description,
+        price: Number(p.price),
+        currency: p.currency,
+        term_days: p.term_days,
+        trial_days: p.trial_days,
+      })),
+    })
+  } catch (error) {
+    const { response, statusCode } = handleApiError(error)
+    return NextResponse.json(response, { status: statusCode })
+  }
+}
@@ -59,6 +59,25 @@ async function isTripRequestCreationEnabled(): Promise<boolean> {
   return true
 }
 
+/**
+ * The cost-estimates quote the rider is booking from (fare_estimate_logs is service-role only).
+ * Null when missing or unreadable, so a stale id never blocks the request.
+ */
+async function findFareEstimate(id: string): Promise<{ id: string; total: number | null } | null> {
+  const service = createSupabaseServiceClient()
+  const { data, error } = await service
+    .from('fare_estimate_logs')
+    .select('id, total')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    logger.warn('Fare estimate lookup failed; not linking', { error, fareEstimateId: id })
+    return null
+  }
+  return data
+}
+
 // Create a Supabase client with Bearer token authentication
 function createSupabaseClientWithToken(accessToken: string) {
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
@@ -285,6 +304,21 @@ export async function POST(request: NextRequest) {
       insertData.estimated_fare = validatedBody.estimated_fare
     }
 
+    if (validatedBody.fare_estimate_id !== undefined) {
+      const estimate = await findFareEstimate(validatedBody.fare_estimate_id)
+      if (estimate) {
+        insertData.fare_estimate_id = estimate.id
+        if (insertData.estimated_fare === undefined && estimate.total != null) {
+          insertData.estimated_fare = estimate.total
+        }
+      } else {
+        logger.warn('Unknown fare_estimate_id on trip request; not linking', {
+          fareEstimateId: validatedBody.fare_estimate_id,
+          riderId: riderProfile.id,
+        })
+      }
+    }
+
     if (validatedBody.notes !== undefined) {
       insertData.notes = validatedBody.notes.trim()
     }
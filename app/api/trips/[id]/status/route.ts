@@ -4,11 +4,18 @@ import {
   handleApiError,
   AuthenticationError,
   AuthorizationError,
+  ConflictError,
   NotFoundError,
 } from "@/lib/errors";
 import { validate, updateTripStatusSchema } from "@/lib/validation";
 import { logger } from "@/lib/logger";
 import { sendNotificationsToUsers } from "@/lib/firebase/notifications";
+import {
+  renderForUsers,
+  type TemplateVariables,
+} from "@/lib/notification-templates";
+import { assertTripTransition } from "@/lib/trips/state-machine";
+import type { TripStatus } from "@/types/database";
 
 function createSupabaseClientWithToken(accessToken: string) {
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -93,7 +100,7 @@ export async function PATCH(
 
     const { data: user, error: userError } = await authClient
       .from("users")
-      .select("id, role")
+      .select("id, role, full_name")
       .eq("auth_id", authUser.id)
       .single();
 
@@ -105,12 +112,12 @@ export async function PATCH(
       return NextResponse.json(response, { status: statusCode });
     }
 
-    // if (user.role !== 'driver') {
-    //   const { response, statusCode } = handleApiError(
-    //     new AuthorizationError('Only drivers can update trip status.')
-    //   )
-    //   return NextResponse.json(response, { status: statusCode })
-    // }
+    if (user.role !== "driver") {
+      const { response, statusCode } = handleApiError(
+        new AuthorizationError("Only drivers can update trip status."),
+      );
+      return NextResponse.json(response, { status: statusCode });
+    }
 
     // 4. Parse and validate request body
     let body: unknown;
@@ -130,7 +137,9 @@ export async function PATCH(
     // 5. Fetch trip and verify driver ownership
     const { data: trip, error: tripError } = await serviceClient
       .from("trips")
-      .select("id, rider_id, driver_id")
+      .select(
+        "id, rider_id, driver_id, status, pickup_address, destination_address, estimated_duration_minutes",
+      )
       .eq("id", tripId)
       .single();
 
@@ -155,10 +164,19 @@ export async function PATCH(
       return NextResponse.json(response, { status: statusCode });
     }
 
-    // 6. Build updates object
-    const updates: Record<string, unknown> = { status };
+    // 6. Enforce the trip state machine (409 on an illegal transition)
+    const fromStatus = trip.status as TripStatus;
+    assertTripTransition(fromStatus, status, "driver");
 
-    if (status === "picked_up") {
+    // 7. Build updates object; status_changed_by attributes the trip_status_history row
+    const updates: Record<string, unknown> = {
+      status,
+      status_changed_by: user.id,
+    };
+
+    if (status === "arrived") {
+      updates.driver_arrived_at = new Date().toISOString();
+    } else if (status === "picked_up") {
       updates.picked_up_at = new Date().toISOString();
     } else if (status === "completed") {
       updates.completed_at = new Date().toISOString();
@@ -177,11 +195,13 @@ export async function PATCH(
       }
     }
 
-    // 7. Update the trip
-    const { error: updateError } = await serviceClient
+    // 8. Update the trip only if nobody changed its status since it was read
+    const { data: updatedRows, error: updateError } = await serviceClient
       .from("trips")
       .update(updates)
-      .eq("id", tripId);
+      .eq("id", tripId)
+      .eq("status", fromStatus)
+      .select("id");
 
     if (updateError) {
       logger.error("Failed to update trip status", updateError, {
@@ -192,9 +212,63 @@ export async function PATCH(
       return NextResponse.json(response, { status: statusCode });
     }
 
-    logger.info("Trip status updated", { tripId, status });
+    if (!updatedRows?.length) {
+      const { response, statusCode } = handleApiError(
+        new ConflictError(
+          "Trip status changed in the meantime. Reload the trip and try again.",
+          "TRIP_STATUS_CHANGED",
+        ),
+      );
+      return NextResponse.json(response, { status: statusCode });
+    }
+
+    logger.info("Trip status updated", { tripId, from: fromStatus, status });
+
+    // Variables for the rider's trip notification templates
+    const tripVariables: TemplateVariables = {
+      driver_name: ((user.full_name as string | null) ?? "")
+        .trim()
+        .split(/\s+/)[0],
+      pickup_address: trip.pickup_address ?? "",
+      destination_address: trip.destination_address ?? "",
+      trip_eta:
+        trip.estimated_duration_minutes != null
+          ? `${Math.round(trip.estimated_duration_minutes)} min`
+          : "",
+    };
+
+    // Resolves the rider's user_id from rider_profiles, then renders in their locale
+    const notifyRider = async (
+      riderProfileId: string,
+      templateKey: string,
+      notificationType: string,
+    ) => {
+      const { data: riderProfile } = await serviceClient
+        .from("rider_profiles")
+        .select("user_id")
+        .eq("id", riderProfileId)
+        .single();
+      if (!riderProfile?.user_id) return;
+      const groups = await renderForUsers(
+        serviceClient,
+        templateKey,
+        "push",
+        [riderProfile.user_id],
+        tripVariables,
+      );
+      for (const group of groups) {
+        await sendNotificationsToUsers(
+          group.userIds,
+          group.title,
+          group.body,
+          "rider",
+          { trip_id: tripId, notification_type: notificationType },
+        );
+      }
+    };
 
-    // 8. On cancellation, reset linked trip_request to 'requested' (fire-and-forget)
+    // 9. On cancellation, reset linked trip_request to 'requested' (fire-and-forget)
+    let riderNotified = false;
     if (status === "cancelled") {
       try {
         const { data: tripRow } = await serviceClient
@@ -231,13 +305,12 @@ export async function PATCH(
               .eq("id", requestId);
           } else {
             // send notification to rider that the trip has been cancelled and is now available to be requested again
-            await sendNotificationsToUsers(
-              [tripRow?.rider_id as string],
-              "Trip Cancelled",
-              "Your trip has been cancelled and is now available to be requested again",
-              "rider",
-              { trip_id: tripId, notification_type: `trip_cancelled` },
+            await notifyRider(
+              tripRow?.rider_id as string,
+              "trip_cancelled_request_expired",
+              "trip_cancelled",
             );
+            riderNotified = true;
           }
           logger.info("Reset trip_request to requested", { requestId });
         }
@@ -249,49 +322,25 @@ export async function PATCH(
       }
     }
 
-    // 9. Send push notification to rider (fire-and-forget)
+    // 10. Send push notification to rider (fire-and-forget), unless step 9 already did
     const riderId = trip.rider_id;
-    if (riderId) {
-      let title: string;
-      let notificationBody: string;
-
-      if (status === "picked_up") {
-        title = "Driver Arrived";
-        notificationBody = "Your driver has arrived at the pickup location";
-      } else if (status === "completed") {
-        title = "Trip Completed";
-        notificationBody =
-          "Your trip has been completed. Thank you for using Links!";
-      } else {
-        title = "Trip Cancelled";
-        notificationBody = "Your trip has been cancelled by the driver";
-      }
-
-      // Resolve rider user_id from rider_profiles (fire-and-forget)
-      Promise.resolve(
-        serviceClient
-          .from("rider_profiles")
-          .select("user_id")
-          .eq("id", riderId)
-          .single(),
-      )
-        .then(({ data: riderProfile }) => {
-          if (!riderProfile?.user_id) return;
-          return sendNotificationsToUsers(
-            [riderProfile.user_id],
-            title,
-            notificationBody,
-            "rider",
-            { trip_id: tripId, notification_type: `trip_${status}` },
-          );
-        })
-        .catch((error) => {
-          logger.warn("Failed to send trip status notification to rider", {
-            tripId,
-            status,
-            error,
-          });
+    if (riderId && !riderNotified) {
+      const templateKey =
+        status === "arrived"
+          ? "trip_driver_arrived"
+          : status === "picked_up"
+            ? "trip_started"
+            : status === "completed"
+              ? "trip_completed"
+              : "trip_cancelled_by_driver";
+
+      notifyRider(riderId, templateKey, `trip_${status}`).catch((error) => {
+        logger.warn("Failed to send trip status notification to rider", {
+          tripId,
+          status,
+          error,
         });
+      });
     }
 
     return NextResponse.json({ success: true, tripId }, { status: 200 });
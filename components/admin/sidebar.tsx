@@ -20,6 +20,15 @@ import {
   MapPin,
   Flag,
   ShieldAlert,
+  Calculator,
+  FlaskConical,
+  Target,
+  BadgeDollarSign,
+  Ticket,
+  Landmark,
+  Webhook,
+  LayoutTemplate,
+  CalendarClock,
 } from 'lucide-react'
 import { useState } from 'react'
 import { useQuery } from '@tanstack/react-query'
@@ -37,12 +46,21 @@ const navigation = [
   { name: 'Incidents', href: INCIDENTS_HREF, icon: ShieldAlert },
   { name: 'Trip Requests', href: '/admin/trip-requests', icon: ClipboardList },
   { name: 'Payments', href: '/admin/payments', icon: CreditCard },
+  { name: 'Subscription plans', href: '/admin/subscription-plans', icon: BadgeDollarSign },
+  { name: 'Promo codes', href: '/admin/promo-codes', icon: Ticket },
+  { name: 'Finance', href: '/admin/finance', icon: Landmark },
+  { name: 'MMG webhooks', href: '/admin/webhooks', icon: Webhook },
   { name: 'Analytics', href: '/admin/analytics', icon: BarChart3 },
   { name: 'Notifications', href: '/admin/notifications', icon: Megaphone },
+  { name: 'Notification templates', href: '/admin/notification-templates', icon: LayoutTemplate },
+  { name: 'Campaigns', href: '/admin/campaigns', icon: CalendarClock },
   { name: 'Message Logs', href: '/admin/message-logs', icon: MessageSquare },
   { name: 'Audit Log', href: '/admin/audit-log', icon: FileText },
   { name: 'Agreement Acceptances', href: '/admin/agreement-acceptances', icon: FileCheck },
   { name: 'Cost landmarks', href: '/admin/cost-estimate-landmarks', icon: MapPin },
+  { name: 'Fare rules', href: '/admin/fare-rules', icon: Calculator },
+  { name: 'Pricing lab', href: '/admin/pricing-lab', icon: FlaskConical },
+  { name: 'Fare accuracy', href: '/admin/fare-accuracy', icon: Target },
   { name: 'Settings', href: '/admin/settings', icon: Settings },
 ]
 
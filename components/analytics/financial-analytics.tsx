@@ -14,10 +14,10 @@ interface FinancialAnalyticsProps {
 
 const COLORS = ['#10B981', '#3B82F6']
 
-type SubscriptionData = {
-  created_at: string
-  amount: number
-  status: string
+type LedgerRevenueData = {
+  occurred_at: string
+  debit: number
+  credit: number
 }
 
 type TripRevenueData = {
@@ -37,13 +37,13 @@ async function fetchFinancialAnalytics(dateRange: { start: Date; end: Date }) {
   const startDate = dateRange.start.toISOString()
   const endDate = dateRange.end.toISOString()
 
-  // Subscription revenue
+  // Subscription revenue from the ledger: revenue and contra lines, net of discounts, refunds and adjustments
   const { data: subscriptions } = await supabase
-    .from('subscriptions')
-    .select('created_at, amount, status')
-    .gte('created_at', startDate)
-    .lte('created_at', endDate)
-    .eq('status', 'active')
+    .from('ledger_entries')
+    .select('occurred_at, debit, credit')
+    .not('account', 'like', 'cash:%')
+    .gte('occurred_at', startDate)
+    .lte('occurred_at', endDate)
 
   // Trip revenue
   const { data: trips } = await supabase
@@ -62,7 +62,7 @@ async function fetchFinancialAnalytics(dateRange: { start: Date; end: Date }) {
     .lte('created_at', endDate)
 
   return {
-    subscriptions: (subscriptions as SubscriptionData[] | null) || [],
+    subscriptions: (subscriptions as LedgerRevenueData[] | null) || [],
     trips: (trips as TripRevenueData[] | null) || [],
     transactions: (transactions as TransactionData[] | null) || [],
   }
@@ -77,13 +77,14 @@ export function FinancialAnalytics({ dateRange }: FinancialAnalyticsProps) {
   // Process revenue trends
   const revenueData: any = {}
   
-  data?.subscriptions.forEach(sub => {
-    const date = format(new Date(sub.created_at), 'MMM d')
+  data?.subscriptions.forEach(line => {
+    const date = format(new Date(line.occurred_at), 'MMM d')
     if (!revenueData[date]) {
       revenueData[date] = { date, subscription: 0, trip: 0, total: 0 }
     }
-    revenueData[date].subscription += sub.amount
-    revenueData[date].total += sub.amount
+    const amount = Number(line.credit) - Number(line.debit)
+    revenueData[date].subscription += amount
+    revenueData[date].total += amount
   })
 
   data?.trips.forEach(trip => {
@@ -98,7 +99,7 @@ export function FinancialAnalytics({ dateRange }: FinancialAnalyticsProps) {
   const revenueChart = Object.values(revenueData).slice(-30)
 
   // Revenue by source
-  const subscriptionRevenue = data?.subscriptions.reduce((sum, s) => sum + s.amount, 0) || 0
+  const subscriptionRevenue = data?.subscriptions.reduce((sum, l) => sum + Number(l.credit) - Number(l.debit), 0) || 0
   const tripRevenue = data?.trips.reduce((sum, t) => sum + (t.actual_fare || 0), 0) || 0
   const revenueBySource = [
     { name: 'Subscriptions', value: subscriptionRevenue },
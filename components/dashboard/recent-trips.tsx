@@ -36,6 +36,7 @@ async function fetchRecentTrips() {
 const statusColors = {
   requested: "bg-yellow-100 text-yellow-800",
   accepted: "bg-blue-100 text-blue-800",
+  arrived: "bg-cyan-100 text-cyan-800",
   picked_up: "bg-purple-100 text-purple-800",
   completed: "bg-green-100 text-green-800",
   cancelled: "bg-red-100 text-red-800",
@@ -0,0 +1,13 @@
+import { timingSafeEqual } from 'crypto'
+import type { NextRequest } from 'next/server'
+import { extractBearerToken } from '@/lib/bearer-api'
+
+/** True when the request carries `Authorization: Bearer $CRON_SECRET` (scheduled jobs under /api/cron). */
+export function isCronRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET
+  const token = extractBearerToken(request)
+  if (!secret || !token) return false
+  const a = Buffer.from(token)
+  const b = Buffer.from(secret)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
@@ -0,0 +1,293 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Json } from '@/types/database'
+import { guyanaWeekBounds } from '@/lib/guyana-time'
+import { logger } from '@/lib/logger'
+
+/**
+ * Per-trip commission for drivers billed by commission instead of a subscription (see
+ * `supabase/migrations/20260518120000_driver_commission.sql` header). Accruals are written by a
+ * trigger on trips; this module reads balances and closes weekly statements, run on a schedule by
+ * GET /api/cron/commission-statements.
+ */
+
+type Db = SupabaseClient<Database>
+
+export type CommissionAccrual = Database['public']['Tables']['driver_commission_accruals']['Row']
+export type CommissionStatement = Database['public']['Tables']['driver_commission_statements']['Row']
+
+export const DRIVER_COMMISSION_CONFIG_KEY = 'driver_commission'
+
+/** `plan_code` of commission payments on ledger lines and receipts (not a subscription plan). */
+export const COMMISSION_PLAN_CODE = 'commission'
+export const COMMISSION_PLAN_LABEL = 'Driver commission'
+
+export const MAX_COMMISSION_RATE_PERCENT = 100
+
+export type DriverCommissionConfig = {
+  /** Rate for commission drivers without their own `commission_rate_percent`. */
+  defaultRatePercent: number
+}
+
+export const DEFAULT_DRIVER_COMMISSION_CONFIG: DriverCommissionConfig = { defaultRatePercent: 10 }
+
+export function isValidCommissionRate(rate: number): boolean {
+  return Number.isFinite(rate) && rate >= 0 && rate <= MAX_COMMISSION_RATE_PERCENT && Math.round(rate * 100) === rate * 100
+}
+
+export function parseDriverCommissionConfig(value: unknown): DriverCommissionConfig {
+  const raw = value && typeof value === 'object' ? (value as Record<string, unknown>) : {}
+  const rate = typeof raw.default_rate_percent === 'number' ? raw.default_rate_percent : NaN
+  return { defaultRatePercent: isValidCommissionRate(rate) ? rate : DEFAULT_DRIVER_COMMISSION_CONFIG.defaultRatePercent }
+}
+
+export function driverCommissionConfigToJson(config: DriverCommissionConfig): Json {
+  return { default_rate_percent: config.defaultRatePercent }
+}
+
+export async function loadDriverCommissionConfig(db: Db): Promise<DriverCommissionConfig> {
+  const { data, error } = await db
+    .from('system_config')
+    .select('value')
+    .eq('key', DRIVER_COMMISSION_CONFIG_KEY)
+    .maybeSingle()
+  if (error) throw error
+  return parseDriverCommissionConfig(data?.value)
+}
+
+const roundMoney = (n: number) => Math.round(n * 100) / 100
+
+export type CommissionBalance = {
+  /** All commission accrued on the driver's trips. */
+  accrued: number
+  /** Completed commission payments. */
+  paid: number
+  /** accrued − paid; negative is credit from overpaying. */
+  balance: number
+  currency: string
+}
+
+async function sumColumn(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: { amount: number }[] | null; error: unknown }>
+): Promise<number> {
+  let total = 0
+  for (let offset = 0; ; offset += 1000) {
+    const { data, error } = await fetchPage(offset, offset + 999)
+    if (error) throw error
+    for (const row of data ?? []) total += Number(row.amount)
+    if (!data || data.length < 1000) return roundMoney(total)
+  }
+}
+
+/** What the driver owes right now. `driver` is the driver_profiles row. */
+export async function getCommissionBalance(
+  db: Db,
+  driver: { id: string; user_id: string | null }
+): Promise<CommissionBalance> {
+  const [accrued, paid] = await Promise.all([
+    sumColumn((from, to) =>
+      db.from('driver_commission_accruals').select('amount').eq('driver_id', driver.id).order('id').range(from, to)
+    ),
+    driver.user_id
+      ? sumColumn((from, to) =>
+          db
+            .from('payment_transactions')
+            .select('amount')
+            .eq('user_id', driver.user_id as string)
+            .eq('purpose', 'commission')
+            .eq('status', 'completed')
+            .order('id')
+            .range(from, to)
+        )
+      : Promise.resolve(0),
+  ])
+  return { accrued, paid, balance: roundMoney(accrued - paid), currency: 'GYD' }
+}
+
+/** Commission rate that applies to the driver's next completed trip. */
+export function effectiveCommissionRate(
+  driver: { commission_rate_percent: number | null },
+  config: DriverCommissionConfig
+): number {
+  return driver.commission_rate_percent != null ? Number(driver.commission_rate_percent) : config.defaultRatePercent
+}
+
+/** The Guyana week (Mon–Sun) before the one containing `now`: what the Monday run closes. */
+export function previousStatementPeriod(now: Date): { start: Date; end: Date } {
+  const { start } = guyanaWeekBounds(now)
+  return { start: new Date(start.getTime() - 7 * 86_400_000), end: start }
+}
+
+export type StatementRunSummary = {
+  periodStart: string
+  periodEnd: string
+  drivers: number
+  created: number
+  /** Already closed by an earlier run. */
+  existing: number
+  /** Nothing owed and no activity; no statement written. */
+  empty: number
+  errors: number
+}
+
+type StatementDriver = { id: string; user_id: string | null }
+
+/**
+ * Closes `period` for one driver: the accruals not on any statement yet (including late ones from
+ * earlier weeks) and the commission payments completed since the previous statement.
+ */
+async function closeDriverWeek(
+  db: Db,
+  driver: StatementDriver,
+  period: { start: Date; end: Date }
+): Promise<'created' | 'existing' | 'empty'> {
+  const startIso = period.start.toISOString()
+  const endIso = period.end.toISOString()
+
+  const { data: existing, error: existingError } = await db
+    .from('driver_commission_statements')
+    .select('id')
+    .eq('driver_id', driver.id)
+    .eq('period_start', startIso)
+    .maybeSingle()
+  if (existingError) throw existingError
+  if (existing) return 'existing'
+
+  const { data: previous, error: previousError } = await db
+    .from('driver_commission_statements')
+    .select('period_end, closing_balance')
+    .eq('driver_id', driver.id)
+    .lt('period_start', startIso)
+    .order('period_start', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  if (previousError) throw previousError
+
+  const accruals: Pick<CommissionAccrual, 'id' | 'fare' | 'amount' | 'currency'>[] = []
+  for (let offset = 0; ; offset += 1000) {
+    const { data, error } = await db
+      .from('driver_commission_accruals')
+      .select('id, fare, amount, currency')
+      .eq('driver_id', driver.id)
+      .is('statement_id', null)
+      .lt('accrued_at', endIso)
+      .order('accrued_at', { ascending: true })
+      .range(offset, offset + 999)
+    if (error) throw error
+    accruals.push(...(data ?? []))
+    if (!data || data.length < 1000) break
+  }
+
+  let paymentsTotal = 0
+  if (driver.user_id) {
+    let query = db
+      .from('payment_transactions')
+      .select('amount')
+      .eq('user_id', driver.user_id)
+      .eq('purpose', 'commission')
+      .eq('status', 'completed')
+      .lt('completed_at', endIso)
+    if (previous) query = query.gte('completed_at', previous.period_end)
+    const { data: payments, error } = await query
+    if (error) throw error
+    paymentsTotal = roundMoney((payments ?? []).reduce((sum, p) => sum + Number(p.amount), 0))
+  }
+
+  const openingBalance = previous ? Number(previous.closing_balance) : 0
+  if (!accruals.length && paymentsTotal === 0 && openingBalance === 0) return 'empty'
+
+  const faresTotal = roundMoney(accruals.reduce((sum, a) => sum + Number(a.fare), 0))
+  const commissionTotal = roundMoney(accruals.reduce((sum, a) => sum + Number(a.amount), 0))
+  const { data: statement, error: insertError } = await db
+    .from('driver_commission_statements')
+    .insert({
+      driver_id: driver.id,
+      period_start: startIso,
+      period_end: endIso,
+      currency: accruals[0]?.currency ?? 'GYD',
+      opening_balance: openingBalance,
+      trip_count: accruals.length,
+      fares_total: faresTotal,
+      commission_total: commissionTotal,
+      payments_total: paymentsTotal,
+      closing_balance: roundMoney(openingBalance + commissionTotal - paymentsTotal),
+    })
+    .select('id')
+    .single()
+  if (insertError?.code === '23505') return 'existing'
+  if (insertError || !statement) throw insertError ?? new Error('Statement insert returned no row')
+
+  // Stamp exactly the accruals counted above; an accrual that arrived meanwhile goes on next week's
+  for (let i = 0; i < accruals.length; i += 200) {
+    const { error } = await db
+      .from('driver_commission_accruals')
+      .update({ statement_id: statement.id })
+      .in('id', accruals.slice(i, i + 200).map((a) => a.id))
+    if (error) {
+      // Drop the statement so the next run closes the week again from scratch
+      await db.from('driver_commission_accruals').update({ statement_id: null }).eq('statement_id', statement.id)
+      await db.from('driver_commission_statements').delete().eq('id', statement.id)
+      throw error
+    }
+  }
+  return 'created'
+}
+
+/**
+ * Writes last week's statement for every commission driver and every driver with accruals not on a
+ * statement yet (a driver switched back to subscription still gets one for their final trips).
+ * Safe to run more than once a week: a closed week is never rewritten.
+ */
+export async function generateWeeklyStatements(db: Db, now = new Date()): Promise<StatementRunSummary> {
+  const period = previousStatementPeriod(now)
+  const summary: StatementRunSummary = {
+    periodStart: period.start.toISOString(),
+    periodEnd: period.end.toISOString(),
+    drivers: 0,
+    created: 0,
+    existing: 0,
+    empty: 0,
+    errors: 0,
+  }
+
+  const driverIds = new Set<string>()
+  const { data: commissionDrivers, error: driversError } = await db
+    .from('driver_profiles')
+    .select('id')
+    .eq('billing_mode', 'commission')
+  if (driversError) throw driversError
+  for (const d of commissionDrivers ?? []) driverIds.add(d.id)
+
+  for (let offset = 0; ; offset += 1000) {
+    const { data, error } = await db
+      .from('driver_commission_accruals')
+      .select('driver_id')
+      .is('statement_id', null)
+      .lt('accrued_at', summary.periodEnd)
+      .order('id')
+      .range(offset, offset + 999)
+    if (error) throw error
+    for (const a of data ?? []) driverIds.add(a.driver_id)
+    if (!data || data.length < 1000) break
+  }
+
+  const ids = Array.from(driverIds)
+  for (let i = 0; i < ids.length; i += 200) {
+    const { data: drivers, error } = await db
+      .from('driver_profiles')
+      .select('id, user_id')
+      .in('id', ids.slice(i, i + 200))
+    if (error) throw error
+    for (const driver of drivers ?? []) {
+      summary.drivers++
+      try {
+        summary[await closeDriverWeek(db, driver, period)]++
+      } catch (err) {
+        summary.errors++
+        logger.error('Closing commission statement failed', { error: err, driverId: driver.id })
+      }
+    }
+  }
+
+  logger.info('Commission statements generated', { ...summary })
+  return summary
+}
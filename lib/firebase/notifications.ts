@@ -7,6 +7,7 @@ import { getMessagingInstance, type FirebaseProjectType } from './admin'
 import { createClient } from '@supabase/supabase-js'
 import type { Database } from '@/types/database'
 import { logger } from '@/lib/logger'
+import { renderForUsers, SYSTEM_TEMPLATES, type RenderedGroup } from '@/lib/notification-templates'
 import type { MulticastMessage } from 'firebase-admin/messaging'
 
 // FCM supports up to 500 tokens per batch
@@ -67,6 +68,14 @@ export interface NotificationSendResult {
   errors: Array<{ token: string; error: string }>
 }
 
+/**
+ * Result of sending notifications to users
+ */
+export interface UserNotificationSendResult extends NotificationSendResult {
+  /** Users in batches FCM rejected as a whole (outage, auth); nothing reached them, so they can be retried. */
+  failedUserIds: string[]
+}
+
 /**
  * Fetch FCM tokens for given user IDs
  * Returns only users that have FCM tokens
@@ -273,7 +282,8 @@ export async function sendPushToFcmTokens(
 
 /**
  * Send push notifications to multiple users
- * Handles batching for large token lists
+ * Handles batching for large token lists. A batch that fails as a whole doesn't stop the others;
+ * its users come back in failedUserIds. Throws only when every batch failed.
  */
 export async function sendNotificationsToUsers(
   userIds: string[],
@@ -281,13 +291,14 @@ export async function sendNotificationsToUsers(
   body: string,
   projectType: FirebaseProjectType,
   data?: Record<string, string>
-): Promise<NotificationSendResult> {
+): Promise<UserNotificationSendResult> {
   if (userIds.length === 0) {
     return {
       successCount: 0,
       failureCount: 0,
       invalidTokens: [],
       errors: [],
+      failedUserIds: [],
     }
   }
 
@@ -301,33 +312,51 @@ export async function sendNotificationsToUsers(
       failureCount: 0,
       invalidTokens: [],
       errors: [],
+      failedUserIds: [],
     }
   }
 
-  const allTokens = tokensWithUsers.map((t) => t.fcm_token)
-
   // Batch tokens if needed (FCM supports up to 500 per batch)
-  const batches: string[][] = []
-  for (let i = 0; i < allTokens.length; i += FCM_BATCH_SIZE) {
-    batches.push(allTokens.slice(i, i + FCM_BATCH_SIZE))
+  const batches: FCMTokenWithUser[][] = []
+  for (let i = 0; i < tokensWithUsers.length; i += FCM_BATCH_SIZE) {
+    batches.push(tokensWithUsers.slice(i, i + FCM_BATCH_SIZE))
   }
 
   logger.info('Sending notifications in batches', {
-    totalTokens: allTokens.length,
+    totalTokens: tokensWithUsers.length,
     batchCount: batches.length,
   })
 
-  // Send all batches
-  const batchResults = await Promise.all(
-    batches.map((batch) => sendBatch(batch, title, body, projectType, data))
+  // Send all batches; one failing batch must not lose the others
+  const settled = await Promise.allSettled(
+    batches.map((batch) =>
+      sendBatch(
+        batch.map((t) => t.fcm_token),
+        title,
+        body,
+        projectType,
+        data
+      )
+    )
+  )
+
+  const rejected = settled.filter((r): r is PromiseRejectedResult => r.status === 'rejected')
+  if (rejected.length === batches.length) {
+    throw rejected[0].reason
+  }
+
+  const batchResults = settled.flatMap((r) => (r.status === 'fulfilled' ? [r.value] : []))
+  const failedUserIds = batches.flatMap((batch, i) =>
+    settled[i].status === 'rejected' ? batch.map((t) => t.user_id) : []
   )
 
   // Aggregate results
-  const aggregatedResult: NotificationSendResult = {
+  const aggregatedResult: UserNotificationSendResult = {
     successCount: batchResults.reduce((sum, r) => sum + r.successCount, 0),
     failureCount: batchResults.reduce((sum, r) => sum + r.failureCount, 0),
     invalidTokens: batchResults.flatMap((r) => r.invalidTokens),
     errors: batchResults.flatMap((r) => r.errors),
+    failedUserIds,
   }
 
   // Remove invalid tokens from database
@@ -343,6 +372,13 @@ export async function sendNotificationsToUsers(
     logger.warn('FCM send errors', { errors: aggregatedResult.errors })
   }
 
+  if (failedUserIds.length > 0) {
+    logger.warn('FCM batches failed', {
+      failedBatches: rejected.length,
+      failedUserCount: failedUserIds.length,
+    })
+  }
+
   logger.info('Notification sending completed', {
     successCount: aggregatedResult.successCount,
     failureCount: aggregatedResult.failureCount,
@@ -352,16 +388,39 @@ export async function sendNotificationsToUsers(
   return aggregatedResult
 }
 
-const TRIP_REQUESTS_PAUSED_TITLE = 'Sending Trips Requests is temporarily unavailable'
-const TRIP_REQUESTS_PAUSED_BODY =
-  'Sending trip requests is temporarily unavailable. will resume shortly.'
+const TRIP_REQUESTS_PAUSED_TEMPLATE = 'trip_requests_paused'
 
 const TRIP_REQUESTS_FCM_DATA: Record<string, string> = {
   trip_requests_enabled: 'false',
 }
 
+/** Sends each rendered group (one per locale, or per recipient for personalised text) and adds up the results. */
+async function sendRenderedGroups(
+  groups: RenderedGroup[],
+  projectType: FirebaseProjectType,
+  data: Record<string, string>
+): Promise<UserNotificationSendResult> {
+  const total: UserNotificationSendResult = {
+    successCount: 0,
+    failureCount: 0,
+    invalidTokens: [],
+    errors: [],
+    failedUserIds: [],
+  }
+  for (const group of groups) {
+    const result = await sendNotificationsToUsers(group.userIds, group.title, group.body, projectType, data)
+    total.successCount += result.successCount
+    total.failureCount += result.failureCount
+    total.invalidTokens.push(...result.invalidTokens)
+    total.errors.push(...result.errors)
+    total.failedUserIds.push(...result.failedUserIds)
+  }
+  return total
+}
+
 /**
  * Broadcast to all riders and drivers with an FCM token that trip request creation is paused.
+ * The text is the `trip_requests_paused` notification template, in each user's locale.
  * Logs a single message_logs row. Use after system_config is updated to disabled.
  */
 export async function sendTripRequestsPausedNotificationToRidersAndDrivers(
@@ -397,21 +456,14 @@ export async function sendTripRequestsPausedNotificationToRidersAndDrivers(
   const requestedRider = riderUserIds.length
   const requestedDriver = driverUserIds.length
 
+  const [riderGroups, driverGroups] = await Promise.all([
+    renderForUsers(supabase, TRIP_REQUESTS_PAUSED_TEMPLATE, 'push', riderUserIds),
+    renderForUsers(supabase, TRIP_REQUESTS_PAUSED_TEMPLATE, 'push', driverUserIds),
+  ])
+
   const [riderResult, driverResult] = await Promise.all([
-    sendNotificationsToUsers(
-      riderUserIds,
-      TRIP_REQUESTS_PAUSED_TITLE,
-      TRIP_REQUESTS_PAUSED_BODY,
-      'rider',
-      TRIP_REQUESTS_FCM_DATA
-    ),
-    sendNotificationsToUsers(
-      driverUserIds,
-      TRIP_REQUESTS_PAUSED_TITLE,
-      TRIP_REQUESTS_PAUSED_BODY,
-      'driver',
-      TRIP_REQUESTS_FCM_DATA
-    ),
+    sendRenderedGroups(riderGroups, 'rider', TRIP_REQUESTS_FCM_DATA),
+    sendRenderedGroups(driverGroups, 'driver', TRIP_REQUESTS_FCM_DATA),
   ])
 
   const successCount = riderResult.successCount + driverResult.successCount
@@ -419,10 +471,14 @@ export async function sendTripRequestsPausedNotificationToRidersAndDrivers(
   const invalidRemoved =
     riderResult.invalidTokens.length + driverResult.invalidTokens.length
 
+  // The log row keeps the English text (or the first rendered one when nobody uses English)
+  const groups = [...riderGroups, ...driverGroups]
+  const logged = groups.find((g) => g.locale === 'en') ?? groups[0] ?? SYSTEM_TEMPLATES[TRIP_REQUESTS_PAUSED_TEMPLATE].push
+
   const { error: logError } = await supabase.from('message_logs').insert({
     channel: 'push',
-    title: TRIP_REQUESTS_PAUSED_TITLE,
-    message: TRIP_REQUESTS_PAUSED_BODY,
+    title: logged.title,
+    message: logged.body,
     status: successCount > 0 ? 'sent' : 'failed',
     sent_by_user_id: sentByUserId,
     notification_type: 'trip_requests_paused',
@@ -433,6 +489,7 @@ export async function sendTripRequestsPausedNotificationToRidersAndDrivers(
       success_count: successCount,
       failure_count: failureCount,
       invalid_tokens_removed: invalidRemoved,
+      locales: Array.from(new Set(groups.map((g) => g.locale))),
     },
   })
 
@@ -1,5 +1,9 @@
 import { parseISO } from 'date-fns'
 import { formatInTimeZone, fromZonedTime } from 'date-fns-tz'
+import { guyanaWallClock } from '@/supabase/functions/_shared/guyanaClock'
+
+// Also used by the cost-estimates edge function, so it lives with the functions' shared code
+export { guyanaWallClock }
 
 /** Guyana local time (UTC−4, no DST). */
 const GUYANA_TIMEZONE = 'America/Guyana'
@@ -55,3 +59,22 @@ export function parseLocationHistoryRecordedAt(value: string): Date {
 export function formatLocationHistoryGuyana(value: string, formatStr: string): string {
   return formatInTimeZone(parseLocationHistoryRecordedAt(value), GUYANA_TIMEZONE, formatStr)
 }
+
+/** Start (inclusive) and end (exclusive) instants of a Guyana calendar month given as `yyyy-MM`. */
+export function guyanaMonthBounds(month: string): { start: Date; end: Date } {
+  const [year, mon] = month.split('-').map(Number)
+  const next = mon === 12 ? `${year + 1}-01` : `${year}-${String(mon + 1).padStart(2, '0')}`
+  return {
+    start: fromZonedTime(`${month}-01T00:00:00`, GUYANA_TIMEZONE),
+    end: fromZonedTime(`${next}-01T00:00:00`, GUYANA_TIMEZONE),
+  }
+}
+
+/** Start (Monday 00:00, inclusive) and end (next Monday, exclusive) of the Guyana week containing `date`. */
+export function guyanaWeekBounds(date: Date): { start: Date; end: Date } {
+  const { date: day, isoWeekday } = guyanaWallClock(date)
+  const monday = new Date(`${day}T00:00:00Z`)
+  monday.setUTCDate(monday.getUTCDate() - (isoWeekday - 1))
+  const start = fromZonedTime(`${monday.toISOString().slice(0, 10)}T00:00:00`, GUYANA_TIMEZONE)
+  return { start, end: new Date(start.getTime() + 7 * 86_400_000) }
+}
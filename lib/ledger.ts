@@ -0,0 +1,302 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type {
+  Database,
+  LedgerAccount,
+  LedgerSource,
+  PaymentPurpose,
+  SubscriptionAudience,
+  UserRole,
+} from '@/types/database'
+import { COMMISSION_PLAN_CODE } from '@/lib/driver-commission'
+
+/**
+ * Double-entry ledger for subscription and commission money (see
+ * `supabase/migrations/20260515120000_financial_ledger.sql` header). Every posting is one journal
+ * whose lines balance; the database rejects unbalanced journals and re-posting the same event.
+ */
+export type LedgerEntry = Database['public']['Tables']['ledger_entries']['Row']
+
+type Db = SupabaseClient<Database>
+
+export const LEDGER_ACCOUNT_LABEL: Record<LedgerAccount, string> = {
+  'cash:mmg': 'Cash – MMG',
+  'cash:manual': 'Cash – manual',
+  'revenue:subscriptions': 'Subscription revenue',
+  'revenue:commissions': 'Commission revenue',
+  'revenue:adjustments': 'Revenue adjustments',
+  'contra:promo_discounts': 'Promo discounts',
+  'contra:refunds': 'Refunds',
+}
+
+export type LedgerLine = { account: LedgerAccount; debit: number; credit: number }
+
+type JournalContext = {
+  source: LedgerSource
+  sourceId: string
+  occurredAt: string
+  currency: string
+  userId?: string | null
+  userRole?: UserRole | null
+  planCode?: string | null
+  memo?: string | null
+  createdBy?: string | null
+}
+
+const roundMoney = (n: number) => Math.round(n * 100) / 100
+
+function debit(account: LedgerAccount, amount: number): LedgerLine {
+  return { account, debit: roundMoney(amount), credit: 0 }
+}
+
+function credit(account: LedgerAccount, amount: number): LedgerLine {
+  return { account, debit: 0, credit: roundMoney(amount) }
+}
+
+export function isBalanced(lines: LedgerLine[]): boolean {
+  const diff = lines.reduce((sum, l) => sum + l.debit - l.credit, 0)
+  return Math.abs(diff) < 0.005
+}
+
+function cashAccount(method: string | null): LedgerAccount {
+  return method === 'mmg' ? 'cash:mmg' : 'cash:manual'
+}
+
+/**
+ * Lines for a completed payment: cash and promo discount against the gross plan price, or against
+ * commission revenue for a driver settling their commission balance.
+ */
+export function paymentLedgerLines(payment: {
+  amount: number
+  original_amount: number | null
+  discount_amount: number
+  payment_method: string
+  purpose: PaymentPurpose
+}): LedgerLine[] {
+  const amount = Number(payment.amount)
+  const discount = Number(payment.discount_amount ?? 0)
+  const gross = payment.original_amount != null ? Number(payment.original_amount) : amount
+  return [
+    debit(cashAccount(payment.payment_method), amount),
+    debit('contra:promo_discounts', discount),
+    credit(payment.purpose === 'commission' ? 'revenue:commissions' : 'revenue:subscriptions', gross),
+  ].filter((l) => l.debit > 0 || l.credit > 0)
+}
+
+export function refundLedgerLines(refund: { amount: number; provider: string | null }): LedgerLine[] {
+  return [debit('contra:refunds', Number(refund.amount)), credit(cashAccount(refund.provider), Number(refund.amount))]
+}
+
+/** Positive `amount` adds revenue (money received outside MMG), negative removes it. */
+export function adjustmentLedgerLines(amount: number): LedgerLine[] {
+  return amount >= 0
+    ? [debit('cash:manual', amount), credit('revenue:adjustments', amount)]
+    : [debit('revenue:adjustments', -amount), credit('cash:manual', -amount)]
+}
+
+function ledgerRole(role: UserRole | null | undefined): SubscriptionAudience | null {
+  return role === 'driver' || role === 'rider' ? role : null
+}
+
+/**
+ * Inserts the journal in one statement. Returns false when the event was already posted.
+ * Throws on anything else, including an unbalanced journal.
+ */
+async function postJournal(db: Db, ctx: JournalContext, lines: LedgerLine[]): Promise<boolean> {
+  if (lines.length < 2 || !isBalanced(lines)) {
+    throw new Error(`Ledger journal for ${ctx.source} ${ctx.sourceId} does not balance`)
+  }
+  const journalId = crypto.randomUUID()
+  const { error } = await db.from('ledger_entries').insert(
+    lines.map((l) => ({
+      journal_id: journalId,
+      source: ctx.source,
+      source_id: ctx.sourceId,
+      account: l.account,
+      debit: l.debit,
+      credit: l.credit,
+      currency: ctx.currency,
+      occurred_at: ctx.occurredAt,
+      user_id: ctx.userId ?? null,
+      user_role: ledgerRole(ctx.userRole),
+      plan_code: ctx.planCode ?? null,
+      memo: ctx.memo ?? null,
+      created_by: ctx.createdBy ?? null,
+    }))
+  )
+  if (error?.code === '23505') return false
+  if (error) throw error
+  return true
+}
+
+async function payerContext(
+  db: Db,
+  payment: { user_id: string | null; plan_code: string | null; subscription_id: string | null; purpose: PaymentPurpose }
+) {
+  const [{ data: user, error: userError }, { data: subscription, error: subscriptionError }] = await Promise.all([
+    payment.user_id
+      ? db.from('users').select('role').eq('id', payment.user_id).maybeSingle()
+      : Promise.resolve({ data: null, error: null }),
+    !payment.plan_code && payment.subscription_id
+      ? db.from('subscriptions').select('plan_type').eq('id', payment.subscription_id).maybeSingle()
+      : Promise.resolve({ data: null, error: null }),
+  ])
+  if (userError) throw userError
+  if (subscriptionError) throw subscriptionError
+  const planCode = payment.purpose === 'commission' ? COMMISSION_PLAN_CODE : payment.plan_code ?? subscription?.plan_type ?? null
+  return { userRole: user?.role ?? null, planCode }
+}
+
+const PAYMENT_COLUMNS =
+  'id, user_id, subscription_id, plan_code, purpose, amount, original_amount, discount_amount, currency, payment_method, status, completed_at'
+
+/** Posts a completed payment. No-op (false) if it isn't completed, is free, or was posted already. */
+export async function postPaymentToLedger(db: Db, paymentId: string): Promise<boolean> {
+  const { data: payment, error } = await db
+    .from('payment_transactions')
+    .select(PAYMENT_COLUMNS)
+    .eq('id', paymentId)
+    .maybeSingle()
+  if (error) throw error
+  if (!payment || !['completed', 'refunded'].includes(payment.status) || !payment.completed_at) return false
+
+  const lines = paymentLedgerLines(payment)
+  if (lines.length === 0) return false
+
+  return postJournal(
+    db,
+    {
+      source: 'payment',
+      sourceId: payment.id,
+      occurredAt: payment.completed_at,
+      currency: payment.currency,
+      userId: payment.user_id,
+      ...(await payerContext(db, payment)),
+    },
+    lines
+  )
+}
+
+/** Posts a processed refund against the payment's role and plan. */
+export async function postRefundToLedger(db: Db, refundId: string): Promise<boolean> {
+  const { data: refund, error } = await db
+    .from('payment_refunds')
+    .select('id, payment_transaction_id, amount, currency, provider, status, processed_at, decided_at')
+    .eq('id', refundId)
+    .maybeSingle()
+  if (error) throw error
+  if (!refund || refund.status !== 'processed') return false
+
+  const { data: payment, error: paymentError } = await db
+    .from('payment_transactions')
+    .select('user_id, subscription_id, plan_code, purpose')
+    .eq('id', refund.payment_transaction_id)
+    .single()
+  if (paymentError) throw paymentError
+
+  return postJournal(
+    db,
+    {
+      source: 'refund',
+      sourceId: refund.id,
+      occurredAt: refund.processed_at ?? refund.decided_at ?? new Date().toISOString(),
+      currency: refund.currency,
+      userId: payment.user_id,
+      ...(await payerContext(db, payment)),
+    },
+    refundLedgerLines(refund)
+  )
+}
+
+/** Manual correction by an admin; always a new journal. Returns the adjustment's `source_id`. */
+export async function postLedgerAdjustment(
+  db: Db,
+  input: {
+    amount: number
+    currency: string
+    memo: string
+    occurredAt: string
+    userRole?: SubscriptionAudience | null
+    planCode?: string | null
+    userId?: string | null
+    createdBy: string
+  }
+): Promise<string> {
+  const sourceId = crypto.randomUUID()
+  await postJournal(
+    db,
+    {
+      source: 'adjustment',
+      sourceId,
+      occurredAt: input.occurredAt,
+      currency: input.currency,
+      userId: input.userId,
+      userRole: input.userRole,
+      planCode: input.planCode,
+      memo: input.memo,
+      createdBy: input.createdBy,
+    },
+    adjustmentLedgerLines(input.amount)
+  )
+  return sourceId
+}
+
+/** ids from `source_id` already posted for `source` within the window. */
+async function postedSourceIds(db: Db, source: LedgerSource, fromIso: string, toIso: string): Promise<Set<string>> {
+  const ids = new Set<string>()
+  for (let offset = 0; ; offset += 1000) {
+    const { data, error } = await db
+      .from('ledger_entries')
+      .select('source_id')
+      .eq('source', source)
+      .gte('occurred_at', fromIso)
+      .lt('occurred_at', toIso)
+      .range(offset, offset + 999)
+    if (error) throw error
+    for (const row of data ?? []) ids.add(row.source_id)
+    if (!data || data.length < 1000) return ids
+  }
+}
+
+/**
+ * Posts payments completed and refunds processed in [from, to) that have no journal yet, e.g.
+ * because posting failed when they settled. Returns how many journals were added.
+ */
+export async function postMissingLedgerEntries(db: Db, from: Date, to: Date): Promise<number> {
+  const fromIso = from.toISOString()
+  const toIso = to.toISOString()
+  let posted = 0
+
+  const [postedPayments, postedRefunds] = await Promise.all([
+    postedSourceIds(db, 'payment', fromIso, toIso),
+    postedSourceIds(db, 'refund', fromIso, toIso),
+  ])
+
+  for (let offset = 0; ; offset += 1000) {
+    const { data: payments, error } = await db
+      .from('payment_transactions')
+      .select('id')
+      .in('status', ['completed', 'refunded'])
+      .gte('completed_at', fromIso)
+      .lt('completed_at', toIso)
+      .order('completed_at', { ascending: true })
+      .range(offset, offset + 999)
+    if (error) throw error
+    for (const p of payments ?? []) {
+      if (!postedPayments.has(p.id) && (await postPaymentToLedger(db, p.id))) posted++
+    }
+    if (!payments || payments.length < 1000) break
+  }
+
+  const { data: refunds, error: refundsError } = await db
+    .from('payment_refunds')
+    .select('id')
+    .eq('status', 'processed')
+    .gte('processed_at', fromIso)
+    .lt('processed_at', toIso)
+  if (refundsError) throw refundsError
+  for (const r of refunds ?? []) {
+    if (!postedRefunds.has(r.id) && (await postRefundToLedger(db, r.id))) posted++
+  }
+
+  return posted
+}
@@ -0,0 +1,569 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Json, MessageChannel, MessageLogStatus } from '@/types/database'
+import type { FirebaseProjectType } from '@/lib/firebase/admin'
+import { sendNotificationsToUsers } from '@/lib/firebase/notifications'
+import { logger } from '@/lib/logger'
+import { backoffDelay } from '@/lib/network'
+import { sendSms } from '@/lib/sms'
+
+/**
+ * Durable outbound queue for SMS and push (see `supabase/migrations/20260520120000_message_outbox.sql`
+ * header). Senders call sendMessage, which queues the message with its message_logs row and tries it
+ * once; GET /api/cron/message-outbox retries what is still pending.
+ */
+
+type Db = SupabaseClient<Database>
+
+export type OutboxJob = Database['public']['Tables']['message_outbox']['Row']
+
+export const MESSAGE_OUTBOX_CONFIG_KEY = 'message_outbox'
+
+export type MessageOutboxConfig = {
+  /** Attempts before a job is dead-lettered. */
+  maxAttempts: number
+  /** Delay before the first retry; doubled for every further attempt. */
+  initialDelaySeconds: number
+  maxDelaySeconds: number
+  smsPerMinute: number
+  pushPerMinute: number
+}
+
+export const DEFAULT_MESSAGE_OUTBOX_CONFIG: MessageOutboxConfig = {
+  maxAttempts: 5,
+  initialDelaySeconds: 30,
+  maxDelaySeconds: 3600,
+  smsPerMinute: 60,
+  pushPerMinute: 30,
+}
+
+/** Jobs still processing after this long were abandoned by a crashed worker. */
+const STALE_LOCK_MS = 5 * 60 * 1000
+const RATE_WINDOW_MS = 60 * 1000
+
+function positiveInt(value: unknown, max: number, fallback: number): number {
+  return Number.isInteger(value) && (value as number) > 0 && (value as number) <= max ? (value as number) : fallback
+}
+
+/** Reads the system_config value, falling back to the defaults field by field. */
+export function parseMessageOutboxConfig(value: unknown): MessageOutboxConfig {
+  const raw = value && typeof value === 'object' ? (value as Record<string, unknown>) : {}
+  const d = DEFAULT_MESSAGE_OUTBOX_CONFIG
+  const initialDelaySeconds = positiveInt(raw.initial_delay_seconds, 86_400, d.initialDelaySeconds)
+  return {
+    maxAttempts: positiveInt(raw.max_attempts, 20, d.maxAttempts),
+    initialDelaySeconds,
+    maxDelaySeconds: Math.max(initialDelaySeconds, positiveInt(raw.max_delay_seconds, 86_400, d.maxDelaySeconds)),
+    smsPerMinute: positiveInt(raw.sms_per_minute, 10_000, d.smsPerMinute),
+    pushPerMinute: positiveInt(raw.push_per_minute, 10_000, d.pushPerMinute),
+  }
+}
+
+export async function loadMessageOutboxConfig(db: Db): Promise<MessageOutboxConfig> {
+  const { data, error } = await db
+    .from('system_config')
+    .select('value')
+    .eq('key', MESSAGE_OUTBOX_CONFIG_KEY)
+    .maybeSingle()
+  if (error) throw error
+  return parseMessageOutboxConfig(data?.value)
+}
+
+export type PushTarget = { projectType: FirebaseProjectType; userIds: string[] }
+
+/** Extra message_logs fields for the row written when the message is queued. */
+export type MessageLogFields = {
+  recipientUserId?: string | null
+  sentByUserId?: string | null
+  notificationType?: string | null
+  audience?: string | null
+  metadata?: Record<string, Json | undefined>
+}
+
+export type OutboundMessage =
+  | { channel: 'sms'; to: string; body: string; title?: string | null; log?: MessageLogFields }
+  | {
+      channel: 'push'
+      /** One entry per Firebase project; drivers are reached through both apps. */
+      targets: PushTarget[]
+      title: string
+      body: string
+      data?: Record<string, string>
+      log?: MessageLogFields
+    }
+
+type SmsPayload = { to: string; body: string }
+type PushPayload = {
+  targets: Array<{ project_type: FirebaseProjectType; user_ids: string[] }>
+  title: string
+  body: string
+  data: Record<string, string> | null
+}
+
+export type PushDelivery = { successCount: number; failureCount: number; invalidTokensRemoved: number }
+
+export type OutboxAttempt =
+  | {
+      outcome: 'sent'
+      sms?: { provider: string; externalId: string; status: MessageLogStatus }
+      push?: PushDelivery
+    }
+  | { outcome: 'retrying'; error: string; nextAttemptAt: string; push?: PushDelivery }
+  | { outcome: 'dead'; error: string; push?: PushDelivery }
+  /** Not attempted now (channel rate limit, or another worker has it); the worker will send it. */
+  | { outcome: 'deferred' }
+
+/**
+ * Whether the message went out or is still queued for retries. False when it was dead-lettered, or
+ * a push reached no device (no tokens, or all rejected).
+ */
+export function acceptedForDelivery(attempt: OutboxAttempt): boolean {
+  if (attempt.outcome === 'dead') return false
+  return !(attempt.outcome === 'sent' && attempt.push && attempt.push.successCount === 0)
+}
+
+export type EnqueueResult = { ok: true; jobId: string; messageLogId: string } | { ok: false; error: string }
+
+/** Writes the message_logs row (status queued) and its outbox job. Nothing is sent. */
+export async function enqueueMessage(
+  db: Db,
+  message: OutboundMessage,
+  config?: MessageOutboxConfig
+): Promise<EnqueueResult> {
+  const settings = config ?? (await loadMessageOutboxConfig(db))
+  const now = new Date().toISOString()
+  const log = message.log ?? {}
+
+  const requestedCount =
+    message.channel === 'push'
+      ? new Set(message.targets.flatMap((t) => t.userIds)).size
+      : undefined
+  const { data: logRow, error: logError } = await db
+    .from('message_logs')
+    .insert({
+      channel: message.channel,
+      recipient_phone: message.channel === 'sms' ? message.to.trim() : null,
+      recipient_user_id: log.recipientUserId ?? null,
+      sent_by_user_id: log.sentByUserId ?? null,
+      title: message.title ?? null,
+      message: message.body.trim(),
+      status: 'queued',
+      status_updated_at: now,
+      notification_type: log.notificationType ?? null,
+      audience: log.audience ?? null,
+      metadata:
+        requestedCount !== undefined
+          ? { ...log.metadata, requested_count: requestedCount }
+          : log.metadata ?? null,
+    })
+    .select('id')
+    .single()
+  if (logError || !logRow) {
+    logger.error('Queueing message failed: message_logs insert', { error: logError, channel: message.channel })
+    return { ok: false, error: 'Could not queue the message.' }
+  }
+
+  const payload: SmsPayload | PushPayload =
+    message.channel === 'sms'
+      ? { to: message.to.trim(), body: message.body.trim() }
+      : {
+          targets: message.targets
+            .filter((t) => t.userIds.length > 0)
+            .map((t) => ({ project_type: t.projectType, user_ids: Array.from(new Set(t.userIds)) })),
+          title: message.title,
+          body: message.body.trim(),
+          data: message.data ?? null,
+        }
+
+  const { data: job, error: jobError } = await db
+    .from('message_outbox')
+    .insert({
+      channel: message.channel,
+      payload: payload as unknown as Json,
+      message_log_id: logRow.id,
+      max_attempts: settings.maxAttempts,
+      next_attempt_at: now,
+    })
+    .select('id')
+    .single()
+  if (jobError || !job) {
+    logger.error('Queueing message failed: message_outbox insert', { error: jobError, messageLogId: logRow.id })
+    await db
+      .from('message_logs')
+      .update({ status: 'failed', status_updated_at: now, error_message: 'Could not queue the message.' })
+      .eq('id', logRow.id)
+    return { ok: false, error: 'Could not queue the message.' }
+  }
+
+  return { ok: true, jobId: job.id, messageLogId: logRow.id }
+}
+
+export type SendMessageResult =
+  | { ok: true; jobId: string; messageLogId: string; attempt: OutboxAttempt }
+  | { ok: false; error: string }
+
+/**
+ * Queues a message and tries it straight away. Whatever doesn't go out now (provider failure, rate
+ * limit) stays in the outbox for the worker, so `ok` only means the message was queued; check
+ * `attempt.outcome` for what happened on this try.
+ */
+export async function sendMessage(db: Db, message: OutboundMessage): Promise<SendMessageResult> {
+  let config: MessageOutboxConfig
+  try {
+    config = await loadMessageOutboxConfig(db)
+  } catch (error) {
+    logger.error('Loading message outbox settings failed', { error })
+    config = DEFAULT_MESSAGE_OUTBOX_CONFIG
+  }
+  const queued = await enqueueMessage(db, message, config)
+  if (!queued.ok) return queued
+
+  let attempt: OutboxAttempt = { outcome: 'deferred' }
+  try {
+    if ((await rateBudget(db, message.channel, config)) > 0) {
+      const job = await claimJob(db, queued.jobId)
+      if (job) attempt = await attemptJob(db, job, config)
+    }
+  } catch (error) {
+    // The job is safe in the outbox; a job left processing is released by the worker
+    logger.error('Immediate message attempt failed', { error, jobId: queued.jobId })
+  }
+  return { ok: true, jobId: queued.jobId, messageLogId: queued.messageLogId, attempt }
+}
+
+export type SendMessagesSummary = {
+  /** Accepted by the provider on this try. */
+  sent: number
+  /** Left in the outbox for the worker. */
+  queued: number
+  /** Could not be queued, or dead-lettered straight away. */
+  failed: number
+  push: PushDelivery
+  errors: string[]
+}
+
+/**
+ * Sends several messages with sendMessage, one after another, and adds up the outcomes. Used when
+ * one send becomes a message per locale or per recipient (lib/notification-templates.ts).
+ */
+export async function sendMessages(db: Db, messages: OutboundMessage[]): Promise<SendMessagesSummary> {
+  const summary: SendMessagesSummary = {
+    sent: 0,
+    queued: 0,
+    failed: 0,
+    push: { successCount: 0, failureCount: 0, invalidTokensRemoved: 0 },
+    errors: [],
+  }
+  for (const message of messages) {
+    const result = await sendMessage(db, message)
+    if (!result.ok) {
+      summary.failed++
+      summary.errors.push(result.error)
+      continue
+    }
+    const { attempt } = result
+    if (attempt.outcome === 'sent') summary.sent++
+    else if (attempt.outcome === 'dead') summary.failed++
+    else summary.queued++
+    if (attempt.outcome === 'retrying' || attempt.outcome === 'dead') summary.errors.push(attempt.error)
+    if (attempt.outcome !== 'deferred' && attempt.push) {
+      summary.push.successCount += attempt.push.successCount
+      summary.push.failureCount += attempt.push.failureCount
+      summary.push.invalidTokensRemoved += attempt.push.invalidTokensRemoved
+    }
+  }
+  return summary
+}
+
+/** Attempts left this minute for the channel. */
+async function rateBudget(db: Db, channel: MessageChannel, config: MessageOutboxConfig): Promise<number> {
+  const limit = channel === 'sms' ? config.smsPerMinute : config.pushPerMinute
+  const { count, error } = await db
+    .from('message_outbox')
+    .select('id', { count: 'exact', head: true })
+    .eq('channel', channel)
+    .gte('last_attempt_at', new Date(Date.now() - RATE_WINDOW_MS).toISOString())
+  if (error) throw error
+  return limit - (count ?? 0)
+}
+
+/** Moves a due pending job to processing; null when it isn't due or another worker got it first. */
+async function claimJob(db: Db, jobId: string): Promise<OutboxJob | null> {
+  const now = new Date().toISOString()
+  const { data, error } = await db
+    .from('message_outbox')
+    .update({ status: 'processing', locked_at: now, last_attempt_at: now, updated_at: now })
+    .eq('id', jobId)
+    .eq('status', 'pending')
+    .lte('next_attempt_at', now)
+    .select('*')
+    .maybeSingle()
+  if (error) throw error
+  return data
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+/** Sends a claimed job and records the outcome on the job and its message_logs row. */
+async function attemptJob(db: Db, job: OutboxJob, config: MessageOutboxConfig): Promise<OutboxAttempt> {
+  const attempts = job.attempts + 1
+  const now = new Date().toISOString()
+
+  if (job.channel === 'sms') {
+    const payload = job.payload as unknown as SmsPayload
+    const result = await sendSms(payload.to, payload.body)
+    if (result.ok) {
+      await finishJob(db, job, { status: 'sent', attempts, sent_at: now, last_error: null })
+      await updateLog(db, job, {
+        provider: result.provider,
+        external_id: result.externalId,
+        status: result.status,
+        status_updated_at: now,
+        error_code: null,
+        error_message: null,
+      })
+      return { outcome: 'sent', sms: { provider: result.provider, externalId: result.externalId, status: result.status } }
+    }
+    return failJob(db, job, config, {
+      attempts,
+      error: result.message,
+      retryable: result.retryable,
+      log: { provider: result.provider, error_code: result.errorCode },
+    })
+  }
+
+  const payload = job.payload as unknown as PushPayload
+  const delivery: PushDelivery = { successCount: 0, failureCount: 0, invalidTokensRemoved: 0 }
+  const remaining: PushPayload['targets'] = []
+  let lastError: string | null = null
+  for (const target of payload.targets) {
+    try {
+      const result = await sendNotificationsToUsers(
+        target.user_ids,
+        payload.title,
+        payload.body,
+        target.project_type,
+        payload.data ?? undefined
+      )
+      delivery.successCount += result.successCount
+      delivery.failureCount += result.failureCount
+      delivery.invalidTokensRemoved += result.invalidTokens.length
+      if (result.failedUserIds.length > 0) {
+        remaining.push({ project_type: target.project_type, user_ids: result.failedUserIds })
+        lastError = `FCM did not accept the batch for ${result.failedUserIds.length} ${target.project_type} app user(s).`
+      }
+    } catch (error) {
+      remaining.push(target)
+      lastError = errorMessage(error)
+    }
+  }
+
+  // Counts add up over attempts; only users FCM never got are retried
+  const total = await addPushDelivery(db, job, delivery)
+
+  if (remaining.length === 0) {
+    await finishJob(db, job, { status: 'sent', attempts, sent_at: now, last_error: null })
+    await updateLog(db, job, {
+      status: total.successCount > 0 ? 'sent' : 'failed',
+      status_updated_at: now,
+      error_message: null,
+    })
+    return { outcome: 'sent', push: total }
+  }
+  const failed = await failJob(db, job, config, {
+    attempts,
+    error: lastError ?? 'Push could not be sent.',
+    retryable: true,
+    payload: { ...payload, targets: remaining },
+    deadLogStatus: total.successCount > 0 ? 'sent' : 'failed',
+  })
+  return { ...failed, push: total }
+}
+
+async function finishJob(
+  db: Db,
+  job: OutboxJob,
+  update: Database['public']['Tables']['message_outbox']['Update']
+) {
+  const { error } = await db
+    .from('message_outbox')
+    .update({ ...update, locked_at: null, updated_at: new Date().toISOString() })
+    .eq('id', job.id)
+  if (error) logger.error('Updating message_outbox job failed', { error, jobId: job.id })
+}
+
+async function updateLog(db: Db, job: OutboxJob, update: Database['public']['Tables']['message_logs']['Update']) {
+  if (!job.message_log_id) return
+  const { error } = await db.from('message_logs').update(update).eq('id', job.message_log_id)
+  if (error) logger.error('Updating message_logs for outbox job failed', { error, jobId: job.id })
+}
+
+async function addPushDelivery(db: Db, job: OutboxJob, delivery: PushDelivery): Promise<PushDelivery> {
+  if (!job.message_log_id) return delivery
+  const { data } = await db.from('message_logs').select('metadata').eq('id', job.message_log_id).maybeSingle()
+  const metadata =
+    data?.metadata && typeof data.metadata === 'object' && !Array.isArray(data.metadata)
+      ? (data.metadata as Record<string, Json | undefined>)
+      : {}
+  const total: PushDelivery = {
+    successCount: Number(metadata.success_count ?? 0) + delivery.successCount,
+    failureCount: Number(metadata.failure_count ?? 0) + delivery.failureCount,
+    invalidTokensRemoved: Number(metadata.invalid_tokens_removed ?? 0) + delivery.invalidTokensRemoved,
+  }
+  await updateLog(db, job, {
+    metadata: {
+      ...metadata,
+      success_count: total.successCount,
+      failure_count: total.failureCount,
+      invalid_tokens_removed: total.invalidTokensRemoved,
+    },
+  })
+  return total
+}
+
+/**
+ * Schedules the next attempt with exponential backoff, or dead-letters the job when the error isn't
+ * retryable or it has used all its attempts.
+ */
+async function failJob(
+  db: Db,
+  job: OutboxJob,
+  config: MessageOutboxConfig,
+  failure: {
+    attempts: number
+    error: string
+    retryable: boolean
+    payload?: PushPayload
+    log?: Database['public']['Tables']['message_logs']['Update']
+    deadLogStatus?: MessageLogStatus
+  }
+): Promise<Extract<OutboxAttempt, { outcome: 'retrying' | 'dead' }>> {
+  const now = new Date()
+  const payload = failure.payload ? { payload: failure.payload as unknown as Json } : {}
+
+  if (!failure.retryable || failure.attempts >= job.max_attempts) {
+    await finishJob(db, job, {
+      ...payload,
+      status: 'dead',
+      attempts: failure.attempts,
+      dead_at: now.toISOString(),
+      last_error: failure.error,
+    })
+    await updateLog(db, job, {
+      ...failure.log,
+      status: failure.deadLogStatus ?? 'failed',
+      status_updated_at: now.toISOString(),
+      error_message: failure.error,
+    })
+    logger.warn('Outbound message dead-lettered', {
+      jobId: job.id,
+      channel: job.channel,
+      attempts: failure.attempts,
+      error: failure.error,
+    })
+    return { outcome: 'dead', error: failure.error }
+  }
+
+  const delayMs = backoffDelay(
+    failure.attempts - 1,
+    config.initialDelaySeconds * 1000,
+    config.maxDelaySeconds * 1000
+  )
+  const nextAttemptAt = new Date(now.getTime() + delayMs).toISOString()
+  await finishJob(db, job, {
+    ...payload,
+    status: 'pending',
+    attempts: failure.attempts,
+    next_attempt_at: nextAttemptAt,
+    last_error: failure.error,
+  })
+  await updateLog(db, job, { ...failure.log, error_message: failure.error })
+  return { outcome: 'retrying', error: failure.error, nextAttemptAt }
+}
+
+export type OutboxRunSummary = {
+  /** Jobs released from a crashed worker's lock. */
+  released: number
+  sent: number
+  retrying: number
+  dead: number
+  /** Channels that reached their rate limit with due jobs left for the next run. */
+  rateLimited: MessageChannel[]
+  errors: number
+}
+
+const CHANNELS: MessageChannel[] = ['sms', 'push']
+
+/**
+ * One worker run: releases stale locks, then sends due jobs of each channel oldest-due first, up to
+ * what the channel's rate limit leaves for this minute.
+ */
+export async function processMessageOutbox(db: Db): Promise<OutboxRunSummary> {
+  const config = await loadMessageOutboxConfig(db)
+  const summary: OutboxRunSummary = { released: 0, sent: 0, retrying: 0, dead: 0, rateLimited: [], errors: 0 }
+  const now = new Date()
+
+  const { data: released, error: releaseError } = await db
+    .from('message_outbox')
+    .update({ status: 'pending', locked_at: null, updated_at: now.toISOString() })
+    .eq('status', 'processing')
+    .lt('locked_at', new Date(now.getTime() - STALE_LOCK_MS).toISOString())
+    .select('id')
+  if (releaseError) throw releaseError
+  summary.released = released?.length ?? 0
+
+  for (const channel of CHANNELS) {
+    const budget = await rateBudget(db, channel, config)
+    const { data: due, error } = await db
+      .from('message_outbox')
+      .select('id')
+      .eq('channel', channel)
+      .eq('status', 'pending')
+      .lte('next_attempt_at', now.toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(Math.max(budget, 0) + 1)
+    if (error) throw error
+    const jobs = due ?? []
+    if (jobs.length > budget) summary.rateLimited.push(channel)
+    for (const { id } of jobs.slice(0, Math.max(budget, 0))) {
+      try {
+        const job = await claimJob(db, id)
+        if (!job) continue
+        const attempt = await attemptJob(db, job, config)
+        if (attempt.outcome === 'sent') summary.sent++
+        else if (attempt.outcome === 'retrying') summary.retrying++
+        else if (attempt.outcome === 'dead') summary.dead++
+      } catch (error) {
+        summary.errors++
+        logger.error('Message outbox job failed', { error, jobId: id, channel })
+      }
+    }
+  }
+
+  if (summary.sent || summary.retrying || summary.dead || summary.released || summary.rateLimited.length) {
+    logger.info('Message outbox run', summary)
+  }
+  return summary
+}
+
+export type RequeueResult = { ok: true } | { ok: false; error: string }
+
+/** Puts a dead-lettered job back in the queue with a fresh set of attempts. */
+export async function requeueDeadJob(db: Db, jobId: string): Promise<RequeueResult> {
+  const now = new Date().toISOString()
+  const { data: job, error } = await db
+    .from('message_outbox')
+    .update({ status: 'pending', attempts: 0, next_attempt_at: now, dead_at: null, updated_at: now })
+    .eq('id', jobId)
+    .eq('status', 'dead')
+    .select('*')
+    .maybeSingle()
+  if (error) {
+    logger.error('requeueDeadJob failed', { error, jobId })
+    return { ok: false, error: 'Failed to requeue the message.' }
+  }
+  if (!job) return { ok: false, error: 'Only dead-lettered messages can be requeued.' }
+  await updateLog(db, job, { status: 'queued', status_updated_at: now })
+  return { ok: true }
+}
@@ -0,0 +1,229 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto'
+import { appendFile, mkdir } from 'fs/promises'
+import path from 'path'
+import type { MessageLogStatus } from '@/types/database'
+import { logger } from '@/lib/logger'
+
+/**
+ * Where SMS is sent (see `supabase/migrations/20260519120000_message_delivery_status.sql` header).
+ * Callers go through lib/sms.ts, which only talks to this interface, so a new gateway is one more
+ * implementation here plus a MESSAGING_PROVIDER value.
+ */
+
+export type OutboundSms = {
+  to: string
+  body: string
+  /** Where the provider should report delivery; null when the app URL isn't configured. */
+  statusCallbackUrl: string | null
+}
+
+export type ProviderSendResult =
+  | { ok: true; externalId: string; status: MessageLogStatus }
+  | {
+      ok: false
+      message: string
+      errorCode: string | null
+      /** Whether trying again later can succeed (outage, rate limit) rather than a rejected message. */
+      retryable: boolean
+    }
+
+/** A delivery report from the provider, already authenticated. */
+export type DeliveryStatusUpdate = {
+  externalId: string
+  status: MessageLogStatus
+  errorCode: string | null
+  errorMessage: string | null
+}
+
+export type StatusCallbackRequest = {
+  headers: Headers
+  /** Raw request body, as the provider signed it. */
+  body: string
+  /** The URL the provider was told to call (statusCallbackUrl), which signatures are computed over. */
+  callbackUrl: string | null
+}
+
+export interface MessagingProvider {
+  /** Stored on message_logs rows as `provider` and used in the status callback path. */
+  readonly name: string
+  sendSms(message: OutboundSms): Promise<ProviderSendResult>
+  /** Verifies and parses a status callback; null when it isn't authentic or can't be read. */
+  parseStatusCallback(request: StatusCallbackRequest): DeliveryStatusUpdate | null
+}
+
+/** Twilio `MessageStatus` values mapped onto message_logs statuses. */
+const TWILIO_STATUS: Record<string, MessageLogStatus> = {
+  accepted: 'queued',
+  scheduled: 'queued',
+  queued: 'queued',
+  sending: 'queued',
+  sent: 'sent',
+  delivered: 'delivered',
+  read: 'delivered',
+  undelivered: 'undelivered',
+  failed: 'failed',
+  canceled: 'failed',
+}
+
+/** Twilio Programmable Messaging (TWILIO_ACCOUNT_SID / TWILIO_AUTH_TOKEN / TWILIO_FROM_NUMBER). */
+export class TwilioMessagingProvider implements MessagingProvider {
+  readonly name = 'twilio'
+
+  async sendSms(message: OutboundSms): Promise<ProviderSendResult> {
+    const accountSid = process.env.TWILIO_ACCOUNT_SID
+    const authToken = process.env.TWILIO_AUTH_TOKEN
+    const fromNumber = process.env.TWILIO_FROM_NUMBER
+
+    if (!accountSid || !authToken || !fromNumber) {
+      return { ok: false, message: 'SMS service is not configured.', errorCode: null, retryable: false }
+    }
+
+    const credentials = Buffer.from(`${accountSid}:${authToken}`).toString('base64')
+    const twilioUrl = `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`
+    const params = new URLSearchParams({ To: message.to, From: fromNumber, Body: message.body })
+    if (message.statusCallbackUrl) params.set('StatusCallback', message.statusCallbackUrl)
+
+    try {
+      const res = await fetch(twilioUrl, {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${credentials}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: params.toString(),
+      })
+      const data = (await res.json()) as { sid?: string; status?: string; message?: string; code?: number }
+      if (!res.ok || !data.sid) {
+        logger.error('Twilio API error', { status: res.status, data })
+        return {
+          ok: false,
+          message: data.message || 'Failed to send SMS.',
+          errorCode: data.code != null ? String(data.code) : null,
+          retryable: res.status === 429 || res.status >= 500,
+        }
+      }
+      return { ok: true, externalId: data.sid, status: TWILIO_STATUS[data.status ?? ''] ?? 'queued' }
+    } catch (error) {
+      logger.error('Twilio request failed', { error })
+      return { ok: false, message: 'Failed to reach the SMS service.', errorCode: null, retryable: true }
+    }
+  }
+
+  /** Form-encoded callback signed with X-Twilio-Signature (HMAC-SHA1 of the URL and sorted params). */
+  parseStatusCallback(request: StatusCallbackRequest): DeliveryStatusUpdate | null {
+    const authToken = process.env.TWILIO_AUTH_TOKEN
+    const signature = request.headers.get('x-twilio-signature')
+    if (!authToken || !signature || !request.callbackUrl) return null
+
+    const params = new URLSearchParams(request.body)
+    const signed =
+      request.callbackUrl +
+      Array.from(params.keys())
+        .sort()
+        .map((key) => key + (params.get(key) ?? ''))
+        .join('')
+    const expected = createHmac('sha1', authToken).update(signed).digest('base64')
+    const a = Buffer.from(signature)
+    const b = Buffer.from(expected)
+    if (a.length !== b.length || !timingSafeEqual(a, b)) return null
+
+    const externalId = params.get('MessageSid')
+    const status = TWILIO_STATUS[params.get('MessageStatus') ?? '']
+    if (!externalId || !status) return null
+    return {
+      externalId,
+      status,
+      errorCode: params.get('ErrorCode') || null,
+      errorMessage: params.get('ErrorMessage') || null,
+    }
+  }
+}
+
+/**
+ * Development provider: appends each SMS as a JSON line to MESSAGING_FILE_PATH (default
+ * `.messages/sms.jsonl`) instead of sending it. Delivery can be simulated by posting
+ * `{ "id", "status", "error_code"?, "error_message"? }` to the status callback with
+ * `Authorization: Bearer $MESSAGING_CALLBACK_SECRET`.
+ */
+export class FileMessagingProvider implements MessagingProvider {
+  readonly name = 'file'
+
+  async sendSms(message: OutboundSms): Promise<ProviderSendResult> {
+    const file = process.env.MESSAGING_FILE_PATH || path.join(process.cwd(), '.messages', 'sms.jsonl')
+    const externalId = `file-${randomUUID()}`
+    try {
+      await mkdir(path.dirname(file), { recursive: true })
+      await appendFile(
+        file,
+        JSON.stringify({ id: externalId, to: message.to, body: message.body, at: new Date().toISOString() }) + '\n'
+      )
+      return { ok: true, externalId, status: 'sent' }
+    } catch (error) {
+      logger.error('Writing SMS to file failed', { error, file })
+      return { ok: false, message: 'Failed to write the SMS file.', errorCode: null, retryable: true }
+    }
+  }
+
+  parseStatusCallback(request: StatusCallbackRequest): DeliveryStatusUpdate | null {
+    const secret = process.env.MESSAGING_CALLBACK_SECRET
+    const auth = request.headers.get('authorization')
+    if (!secret || !auth) return null
+    const a = Buffer.from(auth)
+    const b = Buffer.from(`Bearer ${secret}`)
+    if (a.length !== b.length || !timingSafeEqual(a, b)) return null
+
+    let payload: Record<string, unknown>
+    try {
+      payload = JSON.parse(request.body) as Record<string, unknown>
+    } catch {
+      return null
+    }
+    const status = payload.status
+    if (typeof payload.id !== 'string' || typeof status !== 'string' || !isMessageLogStatus(status)) return null
+    return {
+      externalId: payload.id,
+      status,
+      errorCode: typeof payload.error_code === 'string' ? payload.error_code : null,
+      errorMessage: typeof payload.error_message === 'string' ? payload.error_message : null,
+    }
+  }
+}
+
+export const MESSAGE_LOG_STATUSES: readonly MessageLogStatus[] = ['queued', 'sent', 'delivered', 'undelivered', 'failed']
+
+function isMessageLogStatus(value: string): value is MessageLogStatus {
+  return (MESSAGE_LOG_STATUSES as readonly string[]).includes(value)
+}
+
+const PROVIDERS: Record<string, () => MessagingProvider> = {
+  twilio: () => new TwilioMessagingProvider(),
+  file: () => new FileMessagingProvider(),
+}
+
+let override: MessagingProvider | null = null
+
+/** Replaces the provider for the current process (scripts, local stubbing); null restores the default. */
+export function setMessagingProvider(provider: MessagingProvider | null) {
+  override = provider
+}
+
+/** MESSAGING_PROVIDER=file writes messages to a local file; anything else (default) uses Twilio. */
+export function getMessagingProvider(): MessagingProvider {
+  if (override) return override
+  return process.env.MESSAGING_PROVIDER === 'file' ? new FileMessagingProvider() : new TwilioMessagingProvider()
+}
+
+/**
+ * The provider named in a status callback path. Messages sent before a provider switch still get
+ * their callbacks, so this doesn't depend on MESSAGING_PROVIDER.
+ */
+export function getMessagingProviderByName(name: string): MessagingProvider | null {
+  if (override?.name === name) return override
+  return PROVIDERS[name]?.() ?? null
+}
+
+/** `NEXT_PUBLIC_APP_URL/api/messaging/status/<provider>`, or null when the app URL isn't set. */
+export function statusCallbackUrl(providerName: string): string | null {
+  const base = process.env.NEXT_PUBLIC_APP_URL?.replace(/\/+$/, '')
+  return base ? `${base}/api/messaging/status/${providerName}` : null
+}
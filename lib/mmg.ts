@@ -43,6 +43,18 @@ export interface MMGLookupResult {
   executionId: string;
 }
 
+/** MMG merchant refund (reversal) response; only the fields the refund flow reads are typed. */
+export interface MMGRefundResult {
+  transactionStatus?: string;
+  transactionReference?: string;
+  transactionId?: string;
+  [key: string]: unknown;
+}
+
+export function isSuccessfulTransaction(result: Pick<MMGLookupResult, "transactionStatus">): boolean {
+  return result.transactionStatus?.toLowerCase() === "successful";
+}
+
 /** In-memory cache for e-commerce token (server-side only) */
 let ecommerceTokenCache: { accessToken: string; expiresAt: number } | null = null;
 
@@ -112,6 +124,20 @@ export class MMGService {
    * Calls getEcommerceToken() then GET lookup. Throws if lookup fails or transaction not successful.
    */
   async lookupTransaction(transactionId: string): Promise<MMGLookupResult> {
+    const data = await this.fetchTransaction(transactionId);
+    if (!isSuccessfulTransaction(data)) {
+      throw new Error(
+        `Transaction not successful: status=${data.transactionStatus}`
+      );
+    }
+    return data;
+  }
+
+  /**
+   * Same lookup as lookupTransaction, but returns the transaction whatever its status.
+   * Throws only if the lookup itself fails (config, network, non-2xx).
+   */
+  async fetchTransaction(transactionId: string): Promise<MMGLookupResult> {
     const token = await this.getEcommerceToken();
     const baseUrl =
       process.env.MMG_ECOMMERCE_URL || "https://mwallet.mmgtest.net";
@@ -148,13 +174,65 @@ export class MMGService {
       );
     }
 
-    const data = (await res.json()) as MMGLookupResult;
-    if (data.transactionStatus?.toLowerCase() !== "successful") {
+    return (await res.json()) as MMGLookupResult;
+  }
+
+  /**
+   * Refund (reverse) all or part of a settled transaction. Same e-commerce token and x-wss headers
+   * as the lookup. The path depends on the merchant's MMG agreement, so it is read from
+   * MMG_REFUND_PATH. Throws on config errors and non-2xx responses.
+   */
+  async refundTransaction(params: {
+    transactionId: string;
+    amount: number;
+    currency: string;
+    reason: string;
+    merchantRefundId: string;
+  }): Promise<MMGRefundResult> {
+    const token = await this.getEcommerceToken();
+    const baseUrl =
+      process.env.MMG_ECOMMERCE_URL || "https://mwallet.mmgtest.net";
+    const path =
+      process.env.MMG_REFUND_PATH ||
+      "/olive/publisher/v1/e-merchant-initiated-transactions/refund";
+
+    const mid = process.env.MMG_WSS_MID;
+    const mkey = process.env.MMG_WSS_MKEY;
+    const msecret = process.env.MMG_WSS_MSECRET;
+    const apiKey = process.env.MMG_ECOMMERCE_API_KEY;
+
+    if (!mid || !mkey || !msecret || !apiKey) {
       throw new Error(
-        `Transaction not successful: status=${data.transactionStatus}`
+        "MMG_WSS_MID, MMG_WSS_MKEY, MMG_WSS_MSECRET, and MMG_ECOMMERCE_API_KEY are required for refunds"
       );
     }
-    return data;
+
+    const res = await fetch(`${baseUrl}${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-wss-mid": mid,
+        "x-wss-mkey": mkey,
+        "x-wss-msecret": msecret,
+        "x-api-key": apiKey,
+        "x-wss-correlationid": crypto.randomUUID(),
+        "x-wss-token": token,
+      },
+      body: JSON.stringify({
+        originalTransactionId: params.transactionId,
+        amount: params.amount.toFixed(2),
+        currency: params.currency,
+        descriptionText: params.reason,
+        merchantTransactionId: params.merchantRefundId,
+      }),
+    });
+
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`MMG refund failed: ${res.status} ${text}`);
+    }
+
+    return (await res.json()) as MMGRefundResult;
   }
 
   encryptAndGenerateUrl(token: Buffer, msisdn: string, clientId: string): string {
@@ -0,0 +1,347 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, LedgerAccount, SubscriptionAudience } from '@/types/database'
+import { formatGuyana, guyanaMonthBounds } from '@/lib/guyana-time'
+import { COMMISSION_PLAN_CODE, COMMISSION_PLAN_LABEL } from '@/lib/driver-commission'
+import { postMissingLedgerEntries } from '@/lib/ledger'
+
+/**
+ * Month-close report over the ledger (lib/ledger.ts): per role and plan, subscribers active at the
+ * start and end of the Guyana calendar month and the month's revenue. Amounts are in the ledger's
+ * currency (GYD; all plans are sold in GYD).
+ */
+type Db = SupabaseClient<Database>
+
+export const MONTH_RE = /^\d{4}-(0[1-9]|1[0-2])$/
+
+export type MonthCloseFigures = {
+  openingActive: number
+  closingActive: number
+  /** Completed payments (ledger payment journals). */
+  payments: number
+  /** Plan prices before promo discounts, and commission paid by drivers. */
+  gross: number
+  discounts: number
+  refunds: number
+  adjustments: number
+  /** gross − discounts − refunds + adjustments */
+  net: number
+}
+
+export type MonthCloseRow = MonthCloseFigures & {
+  role: SubscriptionAudience | null
+  planCode: string | null
+  planLabel: string
+}
+
+export type MonthCloseReport = {
+  month: string
+  start: string
+  end: string
+  currency: string
+  generatedAt: string
+  /** Journals the report had to post because they were missing (see postMissingLedgerEntries). */
+  postedMissing: number
+  rows: MonthCloseRow[]
+  totals: MonthCloseFigures
+}
+
+const emptyFigures = (): MonthCloseFigures => ({
+  openingActive: 0,
+  closingActive: 0,
+  payments: 0,
+  gross: 0,
+  discounts: 0,
+  refunds: 0,
+  adjustments: 0,
+  net: 0,
+})
+
+const roundMoney = (n: number) => Math.round(n * 100) / 100
+
+/** Net effect of a line on each report column (credits raise revenue, debits raise contra accounts). */
+function applyLine(f: MonthCloseFigures, account: LedgerAccount, debit: number, credit: number) {
+  if (account === 'revenue:subscriptions' || account === 'revenue:commissions') f.gross += credit - debit
+  else if (account === 'contra:promo_discounts') f.discounts += debit - credit
+  else if (account === 'contra:refunds') f.refunds += debit - credit
+  else if (account === 'revenue:adjustments') f.adjustments += credit - debit
+}
+
+const ROLE_ORDER = { driver: 0, rider: 1 } as const
+
+/**
+ * Builds the report for `month` (`yyyy-MM`). Payments and refunds of the month that were never
+ * posted are posted first, so the report always covers them.
+ */
+export async function buildMonthCloseReport(db: Db, month: string, now = new Date()): Promise<MonthCloseReport> {
+  if (!MONTH_RE.test(month)) throw new Error(`Invalid month ${month}`)
+  const { start, end } = guyanaMonthBounds(month)
+  const startIso = start.toISOString()
+  const endIso = end.toISOString()
+
+  const postedMissing = await postMissingLedgerEntries(db, start, end < now ? end : now)
+
+  const rows = new Map<string, MonthCloseRow>()
+  const rowFor = (role: SubscriptionAudience | null, planCode: string | null) => {
+    const key = `${role ?? ''}|${planCode ?? ''}`
+    let row = rows.get(key)
+    if (!row) {
+      row = { role, planCode, planLabel: planCode ?? '—', ...emptyFigures() }
+      rows.set(key, row)
+    }
+    return row
+  }
+
+  let currency = 'GYD'
+  const journals = new Map<string, MonthCloseRow>()
+  for (let offset = 0; ; offset += 1000) {
+    const { data, error } = await db
+      .from('ledger_entries')
+      .select('journal_id, source, account, debit, credit, currency, user_role, plan_code')
+      .gte('occurred_at', startIso)
+      .lt('occurred_at', endIso)
+      .order('occurred_at', { ascending: true })
+      .range(offset, offset + 999)
+    if (error) throw error
+    for (const line of data ?? []) {
+      currency = line.currency
+      const row = rowFor(line.user_role, line.plan_code)
+      applyLine(row, line.account, Number(line.debit), Number(line.credit))
+      if (line.source === 'payment') journals.set(line.journal_id, row)
+    }
+    if (!data || data.length < 1000) break
+  }
+  for (const row of Array.from(journals.values())) row.payments++
+
+  // Subscribers: distinct users whose subscription term covers the first / last instant of the month
+  const opening = new Map<string, Set<string>>()
+  const closing = new Map<string, Set<string>>()
+  const add = (m: Map<string, Set<string>>, key: string, userId: string) => {
+    const set = m.get(key) ?? new Set<string>()
+    set.add(userId)
+    m.set(key, set)
+  }
+  for (let offset = 0; ; offset += 1000) {
+    const { data, error } = await db
+      .from('subscriptions')
+      .select('user_id, user_role, plan_type, start_date, end_date')
+      .lt('start_date', endIso)
+      .gte('end_date', startIso)
+      .order('start_date', { ascending: true })
+      .range(offset, offset + 999)
+    if (error) throw error
+    for (const s of data ?? []) {
+      if (s.user_role !== 'driver' && s.user_role !== 'rider') continue
+      const key = `${s.user_role}|${s.plan_type}`
+      const from = new Date(s.start_date).getTime()
+      const to = new Date(s.end_date).getTime()
+      if (from <= start.getTime() && to > start.getTime()) add(opening, key, s.user_id)
+      if (from < end.getTime() && to >= end.getTime()) add(closing, key, s.user_id)
+    }
+    if (!data || data.length < 1000) break
+  }
+  for (const key of Array.from(new Set([...Array.from(opening.keys()), ...Array.from(closing.keys())]))) {
+    const [role, planCode] = key.split('|') as [SubscriptionAudience, string]
+    const row = rowFor(role, planCode)
+    row.openingActive = opening.get(key)?.size ?? 0
+    row.closingActive = closing.get(key)?.size ?? 0
+  }
+
+  const planCodes = Array.from(new Set(Array.from(rows.values()).map((r) => r.planCode).filter((c): c is string => !!c)))
+  if (planCodes.length) {
+    const { data: plans, error } = await db.from('subscription_plans').select('code, label').in('code', planCodes)
+    if (error) throw error
+    const labels = new Map((plans ?? []).map((p) => [p.code, p.label]))
+    for (const row of Array.from(rows.values())) {
+      if (row.planCode) {
+        row.planLabel =
+          labels.get(row.planCode) ?? (row.planCode === COMMISSION_PLAN_CODE ? COMMISSION_PLAN_LABEL : row.planCode)
+      }
+    }
+  }
+
+  const totals = emptyFigures()
+  const sorted = Array.from(rows.values()).sort(
+    (a, b) =>
+      (a.role ? ROLE_ORDER[a.role] : 2) - (b.role ? ROLE_ORDER[b.role] : 2) ||
+      a.planLabel.localeCompare(b.planLabel)
+  )
+  for (const row of sorted) {
+    row.gross = roundMoney(row.gross)
+    row.discounts = roundMoney(row.discounts)
+    row.refunds = roundMoney(row.refunds)
+    row.adjustments = roundMoney(row.adjustments)
+    row.net = roundMoney(row.gross - row.discounts - row.refunds + row.adjustments)
+    for (const k of Object.keys(totals) as (keyof MonthCloseFigures)[]) totals[k] += row[k]
+  }
+  for (const k of ['gross', 'discounts', 'refunds', 'adjustments', 'net'] as const) totals[k] = roundMoney(totals[k])
+
+  return {
+    month,
+    start: startIso,
+    end: endIso,
+    currency,
+    generatedAt: now.toISOString(),
+    postedMissing,
+    rows: sorted,
+    totals,
+  }
+}
+
+const ROLE_LABEL: Record<SubscriptionAudience, string> = { driver: 'Driver', rider: 'Rider' }
+
+function roleLabel(role: SubscriptionAudience | null) {
+  return role ? ROLE_LABEL[role] : 'Unassigned'
+}
+
+function csvCell(value: string | number): string {
+  const s = String(value)
+  return /[",\r\n]/.test(s) || s !== s.trim() ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+export const MONTH_CLOSE_CSV_COLUMNS = [
+  'month',
+  'role',
+  'plan_code',
+  'plan',
+  'opening_active',
+  'closing_active',
+  'payments',
+  'gross_revenue',
+  'promo_discounts',
+  'refunds',
+  'adjustments',
+  'net_revenue',
+  'currency',
+] as const
+
+export function monthCloseToCsv(report: MonthCloseReport): string {
+  const line = (role: string, planCode: string, plan: string, f: MonthCloseFigures) =>
+    [
+      report.month,
+      role,
+      planCode,
+      plan,
+      f.openingActive,
+      f.closingActive,
+      f.payments,
+      f.gross.toFixed(2),
+      f.discounts.toFixed(2),
+      f.refunds.toFixed(2),
+      f.adjustments.toFixed(2),
+      f.net.toFixed(2),
+      report.currency,
+    ]
+      .map(csvCell)
+      .join(',')
+  return (
+    [
+      MONTH_CLOSE_CSV_COLUMNS.join(','),
+      ...report.rows.map((r) => line(roleLabel(r.role), r.planCode ?? '', r.planLabel, r)),
+      line('Total', '', '', report.totals),
+    ].join('\n') + '\n'
+  )
+}
+
+/** The standard fonts only encode WinAnsi. */
+function pdfSafe(text: string): string {
+  return text.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?')
+}
+
+function money(n: number) {
+  return n.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+}
+
+/** Landscape A4 table of the report, for the accountant. */
+export async function buildMonthClosePdf(report: MonthCloseReport, businessName: string): Promise<Uint8Array> {
+  const margin = 36
+  const pageW = 841.89
+  const pageH = 595.28
+  const rowH = 16
+
+  const doc = await PDFDocument.create()
+  doc.setTitle(`Month close ${report.month}`)
+  const font = await doc.embedFont(StandardFonts.Helvetica)
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold)
+
+  const columns: { title: string; width: number; right?: boolean }[] = [
+    { title: 'Role', width: 60 },
+    { title: 'Plan', width: 150 },
+    { title: 'Opening', width: 55, right: true },
+    { title: 'Closing', width: 55, right: true },
+    { title: 'Payments', width: 60, right: true },
+    { title: 'Gross', width: 80, right: true },
+    { title: 'Discounts', width: 75, right: true },
+    { title: 'Refunds', width: 75, right: true },
+    { title: 'Adjustments', width: 80, right: true },
+    { title: 'Net', width: 80, right: true },
+  ]
+
+  let page: PDFPage = doc.addPage([pageW, pageH])
+  let y = pageH - margin
+
+  const drawRow = (cells: string[], f: PDFFont) => {
+    let x = margin
+    cells.forEach((cell, i) => {
+      const col = columns[i]
+      const text = pdfSafe(cell)
+      const w = f.widthOfTextAtSize(text, 9)
+      page.drawText(text, { x: col.right ? x + col.width - w : x, y: y - 9, size: 9, font: f, color: rgb(0, 0, 0) })
+      x += col.width
+    })
+    y -= rowH
+  }
+  const header = () => {
+    drawRow(columns.map((c) => c.title), bold)
+    page.drawLine({
+      start: { x: margin, y: y + 4 },
+      end: { x: pageW - margin, y: y + 4 },
+      thickness: 0.5,
+      color: rgb(0.6, 0.6, 0.6),
+    })
+  }
+  const cells = (role: string, plan: string, f: MonthCloseFigures) => [
+    role,
+    plan,
+    String(f.openingActive),
+    String(f.closingActive),
+    String(f.payments),
+    money(f.gross),
+    money(f.discounts),
+    money(f.refunds),
+    money(f.adjustments),
+    money(f.net),
+  ]
+
+  page.drawText(pdfSafe(`${businessName} - Month close ${formatGuyana(report.start, 'MMMM yyyy')}`), {
+    x: margin,
+    y: y - 14,
+    size: 14,
+    font: bold,
+  })
+  y -= 24
+  page.drawText(
+    `Amounts in ${report.currency}. Subscribers active at ${formatGuyana(report.start, 'MMM d, yyyy')} 00:00 (opening) and at month end (closing), Guyana time. Generated ${formatGuyana(report.generatedAt, 'MMM d, yyyy h:mm a')}.`,
+    { x: margin, y: y - 9, size: 8, font }
+  )
+  y -= 24
+  header()
+
+  for (const row of report.rows) {
+    if (y < margin + rowH * 2) {
+      page = doc.addPage([pageW, pageH])
+      y = pageH - margin
+      header()
+    }
+    drawRow(cells(roleLabel(row.role), row.planLabel, row), font)
+  }
+  page.drawLine({
+    start: { x: margin, y: y + 4 },
+    end: { x: pageW - margin, y: y + 4 },
+    thickness: 0.5,
+    color: rgb(0.6, 0.6, 0.6),
+  })
+  drawRow(cells('Total', '', report.totals), bold)
+
+  return doc.save()
+}
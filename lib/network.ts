@@ -72,6 +72,13 @@ export function waitForOnline(): Promise<void> {
   })
 }
 
+/**
+ * Exponential backoff delay before retry number `attempt + 1`: initialDelay doubled per attempt, capped at maxDelay
+ */
+export function backoffDelay(attempt: number, initialDelay: number, maxDelay: number): number {
+  return Math.min(initialDelay * Math.pow(2, attempt), maxDelay)
+}
+
 /**
  * Retry a function with exponential backoff
  */
@@ -120,7 +127,7 @@ export async function retryWithBackoff<T>(
       }
       
       // Calculate delay with exponential backoff
-      const delay = Math.min(initialDelay * Math.pow(2, attempt), maxDelay)
+      const delay = backoffDelay(attempt, initialDelay, maxDelay)
       await new Promise((resolve) => setTimeout(resolve, delay))
     }
   }
@@ -0,0 +1,94 @@
+import type { Json, NotificationCampaignStatus, SubscriptionStatus } from '@/types/database'
+
+/**
+ * Campaign segments: which drivers or riders a scheduled campaign goes to. Kept apart from
+ * lib/notification-campaigns.ts so the admin page can use them without the senders.
+ */
+
+export type CampaignAudience = 'driver' | 'rider'
+
+export const CAMPAIGN_STATUSES: Array<{ value: NotificationCampaignStatus; label: string; className: string }> = [
+  { value: 'scheduled', label: 'Scheduled', className: 'bg-blue-100 text-blue-800' },
+  { value: 'sending', label: 'Sending', className: 'bg-yellow-100 text-yellow-800' },
+  { value: 'sent', label: 'Sent', className: 'bg-green-100 text-green-800' },
+  { value: 'cancelled', label: 'Cancelled', className: 'bg-gray-100 text-gray-700' },
+  { value: 'failed', label: 'Failed', className: 'bg-red-100 text-red-800' },
+]
+
+export const SUBSCRIPTION_STATUSES: Array<{ value: SubscriptionStatus; label: string }> = [
+  { value: 'active', label: 'Active' },
+  { value: 'trial', label: 'Trial' },
+  { value: 'expired', label: 'Expired' },
+  { value: 'cancelled', label: 'Cancelled' },
+]
+
+/** Longest trip look-back a segment can use. */
+export const MAX_TRIP_WITHIN_DAYS = 365
+
+export type CampaignSegment = {
+  /** Profile subscription statuses to include; empty means any. */
+  subscriptionStatuses: SubscriptionStatus[]
+  /** Only users with a completed trip requested in the last N days; null means no trip filter. */
+  tripWithinDays: number | null
+  /** Pickup zone codes (cost_estimate_zones) of those trips; empty means any zone. Needs tripWithinDays. */
+  zones: string[]
+}
+
+export const EMPTY_SEGMENT: CampaignSegment = { subscriptionStatuses: [], tripWithinDays: null, zones: [] }
+
+/** Reads `notification_campaigns.segment`; unknown or malformed fields are dropped. */
+export function parseCampaignSegment(value: unknown): CampaignSegment {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return EMPTY_SEGMENT
+  const raw = value as Record<string, unknown>
+  const statuses = Array.isArray(raw.subscription_statuses) ? raw.subscription_statuses : []
+  const days = Number(raw.trip_within_days)
+  const zones = Array.isArray(raw.zones) ? raw.zones : []
+  const tripWithinDays =
+    raw.trip_within_days != null && Number.isInteger(days) && days >= 1 && days <= MAX_TRIP_WITHIN_DAYS ? days : null
+  return {
+    subscriptionStatuses: SUBSCRIPTION_STATUSES.map((s) => s.value).filter((s) => statuses.includes(s)),
+    tripWithinDays,
+    zones: tripWithinDays ? Array.from(new Set(zones.filter((z): z is string => typeof z === 'string' && z !== ''))) : [],
+  }
+}
+
+export function campaignSegmentToJson(segment: CampaignSegment): Json {
+  return {
+    subscription_statuses: segment.subscriptionStatuses,
+    trip_within_days: segment.tripWithinDays,
+    zones: segment.zones,
+  }
+}
+
+/** Returns an error message, or null when the segment can be saved. */
+export function validateCampaignSegment(segment: CampaignSegment): string | null {
+  if (
+    segment.tripWithinDays !== null &&
+    (!Number.isInteger(segment.tripWithinDays) ||
+      segment.tripWithinDays < 1 ||
+      segment.tripWithinDays > MAX_TRIP_WITHIN_DAYS)
+  ) {
+    return `Trip look-back must be a whole number of days from 1 to ${MAX_TRIP_WITHIN_DAYS}.`
+  }
+  if (segment.zones.length > 0 && segment.tripWithinDays === null) {
+    return 'Zones filter on recent trips; set how many days back to look.'
+  }
+  return null
+}
+
+/** "Riders with an expired subscription who took a trip from EAST_COAST in the last 30 days". */
+export function describeSegment(audience: CampaignAudience, segment: CampaignSegment): string {
+  const parts = [audience === 'driver' ? 'Drivers' : 'Riders']
+  if (segment.subscriptionStatuses.length > 0) {
+    const labels = segment.subscriptionStatuses.map(
+      (s) => SUBSCRIPTION_STATUSES.find((o) => o.value === s)?.label.toLowerCase() ?? s
+    )
+    parts.push(`with ${/^[aeiou]/.test(labels[0]) ? 'an' : 'a'} ${labels.join(' or ')} subscription`)
+  }
+  if (segment.tripWithinDays !== null) {
+    const verb = audience === 'driver' ? 'completed a trip' : 'took a trip'
+    const from = segment.zones.length > 0 ? ` from ${segment.zones.join(' or ')}` : ''
+    parts.push(`who ${verb}${from} in the last ${segment.tripWithinDays} day${segment.tripWithinDays === 1 ? '' : 's'}`)
+  }
+  return parts.join(' ')
+}
@@ -0,0 +1,499 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { CampaignRecipientStatus, Database, Json } from '@/types/database'
+import { logger } from '@/lib/logger'
+import { sendMessage, type MessageLogFields } from '@/lib/message-outbox'
+import {
+  applyNotificationPreferences,
+  logSuppressedSend,
+  type PreferenceFilter,
+} from '@/lib/notification-preferences'
+import { loadTemplateRecipients, renderAdminTemplate, type RenderedGroup } from '@/lib/notification-templates'
+import {
+  parseCampaignSegment,
+  type CampaignAudience,
+  type CampaignSegment,
+} from '@/lib/notification-campaign-segments'
+import { classifyZone, zoneBoundariesFromRows } from '@/supabase/functions/_shared/zones'
+
+/**
+ * Scheduled, segmented push campaigns (see
+ * `supabase/migrations/20260523120000_notification_campaigns.sql` header). Admins create them from
+ * **Campaigns**; GET /api/cron/notification-campaigns starts and sends them.
+ */
+
+type Db = SupabaseClient<Database>
+
+export type NotificationCampaign = Database['public']['Tables']['notification_campaigns']['Row']
+
+const PAGE_SIZE = 1000
+const USER_ID_BATCH_SIZE = 200
+
+/** Profile id → user id for the audience, filtered by subscription status. */
+async function loadSegmentProfiles(
+  db: Db,
+  audience: CampaignAudience,
+  segment: CampaignSegment
+): Promise<Map<string, string>> {
+  const out = new Map<string, string>()
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = db
+      .from(audience === 'driver' ? 'driver_profiles' : 'rider_profiles')
+      .select('id, user_id')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+    if (segment.subscriptionStatuses.length > 0) query = query.in('subscription_status', segment.subscriptionStatuses)
+    const { data, error } = await query
+    if (error) throw error
+    for (const row of data ?? []) {
+      // driver_profiles.user_id is nullable
+      if (row.user_id) out.set(row.id, row.user_id)
+    }
+    if ((data ?? []).length < PAGE_SIZE) return out
+  }
+}
+
+/** Profile ids with a completed trip requested since `since`, picked up in one of `zones` when given. */
+async function loadRecentTripProfiles(
+  db: Db,
+  audience: CampaignAudience,
+  since: Date,
+  zones: string[]
+): Promise<Set<string>> {
+  let boundaries: ReturnType<typeof zoneBoundariesFromRows> = []
+  if (zones.length > 0) {
+    const { data, error } = await db.from('cost_estimate_zones').select('code, sort_order, boundary')
+    if (error) throw error
+    boundaries = zoneBoundariesFromRows(data ?? [])
+  }
+  const wanted = new Set(zones)
+  const out = new Set<string>()
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await db
+      .from('trips')
+      .select('id, rider_id, driver_id, pickup_latitude, pickup_longitude')
+      .eq('status', 'completed')
+      .gte('requested_at', since.toISOString())
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) throw error
+    for (const trip of data ?? []) {
+      const profileId = audience === 'driver' ? trip.driver_id : trip.rider_id
+      if (!profileId || out.has(profileId)) continue
+      if (wanted.size > 0 && !wanted.has(classifyZone(trip.pickup_latitude, trip.pickup_longitude, boundaries))) {
+        continue
+      }
+      out.add(profileId)
+    }
+    if ((data ?? []).length < PAGE_SIZE) return out
+  }
+}
+
+export type ResolvedSegment = {
+  /** Users whose profile matches the segment. */
+  matched: number
+  /** Of those, active users of the audience with a push token: who the campaign goes to. */
+  userIds: string[]
+}
+
+/** Resolves a segment to user ids as of `now` (the trip look-back counts back from it). */
+export async function resolveSegment(
+  db: Db,
+  audience: CampaignAudience,
+  segment: CampaignSegment,
+  now: Date = new Date()
+): Promise<ResolvedSegment> {
+  const profiles = await loadSegmentProfiles(db, audience, segment)
+  let matchedUserIds = Array.from(profiles.values())
+  if (segment.tripWithinDays !== null) {
+    const since = new Date(now.getTime() - segment.tripWithinDays * 86_400_000)
+    const withTrips = await loadRecentTripProfiles(db, audience, since, segment.zones)
+    matchedUserIds = Array.from(profiles.entries())
+      .filter(([profileId]) => withTrips.has(profileId))
+      .map(([, userId]) => userId)
+  }
+  matchedUserIds = Array.from(new Set(matchedUserIds))
+
+  const userIds: string[] = []
+  for (let i = 0; i < matchedUserIds.length; i += USER_ID_BATCH_SIZE) {
+    const { data, error } = await db
+      .from('users')
+      .select('id')
+      .in('id', matchedUserIds.slice(i, i + USER_ID_BATCH_SIZE))
+      .eq('role', audience)
+      .eq('is_active', true)
+      .not('fcm_token', 'is', null)
+    if (error) throw error
+    for (const u of data ?? []) userIds.push(u.id)
+  }
+  return { matched: matchedUserIds.length, userIds }
+}
+
+/** A campaign's push data payload; only string values reach FCM. */
+function campaignData(data: Json | null): Record<string, string> | undefined {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return undefined
+  const entries = Object.entries(data).filter((e): e is [string, string] => typeof e[1] === 'string')
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined
+}
+
+async function setRecipientStatus(
+  db: Db,
+  campaignId: string,
+  userIds: string[],
+  status: CampaignRecipientStatus,
+  now: Date
+): Promise<void> {
+  for (let i = 0; i < userIds.length; i += USER_ID_BATCH_SIZE) {
+    const { error } = await db
+      .from('notification_campaign_recipients')
+      .update({ status, updated_at: now.toISOString() })
+      .eq('campaign_id', campaignId)
+      .in('user_id', userIds.slice(i, i + USER_ID_BATCH_SIZE))
+    if (error) throw error
+  }
+}
+
+async function failCampaign(db: Db, campaign: NotificationCampaign, message: string, now: Date): Promise<void> {
+  const { error } = await db
+    .from('notification_campaigns')
+    .update({ status: 'failed', last_error: message, completed_at: now.toISOString(), updated_at: now.toISOString() })
+    .eq('id', campaign.id)
+    .eq('status', 'sending')
+  if (error) logger.error('Failing notification campaign failed', { error, campaignId: campaign.id })
+  logger.warn('Notification campaign failed', { campaignId: campaign.id, message })
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error'
+}
+
+const RECIPIENT_INSERT_BATCH_SIZE = 500
+
+/**
+ * Claims a due campaign and resolves its segment into the recipients table. Only one worker can
+ * claim it. Returns false when another worker got there first.
+ */
+async function startCampaign(db: Db, campaign: NotificationCampaign, now: Date): Promise<boolean> {
+  const { data: claimed, error: claimError } = await db
+    .from('notification_campaigns')
+    .update({ status: 'sending', started_at: now.toISOString(), updated_at: now.toISOString() })
+    .eq('id', campaign.id)
+    .eq('status', 'scheduled')
+    .select('id')
+  if (claimError) throw claimError
+  if (!claimed || claimed.length === 0) return false
+
+  try {
+    const { userIds } = await resolveSegment(db, campaign.audience, parseCampaignSegment(campaign.segment), now)
+    for (let i = 0; i < userIds.length; i += RECIPIENT_INSERT_BATCH_SIZE) {
+      const { error } = await db.from('notification_campaign_recipients').upsert(
+        userIds.slice(i, i + RECIPIENT_INSERT_BATCH_SIZE).map((userId) => ({ campaign_id: campaign.id, user_id: userId })),
+        { onConflict: 'campaign_id,user_id', ignoreDuplicates: true }
+      )
+      if (error) throw error
+    }
+    const { error } = await db
+      .from('notification_campaigns')
+      .update({ recipient_count: userIds.length, updated_at: new Date().toISOString() })
+      .eq('id', campaign.id)
+    if (error) throw error
+    logger.info('Notification campaign started', { campaignId: campaign.id, recipients: userIds.length })
+  } catch (error) {
+    logger.error('Resolving notification campaign recipients failed', { error, campaignId: campaign.id })
+    await failCampaign(db, campaign, `Could not build the recipient list: ${errorMessage(error)}`, now)
+  }
+  return true
+}
+
+/** Recipients left `processing` this long (a worker crashed mid-batch) go back to pending. */
+const STALE_PROCESSING_MS = 5 * 60 * 1000
+
+async function countRecipients(
+  db: Db,
+  campaignId: string,
+  statuses: CampaignRecipientStatus[],
+  updatedSince?: Date
+): Promise<number> {
+  let query = db
+    .from('notification_campaign_recipients')
+    .select('user_id', { count: 'exact', head: true })
+    .eq('campaign_id', campaignId)
+    .in('status', statuses)
+  if (updatedSince) query = query.gte('updated_at', updatedSince.toISOString())
+  const { count, error } = await query
+  if (error) throw error
+  return count ?? 0
+}
+
+type BatchResult = { queued: number; suppressed: number; failed: number; completed: boolean }
+
+/**
+ * Sends the next batch of a campaign: pending recipients up to what throttle_per_minute leaves for
+ * the last minute. Recipients held back by their preferences are logged and marked suppressed.
+ * Marks the campaign sent once nobody is pending.
+ */
+async function sendCampaignBatch(db: Db, campaign: NotificationCampaign, now: Date): Promise<BatchResult> {
+  const result: BatchResult = { queued: 0, suppressed: 0, failed: 0, completed: false }
+
+  if (campaign.recipient_count === null) {
+    // Still resolving, or the worker building the list crashed
+    const startedAt = campaign.started_at ? new Date(campaign.started_at).getTime() : 0
+    if (now.getTime() - startedAt > STALE_PROCESSING_MS) {
+      await failCampaign(db, campaign, 'The recipient list was never completed.', now)
+    }
+    return result
+  }
+
+  const handled = await countRecipients(
+    db,
+    campaign.id,
+    ['processing', 'queued', 'suppressed', 'failed'],
+    new Date(now.getTime() - 60_000)
+  )
+  const budget = campaign.throttle_per_minute - handled
+  if (budget <= 0) return result
+
+  const { data: pending, error } = await db
+    .from('notification_campaign_recipients')
+    .select('user_id')
+    .eq('campaign_id', campaign.id)
+    .eq('status', 'pending')
+    .limit(budget)
+  if (error) throw error
+
+  const claimed: string[] = []
+  const pendingIds = (pending ?? []).map((r) => r.user_id)
+  for (let i = 0; i < pendingIds.length; i += USER_ID_BATCH_SIZE) {
+    const { data, error: claimError } = await db
+      .from('notification_campaign_recipients')
+      .update({ status: 'processing', updated_at: now.toISOString() })
+      .eq('campaign_id', campaign.id)
+      .eq('status', 'pending')
+      .in('user_id', pendingIds.slice(i, i + USER_ID_BATCH_SIZE))
+      .select('user_id')
+    if (claimError) throw claimError
+    for (const r of data ?? []) claimed.push(r.user_id)
+  }
+
+  if (claimed.length === 0) {
+    if ((await countRecipients(db, campaign.id, ['pending', 'processing'])) === 0) {
+      const { error: doneError } = await db
+        .from('notification_campaigns')
+        .update({ status: 'sent', completed_at: now.toISOString(), updated_at: now.toISOString() })
+        .eq('id', campaign.id)
+        .eq('status', 'sending')
+      if (doneError) throw doneError
+      result.completed = true
+      logger.info('Notification campaign sent', { campaignId: campaign.id })
+    }
+    return result
+  }
+
+  let texts: RenderedGroup[]
+  let filter: PreferenceFilter
+  try {
+    texts = campaign.template_key
+      ? await renderAdminTemplate(db, campaign.template_key, await loadTemplateRecipients(db, claimed), {
+          broadcast: true,
+        })
+      : [{ title: campaign.title ?? '', body: campaign.body ?? '', locale: 'en', userIds: claimed }]
+  } catch (renderError) {
+    // The template was deleted or changed so it can't be broadcast; no batch would do better
+    await setRecipientStatus(db, campaign.id, claimed, 'pending', now)
+    await failCampaign(db, campaign, `Could not render the message: ${errorMessage(renderError)}`, now)
+    return result
+  }
+  try {
+    filter = await applyNotificationPreferences(db, claimed, campaign.category, now)
+  } catch (preferencesError) {
+    // Tried again on the next run
+    await setRecipientStatus(db, campaign.id, claimed, 'pending', now)
+    throw preferencesError
+  }
+
+  const log: MessageLogFields = {
+    sentByUserId: campaign.created_by,
+    notificationType: 'campaign',
+    audience: campaign.audience,
+    metadata: {
+      category: campaign.category,
+      campaign_id: campaign.id,
+      ...(campaign.template_key ? { template_key: campaign.template_key } : {}),
+    },
+  }
+
+  const rendered = new Set(texts.flatMap((t) => t.userIds))
+  const suppressed = new Set([...filter.suppressed.opted_out, ...filter.suppressed.quiet_hours])
+  const loggedText = texts.find((t) => t.locale === 'en') ?? texts[0]
+  if (loggedText) {
+    await logSuppressedSend(db, filter, {
+      channel: 'push',
+      title: loggedText.title,
+      body: loggedText.body,
+      log,
+    })
+  }
+  await setRecipientStatus(db, campaign.id, Array.from(suppressed), 'suppressed', now)
+  result.suppressed = suppressed.size
+
+  // Users deleted since the list was built have nothing to render
+  const missing = claimed.filter((id) => !rendered.has(id) && !suppressed.has(id))
+  await setRecipientStatus(db, campaign.id, missing, 'failed', now)
+  result.failed += missing.length
+
+  const data = campaignData(campaign.data)
+  for (const text of texts) {
+    const userIds = text.userIds.filter((id) => !suppressed.has(id))
+    if (userIds.length === 0) continue
+    const sent = await sendMessage(db, {
+      channel: 'push',
+      targets: [{ projectType: campaign.audience, userIds }],
+      title: text.title,
+      body: text.body,
+      data,
+      log: campaign.template_key ? { ...log, metadata: { ...log.metadata, locale: text.locale } } : log,
+    })
+    if (sent.ok) {
+      await setRecipientStatus(db, campaign.id, userIds, 'queued', now)
+      result.queued += userIds.length
+    } else {
+      logger.error('Queueing notification campaign batch failed', { campaignId: campaign.id, error: sent.error })
+      await setRecipientStatus(db, campaign.id, userIds, 'failed', now)
+      result.failed += userIds.length
+    }
+  }
+  return result
+}
+
+export type CampaignRunSummary = {
+  /** Recipients released from a crashed batch. */
+  released: number
+  started: number
+  queued: number
+  suppressed: number
+  failed: number
+  completed: number
+  errors: number
+}
+
+/**
+ * One worker run: releases stale recipient locks, starts campaigns that are due, then sends the next
+ * throttled batch of every campaign that is sending.
+ */
+export async function processNotificationCampaigns(db: Db, now: Date = new Date()): Promise<CampaignRunSummary> {
+  const summary: CampaignRunSummary = {
+    released: 0,
+    started: 0,
+    queued: 0,
+    suppressed: 0,
+    failed: 0,
+    completed: 0,
+    errors: 0,
+  }
+
+  const { data: released, error: releaseError } = await db
+    .from('notification_campaign_recipients')
+    .update({ status: 'pending', updated_at: now.toISOString() })
+    .eq('status', 'processing')
+    .lt('updated_at', new Date(now.getTime() - STALE_PROCESSING_MS).toISOString())
+    .select('user_id')
+  if (releaseError) throw releaseError
+  summary.released = released?.length ?? 0
+
+  const { data: due, error: dueError } = await db
+    .from('notification_campaigns')
+    .select('*')
+    .eq('status', 'scheduled')
+    .lte('scheduled_at', now.toISOString())
+    .order('scheduled_at', { ascending: true })
+  if (dueError) throw dueError
+  for (const campaign of due ?? []) {
+    try {
+      if (await startCampaign(db, campaign, now)) summary.started++
+    } catch (error) {
+      summary.errors++
+      logger.error('Starting notification campaign failed', { error, campaignId: campaign.id })
+    }
+  }
+
+  const { data: sending, error: sendingError } = await db
+    .from('notification_campaigns')
+    .select('*')
+    .eq('status', 'sending')
+    .order('scheduled_at', { ascending: true })
+  if (sendingError) throw sendingError
+  for (const campaign of sending ?? []) {
+    try {
+      const batch = await sendCampaignBatch(db, campaign, now)
+      summary.queued += batch.queued
+      summary.suppressed += batch.suppressed
+      summary.failed += batch.failed
+      if (batch.completed) summary.completed++
+    } catch (error) {
+      summary.errors++
+      logger.error('Notification campaign batch failed', { error, campaignId: campaign.id })
+    }
+  }
+
+  if (Object.values(summary).some((n) => n > 0)) logger.info('Notification campaign run', summary)
+  return summary
+}
+
+export type CampaignReport = {
+  recipients: Record<CampaignRecipientStatus, number>
+  /** message_logs rows the campaign queued (suppression rows excluded), by status. */
+  messages: { total: number; sent: number; queued: number; failed: number }
+  /** Devices reached and not reached, summed over those rows. */
+  push: { successCount: number; failureCount: number }
+  /** Recipients skipped by their notification preferences. */
+  suppressed: { optedOut: number; quietHours: number }
+}
+
+const RECIPIENT_STATUSES: CampaignRecipientStatus[] = ['pending', 'processing', 'queued', 'suppressed', 'failed']
+
+function metadataNumber(metadata: Record<string, Json | undefined>, key: string): number {
+  const n = Number(metadata[key] ?? 0)
+  return Number.isFinite(n) ? n : 0
+}
+
+/** Recipient progress plus success and failure from the campaign's message_logs rows. */
+export async function loadCampaignReport(db: Db, campaignId: string): Promise<CampaignReport> {
+  const counts = await Promise.all(RECIPIENT_STATUSES.map((status) => countRecipients(db, campaignId, [status])))
+  const report: CampaignReport = {
+    recipients: Object.fromEntries(RECIPIENT_STATUSES.map((s, i) => [s, counts[i]])) as Record<
+      CampaignRecipientStatus,
+      number
+    >,
+    messages: { total: 0, sent: 0, queued: 0, failed: 0 },
+    push: { successCount: 0, failureCount: 0 },
+    suppressed: { optedOut: 0, quietHours: 0 },
+  }
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await db
+      .from('message_logs')
+      .select('id, status, metadata')
+      .not('metadata->>campaign_id', 'is', null)
+      .eq('metadata->>campaign_id', campaignId)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) throw error
+    for (const row of data ?? []) {
+      const metadata =
+        row.metadata && typeof row.metadata === 'object' && !Array.isArray(row.metadata)
+          ? (row.metadata as Record<string, Json | undefined>)
+          : {}
+      if (metadata.suppressed === true) {
+        report.suppressed.optedOut += metadataNumber(metadata, 'suppressed_opted_out')
+        report.suppressed.quietHours += metadataNumber(metadata, 'suppressed_quiet_hours')
+        continue
+      }
+      report.messages.total++
+      if (row.status === 'queued') report.messages.queued++
+      else if (row.status === 'failed' || row.status === 'undelivered') report.messages.failed++
+      else report.messages.sent++
+      report.push.successCount += metadataNumber(metadata, 'success_count')
+      report.push.failureCount += metadataNumber(metadata, 'failure_count')
+    }
+    if ((data ?? []).length < PAGE_SIZE) return report
+  }
+}
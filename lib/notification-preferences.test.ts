@@ -0,0 +1,79 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { describe, expect, it } from 'vitest'
+import type { Database } from '@/types/database'
+import {
+  applyNotificationPreferences,
+  suppressionReason,
+  tokenSendCategory,
+} from '@/lib/notification-preferences'
+
+type PreferencesRow = Database['public']['Tables']['notification_preferences']['Row']
+
+/** Just enough of the client for loadNotificationPreferences. */
+function dbWithPreferences(rows: PreferencesRow[]) {
+  return {
+    from: () => ({
+      select: () => ({
+        in: async (_column: string, userIds: string[]) => ({
+          data: rows.filter((r) => userIds.includes(r.user_id)),
+          error: null,
+        }),
+      }),
+    }),
+  } as unknown as SupabaseClient<Database>
+}
+
+const quietAtNight: PreferencesRow = {
+  user_id: 'driver-1',
+  trip_updates: true,
+  account: false,
+  marketing: true,
+  quiet_hours_start: '22:00:00',
+  quiet_hours_end: '07:00:00',
+  updated_at: '2026-05-01T00:00:00Z',
+}
+
+// 02:00 in Guyana (UTC-4)
+const twoAm = new Date('2026-05-20T06:00:00Z')
+const noon = new Date('2026-05-20T16:00:00Z')
+
+describe('suppressionReason', () => {
+  const preferences = {
+    enabled: { trip_updates: true, account: false, marketing: true },
+    quietHours: { start: '22:00', end: '07:00' },
+  }
+
+  it('holds back optional categories in quiet hours and when turned off', () => {
+    expect(suppressionReason(preferences, 'marketing', twoAm)).toBe('quiet_hours')
+    expect(suppressionReason(preferences, 'marketing', noon)).toBeNull()
+    expect(suppressionReason(preferences, 'account', noon)).toBe('opted_out')
+  })
+
+  it('never holds back safety or trip-critical sends', () => {
+    expect(suppressionReason(preferences, 'safety', twoAm)).toBeNull()
+    expect(suppressionReason(preferences, 'trip_critical', twoAm)).toBeNull()
+  })
+})
+
+describe('device-token sends', () => {
+  it('delivers an un-categorised send during quiet hours', async () => {
+    const filter = await applyNotificationPreferences(
+      dbWithPreferences([quietAtNight]),
+      ['driver-1'],
+      tokenSendCategory(undefined),
+      twoAm
+    )
+    expect(filter.category).toBe('trip_critical')
+    expect(filter.allowed).toEqual(['driver-1'])
+    expect(filter.suppressed).toEqual({ opted_out: [], quiet_hours: [] })
+  })
+
+  it('applies preferences when the caller names a category', async () => {
+    const db = dbWithPreferences([quietAtNight])
+    const atNight = await applyNotificationPreferences(db, ['driver-1'], tokenSendCategory('trip_updates'), twoAm)
+    expect(atNight.suppressed.quiet_hours).toEqual(['driver-1'])
+
+    const turnedOff = await applyNotificationPreferences(db, ['driver-1'], tokenSendCategory('account'), noon)
+    expect(turnedOff.suppressed.opted_out).toEqual(['driver-1'])
+  })
+})
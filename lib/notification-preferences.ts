@@ -0,0 +1,216 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, MessageChannel, NotificationCategory } from '@/types/database'
+import type { MessageLogFields } from '@/lib/message-outbox'
+import { guyanaWallClock } from '@/lib/guyana-time'
+import { logger } from '@/lib/logger'
+
+/**
+ * Per-user notification categories and quiet hours (see
+ * `supabase/migrations/20260522120000_notification_preferences.sql` header). Admin send paths filter
+ * their recipients through applyNotificationPreferences and log who was skipped.
+ */
+
+type Db = SupabaseClient<Database>
+
+export type OptionalCategory = Exclude<NotificationCategory, 'safety'>
+
+/**
+ * Pushes about a user's own trip (trip requests, driver arrived, ...). Never stored as a user or
+ * campaign category and not offered to admins: only the device-token sends use it, as their default.
+ */
+export const TRIP_CRITICAL = 'trip_critical'
+
+/** What a send is checked as: a user-facing category, or the exempt trip-critical one. */
+export type SendCategory = NotificationCategory | typeof TRIP_CRITICAL
+
+/**
+ * Category of a device-token send. The apps send trip pushes there without one, so an
+ * un-categorised send stays trip-critical; a caller that names a category gets its preferences.
+ */
+export function tokenSendCategory(category: NotificationCategory | undefined): SendCategory {
+  return category ?? TRIP_CRITICAL
+}
+
+export const NOTIFICATION_CATEGORIES: Array<{
+  value: NotificationCategory
+  label: string
+  description: string
+  /** Always delivered: no opt-out, no quiet hours. */
+  exempt: boolean
+}> = [
+  {
+    value: 'trip_updates',
+    label: 'Trip updates',
+    description: 'News about trips and the service. Pushes about your own trip always go out.',
+    exempt: false,
+  },
+  { value: 'account', label: 'Account', description: 'Subscription, payments and verification.', exempt: false },
+  { value: 'marketing', label: 'Marketing', description: 'Promotions and offers.', exempt: false },
+  { value: 'safety', label: 'Safety', description: 'Safety alerts and service outages.', exempt: true },
+]
+
+export function isNotificationCategory(value: unknown): value is NotificationCategory {
+  return NOTIFICATION_CATEGORIES.some((c) => c.value === value)
+}
+
+export type QuietHours = { start: string; end: string }
+
+export type NotificationPreferences = {
+  enabled: Record<OptionalCategory, boolean>
+  /** Guyana wall-clock times as HH:MM; the window may cross midnight. */
+  quietHours: QuietHours | null
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  enabled: { trip_updates: true, account: true, marketing: true },
+  quietHours: null,
+}
+
+type PreferencesRow = Database['public']['Tables']['notification_preferences']['Row']
+
+/** Postgres `time` comes back as HH:MM:SS; preferences use HH:MM. */
+function toHourMinute(time: string): string {
+  return time.slice(0, 5)
+}
+
+export function preferencesFromRow(row: PreferencesRow | null | undefined): NotificationPreferences {
+  if (!row) return DEFAULT_NOTIFICATION_PREFERENCES
+  return {
+    enabled: { trip_updates: row.trip_updates, account: row.account, marketing: row.marketing },
+    quietHours:
+      row.quiet_hours_start && row.quiet_hours_end
+        ? { start: toHourMinute(row.quiet_hours_start), end: toHourMinute(row.quiet_hours_end) }
+        : null,
+  }
+}
+
+function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+/** Whether `now` falls in the quiet hours, in Guyana time. The end minute is outside the window. */
+export function inQuietHours(quietHours: QuietHours | null, now: Date): boolean {
+  if (!quietHours) return false
+  const start = minutesOfDay(quietHours.start)
+  const end = minutesOfDay(quietHours.end)
+  const { minutes } = guyanaWallClock(now)
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end
+}
+
+export type SuppressionReason = 'opted_out' | 'quiet_hours'
+
+/** Safety and trip-critical pushes go out whatever the preferences say. */
+export function isExemptCategory(category: SendCategory): category is 'safety' | typeof TRIP_CRITICAL {
+  return category === 'safety' || category === TRIP_CRITICAL
+}
+
+export function suppressionReason(
+  preferences: NotificationPreferences,
+  category: SendCategory,
+  now: Date
+): SuppressionReason | null {
+  if (isExemptCategory(category)) return null
+  if (!preferences.enabled[category]) return 'opted_out'
+  if (inQuietHours(preferences.quietHours, now)) return 'quiet_hours'
+  return null
+}
+
+const USER_ID_BATCH_SIZE = 200
+
+/** Preferences by user id; users without a row are missing from the map and get the defaults. */
+export async function loadNotificationPreferences(
+  db: Db,
+  userIds: string[]
+): Promise<Map<string, NotificationPreferences>> {
+  const out = new Map<string, NotificationPreferences>()
+  for (let i = 0; i < userIds.length; i += USER_ID_BATCH_SIZE) {
+    const { data, error } = await db
+      .from('notification_preferences')
+      .select('*')
+      .in('user_id', userIds.slice(i, i + USER_ID_BATCH_SIZE))
+    if (error) throw error
+    for (const row of data ?? []) out.set(row.user_id, preferencesFromRow(row))
+  }
+  return out
+}
+
+export type PreferenceFilter = {
+  category: SendCategory
+  allowed: string[]
+  suppressed: Record<SuppressionReason, string[]>
+}
+
+export function suppressedCount(filter: PreferenceFilter): number {
+  return filter.suppressed.opted_out.length + filter.suppressed.quiet_hours.length
+}
+
+/**
+ * Splits recipients into those who take this category right now and those held back by an opt-out
+ * or quiet hours. Exempt categories skip the lookup. Throws when preferences can't be loaded, so a
+ * send never ignores them silently.
+ */
+export async function applyNotificationPreferences(
+  db: Db,
+  userIds: string[],
+  category: SendCategory,
+  now: Date = new Date()
+): Promise<PreferenceFilter> {
+  const filter: PreferenceFilter = { category, allowed: [], suppressed: { opted_out: [], quiet_hours: [] } }
+  if (isExemptCategory(category)) {
+    filter.allowed = [...userIds]
+    return filter
+  }
+  const preferences = await loadNotificationPreferences(db, userIds)
+  for (const userId of userIds) {
+    const reason = suppressionReason(preferences.get(userId) ?? DEFAULT_NOTIFICATION_PREFERENCES, category, now)
+    if (reason) filter.suppressed[reason].push(userId)
+    else filter.allowed.push(userId)
+  }
+  return filter
+}
+
+/** Suppressed user ids kept in a log row; larger sends keep the counts only. */
+const SUPPRESSED_IDS_LOGGED = 500
+
+/**
+ * Records the recipients a send skipped: a message_logs row (status failed, nothing queued) with
+ * the counts, reasons and user ids in its metadata. Does nothing when nobody was skipped.
+ */
+export async function logSuppressedSend(
+  db: Db,
+  filter: PreferenceFilter,
+  message: { channel: MessageChannel; title?: string | null; body: string; log?: MessageLogFields }
+): Promise<void> {
+  const count = suppressedCount(filter)
+  if (count === 0) return
+  const log = message.log ?? {}
+  const userIds = [...filter.suppressed.opted_out, ...filter.suppressed.quiet_hours]
+  const now = new Date().toISOString()
+  const { error } = await db.from('message_logs').insert({
+    channel: message.channel,
+    recipient_user_id: count === 1 ? userIds[0] : log.recipientUserId ?? null,
+    sent_by_user_id: log.sentByUserId ?? null,
+    title: message.title ?? null,
+    message: message.body.trim(),
+    status: 'failed',
+    status_updated_at: now,
+    error_message:
+      count === 1
+        ? `Not sent: the recipient ${filter.suppressed.opted_out.length > 0 ? 'turned off this category' : 'is in quiet hours'}.`
+        : `Not sent to ${count} recipients: turned off this category or in quiet hours.`,
+    notification_type: log.notificationType ?? null,
+    audience: log.audience ?? null,
+    metadata: {
+      ...log.metadata,
+      category: filter.category,
+      suppressed: true,
+      requested_count: count,
+      success_count: 0,
+      suppressed_opted_out: filter.suppressed.opted_out.length,
+      suppressed_quiet_hours: filter.suppressed.quiet_hours.length,
+      suppressed_user_ids: userIds.slice(0, SUPPRESSED_IDS_LOGGED),
+    },
+  })
+  if (error) logger.error('Failed to log suppressed notifications', { error, category: filter.category, count })
+}
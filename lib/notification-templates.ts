@@ -0,0 +1,467 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, MessageChannel, NotificationLocale, UserRole } from '@/types/database'
+import { NotFoundError, ValidationError } from '@/lib/errors'
+import { logger } from '@/lib/logger'
+
+/**
+ * Keyed notification templates with {{variable}} placeholders, per locale and channel (see
+ * `supabase/migrations/20260521120000_notification_templates.sql` header). System messages use the
+ * keys in SYSTEM_TEMPLATES, whose English text below applies until an admin edits it.
+ */
+
+type Db = SupabaseClient<Database>
+
+export type TemplateVariant = Database['public']['Tables']['notification_template_variants']['Row']
+
+export const NOTIFICATION_LOCALES: Array<{ value: NotificationLocale; label: string }> = [
+  { value: 'en', label: 'English' },
+  { value: 'gyn', label: 'Creolese' },
+]
+
+export const DEFAULT_LOCALE: NotificationLocale = 'en'
+
+/** Rendered text is cut to these lengths; saved templates must fit them with sample values. */
+export const CHANNEL_LIMITS: Record<MessageChannel, { title: number; body: number }> = {
+  push: { title: 65, body: 240 },
+  sms: { title: 0, body: 320 },
+}
+
+export const TEMPLATE_VARIABLES = {
+  first_name: { description: "Recipient's first name", sample: 'Asha' },
+  full_name: { description: "Recipient's full name", sample: 'Asha Persaud' },
+  rider_name: { description: "Rider's first name", sample: 'Asha' },
+  driver_name: { description: "Driver's first name", sample: 'Devon' },
+  trip_eta: { description: 'Estimated trip time', sample: '18 min' },
+  pickup_address: { description: 'Trip pickup address', sample: 'Stabroek Market, Georgetown' },
+  destination_address: { description: 'Trip destination', sample: 'Sheriff Street, Georgetown' },
+  end_date: { description: 'Subscription end date', sample: 'Jun 3' },
+  days_left: { description: 'Days until the subscription ends', sample: '3' },
+  ends_in: { description: '"tomorrow" or "in N days" (English)', sample: 'in 3 days' },
+  grace_ends_at: { description: 'End of the renewal grace period', sample: 'Jun 6, 11:59 PM' },
+  rejection_reason: { description: 'Reason given for a rejected verification', sample: 'ID card photo is blurry' },
+} as const
+
+export type TemplateVariableName = keyof typeof TEMPLATE_VARIABLES
+export type TemplateVariables = Partial<Record<TemplateVariableName, string>>
+
+/** Filled in for every recipient; rider_name / driver_name only when the recipient has that role. */
+const RECIPIENT_VARIABLES: readonly TemplateVariableName[] = ['first_name', 'full_name']
+
+const RECIPIENT_NAME_VARIABLES: readonly string[] = ['first_name', 'full_name', 'rider_name', 'driver_name']
+
+/** Variables admin-created templates may use. */
+export const CUSTOM_TEMPLATE_VARIABLES: readonly TemplateVariableName[] = ['first_name', 'full_name']
+
+type SystemTemplate = {
+  name: string
+  description: string
+  audience: 'driver' | 'rider' | 'driver,rider'
+  /** Variables the sender supplies, besides the recipient's own. */
+  variables: readonly TemplateVariableName[]
+  push: { title: string; body: string }
+  /** Defaults to the push text as "title: body". */
+  sms?: string
+}
+
+function tripTemplate(name: string, description: string, title: string, body: string): SystemTemplate {
+  return {
+    name,
+    description,
+    audience: 'rider',
+    variables: ['rider_name', 'driver_name', 'pickup_address', 'destination_address', 'trip_eta'],
+    push: { title, body },
+  }
+}
+
+function renewalTemplates(role: 'driver' | 'rider'): Record<string, SystemTemplate> {
+  const keepDoing = role === 'driver' ? 'going online' : 'requesting rides'
+  return {
+    [`subscription_reminder_${role}`]: {
+      name: `Subscription ending soon (${role})`,
+      description: 'Renewal reminder sent on the configured days before the subscription ends.',
+      audience: role,
+      variables: ['end_date', 'days_left', 'ends_in'],
+      push: {
+        title: 'Subscription ending soon',
+        body: `Your subscription ends {{ends_in}} ({{end_date}}). Renew in the app to keep ${keepDoing}.`,
+      },
+    },
+    [`subscription_grace_${role}`]: {
+      name: `Subscription ended, grace period (${role})`,
+      description: 'Sent once the subscription has ended, while the grace period runs.',
+      audience: role,
+      variables: ['end_date', 'grace_ends_at'],
+      push: {
+        title: 'Subscription ended',
+        body: `Your subscription ended on {{end_date}}. Renew by {{grace_ends_at}} to keep ${keepDoing}.`,
+      },
+    },
+    [`subscription_expired_${role}`]: {
+      name: `Subscription expired (${role})`,
+      description: 'Sent when the grace period is over and the subscription is expired.',
+      audience: role,
+      variables: ['end_date'],
+      push: {
+        title: 'Subscription expired',
+        body:
+          role === 'driver'
+            ? 'Your subscription has expired and you can no longer go online. Renew in the app to start driving again.'
+            : 'Your subscription has expired. Renew in the app to keep requesting rides.',
+      },
+    },
+  }
+}
+
+function verificationTemplates(
+  role: 'driver' | 'rider',
+  text: Record<'approved' | 'rejected' | 'suspended' | 'updated', { title: string; body: string }>
+): Record<string, SystemTemplate> {
+  const out: Record<string, SystemTemplate> = {}
+  for (const [status, push] of Object.entries(text)) {
+    out[`${role}_verification_${status}`] = {
+      name: `${role === 'driver' ? 'Driver' : 'Rider'} verification ${status}`,
+      description:
+        status === 'updated'
+          ? 'Sent when an admin sets the verification status back to pending.'
+          : `Sent when an admin sets the ${role}'s verification status to ${status}.`,
+      audience: role,
+      variables: status === 'rejected' ? ['rejection_reason'] : [],
+      push,
+    }
+  }
+  return out
+}
+
+export const SYSTEM_TEMPLATES: Record<string, SystemTemplate> = {
+  trip_driver_arrived: tripTemplate(
+    'Driver arrived',
+    'Sent to the rider when the driver marks the trip arrived.',
+    'Driver Arrived',
+    'Your driver has arrived at the pickup location'
+  ),
+  trip_started: tripTemplate(
+    'Trip started',
+    'Sent to the rider when the driver picks them up.',
+    'Trip Started',
+    "You're on your way. Enjoy your ride!"
+  ),
+  trip_completed: tripTemplate(
+    'Trip completed',
+    'Sent to the rider when the driver completes the trip.',
+    'Trip Completed',
+    'Your trip has been completed. Thank you for using Links!'
+  ),
+  trip_cancelled_by_driver: tripTemplate(
+    'Trip cancelled by driver',
+    'Sent to the rider when the driver cancels the trip.',
+    'Trip Cancelled',
+    'Your trip has been cancelled by the driver'
+  ),
+  trip_cancelled_request_expired: tripTemplate(
+    'Trip cancelled, request expired',
+    "Sent to the rider when the driver cancels after the rider's request has expired.",
+    'Trip Cancelled',
+    'Your trip has been cancelled and is now available to be requested again'
+  ),
+  trip_requests_paused: {
+    name: 'Trip requests paused',
+    description: 'Broadcast to all riders and drivers when trip requests are switched off.',
+    audience: 'driver,rider',
+    variables: [],
+    push: {
+      title: 'Sending Trips Requests is temporarily unavailable',
+      body: 'Sending trip requests is temporarily unavailable. will resume shortly.',
+    },
+  },
+  ...renewalTemplates('driver'),
+  ...renewalTemplates('rider'),
+  ...verificationTemplates('driver', {
+    approved: {
+      title: 'Verification Approved!',
+      body: 'Your driver account is now active. You can start accepting trips.',
+    },
+    rejected: {
+      title: 'Verification Rejected',
+      body: 'Your verification application has been rejected. Please review the reason and resubmit.',
+    },
+    suspended: {
+      title: 'Account Suspended',
+      body: 'Your driver account has been suspended. Please contact support for more information.',
+    },
+    updated: { title: 'Verification Status Updated', body: 'Your verification status has been updated.' },
+  }),
+  ...verificationTemplates('rider', {
+    approved: {
+      title: 'Verification approved',
+      body: 'Your rider account verification is complete. You can use trip requests as usual.',
+    },
+    rejected: {
+      title: 'Verification rejected',
+      body: 'Your identity verification was rejected. Please review the reason and resubmit your documents.',
+    },
+    suspended: {
+      title: 'Account suspended',
+      body: 'Your rider account has been suspended. Please contact support for more information.',
+    },
+    updated: { title: 'Verification status updated', body: 'Your verification status has been updated.' },
+  }),
+}
+
+export function isSystemTemplate(key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(SYSTEM_TEMPLATES, key)
+}
+
+/** Variables a template may use: the recipient's own plus, for system templates, what the sender supplies. */
+export function allowedVariables(key: string): TemplateVariableName[] {
+  const system = isSystemTemplate(key) ? SYSTEM_TEMPLATES[key] : null
+  return system ? Array.from(new Set([...RECIPIENT_VARIABLES, ...system.variables])) : [...CUSTOM_TEMPLATE_VARIABLES]
+}
+
+const PLACEHOLDER = /\{\{\s*([a-z_]+)\s*\}\}/g
+
+/** Variable names used in a piece of template text, in order of first use. */
+export function variablesIn(text: string): string[] {
+  return Array.from(new Set(Array.from(text.matchAll(PLACEHOLDER), (m) => m[1])))
+}
+
+/** Replaces {{name}} with its value; unknown or missing variables become empty. */
+export function fillTemplate(text: string, variables: TemplateVariables): string {
+  return text
+    .replace(PLACEHOLDER, (_, name: string) => variables[name as TemplateVariableName] ?? '')
+    .replace(/[ \t]{2,}/g, ' ')
+    .trim()
+}
+
+function truncate(text: string, max: number): string {
+  return text.length <= max ? text : `${text.slice(0, max - 1).trimEnd()}…`
+}
+
+export function sampleVariables(): TemplateVariables {
+  const out: TemplateVariables = {}
+  for (const [name, v] of Object.entries(TEMPLATE_VARIABLES)) out[name as TemplateVariableName] = v.sample
+  return out
+}
+
+/** Whether text uses the recipient's own name, so every recipient gets a message of their own. */
+export function usesRecipientVariables(texts: Array<string | null | undefined>): boolean {
+  return texts.some((t) => variablesIn(t ?? '').some((name) => RECIPIENT_NAME_VARIABLES.includes(name)))
+}
+
+export type TemplateText = { title: string | null; body: string }
+
+/**
+ * Checks text an admin is saving: a push needs a title, only the template's variables may be used,
+ * and with sample values it must fit the channel limits. Returns the problems found.
+ */
+export function checkTemplateText(key: string, channel: MessageChannel, text: TemplateText): string[] {
+  const problems: string[] = []
+  const title = text.title?.trim() ?? ''
+  const body = text.body.trim()
+  if (channel === 'push' && !title) problems.push('A push notification needs a title.')
+  if (!body) problems.push('The message text is required.')
+
+  const allowed = allowedVariables(key)
+  const unknown = variablesIn(`${channel === 'push' ? title : ''} ${body}`).filter(
+    (name) => !allowed.includes(name as TemplateVariableName)
+  )
+  if (unknown.length > 0) {
+    problems.push(`Unknown variables: ${unknown.map((n) => `{{${n}}}`).join(', ')}. Available: ${allowed.map((n) => `{{${n}}}`).join(', ')}.`)
+  }
+
+  const limits = CHANNEL_LIMITS[channel]
+  const samples = sampleVariables()
+  if (channel === 'push' && fillTemplate(title, samples).length > limits.title) {
+    problems.push(`The title is longer than ${limits.title} characters with sample values.`)
+  }
+  if (fillTemplate(body, samples).length > limits.body) {
+    problems.push(`The text is longer than ${limits.body} characters with sample values.`)
+  }
+  return problems
+}
+
+export type ResolvedTemplate = TemplateText & {
+  locale: NotificationLocale
+  /** Where the text came from: an edited variant, or the built-in default. */
+  source: 'template' | 'default'
+}
+
+/**
+ * Picks the text for a locale and channel: the recipient's locale before English, and within a
+ * locale the channel's own variant before the push variant turned into SMS text ("title: body").
+ * System templates end with their built-in English text; null when a custom template has no match.
+ */
+export function resolveTemplate(
+  key: string,
+  variants: TemplateVariant[],
+  locale: NotificationLocale,
+  channel: MessageChannel
+): ResolvedTemplate | null {
+  const locales = locale === DEFAULT_LOCALE ? [locale] : [locale, DEFAULT_LOCALE]
+  for (const l of locales) {
+    const own = variants.find((v) => v.locale === l && v.channel === channel)
+    if (own) return { title: own.title, body: own.body, locale: l, source: 'template' }
+    if (channel === 'sms') {
+      const push = variants.find((v) => v.locale === l && v.channel === 'push')
+      if (push) return { title: push.title, body: `${push.title}: ${push.body}`, locale: l, source: 'template' }
+    }
+  }
+  const system = isSystemTemplate(key) ? SYSTEM_TEMPLATES[key] : null
+  if (!system) return null
+  const body = channel === 'sms' ? system.sms ?? `${system.push.title}: ${system.push.body}` : system.push.body
+  return { title: system.push.title, body, locale: DEFAULT_LOCALE, source: 'default' }
+}
+
+export type RenderedMessage = { title: string; body: string; locale: NotificationLocale }
+
+/** Fills in the variables and cuts the result to the channel limits. */
+export function renderResolved(
+  resolved: TemplateText,
+  channel: MessageChannel,
+  variables: TemplateVariables
+): Omit<RenderedMessage, 'locale'> {
+  const limits = CHANNEL_LIMITS[channel]
+  const title = fillTemplate(resolved.title ?? '', variables)
+  return {
+    title: channel === 'push' ? truncate(title, limits.title) : title,
+    body: truncate(fillTemplate(resolved.body, variables), limits.body),
+  }
+}
+
+export class TemplateNotFoundError extends NotFoundError {
+  constructor(key: string) {
+    super(`Notification template "${key}" does not exist.`, 'TEMPLATE_NOT_FOUND')
+  }
+}
+
+/**
+ * Loads a template's edited variants. System templates fall back to their defaults when the lookup
+ * fails, so trip and renewal messages still go out; custom templates throw.
+ */
+export async function loadTemplateVariants(db: Db, key: string): Promise<TemplateVariant[]> {
+  const { data, error } = await db.from('notification_template_variants').select('*').eq('template_key', key)
+  if (error) {
+    if (!isSystemTemplate(key)) throw error
+    logger.error('Failed to load notification template, using the default text', { error, key })
+    return []
+  }
+  const variants = (data ?? []) as TemplateVariant[]
+  if (variants.length === 0 && !isSystemTemplate(key)) throw new TemplateNotFoundError(key)
+  return variants
+}
+
+export type TemplateRecipient = { id: string; role: UserRole; fullName: string; locale: NotificationLocale }
+
+const USER_ID_BATCH_SIZE = 200
+
+export async function loadTemplateRecipients(db: Db, userIds: string[]): Promise<TemplateRecipient[]> {
+  const out: TemplateRecipient[] = []
+  for (let i = 0; i < userIds.length; i += USER_ID_BATCH_SIZE) {
+    const { data, error } = await db
+      .from('users')
+      .select('id, role, full_name, preferred_locale')
+      .in('id', userIds.slice(i, i + USER_ID_BATCH_SIZE))
+    if (error) throw error
+    for (const u of data ?? []) {
+      out.push({ id: u.id, role: u.role, fullName: u.full_name, locale: u.preferred_locale ?? DEFAULT_LOCALE })
+    }
+  }
+  return out
+}
+
+export function recipientVariables(recipient: Pick<TemplateRecipient, 'role' | 'fullName'>): TemplateVariables {
+  const fullName = recipient.fullName.trim()
+  const firstName = fullName.split(/\s+/)[0] ?? ''
+  const vars: TemplateVariables = { first_name: firstName, full_name: fullName }
+  if (recipient.role === 'rider') vars.rider_name = firstName
+  if (recipient.role === 'driver') vars.driver_name = firstName
+  return vars
+}
+
+export type RenderedGroup = RenderedMessage & { userIds: string[] }
+
+/**
+ * Renders a template for each recipient in their locale, then groups recipients that get the same
+ * text so each group can go out as one message. Variables passed in win over the recipient's own.
+ */
+export function renderForRecipients(
+  key: string,
+  variants: TemplateVariant[],
+  channel: MessageChannel,
+  recipients: TemplateRecipient[],
+  variables: TemplateVariables = {}
+): RenderedGroup[] {
+  const groups = new Map<string, RenderedGroup>()
+  for (const recipient of recipients) {
+    const resolved = resolveTemplate(key, variants, recipient.locale, channel)
+    if (!resolved) throw new TemplateNotFoundError(key)
+    const text = renderResolved(resolved, channel, { ...recipientVariables(recipient), ...variables })
+    const groupKey = `${resolved.locale}\u0000${text.title}\u0000${text.body}`
+    const group = groups.get(groupKey)
+    if (group) group.userIds.push(recipient.id)
+    else groups.set(groupKey, { ...text, locale: resolved.locale, userIds: [recipient.id] })
+  }
+  return Array.from(groups.values())
+}
+
+/** Renders a template for users by id, loading their locale and name. Users that don't exist are skipped. */
+export async function renderForUsers(
+  db: Db,
+  key: string,
+  channel: MessageChannel,
+  userIds: string[],
+  variables: TemplateVariables = {}
+): Promise<RenderedGroup[]> {
+  const [variants, recipients] = await Promise.all([
+    loadTemplateVariants(db, key),
+    loadTemplateRecipients(db, userIds),
+  ])
+  return renderForRecipients(key, variants, channel, recipients, variables)
+}
+
+/** Renders a template for one user; null when the user doesn't exist. */
+export async function renderForUser(
+  db: Db,
+  key: string,
+  channel: MessageChannel,
+  userId: string,
+  variables: TemplateVariables = {}
+): Promise<RenderedMessage | null> {
+  const [group] = await renderForUsers(db, key, channel, [userId], variables)
+  return group ? { title: group.title, body: group.body, locale: group.locale } : null
+}
+
+/** Personalised templates become one message per recipient; admin sends of them are capped. */
+export const PERSONALISED_SEND_LIMIT = 200
+
+/**
+ * Renders a template an admin picked for a targeted send or broadcast. Only admin-created templates
+ * can be picked (system ones need values only the app has), and a broadcast can't use the
+ * recipient's name. Throws ValidationError / TemplateNotFoundError for the API to return.
+ */
+export async function renderAdminTemplate(
+  db: Db,
+  key: string,
+  recipients: TemplateRecipient[],
+  options: { broadcast: boolean }
+): Promise<RenderedGroup[]> {
+  if (isSystemTemplate(key)) {
+    throw new ValidationError(`"${key}" is a system template and can't be sent by hand.`, 'SYSTEM_TEMPLATE')
+  }
+  const variants = await loadTemplateVariants(db, key)
+  const pushTexts = variants.filter((v) => v.channel === 'push').flatMap((v) => [v.title, v.body])
+  if (usesRecipientVariables(pushTexts)) {
+    if (options.broadcast) {
+      throw new ValidationError(
+        "This template uses the recipient's name, so it can't be broadcast. Send it to selected users instead.",
+        'PERSONALISED_TEMPLATE'
+      )
+    }
+    if (recipients.length > PERSONALISED_SEND_LIMIT) {
+      throw new ValidationError(
+        `This template uses the recipient's name; send it to at most ${PERSONALISED_SEND_LIMIT} users at a time.`,
+        'PERSONALISED_TEMPLATE'
+      )
+    }
+  }
+  return renderForRecipients(key, variants, 'push', recipients)
+}
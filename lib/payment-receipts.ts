@@ -0,0 +1,281 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import { COMMISSION_PLAN_CODE, COMMISSION_PLAN_LABEL } from '@/lib/driver-commission'
+import { formatGuyana } from '@/lib/guyana-time'
+import { LEGACY_PLAN_TYPE, getSubscriptionPlan } from '@/lib/subscription-plans'
+
+/**
+ * Receipts for completed subscription and commission payments (see
+ * `supabase/migrations/20260514120000_payment_receipts.sql` header). Issued when the payment
+ * completes and lazily on first download; the row is a snapshot, so reprints always match.
+ */
+export const PAYMENT_RECEIPTS_BUCKET = 'payment_receipts' as const
+
+export type PaymentReceipt = Database['public']['Tables']['payment_receipts']['Row']
+
+type Db = SupabaseClient<Database>
+
+/** Payments that were paid at some point; a refunded payment keeps its original receipt. */
+const RECEIPTABLE_STATUSES = ['completed', 'refunded'] as const
+
+/** Seller block printed on receipts and finance reports; set per deployment. */
+export function receiptIssuer() {
+  return {
+    name: process.env.RECEIPT_BUSINESS_NAME || 'Links',
+    address: process.env.RECEIPT_BUSINESS_ADDRESS || null,
+    taxId: process.env.RECEIPT_TAX_ID || null,
+  }
+}
+
+function formatMoney(amount: number, currency: string): string {
+  return `${currency} ${Number(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+/** The standard fonts only encode WinAnsi; anything else (e.g. emoji in a name) would throw. */
+function pdfSafe(text: string): string {
+  return text.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?')
+}
+
+export async function buildPaymentReceiptPdf(
+  receipt: PaymentReceipt,
+  extra: { promoCode?: string | null } = {}
+): Promise<Uint8Array> {
+  const issuer = receiptIssuer()
+  const margin = 48
+  const pageW = 595.28
+  const pageH = 841.89
+
+  const doc = await PDFDocument.create()
+  doc.setTitle(`Receipt ${receipt.receipt_number}`)
+  const font = await doc.embedFont(StandardFonts.Helvetica)
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold)
+  const page = doc.addPage([pageW, pageH])
+  let y = pageH - margin
+
+  const text = (value: string, opts: { x?: number; size?: number; f?: PDFFont; right?: boolean } = {}) => {
+    const size = opts.size ?? 10
+    const f = opts.f ?? font
+    const safe = pdfSafe(value)
+    const x = opts.right ? pageW - margin - f.widthOfTextAtSize(safe, size) : opts.x ?? margin
+    page.drawText(safe, { x, y: y - size, size, font: f, color: rgb(0, 0, 0) })
+  }
+  const rule = (p: PDFPage) => {
+    p.drawLine({
+      start: { x: margin, y },
+      end: { x: pageW - margin, y },
+      thickness: 0.5,
+      color: rgb(0.7, 0.7, 0.7),
+    })
+  }
+
+  text(issuer.name, { size: 16, f: bold })
+  text('RECEIPT', { size: 16, f: bold, right: true })
+  y -= 22
+  if (issuer.address) {
+    text(issuer.address)
+    y -= 13
+  }
+  if (issuer.taxId) {
+    text(`TIN: ${issuer.taxId}`)
+    y -= 13
+  }
+  y -= 12
+
+  const meta: [string, string][] = [
+    ['Receipt number', receipt.receipt_number],
+    ['Issued', formatGuyana(receipt.issued_at, 'MMM d, yyyy')],
+    ['Paid', formatGuyana(receipt.paid_at, 'MMM d, yyyy h:mm a')],
+  ]
+  for (const [label, value] of meta) {
+    text(label, { f: bold })
+    text(value, { x: margin + 110 })
+    y -= 14
+  }
+  y -= 10
+
+  text('Billed to', { f: bold })
+  y -= 14
+  text(receipt.payer_name)
+  y -= 13
+  if (receipt.payer_phone) {
+    text(receipt.payer_phone)
+    y -= 13
+  }
+  y -= 14
+
+  text('Description', { f: bold })
+  text('Amount', { f: bold, right: true })
+  y -= 16
+  rule(page)
+  y -= 8
+
+  text(receipt.plan_code === COMMISSION_PLAN_CODE ? receipt.plan_label : `${receipt.plan_label} subscription`)
+  text(formatMoney(receipt.original_amount, receipt.currency), { right: true })
+  y -= 13
+  if (receipt.period_start && receipt.period_end) {
+    text(
+      `Period: ${formatGuyana(receipt.period_start, 'MMM d, yyyy')} to ${formatGuyana(receipt.period_end, 'MMM d, yyyy')}`,
+      { size: 9 }
+    )
+    y -= 13
+  }
+  if (Number(receipt.discount_amount) > 0) {
+    y -= 4
+    text(extra.promoCode ? `Discount (promo code ${extra.promoCode})` : 'Discount')
+    text(`-${formatMoney(receipt.discount_amount, receipt.currency)}`, { right: true })
+    y -= 13
+  }
+  y -= 6
+  rule(page)
+  y -= 8
+  text('Total paid', { f: bold })
+  text(formatMoney(receipt.amount, receipt.currency), { f: bold, right: true })
+  y -= 28
+
+  const payment: [string, string][] = [
+    ['Payment method', receipt.payment_method === 'mmg' ? 'MMG mobile money' : receipt.payment_method === 'promo' ? 'Promo code (no charge)' : receipt.payment_method],
+  ]
+  if (receipt.payment_reference) payment.push(['MMG reference', receipt.payment_reference])
+  payment.push(['Payment ID', receipt.payment_transaction_id])
+  for (const [label, value] of payment) {
+    text(label, { f: bold })
+    text(value, { x: margin + 110 })
+    y -= 14
+  }
+
+  y = margin + 12
+  text('This receipt was issued electronically and is valid without a signature.', { size: 8 })
+
+  return doc.save()
+}
+
+/** Snapshot of the payment as it should appear on the receipt, or null if it was never paid. */
+async function receiptSnapshot(db: Db, paymentId: string): Promise<Database['public']['Tables']['payment_receipts']['Insert'] | null> {
+  const { data: payment, error } = await db
+    .from('payment_transactions')
+    .select(
+      'id, user_id, subscription_id, plan_code, purpose, amount, original_amount, discount_amount, currency, payment_method, mmg_transaction_id, mmg_reference, status, completed_at'
+    )
+    .eq('id', paymentId)
+    .maybeSingle()
+  if (error) throw error
+  if (!payment || !(RECEIPTABLE_STATUSES as readonly string[]).includes(payment.status) || !payment.completed_at) {
+    return null
+  }
+
+  const [userResult, subscriptionResult, planResult] = await Promise.all([
+    payment.user_id
+      ? db.from('users').select('full_name, phone_number').eq('id', payment.user_id).maybeSingle()
+      : Promise.resolve({ data: null, error: null }),
+    payment.subscription_id
+      ? db.from('subscriptions').select('start_date, end_date, plan_type').eq('id', payment.subscription_id).maybeSingle()
+      : Promise.resolve({ data: null, error: null }),
+    payment.plan_code ? getSubscriptionPlan(db, payment.plan_code) : Promise.resolve({ data: null, error: null }),
+  ])
+  if (userResult.error) throw userResult.error
+  if (subscriptionResult.error) throw subscriptionResult.error
+  if (planResult.error) throw planResult.error
+
+  const subscription = subscriptionResult.data
+  const commission = payment.purpose === 'commission'
+  const planCode = commission ? COMMISSION_PLAN_CODE : payment.plan_code ?? subscription?.plan_type ?? null
+  const amount = Number(payment.amount)
+  return {
+    payment_transaction_id: payment.id,
+    user_id: payment.user_id,
+    payer_name: userResult.data?.full_name ?? 'Unknown',
+    payer_phone: userResult.data?.phone_number ?? null,
+    plan_code: planCode,
+    plan_label: commission
+      ? COMMISSION_PLAN_LABEL
+      : planResult.data?.label ?? (planCode === LEGACY_PLAN_TYPE || !planCode ? 'Monthly' : planCode),
+    period_start: subscription?.start_date ?? null,
+    period_end: subscription?.end_date ?? null,
+    original_amount: payment.original_amount != null ? Number(payment.original_amount) : amount,
+    discount_amount: Number(payment.discount_amount ?? 0),
+    amount,
+    currency: payment.currency,
+    payment_method: payment.payment_method,
+    payment_reference: payment.mmg_reference ?? payment.mmg_transaction_id,
+    paid_at: payment.completed_at,
+  }
+}
+
+/**
+ * The receipt for a payment, issuing it (number, snapshot and PDF) if it doesn't exist yet.
+ * Returns null when the payment isn't completed. Safe to call concurrently: the unique payment key
+ * makes the losing caller read the winner's receipt.
+ */
+export async function issuePaymentReceipt(db: Db, paymentId: string): Promise<PaymentReceipt | null> {
+  const { data: existing, error } = await db
+    .from('payment_receipts')
+    .select('*')
+    .eq('payment_transaction_id', paymentId)
+    .maybeSingle()
+  if (error) throw error
+
+  let receipt = existing
+  if (!receipt) {
+    const snapshot = await receiptSnapshot(db, paymentId)
+    if (!snapshot) return null
+    const { data: inserted, error: insertError } = await db.from('payment_receipts').insert(snapshot).select('*').single()
+    if (insertError?.code === '23505') {
+      const { data: winner, error: winnerError } = await db
+        .from('payment_receipts')
+        .select('*')
+        .eq('payment_transaction_id', paymentId)
+        .single()
+      if (winnerError) throw winnerError
+      receipt = winner
+    } else if (insertError || !inserted) {
+      throw insertError ?? new Error('Receipt insert returned no row')
+    } else {
+      receipt = inserted
+    }
+  }
+
+  if (receipt.pdf_storage_path) return receipt
+
+  let promoCode: string | null = null
+  if (Number(receipt.discount_amount) > 0) {
+    const { data: payment } = await db
+      .from('payment_transactions')
+      .select('promo_code_id')
+      .eq('id', paymentId)
+      .maybeSingle()
+    if (payment?.promo_code_id) {
+      const { data: promo } = await db.from('promo_codes').select('code').eq('id', payment.promo_code_id).maybeSingle()
+      promoCode = promo?.code ?? null
+    }
+  }
+
+  const pdfBytes = await buildPaymentReceiptPdf(receipt, { promoCode })
+  const path = `${receipt.user_id ?? 'unknown'}/${receipt.receipt_number}.pdf`
+  const { error: uploadError } = await db.storage
+    .from(PAYMENT_RECEIPTS_BUCKET)
+    .upload(path, pdfBytes, { contentType: 'application/pdf', upsert: true })
+  if (uploadError) throw uploadError
+
+  const { error: updateError } = await db
+    .from('payment_receipts')
+    .update({ pdf_storage_path: path })
+    .eq('id', receipt.id)
+  if (updateError) throw updateError
+
+  return { ...receipt, pdf_storage_path: path }
+}
+
+export function receiptFilename(receipt: Pick<PaymentReceipt, 'receipt_number'>): string {
+  return `receipt-${receipt.receipt_number}.pdf`
+}
+
+/** Short-lived signed URL for the stored PDF, downloaded under the receipt's filename. */
+export async function receiptDownloadUrl(db: Db, receipt: PaymentReceipt, expiresInSecs: number): Promise<string> {
+  if (!receipt.pdf_storage_path) throw new Error(`Receipt ${receipt.receipt_number} has no PDF`)
+  const { data, error } = await db.storage
+    .from(PAYMENT_RECEIPTS_BUCKET)
+    .createSignedUrl(receipt.pdf_storage_path, expiresInSecs, { download: receiptFilename(receipt) })
+  if (error || !data?.signedUrl) throw error ?? new Error('Could not sign receipt URL')
+  return data.signedUrl
+}
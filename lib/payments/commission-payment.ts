@@ -0,0 +1,48 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Json } from '@/types/database'
+import { postPaymentToLedger } from '@/lib/ledger'
+import { logger } from '@/lib/logger'
+import { issuePaymentReceipt } from '@/lib/payment-receipts'
+import type { PaymentToSettle } from './grant-subscription'
+
+type Db = SupabaseClient<Database>
+
+/**
+ * Completes a paid commission checkout (`purpose = 'commission'`): the payment simply counts
+ * against the driver's commission balance (lib/driver-commission.ts), no subscription is granted.
+ * The counterpart of grantSubscriptionForPayment for the webhook and payment reconciliation; the
+ * caller holds the claim and decides whether to release it if this throws. Safe to retry.
+ */
+export async function settleCommissionPayment(
+  db: Db,
+  payment: Pick<PaymentToSettle, 'id' | 'user_id'>,
+  settlement: { transactionId: string; reference: string; gatewayResponse: Json }
+): Promise<void> {
+  if (!payment.user_id) {
+    throw new Error(`Payment ${payment.id} has no user`)
+  }
+
+  const { error } = await db
+    .from('payment_transactions')
+    .update({
+      status: 'completed',
+      mmg_transaction_id: settlement.transactionId,
+      mmg_reference: settlement.reference,
+      completed_at: new Date().toISOString(),
+      gateway_response: settlement.gatewayResponse,
+    })
+    .eq('id', payment.id)
+  if (error) throw error
+
+  try {
+    await postPaymentToLedger(db, payment.id)
+  } catch (error) {
+    logger.error('Posting payment to the ledger failed', { error, paymentId: payment.id })
+  }
+
+  try {
+    await issuePaymentReceipt(db, payment.id)
+  } catch (error) {
+    logger.error('Issuing payment receipt failed', { error, paymentId: payment.id })
+  }
+}
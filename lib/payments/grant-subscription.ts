@@ -0,0 +1,190 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Json } from '@/types/database'
+import { postPaymentToLedger } from '@/lib/ledger'
+import { logger } from '@/lib/logger'
+import { issuePaymentReceipt } from '@/lib/payment-receipts'
+import { markPromoRedeemed } from '@/lib/promo-codes'
+import {
+  LEGACY_PLAN_TYPE,
+  getSubscriptionPlan,
+  isFirstSubscription,
+  subscriptionWindow,
+} from '@/lib/subscription-plans'
+
+type Db = SupabaseClient<Database>
+
+const PROMO_SLOT_LOST_MESSAGE =
+  'Completed at the promo price after its promo redemption was released; check the discount.'
+
+/** A checkout transaction the caller has claimed (moved to 'processing') or is settling. */
+export type PaymentToSettle = Pick<
+  Database['public']['Tables']['payment_transactions']['Row'],
+  'id' | 'user_id' | 'amount' | 'currency' | 'subscription_start_date' | 'plan_code'
+>
+
+export type GrantedSubscription = {
+  subscriptionId: string
+  startDate: Date
+  endDate: Date
+  /** True when a subscription for this transaction already existed (a retried settlement). */
+  reused: boolean
+}
+
+/**
+ * The subscription already granted for a payment (`subscriptions_payment_reference_key` allows one
+ * per method and reference).
+ */
+async function findSettledSubscription(db: Db, userId: string, method: 'mmg' | 'promo', reference: string) {
+  const { data, error } = await db
+    .from('subscriptions')
+    .select('id, start_date, end_date')
+    .eq('user_id', userId)
+    .eq('payment_method', method)
+    .eq('payment_reference', reference)
+    .maybeSingle()
+  if (error) throw error
+  return data
+}
+
+/**
+ * Completes a paid MMG checkout: creates the subscription for the transaction's plan, marks the
+ * transaction completed and activates the driver/rider profile. Used by the webhook and by payment
+ * reconciliation, and by checkout itself for promo codes that make the plan free (`method: 'promo'`,
+ * with the payment transaction id as reference since there is no MMG transaction).
+ *
+ * Safe to retry: a subscription already created for this MMG transaction (an earlier attempt that
+ * failed half-way, or a concurrent one) is reused rather than granted twice. Throws on any database
+ * error; the caller decides whether to release its claim. The ledger journal and the receipt come
+ * last and never fail the grant: the month-close report posts missing journals, and receipts are
+ * issued on download.
+ */
+export async function grantSubscriptionForPayment(
+  db: Db,
+  payment: PaymentToSettle,
+  settlement: { method?: 'mmg' | 'promo'; transactionId: string; reference: string; gatewayResponse: Json }
+): Promise<GrantedSubscription> {
+  const method = settlement.method ?? 'mmg'
+
+  if (!payment.user_id) {
+    throw new Error(`Payment ${payment.id} has no user`)
+  }
+
+  const { data: user, error: userError } = await db
+    .from('users')
+    .select('id, role')
+    .eq('id', payment.user_id)
+    .single()
+  if (userError || !user) {
+    throw userError ?? new Error('User not found')
+  }
+
+  let existing = await findSettledSubscription(db, payment.user_id, method, settlement.transactionId)
+
+  let subscriptionId: string
+  let startDate: Date
+  let endDate: Date
+  if (existing) {
+    subscriptionId = existing.id
+    startDate = new Date(existing.start_date)
+    endDate = new Date(existing.end_date)
+  } else {
+    // Term from the plan bought at checkout; legacy transactions without a plan keep 30 days
+    const { data: plan, error: planError } = payment.plan_code
+      ? await getSubscriptionPlan(db, payment.plan_code)
+      : { data: null, error: null }
+    if (planError) throw planError
+    if (payment.plan_code && !plan) throw new Error(`Subscription plan ${payment.plan_code} not found`)
+
+    const term = subscriptionWindow(
+      payment.subscription_start_date ? new Date(payment.subscription_start_date) : new Date(),
+      plan,
+      { firstSubscription: plan ? await isFirstSubscription(db, payment.user_id) : false }
+    )
+    startDate = term.startDate
+    endDate = term.endDate
+
+    const { data: subscription, error: subscriptionError } = await db
+      .from('subscriptions')
+      .insert({
+        user_id: payment.user_id,
+        user_role: user.role,
+        plan_type: plan?.code ?? LEGACY_PLAN_TYPE,
+        amount: payment.amount,
+        currency: payment.currency,
+        start_date: startDate.toISOString(),
+        end_date: endDate.toISOString(),
+        status: 'active',
+        payment_method: method,
+        payment_reference: settlement.transactionId,
+        payment_date: new Date().toISOString(),
+      })
+      .select('id')
+      .single()
+    if (subscriptionError?.code === '23505') {
+      // A concurrent settlement of the same transaction inserted it first: link that one
+      existing = await findSettledSubscription(db, payment.user_id, method, settlement.transactionId)
+      if (!existing) throw subscriptionError
+      subscriptionId = existing.id
+      startDate = new Date(existing.start_date)
+      endDate = new Date(existing.end_date)
+    } else if (subscriptionError || !subscription) {
+      throw subscriptionError ?? new Error('Subscription insert returned no row')
+    } else {
+      subscriptionId = subscription.id
+    }
+  }
+
+  const { error: updatePaymentError } = await db
+    .from('payment_transactions')
+    .update({
+      status: 'completed',
+      subscription_id: subscriptionId,
+      ...(method === 'mmg'
+        ? { mmg_transaction_id: settlement.transactionId, mmg_reference: settlement.reference }
+        : {}),
+      completed_at: new Date().toISOString(),
+      gateway_response: settlement.gatewayResponse,
+    })
+    .eq('id', payment.id)
+  if (updatePaymentError) throw updatePaymentError
+
+  if (!(await markPromoRedeemed(db, payment.id))) {
+    // Paid at the discounted price after the redemption was released: the user keeps the
+    // subscription they paid for, and the payment is flagged for an admin to review
+    logger.error('Discounted payment completed without a promo redemption slot', { paymentId: payment.id })
+    const { error: flagError } = await db
+      .from('payment_transactions')
+      .update({ error_message: PROMO_SLOT_LOST_MESSAGE })
+      .eq('id', payment.id)
+    if (flagError) logger.error('Flagging the discounted payment failed', { error: flagError, paymentId: payment.id })
+  }
+
+  const profileTable =
+    user.role === 'driver' ? 'driver_profiles' : user.role === 'rider' ? 'rider_profiles' : null
+  if (profileTable) {
+    const { error: profileError } = await db
+      .from(profileTable)
+      .update({
+        subscription_status: 'active',
+        subscription_start_date: startDate.toISOString(),
+        subscription_end_date: endDate.toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('user_id', payment.user_id)
+    if (profileError) throw profileError
+  }
+
+  try {
+    await postPaymentToLedger(db, payment.id)
+  } catch (error) {
+    logger.error('Posting payment to the ledger failed', { error, paymentId: payment.id })
+  }
+
+  try {
+    await issuePaymentReceipt(db, payment.id)
+  } catch (error) {
+    logger.error('Issuing payment receipt failed', { error, paymentId: payment.id })
+  }
+
+  return { subscriptionId, startDate, endDate, reused: !!existing }
+}
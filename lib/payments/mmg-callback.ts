@@ -0,0 +1,167 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, PaymentStatus } from '@/types/database'
+import { logger } from '@/lib/logger'
+import { releasePromoRedemption } from '@/lib/promo-codes'
+import { settleCommissionPayment } from './commission-payment'
+import { grantSubscriptionForPayment } from './grant-subscription'
+
+/**
+ * Settling an MMG checkout callback: the decrypted payload MMG sends to `GET /api/mmg/webhook`
+ * (also stored as `mmg_webhook_logs.raw_body`). Shared by the webhook and the admin replay of a
+ * logged delivery, so both claim and grant the same way.
+ */
+
+type Db = SupabaseClient<Database>
+
+export interface MmgCallback {
+  merchantTransactionId: string
+  transactionId: string
+  ResultCode: string
+  ResultMessage: string
+  htmlResponse: string
+}
+
+export function isMmgCallback(value: unknown): value is MmgCallback {
+  if (typeof value !== 'object' || value === null) return false
+  const v = value as Record<string, unknown>
+  return (
+    typeof v.merchantTransactionId === 'string' &&
+    typeof v.transactionId === 'string' &&
+    typeof v.ResultCode === 'string'
+  )
+}
+
+export function mmgResultCode(callback: Pick<MmgCallback, 'ResultCode'>): number {
+  return callback.ResultCode === '0' ? 0 : parseInt(callback.ResultCode, 10)
+}
+
+export type MmgCallbackOutcome =
+  /**
+   * Payment completed: subscription granted (or an existing one for this MMG transaction linked), or
+   * for a commission payment, counted against the driver's balance.
+   */
+  | 'completed'
+  /** Already completed or refunded; nothing to do. */
+  | 'already_completed'
+  /** Another request holds the claim ('processing'). */
+  | 'in_progress'
+  /** Failure callback applied: the payment is now failed. */
+  | 'failed'
+  /** Callback doesn't apply to the payment's current status (e.g. a failure for a completed payment). */
+  | 'ignored'
+  | 'not_found'
+
+export type MmgCallbackResult = { outcome: MmgCallbackOutcome; paymentId: string; status: PaymentStatus | null }
+
+const CLAIM_COLUMNS = 'id, user_id, amount, currency, status, subscription_start_date, plan_code, purpose'
+
+/**
+ * Set by payment reconciliation on a checkout MMG never reported a transaction for. The user may
+ * still have paid (the callback was only lost), so a success callback settles such a row.
+ */
+export const ABANDONED_CHECKOUT_MESSAGE = 'Checkout abandoned: MMG never reported a transaction.'
+
+/** Claims a checkout reconciliation abandoned, for a success callback that arrived late. */
+async function claimAbandoned(db: Db, paymentId: string) {
+  const { data, error } = await db
+    .from('payment_transactions')
+    .update({ status: 'processing', error_message: null })
+    .eq('id', paymentId)
+    .eq('status', 'failed')
+    .is('mmg_transaction_id', null)
+    .eq('error_message', ABANDONED_CHECKOUT_MESSAGE)
+    .select(CLAIM_COLUMNS)
+    .maybeSingle()
+  if (error) throw error
+  return data
+}
+
+/**
+ * Applies a callback. Success: claims the transaction (`pending` → `processing`; only one caller
+ * wins; also a checkout reconciliation abandoned) and grants the subscription (or settles the commission payment), releasing the claim if granting throws. Failure: marks a
+ * pending/processing transaction failed and frees its promo code.
+ *
+ * `takeOverProcessing` also claims a transaction left in `processing` by a caller that died mid-way;
+ * the admin replay uses it. Granting is idempotent per MMG transaction, so a takeover never grants twice.
+ */
+export async function settleMmgCallback(
+  db: Db,
+  callback: MmgCallback,
+  options: { takeOverProcessing?: boolean } = {}
+): Promise<MmgCallbackResult> {
+  const paymentId = callback.merchantTransactionId
+
+  if (mmgResultCode(callback) !== 0) {
+    const { data: failed, error } = await db
+      .from('payment_transactions')
+      .update({
+        status: 'failed',
+        mmg_transaction_id: callback.transactionId,
+        gateway_response: { ...callback },
+        error_message: callback.ResultMessage || 'Payment failed',
+      })
+      .eq('id', paymentId)
+      .in('status', ['pending', 'processing'])
+      .select('id')
+    if (error) throw error
+    if (failed?.length) {
+      // A promo code used on the failed checkout can be used again
+      try {
+        await releasePromoRedemption(db, paymentId)
+      } catch (releaseError) {
+        logger.error('Releasing promo redemption failed', { error: releaseError, paymentId })
+      }
+      return { outcome: 'failed', paymentId, status: 'failed' }
+    }
+    const current = await currentStatus(db, paymentId)
+    return { outcome: current ? 'ignored' : 'not_found', paymentId, status: current }
+  }
+
+  // Optimistic lock: atomically claim the transaction. Only one concurrent request will succeed.
+  const claimFrom: PaymentStatus[] = options.takeOverProcessing ? ['pending', 'processing'] : ['pending']
+  const { data: claimedOpen, error: claimError } = await db
+    .from('payment_transactions')
+    .update({ status: 'processing' })
+    .eq('id', paymentId)
+    .in('status', claimFrom)
+    .select(CLAIM_COLUMNS)
+    .maybeSingle()
+  if (claimError) throw claimError
+  const claimed = claimedOpen ?? (await claimAbandoned(db, paymentId))
+
+  if (!claimed) {
+    const current = await currentStatus(db, paymentId)
+    if (!current) return { outcome: 'not_found', paymentId, status: null }
+    if (current === 'completed' || current === 'refunded') return { outcome: 'already_completed', paymentId, status: current }
+    if (current === 'processing') return { outcome: 'in_progress', paymentId, status: current }
+    return { outcome: 'ignored', paymentId, status: current }
+  }
+
+  try {
+    const settlement = {
+      transactionId: callback.transactionId,
+      reference: callback.transactionId,
+      gatewayResponse: { ...callback },
+    }
+    if (claimed.purpose === 'commission') {
+      await settleCommissionPayment(db, claimed, settlement)
+    } else {
+      await grantSubscriptionForPayment(db, claimed, settlement)
+    }
+  } catch (grantError) {
+    // Revert the claim so the webhook, a replay or payment reconciliation can retry
+    await db
+      .from('payment_transactions')
+      .update({ status: 'pending' })
+      .eq('id', claimed.id)
+      .eq('status', 'processing')
+    throw grantError
+  }
+  return { outcome: 'completed', paymentId, status: 'completed' }
+}
+
+async function currentStatus(db: Db, paymentId: string): Promise<PaymentStatus | null> {
+  const { data, error } = await db.from('payment_transactions').select('status').eq('id', paymentId).maybeSingle()
+  if (error) throw error
+  return data?.status ?? null
+}
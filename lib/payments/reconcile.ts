@@ -0,0 +1,321 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Json, PaymentStatus } from '@/types/database'
+import { isSuccessfulTransaction, mmgService, type MMGLookupResult } from '@/lib/mmg'
+import { logger } from '@/lib/logger'
+import { releasePromoRedemption } from '@/lib/promo-codes'
+import { settleCommissionPayment } from './commission-payment'
+import { grantSubscriptionForPayment } from './grant-subscription'
+import { ABANDONED_CHECKOUT_MESSAGE } from './mmg-callback'
+
+/**
+ * Payment reconciliation (see `supabase/migrations/20260510120000_payment_reconciliation.sql` header).
+ *
+ * MMG checkouts normally settle when MMG redirects to the webhook. When that redirect never arrives
+ * or the webhook fails half-way, the transaction stays `pending` / `processing`. This walks those
+ * transactions once they are older than `olderThanMinutes`, asks MMG for each one and settles it:
+ * successful → subscription granted (idempotent, see grantSubscriptionForPayment) or commission
+ * payment settled, failed → failed.
+ * Every run is recorded in `payment_reconciliation_runs`.
+ */
+
+type Db = SupabaseClient<Database>
+
+export type ReconciliationOutcome =
+  | 'completed'
+  | 'failed'
+  | 'abandoned'
+  | 'still_pending'
+  | 'no_mmg_transaction'
+  | 'amount_mismatch'
+  | 'skipped'
+  | 'error'
+
+export type ReconciliationResult = {
+  paymentId: string
+  userId: string | null
+  amount: number
+  initiatedAt: string
+  fromStatus: PaymentStatus
+  toStatus: PaymentStatus
+  mmgTransactionId: string | null
+  mmgStatus: string | null
+  outcome: ReconciliationOutcome
+  message: string | null
+}
+
+export type ReconcileOptions = {
+  trigger: 'scheduled' | 'manual'
+  triggeredBy?: string | null
+  /** Only transactions initiated at least this long ago; the webhook may still be on its way before. */
+  olderThanMinutes?: number
+  /** Checkouts with no MMG transaction id are failed after this long (the user never paid). */
+  abandonAfterHours?: number
+  /** Transactions per run, oldest first. */
+  limit?: number
+}
+
+export const DEFAULT_OLDER_THAN_MINUTES = 30
+export const DEFAULT_ABANDON_AFTER_HOURS = 24
+export const DEFAULT_RECONCILE_LIMIT = 100
+
+/** MMG `transactionStatus` values (lowercased) that will never become successful. */
+const FAILED_MMG_STATUSES = new Set(['failed', 'rejected', 'declined', 'cancelled', 'canceled', 'expired', 'reversed'])
+
+type StuckPayment = Pick<
+  Database['public']['Tables']['payment_transactions']['Row'],
+  | 'id'
+  | 'user_id'
+  | 'amount'
+  | 'currency'
+  | 'status'
+  | 'initiated_at'
+  | 'subscription_start_date'
+  | 'plan_code'
+  | 'purpose'
+  | 'mmg_transaction_id'
+>
+
+/** MMG id from the transaction, else from the newest webhook log for it. */
+async function findMmgTransactionId(db: Db, payment: StuckPayment): Promise<string | null> {
+  if (payment.mmg_transaction_id) return payment.mmg_transaction_id
+  const { data, error } = await db
+    .from('mmg_webhook_logs')
+    .select('transaction_id')
+    .eq('merchant_transaction_id', payment.id)
+    .not('transaction_id', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  if (error) throw error
+  return data?.transaction_id ?? null
+}
+
+/** Moves a stuck transaction to failed (freeing its promo code), unless something else settled it meanwhile. */
+async function markFailed(
+  db: Db,
+  payment: StuckPayment,
+  message: string,
+  mmg: { transactionId: string | null; response: Json | null }
+): Promise<boolean> {
+  const { data, error } = await db
+    .from('payment_transactions')
+    .update({
+      status: 'failed',
+      error_message: message,
+      ...(mmg.transactionId ? { mmg_transaction_id: mmg.transactionId } : {}),
+      ...(mmg.response ? { gateway_response: mmg.response } : {}),
+    })
+    .eq('id', payment.id)
+    .eq('status', payment.status)
+    .select('id')
+  if (error) throw error
+  const changed = (data ?? []).length > 0
+  if (changed) await releasePromoRedemption(db, payment.id)
+  return changed
+}
+
+async function reconcileOne(
+  db: Db,
+  payment: StuckPayment,
+  abandonBefore: Date
+): Promise<ReconciliationResult> {
+  const base = {
+    paymentId: payment.id,
+    userId: payment.user_id,
+    amount: Number(payment.amount),
+    initiatedAt: payment.initiated_at,
+    fromStatus: payment.status,
+    toStatus: payment.status,
+    mmgTransactionId: null as string | null,
+    mmgStatus: null as string | null,
+  }
+
+  const mmgTransactionId = await findMmgTransactionId(db, payment)
+  if (!mmgTransactionId) {
+    if (new Date(payment.initiated_at) >= abandonBefore) {
+      return { ...base, outcome: 'no_mmg_transaction', message: 'MMG has not reported a transaction yet.' }
+    }
+    // A late success callback (or a replay of it) still settles the row: see settleMmgCallback
+    const changed = await markFailed(db, payment, ABANDONED_CHECKOUT_MESSAGE, {
+      transactionId: null,
+      response: null,
+    })
+    return changed
+      ? { ...base, toStatus: 'failed', outcome: 'abandoned', message: 'No MMG transaction; checkout abandoned.' }
+      : { ...base, outcome: 'skipped', message: 'Settled by another process during the run.' }
+  }
+
+  let lookup: MMGLookupResult
+  try {
+    lookup = await mmgService.fetchTransaction(mmgTransactionId)
+  } catch (err) {
+    return {
+      ...base,
+      mmgTransactionId,
+      outcome: 'error',
+      message: err instanceof Error ? err.message : 'MMG lookup failed',
+    }
+  }
+  const mmgStatus = lookup.transactionStatus ?? null
+  const withMmg = { ...base, mmgTransactionId, mmgStatus }
+  const response = lookup as unknown as Json
+
+  if (isSuccessfulTransaction(lookup)) {
+    const paid = parseFloat(lookup.amount) || 0
+    if (paid !== Number(payment.amount)) {
+      return {
+        ...withMmg,
+        outcome: 'amount_mismatch',
+        message: `MMG amount ${paid} does not match ${payment.amount}; left for manual review.`,
+      }
+    }
+
+    // Same claim as the webhook, so the two never both grant; 'processing' rows are only picked up
+    // once older than the threshold, i.e. after the webhook that claimed them gave up.
+    if (payment.status === 'pending') {
+      const { data: claimed, error: claimError } = await db
+        .from('payment_transactions')
+        .update({ status: 'processing' })
+        .eq('id', payment.id)
+        .eq('status', 'pending')
+        .select('id')
+      if (claimError) throw claimError
+      if (!claimed?.length) {
+        return { ...withMmg, outcome: 'skipped', message: 'Settled by another process during the run.' }
+      }
+    }
+
+    try {
+      const settlement = {
+        transactionId: mmgTransactionId,
+        reference: lookup.transactionReference || lookup.transactionReceipt || mmgTransactionId,
+        gatewayResponse: response,
+      }
+      if (payment.purpose === 'commission') {
+        await settleCommissionPayment(db, payment, settlement)
+        return { ...withMmg, toStatus: 'completed', outcome: 'completed', message: 'Commission payment settled.' }
+      }
+      const granted = await grantSubscriptionForPayment(db, payment, settlement)
+      return {
+        ...withMmg,
+        toStatus: 'completed',
+        outcome: 'completed',
+        message: `${granted.reused ? 'Existing subscription linked' : 'Subscription granted'} until ${granted.endDate.toISOString().slice(0, 10)}.`,
+      }
+    } catch (err) {
+      await db
+        .from('payment_transactions')
+        .update({ status: 'pending' })
+        .eq('id', payment.id)
+        .eq('status', 'processing')
+      return {
+        ...withMmg,
+        toStatus: 'pending',
+        outcome: 'error',
+        message: err instanceof Error ? err.message : 'Failed to settle payment',
+      }
+    }
+  }
+
+  if (FAILED_MMG_STATUSES.has(mmgStatus?.toLowerCase() ?? '')) {
+    const changed = await markFailed(db, payment, `MMG transaction ${mmgStatus}`, {
+      transactionId: mmgTransactionId,
+      response,
+    })
+    return changed
+      ? { ...withMmg, toStatus: 'failed', outcome: 'failed', message: `MMG status: ${mmgStatus}.` }
+      : { ...withMmg, outcome: 'skipped', message: 'Settled by another process during the run.' }
+  }
+
+  return { ...withMmg, outcome: 'still_pending', message: `MMG status: ${mmgStatus ?? 'unknown'}.` }
+}
+
+export type ReconciliationRun = Database['public']['Tables']['payment_reconciliation_runs']['Row']
+
+/** Runs one reconciliation pass and returns the recorded run. Throws only if the run can't be recorded. */
+export async function reconcilePayments(db: Db, options: ReconcileOptions): Promise<ReconciliationRun> {
+  const olderThanMinutes = options.olderThanMinutes ?? DEFAULT_OLDER_THAN_MINUTES
+  const abandonAfterHours = options.abandonAfterHours ?? DEFAULT_ABANDON_AFTER_HOURS
+  const limit = options.limit ?? DEFAULT_RECONCILE_LIMIT
+
+  const { data: run, error: runError } = await db
+    .from('payment_reconciliation_runs')
+    .insert({
+      trigger: options.trigger,
+      triggered_by: options.triggeredBy ?? null,
+      older_than_minutes: olderThanMinutes,
+      abandon_after_hours: abandonAfterHours,
+    })
+    .select('id')
+    .single()
+  if (runError || !run) throw runError ?? new Error('Failed to record reconciliation run')
+
+  const now = Date.now()
+  const olderThan = new Date(now - olderThanMinutes * 60_000)
+  const abandonBefore = new Date(now - abandonAfterHours * 3_600_000)
+
+  const results: ReconciliationResult[] = []
+  let runFailure: string | null = null
+  try {
+    const { data: stuck, error } = await db
+      .from('payment_transactions')
+      .select('id, user_id, amount, currency, status, initiated_at, subscription_start_date, plan_code, purpose, mmg_transaction_id')
+      .eq('payment_method', 'mmg')
+      .in('status', ['pending', 'processing'])
+      .lt('initiated_at', olderThan.toISOString())
+      .order('initiated_at', { ascending: true })
+      .limit(limit)
+    if (error) throw error
+
+    for (const payment of stuck ?? []) {
+      try {
+        results.push(await reconcileOne(db, payment, abandonBefore))
+      } catch (err) {
+        logger.error('reconcilePayments: transaction failed', { error: err, paymentId: payment.id })
+        results.push({
+          paymentId: payment.id,
+          userId: payment.user_id,
+          amount: Number(payment.amount),
+          initiatedAt: payment.initiated_at,
+          fromStatus: payment.status,
+          toStatus: payment.status,
+          mmgTransactionId: payment.mmg_transaction_id,
+          mmgStatus: null,
+          outcome: 'error',
+          message: err instanceof Error ? err.message : 'Unexpected error',
+        })
+      }
+    }
+  } catch (err) {
+    logger.error('reconcilePayments failed', { error: err, runId: run.id })
+    runFailure = err instanceof Error ? err.message : 'Failed to load stuck transactions'
+  }
+
+  const count = (outcomes: ReconciliationOutcome[]) => results.filter((r) => outcomes.includes(r.outcome)).length
+  const { data: finished, error: finishError } = await db
+    .from('payment_reconciliation_runs')
+    .update({
+      finished_at: new Date().toISOString(),
+      checked: results.length,
+      completed: count(['completed']),
+      failed: count(['failed', 'abandoned']),
+      unchanged: count(['still_pending', 'no_mmg_transaction', 'amount_mismatch', 'skipped']),
+      errored: count(['error']),
+      results: results as unknown as Json,
+      error: runFailure,
+    })
+    .eq('id', run.id)
+    .select('*')
+    .single()
+  if (finishError || !finished) throw finishError ?? new Error('Failed to record reconciliation results')
+
+  logger.info('Payment reconciliation finished', {
+    runId: run.id,
+    trigger: options.trigger,
+    checked: finished.checked,
+    completed: finished.completed,
+    failed: finished.failed,
+    errored: finished.errored,
+  })
+  return finished
+}
@@ -0,0 +1,81 @@
+import type { Json } from '@/types/database'
+import { mmgService } from '@/lib/mmg'
+
+/**
+ * Where approved admin refunds are sent (see app/admin/payments/refund-actions.ts). The refund flow
+ * only talks to this interface so the MMG call can be swapped for the manual provider locally, or
+ * for a stub with `setRefundProvider` in scripts.
+ */
+
+export type RefundRequest = {
+  refundId: string
+  paymentId: string
+  /** MMG transaction id of the original payment; null for payments that never reached MMG. */
+  mmgTransactionId: string | null
+  amount: number
+  currency: string
+  reason: string
+}
+
+export type RefundProviderResult =
+  | { ok: true; reference: string | null; response: Json | null }
+  | { ok: false; error: string; response: Json | null }
+
+export interface RefundProvider {
+  /** Stored on the refund row as `provider`. */
+  readonly name: string
+  refund(request: RefundRequest): Promise<RefundProviderResult>
+}
+
+/** Sends the refund to MMG against the original transaction. */
+export class MmgRefundProvider implements RefundProvider {
+  readonly name = 'mmg'
+
+  async refund(request: RefundRequest): Promise<RefundProviderResult> {
+    if (!request.mmgTransactionId) {
+      return { ok: false, error: 'Payment has no MMG transaction to refund against.', response: null }
+    }
+    try {
+      const result = await mmgService.refundTransaction({
+        transactionId: request.mmgTransactionId,
+        amount: request.amount,
+        currency: request.currency,
+        reason: request.reason,
+        merchantRefundId: request.refundId,
+      })
+      const response = result as unknown as Json
+      const status = typeof result.transactionStatus === 'string' ? result.transactionStatus : null
+      if (status && status.toLowerCase() !== 'successful') {
+        return { ok: false, error: `MMG refund ${status}`, response }
+      }
+      return { ok: true, reference: result.transactionReference ?? result.transactionId ?? null, response }
+    } catch (err) {
+      return { ok: false, error: err instanceof Error ? err.message : 'MMG refund failed', response: null }
+    }
+  }
+}
+
+/**
+ * Records the refund without moving money: finance pays it back outside the app (cash, bank
+ * transfer) and the approval is the record. Used when REFUND_PROVIDER=manual.
+ */
+export class ManualRefundProvider implements RefundProvider {
+  readonly name = 'manual'
+
+  async refund(request: RefundRequest): Promise<RefundProviderResult> {
+    return { ok: true, reference: `manual-${request.refundId}`, response: null }
+  }
+}
+
+let override: RefundProvider | null = null
+
+/** Replaces the provider for the current process (scripts, local stubbing); null restores the default. */
+export function setRefundProvider(provider: RefundProvider | null) {
+  override = provider
+}
+
+/** REFUND_PROVIDER=manual records refunds without calling MMG; anything else (default) uses MMG. */
+export function getRefundProvider(): RefundProvider {
+  if (override) return override
+  return process.env.REFUND_PROVIDER === 'manual' ? new ManualRefundProvider() : new MmgRefundProvider()
+}
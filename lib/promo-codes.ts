@@ -0,0 +1,209 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, UserRole } from '@/types/database'
+import { isFirstSubscription } from '@/lib/subscription-plans'
+
+/**
+ * Promo codes for subscription checkout (see `supabase/migrations/20260513120000_promo_codes.sql`
+ * header). Checkout validates the code, prices the plan with the discount, and reserves a
+ * redemption against the payment transaction; the redemption is marked redeemed when the payment
+ * completes and released when it fails.
+ */
+export type PromoCode = Database['public']['Tables']['promo_codes']['Row']
+
+type Db = SupabaseClient<Database>
+
+export type PromoRejection =
+  | 'not_found'
+  | 'inactive'
+  | 'not_started'
+  | 'expired'
+  | 'wrong_audience'
+  | 'first_subscription_only'
+  | 'already_used'
+  | 'checkout_open'
+  | 'exhausted'
+
+export const PROMO_REJECTION_MESSAGE: Record<PromoRejection, string> = {
+  not_found: 'Promo code not found.',
+  inactive: 'This promo code is no longer available.',
+  not_started: 'This promo code is not active yet.',
+  expired: 'This promo code has expired.',
+  wrong_audience: 'This promo code is not valid for your account.',
+  first_subscription_only: 'This promo code is only valid on your first subscription.',
+  already_used: 'You have already used this promo code.',
+  checkout_open: 'This promo code is held by an earlier checkout that is still open. Complete that payment, or try again once it has expired.',
+  exhausted: 'This promo code has reached its redemption limit.',
+}
+
+export function normalizePromoCode(raw: string): string {
+  return raw.trim().toUpperCase()
+}
+
+const roundMoney = (n: number) => Math.round(n * 100) / 100
+
+/** Discount on `price`; a fixed discount larger than the price makes it free, never negative. */
+export function promoDiscount(
+  promo: Pick<PromoCode, 'discount_type' | 'discount_value'>,
+  price: number
+): { discountAmount: number; finalAmount: number } {
+  const value = Number(promo.discount_value)
+  const discountAmount = roundMoney(
+    Math.min(price, promo.discount_type === 'percent' ? (price * value) / 100 : value)
+  )
+  return { discountAmount, finalAmount: roundMoney(price - discountAmount) }
+}
+
+/** Pending redemptions whose payment failed no longer hold a slot (limit or per-user use). */
+async function releaseFailedRedemptions(db: Db, promoCodeId: string) {
+  const { data: pending, error } = await db
+    .from('promo_redemptions')
+    .select('payment_transaction_id')
+    .eq('promo_code_id', promoCodeId)
+    .eq('status', 'pending')
+  if (error) throw error
+  if (!pending?.length) return
+
+  const { data: failed, error: failedError } = await db
+    .from('payment_transactions')
+    .select('id')
+    .in('id', pending.map((p) => p.payment_transaction_id))
+    .eq('status', 'failed')
+  if (failedError) throw failedError
+  if (!failed?.length) return
+
+  const { error: releaseError } = await db
+    .from('promo_redemptions')
+    .update({ status: 'released', released_at: new Date().toISOString() })
+    .in('payment_transaction_id', failed.map((p) => p.id))
+    .eq('status', 'pending')
+  if (releaseError) throw releaseError
+}
+
+/**
+ * Whether `userId` (with `role`) can use the code now. The redemption limit is checked here for a
+ * friendly error; the database trigger enforces it again when the redemption is reserved.
+ * `ownPendingPaymentId` is a checkout of the user's being reused, whose redemption doesn't count
+ * as an earlier use.
+ */
+export async function checkPromoCode(
+  db: Db,
+  params: { code: string; userId: string; role: UserRole | null; now?: Date; ownPendingPaymentId?: string | null }
+): Promise<{ ok: true; promo: PromoCode } | { ok: false; reason: PromoRejection }> {
+  const now = params.now ?? new Date()
+  const { data: promo, error } = await db
+    .from('promo_codes')
+    .select('*')
+    .eq('code', normalizePromoCode(params.code))
+    .maybeSingle()
+  if (error) throw error
+  if (!promo) return { ok: false, reason: 'not_found' }
+  if (!promo.is_active) return { ok: false, reason: 'inactive' }
+  if (promo.starts_at && new Date(promo.starts_at) > now) return { ok: false, reason: 'not_started' }
+  if (promo.expires_at && new Date(promo.expires_at) <= now) return { ok: false, reason: 'expired' }
+  if (promo.audience && promo.audience !== params.role) return { ok: false, reason: 'wrong_audience' }
+  if (promo.first_subscription_only && !(await isFirstSubscription(db, params.userId))) {
+    return { ok: false, reason: 'first_subscription_only' }
+  }
+
+  await releaseFailedRedemptions(db, promo.id)
+
+  const { data: used, error: usedError } = await db
+    .from('promo_redemptions')
+    .select('payment_transaction_id, status')
+    .eq('promo_code_id', promo.id)
+    .eq('user_id', params.userId)
+    .neq('status', 'released')
+  if (usedError) throw usedError
+  const earlier = (used ?? []).filter((r) => r.payment_transaction_id !== params.ownPendingPaymentId)
+  if (earlier.some((r) => r.status === 'redeemed')) return { ok: false, reason: 'already_used' }
+  // Another checkout with this code can still be paid, so it keeps the user's slot
+  if (earlier.length) return { ok: false, reason: 'checkout_open' }
+
+  if (promo.max_redemptions != null) {
+    const { count, error: countError } = await db
+      .from('promo_redemptions')
+      .select('id', { count: 'exact', head: true })
+      .eq('promo_code_id', promo.id)
+      .neq('status', 'released')
+    if (countError) throw countError
+    // The checkout being reused already holds its slot
+    if ((count ?? 0) - (used?.length ?? 0) >= promo.max_redemptions) return { ok: false, reason: 'exhausted' }
+  }
+
+  return { ok: true, promo }
+}
+
+/** Records the redemption for a checkout. Limit and single use are enforced by the database. */
+export async function reservePromoRedemption(
+  db: Db,
+  params: {
+    promoCodeId: string
+    userId: string
+    paymentId: string
+    originalAmount: number
+    discountAmount: number
+    finalAmount: number
+  }
+): Promise<{ ok: true } | { ok: false; reason: PromoRejection }> {
+  const { error } = await db.from('promo_redemptions').insert({
+    promo_code_id: params.promoCodeId,
+    user_id: params.userId,
+    payment_transaction_id: params.paymentId,
+    original_amount: params.originalAmount,
+    discount_amount: params.discountAmount,
+    final_amount: params.finalAmount,
+  })
+  if (!error) return { ok: true }
+  if (error.code === '23505') {
+    // Same payment reserved already (a retried checkout) is fine; otherwise another payment holds the slot
+    const { data: existing, error: existingError } = await db
+      .from('promo_redemptions')
+      .select('payment_transaction_id, status')
+      .eq('promo_code_id', params.promoCodeId)
+      .eq('user_id', params.userId)
+      .neq('status', 'released')
+    if (existingError) throw existingError
+    if ((existing ?? []).some((r) => r.payment_transaction_id === params.paymentId)) return { ok: true }
+    return { ok: false, reason: (existing ?? []).some((r) => r.status === 'redeemed') ? 'already_used' : 'checkout_open' }
+  }
+  if (error.code === 'P0001' && error.hint === 'promo_code_exhausted') return { ok: false, reason: 'exhausted' }
+  throw error
+}
+
+/**
+ * Called when the discounted payment completes. Returns false when the payment had a redemption
+ * that was no longer pending (released after the payment failed, then paid anyway): the discount
+ * was given without a slot, so the caller flags the payment instead of redeeming past the limits.
+ */
+export async function markPromoRedeemed(db: Db, paymentId: string): Promise<boolean> {
+  const { data: redemption, error } = await db
+    .from('promo_redemptions')
+    .select('status')
+    .eq('payment_transaction_id', paymentId)
+    .maybeSingle()
+  if (error) throw error
+  if (!redemption || redemption.status === 'redeemed') return true
+  if (redemption.status !== 'pending') return false
+
+  const { data: redeemed, error: updateError } = await db
+    .from('promo_redemptions')
+    .update({ status: 'redeemed', redeemed_at: new Date().toISOString() })
+    .eq('payment_transaction_id', paymentId)
+    .eq('status', 'pending')
+    .select('id')
+  if (updateError) throw updateError
+  if (redeemed?.length) return true
+
+  // Released or redeemed meanwhile by a concurrent settlement
+  return markPromoRedeemed(db, paymentId)
+}
+
+/** Called when the discounted payment fails; the code becomes usable again. */
+export async function releasePromoRedemption(db: Db, paymentId: string) {
+  const { error } = await db
+    .from('promo_redemptions')
+    .update({ status: 'released', released_at: new Date().toISOString() })
+    .eq('payment_transaction_id', paymentId)
+    .eq('status', 'pending')
+  if (error) throw error
+}
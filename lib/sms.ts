@@ -0,0 +1,76 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, MessageLogStatus } from '@/types/database'
+import { logger } from '@/lib/logger'
+import {
+  getMessagingProvider,
+  statusCallbackUrl,
+  type DeliveryStatusUpdate,
+} from '@/lib/messaging/provider'
+
+type Db = SupabaseClient<Database>
+
+export type SendSmsResult =
+  | { ok: true; provider: string; externalId: string; status: MessageLogStatus }
+  | { ok: false; provider: string; message: string; errorCode: string | null; retryable: boolean }
+
+/**
+ * Send one SMS through the configured MessagingProvider (lib/messaging/provider.ts), asking it to
+ * report delivery to the status callback. Never throws. Senders go through sendMessage in
+ * lib/message-outbox.ts, which logs the message and retries failures.
+ */
+export async function sendSms(to: string, body: string): Promise<SendSmsResult> {
+  const provider = getMessagingProvider()
+  const result = await provider.sendSms({
+    to: to.trim(),
+    body: body.trim(),
+    statusCallbackUrl: statusCallbackUrl(provider.name),
+  })
+  return { ...result, provider: provider.name }
+}
+
+/** How far along a status is; callbacks only ever move a row to a later stage. */
+const STATUS_STAGE: Record<MessageLogStatus, number> = {
+  queued: 0,
+  sent: 1,
+  delivered: 2,
+  undelivered: 2,
+  failed: 2,
+}
+
+export type ApplyDeliveryStatusResult =
+  | { ok: true; updated: boolean }
+  | { ok: false; error: string }
+
+/**
+ * Records a delivery report on the message_logs row with the provider's message id. The update is
+ * conditional on the row still being at an earlier stage, so duplicate or out-of-order callbacks
+ * (e.g. `sent` arriving after `delivered`) are ignored and `updated` is false.
+ */
+export async function applyDeliveryStatus(
+  db: Db,
+  provider: string,
+  update: DeliveryStatusUpdate
+): Promise<ApplyDeliveryStatusResult> {
+  const earlier = (Object.keys(STATUS_STAGE) as MessageLogStatus[]).filter(
+    (s) => STATUS_STAGE[s] < STATUS_STAGE[update.status]
+  )
+  if (earlier.length === 0) return { ok: true, updated: false }
+
+  const { data, error } = await db
+    .from('message_logs')
+    .update({
+      status: update.status,
+      status_updated_at: new Date().toISOString(),
+      error_code: update.errorCode,
+      error_message: update.errorMessage,
+    })
+    .eq('provider', provider)
+    .eq('external_id', update.externalId)
+    .in('status', earlier)
+    .select('id')
+  if (error) {
+    logger.error('applyDeliveryStatus failed', { error, provider, externalId: update.externalId })
+    return { ok: false, error: 'Failed to record delivery status.' }
+  }
+  return { ok: true, updated: (data ?? []).length > 0 }
+}
@@ -0,0 +1,78 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, SubscriptionAudience, UserRole } from '@/types/database'
+
+/**
+ * Subscription plan catalog (see `supabase/migrations/20260509120000_subscription_plans.sql` header).
+ *
+ * Checkout only takes a plan code; the price comes from `subscription_plans`, and the term granted when
+ * the payment completes is derived from the same row. `trial_days` are added once, to a user's first
+ * subscription.
+ */
+export type SubscriptionPlan = Database['public']['Tables']['subscription_plans']['Row']
+
+type Db = SupabaseClient<Database>
+
+/** Term for payment transactions created before the catalog (no `plan_code`). */
+export const LEGACY_TERM_DAYS = 30
+export const LEGACY_PLAN_TYPE = 'monthly'
+
+const PLAN_COLUMNS =
+  'code, audience, label, description, price, currency, term_days, trial_days, is_active, sort_order, created_at, updated_at'
+
+export async function getSubscriptionPlan(db: Db, code: string) {
+  const { data, error } = await db
+    .from('subscription_plans')
+    .select(PLAN_COLUMNS)
+    .eq('code', code)
+    .maybeSingle()
+  if (error) {
+    return { data: null as SubscriptionPlan | null, error }
+  }
+  return { data: data as SubscriptionPlan | null, error: null as null }
+}
+
+/** Active plans for one app, in display order. */
+export async function listActiveSubscriptionPlans(db: Db, audience: SubscriptionAudience) {
+  const { data, error } = await db
+    .from('subscription_plans')
+    .select(PLAN_COLUMNS)
+    .eq('audience', audience)
+    .eq('is_active', true)
+    .order('sort_order', { ascending: true })
+    .order('price', { ascending: true })
+  if (error) {
+    return { data: [] as SubscriptionPlan[], error }
+  }
+  return { data: (data ?? []) as SubscriptionPlan[], error: null as null }
+}
+
+export function planMatchesRole(plan: Pick<SubscriptionPlan, 'audience'>, role: UserRole | null): boolean {
+  return plan.audience === role
+}
+
+/** True when the user has never had a subscription row (trial days apply). */
+export async function isFirstSubscription(db: Db, userId: string): Promise<boolean> {
+  const { count, error } = await db
+    .from('subscriptions')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+  if (error) {
+    throw error
+  }
+  return (count ?? 0) === 0
+}
+
+/**
+ * Subscription window for a completed payment: `term_days` from `start`, plus `trial_days` on a first
+ * subscription. A null plan is a legacy transaction and gets the old 30-day term.
+ */
+export function subscriptionWindow(
+  start: Date,
+  plan: Pick<SubscriptionPlan, 'term_days' | 'trial_days'> | null,
+  options: { firstSubscription: boolean }
+): { startDate: Date; endDate: Date; trialDays: number } {
+  const trialDays = plan && options.firstSubscription ? plan.trial_days : 0
+  const endDate = new Date(start)
+  endDate.setDate(endDate.getDate() + (plan?.term_days ?? LEGACY_TERM_DAYS) + trialDays)
+  return { startDate: new Date(start), endDate, trialDays }
+}
@@ -0,0 +1,309 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Json, MessageChannel, SubscriptionAudience } from '@/types/database'
+import { formatGuyana } from '@/lib/guyana-time'
+import { logger } from '@/lib/logger'
+import { acceptedForDelivery, sendMessage } from '@/lib/message-outbox'
+import {
+  renderForUser,
+  renderResolved,
+  resolveTemplate,
+  type TemplateVariables,
+} from '@/lib/notification-templates'
+
+/**
+ * Renewal reminders, grace period and expiry for driver/rider subscriptions (see
+ * `supabase/migrations/20260512120000_subscription_renewals.sql` header). Run on a schedule by
+ * GET /api/cron/subscription-renewals.
+ */
+
+type Db = SupabaseClient<Database>
+
+export const RENEWAL_CONFIG_KEY = 'subscription_renewals'
+
+export type RenewalChannel = 'push' | 'sms'
+
+export type RenewalConfig = {
+  /** Days before subscription_end_date to remind, e.g. [7, 3, 1]. */
+  reminderDays: number[]
+  /** Days after subscription_end_date before the subscription is expired. */
+  graceDays: number
+  channels: RenewalChannel[]
+}
+
+export const DEFAULT_RENEWAL_CONFIG: RenewalConfig = {
+  reminderDays: [7, 3, 1],
+  graceDays: 3,
+  channels: ['push', 'sms'],
+}
+
+const DAY_MS = 86_400_000
+
+/** Reads the system_config value, falling back to the defaults field by field. */
+export function parseRenewalConfig(value: unknown): RenewalConfig {
+  const raw = value && typeof value === 'object' ? (value as Record<string, unknown>) : {}
+  const reminderDays = Array.isArray(raw.reminder_days)
+    ? Array.from(
+        new Set(raw.reminder_days.filter((d): d is number => Number.isInteger(d) && d > 0 && d <= 60))
+      ).sort((a, b) => b - a)
+    : DEFAULT_RENEWAL_CONFIG.reminderDays
+  const graceDays =
+    Number.isInteger(raw.grace_days) && (raw.grace_days as number) >= 0 && (raw.grace_days as number) <= 60
+      ? (raw.grace_days as number)
+      : DEFAULT_RENEWAL_CONFIG.graceDays
+  const channels = Array.isArray(raw.channels)
+    ? raw.channels.filter((c): c is RenewalChannel => c === 'push' || c === 'sms')
+    : DEFAULT_RENEWAL_CONFIG.channels
+  return { reminderDays, graceDays, channels }
+}
+
+export function renewalConfigToJson(config: RenewalConfig): Json {
+  return { reminder_days: config.reminderDays, grace_days: config.graceDays, channels: config.channels }
+}
+
+export async function loadRenewalConfig(db: Db): Promise<RenewalConfig> {
+  const { data, error } = await db.from('system_config').select('value').eq('key', RENEWAL_CONFIG_KEY).maybeSingle()
+  if (error) throw error
+  return parseRenewalConfig(data?.value)
+}
+
+export type RenewalStep =
+  | { kind: 'reminder'; daysBefore: number }
+  | { kind: 'grace'; graceEndsAt: Date }
+  | { kind: 'expired' }
+
+/**
+ * What is due for a subscription ending at `endDate`. Before the end it is the closest reminder
+ * offset already reached (a profile first seen 2 days out gets the 3-day reminder, not 7 and 3);
+ * after it, the grace notice until the grace period is over, then expiry.
+ */
+export function renewalStep(endDate: Date, now: Date, config: RenewalConfig): RenewalStep | null {
+  const msLeft = endDate.getTime() - now.getTime()
+  if (msLeft > 0) {
+    const reached = config.reminderDays.filter((d) => msLeft <= d * DAY_MS)
+    return reached.length ? { kind: 'reminder', daysBefore: Math.min(...reached) } : null
+  }
+  const graceEndsAt = new Date(endDate.getTime() + config.graceDays * DAY_MS)
+  return now < graceEndsAt ? { kind: 'grace', graceEndsAt } : { kind: 'expired' }
+}
+
+/** The notification template for a renewal step, with its variables. */
+function renewalTemplate(
+  step: RenewalStep,
+  role: SubscriptionAudience,
+  endDate: Date
+): { key: string; variables: TemplateVariables } {
+  const variables: TemplateVariables = { end_date: formatGuyana(endDate, 'MMM d') }
+  switch (step.kind) {
+    case 'reminder':
+      variables.days_left = String(step.daysBefore)
+      variables.ends_in = step.daysBefore === 1 ? 'tomorrow' : `in ${step.daysBefore} days`
+      break
+    case 'grace':
+      variables.grace_ends_at = formatGuyana(step.graceEndsAt, 'MMM d, h:mm a')
+      break
+  }
+  return { key: `subscription_${step.kind}_${role}`, variables }
+}
+
+export type RenewalRunSummary = {
+  checked: number
+  reminded: number
+  graceNotices: number
+  expired: number
+  /** Notices where no channel delivered. */
+  undelivered: number
+  errors: number
+}
+
+type DueProfile = { user_id: string; subscription_end_date: string }
+
+/** Renders in the user's locale; the English default if the user row can't be read. */
+async function renderRenewal(
+  db: Db,
+  template: { key: string; variables: TemplateVariables },
+  channel: MessageChannel,
+  userId: string
+): Promise<{ title: string; body: string }> {
+  try {
+    const rendered = await renderForUser(db, template.key, channel, userId, template.variables)
+    if (rendered) return rendered
+  } catch (error) {
+    logger.error('Failed to render renewal notice, using the default text', { error, key: template.key, userId })
+  }
+  return renderResolved(resolveTemplate(template.key, [], 'en', channel)!, channel, template.variables)
+}
+
+/** Sends the notice on each configured channel and logs every attempt in message_logs. Returns the channels that delivered. */
+async function notify(
+  db: Db,
+  profile: DueProfile,
+  role: SubscriptionAudience,
+  phone: string | null,
+  step: RenewalStep,
+  channels: RenewalChannel[]
+): Promise<RenewalChannel[]> {
+  const template = renewalTemplate(step, role, new Date(profile.subscription_end_date))
+  const metadata = {
+    kind: step.kind,
+    days_before: step.kind === 'reminder' ? step.daysBefore : null,
+    subscription_end_date: profile.subscription_end_date,
+  }
+  const delivered: RenewalChannel[] = []
+
+  // Queued messages (provider temporarily down, rate limit) count as delivered: the outbox retries them
+  if (channels.includes('push')) {
+    const { title, body } = await renderRenewal(db, template, 'push', profile.user_id)
+    const push = await sendMessage(db, {
+      channel: 'push',
+      targets: [{ projectType: role, userIds: [profile.user_id] }],
+      title,
+      body,
+      data: {
+        type: 'subscription_renewal',
+        kind: step.kind,
+        subscription_end_date: profile.subscription_end_date,
+      },
+      log: { recipientUserId: profile.user_id, notificationType: 'subscription_renewal', audience: role, metadata },
+    })
+    if (push.ok && acceptedForDelivery(push.attempt)) delivered.push('push')
+  }
+
+  if (channels.includes('sms') && phone) {
+    const { body } = await renderRenewal(db, template, 'sms', profile.user_id)
+    const sms = await sendMessage(db, {
+      channel: 'sms',
+      to: phone,
+      body,
+      log: { recipientUserId: profile.user_id, notificationType: 'subscription_renewal', audience: role, metadata },
+    })
+    if (sms.ok && acceptedForDelivery(sms.attempt)) delivered.push('sms')
+  }
+
+  return delivered
+}
+
+/**
+ * Expires a profile whose grace period is over, unless it was renewed meanwhile (end date moved).
+ * Drivers are taken offline; the subscriptions that ran out are marked expired too.
+ */
+async function expireProfile(db: Db, profile: DueProfile, role: SubscriptionAudience, now: Date): Promise<boolean> {
+  const nowIso = now.toISOString()
+  const { data, error } =
+    role === 'driver'
+      ? await db
+          .from('driver_profiles')
+          .update({ subscription_status: 'expired', is_online: false, is_available: false, updated_at: nowIso })
+          .eq('user_id', profile.user_id)
+          .eq('subscription_end_date', profile.subscription_end_date)
+          .in('subscription_status', ['active', 'trial'])
+          .select('user_id')
+      : await db
+          .from('rider_profiles')
+          .update({ subscription_status: 'expired', updated_at: nowIso })
+          .eq('user_id', profile.user_id)
+          .eq('subscription_end_date', profile.subscription_end_date)
+          .in('subscription_status', ['active', 'trial'])
+          .select('user_id')
+  if (error) throw error
+  if (!data?.length) return false
+
+  const { error: subscriptionError } = await db
+    .from('subscriptions')
+    .update({ status: 'expired' })
+    .eq('user_id', profile.user_id)
+    .eq('user_role', role)
+    .eq('status', 'active')
+    .lte('end_date', nowIso)
+  if (subscriptionError) throw subscriptionError
+  return true
+}
+
+/**
+ * One pass over all active/trial driver and rider subscriptions: reminders before the end date,
+ * a grace notice after it, expiry once the grace period is over. Each notice goes out at most once
+ * per profile and end date (subscription_reminders).
+ */
+export async function runSubscriptionRenewals(db: Db, now = new Date()): Promise<RenewalRunSummary> {
+  const config = await loadRenewalConfig(db)
+  const summary: RenewalRunSummary = { checked: 0, reminded: 0, graceNotices: 0, expired: 0, undelivered: 0, errors: 0 }
+  const horizon = new Date(now.getTime() + Math.max(0, ...config.reminderDays) * DAY_MS).toISOString()
+
+  for (const role of ['driver', 'rider'] as const) {
+    const { data: profiles, error } = await db
+      .from(role === 'driver' ? 'driver_profiles' : 'rider_profiles')
+      .select('user_id, subscription_end_date')
+      .in('subscription_status', ['active', 'trial'])
+      .not('subscription_end_date', 'is', null)
+      .lte('subscription_end_date', horizon)
+      .order('subscription_end_date', { ascending: true })
+      .limit(1000)
+    if (error) throw error
+
+    // Drivers billed by commission don't need a subscription; leave theirs alone
+    const commissionUserIds = new Set<string>()
+    if (role === 'driver') {
+      const { data: commissionDrivers, error: commissionError } = await db
+        .from('driver_profiles')
+        .select('user_id')
+        .eq('billing_mode', 'commission')
+      if (commissionError) throw commissionError
+      for (const d of commissionDrivers ?? []) if (d.user_id) commissionUserIds.add(d.user_id)
+    }
+
+    const due = (profiles ?? []).filter(
+      (p): p is DueProfile => !!p.subscription_end_date && !(p.user_id && commissionUserIds.has(p.user_id))
+    )
+    summary.checked += due.length
+    if (!due.length) continue
+
+    const phones = new Map<string, string>()
+    for (let i = 0; i < due.length; i += 200) {
+      const { data: users, error: usersError } = await db
+        .from('users')
+        .select('id, phone_number')
+        .in('id', due.slice(i, i + 200).map((p) => p.user_id))
+      if (usersError) throw usersError
+      for (const u of users ?? []) if (u.phone_number) phones.set(u.id, u.phone_number)
+    }
+
+    for (const profile of due) {
+      const step = renewalStep(new Date(profile.subscription_end_date), now, config)
+      if (!step) continue
+      try {
+        if (step.kind === 'expired' && !(await expireProfile(db, profile, role, now))) continue
+
+        // Claim the notice first so overlapping runs never send it twice.
+        const { data: claimed, error: claimError } = await db
+          .from('subscription_reminders')
+          .insert({
+            user_id: profile.user_id,
+            role,
+            subscription_end_date: profile.subscription_end_date,
+            kind: step.kind,
+            days_before: step.kind === 'reminder' ? step.daysBefore : null,
+          })
+          .select('id')
+          .single()
+        if (claimError?.code === '23505') {
+          if (step.kind === 'expired') summary.expired++
+          continue
+        }
+        if (claimError || !claimed) throw claimError ?? new Error('Reminder insert returned no row')
+
+        const delivered = await notify(db, profile, role, phones.get(profile.user_id) ?? null, step, config.channels)
+        await db.from('subscription_reminders').update({ channels: delivered }).eq('id', claimed.id)
+
+        if (step.kind === 'reminder') summary.reminded++
+        else if (step.kind === 'grace') summary.graceNotices++
+        else summary.expired++
+        if (config.channels.length && !delivered.length) summary.undelivered++
+      } catch (err) {
+        summary.errors++
+        logger.error('Subscription renewal step failed', { error: err, userId: profile.user_id, role, step: step.kind })
+      }
+    }
+  }
+
+  logger.info('Subscription renewals finished', summary)
+  return summary
+}
@@ -0,0 +1,81 @@
+import { ConflictError } from '@/lib/errors'
+import type { TripStatus } from '@/types/database'
+
+/**
+ * Trip lifecycle: requested → accepted → arrived → picked_up → completed, with cancellation
+ * allowed at different stages. These are the rules `PATCH /api/trips/[id]/status` enforces for the
+ * trip's driver through `assertTripTransition`. Other status changes (accepting a request in
+ * `accept_trip_request`, changes made outside this app) don't come through this module; whatever
+ * the path, the change is recorded in `trip_status_history`. A new path that changes trip status
+ * adds its actor and rules here and calls `assertTripTransition`.
+ */
+
+export type TripActor = 'driver'
+
+export const TRIP_STATUS_ORDER: readonly TripStatus[] = [
+  'requested',
+  'accepted',
+  'arrived',
+  'picked_up',
+  'completed',
+  'cancelled',
+]
+
+/** Who may move a trip from one status (key) to the next. Missing = illegal. */
+const TRANSITIONS: Record<TripStatus, Partial<Record<TripStatus, readonly TripActor[]>>> = {
+  requested: {
+    accepted: ['driver'],
+  },
+  accepted: {
+    arrived: ['driver'],
+    cancelled: ['driver'],
+  },
+  arrived: {
+    picked_up: ['driver'],
+    // A rider who doesn't show up is cancelled by the waiting driver.
+    cancelled: ['driver'],
+  },
+  picked_up: {
+    // Once the rider is on board the driver can only complete the trip.
+    completed: ['driver'],
+  },
+  completed: {},
+  cancelled: {},
+}
+
+export function isTerminalTripStatus(status: TripStatus): boolean {
+  return Object.keys(TRANSITIONS[status]).length === 0
+}
+
+export function canTransitionTrip(from: TripStatus, to: TripStatus, actor: TripActor): boolean {
+  return TRANSITIONS[from]?.[to]?.includes(actor) ?? false
+}
+
+/** Statuses `actor` may move a trip in `from` to, in lifecycle order. */
+export function allowedTripTransitions(from: TripStatus, actor: TripActor): TripStatus[] {
+  return TRIP_STATUS_ORDER.filter((to) => canTransitionTrip(from, to, actor))
+}
+
+/** Throws `ConflictError` (409) unless `actor` may move the trip from `from` to `to`. */
+export function assertTripTransition(from: TripStatus, to: TripStatus, actor: TripActor): void {
+  if (canTransitionTrip(from, to, actor)) return
+
+  if (from === to) {
+    throw new ConflictError(`Trip is already ${from.replace('_', ' ')}.`, 'TRIP_STATUS_UNCHANGED')
+  }
+  if (isTerminalTripStatus(from)) {
+    throw new ConflictError(`Trip is ${from} and can no longer change.`, 'TRIP_STATUS_FINAL')
+  }
+  if (TRANSITIONS[from]?.[to]) {
+    throw new ConflictError(
+      `A ${actor} cannot change a ${from.replace('_', ' ')} trip to ${to.replace('_', ' ')}.`,
+      'TRIP_TRANSITION_NOT_ALLOWED'
+    )
+  }
+  const next = allowedTripTransitions(from, actor)
+  throw new ConflictError(
+    `Cannot change a ${from.replace('_', ' ')} trip to ${to.replace('_', ' ')}` +
+      (next.length ? ` (allowed: ${next.join(', ')}).` : '.'),
+    'INVALID_TRIP_TRANSITION'
+  )
+}
@@ -70,12 +70,21 @@ export const tripRequestSchema = z.object({
   estimated_distance_km: z.number().positive().optional(),
   estimated_duration_minutes: z.number().int().positive().optional(),
   estimated_fare: z.number().nonnegative().optional(),
+  fare_estimate_id: z.string().uuid('fare_estimate_id must be a UUID').optional(),
   notes: z.string().max(1000, 'Notes must be less than 1000 characters').optional(),
   passenger_count: z.number().int().positive().min(1).max(10).optional(),
 })
 
 export type TripRequest = z.infer<typeof tripRequestSchema>
 
+/**
+ * Notification category (lib/notification-preferences.ts). Recipients who turned it off, or are in
+ * quiet hours, are skipped; safety always goes out.
+ */
+const notificationCategorySchema = z.enum(['trip_updates', 'account', 'marketing', 'safety'], {
+  invalid_type_error: 'category must be trip_updates, account, marketing or safety',
+})
+
 /**
  * FCM direct-send notification request (device token + payload)
  */
@@ -89,12 +98,25 @@ export const notificationSchema = z.object({
     .string()
     .min(1, 'Body is required')
     .max(500, 'Body must be less than 500 characters'),
+  category: notificationCategorySchema.optional(),
   data: z.record(z.string()).optional(),
   notification_type: z.string().optional(),
 })
 
 export type FcmNotificationRequest = z.infer<typeof notificationSchema>
 
+/**
+ * Notification template key (lib/notification-templates.ts); admin push sends take one instead of
+ * free-form title and body.
+ */
+const templateKeySchema = z
+  .string()
+  .regex(/^[a-z][a-z0-9_]{1,63}$/, 'template_key must be lowercase letters, digits and underscores')
+
+function hasTemplateOrText(value: { template_key?: string; title?: string; body?: string }): boolean {
+  return Boolean(value.template_key) || (Boolean(value.title) && Boolean(value.body))
+}
+
 /**
  * Broadcast push to all users of a role (drivers or riders with FCM tokens)
  */
@@ -106,13 +128,20 @@ export const broadcastNotificationSchema = z.object({
   title: z
     .string()
     .min(1, 'Title is required')
-    .max(100, 'Title must be less than 100 characters'),
+    .max(100, 'Title must be less than 100 characters')
+    .optional(),
   body: z
     .string()
     .min(1, 'Body is required')
-    .max(500, 'Body must be less than 500 characters'),
+    .max(500, 'Body must be less than 500 characters')
+    .optional(),
+  template_key: templateKeySchema.optional(),
+  category: notificationCategorySchema.optional(),
   data: z.record(z.string()).optional(),
   notification_type: z.string().optional(),
+}).refine(hasTemplateOrText, {
+  message: 'Send either template_key, or title and body',
+  path: ['title'],
 })
 
 export type BroadcastNotificationRequest = z.infer<
@@ -130,13 +159,20 @@ export const targetedDriverNotificationSchema = z.object({
   title: z
     .string()
     .min(1, 'Title is required')
-    .max(100, 'Title must be less than 100 characters'),
+    .max(100, 'Title must be less than 100 characters')
+    .optional(),
   body: z
     .string()
     .min(1, 'Body is required')
-    .max(500, 'Body must be less than 500 characters'),
+    .max(500, 'Body must be less than 500 characters')
+    .optional(),
+  template_key: templateKeySchema.optional(),
+  category: notificationCategorySchema.optional(),
   data: z.record(z.string()).optional(),
   notification_type: z.string().optional(),
+}).refine(hasTemplateOrText, {
+  message: 'Send either template_key, or title and body',
+  path: ['title'],
 })
 
 export type TargetedDriverNotificationRequest = z.infer<
@@ -154,13 +190,20 @@ export const targetedRiderNotificationSchema = z.object({
   title: z
     .string()
     .min(1, 'Title is required')
-    .max(100, 'Title must be less than 100 characters'),
+    .max(100, 'Title must be less than 100 characters')
+    .optional(),
   body: z
     .string()
     .min(1, 'Body is required')
-    .max(500, 'Body must be less than 500 characters'),
+    .max(500, 'Body must be less than 500 characters')
+    .optional(),
+  template_key: templateKeySchema.optional(),
+  category: notificationCategorySchema.optional(),
   data: z.record(z.string()).optional(),
   notification_type: z.string().optional(),
+}).refine(hasTemplateOrText, {
+  message: 'Send either template_key, or title and body',
+  path: ['title'],
 })
 
 export type TargetedRiderNotificationRequest = z.infer<
@@ -270,6 +313,29 @@ export const agreementAcceptBodySchema = z.object({
     .optional(),
 })
 
+const quietHoursTimeSchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'quiet hours must be HH:MM (24-hour, Guyana time)')
+
+/**
+ * PUT /api/notifications/preferences. Omitted fields keep their value; `quiet_hours: null` turns
+ * quiet hours off. Safety notifications can't be turned off.
+ */
+export const notificationPreferencesSchema = z
+  .object({
+    trip_updates: z.boolean().optional(),
+    account: z.boolean().optional(),
+    marketing: z.boolean().optional(),
+    quiet_hours: z
+      .object({ start: quietHoursTimeSchema, end: quietHoursTimeSchema })
+      .refine((q) => q.start !== q.end, { message: 'quiet hours start and end must differ', path: ['end'] })
+      .nullable()
+      .optional(),
+  })
+  .strict()
+
+export type NotificationPreferencesRequest = z.infer<typeof notificationPreferencesSchema>
+
 /**
  * Validates data against a Zod schema and throws ValidationError if invalid
  */
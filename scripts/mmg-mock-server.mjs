@@ -0,0 +1,109 @@
+#!/usr/bin/env node
+/**
+ * Local stand-in for the MMG e-commerce API (login, transaction lookup, refund), for exercising
+ * confirm-payment, payment reconciliation and admin refunds without MMG.
+ *
+ *   node scripts/mmg-mock-server.mjs [fixtures.json]
+ *   MMG_ECOMMERCE_URL=http://localhost:4010 npm run dev
+ *
+ * fixtures.json maps MMG transaction ids to lookup fields, e.g.
+ *   { "20373204135924": { "amount": "5000", "transactionStatus": "Successful" } }
+ * Transactions can also be set while running:
+ *   curl -X PUT localhost:4010/__mock/transactions/123 -d '{"amount":"5000","transactionStatus":"Failed"}'
+ * Unknown ids return 404, like MMG. Refunds of a known transaction succeed unless its fixture has
+ * "refundStatus" set (e.g. "Failed"); refunded amounts accumulate in "refunded".
+ */
+import { createServer } from 'node:http'
+import { readFileSync } from 'node:fs'
+
+const port = Number(process.env.MMG_MOCK_PORT || 4010)
+const transactions = new Map(
+  Object.entries(process.argv[2] ? JSON.parse(readFileSync(process.argv[2], 'utf8')) : {})
+)
+
+function lookupResult(id, fields) {
+  const now = new Date().toISOString()
+  return {
+    amount: '0',
+    currency: 'GYD',
+    descriptionText: null,
+    requestDate: now,
+    debitParty: [],
+    creditParty: [],
+    metadata: [],
+    transactionStatus: 'Successful',
+    creationDate: now,
+    transactionReference: `MOCK-${id}`,
+    transactionReceipt: `MOCK-RCPT-${id}`,
+    executionId: `mock-${id}`,
+    ...fields,
+  }
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+async function readBody(req) {
+  let body = ''
+  for await (const chunk of req) body += chunk
+  return body
+}
+
+createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${port}`)
+  console.log(`${req.method} ${url.pathname}${url.search}`)
+
+  if (req.method === 'POST' && url.pathname === '/olive/publisher/v1/e-commerce-login/mer') {
+    return send(res, 200, { token_type: 'bearer', refresh_token: null, expires_in: 3600, access_token: 'mock-token' })
+  }
+
+  if (req.method === 'GET' && url.pathname === '/olive/publisher/v1/e-merchant-initiated-transactions/lookup') {
+    if (req.headers['x-wss-token'] !== 'mock-token') return send(res, 401, { error: 'invalid token' })
+    const id = url.searchParams.get('transactionId') ?? ''
+    const fields = transactions.get(id)
+    if (!fields) return send(res, 404, { error: `transaction ${id} not found` })
+    return send(res, 200, lookupResult(id, fields))
+  }
+
+  if (req.method === 'POST' && url.pathname === '/olive/publisher/v1/e-merchant-initiated-transactions/refund') {
+    if (req.headers['x-wss-token'] !== 'mock-token') return send(res, 401, { error: 'invalid token' })
+    let body
+    try {
+      body = JSON.parse((await readBody(req)) || '{}')
+    } catch {
+      return send(res, 400, { error: 'body must be JSON' })
+    }
+    const id = String(body.originalTransactionId ?? '')
+    const fields = transactions.get(id)
+    if (!fields) return send(res, 404, { error: `transaction ${id} not found` })
+    if (fields.refundStatus && fields.refundStatus !== 'Successful') {
+      return send(res, 422, { error: `refund ${fields.refundStatus}` })
+    }
+    transactions.set(id, { ...fields, refunded: (Number(fields.refunded) || 0) + Number(body.amount) })
+    return send(res, 200, {
+      transactionStatus: 'Successful',
+      transactionId: `refund-${Date.now()}`,
+      transactionReference: `MOCK-REFUND-${body.merchantTransactionId}`,
+      amount: body.amount,
+    })
+  }
+
+  const mockMatch = url.pathname.match(/^\/__mock\/transactions\/([^/]+)$/)
+  if (mockMatch && (req.method === 'PUT' || req.method === 'POST')) {
+    try {
+      transactions.set(decodeURIComponent(mockMatch[1]), JSON.parse((await readBody(req)) || '{}'))
+    } catch {
+      return send(res, 400, { error: 'body must be JSON' })
+    }
+    return send(res, 200, { ok: true })
+  }
+  if (req.method === 'GET' && url.pathname === '/__mock/transactions') {
+    return send(res, 200, Object.fromEntries(transactions))
+  }
+
+  send(res, 404, { error: 'not found' })
+}).listen(port, () => {
+  console.log(`MMG mock listening on http://localhost:${port} (${transactions.size} transactions loaded)`)
+})
@@ -0,0 +1,18 @@
+// Shared by the edge functions and the Next app (lib/guyana-time.ts re-exports it), so it must stay
+// runtime-neutral: no imports, no Deno or Node globals.
+
+/** Guyana is UTC−4 all year (no DST). */
+const GUYANA_UTC_OFFSET_MS = -4 * 60 * 60 * 1000;
+
+/**
+ * Guyana wall clock for fare surcharges: local calendar date (yyyy-MM-dd), ISO weekday
+ * (1 = Monday … 7 = Sunday) and minutes since local midnight.
+ */
+export function guyanaWallClock(date: Date): { date: string; isoWeekday: number; minutes: number } {
+  const local = new Date(date.getTime() + GUYANA_UTC_OFFSET_MS);
+  return {
+    date: local.toISOString().slice(0, 10),
+    isoWeekday: local.getUTCDay() || 7,
+    minutes: local.getUTCHours() * 60 + local.getUTCMinutes(),
+  };
+}
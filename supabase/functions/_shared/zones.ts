@@ -0,0 +1,123 @@
+// Zone classification for cost estimates. Shared by the edge function (priceTrip.ts, zonesDb.ts)
+// and the Next app (zone editor, landmark import, campaign segments), so it must stay
+// runtime-neutral: no imports, no Deno or Node globals.
+
+// ── Zone classification from coordinates (legacy bounding boxes; fallback for undrawn zones) ──
+export function classifyZoneFromCoords(lat: number, lng: number): string {
+  if (Math.abs(lat - 6.4986) < 0.05 && Math.abs(lng + 58.2541) < 0.05) return "AIRPORT";
+  if (lng > -57.9) return "BERBICE";
+  if (lng < -58.45 && lat > 6.9) return "ESSEQUIBO";
+  if (lat < 5.5) return "INTERIOR";
+  if (lat < 6.55) return "LINDEN";
+  if (lat >= 6.795 && lat <= 6.828 && lng >= -58.17 && lng <= -58.13) return "CENTRAL";
+  if (lng < -58.185) return lat >= 6.78 ? "WEST_COAST" : "WEST_BANK";
+  if (lat < 6.795) return "EAST_BANK";
+  return "EAST_COAST";
+}
+
+// ── Zone classification from `cost_estimate_zones.boundary` polygons ──
+
+/** GeoJSON geometry; positions are `[lng, lat]` and rings are closed (first = last). */
+export type ZoneGeometry =
+  | { type: "Polygon"; coordinates: number[][][] }
+  | { type: "MultiPolygon"; coordinates: number[][][][] };
+
+export type ZoneBoundary = { code: string; sortOrder: number; geometry: ZoneGeometry };
+
+function isRing(value: unknown): value is number[][] {
+  return Array.isArray(value) && value.length >= 4 && value.every((p) =>
+    Array.isArray(p) && p.length >= 2 && Number.isFinite(p[0]) && Number.isFinite(p[1])
+  );
+}
+
+function isPolygonCoords(value: unknown): value is number[][][] {
+  return Array.isArray(value) && value.length >= 1 && value.every(isRing);
+}
+
+export function isZoneGeometry(value: unknown): value is ZoneGeometry {
+  if (!value || typeof value !== "object") return false;
+  const { type, coordinates } = value as { type?: unknown; coordinates?: unknown };
+  if (type === "Polygon") return isPolygonCoords(coordinates);
+  if (type === "MultiPolygon") {
+    return Array.isArray(coordinates) && coordinates.length >= 1 && coordinates.every(isPolygonCoords);
+  }
+  return false;
+}
+
+/** Zones without a valid `boundary` are skipped (they keep the legacy box classification). */
+export function zoneBoundariesFromRows(
+  rows: Array<{ code: string; sort_order: number; boundary: unknown }>,
+): ZoneBoundary[] {
+  return rows
+    .filter((row) => isZoneGeometry(row.boundary))
+    .map((row) => ({ code: row.code, sortOrder: row.sort_order, geometry: row.boundary as ZoneGeometry }))
+    .sort((a, b) => a.sortOrder - b.sortOrder || a.code.localeCompare(b.code));
+}
+
+function polygonsOf(geometry: ZoneGeometry): number[][][][] {
+  return geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+}
+
+/** Even-odd ray cast; points exactly on an edge may land on either side. */
+function ringContains(ring: number[][], lng: number, lat: number): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function geometryContains(geometry: ZoneGeometry, lng: number, lat: number): boolean {
+  return polygonsOf(geometry).some(([outer, ...holes]) =>
+    ringContains(outer, lng, lat) && !holes.some((hole) => ringContains(hole, lng, lat))
+  );
+}
+
+/** Approximate km from the point to the nearest polygon edge (equirectangular; fine at zone scale). */
+function distanceToGeometryKm(geometry: ZoneGeometry, lng: number, lat: number): number {
+  const kmPerDegLat = 110.574;
+  const kmPerDegLng = 111.32 * Math.cos((lat * Math.PI) / 180);
+  let best = Infinity;
+  for (const polygon of polygonsOf(geometry)) {
+    for (const ring of polygon) {
+      for (let i = 1; i < ring.length; i++) {
+        const ax = (ring[i - 1][0] - lng) * kmPerDegLng, ay = (ring[i - 1][1] - lat) * kmPerDegLat;
+        const bx = (ring[i][0] - lng) * kmPerDegLng, by = (ring[i][1] - lat) * kmPerDegLat;
+        const dx = bx - ax, dy = by - ay;
+        const lengthSq = dx * dx + dy * dy;
+        const t = lengthSq > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq)) : 0;
+        best = Math.min(best, Math.hypot(ax + t * dx, ay + t * dy));
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Point-in-polygon zone lookup. `boundaries` must be ordered by sort order (see
+ * `zoneBoundariesFromRows`) so overlapping polygons resolve the same way every time.
+ * Outside every polygon: the legacy box zone if that zone has no polygon drawn yet,
+ * otherwise the nearest polygon (ties → sort order).
+ */
+export function classifyZone(lat: number, lng: number, boundaries: ZoneBoundary[]): string {
+  const containing = boundaries.find((b) => geometryContains(b.geometry, lng, lat));
+  if (containing) return containing.code;
+
+  const legacy = classifyZoneFromCoords(lat, lng);
+  if (!boundaries.some((b) => b.code === legacy)) return legacy;
+
+  let nearest = boundaries[0];
+  let nearestKm = Infinity;
+  for (const boundary of boundaries) {
+    const d = distanceToGeometryKm(boundary.geometry, lng, lat);
+    if (d < nearestKm) {
+      nearest = boundary;
+      nearestKm = d;
+    }
+  }
+  return nearest.code;
+}
@@ -0,0 +1,65 @@
+import { createServiceClient } from "./supabaseClient.ts";
+import type { ResolvedLocation } from "./parseTrip.ts";
+
+/** The parts of a `priceTrip` result the audit log keeps; unresolved trips lack zones/distance. */
+type LoggedQuote = {
+  pickup: ResolvedLocation;
+  stops: ResolvedLocation[];
+  dropoff: ResolvedLocation;
+  pickupZone?: string;
+  dropoffZone?: string;
+  distanceKm?: number | null;
+  fare: {
+    status: string;
+    total: number | null;
+    message: string | null;
+    breakdown?: string | null;
+    branch?: string | null;
+    ruleSetVersion?: string;
+  };
+};
+
+/**
+ * Persist one estimate to fare_estimate_logs and return its id. Fails soft: a logging problem is
+ * reported and yields null rather than losing the rider's quote.
+ */
+export async function recordFareEstimate(
+  input: { pickup: { lat: number; lng: number }; dropoff: string; stops: string[]; pickupAt?: Date },
+  quote: LoggedQuote,
+): Promise<string | null> {
+  try {
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .from("fare_estimate_logs")
+      .insert({
+        pickup_latitude: input.pickup.lat,
+        pickup_longitude: input.pickup.lng,
+        pickup_address: quote.pickup.address,
+        input_dropoff: input.dropoff,
+        input_stops: input.stops,
+        pickup_at: input.pickupAt?.toISOString() ?? null,
+        dropoff_address: quote.dropoff.address,
+        dropoff_latitude: quote.dropoff.lat,
+        dropoff_longitude: quote.dropoff.lng,
+        stop_addresses: quote.stops.map((s) => s.address ?? s.raw ?? ""),
+        locations: { pickup: quote.pickup, stops: quote.stops, dropoff: quote.dropoff },
+        pickup_zone: quote.pickupZone ?? null,
+        dropoff_zone: quote.dropoffZone ?? null,
+        distance_km: quote.distanceKm ?? null,
+        status: quote.fare.status,
+        branch: quote.fare.branch ?? null,
+        total: quote.fare.total,
+        message: quote.fare.message,
+        breakdown: quote.fare.breakdown ?? null,
+        rule_set_version: quote.fare.ruleSetVersion ?? null,
+      })
+      .select("id")
+      .single();
+
+    if (error) throw new Error(error.message);
+    return (data as { id: string }).id;
+  } catch (e) {
+    console.error("cost-estimates: estimate log failed:", e);
+    return null;
+  }
+}
@@ -0,0 +1,93 @@
+import { createServiceClient } from "./supabaseClient.ts";
+import {
+  fareRuleFromRow,
+  fareSurchargeFromRow,
+  type FareRuleRow,
+  type FareRuleSet,
+  type FareSurchargeRow,
+} from "./pricing.ts";
+
+const CACHE_TTL_MS = 60_000;
+
+let cachedSet: FareRuleSet | null = null;
+let cachedAt = 0;
+
+/** Active rule set = the most recently activated `fare_rule_sets` row. */
+export async function fetchActiveFareRuleSetCached(): Promise<FareRuleSet> {
+  const now = Date.now();
+  if (cachedSet !== null && now - cachedAt < CACHE_TTL_MS) {
+    return cachedSet;
+  }
+
+  const supabase = createServiceClient();
+
+  const { data: setRow, error: setError } = await supabase
+    .from("fare_rule_sets")
+    .select("id, version_label, stop_waiting_fee")
+    .not("activated_at", "is", null)
+    .order("activated_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (setError) {
+    throw new Error(`Fare rules load failed: ${setError.message}`);
+  }
+  if (!setRow) {
+    throw new Error("Fare rules load failed: no active fare rule set");
+  }
+
+  const [rulesRes, surchargesRes] = await Promise.all([
+    supabase
+      .from("fare_rules")
+      .select(
+        "branch, priority, pickup_zones, dropoff_zones, bidirectional, min_distance_km, max_distance_km, flat_amount, base_amount, base_distance_km, per_km_rate, brackets, minimum_fare",
+      )
+      .eq("rule_set_id", setRow.id)
+      .order("priority", { ascending: true }),
+    supabase
+      .from("fare_surcharges")
+      .select("kind, label, iso_weekdays, start_time, end_time, multiplier, flat_amount, sort_order")
+      .eq("rule_set_id", setRow.id)
+      .order("sort_order", { ascending: true }),
+  ]);
+
+  const error = rulesRes.error ?? surchargesRes.error;
+  if (error) {
+    throw new Error(`Fare rules load failed: ${error.message}`);
+  }
+
+  const ruleSet: FareRuleSet = {
+    id: setRow.id as string,
+    versionLabel: setRow.version_label as string,
+    rules: ((rulesRes.data ?? []) as FareRuleRow[]).map(fareRuleFromRow),
+    surcharges: ((surchargesRes.data ?? []) as FareSurchargeRow[]).map(fareSurchargeFromRow),
+    stopWaitingFee: Number(setRow.stop_waiting_fee ?? 0),
+  };
+
+  cachedSet = ruleSet;
+  cachedAt = now;
+  return ruleSet;
+}
+
+let cachedHolidays: string[] | null = null;
+let holidaysCachedAt = 0;
+
+/** `public_holidays` dates (yyyy-MM-dd) for the holiday surcharge. */
+export async function fetchHolidayDatesCached(): Promise<string[]> {
+  const now = Date.now();
+  if (cachedHolidays !== null && now - holidaysCachedAt < CACHE_TTL_MS) {
+    return cachedHolidays;
+  }
+
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase.from("public_holidays").select("holiday_date");
+
+  if (error) {
+    throw new Error(`Public holidays load failed: ${error.message}`);
+  }
+
+  cachedHolidays = (data ?? []).map((row) => row.holiday_date as string);
+  holidaysCachedAt = now;
+  return cachedHolidays;
+}
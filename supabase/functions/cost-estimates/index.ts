@@ -2,7 +2,8 @@
 // Setup type definitions for built-in Supabase Runtime APIs
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 
-import { priceTrip } from "./priceTrip.ts";
+import { MAX_STOPS, priceTrip, type StopInput } from "./priceTrip.ts";
+import { recordFareEstimate } from "./estimateLogDb.ts";
 
 /** CORS — https://supabase.com/docs/guides/functions/cors */
 const corsHeaders = {
@@ -10,7 +11,7 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-/** Secrets: GOOGLE_MAPS_API_KEY, ANTHROPIC_API_KEY — `supabase secrets set ...` */
+/** Secrets: GOOGLE_MAPS_API_KEY, ANTHROPIC_API_KEY (optional: without it locations use the local parser) — `supabase secrets set ...` */
 
 function jsonResponse(body: unknown, status = 200): Response {
   return new Response(JSON.stringify(body), {
@@ -19,7 +20,12 @@ function jsonResponse(body: unknown, status = 200): Response {
   });
 }
 
-/** POST JSON: `{ pickup: { lat, lng }, dropoff: string, dropOffLat?, dropOffLng? }` */
+/**
+ * POST JSON: `{ pickup: { lat, lng }, dropoff: string, dropOffLat?, dropOffLng?, stops?, pickupAt? }`
+ * stops: ordered intermediate stops, each a string or `{ address, lat?, lng? }`; pickupAt: ISO 8601.
+ * The response's `estimateId` (fare_estimate_logs row, null if logging failed) is sent back as
+ * `fare_estimate_id` when the rider requests the trip.
+ */
 Deno.serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response("ok", { headers: corsHeaders });
@@ -40,7 +46,7 @@ Deno.serve(async (req: Request) => {
     return jsonResponse({ error: "Expected JSON object" }, 400);
   }
 
-  const { pickup, dropoff, dropOffLat, dropOffLng } = body as Record<string, unknown>;
+  const { pickup, dropoff, dropOffLat, dropOffLng, stops, pickupAt } = body as Record<string, unknown>;
 
   if (!pickup || typeof pickup !== "object") {
     return jsonResponse({ error: "pickup is required (object with lat, lng)" }, 400);
@@ -57,14 +63,38 @@ Deno.serve(async (req: Request) => {
     return jsonResponse({ error: "dropoff must be a non-empty string" }, 400);
   }
 
+  let stopInputs: StopInput[] = [];
+  if (stops !== undefined) {
+    if (!Array.isArray(stops) || stops.length > MAX_STOPS) {
+      return jsonResponse({ error: `stops must be an array of at most ${MAX_STOPS} stops` }, 400);
+    }
+    stopInputs = stops.map((stop) =>
+      typeof stop === "string" ? { address: stop } : (stop ?? {}) as StopInput
+    );
+  }
+
+  const pickupAtDate = typeof pickupAt === "string" ? new Date(pickupAt) : undefined;
+  if (
+    (pickupAt !== undefined && typeof pickupAt !== "string") ||
+    (pickupAtDate && Number.isNaN(pickupAtDate.getTime()))
+  ) {
+    return jsonResponse({ error: "pickupAt must be an ISO 8601 date-time string" }, 400);
+  }
+
   try {
     const result = await priceTrip({
       pickup: { lat, lng },
       dropoff,
       dropOffLat: dropOffLat !== undefined ? Number(dropOffLat) : undefined,
       dropOffLng: dropOffLng !== undefined ? Number(dropOffLng) : undefined,
+      stops: stopInputs,
+      pickupAt: pickupAtDate,
     });
-    return jsonResponse(result);
+    const estimateId = await recordFareEstimate(
+      { pickup: { lat, lng }, dropoff, stops: stopInputs.map((s) => s.address), pickupAt: pickupAtDate },
+      result,
+    );
+    return jsonResponse({ ...result, estimateId });
   } catch (e) {
     const msg = e instanceof Error ? e.message : String(e);
 
@@ -0,0 +1,235 @@
+// ───────────────────────────────────────────────────────────
+//  Fuzzy landmark matching
+//  Scores a rider's text against landmark names and aliases
+//  with typo tolerance (edit distance), abbreviation expansion
+//  ("st" → "street") and a Guyanese-English phonetic key, so
+//  "Stabrok", "Gift land" and "Sheriff st" still resolve.
+//  Dependency-free: the admin portal uses it for collisions.
+// ───────────────────────────────────────────────────────────
+
+export type MatchableLandmark = { name: string; aliases: string[] };
+
+export type LandmarkCandidate<T extends MatchableLandmark> = {
+  landmark: T;
+  /** The name or alias that scored best. */
+  matchedOn: string;
+  /** 0–1; 1 = exact after normalisation. */
+  confidence: number;
+};
+
+const ABBREVIATIONS: Record<string, string> = {
+  st: "street",
+  str: "street",
+  rd: "road",
+  ave: "avenue",
+  av: "avenue",
+  dr: "drive",
+  hwy: "highway",
+  pub: "public",
+  mkt: "market",
+  sch: "school",
+  hosp: "hospital",
+  ctr: "centre",
+  center: "centre",
+  intl: "international",
+  int: "international",
+  nat: "national",
+  natl: "national",
+  govt: "government",
+  gt: "georgetown",
+  gtown: "georgetown",
+  ecd: "east coast demerara",
+  ebd: "east bank demerara",
+  wcd: "west coast demerara",
+  wbd: "west bank demerara",
+  wcb: "west coast berbice",
+  no: "number",
+  mt: "mount",
+};
+
+/** Words that say what kind of place it is rather than which one; they count for less. */
+const GENERIC_TOKENS = new Set([
+  "street",
+  "road",
+  "avenue",
+  "drive",
+  "highway",
+  "the",
+  "of",
+  "and",
+  "market",
+  "mall",
+  "school",
+  "hospital",
+  "centre",
+  "park",
+  "village",
+  "public",
+  "national",
+  "east",
+  "west",
+  "north",
+  "south",
+  "coast",
+  "bank",
+  "demerara",
+  "berbice",
+]);
+
+const GENERIC_WEIGHT = 0.25;
+
+/** Token similarity below this counts as no match, so unrelated words don't add up. */
+const MIN_TOKEN_SIMILARITY = 0.6;
+
+/** Lowercase, strip punctuation, expand abbreviations. */
+export function normalizeLocation(str: string): string {
+  return str
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((token) => ABBREVIATIONS[token] ?? token)
+    .join(" ");
+}
+
+/**
+ * Rough sound-alike key tuned for how places are spelt locally: "Stabroek"/"Stabrok",
+ * "Sheriff"/"Sherif", "Kitty"/"Kitti", "Pouderoyen"/"Powderoyen" share a key.
+ */
+export function phoneticKey(token: string): string {
+  if (/^\d+$/.test(token)) return token;
+  const key = token
+    .replace(/ph/g, "f")
+    .replace(/ck/g, "k")
+    .replace(/c(?=[eiy])/g, "s")
+    .replace(/[cq]/g, "k")
+    .replace(/z/g, "s")
+    .replace(/ow/g, "ou")
+    .replace(/([a-z])h/g, "$1")
+    .replace(/(.)\1+/g, "$1");
+  return key[0] + key.slice(1).replace(/[aeiouyw]/g, "");
+}
+
+/** Levenshtein distance with an early exit once it exceeds `max`. */
+export function editDistance(a: string, b: string, max = Infinity): number {
+  if (a === b) return 0;
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(
+        prev[j] + 1,
+        row[j - 1] + 1,
+        prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      rowMin = Math.min(rowMin, row[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+function stringSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+  return 1 - editDistance(a, b, longest) / longest;
+}
+
+function tokenSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  // Numbers ("No. 63") must match exactly.
+  if (/^\d+$/.test(a) || /^\d+$/.test(b)) return 0;
+  const spelled = stringSimilarity(a, b);
+  const sounds = a.length > 2 && b.length > 2 && phoneticKey(a) === phoneticKey(b) ? 0.85 : 0;
+  const similarity = Math.max(spelled, sounds);
+  return similarity >= MIN_TOKEN_SIMILARITY ? similarity : 0;
+}
+
+function weight(token: string): number {
+  return GENERIC_TOKENS.has(token) ? GENERIC_WEIGHT : 1;
+}
+
+/** Score one normalised query against one normalised name/alias. */
+function scorePhrase(query: string, candidate: string): number {
+  if (!query || !candidate) return 0;
+  if (query === candidate) return 1;
+
+  const qTokens = query.split(" ");
+  const cTokens = candidate.split(" ");
+  const qWeight = qTokens.reduce((sum, t) => sum + weight(t), 0);
+  const cWeight = cTokens.reduce((sum, t) => sum + weight(t), 0);
+  const matched = qTokens.reduce(
+    (sum, q) => sum + weight(q) * Math.max(0, ...cTokens.map((c) => tokenSimilarity(q, c))),
+    0,
+  );
+  const tokenScore = matched / Math.max(qWeight, cWeight);
+
+  // "Gift land" vs "Giftland": compare with spaces removed as well.
+  const compactScore = stringSimilarity(query.replace(/ /g, ""), candidate.replace(/ /g, ""));
+
+  return Math.max(tokenScore, compactScore >= 0.8 ? compactScore * 0.95 : 0);
+}
+
+/** Best candidates for `query`, highest confidence first (ties → name), at most `limit`. */
+export function rankLandmarks<T extends MatchableLandmark>(
+  query: string,
+  landmarks: T[],
+  { limit = 5, minConfidence = 0.5 }: { limit?: number; minConfidence?: number } = {},
+): LandmarkCandidate<T>[] {
+  const q = normalizeLocation(query);
+  if (!q) return [];
+
+  const ranked: LandmarkCandidate<T>[] = [];
+  for (const landmark of landmarks) {
+    let best: LandmarkCandidate<T> | null = null;
+    for (const phrase of [landmark.name, ...landmark.aliases]) {
+      const confidence = scorePhrase(q, normalizeLocation(phrase));
+      if (!best || confidence > best.confidence) best = { landmark, matchedOn: phrase, confidence };
+    }
+    if (best && best.confidence >= minConfidence) {
+      ranked.push({ ...best, confidence: Math.round(best.confidence * 100) / 100 });
+    }
+  }
+
+  return ranked
+    .sort((a, b) => b.confidence - a.confidence || a.landmark.name.localeCompare(b.landmark.name))
+    .slice(0, limit);
+}
+
+/** Confidence at which one landmark's name/alias would resolve to a different landmark. */
+export const COLLISION_CONFIDENCE = 0.85;
+
+export type AliasCollision<T extends MatchableLandmark> = {
+  landmark: T;
+  alias: string;
+  other: T;
+  otherMatchedOn: string;
+  confidence: number;
+};
+
+/**
+ * Names/aliases that match another landmark at least as well as `COLLISION_CONFIDENCE` — riders
+ * typing them may land on either place.
+ */
+export function findAliasCollisions<T extends MatchableLandmark>(landmarks: T[]): AliasCollision<T>[] {
+  const collisions: AliasCollision<T>[] = [];
+  landmarks.forEach((landmark, i) => {
+    const others = landmarks.filter((_, j) => j !== i);
+    for (const alias of [landmark.name, ...landmark.aliases]) {
+      for (const hit of rankLandmarks(alias, others, { limit: 3, minConfidence: COLLISION_CONFIDENCE })) {
+        collisions.push({
+          landmark,
+          alias,
+          other: hit.landmark,
+          otherMatchedOn: hit.matchedOn,
+          confidence: hit.confidence,
+        });
+      }
+    }
+  });
+  return collisions;
+}
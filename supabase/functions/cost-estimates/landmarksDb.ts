@@ -1,4 +1,4 @@
-import { createClient } from "@supabase/supabase-js";
+import { createServiceClient } from "./supabaseClient.ts";
 
 export type Landmark = {
   name: string;
@@ -20,17 +20,7 @@ export async function fetchLandmarksCached(): Promise<Landmark[]> {
     return cachedList;
   }
 
-  const url = Deno.env.get("SUPABASE_URL");
-  const key = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-  if (!url || !key) {
-    throw new Error(
-      "SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set for cost-estimate landmarks",
-    );
-  }
-
-  const supabase = createClient(url, key, {
-    auth: { autoRefreshToken: false, persistSession: false },
-  });
+  const supabase = createServiceClient();
 
   const { data, error } = await supabase
     .from("cost_estimate_landmarks")
@@ -0,0 +1,72 @@
+// ───────────────────────────────────────────────────────────
+//  Rule-based location cleanup — offline stand-in for the
+//  LLM parser. Mirrors LOCATION_PARSER_PROMPT's rules: drop
+//  house descriptions, lot numbers, personal references and
+//  directional phrases; keep streets, areas and landmarks.
+//  No I/O, so it runs without network access.
+// ───────────────────────────────────────────────────────────
+
+const COLOURS =
+  "red|blue|green|yellow|white|black|pink|purple|orange|brown|grey|gray|cream|beige|lime|maroon|gold|silver|peach|mint";
+
+const BUILDING_WORDS =
+  "house|home|building|fence|gate|wall|shop|store|bridge|flat|apartment|apt|yard|door|roof";
+
+/** Phrases that introduce a relative position; the text on either side may still name a place. */
+const DIRECTIONAL =
+  /\b(?:next\s+to|right\s+next\s+to|beside|behind|in\s+front\s+of|opposite(?:\s+to)?|across\s+(?:from|the\s+road\s+from)|near(?:\s+to|\s+by)?|close\s+to|before\s+(?:you\s+)?(?:reach|get\s+to|come\s+to)|after\s+(?:you\s+)?(?:pass|reach)|just\s+(?:before|after|past)|past|by\s+the|turn\s+(?:left|right)\s+(?:at|by|on)?)\b/i;
+
+/** Whole phrases removed outright (requests, personal references, building descriptions). */
+const NOISE: RegExp[] = [
+  /\b(?:please|pls|plz)\b/gi,
+  /\b(?:pick\s+me\s+up|pickup|pick\s+up|drop\s+me(?:\s+off)?|take\s+me|carry\s+me|i\s*(?:'m|\s+am)|we\s*(?:'re|\s+are)|going|coming)\s+(?:at|from|to|in|by)?\b/gi,
+  /\b(?:my|our|his|her|their)\s+(?:\w+(?:'s)?\s+)?(?:house|home|place|yard|work|job)\b/gi,
+  /\bthe\s+one\s+with\b[^,]*/gi,
+  /\b(?:lot|plot|house|apt|apartment|flat)\s*(?:no\.?|number|#)?\s*\d+[a-z]?\b/gi,
+  /#\s*\d+[a-z]?\b/g,
+  /\b(?:two|three|2|3)[\s-]*stor(?:e)?y\b/gi,
+  new RegExp(
+    `\\b(?:the\\s+)?(?:(?:big|small|tall|old|new)\\s+)*(?:${COLOURS})(?:\\s+and\\s+(?:${COLOURS}))?\\s+(?:(?:concrete|wooden|zinc|painted)\\s+)?(?:${BUILDING_WORDS})\\b`,
+    "gi",
+  ),
+  new RegExp(`\\b(?:${BUILDING_WORDS})\\s+(?:is\\s+)?(?:painted\\s+)?(?:${COLOURS})\\b`, "gi"),
+  /\b(?:upstairs|downstairs|bottom\s+flat|top\s+flat)\b/gi,
+  /\bguyana\b/gi,
+];
+
+/** Leading street number: "12 Camp Street" → "Camp Street". Numbered villages ("No. 63") are kept. */
+const LEADING_HOUSE_NUMBER = /^\s*\d+[a-z]?\s+(?=[a-z])/i;
+
+function tidy(text: string): string {
+  return text
+    .replace(/\s*,\s*(?:,\s*)*/g, ", ")
+    .replace(/\s+/g, " ")
+    .replace(/^[\s,.;:-]+|[\s,.;:-]+$/g, "")
+    .replace(/^(?:the|a|an|at|in|on|to|from|by)(?:\s+|$)/i, "")
+    .trim();
+}
+
+/**
+ * Cleaned place candidates from a rider's free text, best first: the text before any directional
+ * phrase, then each referenced place ("next to Giftland" → "Giftland"). Empty when nothing usable
+ * remains.
+ */
+export function extractLocationCandidates(rawInput: string): string[] {
+  let text = rawInput.replace(/[\r\n]+/g, ", ").slice(0, 300);
+  for (const pattern of NOISE) {
+    text = text.replace(pattern, " ");
+  }
+
+  const segments = text
+    .split(new RegExp(DIRECTIONAL.source, "gi"))
+    .map((segment) => tidy(segment.replace(LEADING_HOUSE_NUMBER, "")))
+    .filter((segment) => segment.length >= 3 && /[a-z]{3,}/i.test(segment));
+
+  return [...new Set(segments)];
+}
+
+/** Geocodable one-line address in the LLM parser's output format, or null. */
+export function toGuyanaAddress(candidate: string): string | null {
+  const cleaned = tidy(candidate);
+  return cleaned.length >= 3 ? `${cleaned}, Guyana` : null;
+}
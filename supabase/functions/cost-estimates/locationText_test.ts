@@ -0,0 +1,38 @@
+// `deno test --allow-env` from this directory. No network: the rules run on the text alone.
+import { deepStrictEqual, strictEqual } from "node:assert/strict";
+import { extractLocationCandidates, toGuyanaAddress } from "./locationText.ts";
+
+Deno.test("extractLocationCandidates drops house colours and building descriptions", () => {
+  deepStrictEqual(extractLocationCandidates("the big green and white house next to Giftland"), ["Giftland"]);
+  deepStrictEqual(extractLocationCandidates("house painted pink, Kitty"), ["Kitty"]);
+  deepStrictEqual(
+    extractLocationCandidates("yellow two storey building before you reach Mandela Avenue"),
+    ["Mandela Avenue"],
+  );
+});
+
+Deno.test("extractLocationCandidates drops lot and house numbers but keeps numbered villages", () => {
+  deepStrictEqual(extractLocationCandidates("Lot 45 Sheriff Street, the blue house upstairs"), ["Sheriff Street"]);
+  deepStrictEqual(extractLocationCandidates("Plot #7 Diamond Housing Scheme"), ["Diamond Housing Scheme"]);
+  deepStrictEqual(extractLocationCandidates("pick me up at 12 Camp Street please"), ["Camp Street"]);
+  deepStrictEqual(extractLocationCandidates("No. 63 Village, Berbice"), ["No. 63 Village, Berbice"]);
+});
+
+Deno.test("extractLocationCandidates splits on directional phrases, main place first", () => {
+  deepStrictEqual(extractLocationCandidates("Vlissengen Road opposite Bourda Market"), [
+    "Vlissengen Road",
+    "Bourda Market",
+  ]);
+  deepStrictEqual(extractLocationCandidates("my aunt's house behind Stabroek Market"), ["Stabroek Market"]);
+});
+
+Deno.test("extractLocationCandidates returns nothing when no place is left", () => {
+  deepStrictEqual(extractLocationCandidates(""), []);
+  deepStrictEqual(extractLocationCandidates("next to the"), []);
+  deepStrictEqual(extractLocationCandidates("the red house"), []);
+});
+
+Deno.test("toGuyanaAddress formats a candidate like the LLM parser", () => {
+  strictEqual(toGuyanaAddress("  at Camp Street, "), "Camp Street, Guyana");
+  strictEqual(toGuyanaAddress("ab"), null);
+});
@@ -1,4 +1,6 @@
 import { fetchLandmarksCached, type Landmark } from "./landmarksDb.ts";
+import { extractLocationCandidates, toGuyanaAddress } from "./locationText.ts";
+import { rankLandmarks } from "./landmarkMatch.ts";
 
 const LOCATION_PARSER_PROMPT =
   `You are a location parser for Links 592, a ride-hailing app in Guyana. Your ONLY job is to extract a geocodable address from a passenger's freeform location description.
@@ -28,49 +30,52 @@ const LOCATION_PARSER_PROMPT =
 - If passenger input explicitly names a location outside Guyana, return UNKNOWN.
 - Your entire response must be under 15 words.`;
 
-export function normalize(str: string): string {
-  return str.toLowerCase().replace(/[^a-z0-9\s]/g, "").trim();
+/** "then", "and then", "then to" (optionally after a comma) between consecutive destinations. */
+const STOP_SEPARATOR = /\s*,?\s*\b(?:and\s+)?then(?:\s+to)?\b\s*/i;
+
+/** Ordered destinations from "Giftland then to Diamond" → ["Giftland", "Diamond"]. */
+export function splitStops(text: string): string[] {
+  return text.split(STOP_SEPARATOR).map((part) => part.trim()).filter(Boolean);
 }
 
-export function splitTrip(text: string): { pickup: string; dropoff: string } {
+/**
+ * "Stabroek to Giftland then to Diamond" → pickup "Stabroek", stops ["Giftland"], dropoff "Diamond".
+ * Only the first "to" separates the pickup; later destinations are chained with "then".
+ */
+export function splitTrip(text: string): { pickup: string; stops: string[]; dropoff: string } {
   const match = text.match(/^(.+?)\bto\b(.+)$/i);
   if (!match) throw new Error(`No "to" separator found in: "${text}"`);
   const pickup = match[1].trim();
-  const dropoff = match[2].trim();
+  const destinations = splitStops(match[2]);
+  const dropoff = destinations.pop();
   if (!pickup || !dropoff) throw new Error(`Could not split trip: "${text}"`);
-  return { pickup, dropoff };
+  return { pickup, stops: destinations, dropoff };
 }
 
-export function matchLandmark(query: string, landmarkList: Landmark[]) {
-  const q = normalize(query);
-  const qTokens = q.split(/\s+/);
-
-  let bestMatch: Landmark | null = null;
-  let bestScore = 0;
-
-  for (const lm of landmarkList) {
-    const candidates = [normalize(lm.name), ...lm.aliases.map(normalize)];
-    for (const candidate of candidates) {
-      const cTokens = candidate.split(/\s+/);
-      const hits = qTokens.filter((t) => cTokens.includes(t)).length;
-      const score = hits > 0 ? hits / Math.max(qTokens.length, cTokens.length) : 0;
-      if (score > bestScore) {
-        bestScore = score;
-        bestMatch = lm;
-      }
-    }
-  }
+/** Below this the best candidate is too uncertain to skip the parser / geocoder. */
+const LANDMARK_MIN_CONFIDENCE = 0.6;
 
-  if (bestScore < 0.5 || bestMatch === null) return null;
+export function matchLandmark(query: string, landmarkList: Landmark[]) {
+  const [best, ...alternatives] = rankLandmarks(query, landmarkList, {
+    limit: 3,
+    minConfidence: LANDMARK_MIN_CONFIDENCE,
+  });
+  if (!best) return null;
 
+  const { landmark } = best;
   return {
-    address: `${bestMatch.name}, ${bestMatch.area}, Guyana`,
-    lat: bestMatch.lat,
-    lng: bestMatch.lng,
-    zone: bestMatch.zone,
+    address: `${landmark.name}, ${landmark.area}, Guyana`,
+    lat: landmark.lat,
+    lng: landmark.lng,
+    zone: landmark.zone,
+    confidence: best.confidence,
+    alternatives: alternatives.map((c) => ({ name: c.landmark.name, confidence: c.confidence })),
   };
 }
 
+/** Past this, resolveLocation falls back to the local parser rather than stalling the estimate. */
+const LOCATION_PARSER_TIMEOUT_MS = 8_000;
+
 async function parseLocation(rawInput: string): Promise<string | null> {
   const apiKey = Deno.env.get("ANTHROPIC_API_KEY");
   if (!apiKey) throw new Error("ANTHROPIC_API_KEY environment variable is not set");
@@ -89,6 +94,7 @@ async function parseLocation(rawInput: string): Promise<string | null> {
       system: LOCATION_PARSER_PROMPT,
       messages: [{ role: "user", content: rawInput }],
     }),
+    signal: AbortSignal.timeout(LOCATION_PARSER_TIMEOUT_MS),
   });
 
   if (!response.ok) throw new Error(`Location parser API error: ${response.status}`);
@@ -105,6 +111,23 @@ async function parseLocation(rawInput: string): Promise<string | null> {
   return output;
 }
 
+/**
+ * Offline stand-in for `parseLocation`: rule-based cleanup, then landmark matching on each
+ * cleaned candidate; otherwise the main candidate as a geocodable address.
+ */
+export function parseLocationLocally(
+  rawInput: string,
+  landmarkList: Landmark[],
+): { address: string; source: "landmark" | "local" } | null {
+  const candidates = extractLocationCandidates(rawInput);
+  for (const candidate of candidates) {
+    const landmark = matchLandmark(candidate, landmarkList);
+    if (landmark) return { address: landmark.address, source: "landmark" };
+  }
+  const address = candidates.length ? toGuyanaAddress(candidates[0]) : null;
+  return address ? { address, source: "local" } : null;
+}
+
 export async function geocode(address: string) {
   const apiKey = Deno.env.get("GOOGLE_MAPS_API_KEY");
   if (!apiKey) throw new Error("GOOGLE_MAPS_API_KEY environment variable is not set");
@@ -143,6 +166,8 @@ export type ResolvedLocation = {
   lng: number | null;
   placeId: string | null;
   source: string;
+  /** Set when a landmark matched: its confidence and the runner-up landmarks. */
+  landmarkMatch?: { confidence: number; alternatives: { name: string; confidence: number }[] };
 };
 
 export async function resolveLocation(rawText: string): Promise<ResolvedLocation> {
@@ -157,8 +182,16 @@ export async function resolveLocation(rawText: string): Promise<ResolvedLocation
     address = landmark.address;
     source = "landmark";
   } else {
-    address = await parseLocation(rawText);
-    source = address ? "ai" : "unknown";
+    try {
+      address = await parseLocation(rawText);
+      source = address ? "ai" : "unknown";
+    } catch (e) {
+      // Missing key, API outage or timeout: keep estimating with the local rules.
+      console.warn("parseLocation unavailable, using local parser:", e instanceof Error ? e.message : e);
+      const local = parseLocationLocally(rawText, landmarkList);
+      address = local?.address ?? null;
+      source = local?.source ?? "unknown";
+    }
   }
 
   if (!address) {
@@ -182,14 +215,18 @@ export async function resolveLocation(rawText: string): Promise<ResolvedLocation
     lng: geo?.lng ?? null,
     placeId: geo?.placeId ?? null,
     source,
+    ...(landmark
+      ? { landmarkMatch: { confidence: landmark.confidence, alternatives: landmark.alternatives } }
+      : {}),
   };
 }
 
 export async function parseTrip(tripText: string) {
-  const { pickup, dropoff } = splitTrip(tripText);
-  const [resolvedPickup, resolvedDropoff] = await Promise.all([
+  const { pickup, stops, dropoff } = splitTrip(tripText);
+  const [resolvedPickup, resolvedDropoff, ...resolvedStops] = await Promise.all([
     resolveLocation(pickup),
     resolveLocation(dropoff),
+    ...stops.map(resolveLocation),
   ]);
-  return { pickup: resolvedPickup, dropoff: resolvedDropoff };
+  return { pickup: resolvedPickup, stops: resolvedStops, dropoff: resolvedDropoff };
 }
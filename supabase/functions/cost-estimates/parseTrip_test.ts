@@ -0,0 +1,51 @@
+// `deno test --allow-env` from this directory. Only the offline parser is exercised; nothing calls
+// the LLM, the geocoder or the database.
+import { deepStrictEqual, strictEqual } from "node:assert/strict";
+import { parseLocationLocally } from "./parseTrip.ts";
+import type { Landmark } from "./landmarksDb.ts";
+
+const LANDMARKS: Landmark[] = [
+  {
+    name: "Giftland Mall",
+    aliases: ["Giftland"],
+    lat: 6.8127,
+    lng: -58.1108,
+    area: "Turkeyen",
+    zone: "EAST_COAST",
+  },
+  {
+    name: "Stabroek Market",
+    aliases: ["Stabroek"],
+    lat: 6.8046,
+    lng: -58.1631,
+    area: "Georgetown",
+    zone: "CENTRAL",
+  },
+];
+
+Deno.test("parseLocationLocally returns the landmark a description points at", () => {
+  deepStrictEqual(parseLocationLocally("the big green and white house next to Giftland", LANDMARKS), {
+    address: "Giftland Mall, Turkeyen, Guyana",
+    source: "landmark",
+  });
+  deepStrictEqual(parseLocationLocally("my aunt's house behind Stabroek Market", LANDMARKS), {
+    address: "Stabroek Market, Georgetown, Guyana",
+    source: "landmark",
+  });
+});
+
+Deno.test("parseLocationLocally falls back to the cleaned address without a landmark", () => {
+  deepStrictEqual(parseLocationLocally("Lot 45 Sheriff Street, the blue house upstairs", LANDMARKS), {
+    address: "Sheriff Street, Guyana",
+    source: "local",
+  });
+  deepStrictEqual(parseLocationLocally("house painted pink, Kitty", []), {
+    address: "Kitty, Guyana",
+    source: "local",
+  });
+});
+
+Deno.test("parseLocationLocally gives up when nothing usable remains", () => {
+  strictEqual(parseLocationLocally("", LANDMARKS), null);
+  strictEqual(parseLocationLocally("the yellow house next to the", LANDMARKS), null);
+});
@@ -1,5 +1,9 @@
-import { resolveLocation, type ResolvedLocation } from "./parseTrip.ts";
-import { calculateFare, classifyZoneFromCoords } from "./pricing.ts";
+import { resolveLocation, splitStops, type ResolvedLocation } from "./parseTrip.ts";
+import { calculateFare, calculateMultiStopFare } from "./pricing.ts";
+import { fetchActiveFareRuleSetCached, fetchHolidayDatesCached } from "./fareRulesDb.ts";
+import { fetchZoneBoundariesCached } from "./zonesDb.ts";
+import { guyanaWallClock } from "../_shared/guyanaClock.ts";
+import { classifyZone } from "../_shared/zones.ts";
 
 export async function distanceKm(
   origin: { lat: number; lng: number },
@@ -66,16 +70,38 @@ function isFiniteCoordPair(lat: unknown, lng: unknown): boolean {
     Number.isFinite(lat) && Number.isFinite(lng);
 }
 
+/** Intermediate stop between pickup and dropoff; optional GPS pins it like `dropOffLat/Lng`. */
+export type StopInput = { address: string; lat?: number; lng?: number };
+
+export const MAX_STOPS = 5;
+
+/** Rider-supplied GPS wins over the geocoded text; the text result is kept for display. */
+function pinToGps(resolved: ResolvedLocation, lat: number, lng: number): ResolvedLocation {
+  return {
+    ...resolved,
+    lat,
+    lng,
+    source: resolved.lat != null && resolved.lng != null ? `${resolved.source}+gps` : "gps",
+  };
+}
+
 export async function priceTrip({
   pickup,
   dropoff,
   dropOffLat,
   dropOffLng,
+  stops = [],
+  pickupAt,
 }: {
   pickup: PickupCoords;
+  /** May chain destinations: "Giftland then to Diamond" adds Giftland as a stop. */
   dropoff: string;
   dropOffLat?: number;
   dropOffLng?: number;
+  /** Ordered stops visited before `dropoff`. */
+  stops?: StopInput[];
+  /** Scheduled pickup; defaults to now. Drives night / peak / holiday surcharges. */
+  pickupAt?: Date;
 }) {
   if (!pickup || pickup.lat == null || pickup.lng == null) {
     throw new Error("priceTrip: pickup.lat and pickup.lng are required");
@@ -91,6 +117,21 @@ export async function priceTrip({
     );
   }
 
+  const chained = splitStops(dropoff);
+  const dropoffText = chained.pop() ?? dropoff.trim();
+  const stopInputs: StopInput[] = [...stops, ...chained.map((address) => ({ address }))];
+  if (stopInputs.length > MAX_STOPS) {
+    throw new Error(`priceTrip: at most ${MAX_STOPS} stops are supported`);
+  }
+  for (const stop of stopInputs) {
+    if (typeof stop.address !== "string" || !stop.address.trim()) {
+      throw new Error("priceTrip: each stop needs a non-empty address");
+    }
+    if ((stop.lat !== undefined || stop.lng !== undefined) && !isFiniteCoordPair(stop.lat, stop.lng)) {
+      throw new Error("priceTrip: stop lat and lng must both be finite numbers when either is provided");
+    }
+  }
+
   const pickupAddress = await reverseGeocode(pickup);
 
   const pickupResolved: ResolvedLocation = {
@@ -103,47 +144,66 @@ export async function priceTrip({
     source: "gps",
   };
 
-  const dropoffResolved = await resolveLocation(dropoff);
+  const [dropoffResolved, ...stopsResolved] = await Promise.all([
+    resolveLocation(dropoffText),
+    ...stopInputs.map((stop) => resolveLocation(stop.address.trim())),
+  ]);
 
-  const dropLat = usingDropOffGps ? dropOffLat! : dropoffResolved.lat;
-  const dropLng = usingDropOffGps ? dropOffLng! : dropoffResolved.lng;
-
-  const dropoffForResponse: ResolvedLocation = usingDropOffGps
-    ? {
-      ...dropoffResolved,
-      lat: dropLat,
-      lng: dropLng,
-      source: dropoffResolved.lat != null && dropoffResolved.lng != null
-        ? `${dropoffResolved.source}+gps`
-        : "gps",
-    }
+  const dropoffForResponse = usingDropOffGps
+    ? pinToGps(dropoffResolved, dropOffLat!, dropOffLng!)
     : dropoffResolved;
+  const stopsForResponse = stopsResolved.map((resolved, i) => {
+    const { lat, lng } = stopInputs[i];
+    return lat !== undefined && lng !== undefined ? pinToGps(resolved, lat, lng) : resolved;
+  });
 
-  if (dropLat == null || dropLng == null) {
+  const unresolvedStop = stopsForResponse.findIndex((s) => s.lat == null || s.lng == null);
+  if (unresolvedStop !== -1 || dropoffForResponse.lat == null || dropoffForResponse.lng == null) {
     return {
       pickup: pickupResolved,
+      stops: stopsForResponse,
       dropoff: dropoffForResponse,
       fare: {
         status: "NEGOTIATE",
         total: null,
-        message: "Could not resolve the dropoff location. Please confirm the fare with your driver before the ride.",
+        message: unresolvedStop !== -1
+          ? `Could not resolve stop ${unresolvedStop + 1}. Please confirm the fare with your driver before the ride.`
+          : "Could not resolve the dropoff location. Please confirm the fare with your driver before the ride.",
       },
     };
   }
 
-  const km = await distanceKm(
-    { lat: pickup.lat, lng: pickup.lng },
-    { lat: dropLat, lng: dropLng },
-  );
-  const pickupZone = classifyZoneFromCoords(pickup.lat, pickup.lng);
-  const dropoffZone = classifyZoneFromCoords(dropLat, dropLng);
-
-  const fare = calculateFare({ distanceKm: km, pickupZone, dropoffZone });
+  const points = [pickupResolved, ...stopsForResponse, dropoffForResponse].map((p) => ({
+    lat: p.lat!,
+    lng: p.lng!,
+  }));
+
+  const [legKm, ruleSet, holidays, boundaries] = await Promise.all([
+    Promise.all(points.slice(1).map((to, i) => distanceKm(points[i], to))),
+    fetchActiveFareRuleSetCached(),
+    fetchHolidayDatesCached(),
+    fetchZoneBoundariesCached(),
+  ]);
+  const zones = points.map((p) => classifyZone(p.lat, p.lng, boundaries));
+  const pickupZone = zones[0];
+  const dropoffZone = zones[zones.length - 1];
+
+  const wallClock = guyanaWallClock(pickupAt ?? new Date());
+  const clock = { ...wallClock, isHoliday: holidays.includes(wallClock.date) };
+
+  const fare = stopInputs.length === 0
+    ? calculateFare({ distanceKm: legKm[0], pickupZone, dropoffZone, ruleSet, clock })
+    : calculateMultiStopFare({
+      legs: legKm.map((km, i) => ({ distanceKm: km, pickupZone: zones[i], dropoffZone: zones[i + 1] })),
+      ruleSet,
+      clock,
+    });
 
   return {
     pickup: pickupResolved,
+    stops: stopsForResponse,
     dropoff: dropoffForResponse,
-    distanceKm: km,
+    distanceKm: fare.distanceKm,
     pickupZone,
     dropoffZone,
     fare,
@@ -1,8 +1,9 @@
 // ───────────────────────────────────────────────────────────
-//  Links 592 — Fare Calculation Engine (v4 — Hybrid)
+//  Links 592 — Fare Calculation Engine (v5 — Rule sets)
 //  Currency: GYD
-//  Town / East Coast formulas = original confirmed calibration
-//  West side / Airport / Linden / Berbice = Matrix-derived data
+//  Rates live in `fare_rule_sets` / `fare_rules` (admin-managed).
+//  The first rule (by priority) whose zone pair and distance
+//  window match the trip prices it.
 // ───────────────────────────────────────────────────────────
 
 export const PRICED_ZONES = [
@@ -18,9 +19,142 @@ export const PRICED_ZONES = [
 
 export const UNPRICED_ZONES = ["ESSEQUIBO", "INTERIOR"] as const;
 
-export const MINIMUM_FARE = 540; // minimum fare for any trip
-const SHORT_DROP_KM = 3; // short-drop threshold
-const SHORT_DROP_RATE = 350; // $/km for short drops (all zones)
+/** `upToKm: null` is the open-ended last bracket. */
+export type FareBracket = { upToKm: number | null; rate: number };
+
+export type FareRule = {
+  /** Rider-facing branch name, e.g. "Cross-river" or "Long East Coast". */
+  branch: string;
+  priority: number;
+  /** Empty = any priced zone. */
+  pickupZones: string[];
+  dropoffZones: string[];
+  /** Also match with pickup and dropoff swapped. */
+  bidirectional: boolean;
+  /** Inclusive lower bound. */
+  minDistanceKm: number | null;
+  /** Exclusive upper bound. */
+  maxDistanceKm: number | null;
+  flatAmount: number | null;
+  baseAmount: number;
+  /** Kilometres included in `baseAmount`; only the remainder is charged per km. */
+  baseDistanceKm: number;
+  perKmRate: number | null;
+  brackets: FareBracket[] | null;
+  minimumFare: number;
+};
+
+export type FareSurchargeKind = "night" | "peak" | "holiday";
+
+/** Time-of-day / holiday add-on, evaluated on the pickup time in Guyana local time. */
+export type FareSurcharge = {
+  kind: FareSurchargeKind;
+  /** Breakdown line label, e.g. "Night surcharge". */
+  label: string;
+  /** ISO weekdays (1 = Monday … 7 = Sunday); empty = every day. */
+  isoWeekdays: number[];
+  /** Minutes since local midnight; window wraps past midnight when start > end. Null = all day. */
+  startMinute: number | null;
+  endMinute: number | null;
+  /** Either a multiplier on the base fare (1.25 = +25%) or a flat add-on. */
+  multiplier: number | null;
+  flatAmount: number | null;
+  sortOrder: number;
+};
+
+export type FareRuleSet = {
+  id: string | null;
+  versionLabel: string;
+  rules: FareRule[];
+  surcharges: FareSurcharge[];
+  /** Added once per intermediate stop on multi-stop trips. */
+  stopWaitingFee: number;
+};
+
+/** Pickup time as a Guyana wall clock (see `guyanaWallClock` in ../_shared/guyanaClock.ts). */
+export type FareClock = {
+  /** yyyy-MM-dd */
+  date: string;
+  isoWeekday: number;
+  minutes: number;
+  isHoliday: boolean;
+};
+
+/** `fare_rules` row shape (snake_case columns; `brackets` is `[{ up_to_km, rate }]`). */
+export type FareRuleRow = {
+  branch: string;
+  priority: number;
+  pickup_zones: string[] | null;
+  dropoff_zones: string[] | null;
+  bidirectional: boolean;
+  min_distance_km: number | null;
+  max_distance_km: number | null;
+  flat_amount: number | null;
+  base_amount: number;
+  base_distance_km: number;
+  per_km_rate: number | null;
+  brackets: unknown;
+  minimum_fare: number;
+};
+
+function numOrNull(value: unknown): number | null {
+  return value == null ? null : Number(value);
+}
+
+export function fareRuleFromRow(row: FareRuleRow): FareRule {
+  const brackets = Array.isArray(row.brackets)
+    ? (row.brackets as Array<{ up_to_km: unknown; rate: unknown }>).map((b) => ({
+      upToKm: numOrNull(b.up_to_km),
+      rate: Number(b.rate),
+    }))
+    : null;
+  return {
+    branch: row.branch,
+    priority: row.priority,
+    pickupZones: row.pickup_zones ?? [],
+    dropoffZones: row.dropoff_zones ?? [],
+    bidirectional: row.bidirectional,
+    minDistanceKm: numOrNull(row.min_distance_km),
+    maxDistanceKm: numOrNull(row.max_distance_km),
+    flatAmount: numOrNull(row.flat_amount),
+    baseAmount: Number(row.base_amount),
+    baseDistanceKm: Number(row.base_distance_km),
+    perKmRate: numOrNull(row.per_km_rate),
+    brackets,
+    minimumFare: Number(row.minimum_fare),
+  };
+}
+
+/** `fare_surcharges` row shape; times are Postgres `time` strings ("22:00:00"). */
+export type FareSurchargeRow = {
+  kind: string;
+  label: string;
+  iso_weekdays: number[] | null;
+  start_time: string | null;
+  end_time: string | null;
+  multiplier: number | null;
+  flat_amount: number | null;
+  sort_order: number;
+};
+
+function minutesFromTime(value: string | null): number | null {
+  if (!value) return null;
+  const [h, m] = value.split(":").map(Number);
+  return h * 60 + (m || 0);
+}
+
+export function fareSurchargeFromRow(row: FareSurchargeRow): FareSurcharge {
+  return {
+    kind: row.kind as FareSurchargeKind,
+    label: row.label,
+    isoWeekdays: row.iso_weekdays ?? [],
+    startMinute: minutesFromTime(row.start_time),
+    endMinute: minutesFromTime(row.end_time),
+    multiplier: numOrNull(row.multiplier),
+    flatAmount: numOrNull(row.flat_amount),
+    sortOrder: row.sort_order,
+  };
+}
 
 // ── Rounding — nearest $100, preserve $X50 values ──
 export function roundFare(amount: number): number {
@@ -29,47 +163,114 @@ export function roundFare(amount: number): number {
   return Math.round(rounded / 100) * 100;
 }
 
-// ── Zone classification from coordinates (fallback) ──
-export function classifyZoneFromCoords(lat: number, lng: number): string {
-  if (Math.abs(lat - 6.4986) < 0.05 && Math.abs(lng + 58.2541) < 0.05) return "AIRPORT";
-  if (lng > -57.9) return "BERBICE";
-  if (lng < -58.45 && lat > 6.9) return "ESSEQUIBO";
-  if (lat < 5.5) return "INTERIOR";
-  if (lat < 6.55) return "LINDEN";
-  if (lat >= 6.795 && lat <= 6.828 && lng >= -58.17 && lng <= -58.13) return "CENTRAL";
-  if (lng < -58.185) return lat >= 6.78 ? "WEST_COAST" : "WEST_BANK";
-  if (lat < 6.795) return "EAST_BANK";
-  return "EAST_COAST";
+function money(amount: number): string {
+  return `$${amount.toLocaleString("en-US")}`;
 }
 
-export function crossesDemeraraRiver(zoneA: string, zoneB: string): boolean {
-  const westSide = ["WEST_COAST", "WEST_BANK"];
-  return westSide.includes(zoneA) !== westSide.includes(zoneB);
+function km(value: number): string {
+  return String(Number(value.toFixed(2)));
 }
 
-// ── East Bank bracket pricing (from original confirmed calibration) ──
-// Matches: Camp→Diamond 14km = $3,500, Soesdyke 25km, Airport-adjacent routes
-function eastBankBrackets(distanceKm: number): number {
-  const brackets = [
-    { upToKm: 4, rate: 350 }, // first 4km
-    { upToKm: 9, rate: 300 }, // km 5-9
-    { upToKm: 20, rate: 120 }, // km 10-20 (highway entry)
-    { upToKm: 30, rate: 200 }, // km 21-30 (climbing)
-    { upToKm: Infinity, rate: 380 }, // km 31+
-  ];
+export function bracketCharge(brackets: FareBracket[], distanceKm: number): number {
   let remaining = distanceKm,
     charge = 0,
     prev = 0;
   for (const { upToKm, rate } of brackets) {
     if (remaining <= 0) break;
-    const used = Math.min(remaining, upToKm - prev);
+    const limit = upToKm ?? Infinity;
+    const used = Math.min(remaining, limit - prev);
     charge += used * rate;
     remaining -= used;
-    prev = upToKm;
+    prev = limit;
   }
   return charge;
 }
 
+function zoneIn(zones: string[], zone: string): boolean {
+  return zones.length === 0 || zones.includes(zone);
+}
+
+export function ruleMatches(
+  rule: FareRule,
+  pickupZone: string,
+  dropoffZone: string,
+  distanceKm: number,
+): boolean {
+  if (rule.minDistanceKm != null && distanceKm < rule.minDistanceKm) return false;
+  if (rule.maxDistanceKm != null && distanceKm >= rule.maxDistanceKm) return false;
+  if (zoneIn(rule.pickupZones, pickupZone) && zoneIn(rule.dropoffZones, dropoffZone)) return true;
+  return rule.bidirectional &&
+    zoneIn(rule.pickupZones, dropoffZone) && zoneIn(rule.dropoffZones, pickupZone);
+}
+
+/** Total and rider-facing breakdown line for one matched rule. */
+export function applyFareRule(rule: FareRule, distanceKm: number): { total: number; breakdown: string } {
+  if (rule.flatAmount != null) {
+    const total = Math.max(rule.minimumFare, roundFare(rule.flatAmount));
+    return { total, breakdown: `${rule.branch} flat rate ${money(total)}` };
+  }
+
+  const billableKm = Math.max(0, distanceKm - rule.baseDistanceKm);
+  const distanceCharge = rule.brackets?.length
+    ? bracketCharge(rule.brackets, billableKm)
+    : billableKm * (rule.perKmRate ?? 0);
+  const rounded = roundFare(rule.baseAmount + distanceCharge);
+  const total = Math.max(rule.minimumFare, rounded);
+
+  if (rounded < rule.minimumFare) {
+    return { total, breakdown: `${rule.branch} minimum fare ${money(total)}` };
+  }
+  if (rule.brackets?.length) {
+    return { total, breakdown: `${rule.branch} bracket pricing = ${money(total)}` };
+  }
+  if (rule.baseAmount > 0) {
+    return {
+      total,
+      breakdown: `${rule.branch}: ${money(rule.baseAmount)} base + ${km(billableKm)}km × ${
+        money(rule.perKmRate ?? 0)
+      } = ${money(total)}`,
+    };
+  }
+  return {
+    total,
+    breakdown: `${rule.branch}: ${km(billableKm)}km × ${money(rule.perKmRate ?? 0)} = ${money(total)}`,
+  };
+}
+
+export function surchargeApplies(surcharge: FareSurcharge, clock: FareClock): boolean {
+  if (surcharge.kind === "holiday" && !clock.isHoliday) return false;
+  if (surcharge.isoWeekdays.length && !surcharge.isoWeekdays.includes(clock.isoWeekday)) {
+    return false;
+  }
+  const { startMinute: start, endMinute: end } = surcharge;
+  if (start == null || end == null) return true;
+  return start <= end
+    ? clock.minutes >= start && clock.minutes < end
+    : clock.minutes >= start || clock.minutes < end;
+}
+
+/** Add-ons for the pickup time, each priced on the base fare (they do not compound). */
+export function applySurcharges(
+  surcharges: FareSurcharge[],
+  baseTotal: number,
+  clock: FareClock | null,
+): { kind: FareSurchargeKind; label: string; amount: number; line: string }[] {
+  if (!clock) return [];
+  return [...surcharges]
+    .sort((a, b) => a.sortOrder - b.sortOrder)
+    .filter((s) => surchargeApplies(s, clock))
+    .map((s) => {
+      const amount = s.multiplier != null
+        ? roundFare(baseTotal * (s.multiplier - 1))
+        : roundFare(s.flatAmount ?? 0);
+      const detail = s.multiplier != null
+        ? ` (${s.multiplier >= 1 ? "+" : ""}${Number(((s.multiplier - 1) * 100).toFixed(2))}%)`
+        : "";
+      return { kind: s.kind, label: s.label, amount, line: `${s.label}${detail} ${amount < 0 ? "−" : "+"}${money(Math.abs(amount))}` };
+    })
+    .filter((s) => s.amount !== 0);
+}
+
 // ───────────────────────────────────────────────────────────
 //  MAIN FUNCTION
 // ───────────────────────────────────────────────────────────
@@ -77,194 +278,169 @@ export function calculateFare({
   distanceKm,
   pickupZone,
   dropoffZone,
+  ruleSet,
+  clock = null,
 }: {
   distanceKm: number | null;
   pickupZone: string;
   dropoffZone: string;
+  ruleSet: FareRuleSet;
+  /** Pickup time; null skips time-of-day and holiday surcharges. */
+  clock?: FareClock | null;
 }) {
+  const negotiate = (message: string, distance: number | null) => ({
+    status: "NEGOTIATE",
+    total: null,
+    message,
+    breakdown: null,
+    branch: null,
+    surcharges: [],
+    ruleSetVersion: ruleSet.versionLabel,
+    zones: { pickup: pickupZone, dropoff: dropoffZone },
+    distanceKm: distance,
+  });
+
   // Validate
   if (distanceKm == null || distanceKm < 0) {
-    return {
-      status: "NEGOTIATE",
-      total: null,
-      message:
-        "We couldn't calculate the route distance. Please confirm the fare with your driver before the ride.",
-      breakdown: null,
-      zones: { pickup: pickupZone, dropoff: dropoffZone },
-      distanceKm: null,
-    };
+    return negotiate(
+      "We couldn't calculate the route distance. Please confirm the fare with your driver before the ride.",
+      null,
+    );
   }
 
   // Essequibo / Interior → NEGOTIATE
   if (UNPRICED_ZONES.includes(pickupZone as (typeof UNPRICED_ZONES)[number]) ||
     UNPRICED_ZONES.includes(dropoffZone as (typeof UNPRICED_ZONES)[number])) {
-    return {
-      status: "NEGOTIATE",
-      total: null,
-      message:
-        "We don't have pricing data for this route yet. Please agree on a fare directly with your driver.",
-      breakdown: null,
-      zones: { pickup: pickupZone, dropoff: dropoffZone },
+    return negotiate(
+      "We don't have pricing data for this route yet. Please agree on a fare directly with your driver.",
       distanceKm,
-    };
+    );
   }
 
   // Unknown zones
   if (!PRICED_ZONES.includes(pickupZone as (typeof PRICED_ZONES)[number]) ||
     !PRICED_ZONES.includes(dropoffZone as (typeof PRICED_ZONES)[number])) {
-    return {
-      status: "NEGOTIATE",
-      total: null,
-      message:
-        "We couldn't identify the location for this route. Please agree on a fare directly with your driver.",
-      breakdown: null,
-      zones: { pickup: pickupZone, dropoff: dropoffZone },
+    return negotiate(
+      "We couldn't identify the location for this route. Please agree on a fare directly with your driver.",
       distanceKm,
-    };
+    );
   }
 
-  // ═══════════════════════════════════════════════════════
-  //  PRICED PATHS
-  // ═══════════════════════════════════════════════════════
+  const rule = [...ruleSet.rules]
+    .sort((a, b) => a.priority - b.priority)
+    .find((r) => ruleMatches(r, pickupZone, dropoffZone, distanceKm));
 
-  // ── Airport flat rate ─────────────────────────────────
-  if (pickupZone === "AIRPORT" || dropoffZone === "AIRPORT") {
-    return {
-      status: "PRICED",
-      total: roundFare(9500),
-      message: null,
-      breakdown: "Airport flat rate $9,500",
-      zones: { pickup: pickupZone, dropoff: dropoffZone },
+  // No rule covers this zone pair / distance
+  if (!rule) {
+    return negotiate(
+      "We don't have pricing data for this route yet. Please agree on a fare directly with your driver.",
       distanceKm,
-    };
+    );
   }
 
-  // ── Short drop (<3km) — original $350/km rate ─────────
-  if (distanceKm < SHORT_DROP_KM) {
-    const raw = Math.max(MINIMUM_FARE, Math.round(distanceKm * SHORT_DROP_RATE));
-    const total = Math.max(MINIMUM_FARE, roundFare(raw));
-    return {
-      status: "PRICED",
-      total,
-      message: null,
-      breakdown: total === MINIMUM_FARE
-        ? `Minimum fare $${MINIMUM_FARE}`
-        : `${distanceKm}km × $${SHORT_DROP_RATE} = $${total.toLocaleString()}`,
-      zones: { pickup: pickupZone, dropoff: dropoffZone },
-      distanceKm,
-    };
-  }
+  const base = applyFareRule(rule, distanceKm);
+  const surcharges = applySurcharges(ruleSet.surcharges, base.total, clock);
+  const total = base.total + surcharges.reduce((sum, s) => sum + s.amount, 0);
+  const breakdown = surcharges.length
+    ? [base.breakdown, ...surcharges.map((s) => s.line), `Total ${money(total)}`].join("\n")
+    : base.breakdown;
 
-  // ── Cross-river (West ↔ East) — Matrix calibrated ─────
-  if (crossesDemeraraRiver(pickupZone, dropoffZone)) {
-    const total = roundFare(2000 + distanceKm * 160);
-    return {
-      status: "PRICED",
-      total,
-      message: null,
-      breakdown: `$2,000 base + ${distanceKm}km × $160 = $${total.toLocaleString()}`,
-      zones: { pickup: pickupZone, dropoff: dropoffZone },
-      distanceKm,
-    };
-  }
+  return {
+    status: "PRICED",
+    total,
+    message: null,
+    breakdown,
+    branch: rule.branch,
+    surcharges: surcharges.map(({ kind, label, amount }) => ({ kind, label, amount })),
+    ruleSetVersion: ruleSet.versionLabel,
+    zones: { pickup: pickupZone, dropoff: dropoffZone },
+    distanceKm,
+  };
+}
 
-  // ── Both Central — original confirmed formula ──────────
-  if (pickupZone === "CENTRAL" && dropoffZone === "CENTRAL") {
-    const total = roundFare(Math.max(MINIMUM_FARE, 1050 + (distanceKm - 3) * 100));
-    return {
-      status: "PRICED",
-      total,
-      message: null,
-      breakdown:
-        `$1,050 base + ${(distanceKm - 3).toFixed(2)}km × $100 = $${total.toLocaleString()}`,
-      zones: { pickup: pickupZone, dropoff: dropoffZone },
-      distanceKm,
-    };
-  }
+export type FareLeg = {
+  distanceKm: number | null;
+  pickupZone: string;
+  dropoffZone: string;
+};
 
-  // ── West side internal — Matrix calibrated ────────────
-  const bothWest = ["WEST_COAST", "WEST_BANK"].includes(pickupZone) &&
-    ["WEST_COAST", "WEST_BANK"].includes(dropoffZone);
-  if (bothWest) {
-    const total = roundFare(Math.max(2000, distanceKm * 160));
-    return {
-      status: "PRICED",
-      total,
-      message: null,
-      breakdown: total === 2000
-        ? `Minimum West side fare $2,000`
-        : `${distanceKm}km × $160 = $${total.toLocaleString()}`,
-      zones: { pickup: pickupZone, dropoff: dropoffZone },
-      distanceKm,
-    };
+/**
+ * Pickup → stop 1 → … → dropoff. Each leg is matched and priced like a single trip; the quote adds
+ * the set's waiting fee per intermediate stop and applies surcharges once to the summed leg fares.
+ * Any leg that can't be priced makes the whole trip NEGOTIATE.
+ */
+export function calculateMultiStopFare({
+  legs,
+  ruleSet,
+  clock = null,
+}: {
+  legs: FareLeg[];
+  ruleSet: FareRuleSet;
+  clock?: FareClock | null;
+}) {
+  if (legs.length === 0) {
+    throw new Error("calculateMultiStopFare: at least one leg is required");
   }
 
-  // ── Linden corridor — Matrix calibrated ───────────────
-  if (pickupZone === "LINDEN" || dropoffZone === "LINDEN") {
-    const total = roundFare(distanceKm * 130);
-    return {
-      status: "PRICED",
-      total,
-      message: null,
-      breakdown: `${distanceKm}km × $130 (Linden highway) = $${total.toLocaleString()}`,
-      zones: { pickup: pickupZone, dropoff: dropoffZone },
-      distanceKm,
-    };
-  }
+  const quotes = legs.map((leg) => calculateFare({ ...leg, ruleSet }));
+  const legSummaries = quotes.map((q) => ({
+    pickupZone: q.zones.pickup,
+    dropoffZone: q.zones.dropoff,
+    distanceKm: q.distanceKm,
+    status: q.status,
+    total: q.total,
+    branch: q.branch,
+    breakdown: q.breakdown,
+  }));
+  const knownKm = quotes.every((q) => q.distanceKm != null)
+    ? quotes.reduce((sum, q) => sum + q.distanceKm!, 0)
+    : null;
+  const zones = { pickup: legs[0].pickupZone, dropoff: legs[legs.length - 1].dropoffZone };
+  const stops = legs.length - 1;
 
-  // ── Berbice corridor — Matrix calibrated ──────────────
-  if (pickupZone === "BERBICE" || dropoffZone === "BERBICE") {
-    const total = roundFare(distanceKm * 180);
+  const unpriced = quotes.findIndex((q) => q.status !== "PRICED");
+  if (unpriced !== -1) {
     return {
-      status: "PRICED",
-      total,
-      message: null,
-      breakdown: `${distanceKm}km × $180 (Berbice corridor) = $${total.toLocaleString()}`,
-      zones: { pickup: pickupZone, dropoff: dropoffZone },
-      distanceKm,
+      status: "NEGOTIATE",
+      total: null,
+      message: legs.length > 1 ? `Leg ${unpriced + 1}: ${quotes[unpriced].message}` : quotes[unpriced].message,
+      breakdown: null,
+      branch: null,
+      surcharges: [],
+      ruleSetVersion: ruleSet.versionLabel,
+      zones,
+      distanceKm: knownKm,
+      legs: legSummaries,
+      waitingFee: null,
     };
   }
 
-  // ── Long East Coast (15km+) — rural highway rate ──────
-  const touchesEastCoast = pickupZone === "EAST_COAST" || dropoffZone === "EAST_COAST";
-  if (touchesEastCoast && distanceKm >= 15) {
-    const total = roundFare(Math.max(2000, distanceKm * 160));
-    return {
-      status: "PRICED",
-      total,
-      message: null,
-      breakdown: `Long East Coast: ${distanceKm}km × $160 = $${total.toLocaleString()}`,
-      zones: { pickup: pickupZone, dropoff: dropoffZone },
-      distanceKm,
-    };
-  }
+  const legsTotal = quotes.reduce((sum, q) => sum + q.total!, 0);
+  const waitingAmount = stops * ruleSet.stopWaitingFee;
+  const surcharges = applySurcharges(ruleSet.surcharges, legsTotal, clock);
+  const total = legsTotal + waitingAmount + surcharges.reduce((sum, s) => sum + s.amount, 0);
 
-  // ── East Bank (any distance) — original bracket formula ───
-  const isEastBankRoute =
-    (pickupZone === "EAST_BANK" || dropoffZone === "EAST_BANK") &&
-    !touchesEastCoast;
-  if (isEastBankRoute) {
-    const charge = eastBankBrackets(distanceKm);
-    const total = roundFare(Math.max(MINIMUM_FARE, charge));
-    return {
-      status: "PRICED",
-      total,
-      message: null,
-      breakdown: `East Bank bracket pricing = $${total.toLocaleString()}`,
-      zones: { pickup: pickupZone, dropoff: dropoffZone },
-      distanceKm,
-    };
+  const lines = quotes.map((q, i) =>
+    `Leg ${i + 1} (${q.zones.pickup} → ${q.zones.dropoff}, ${km(q.distanceKm!)}km): ${q.breakdown}`
+  );
+  if (waitingAmount > 0) {
+    lines.push(
+      `Waiting at ${stops} stop${stops === 1 ? "" : "s"} × ${money(ruleSet.stopWaitingFee)} = ${money(waitingAmount)}`,
+    );
   }
+  lines.push(...surcharges.map((s) => s.line), `Total ${money(total)}`);
 
-  // ── Default: East corridor (Central ↔ East Coast short) ───
-  const total = roundFare(Math.max(MINIMUM_FARE, 1050 + (distanceKm - 3) * 220));
   return {
     status: "PRICED",
     total,
     message: null,
-    breakdown:
-      `$1,050 base + ${(distanceKm - 3).toFixed(2)}km × $220 = $${total.toLocaleString()}`,
-    zones: { pickup: pickupZone, dropoff: dropoffZone },
-    distanceKm,
+    breakdown: lines.join("\n"),
+    branch: [...new Set(quotes.map((q) => q.branch))].join(" + "),
+    surcharges: surcharges.map(({ kind, label, amount }) => ({ kind, label, amount })),
+    ruleSetVersion: ruleSet.versionLabel,
+    zones,
+    distanceKm: knownKm,
+    legs: legSummaries,
+    waitingFee: { stops, perStop: ruleSet.stopWaitingFee, amount: waitingAmount },
   };
 }
@@ -0,0 +1,32 @@
+import { createServiceClient } from "./supabaseClient.ts";
+import { zoneBoundariesFromRows, type ZoneBoundary } from "../_shared/zones.ts";
+
+const CACHE_TTL_MS = 60_000;
+
+let cachedBoundaries: ZoneBoundary[] | null = null;
+let cachedAt = 0;
+
+/** Zones with a drawn `boundary`, in sort order. */
+export async function fetchZoneBoundariesCached(): Promise<ZoneBoundary[]> {
+  const now = Date.now();
+  if (cachedBoundaries !== null && now - cachedAt < CACHE_TTL_MS) {
+    return cachedBoundaries;
+  }
+
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from("cost_estimate_zones")
+    .select("code, sort_order, boundary")
+    .not("boundary", "is", null);
+
+  if (error) {
+    throw new Error(`Zone boundaries load failed: ${error.message}`);
+  }
+
+  cachedBoundaries = zoneBoundariesFromRows(
+    (data ?? []) as Array<{ code: string; sort_order: number; boundary: unknown }>,
+  );
+  cachedAt = now;
+  return cachedBoundaries;
+}
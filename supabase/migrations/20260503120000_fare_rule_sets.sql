@@ -0,0 +1,131 @@
+-- fare_rule_sets + fare_rules (portal-managed; cost-estimates Edge Function prices with the active set).
+--
+-- A rule set is a versioned, ordered list of rules. The *active* set is the row with the latest
+-- activated_at (same convention as agreement_versions.published_at); rolling back = re-activating
+-- an older set. Rules of a set that has ever been activated are treated as read-only by the portal.
+--
+-- calculateFare walks rules by priority and uses the first whose zone pair and distance window match:
+--   pickup_zones / dropoff_zones  empty array = any priced zone; bidirectional also matches swapped
+--   min_distance_km (inclusive) / max_distance_km (exclusive)
+-- and prices it as:
+--   flat_amount                                       when set, otherwise
+--   base_amount + charge(distance - base_distance_km) charge = brackets, else per_km_rate
+--   then rounded to the nearest $100 (keeping $X50) and raised to minimum_fare.
+--
+-- Seed: v4 hybrid calibration, previously hardcoded in pricing.ts.
+
+create table public.fare_rule_sets (
+    id uuid not null default gen_random_uuid(),
+    version_label text not null,
+    notes text,
+    activated_at timestamp with time zone,
+    activated_by uuid,
+    created_by uuid,
+    created_at timestamp with time zone not null default now(),
+    updated_at timestamp with time zone not null default now(),
+    constraint fare_rule_sets_pkey primary key (id),
+    constraint fare_rule_sets_version_label_key unique (version_label),
+    constraint fare_rule_sets_activated_by_fkey foreign key (activated_by) references public.users (id) on delete set null,
+    constraint fare_rule_sets_created_by_fkey foreign key (created_by) references public.users (id) on delete set null
+);
+
+create table public.fare_rules (
+    id uuid not null default gen_random_uuid(),
+    rule_set_id uuid not null,
+    priority integer not null,
+    branch text not null,
+    pickup_zones text[] not null default '{}'::text[],
+    dropoff_zones text[] not null default '{}'::text[],
+    bidirectional boolean not null default true,
+    min_distance_km numeric,
+    max_distance_km numeric,
+    flat_amount numeric,
+    base_amount numeric not null default 0,
+    base_distance_km numeric not null default 0,
+    per_km_rate numeric,
+    brackets jsonb,
+    minimum_fare numeric not null default 0,
+    created_at timestamp with time zone not null default now(),
+    updated_at timestamp with time zone not null default now(),
+    constraint fare_rules_pkey primary key (id),
+    constraint fare_rules_rule_set_id_fkey foreign key (rule_set_id) references public.fare_rule_sets (id) on delete cascade,
+    constraint fare_rules_rule_set_priority_key unique (rule_set_id, priority),
+    constraint fare_rules_has_rate check (
+        flat_amount is not null or per_km_rate is not null or brackets is not null
+    ),
+    constraint fare_rules_distance_window check (
+        min_distance_km is null or max_distance_km is null or min_distance_km < max_distance_km
+    )
+);
+
+create index fare_rule_sets_activated_at_idx on public.fare_rule_sets (activated_at desc nulls last);
+
+alter table public.fare_rule_sets enable row level security;
+
+alter table public.fare_rules enable row level security;
+
+create trigger fare_rule_sets_set_updated_at
+  before update on public.fare_rule_sets
+  for each row
+  execute function public.touch_cost_estimate_updated_at();
+
+create trigger fare_rules_set_updated_at
+  before update on public.fare_rules
+  for each row
+  execute function public.touch_cost_estimate_updated_at();
+
+with rule_set as (
+  insert into public.fare_rule_sets (version_label, notes, activated_at)
+  values (
+    'v4',
+    'Hybrid calibration: Town / East Coast formulas from original confirmed calibration; West side / Airport / Linden / Berbice from the matrix.',
+    now()
+  )
+  returning id
+)
+insert into public.fare_rules (
+  rule_set_id,
+  priority,
+  branch,
+  pickup_zones,
+  dropoff_zones,
+  bidirectional,
+  min_distance_km,
+  max_distance_km,
+  flat_amount,
+  base_amount,
+  base_distance_km,
+  per_km_rate,
+  brackets,
+  minimum_fare
+)
+select rule_set.id, r.*
+from rule_set,
+(values
+  (10, 'Airport', '{AIRPORT}'::text[], '{}'::text[], true, null::numeric, null::numeric, 9500::numeric, 0::numeric, 0::numeric, null::numeric, null::jsonb, 0::numeric),
+  (20, 'Short drop', '{}', '{}', true, null, 3, null, 0, 0, 350, null, 540),
+  (30, 'Cross-river', '{WEST_COAST,WEST_BANK}', '{CENTRAL,EAST_BANK,EAST_COAST,LINDEN,BERBICE}', true, null, null, null, 2000, 0, 160, null, 0),
+  (40, 'Central', '{CENTRAL}', '{CENTRAL}', true, null, null, null, 1050, 3, 100, null, 540),
+  (50, 'West side', '{WEST_COAST,WEST_BANK}', '{WEST_COAST,WEST_BANK}', true, null, null, null, 0, 0, 160, null, 2000),
+  (60, 'Linden highway', '{LINDEN}', '{}', true, null, null, null, 0, 0, 130, null, 0),
+  (70, 'Berbice corridor', '{BERBICE}', '{}', true, null, null, null, 0, 0, 180, null, 0),
+  (80, 'Long East Coast', '{EAST_COAST}', '{}', true, 15, null, null, 0, 0, 160, null, 2000),
+  (90, 'East Bank', '{EAST_BANK}', '{CENTRAL,EAST_BANK}', true, null, null, null, 0, 0, null,
+    '[{"up_to_km": 4, "rate": 350}, {"up_to_km": 9, "rate": 300}, {"up_to_km": 20, "rate": 120}, {"up_to_km": 30, "rate": 200}, {"up_to_km": null, "rate": 380}]'::jsonb,
+    540),
+  (100, 'East corridor', '{}', '{}', true, null, null, null, 1050, 3, 220, null, 540)
+) as r (
+  priority,
+  branch,
+  pickup_zones,
+  dropoff_zones,
+  bidirectional,
+  min_distance_km,
+  max_distance_km,
+  flat_amount,
+  base_amount,
+  base_distance_km,
+  per_km_rate,
+  brackets,
+  minimum_fare
+);
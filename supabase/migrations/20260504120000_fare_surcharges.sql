@@ -0,0 +1,48 @@
+-- fare_surcharges (per rule set) + public_holidays (calendar), evaluated on pickup time in Guyana local time.
+--
+-- A surcharge applies when the pickup falls on one of iso_weekdays (1 = Monday … 7 = Sunday; empty = every day)
+-- and inside [start_time, end_time) — the window wraps past midnight when start_time > end_time, and
+-- null times mean all day. kind = 'holiday' additionally requires the local date to be in public_holidays.
+-- Amount = base fare × (multiplier − 1), or flat_amount; surcharges do not compound and each becomes its
+-- own breakdown line.
+--
+-- No surcharges are seeded: the active v4 set keeps its prices until an admin activates a set with surcharges.
+
+create table public.fare_surcharges (
+    id uuid not null default gen_random_uuid(),
+    rule_set_id uuid not null,
+    kind text not null,
+    label text not null,
+    iso_weekdays integer[] not null default '{}'::integer[],
+    start_time time without time zone,
+    end_time time without time zone,
+    multiplier numeric,
+    flat_amount numeric,
+    sort_order integer not null default 0,
+    created_at timestamp with time zone not null default now(),
+    updated_at timestamp with time zone not null default now(),
+    constraint fare_surcharges_pkey primary key (id),
+    constraint fare_surcharges_rule_set_id_fkey foreign key (rule_set_id) references public.fare_rule_sets (id) on delete cascade,
+    constraint fare_surcharges_kind_check check (kind in ('night', 'peak', 'holiday')),
+    constraint fare_surcharges_amount_check check ((multiplier is null) <> (flat_amount is null)),
+    constraint fare_surcharges_window_check check ((start_time is null) = (end_time is null)),
+    constraint fare_surcharges_weekdays_check check (iso_weekdays <@ array[1, 2, 3, 4, 5, 6, 7])
+);
+
+create index fare_surcharges_rule_set_id_idx on public.fare_surcharges (rule_set_id);
+
+create table public.public_holidays (
+    holiday_date date not null,
+    name text not null,
+    created_at timestamp with time zone not null default now(),
+    constraint public_holidays_pkey primary key (holiday_date)
+);
+
+alter table public.fare_surcharges enable row level security;
+
+alter table public.public_holidays enable row level security;
+
+create trigger fare_surcharges_set_updated_at
+  before update on public.fare_surcharges
+  for each row
+  execute function public.touch_cost_estimate_updated_at();
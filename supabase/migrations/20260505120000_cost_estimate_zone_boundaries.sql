@@ -0,0 +1,12 @@
+-- cost_estimate_zones.boundary: GeoJSON Polygon / MultiPolygon ([lng, lat] positions) drawn in the admin portal.
+--
+-- The cost-estimates function classifies a point into the first zone (by sort_order, then code) whose polygon
+-- contains it. Outside every polygon it uses the legacy bounding-box zone when that zone has no polygon yet,
+-- otherwise the nearest drawn polygon. With no boundaries drawn, classification is unchanged.
+
+alter table public.cost_estimate_zones
+  add column boundary jsonb;
+
+alter table public.cost_estimate_zones
+  add constraint cost_estimate_zones_boundary_type_check
+  check (boundary is null or boundary->>'type' in ('Polygon', 'MultiPolygon'));
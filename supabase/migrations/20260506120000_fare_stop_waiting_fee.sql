@@ -0,0 +1,11 @@
+-- fare_rule_sets.stop_waiting_fee: flat charge per intermediate stop on multi-stop estimates.
+--
+-- A trip pickup → stop 1 → … → dropoff is priced leg by leg with the set's rules; the quote adds
+-- stop_waiting_fee once per intermediate stop, then applies surcharges to the summed leg fares.
+-- Existing sets default to 0 so single-destination prices are unchanged.
+
+alter table public.fare_rule_sets
+  add column stop_waiting_fee numeric not null default 0;
+
+alter table public.fare_rule_sets
+  add constraint fare_rule_sets_stop_waiting_fee_check check (stop_waiting_fee >= 0);
@@ -0,0 +1,50 @@
+-- fare_estimate_logs: one row per cost-estimates call, written by the Edge Function (service role).
+--
+-- Keeps what the rider typed, what it resolved to (addresses, zones, distance), the rule branch and the
+-- quoted total, so quotes can be audited later. The function returns the row id as `estimateId`; the
+-- rider app sends it back as trip_requests.fare_estimate_id, and the trip that follows is reached via
+-- trips.request_id — giving quoted total → trip_requests.estimated_fare → trips.actual_fare per quote.
+--
+-- Rows are never updated; logging failures don't block the estimate.
+
+create table public.fare_estimate_logs (
+    id uuid not null default gen_random_uuid(),
+    pickup_latitude double precision not null,
+    pickup_longitude double precision not null,
+    pickup_address text,
+    input_dropoff text not null,
+    input_stops text[] not null default '{}'::text[],
+    pickup_at timestamp with time zone,
+    dropoff_address text,
+    dropoff_latitude double precision,
+    dropoff_longitude double precision,
+    stop_addresses text[] not null default '{}'::text[],
+    locations jsonb,
+    pickup_zone text,
+    dropoff_zone text,
+    distance_km numeric,
+    status text not null,
+    branch text,
+    total numeric,
+    message text,
+    breakdown text,
+    rule_set_version text,
+    created_at timestamp with time zone not null default now(),
+    constraint fare_estimate_logs_pkey primary key (id),
+    constraint fare_estimate_logs_status_check check (status in ('PRICED', 'NEGOTIATE'))
+);
+
+create index fare_estimate_logs_created_at_idx on public.fare_estimate_logs (created_at desc);
+
+create index fare_estimate_logs_zone_pair_idx on public.fare_estimate_logs (pickup_zone, dropoff_zone);
+
+alter table public.fare_estimate_logs enable row level security;
+
+alter table public.trip_requests
+  add column fare_estimate_id uuid;
+
+alter table public.trip_requests
+  add constraint trip_requests_fare_estimate_id_fkey
+  foreign key (fare_estimate_id) references public.fare_estimate_logs (id) on delete set null;
+
+create index trip_requests_fare_estimate_id_idx on public.trip_requests (fare_estimate_id);
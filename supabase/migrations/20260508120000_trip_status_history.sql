@@ -0,0 +1,100 @@
+-- Trip state machine support: 'arrived' status + trip_status_history audit trail.
+--
+-- Legal transitions live in lib/trips/state-machine.ts:
+--   requested → accepted → arrived → picked_up → completed, cancellation per actor.
+-- trips.driver_arrived_at already exists and is stamped on 'arrived'.
+--
+-- History rows are written by trigger (same pattern as incident_status_history) for every insert and
+-- status change, whichever path made it (API, accept_trip_request, admin). The changer is
+-- trips.status_changed_by when the writer sets it alongside the status (service-role API routes have no
+-- auth user), else the auth user; actor is that user's role, or 'system' when there is none.
+-- status_changed_by is write-only: the update trigger consumes it and clears it, so a stale value is
+-- never attributed to a later change. Trips before this migration have no history.
+
+alter type public.trip_status add value if not exists 'arrived' after 'accepted';
+
+alter table public.trips
+  add column status_changed_by uuid;
+
+alter table public.trips
+  add constraint trips_status_changed_by_fkey
+  foreign key (status_changed_by) references public.users (id) on delete set null;
+
+create table public.trip_status_history (
+    id uuid primary key default gen_random_uuid(),
+    trip_id uuid not null references public.trips (id) on delete cascade,
+    from_status public.trip_status,
+    to_status public.trip_status not null,
+    changed_by uuid references public.users (id) on delete set null,
+    actor text not null,
+    note text,
+    changed_at timestamptz not null default now(),
+    constraint trip_status_history_actor_check check (actor in ('driver', 'rider', 'admin', 'system'))
+);
+
+create index trip_status_history_trip_idx
+  on public.trip_status_history (trip_id, changed_at desc);
+
+create or replace function public.trips_log_status_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $function$
+declare
+  v_changer uuid;
+  v_role text;
+begin
+  if tg_op = 'UPDATE' and old.status is not distinct from new.status then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' or new.status_changed_by is distinct from old.status_changed_by then
+    v_changer := new.status_changed_by;
+  end if;
+  if v_changer is null then
+    select u.id into v_changer from public.users u where u.auth_id = auth.uid() limit 1;
+  end if;
+  if v_changer is not null then
+    select u.role::text into v_role from public.users u where u.id = v_changer;
+  end if;
+
+  insert into public.trip_status_history (trip_id, from_status, to_status, changed_by, actor, note)
+  values (
+    new.id,
+    case when tg_op = 'UPDATE' then old.status end,
+    new.status,
+    v_changer,
+    case when v_role in ('driver', 'rider', 'admin') then v_role else 'system' end,
+    case when new.status = 'cancelled' then new.cancellation_reason end
+  );
+
+  if tg_op = 'UPDATE' then
+    new.status_changed_by := null;
+  end if;
+  return new;
+end;
+$function$;
+
+-- Inserts log after the row exists (history references it); updates log before, to clear status_changed_by.
+create trigger trigger_trips_log_status_insert
+  after insert on public.trips
+  for each row
+  execute function public.trips_log_status_change();
+
+create trigger trigger_trips_log_status_change
+  before update of status on public.trips
+  for each row
+  execute function public.trips_log_status_change();
+
+alter table public.trip_status_history enable row level security;
+
+create policy "Admins can read trip status history"
+  on public.trip_status_history
+  for select to authenticated
+  using (
+    exists (
+      select 1 from public.users u
+      where u.auth_id = auth.uid() and u.role = 'admin'
+    )
+  );
@@ -0,0 +1,70 @@
+-- subscription_plans: server-side catalog of what riders and drivers can buy (portal-managed).
+--
+-- POST /api/mmg/checkout accepts only a plan code; price, currency and description come from this
+-- table, and the code is stored on payment_transactions.plan_code. The MMG webhook and
+-- POST /api/mmg/confirm-payment derive the subscription term from the plan (lib/subscription-plans.ts):
+--   end_date = start + trial_days (first subscription of that user only) + term_days
+-- and write the plan code to subscriptions.plan_type.
+--
+-- Deactivating a plan hides it from checkout; pending transactions already created for it still
+-- complete with the plan's term. Transactions from before this migration have no plan_code and keep
+-- the old 30-day 'monthly' term.
+--
+-- Seed: rider_monthly / driver_monthly from system_config.subscription_prices when that key is set.
+
+create table public.subscription_plans (
+    code text not null,
+    audience text not null,
+    label text not null,
+    description text,
+    price numeric not null,
+    currency text not null default 'GYD',
+    term_days integer not null,
+    trial_days integer not null default 0,
+    is_active boolean not null default true,
+    sort_order integer not null default 0,
+    created_at timestamp with time zone not null default now(),
+    updated_at timestamp with time zone not null default now(),
+    constraint subscription_plans_pkey primary key (code),
+    constraint subscription_plans_code_format check (code ~ '^[a-z0-9_]+$'),
+    constraint subscription_plans_audience_check check (audience in ('driver', 'rider')),
+    constraint subscription_plans_price_positive check (price > 0),
+    constraint subscription_plans_term_positive check (term_days > 0),
+    constraint subscription_plans_trial_non_negative check (trial_days >= 0)
+);
+
+create index subscription_plans_audience_idx
+  on public.subscription_plans (audience, sort_order)
+  where is_active;
+
+create trigger subscription_plans_set_updated_at
+  before update on public.subscription_plans
+  for each row
+  execute function public.update_updated_at_column();
+
+alter table public.subscription_plans enable row level security;
+
+-- The plan list is a public price list; writes go through the portal (service role).
+create policy "Anyone can read subscription plans"
+  on public.subscription_plans
+  for select to anon, authenticated
+  using (true);
+
+alter table public.payment_transactions
+  add column plan_code text;
+
+alter table public.payment_transactions
+  add constraint payment_transactions_plan_code_fkey
+  foreign key (plan_code) references public.subscription_plans (code) on update cascade;
+
+insert into public.subscription_plans (code, audience, label, price, term_days, sort_order)
+select p.code, p.audience, p.label, (c.value ->> p.code)::numeric, 30, 20
+from public.system_config c
+cross join (
+  values
+    ('rider_monthly', 'rider', 'Rider monthly'),
+    ('driver_monthly', 'driver', 'Driver monthly')
+) as p (code, audience, label)
+where c.key = 'subscription_prices'
+  and jsonb_typeof(c.value -> p.code) = 'number'
+  and (c.value ->> p.code)::numeric > 0;
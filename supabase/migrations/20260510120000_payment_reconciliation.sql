@@ -0,0 +1,68 @@
+-- Payment reconciliation: MMG checkouts stuck in pending / processing are checked against the MMG
+-- transaction lookup and settled (lib/payments/reconcile.ts). Runs come from the scheduled
+-- GET /api/cron/reconcile-payments or the "Run now" button on the payments page; each writes one
+-- payment_reconciliation_runs row with per-transaction results, shown on that page.
+--
+-- A stuck checkout's MMG transaction id is payment_transactions.mmg_transaction_id, or the latest
+-- mmg_webhook_logs row for it (the webhook logs before it processes, so a crash mid-way leaves it there).
+-- Checkouts with no MMG transaction at all are failed once older than the abandon window.
+--
+-- mmg_webhook_logs and the 'processing' payment status (the webhook's claim) predate the tracked
+-- migrations; both are added here when missing so fresh databases match production.
+
+alter type public.payment_status add value if not exists 'processing' after 'pending';
+
+create table if not exists public.mmg_webhook_logs (
+    id uuid not null default gen_random_uuid(),
+    merchant_transaction_id text,
+    transaction_id text,
+    result_code integer,
+    result_message text,
+    html_response text,
+    raw_body jsonb,
+    created_at timestamp with time zone not null default now(),
+    constraint mmg_webhook_logs_pkey primary key (id)
+);
+
+create index if not exists mmg_webhook_logs_merchant_transaction_idx
+  on public.mmg_webhook_logs (merchant_transaction_id, created_at desc);
+
+alter table public.mmg_webhook_logs enable row level security;
+
+create table public.payment_reconciliation_runs (
+    id uuid not null default gen_random_uuid(),
+    trigger text not null,
+    triggered_by uuid,
+    older_than_minutes integer not null,
+    abandon_after_hours integer not null,
+    started_at timestamp with time zone not null default now(),
+    finished_at timestamp with time zone,
+    checked integer not null default 0,
+    completed integer not null default 0,
+    failed integer not null default 0,
+    unchanged integer not null default 0,
+    errored integer not null default 0,
+    results jsonb not null default '[]'::jsonb,
+    error text,
+    constraint payment_reconciliation_runs_pkey primary key (id),
+    constraint payment_reconciliation_runs_trigger_check check (trigger in ('scheduled', 'manual')),
+    constraint payment_reconciliation_runs_triggered_by_fkey foreign key (triggered_by) references public.users (id) on delete set null
+);
+
+create index payment_reconciliation_runs_started_idx
+  on public.payment_reconciliation_runs (started_at desc);
+
+create index payment_transactions_status_initiated_idx
+  on public.payment_transactions (status, initiated_at);
+
+alter table public.payment_reconciliation_runs enable row level security;
+
+create policy "Admins can read payment reconciliation runs"
+  on public.payment_reconciliation_runs
+  for select to authenticated
+  using (
+    exists (
+      select 1 from public.users u
+      where u.auth_id = auth.uid() and u.role = 'admin'
+    )
+  );
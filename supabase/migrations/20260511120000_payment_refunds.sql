@@ -0,0 +1,70 @@
+-- payment_refunds: admin refunds of completed payment_transactions, with four-eyes approval.
+--
+-- Flow (app/admin/payments/refund-actions.ts):
+--   pending_approval  requested by one admin with a reason and a full or partial amount
+--   approved          a *different* admin approves; the refund provider is called right away
+--   processed         provider accepted; the linked subscription is shortened by the refunded share
+--                     of its term, or cancelled when the payment is fully refunded (or nothing is left)
+--   failed            provider call failed; a second admin can retry
+--   rejected          declined by an admin (or withdrawn by the requester)
+-- The payment moves to 'refunded' once processed refunds cover its full amount; partial refunds leave
+-- it 'completed'. Every step also writes an audit_logs row with the acting admin as actor.
+--
+-- subscription_end_before / _after record what the refund did to the subscription so it can be
+-- explained (and undone by hand) later.
+
+create table public.payment_refunds (
+    id uuid not null default gen_random_uuid(),
+    payment_transaction_id uuid not null,
+    amount numeric(10,2) not null,
+    currency character varying(3) not null default 'GYD',
+    reason text not null,
+    status text not null default 'pending_approval',
+    requested_by uuid not null,
+    requested_at timestamp with time zone not null default now(),
+    decided_by uuid,
+    decided_at timestamp with time zone,
+    decision_note text,
+    provider text,
+    provider_reference text,
+    provider_response jsonb,
+    processed_at timestamp with time zone,
+    error_message text,
+    subscription_id uuid,
+    subscription_action text,
+    subscription_end_before timestamp with time zone,
+    subscription_end_after timestamp with time zone,
+    constraint payment_refunds_pkey primary key (id),
+    constraint payment_refunds_payment_fkey foreign key (payment_transaction_id) references public.payment_transactions (id) on delete restrict,
+    constraint payment_refunds_requested_by_fkey foreign key (requested_by) references public.users (id),
+    constraint payment_refunds_decided_by_fkey foreign key (decided_by) references public.users (id),
+    constraint payment_refunds_subscription_fkey foreign key (subscription_id) references public.subscriptions (id) on delete set null,
+    constraint payment_refunds_amount_positive check (amount > 0),
+    constraint payment_refunds_reason_present check (length(trim(reason)) > 0),
+    constraint payment_refunds_status_check check (
+        status in ('pending_approval', 'approved', 'processed', 'failed', 'rejected')
+    ),
+    constraint payment_refunds_subscription_action_check check (
+        subscription_action is null or subscription_action in ('none', 'shortened', 'cancelled')
+    ),
+    -- Only a requester may withdraw their own request; approving needs a second admin.
+    constraint payment_refunds_second_approver check (
+        decided_by is null or status = 'rejected' or decided_by <> requested_by
+    )
+);
+
+create index payment_refunds_payment_idx on public.payment_refunds (payment_transaction_id);
+
+create index payment_refunds_status_idx on public.payment_refunds (status, requested_at desc);
+
+alter table public.payment_refunds enable row level security;
+
+create policy "Admins can read payment refunds"
+  on public.payment_refunds
+  for select to authenticated
+  using (
+    exists (
+      select 1 from public.users u
+      where u.auth_id = auth.uid() and u.role = 'admin'
+    )
+  );
@@ -0,0 +1,75 @@
+-- Subscription renewal reminders, grace period and expiry (lib/subscription-renewals.ts, run by
+-- GET /api/cron/subscription-renewals).
+--
+-- For every driver/rider profile with an active (or trial) subscription the job:
+--   * sends a push + SMS reminder at each configured offset before subscription_end_date,
+--   * after the end date, sends one "grace period" notice while access continues,
+--   * once the grace period is over, sets subscription_status = 'expired' (drivers are also taken
+--     offline) and sends an "expired" notice.
+-- Offsets, grace days and channels live in system_config 'subscription_renewals'. Each notice is
+-- recorded once per profile and end date in subscription_reminders (so renewing, which moves the
+-- end date, starts a fresh cycle) and every send attempt is logged in message_logs.
+
+create table public.subscription_reminders (
+    id uuid not null default gen_random_uuid(),
+    user_id uuid not null,
+    role text not null,
+    subscription_end_date timestamp with time zone not null,
+    kind text not null,
+    days_before integer,
+    channels text[] not null default '{}',
+    sent_at timestamp with time zone not null default now(),
+    constraint subscription_reminders_pkey primary key (id),
+    constraint subscription_reminders_user_fkey foreign key (user_id) references public.users (id) on delete cascade,
+    constraint subscription_reminders_role_check check (role in ('driver', 'rider')),
+    constraint subscription_reminders_kind_check check (kind in ('reminder', 'grace', 'expired')),
+    constraint subscription_reminders_days_check check ((kind = 'reminder') = (days_before is not null))
+);
+
+-- days_before is null for grace/expired; coalesce so those are unique too.
+create unique index subscription_reminders_once_idx
+  on public.subscription_reminders (user_id, role, subscription_end_date, kind, coalesce(days_before, -1));
+
+alter table public.subscription_reminders enable row level security;
+
+create policy "Admins can read subscription reminders"
+  on public.subscription_reminders
+  for select to authenticated
+  using (
+    exists (
+      select 1 from public.users u
+      where u.auth_id = auth.uid() and u.role = 'admin'
+    )
+  );
+
+create index if not exists driver_profiles_subscription_end_idx
+  on public.driver_profiles (subscription_status, subscription_end_date);
+
+create index if not exists rider_profiles_subscription_end_idx
+  on public.rider_profiles (subscription_status, subscription_end_date);
+
+insert into public.system_config (key, value, description)
+values (
+  'subscription_renewals',
+  '{"reminder_days": [7, 3, 1], "grace_days": 3, "channels": ["push", "sms"]}'::jsonb,
+  'Renewal reminders sent reminder_days before subscription_end_date; subscriptions expire grace_days after it.'
+)
+on conflict (key) do nothing;
+
+-- Drivers whose subscription expired cannot go online (the driver app updates is_online directly).
+create or replace function public.block_expired_driver_online()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.is_online and not coalesce(old.is_online, false) and new.subscription_status = 'expired' then
+    raise exception 'Subscription expired: renew your subscription to go online'
+      using errcode = 'P0001', hint = 'subscription_expired';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger block_expired_driver_online
+  before update of is_online on public.driver_profiles
+  for each row execute function public.block_expired_driver_online();
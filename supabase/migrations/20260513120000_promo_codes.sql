@@ -0,0 +1,149 @@
+-- Promo codes for subscription checkout (lib/promo-codes.ts, POST /api/mmg/checkout).
+--
+-- A code takes a percentage or fixed amount off the plan price, optionally only for drivers or
+-- riders, only on a user's first subscription, within a start/expiry window and up to a total
+-- number of redemptions. Each user can use a code once.
+--
+-- promo_redemptions ties a code to the payment_transaction it discounted:
+--   pending   checkout started; counts against the limits until the payment settles
+--   redeemed  payment completed (set when the subscription is granted)
+--   released  payment failed; no longer counts
+-- Checkouts discounted to zero never reach MMG: the subscription is granted straight away and the
+-- transaction is recorded with payment_method 'promo'.
+--
+-- The redemption limit is checked in a trigger that locks the code row, so concurrent checkouts
+-- cannot go over max_redemptions; single use per user is a partial unique index.
+
+create table public.promo_codes (
+    id uuid not null default gen_random_uuid(),
+    code text not null,
+    description text,
+    discount_type text not null,
+    discount_value numeric(10,2) not null,
+    audience text,
+    first_subscription_only boolean not null default false,
+    max_redemptions integer,
+    starts_at timestamp with time zone,
+    expires_at timestamp with time zone,
+    is_active boolean not null default true,
+    created_by uuid,
+    created_at timestamp with time zone not null default now(),
+    updated_at timestamp with time zone not null default now(),
+    constraint promo_codes_pkey primary key (id),
+    constraint promo_codes_code_key unique (code),
+    constraint promo_codes_created_by_fkey foreign key (created_by) references public.users (id) on delete set null,
+    constraint promo_codes_code_format check (code ~ '^[A-Z0-9_-]{3,32}$'),
+    constraint promo_codes_discount_type_check check (discount_type in ('percent', 'fixed')),
+    constraint promo_codes_discount_value_check check (
+        discount_value > 0 and (discount_type <> 'percent' or discount_value <= 100)
+    ),
+    constraint promo_codes_audience_check check (audience is null or audience in ('driver', 'rider')),
+    constraint promo_codes_max_redemptions_check check (max_redemptions is null or max_redemptions > 0),
+    constraint promo_codes_window_check check (starts_at is null or expires_at is null or starts_at < expires_at)
+);
+
+create trigger update_promo_codes_updated_at
+  before update on public.promo_codes
+  for each row execute function public.update_updated_at_column();
+
+alter table public.promo_codes enable row level security;
+
+create policy "Admins can read promo codes"
+  on public.promo_codes
+  for select to authenticated
+  using (
+    exists (
+      select 1 from public.users u
+      where u.auth_id = auth.uid() and u.role = 'admin'
+    )
+  );
+
+create table public.promo_redemptions (
+    id uuid not null default gen_random_uuid(),
+    promo_code_id uuid not null,
+    user_id uuid not null,
+    payment_transaction_id uuid not null,
+    status text not null default 'pending',
+    original_amount numeric(10,2) not null,
+    discount_amount numeric(10,2) not null,
+    final_amount numeric(10,2) not null,
+    created_at timestamp with time zone not null default now(),
+    redeemed_at timestamp with time zone,
+    released_at timestamp with time zone,
+    constraint promo_redemptions_pkey primary key (id),
+    constraint promo_redemptions_code_fkey foreign key (promo_code_id) references public.promo_codes (id) on delete restrict,
+    constraint promo_redemptions_user_fkey foreign key (user_id) references public.users (id) on delete cascade,
+    constraint promo_redemptions_payment_fkey foreign key (payment_transaction_id) references public.payment_transactions (id) on delete cascade,
+    constraint promo_redemptions_payment_key unique (payment_transaction_id),
+    constraint promo_redemptions_status_check check (status in ('pending', 'redeemed', 'released')),
+    constraint promo_redemptions_amounts_check check (
+        discount_amount > 0 and final_amount >= 0 and final_amount = original_amount - discount_amount
+    )
+);
+
+create unique index promo_redemptions_once_per_user_idx
+  on public.promo_redemptions (promo_code_id, user_id)
+  where status <> 'released';
+
+create index promo_redemptions_code_status_idx on public.promo_redemptions (promo_code_id, status);
+
+alter table public.promo_redemptions enable row level security;
+
+create policy "Admins can read promo redemptions"
+  on public.promo_redemptions
+  for select to authenticated
+  using (
+    exists (
+      select 1 from public.users u
+      where u.auth_id = auth.uid() and u.role = 'admin'
+    )
+  );
+
+create or replace function public.enforce_promo_redemption_limit()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_max integer;
+  v_used integer;
+begin
+  -- Only new reservations are limited; a payment that completed is redeemed regardless.
+  if new.status <> 'pending' then
+    return new;
+  end if;
+
+  select max_redemptions into v_max
+  from public.promo_codes
+  where id = new.promo_code_id
+  for update;
+
+  if v_max is null then
+    return new;
+  end if;
+
+  select count(*) into v_used
+  from public.promo_redemptions
+  where promo_code_id = new.promo_code_id
+    and status <> 'released'
+    and id <> new.id;
+
+  if v_used >= v_max then
+    raise exception 'Promo code redemption limit reached'
+      using errcode = 'P0001', hint = 'promo_code_exhausted';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger enforce_promo_redemption_limit
+  before insert or update of status on public.promo_redemptions
+  for each row execute function public.enforce_promo_redemption_limit();
+
+alter table public.payment_transactions
+  add column promo_code_id uuid,
+  add column original_amount numeric(10,2),
+  add column discount_amount numeric(10,2) not null default 0;
+
+alter table public.payment_transactions
+  add constraint payment_transactions_promo_code_fkey
+  foreign key (promo_code_id) references public.promo_codes (id) on delete set null;
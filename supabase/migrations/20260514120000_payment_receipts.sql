@@ -0,0 +1,60 @@
+-- payment_receipts: one receipt per completed payment_transaction (lib/payment-receipts.ts).
+--
+-- Receipt numbers come from their own sequence (RCT-000001, RCT-000002, ...) so they are gapless in
+-- practice and only consumed by completed payments, unlike payment_transactions.transaction_number.
+-- A receipt is issued when the payment completes, or on first download for payments completed before
+-- receipts existed.
+--
+-- The receipt keeps a snapshot of what it states (payer, plan, period covered, amounts, MMG reference)
+-- so a later name change or plan edit doesn't alter a receipt already handed out. The PDF is stored
+-- in the private `payment_receipts` bucket; admins and the payer get short-lived signed URLs.
+
+create sequence public.payment_receipt_number_seq;
+
+create table public.payment_receipts (
+    id uuid not null default gen_random_uuid(),
+    payment_transaction_id uuid not null,
+    receipt_number text not null default ('RCT-' || lpad(nextval('public.payment_receipt_number_seq')::text, 6, '0')),
+    issued_at timestamp with time zone not null default now(),
+    user_id uuid,
+    payer_name text not null,
+    payer_phone text,
+    plan_code text,
+    plan_label text not null,
+    period_start timestamp with time zone,
+    period_end timestamp with time zone,
+    original_amount numeric(10,2) not null,
+    discount_amount numeric(10,2) not null default 0,
+    amount numeric(10,2) not null,
+    currency character varying(3) not null default 'GYD',
+    payment_method text not null,
+    payment_reference text,
+    paid_at timestamp with time zone not null,
+    pdf_storage_path text,
+    constraint payment_receipts_pkey primary key (id),
+    constraint payment_receipts_payment_key unique (payment_transaction_id),
+    constraint payment_receipts_number_key unique (receipt_number),
+    constraint payment_receipts_payment_fkey foreign key (payment_transaction_id) references public.payment_transactions (id) on delete restrict,
+    constraint payment_receipts_user_fkey foreign key (user_id) references public.users (id) on delete set null
+);
+
+alter sequence public.payment_receipt_number_seq owned by public.payment_receipts.receipt_number;
+
+create index payment_receipts_user_idx on public.payment_receipts (user_id, issued_at desc);
+
+alter table public.payment_receipts enable row level security;
+
+create policy "Admins can read payment receipts"
+  on public.payment_receipts
+  for select to authenticated
+  using (
+    exists (
+      select 1 from public.users u
+      where u.auth_id = auth.uid() and u.role = 'admin'
+    )
+  );
+
+-- Private bucket: uploads and signed URLs are server-side (service role) only.
+insert into storage.buckets (id, name, public)
+values ('payment_receipts', 'payment_receipts', false)
+on conflict (id) do nothing;
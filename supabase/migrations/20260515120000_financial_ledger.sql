@@ -0,0 +1,170 @@
+-- ledger_entries: double-entry ledger for subscription money (lib/ledger.ts).
+--
+-- Each business event is a journal (journal_id) of two or more lines whose debits equal its credits:
+--   payment     completed payment_transaction
+--                 Dr cash:mmg               amount charged (cash:manual for other methods)
+--                 Dr contra:promo_discounts promo discount
+--                 Cr revenue:subscriptions  plan price before the discount (gross)
+--   refund      processed payment_refund
+--                 Dr contra:refunds         refunded amount
+--                 Cr cash:mmg               (cash:manual for refunds paid out by hand)
+--   adjustment  manual correction posted by an admin with a memo
+--                 Dr cash:manual / Cr revenue:adjustments to add revenue, the reverse to remove it
+-- Lines carry the payer's role and plan so the month-close report can break revenue down.
+--
+-- Journals are posted when the payment completes or the refund is processed; the month-close report
+-- posts any that are missing for its month first. (source, source_id, account) is unique, so posting
+-- the same event twice is a no-op. Entries are append-only: corrections are new adjustments.
+--
+-- Existing completed payments and processed refunds are backfilled below.
+
+create table public.ledger_entries (
+    id uuid not null default gen_random_uuid(),
+    journal_id uuid not null,
+    source text not null,
+    source_id uuid not null,
+    account text not null,
+    debit numeric(12,2) not null default 0,
+    credit numeric(12,2) not null default 0,
+    currency character varying(3) not null default 'GYD',
+    occurred_at timestamp with time zone not null,
+    user_id uuid,
+    user_role text,
+    plan_code text,
+    memo text,
+    created_by uuid,
+    created_at timestamp with time zone not null default now(),
+    constraint ledger_entries_pkey primary key (id),
+    constraint ledger_entries_user_fkey foreign key (user_id) references public.users (id) on delete set null,
+    constraint ledger_entries_created_by_fkey foreign key (created_by) references public.users (id) on delete set null,
+    constraint ledger_entries_source_check check (source in ('payment', 'refund', 'adjustment')),
+    constraint ledger_entries_account_check check (
+        account in (
+            'cash:mmg',
+            'cash:manual',
+            'revenue:subscriptions',
+            'revenue:adjustments',
+            'contra:promo_discounts',
+            'contra:refunds'
+        )
+    ),
+    constraint ledger_entries_amount_check check (
+        debit >= 0 and credit >= 0 and (debit = 0) <> (credit = 0)
+    ),
+    constraint ledger_entries_role_check check (user_role is null or user_role in ('driver', 'rider'))
+);
+
+create unique index ledger_entries_source_account_key
+  on public.ledger_entries (source, source_id, account);
+
+create index ledger_entries_occurred_at_idx on public.ledger_entries (occurred_at);
+create index ledger_entries_journal_idx on public.ledger_entries (journal_id);
+
+alter table public.ledger_entries enable row level security;
+
+create policy "Admins can read ledger entries"
+  on public.ledger_entries
+  for select to authenticated
+  using (
+    exists (
+      select 1 from public.users u
+      where u.auth_id = auth.uid() and u.role = 'admin'
+    )
+  );
+
+-- Checked at commit so a journal's lines can be inserted one by one within a transaction.
+create or replace function public.check_ledger_journal_balanced()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_diff numeric;
+begin
+  select coalesce(sum(debit), 0) - coalesce(sum(credit), 0) into v_diff
+  from public.ledger_entries
+  where journal_id = new.journal_id;
+
+  if v_diff <> 0 then
+    raise exception 'Ledger journal % does not balance (debits - credits = %)', new.journal_id, v_diff
+      using errcode = 'P0001', hint = 'ledger_unbalanced';
+  end if;
+  return null;
+end;
+$$;
+
+create constraint trigger check_ledger_journal_balanced
+  after insert on public.ledger_entries
+  deferrable initially deferred
+  for each row execute function public.check_ledger_journal_balanced();
+
+create or replace function public.block_ledger_entry_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'Ledger entries are append-only; post an adjustment instead'
+    using errcode = 'P0001', hint = 'ledger_append_only';
+end;
+$$;
+
+create trigger block_ledger_entry_changes
+  before update or delete on public.ledger_entries
+  for each row execute function public.block_ledger_entry_changes();
+
+-- Backfill: completed (or since refunded) payments ...
+with p as (
+  select
+    pt.id,
+    gen_random_uuid() as journal_id,
+    pt.amount,
+    coalesce(pt.original_amount, pt.amount) as gross,
+    pt.discount_amount,
+    pt.currency,
+    pt.completed_at,
+    pt.user_id,
+    case when u.role in ('driver', 'rider') then u.role end as user_role,
+    coalesce(pt.plan_code, s.plan_type) as plan_code,
+    case when pt.payment_method = 'mmg' then 'cash:mmg' else 'cash:manual' end as cash_account
+  from public.payment_transactions pt
+  left join public.users u on u.id = pt.user_id
+  left join public.subscriptions s on s.id = pt.subscription_id
+  where pt.status in ('completed', 'refunded')
+    and pt.completed_at is not null
+    and coalesce(pt.original_amount, pt.amount) > 0
+)
+insert into public.ledger_entries
+  (journal_id, source, source_id, account, debit, credit, currency, occurred_at, user_id, user_role, plan_code)
+select journal_id, 'payment', id, cash_account, amount, 0, currency, completed_at, user_id, user_role, plan_code
+  from p where amount > 0
+union all
+select journal_id, 'payment', id, 'contra:promo_discounts', discount_amount, 0, currency, completed_at, user_id, user_role, plan_code
+  from p where discount_amount > 0
+union all
+select journal_id, 'payment', id, 'revenue:subscriptions', 0, gross, currency, completed_at, user_id, user_role, plan_code
+  from p;
+
+-- ... and processed refunds.
+with r as (
+  select
+    pr.id,
+    gen_random_uuid() as journal_id,
+    pr.amount,
+    pr.currency,
+    coalesce(pr.processed_at, pr.decided_at, pr.requested_at) as occurred_at,
+    pt.user_id,
+    case when u.role in ('driver', 'rider') then u.role end as user_role,
+    coalesce(pt.plan_code, s.plan_type) as plan_code,
+    case when pr.provider = 'mmg' then 'cash:mmg' else 'cash:manual' end as cash_account
+  from public.payment_refunds pr
+  join public.payment_transactions pt on pt.id = pr.payment_transaction_id
+  left join public.users u on u.id = pt.user_id
+  left join public.subscriptions s on s.id = pt.subscription_id
+  where pr.status = 'processed'
+)
+insert into public.ledger_entries
+  (journal_id, source, source_id, account, debit, credit, currency, occurred_at, user_id, user_role, plan_code)
+select journal_id, 'refund', id, 'contra:refunds', amount, 0, currency, occurred_at, user_id, user_role, plan_code
+  from r
+union all
+select journal_id, 'refund', id, cash_account, 0, amount, currency, occurred_at, user_id, user_role, plan_code
+  from r;
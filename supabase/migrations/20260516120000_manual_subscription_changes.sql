@@ -0,0 +1,112 @@
+-- Manual subscription changes by support (app/admin/payments/manual-subscription-actions.ts), from the
+-- driver and rider detail pages. Each change is a subscriptions row with payment_method = 'manual':
+--   grant   new access from now for N days (no current access)
+--   extend  N days appended after the current end date
+--   revoke  N days (or all remaining time) taken off the end; the row has a zero-length window at
+--           the new end and status 'cancelled', and overlapping active subscriptions are cut back
+-- Every change carries a reason code (plus a note, required for 'other'), the admin who made it and
+-- the profile end date it was based on. Cash payments recorded this way are also posted to the ledger
+-- as an adjustment.
+--
+-- The insert updates the driver/rider profile's subscription_status and dates in the same statement
+-- (trigger below), so the row and the profile never disagree. If the profile's end date moved since
+-- the admin loaded it, the insert fails with hint 'subscription_changed' and nothing is written.
+
+alter table public.subscriptions
+    add column manual_action text,
+    add column reason_code text,
+    add column reason_note text,
+    add column granted_by uuid,
+    add column previous_end_date timestamp with time zone,
+    add constraint subscriptions_granted_by_fkey foreign key (granted_by) references public.users (id) on delete set null,
+    add constraint subscriptions_manual_action_check check (
+        manual_action is null or manual_action in ('grant', 'extend', 'revoke')
+    ),
+    add constraint subscriptions_reason_code_check check (
+        reason_code is null
+        or reason_code in (
+            'outage_compensation',
+            'cash_payment',
+            'goodwill',
+            'billing_correction',
+            'granted_in_error',
+            'policy_violation',
+            'other'
+        )
+    ),
+    add constraint subscriptions_manual_reason_present check (
+        manual_action is null
+        or (payment_method = 'manual' and reason_code is not null and granted_by is not null)
+    ),
+    add constraint subscriptions_manual_note_present check (
+        reason_code is distinct from 'other' or length(trim(coalesce(reason_note, ''))) > 0
+    );
+
+create index subscriptions_manual_idx
+  on public.subscriptions (user_id, created_at desc)
+  where manual_action is not null;
+
+create or replace function public.apply_manual_subscription_change()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_end timestamp with time zone;
+  v_status public.subscription_status;
+begin
+  if new.user_role = 'driver' then
+    select subscription_end_date, subscription_status into v_end, v_status
+      from public.driver_profiles where user_id = new.user_id for update;
+  else
+    select subscription_end_date, subscription_status into v_end, v_status
+      from public.rider_profiles where user_id = new.user_id and new.user_role = 'rider' for update;
+  end if;
+  if not found then
+    raise exception 'No % profile for user %', new.user_role, new.user_id
+      using errcode = 'P0001', hint = 'profile_not_found';
+  end if;
+  if v_end is distinct from new.previous_end_date then
+    raise exception 'Subscription changed since it was loaded'
+      using errcode = 'P0001', hint = 'subscription_changed';
+  end if;
+
+  if new.manual_action = 'revoke' then
+    update public.subscriptions
+       set end_date = greatest(start_date, new.start_date),
+           status = case when greatest(start_date, new.start_date) <= now() then 'cancelled' else status end,
+           updated_at = now()
+     where user_id = new.user_id
+       and user_role = new.user_role
+       and id <> new.id
+       and status in ('active', 'trial')
+       and end_date > new.start_date;
+    v_status := case when new.start_date <= now() then 'cancelled' else v_status end;
+  else
+    v_status := case when v_status = 'trial' and new.manual_action = 'extend' then 'trial' else 'active' end;
+  end if;
+
+  if new.user_role = 'driver' then
+    update public.driver_profiles
+       set subscription_status = v_status,
+           subscription_start_date = case when new.manual_action = 'grant' then new.start_date else subscription_start_date end,
+           subscription_end_date = new.end_date,
+           is_online = case when v_status = 'cancelled' then false else is_online end,
+           updated_at = now()
+     where user_id = new.user_id;
+  else
+    update public.rider_profiles
+       set subscription_status = v_status,
+           subscription_start_date = case when new.manual_action = 'grant' then new.start_date else subscription_start_date end,
+           subscription_end_date = new.end_date,
+           updated_at = now()
+     where user_id = new.user_id;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger apply_manual_subscription_change
+  after insert on public.subscriptions
+  for each row
+  when (new.manual_action is not null)
+  execute function public.apply_manual_subscription_change();
@@ -0,0 +1,44 @@
+-- MMG webhook console (app/admin/webhooks): admins browse mmg_webhook_logs next to the linked
+-- payment_transactions row and can replay a logged delivery. A replay runs the webhook's own claim
+-- and grant (lib/payments/mmg-callback.ts) with the logged payload, so replaying a delivery that was
+-- already applied changes nothing. It may also take over a transaction left 'processing' by a
+-- webhook that died half-way; granting is idempotent per MMG transaction.
+--
+-- Every replay is recorded in mmg_webhook_replays with the admin, the payment status before and
+-- after, and the outcome (or error).
+
+create index if not exists mmg_webhook_logs_created_at_idx
+  on public.mmg_webhook_logs (created_at desc);
+
+create table public.mmg_webhook_replays (
+    id uuid not null default gen_random_uuid(),
+    webhook_log_id uuid not null,
+    payment_transaction_id uuid,
+    replayed_by uuid not null,
+    status_before text,
+    status_after text,
+    outcome text not null,
+    error_message text,
+    created_at timestamp with time zone not null default now(),
+    constraint mmg_webhook_replays_pkey primary key (id),
+    constraint mmg_webhook_replays_log_fkey foreign key (webhook_log_id) references public.mmg_webhook_logs (id) on delete cascade,
+    constraint mmg_webhook_replays_payment_fkey foreign key (payment_transaction_id) references public.payment_transactions (id) on delete set null,
+    constraint mmg_webhook_replays_replayed_by_fkey foreign key (replayed_by) references public.users (id),
+    constraint mmg_webhook_replays_outcome_check check (
+        outcome in ('completed', 'already_completed', 'in_progress', 'failed', 'ignored', 'not_found', 'error')
+    )
+);
+
+create index mmg_webhook_replays_log_idx on public.mmg_webhook_replays (webhook_log_id, created_at desc);
+
+alter table public.mmg_webhook_replays enable row level security;
+
+create policy "Admins can read MMG webhook replays"
+  on public.mmg_webhook_replays
+  for select to authenticated
+  using (
+    exists (
+      select 1 from public.users u
+      where u.auth_id = auth.uid() and u.role = 'admin'
+    )
+  );
@@ -0,0 +1,214 @@
+-- Driver commission billing (lib/driver-commission.ts), piloted alongside flat subscriptions.
+--
+-- driver_profiles.billing_mode picks how a driver pays:
+--   subscription  (default) monthly plan as before; expired drivers cannot go online
+--   commission    a percentage of each completed trip's actual_fare, owed as a running balance
+-- The rate is driver_profiles.commission_rate_percent, or system_config 'driver_commission'
+-- default_rate_percent when unset.
+--
+-- When a commission driver's trip becomes completed with an actual_fare, a trigger records one
+-- driver_commission_accruals row per trip (rate and amount fixed at that moment; switching mode later
+-- does not touch it). The driver settles the balance (accruals minus completed commission payments)
+-- through MMG checkout: payment_transactions.purpose = 'commission'. Completed commission payments are
+-- posted to the ledger as Cr revenue:commissions.
+--
+-- Every Monday GET /api/cron/commission-statements closes the previous Guyana week (Mon–Sun) into one
+-- driver_commission_statements row per driver: opening balance, the week's trips and commission,
+-- payments, closing balance. Accruals are stamped with the statement that covered them.
+
+alter table public.driver_profiles
+  add column billing_mode text not null default 'subscription',
+  add column commission_rate_percent numeric(5,2),
+  add constraint driver_profiles_billing_mode_check check (billing_mode in ('subscription', 'commission')),
+  add constraint driver_profiles_commission_rate_check check (
+    commission_rate_percent is null or (commission_rate_percent >= 0 and commission_rate_percent <= 100)
+  );
+
+create index driver_profiles_billing_mode_idx
+  on public.driver_profiles (billing_mode)
+  where billing_mode <> 'subscription';
+
+insert into public.system_config (key, value, description)
+values (
+  'driver_commission',
+  '{"default_rate_percent": 10}'::jsonb,
+  'Commission charged on completed trips of drivers billed by commission, unless the driver has their own rate.'
+)
+on conflict (key) do nothing;
+
+create table public.driver_commission_statements (
+    id uuid not null default gen_random_uuid(),
+    driver_id uuid not null,
+    period_start timestamp with time zone not null,
+    period_end timestamp with time zone not null,
+    currency character varying(3) not null default 'GYD',
+    opening_balance numeric(12,2) not null default 0,
+    trip_count integer not null default 0,
+    fares_total numeric(12,2) not null default 0,
+    commission_total numeric(12,2) not null default 0,
+    payments_total numeric(12,2) not null default 0,
+    closing_balance numeric(12,2) not null default 0,
+    created_at timestamp with time zone not null default now(),
+    constraint driver_commission_statements_pkey primary key (id),
+    constraint driver_commission_statements_driver_fkey foreign key (driver_id) references public.driver_profiles (id) on delete cascade,
+    constraint driver_commission_statements_period_check check (period_end > period_start),
+    constraint driver_commission_statements_balance_check check (
+        closing_balance = opening_balance + commission_total - payments_total
+    )
+);
+
+create unique index driver_commission_statements_period_key
+  on public.driver_commission_statements (driver_id, period_start);
+
+create table public.driver_commission_accruals (
+    id uuid not null default gen_random_uuid(),
+    driver_id uuid not null,
+    trip_id uuid not null,
+    fare numeric(12,2) not null,
+    rate_percent numeric(5,2) not null,
+    amount numeric(12,2) not null,
+    currency character varying(3) not null default 'GYD',
+    accrued_at timestamp with time zone not null,
+    statement_id uuid,
+    created_at timestamp with time zone not null default now(),
+    constraint driver_commission_accruals_pkey primary key (id),
+    constraint driver_commission_accruals_driver_fkey foreign key (driver_id) references public.driver_profiles (id) on delete cascade,
+    constraint driver_commission_accruals_trip_fkey foreign key (trip_id) references public.trips (id) on delete cascade,
+    constraint driver_commission_accruals_statement_fkey foreign key (statement_id) references public.driver_commission_statements (id) on delete set null,
+    constraint driver_commission_accruals_amount_check check (fare >= 0 and amount >= 0)
+);
+
+create unique index driver_commission_accruals_trip_key on public.driver_commission_accruals (trip_id);
+create index driver_commission_accruals_driver_idx on public.driver_commission_accruals (driver_id, accrued_at desc);
+create index driver_commission_accruals_open_idx
+  on public.driver_commission_accruals (driver_id)
+  where statement_id is null;
+
+alter table public.driver_commission_statements enable row level security;
+alter table public.driver_commission_accruals enable row level security;
+
+create policy "Admins can read driver commission statements"
+  on public.driver_commission_statements
+  for select to authenticated
+  using (
+    exists (
+      select 1 from public.users u
+      where u.auth_id = auth.uid() and u.role = 'admin'
+    )
+  );
+
+create policy "Drivers can read their commission statements"
+  on public.driver_commission_statements
+  for select to authenticated
+  using (
+    exists (
+      select 1 from public.driver_profiles dp
+      join public.users u on u.id = dp.user_id
+      where dp.id = driver_id and u.auth_id = auth.uid()
+    )
+  );
+
+create policy "Admins can read driver commission accruals"
+  on public.driver_commission_accruals
+  for select to authenticated
+  using (
+    exists (
+      select 1 from public.users u
+      where u.auth_id = auth.uid() and u.role = 'admin'
+    )
+  );
+
+create policy "Drivers can read their commission accruals"
+  on public.driver_commission_accruals
+  for select to authenticated
+  using (
+    exists (
+      select 1 from public.driver_profiles dp
+      join public.users u on u.id = dp.user_id
+      where dp.id = driver_id and u.auth_id = auth.uid()
+    )
+  );
+
+alter table public.payment_transactions
+  add column purpose text not null default 'subscription',
+  add constraint payment_transactions_purpose_check check (purpose in ('subscription', 'commission'));
+
+alter table public.ledger_entries drop constraint ledger_entries_account_check;
+alter table public.ledger_entries add constraint ledger_entries_account_check check (
+    account in (
+        'cash:mmg',
+        'cash:manual',
+        'revenue:subscriptions',
+        'revenue:commissions',
+        'revenue:adjustments',
+        'contra:promo_discounts',
+        'contra:refunds'
+    )
+);
+
+-- One accrual per completed trip of a commission driver. Runs again when actual_fare is filled in
+-- after completion; the unique trip key makes repeats a no-op.
+create or replace function public.accrue_driver_commission()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_mode text;
+  v_rate numeric;
+begin
+  if new.status <> 'completed' or new.driver_id is null or coalesce(new.actual_fare, 0) <= 0 then
+    return new;
+  end if;
+
+  select billing_mode, commission_rate_percent into v_mode, v_rate
+  from public.driver_profiles
+  where id = new.driver_id;
+
+  if v_mode is distinct from 'commission' then
+    return new;
+  end if;
+
+  if v_rate is null then
+    select (value ->> 'default_rate_percent')::numeric into v_rate
+    from public.system_config
+    where key = 'driver_commission';
+  end if;
+  if v_rate is null then
+    return new;
+  end if;
+
+  insert into public.driver_commission_accruals (driver_id, trip_id, fare, rate_percent, amount, accrued_at)
+  values (
+    new.driver_id,
+    new.id,
+    new.actual_fare,
+    v_rate,
+    round(new.actual_fare * v_rate / 100, 2),
+    coalesce(new.completed_at, now())
+  )
+  on conflict (trip_id) do nothing;
+
+  return new;
+end;
+$$;
+
+create trigger accrue_driver_commission
+  after insert or update of status, actual_fare on public.trips
+  for each row execute function public.accrue_driver_commission();
+
+-- Commission drivers don't need a subscription to go online.
+create or replace function public.block_expired_driver_online()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.is_online and not coalesce(old.is_online, false) and new.subscription_status = 'expired'
+     and new.billing_mode = 'subscription' then
+    raise exception 'Subscription expired: renew your subscription to go online'
+      using errcode = 'P0001', hint = 'subscription_expired';
+  end if;
+  return new;
+end;
+$$;
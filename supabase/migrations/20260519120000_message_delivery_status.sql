@@ -0,0 +1,29 @@
+-- SMS delivery status (lib/messaging/provider.ts, lib/sms.ts).
+--
+-- SMS goes out through a MessagingProvider chosen by MESSAGING_PROVIDER: 'twilio' (default) or
+-- 'file' (appends messages to a local file for development). message_logs.provider records which one
+-- sent the row, and external_id is the provider's message id.
+--
+-- Providers report delivery to POST /api/messaging/status/<provider>. Each callback moves the row
+-- forward through
+--   queued → sent → delivered | undelivered | failed
+-- and never back (callbacks can arrive out of order). Push rows keep using sent / failed.
+
+alter table public.message_logs drop constraint message_logs_status_check;
+alter table public.message_logs add constraint message_logs_status_check check (
+    status in ('queued', 'sent', 'delivered', 'undelivered', 'failed')
+);
+
+alter table public.message_logs
+  add column provider text,
+  add column status_updated_at timestamp with time zone,
+  add column error_code text,
+  add column error_message text;
+
+update public.message_logs
+  set provider = 'twilio'
+  where channel = 'sms' and external_id is not null;
+
+create index message_logs_provider_external_idx
+  on public.message_logs (provider, external_id)
+  where external_id is not null;
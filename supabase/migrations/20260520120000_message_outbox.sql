@@ -0,0 +1,64 @@
+-- Durable outbound message queue (lib/message-outbox.ts).
+--
+-- SMS and push notifications are written to message_outbox together with their message_logs row
+-- (status 'queued') before anything is sent. The sender tries a job once straight away; when the
+-- provider fails, the job stays pending and GET /api/cron/message-outbox retries it with exponential
+-- backoff until max_attempts, after which it is dead-lettered ('dead') and its log row marked failed.
+-- Admins see pending and dead jobs on the message logs page and can requeue dead ones.
+--
+-- A worker claims a job by moving it from pending to processing (locked_at). Jobs left processing by a
+-- crashed worker are released back to pending after a few minutes, so delivery is at-least-once.
+-- Each channel is rate limited per minute (system_config 'message_outbox'), counted from
+-- last_attempt_at.
+
+create table public.message_outbox (
+    id uuid not null default gen_random_uuid(),
+    channel text not null,
+    payload jsonb not null,
+    message_log_id uuid,
+    status text not null default 'pending',
+    attempts integer not null default 0,
+    max_attempts integer not null default 5,
+    next_attempt_at timestamp with time zone not null default now(),
+    last_attempt_at timestamp with time zone,
+    locked_at timestamp with time zone,
+    last_error text,
+    sent_at timestamp with time zone,
+    dead_at timestamp with time zone,
+    created_at timestamp with time zone not null default now(),
+    updated_at timestamp with time zone not null default now(),
+    constraint message_outbox_pkey primary key (id),
+    constraint message_outbox_message_log_fkey foreign key (message_log_id) references public.message_logs (id) on delete set null,
+    constraint message_outbox_channel_check check (channel in ('sms', 'push')),
+    constraint message_outbox_status_check check (status in ('pending', 'processing', 'sent', 'dead')),
+    constraint message_outbox_attempts_check check (attempts >= 0 and max_attempts > 0)
+);
+
+create index message_outbox_due_idx
+  on public.message_outbox (channel, next_attempt_at)
+  where status = 'pending';
+create index message_outbox_recent_attempts_idx
+  on public.message_outbox (channel, last_attempt_at)
+  where last_attempt_at is not null;
+create index message_outbox_status_idx on public.message_outbox (status, created_at desc);
+create index message_outbox_message_log_idx on public.message_outbox (message_log_id);
+
+alter table public.message_outbox enable row level security;
+
+create policy "Admins can read the message outbox"
+  on public.message_outbox
+  for select to authenticated
+  using (
+    exists (
+      select 1 from public.users u
+      where u.auth_id = auth.uid() and u.role = 'admin'
+    )
+  );
+
+insert into public.system_config (key, value, description)
+values (
+  'message_outbox',
+  '{"max_attempts": 5, "initial_delay_seconds": 30, "max_delay_seconds": 3600, "sms_per_minute": 60, "push_per_minute": 30}'::jsonb,
+  'Retries and per-channel rate limits of the outbound message queue.'
+)
+on conflict (key) do nothing;
@@ -0,0 +1,73 @@
+-- Notification templates (lib/notification-templates.ts).
+--
+-- Every system-generated push and SMS (trip status, trip requests paused, subscription renewals,
+-- verification decisions) is rendered from a keyed template with {{variable}} placeholders. Their
+-- English defaults live in code; a notification_templates row for a system key exists once an admin
+-- has edited it. Admins can also add their own templates for targeted and broadcast sends.
+--
+-- notification_template_variants holds the text per locale ('en' English, 'gyn' Guyanese Creole)
+-- and channel. Rendering falls back from the recipient's locale to English, and from an SMS variant
+-- to the push variant ("title: body"), before using the built-in default.
+--
+-- users.preferred_locale is the language a user receives messages in.
+
+create table public.notification_templates (
+    id uuid not null default gen_random_uuid(),
+    key text not null,
+    name text not null,
+    description text,
+    is_system boolean not null default false,
+    created_by uuid,
+    created_at timestamp with time zone not null default now(),
+    updated_at timestamp with time zone not null default now(),
+    constraint notification_templates_pkey primary key (id),
+    constraint notification_templates_key_unique unique (key),
+    constraint notification_templates_created_by_fkey foreign key (created_by) references public.users (id) on delete set null,
+    constraint notification_templates_key_check check (key ~ '^[a-z][a-z0-9_]{1,63}$')
+);
+
+create table public.notification_template_variants (
+    id uuid not null default gen_random_uuid(),
+    template_key text not null,
+    locale text not null,
+    channel text not null,
+    title text,
+    body text not null,
+    updated_by uuid,
+    created_at timestamp with time zone not null default now(),
+    updated_at timestamp with time zone not null default now(),
+    constraint notification_template_variants_pkey primary key (id),
+    constraint notification_template_variants_template_fkey foreign key (template_key) references public.notification_templates (key) on delete cascade,
+    constraint notification_template_variants_updated_by_fkey foreign key (updated_by) references public.users (id) on delete set null,
+    constraint notification_template_variants_unique unique (template_key, locale, channel),
+    constraint notification_template_variants_locale_check check (locale in ('en', 'gyn')),
+    constraint notification_template_variants_channel_check check (channel in ('sms', 'push')),
+    constraint notification_template_variants_title_check check (channel = 'sms' or title is not null)
+);
+
+alter table public.notification_templates enable row level security;
+alter table public.notification_template_variants enable row level security;
+
+create policy "Admins can read notification templates"
+  on public.notification_templates
+  for select to authenticated
+  using (
+    exists (
+      select 1 from public.users u
+      where u.auth_id = auth.uid() and u.role = 'admin'
+    )
+  );
+
+create policy "Admins can read notification template variants"
+  on public.notification_template_variants
+  for select to authenticated
+  using (
+    exists (
+      select 1 from public.users u
+      where u.auth_id = auth.uid() and u.role = 'admin'
+    )
+  );
+
+alter table public.users
+  add column preferred_locale text not null default 'en',
+  add constraint users_preferred_locale_check check (preferred_locale in ('en', 'gyn'));
@@ -0,0 +1,42 @@
+-- Notification preferences and quiet hours (lib/notification-preferences.ts).
+--
+-- Admin pushes (broadcasts, targeted sends, a push from a driver or rider page) carry a category:
+-- trip_updates, account, marketing or safety. A user can switch off trip_updates, account and
+-- marketing; safety messages always go out. Trip status pushes from the trip itself (driver arrived,
+-- trip started, ...) and renewal notices are trip- or account-critical and don't go through these
+-- preferences at all.
+--
+-- quiet_hours_start / quiet_hours_end are Guyana wall-clock times (America/Guyana, UTC-4). A window
+-- may cross midnight (22:00 to 07:00). During it every category except safety is held back.
+--
+-- Suppressed sends are not queued. The send writes a message_logs row (status failed) whose metadata
+-- says which recipients were skipped and why. A user with no row gets the defaults: everything on,
+-- no quiet hours.
+
+create table public.notification_preferences (
+    user_id uuid not null,
+    trip_updates boolean not null default true,
+    account boolean not null default true,
+    marketing boolean not null default true,
+    quiet_hours_start time without time zone,
+    quiet_hours_end time without time zone,
+    updated_at timestamp with time zone not null default now(),
+    constraint notification_preferences_pkey primary key (user_id),
+    constraint notification_preferences_user_id_fkey foreign key (user_id) references public.users (id) on delete cascade,
+    constraint notification_preferences_quiet_hours_check check (
+        (quiet_hours_start is null and quiet_hours_end is null)
+        or (quiet_hours_start is not null and quiet_hours_end is not null and quiet_hours_start <> quiet_hours_end)
+    )
+);
+
+alter table public.notification_preferences enable row level security;
+
+create policy "Admins can read notification preferences"
+  on public.notification_preferences
+  for select to authenticated
+  using (
+    exists (
+      select 1 from public.users u
+      where u.auth_id = auth.uid() and u.role = 'admin'
+    )
+  );
@@ -0,0 +1,88 @@
+-- Scheduled, segmented push campaigns (lib/notification-campaigns.ts).
+--
+-- A campaign is a push to a saved segment of drivers or riders, sent at scheduled_at. The segment
+-- (jsonb) filters by subscription status, and by having taken a trip in the last N days, optionally
+-- picked up in given cost_estimate_zones. When the campaign is due, GET /api/cron/notification-campaigns
+-- resolves the segment once into notification_campaign_recipients, then hands at most
+-- throttle_per_minute recipients per run to the message outbox, until none are pending.
+--
+-- Sends honour notification preferences for the campaign's category (recipients skipped then are
+-- 'suppressed'). Every message_logs row the campaign writes has metadata.campaign_id, which the
+-- campaign report reads; its query repeats the partial index's predicate so the index is used.
+
+create table public.notification_campaigns (
+    id uuid not null default gen_random_uuid(),
+    name text not null,
+    audience text not null,
+    segment jsonb not null default '{}'::jsonb,
+    category text not null default 'marketing',
+    -- A custom notification template, or a title and body
+    template_key text,
+    title text,
+    body text,
+    data jsonb,
+    scheduled_at timestamp with time zone not null,
+    throttle_per_minute integer not null default 500,
+    status text not null default 'scheduled',
+    recipient_count integer,
+    last_error text,
+    created_by uuid,
+    cancelled_by uuid,
+    started_at timestamp with time zone,
+    completed_at timestamp with time zone,
+    cancelled_at timestamp with time zone,
+    created_at timestamp with time zone not null default now(),
+    updated_at timestamp with time zone not null default now(),
+    constraint notification_campaigns_pkey primary key (id),
+    constraint notification_campaigns_created_by_fkey foreign key (created_by) references public.users (id) on delete set null,
+    constraint notification_campaigns_cancelled_by_fkey foreign key (cancelled_by) references public.users (id) on delete set null,
+    constraint notification_campaigns_audience_check check (audience in ('driver', 'rider')),
+    constraint notification_campaigns_category_check check (category in ('trip_updates', 'account', 'marketing', 'safety')),
+    constraint notification_campaigns_status_check check (status in ('scheduled', 'sending', 'sent', 'cancelled', 'failed')),
+    constraint notification_campaigns_text_check check (template_key is not null or (title is not null and body is not null)),
+    constraint notification_campaigns_throttle_check check (throttle_per_minute between 1 and 10000)
+);
+
+create index notification_campaigns_due_idx
+  on public.notification_campaigns (status, scheduled_at);
+
+create table public.notification_campaign_recipients (
+    campaign_id uuid not null,
+    user_id uuid not null,
+    status text not null default 'pending',
+    updated_at timestamp with time zone not null default now(),
+    constraint notification_campaign_recipients_pkey primary key (campaign_id, user_id),
+    constraint notification_campaign_recipients_campaign_fkey foreign key (campaign_id) references public.notification_campaigns (id) on delete cascade,
+    constraint notification_campaign_recipients_user_fkey foreign key (user_id) references public.users (id) on delete cascade,
+    constraint notification_campaign_recipients_status_check check (status in ('pending', 'processing', 'queued', 'suppressed', 'failed'))
+);
+
+create index notification_campaign_recipients_status_idx
+  on public.notification_campaign_recipients (campaign_id, status);
+
+create index message_logs_campaign_id_idx
+  on public.message_logs ((metadata ->> 'campaign_id'))
+  where (metadata ->> 'campaign_id') is not null;
+
+alter table public.notification_campaigns enable row level security;
+alter table public.notification_campaign_recipients enable row level security;
+
+create policy "Admins can read notification campaigns"
+  on public.notification_campaigns
+  for select to authenticated
+  using (
+    exists (
+      select 1 from public.users u
+      where u.auth_id = auth.uid() and u.role = 'admin'
+    )
+  );
+
+create policy "Admins can read notification campaign recipients"
+  on public.notification_campaign_recipients
+  for select to authenticated
+  using (
+    exists (
+      select 1 from public.users u
+      where u.auth_id = auth.uid() and u.role = 'admin'
+    )
+  );
@@ -0,0 +1,41 @@
+-- Refunds of a payment can never add up to more than the payment.
+--
+-- requestRefund checks the refundable balance, but two requests at the same time (or a failed refund
+-- approved again) could still pass it together. This trigger takes the payment row lock, so refunds
+-- of one payment are checked one at a time, and counts every refund of the payment that isn't
+-- rejected, as app/admin/payments/refunds.ts does.
+
+create or replace function public.enforce_payment_refund_limit()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_amount numeric(10,2);
+  v_refunded numeric(10,2);
+begin
+  if new.status = 'rejected' then
+    return new;
+  end if;
+
+  select amount into v_amount
+  from public.payment_transactions
+  where id = new.payment_transaction_id
+  for update;
+
+  select coalesce(sum(amount), 0) into v_refunded
+  from public.payment_refunds
+  where payment_transaction_id = new.payment_transaction_id
+    and status <> 'rejected'
+    and id <> new.id;
+
+  if v_refunded + new.amount > v_amount then
+    raise exception 'Refunds would exceed the payment amount'
+      using errcode = 'P0001', hint = 'refund_exceeds_payment';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger enforce_payment_refund_limit
+  before insert or update of status, amount on public.payment_refunds
+  for each row execute function public.enforce_payment_refund_limit();
@@ -0,0 +1,19 @@
+-- One subscription per settled payment (lib/payments/grant-subscription.ts).
+--
+-- grantSubscriptionForPayment reuses a subscription already created for the MMG transaction (or,
+-- for a free promo checkout, the payment id), but that check and the insert are separate
+-- statements. A webhook and an admin replay, or a webhook and payment reconciliation, settling the
+-- same payment at once could both insert. This index makes the second insert fail; the grant then
+-- links the first one.
+--
+-- Manual subscriptions are left out: their reference is free text an admin types.
+--
+-- Duplicates already in the table make this migration fail. Find them with
+--   select payment_method, payment_reference, count(*) from public.subscriptions
+--   where payment_method in ('mmg', 'promo') and payment_reference is not null
+--   group by 1, 2 having count(*) > 1;
+-- and cancel or re-reference the extra rows first.
+
+create unique index subscriptions_payment_reference_key
+  on public.subscriptions (payment_method, payment_reference)
+  where payment_method in ('mmg', 'promo') and payment_reference is not null;
@@ -9,12 +9,52 @@ export type Json =
 export type UserRole = 'rider' | 'driver' | 'admin'
 export type VerificationStatus = 'pending' | 'approved' | 'rejected' | 'suspended'
 export type SubscriptionStatus = 'active' | 'expired' | 'cancelled' | 'trial'
-export type TripStatus = 'requested' | 'accepted' | 'picked_up' | 'completed' | 'cancelled'
+export type ManualSubscriptionAction = 'grant' | 'extend' | 'revoke'
+export type ManualSubscriptionReason =
+  | 'outage_compensation'
+  | 'cash_payment'
+  | 'goodwill'
+  | 'billing_correction'
+  | 'granted_in_error'
+  | 'policy_violation'
+  | 'other'
+export type TripStatus = 'requested' | 'accepted' | 'arrived' | 'picked_up' | 'completed' | 'cancelled'
 export type TripType = 'airport' | 'short_drop' | 'market' | 'other'
-export type PaymentStatus = 'pending' | 'completed' | 'failed' | 'refunded'
+export type PaymentStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'refunded'
+export type PaymentPurpose = 'subscription' | 'commission'
+export type DriverBillingMode = 'subscription' | 'commission'
+export type MmgWebhookReplayOutcome =
+  | 'completed'
+  | 'already_completed'
+  | 'in_progress'
+  | 'failed'
+  | 'ignored'
+  | 'not_found'
+  | 'error'
+export type MessageLogStatus = 'queued' | 'sent' | 'delivered' | 'undelivered' | 'failed'
+export type MessageChannel = 'sms' | 'push'
+export type OutboxJobStatus = 'pending' | 'processing' | 'sent' | 'dead'
+export type NotificationLocale = 'en' | 'gyn'
+export type NotificationCategory = 'trip_updates' | 'account' | 'marketing' | 'safety'
+export type NotificationCampaignStatus = 'scheduled' | 'sending' | 'sent' | 'cancelled' | 'failed'
+export type CampaignRecipientStatus = 'pending' | 'processing' | 'queued' | 'suppressed' | 'failed'
+export type PaymentRefundStatus = 'pending_approval' | 'approved' | 'processed' | 'failed' | 'rejected'
 export type AppVersionAppType = 'driver' | 'rider'
 export type AppVersionPlatform = 'ios' | 'android'
 export type AgreementAudience = 'driver' | 'rider'
+export type SubscriptionAudience = 'driver' | 'rider'
+export type PromoDiscountType = 'percent' | 'fixed'
+export type PromoRedemptionStatus = 'pending' | 'redeemed' | 'released'
+export type LedgerSource = 'payment' | 'refund' | 'adjustment'
+export type LedgerAccount =
+  | 'cash:mmg'
+  | 'cash:manual'
+  | 'revenue:subscriptions'
+  | 'revenue:commissions'
+  | 'revenue:adjustments'
+  | 'contra:promo_discounts'
+  | 'contra:refunds'
+export type FareSurchargeKind = 'night' | 'peak' | 'holiday'
 
 export type IncidentCategory =
   | 'safety_concern'
@@ -50,8 +90,11 @@ export interface Database {
           updated_at: string
           last_seen_at: string | null
           fcm_token: string | null
+          preferred_locale: NotificationLocale
+        }
+        Insert: Omit<Database['public']['Tables']['users']['Row'], 'id' | 'created_at' | 'updated_at' | 'preferred_locale'> & {
+          preferred_locale?: NotificationLocale
         }
-        Insert: Omit<Database['public']['Tables']['users']['Row'], 'id' | 'created_at' | 'updated_at'>
         Update: Partial<Database['public']['Tables']['users']['Insert']>
         Relationships: []
       }
@@ -103,10 +146,16 @@ export interface Database {
           rating_count: number
           acceptance_rate: number
           mmg_account_number: string | null
+          billing_mode: DriverBillingMode
+          commission_rate_percent: number | null
           created_at: string
           updated_at: string
         }
-        Insert: Omit<Database['public']['Tables']['driver_profiles']['Row'], 'id' | 'created_at' | 'updated_at'>
+        Insert: Omit<
+          Database['public']['Tables']['driver_profiles']['Row'],
+          'id' | 'created_at' | 'updated_at' | 'billing_mode' | 'commission_rate_percent'
+        > &
+          Partial<Pick<Database['public']['Tables']['driver_profiles']['Row'], 'billing_mode' | 'commission_rate_percent'>>
         Update: Partial<Database['public']['Tables']['driver_profiles']['Insert']>
         Relationships: []
       }
@@ -154,6 +203,7 @@ export interface Database {
           actual_duration_minutes: number | null
           estimated_fare: number | null
           actual_fare: number | null
+          request_id: string | null
           requested_at: string
           accepted_at: string | null
           picked_up_at: string | null
@@ -184,13 +234,59 @@ export interface Database {
           payment_method: string | null
           payment_reference: string | null
           payment_date: string | null
+          manual_action: ManualSubscriptionAction | null
+          reason_code: ManualSubscriptionReason | null
+          reason_note: string | null
+          granted_by: string | null
+          previous_end_date: string | null
           created_at: string
           updated_at: string
         }
-        Insert: Omit<Database['public']['Tables']['subscriptions']['Row'], 'id' | 'created_at' | 'updated_at'>
+        Insert: Omit<
+          Database['public']['Tables']['subscriptions']['Row'],
+          'id' | 'created_at' | 'updated_at' | 'manual_action' | 'reason_code' | 'reason_note' | 'granted_by' | 'previous_end_date'
+        > &
+          Partial<
+            Pick<
+              Database['public']['Tables']['subscriptions']['Row'],
+              'manual_action' | 'reason_code' | 'reason_note' | 'granted_by' | 'previous_end_date'
+            >
+          >
         Update: Partial<Database['public']['Tables']['subscriptions']['Insert']>
         Relationships: []
       }
+      subscription_plans: {
+        Row: {
+          code: string
+          audience: SubscriptionAudience
+          label: string
+          description: string | null
+          price: number
+          currency: string
+          term_days: number
+          trial_days: number
+          is_active: boolean
+          sort_order: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          code: string
+          audience: SubscriptionAudience
+          label: string
+          description?: string | null
+          price: number
+          currency?: string
+          term_days: number
+          trial_days?: number
+          is_active?: boolean
+          sort_order?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: Partial<Database['public']['Tables']['subscription_plans']['Insert']>
+        Relationships: []
+      }
       payment_transactions: {
         Row: {
           id: string
@@ -209,12 +305,314 @@ export interface Database {
           initiated_at: string
           completed_at: string | null
           subscription_start_date: string | null
+          plan_code: string | null
+          promo_code_id: string | null
+          original_amount: number | null
+          discount_amount: number
+          purpose: PaymentPurpose
           created_at: string
         }
-        Insert: Omit<Database['public']['Tables']['payment_transactions']['Row'], 'id' | 'created_at' | 'transaction_number'>
+        Insert: Omit<
+          Database['public']['Tables']['payment_transactions']['Row'],
+          'id' | 'created_at' | 'transaction_number' | 'plan_code' | 'promo_code_id' | 'original_amount' | 'discount_amount' | 'purpose'
+        > & {
+          purpose?: PaymentPurpose
+          plan_code?: string | null
+          promo_code_id?: string | null
+          original_amount?: number | null
+          discount_amount?: number
+        }
         Update: Partial<Database['public']['Tables']['payment_transactions']['Insert']>
         Relationships: []
       }
+      promo_codes: {
+        Row: {
+          id: string
+          code: string
+          description: string | null
+          discount_type: PromoDiscountType
+          discount_value: number
+          audience: SubscriptionAudience | null
+          first_subscription_only: boolean
+          max_redemptions: number | null
+          starts_at: string | null
+          expires_at: string | null
+          is_active: boolean
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['promo_codes']['Row'], 'id' | 'created_at' | 'updated_at'>
+        Update: Partial<Database['public']['Tables']['promo_codes']['Insert']>
+        Relationships: []
+      }
+      promo_redemptions: {
+        Row: {
+          id: string
+          promo_code_id: string
+          user_id: string
+          payment_transaction_id: string
+          status: PromoRedemptionStatus
+          original_amount: number
+          discount_amount: number
+          final_amount: number
+          created_at: string
+          redeemed_at: string | null
+          released_at: string | null
+        }
+        Insert: {
+          promo_code_id: string
+          user_id: string
+          payment_transaction_id: string
+          status?: PromoRedemptionStatus
+          original_amount: number
+          discount_amount: number
+          final_amount: number
+        }
+        Update: Partial<Pick<Database['public']['Tables']['promo_redemptions']['Row'], 'status' | 'redeemed_at' | 'released_at'>>
+        Relationships: []
+      }
+      subscription_reminders: {
+        Row: {
+          id: string
+          user_id: string
+          role: SubscriptionAudience
+          subscription_end_date: string
+          kind: 'reminder' | 'grace' | 'expired'
+          days_before: number | null
+          channels: string[]
+          sent_at: string
+        }
+        Insert: {
+          user_id: string
+          role: SubscriptionAudience
+          subscription_end_date: string
+          kind: 'reminder' | 'grace' | 'expired'
+          days_before?: number | null
+          channels?: string[]
+          sent_at?: string
+        }
+        Update: Partial<Database['public']['Tables']['subscription_reminders']['Insert']>
+        Relationships: []
+      }
+      payment_refunds: {
+        Row: {
+          id: string
+          payment_transaction_id: string
+          amount: number
+          currency: string
+          reason: string
+          status: PaymentRefundStatus
+          requested_by: string
+          requested_at: string
+          decided_by: string | null
+          decided_at: string | null
+          decision_note: string | null
+          provider: string | null
+          provider_reference: string | null
+          provider_response: Json | null
+          processed_at: string | null
+          error_message: string | null
+          subscription_id: string | null
+          subscription_action: 'none' | 'shortened' | 'cancelled' | null
+          subscription_end_before: string | null
+          subscription_end_after: string | null
+        }
+        Insert: {
+          payment_transaction_id: string
+          amount: number
+          currency?: string
+          reason: string
+          status?: PaymentRefundStatus
+          requested_by: string
+          requested_at?: string
+          subscription_id?: string | null
+        }
+        Update: Partial<Omit<Database['public']['Tables']['payment_refunds']['Row'], 'id' | 'payment_transaction_id' | 'requested_by'>>
+        Relationships: []
+      }
+      ledger_entries: {
+        Row: {
+          id: string
+          journal_id: string
+          source: LedgerSource
+          source_id: string
+          account: LedgerAccount
+          debit: number
+          credit: number
+          currency: string
+          occurred_at: string
+          user_id: string | null
+          user_role: SubscriptionAudience | null
+          plan_code: string | null
+          memo: string | null
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          journal_id: string
+          source: LedgerSource
+          source_id: string
+          account: LedgerAccount
+          debit?: number
+          credit?: number
+          currency?: string
+          occurred_at: string
+          user_id?: string | null
+          user_role?: SubscriptionAudience | null
+          plan_code?: string | null
+          memo?: string | null
+          created_by?: string | null
+        }
+        Update: Record<string, never>
+        Relationships: []
+      }
+      payment_receipts: {
+        Row: {
+          id: string
+          payment_transaction_id: string
+          receipt_number: string
+          issued_at: string
+          user_id: string | null
+          payer_name: string
+          payer_phone: string | null
+          plan_code: string | null
+          plan_label: string
+          period_start: string | null
+          period_end: string | null
+          original_amount: number
+          discount_amount: number
+          amount: number
+          currency: string
+          payment_method: string
+          payment_reference: string | null
+          paid_at: string
+          pdf_storage_path: string | null
+        }
+        Insert: Omit<
+          Database['public']['Tables']['payment_receipts']['Row'],
+          'id' | 'receipt_number' | 'issued_at' | 'discount_amount' | 'currency' | 'pdf_storage_path'
+        > & {
+          discount_amount?: number
+          currency?: string
+          pdf_storage_path?: string | null
+        }
+        Update: { pdf_storage_path?: string | null }
+        Relationships: []
+      }
+      mmg_webhook_logs: {
+        Row: {
+          id: string
+          merchant_transaction_id: string | null
+          transaction_id: string | null
+          result_code: number | null
+          result_message: string | null
+          html_response: string | null
+          raw_body: Json | null
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['mmg_webhook_logs']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['mmg_webhook_logs']['Insert']>
+        Relationships: []
+      }
+      mmg_webhook_replays: {
+        Row: {
+          id: string
+          webhook_log_id: string
+          payment_transaction_id: string | null
+          replayed_by: string
+          status_before: PaymentStatus | null
+          status_after: PaymentStatus | null
+          outcome: MmgWebhookReplayOutcome
+          error_message: string | null
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['mmg_webhook_replays']['Row'], 'id' | 'created_at'>
+        Update: Record<string, never>
+        Relationships: []
+      }
+      driver_commission_accruals: {
+        Row: {
+          id: string
+          driver_id: string
+          trip_id: string
+          fare: number
+          rate_percent: number
+          amount: number
+          currency: string
+          accrued_at: string
+          statement_id: string | null
+          created_at: string
+        }
+        Insert: {
+          driver_id: string
+          trip_id: string
+          fare: number
+          rate_percent: number
+          amount: number
+          currency?: string
+          accrued_at: string
+          statement_id?: string | null
+        }
+        Update: {
+          statement_id?: string | null
+        }
+        Relationships: []
+      }
+      driver_commission_statements: {
+        Row: {
+          id: string
+          driver_id: string
+          period_start: string
+          period_end: string
+          currency: string
+          opening_balance: number
+          trip_count: number
+          fares_total: number
+          commission_total: number
+          payments_total: number
+          closing_balance: number
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['driver_commission_statements']['Row'], 'id' | 'created_at'>
+        Update: Record<string, never>
+        Relationships: []
+      }
+      payment_reconciliation_runs: {
+        Row: {
+          id: string
+          trigger: 'scheduled' | 'manual'
+          triggered_by: string | null
+          older_than_minutes: number
+          abandon_after_hours: number
+          started_at: string
+          finished_at: string | null
+          checked: number
+          completed: number
+          failed: number
+          unchanged: number
+          errored: number
+          results: Json
+          error: string | null
+        }
+        Insert: {
+          trigger: 'scheduled' | 'manual'
+          triggered_by?: string | null
+          older_than_minutes: number
+          abandon_after_hours: number
+          started_at?: string
+          finished_at?: string | null
+          checked?: number
+          completed?: number
+          failed?: number
+          unchanged?: number
+          errored?: number
+          results?: Json
+          error?: string | null
+        }
+        Update: Partial<Database['public']['Tables']['payment_reconciliation_runs']['Insert']>
+        Relationships: []
+      }
       notifications: {
         Row: {
           id: string
@@ -262,6 +660,7 @@ export interface Database {
           estimated_distance_km: number | null
           estimated_duration_minutes: number | null
           estimated_fare: number | null
+          fare_estimate_id: string | null
           notes: string | null
           passenger_count: number
           status: TripStatus
@@ -285,7 +684,7 @@ export interface Database {
           actor_id: string | null
         }
         Insert: Omit<Database['public']['Tables']['audit_logs']['Row'], 'id'>
-        Update: never
+        Update: Record<string, never>
         Relationships: []
       }
       app_version_config: {
@@ -344,12 +743,16 @@ export interface Database {
           recipient_phone: string | null
           title: string | null
           message: string
-          status: 'sent' | 'failed'
+          status: MessageLogStatus
           sent_by_user_id: string | null
           external_id: string | null
           notification_type: string | null
           audience: string | null
           metadata: Json | null
+          provider: string | null
+          status_updated_at: string | null
+          error_code: string | null
+          error_message: string | null
           created_at: string
         }
         Insert: {
@@ -359,17 +762,197 @@ export interface Database {
           recipient_phone?: string | null
           title?: string | null
           message: string
-          status: 'sent' | 'failed'
+          status: MessageLogStatus
           sent_by_user_id?: string | null
           external_id?: string | null
           notification_type?: string | null
           audience?: string | null
           metadata?: Json | null
+          provider?: string | null
+          status_updated_at?: string | null
+          error_code?: string | null
+          error_message?: string | null
           created_at?: string
         }
         Update: Partial<Database['public']['Tables']['message_logs']['Insert']>
         Relationships: []
       }
+      message_outbox: {
+        Row: {
+          id: string
+          channel: MessageChannel
+          payload: Json
+          message_log_id: string | null
+          status: OutboxJobStatus
+          attempts: number
+          max_attempts: number
+          next_attempt_at: string
+          last_attempt_at: string | null
+          locked_at: string | null
+          last_error: string | null
+          sent_at: string | null
+          dead_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          channel: MessageChannel
+          payload: Json
+          message_log_id?: string | null
+          status?: OutboxJobStatus
+          attempts?: number
+          max_attempts?: number
+          next_attempt_at?: string
+          last_attempt_at?: string | null
+          locked_at?: string | null
+          last_error?: string | null
+          sent_at?: string | null
+          dead_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: Partial<Database['public']['Tables']['message_outbox']['Insert']>
+        Relationships: []
+      }
+      notification_templates: {
+        Row: {
+          id: string
+          key: string
+          name: string
+          description: string | null
+          is_system: boolean
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          key: string
+          name: string
+          description?: string | null
+          is_system?: boolean
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: Partial<Database['public']['Tables']['notification_templates']['Insert']>
+        Relationships: []
+      }
+      notification_template_variants: {
+        Row: {
+          id: string
+          template_key: string
+          locale: NotificationLocale
+          channel: MessageChannel
+          title: string | null
+          body: string
+          updated_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          template_key: string
+          locale: NotificationLocale
+          channel: MessageChannel
+          title?: string | null
+          body: string
+          updated_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: Partial<Database['public']['Tables']['notification_template_variants']['Insert']>
+        Relationships: []
+      }
+      notification_preferences: {
+        Row: {
+          user_id: string
+          trip_updates: boolean
+          account: boolean
+          marketing: boolean
+          quiet_hours_start: string | null
+          quiet_hours_end: string | null
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          trip_updates?: boolean
+          account?: boolean
+          marketing?: boolean
+          quiet_hours_start?: string | null
+          quiet_hours_end?: string | null
+          updated_at?: string
+        }
+        Update: Partial<Database['public']['Tables']['notification_preferences']['Insert']>
+        Relationships: []
+      }
+      notification_campaigns: {
+        Row: {
+          id: string
+          name: string
+          audience: 'driver' | 'rider'
+          segment: Json
+          category: NotificationCategory
+          template_key: string | null
+          title: string | null
+          body: string | null
+          data: Json | null
+          scheduled_at: string
+          throttle_per_minute: number
+          status: NotificationCampaignStatus
+          recipient_count: number | null
+          last_error: string | null
+          created_by: string | null
+          cancelled_by: string | null
+          started_at: string | null
+          completed_at: string | null
+          cancelled_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          audience: 'driver' | 'rider'
+          segment?: Json
+          category?: NotificationCategory
+          template_key?: string | null
+          title?: string | null
+          body?: string | null
+          data?: Json | null
+          scheduled_at: string
+          throttle_per_minute?: number
+          status?: NotificationCampaignStatus
+          recipient_count?: number | null
+          last_error?: string | null
+          created_by?: string | null
+          cancelled_by?: string | null
+          started_at?: string | null
+          completed_at?: string | null
+          cancelled_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: Partial<Database['public']['Tables']['notification_campaigns']['Insert']>
+        Relationships: []
+      }
+      notification_campaign_recipients: {
+        Row: {
+          campaign_id: string
+          user_id: string
+          status: CampaignRecipientStatus
+          updated_at: string
+        }
+        Insert: {
+          campaign_id: string
+          user_id: string
+          status?: CampaignRecipientStatus
+          updated_at?: string
+        }
+        Update: Partial<Database['public']['Tables']['notification_campaign_recipients']['Insert']>
+        Relationships: []
+      }
       agreement_versions: {
         Row: {
           id: string
@@ -427,6 +1010,8 @@ export interface Database {
           code: string
           label: string
           sort_order: number
+          /** GeoJSON Polygon / MultiPolygon; null = classified by the legacy bounding boxes. */
+          boundary: Json | null
           created_at: string
           updated_at: string
         }
@@ -434,12 +1019,14 @@ export interface Database {
           code: string
           label?: string
           sort_order?: number
+          boundary?: Json | null
           created_at?: string
           updated_at?: string
         }
         Update: {
           label?: string
           sort_order?: number
+          boundary?: Json | null
           updated_at?: string
         }
         Relationships: []
@@ -486,6 +1073,166 @@ export interface Database {
           },
         ]
       }
+      fare_rule_sets: {
+        Row: {
+          id: string
+          version_label: string
+          notes: string | null
+          /** Charged once per intermediate stop on multi-stop estimates. */
+          stop_waiting_fee: number
+          activated_at: string | null
+          activated_by: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          version_label: string
+          notes?: string | null
+          stop_waiting_fee?: number
+          activated_at?: string | null
+          activated_by?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: Partial<Database['public']['Tables']['fare_rule_sets']['Insert']>
+        Relationships: []
+      }
+      fare_rules: {
+        Row: {
+          id: string
+          rule_set_id: string
+          priority: number
+          branch: string
+          pickup_zones: string[]
+          dropoff_zones: string[]
+          bidirectional: boolean
+          min_distance_km: number | null
+          max_distance_km: number | null
+          flat_amount: number | null
+          base_amount: number
+          base_distance_km: number
+          per_km_rate: number | null
+          brackets: Json | null
+          minimum_fare: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          rule_set_id: string
+          priority: number
+          branch: string
+          pickup_zones?: string[]
+          dropoff_zones?: string[]
+          bidirectional?: boolean
+          min_distance_km?: number | null
+          max_distance_km?: number | null
+          flat_amount?: number | null
+          base_amount?: number
+          base_distance_km?: number
+          per_km_rate?: number | null
+          brackets?: Json | null
+          minimum_fare?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: Partial<Database['public']['Tables']['fare_rules']['Insert']>
+        Relationships: [
+          {
+            foreignKeyName: 'fare_rules_rule_set_id_fkey'
+            columns: ['rule_set_id']
+            isOneToOne: false
+            referencedRelation: 'fare_rule_sets'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      fare_surcharges: {
+        Row: {
+          id: string
+          rule_set_id: string
+          kind: FareSurchargeKind
+          label: string
+          iso_weekdays: number[]
+          start_time: string | null
+          end_time: string | null
+          multiplier: number | null
+          flat_amount: number | null
+          sort_order: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          rule_set_id: string
+          kind: FareSurchargeKind
+          label: string
+          iso_weekdays?: number[]
+          start_time?: string | null
+          end_time?: string | null
+          multiplier?: number | null
+          flat_amount?: number | null
+          sort_order?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: Partial<Database['public']['Tables']['fare_surcharges']['Insert']>
+        Relationships: [
+          {
+            foreignKeyName: 'fare_surcharges_rule_set_id_fkey'
+            columns: ['rule_set_id']
+            isOneToOne: false
+            referencedRelation: 'fare_rule_sets'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      public_holidays: {
+        Row: {
+          holiday_date: string
+          name: string
+          created_at: string
+        }
+        Insert: {
+          holiday_date: string
+          name: string
+          created_at?: string
+        }
+        Update: Partial<Database['public']['Tables']['public_holidays']['Insert']>
+        Relationships: []
+      }
+      fare_estimate_logs: {
+        Row: {
+          id: string
+          pickup_latitude: number
+          pickup_longitude: number
+          pickup_address: string | null
+          input_dropoff: string
+          input_stops: string[]
+          pickup_at: string | null
+          dropoff_address: string | null
+          dropoff_latitude: number | null
+          dropoff_longitude: number | null
+          stop_addresses: string[]
+          locations: Json | null
+          pickup_zone: string | null
+          dropoff_zone: string | null
+          distance_km: number | null
+          status: 'PRICED' | 'NEGOTIATE'
+          branch: string | null
+          total: number | null
+          message: string | null
+          breakdown: string | null
+          rule_set_version: string | null
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['fare_estimate_logs']['Row'], 'id' | 'created_at'>
+        Update: Record<string, never>
+        Relationships: []
+      }
       incidents: {
         Row: {
           id: string
@@ -545,6 +1292,21 @@ export interface Database {
         }
         Relationships: []
       }
+      trip_status_history: {
+        Row: {
+          id: string
+          trip_id: string
+          from_status: TripStatus | null
+          to_status: TripStatus
+          changed_by: string | null
+          actor: 'driver' | 'rider' | 'admin' | 'system'
+          note: string | null
+          changed_at: string
+        }
+        Insert: never
+        Update: Record<string, never>
+        Relationships: []
+      }
       incident_status_history: {
         Row: {
           id: string
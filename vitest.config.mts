@@ -0,0 +1,13 @@
+import { fileURLToPath } from 'node:url'
+import { defineConfig } from 'vitest/config'
+
+// Unit tests for the Next app. The Deno edge functions have their own tests (`deno test`).
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('.', import.meta.url)) },
+  },
+  test: {
+    include: ['lib/**/*.test.ts', 'app/**/*.test.ts'],
+    environment: 'node',
+  },
+})